@@ -0,0 +1,30 @@
+-- Only possible while every blob is still in the DB: the bytes in the blob store can't be pulled back by SQL.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM message_attachments WHERE storage_key IS NOT NULL)
+     OR EXISTS (SELECT 1 FROM stickers WHERE storage_key IS NOT NULL)
+     OR EXISTS (SELECT 1 FROM users WHERE avatar_key IS NOT NULL) THEN
+    RAISE EXCEPTION 'blobs are stored outside the database; cannot revert 0002_blob_storage';
+  END IF;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_avatar_blob_replace ON users;
+DROP TRIGGER IF EXISTS users_avatar_blob_delete ON users;
+DROP TRIGGER IF EXISTS stickers_blob_delete ON stickers;
+DROP TRIGGER IF EXISTS message_attachments_blob_delete ON message_attachments;
+DROP FUNCTION IF EXISTS queue_avatar_blob_deletion();
+DROP FUNCTION IF EXISTS queue_blob_deletion();
+DROP TABLE IF EXISTS blob_deletions;
+
+ALTER TABLE users DROP COLUMN avatar_key;
+
+ALTER TABLE stickers
+  DROP CONSTRAINT stickers_data_or_key,
+  DROP COLUMN storage_key,
+  ALTER COLUMN data SET NOT NULL;
+
+ALTER TABLE message_attachments
+  DROP CONSTRAINT message_attachments_data_or_key,
+  DROP COLUMN storage_key,
+  ALTER COLUMN data SET NOT NULL;
@@ -0,0 +1,55 @@
+-- Attachment / sticker / avatar bytes move to the blob store (see src/storage.ts).
+-- Rows created before this keep their BYTEA until `npm run blobs:migrate` moves them.
+
+ALTER TABLE message_attachments
+  ADD COLUMN storage_key TEXT,
+  ALTER COLUMN data DROP NOT NULL,
+  ADD CONSTRAINT message_attachments_data_or_key CHECK (data IS NOT NULL OR storage_key IS NOT NULL);
+
+ALTER TABLE stickers
+  ADD COLUMN storage_key TEXT,
+  ALTER COLUMN data DROP NOT NULL,
+  ADD CONSTRAINT stickers_data_or_key CHECK (data IS NOT NULL OR storage_key IS NOT NULL);
+
+ALTER TABLE users
+  ADD COLUMN avatar_key TEXT;
+
+-- Blobs whose rows are gone (including via ON DELETE CASCADE); the backend deletes them from the store.
+CREATE TABLE blob_deletions (
+  storage_key TEXT PRIMARY KEY,
+  queued_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE FUNCTION queue_blob_deletion() RETURNS trigger AS $$
+BEGIN
+  INSERT INTO blob_deletions (storage_key) VALUES (OLD.storage_key) ON CONFLICT DO NOTHING;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION queue_avatar_blob_deletion() RETURNS trigger AS $$
+BEGIN
+  INSERT INTO blob_deletions (storage_key) VALUES (OLD.avatar_key) ON CONFLICT DO NOTHING;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER message_attachments_blob_delete
+  AFTER DELETE ON message_attachments
+  FOR EACH ROW WHEN (OLD.storage_key IS NOT NULL)
+  EXECUTE FUNCTION queue_blob_deletion();
+
+CREATE TRIGGER stickers_blob_delete
+  AFTER DELETE ON stickers
+  FOR EACH ROW WHEN (OLD.storage_key IS NOT NULL)
+  EXECUTE FUNCTION queue_blob_deletion();
+
+CREATE TRIGGER users_avatar_blob_delete
+  AFTER DELETE ON users
+  FOR EACH ROW WHEN (OLD.avatar_key IS NOT NULL)
+  EXECUTE FUNCTION queue_avatar_blob_deletion();
+
+CREATE TRIGGER users_avatar_blob_replace
+  AFTER UPDATE OF avatar_key ON users
+  FOR EACH ROW WHEN (OLD.avatar_key IS NOT NULL AND OLD.avatar_key IS DISTINCT FROM NEW.avatar_key)
+  EXECUTE FUNCTION queue_avatar_blob_deletion();
@@ -0,0 +1,2 @@
+INSERT INTO blob_deletions (storage_key) SELECT storage_key FROM uploads ON CONFLICT DO NOTHING;
+DROP TABLE IF EXISTS uploads;
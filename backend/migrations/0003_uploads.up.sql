@@ -0,0 +1,14 @@
+-- Files uploaded via POST /uploads, waiting to be referenced by a message / sticker / avatar.
+-- Claiming an upload deletes its row and hands storage_key over; unclaimed rows expire.
+CREATE TABLE uploads (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('attachment', 'sticker', 'avatar')),
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL,
+  storage_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_uploads_owner ON uploads(owner_id);
+CREATE INDEX idx_uploads_created_at ON uploads(created_at);
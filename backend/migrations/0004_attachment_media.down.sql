@@ -0,0 +1,7 @@
+-- DROP TABLE doesn't fire the delete trigger; queue the generated blobs explicitly.
+INSERT INTO blob_deletions (storage_key) SELECT storage_key FROM attachment_variants ON CONFLICT DO NOTHING;
+DROP TABLE IF EXISTS attachment_variants;
+
+ALTER TABLE message_attachments
+  DROP COLUMN height,
+  DROP COLUMN width;
@@ -0,0 +1,21 @@
+-- Intrinsic size of image / video attachments (so clients can reserve space before loading),
+-- plus the WebP thumbnails and MP4 poster frames generated for them. NULL = unknown (older rows, probe failed).
+ALTER TABLE message_attachments
+  ADD COLUMN width INTEGER,
+  ADD COLUMN height INTEGER;
+
+CREATE TABLE attachment_variants (
+  attachment_id TEXT NOT NULL REFERENCES message_attachments(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('thumbnail', 'poster')),
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  mime_type TEXT NOT NULL,
+  storage_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (attachment_id, kind, width)
+);
+
+CREATE TRIGGER attachment_variants_blob_delete
+  AFTER DELETE ON attachment_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_blob_deletion();
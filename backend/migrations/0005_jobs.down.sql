@@ -0,0 +1,7 @@
+DROP TRIGGER IF EXISTS message_attachments_blob_replace ON message_attachments;
+
+ALTER TABLE message_attachments
+  DROP COLUMN error,
+  DROP COLUMN status;
+
+DROP TABLE IF EXISTS jobs;
@@ -0,0 +1,29 @@
+-- Background work (media transcode / thumbnails, ...) picked up by the worker in src/jobs.ts.
+-- Finished jobs are deleted; failed ones stay for a while with their last error.
+CREATE TABLE jobs (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_jobs_runnable ON jobs(run_at) WHERE status = 'queued';
+CREATE INDEX idx_jobs_running ON jobs(locked_at) WHERE status = 'running';
+
+-- processing: a media job is still working on it; failed: it gave up (error holds the code)
+ALTER TABLE message_attachments
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'ready' CHECK (status IN ('processing', 'ready', 'failed')),
+  ADD COLUMN error TEXT;
+
+-- the transcoded MP4 replaces the uploaded original under a new key
+CREATE TRIGGER message_attachments_blob_replace
+  AFTER UPDATE OF storage_key ON message_attachments
+  FOR EACH ROW WHEN (OLD.storage_key IS NOT NULL AND OLD.storage_key IS DISTINCT FROM NEW.storage_key)
+  EXECUTE FUNCTION queue_blob_deletion();
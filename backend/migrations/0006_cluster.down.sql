@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS cluster_messages;
+DROP TABLE IF EXISTS cluster_presence;
+DROP TABLE IF EXISTS cluster_instances;
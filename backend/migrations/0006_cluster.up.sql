@@ -0,0 +1,28 @@
+-- Several backend processes behind one proxy: realtime fan-out goes over LISTEN/NOTIFY (src/cluster.ts),
+-- these tables hold what NOTIFY can't.
+
+-- live backend processes; rows whose heartbeat stops are reaped together with their presence
+CREATE TABLE cluster_instances (
+  instance_id TEXT PRIMARY KEY,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- users with at least one WebSocket on that instance
+CREATE TABLE cluster_presence (
+  instance_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  connected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (instance_id, user_id)
+);
+
+CREATE INDEX idx_cluster_presence_user ON cluster_presence(user_id);
+
+-- events over the NOTIFY payload limit (8000 bytes); the notification only carries the id
+CREATE TABLE cluster_messages (
+  id BIGSERIAL PRIMARY KEY,
+  payload TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cluster_messages_created_at ON cluster_messages(created_at);
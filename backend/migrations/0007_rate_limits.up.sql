@@ -0,0 +1,9 @@
+-- Fixed-window rate limit counters (RATE_LIMIT_STORE=postgres, src/ratelimit.ts).
+-- key = "<limit name>:u:<userId>" or "<limit name>:ip:<address>"
+CREATE TABLE rate_limits (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL,
+  reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_rate_limits_reset_at ON rate_limits(reset_at);
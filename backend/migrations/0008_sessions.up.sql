@@ -0,0 +1,21 @@
+-- Login sessions: access tokens are short-lived and name their session (sid); refresh tokens rotate on every use.
+-- Deleting a row logs that device out (its access token stops working and its WebSockets are closed).
+CREATE TABLE sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- sha256 of the current refresh token (the token itself is never stored)
+  refresh_token_hash TEXT NOT NULL UNIQUE,
+  -- the refresh token it replaced; seeing that one again means it was copied, and the session is revoked
+  previous_refresh_hash TEXT,
+  device_label TEXT NOT NULL DEFAULT '',
+  user_agent TEXT NOT NULL DEFAULT '',
+  created_ip TEXT,
+  last_ip TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_sessions_user ON sessions(user_id);
+CREATE INDEX idx_sessions_previous_refresh ON sessions(previous_refresh_hash);
+CREATE INDEX idx_sessions_expires_at ON sessions(expires_at);
@@ -0,0 +1,3 @@
+ALTER TABLE passkey_credentials
+  DROP COLUMN IF EXISTS last_used_at,
+  DROP COLUMN IF EXISTS name;
@@ -0,0 +1,5 @@
+-- Passkeys can be managed from a logged-in session (list / add / rename / remove).
+-- name: shown in the settings UI ('' = not named yet, e.g. passkeys registered before this migration)
+ALTER TABLE passkey_credentials
+  ADD COLUMN name TEXT NOT NULL DEFAULT '',
+  ADD COLUMN last_used_at TIMESTAMPTZ;
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS recovery_enrollments;
+DROP TABLE IF EXISTS recovery_codes;
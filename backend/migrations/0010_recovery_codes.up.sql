@@ -0,0 +1,24 @@
+-- One-time recovery codes (sha256 only) for users who lost every passkey.
+-- A code is traded for a recovery_enrollments row, which allows registering one new passkey.
+CREATE TABLE recovery_codes (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_recovery_codes_user ON recovery_codes(user_id);
+
+-- short-lived: created by a valid code, consumed by the passkey registration
+CREATE TABLE recovery_enrollments (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  -- WebAuthn challenge of the registration in progress (kept apart from users.current_challenge)
+  challenge TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_recovery_enrollments_expires_at ON recovery_enrollments(expires_at);
@@ -0,0 +1,11 @@
+-- Challenges for logins that don't name a user (discoverable passkeys / autofill).
+-- users.current_challenge can't be used because the user is only known after verification.
+-- Rows are single-use (deleted on verify) and swept after expiry.
+CREATE TABLE webauthn_challenges (
+  id TEXT PRIMARY KEY,
+  challenge TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_webauthn_challenges_expires_at ON webauthn_challenges(expires_at);
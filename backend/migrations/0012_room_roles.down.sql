@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS room_member_roles;
+DROP TABLE IF EXISTS room_roles;
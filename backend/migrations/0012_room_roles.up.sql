@@ -0,0 +1,23 @@
+-- Room roles: named permission sets the room owner assigns to members.
+-- permissions is a bitfield (see ROOM_PERMISSIONS in src/index.ts); the owner implicitly has every bit.
+CREATE TABLE room_roles (
+  id TEXT PRIMARY KEY,
+  room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  permissions INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_room_roles_room ON room_roles(room_id, created_at);
+
+-- leaving / being kicked drops the member's roles with the membership
+CREATE TABLE room_member_roles (
+  room_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role_id TEXT NOT NULL REFERENCES room_roles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (role_id, user_id),
+  FOREIGN KEY (room_id, user_id) REFERENCES room_members(room_id, user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_room_member_roles_member ON room_member_roles(room_id, user_id);
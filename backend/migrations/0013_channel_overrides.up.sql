@@ -0,0 +1,14 @@
+-- Per-channel allow/deny overrides on top of the default (members can do everything in a channel).
+-- target_type 'everyone' (target_id ''), 'role' (room_roles.id) or 'member' (users.id);
+-- allow / deny are bitfields of CHANNEL_PERMISSIONS in src/index.ts.
+CREATE TABLE channel_permission_overrides (
+  channel_id TEXT NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('everyone', 'role', 'member')),
+  target_id TEXT NOT NULL DEFAULT '',
+  allow INTEGER NOT NULL DEFAULT 0,
+  deny INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (channel_id, target_type, target_id)
+);
+
+CREATE INDEX idx_channel_permission_overrides_target ON channel_permission_overrides(target_type, target_id);
@@ -0,0 +1,8 @@
+DROP INDEX IF EXISTS idx_audit_logs_instance_created;
+DROP TABLE IF EXISTS instance_settings;
+DROP INDEX IF EXISTS idx_users_admin;
+ALTER TABLE users
+  DROP COLUMN IF EXISTS suspended_reason,
+  DROP COLUMN IF EXISTS suspended_at,
+  DROP COLUMN IF EXISTS can_create_rooms,
+  DROP COLUMN IF EXISTS is_admin;
@@ -0,0 +1,22 @@
+-- Instance administration: site admins, suspended accounts and the room-creation policy.
+ALTER TABLE users
+  ADD COLUMN is_admin BOOLEAN NOT NULL DEFAULT false,
+  -- allowlist for the 'allowlist' room-creation policy
+  ADD COLUMN can_create_rooms BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN suspended_at TIMESTAMPTZ,
+  ADD COLUMN suspended_reason TEXT;
+
+-- the first registered user used to be the only one allowed to create rooms and see the admin views
+UPDATE users SET is_admin = true WHERE id = (SELECT id FROM users ORDER BY created_at ASC LIMIT 1);
+
+CREATE INDEX idx_users_admin ON users(id) WHERE is_admin;
+
+-- Instance-wide settings edited from the admin console; src/index.ts falls back to defaults for missing keys.
+CREATE TABLE instance_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_logs_instance_created ON audit_logs(created_at DESC) WHERE room_id IS NULL;
@@ -0,0 +1,8 @@
+DELETE FROM webauthn_challenges WHERE purpose = 'register';
+ALTER TABLE webauthn_challenges
+  DROP COLUMN IF EXISTS signup_invite,
+  DROP COLUMN IF EXISTS display_name,
+  DROP COLUMN IF EXISTS user_id,
+  DROP COLUMN IF EXISTS purpose;
+ALTER TABLE users DROP COLUMN IF EXISTS signup_invite;
+DROP TABLE IF EXISTS signup_invites;
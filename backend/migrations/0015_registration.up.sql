@@ -0,0 +1,30 @@
+-- Signup invites minted by instance admins; required by the 'invite' registration mode.
+CREATE TABLE signup_invites (
+  code TEXT PRIMARY KEY,
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  note TEXT NOT NULL DEFAULT '',
+  uses INT NOT NULL DEFAULT 0,
+  max_uses INT NOT NULL DEFAULT 1,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_signup_invites_created ON signup_invites(created_at DESC);
+
+-- the invite an account signed up with
+ALTER TABLE users ADD COLUMN signup_invite TEXT;
+
+-- Registrations in progress are kept here instead of as a users row, which anyone could
+-- take over (and rename) until a passkey was registered.
+ALTER TABLE webauthn_challenges
+  ADD COLUMN purpose TEXT NOT NULL DEFAULT 'login' CHECK (purpose IN ('login', 'register')),
+  ADD COLUMN user_id TEXT,
+  ADD COLUMN display_name TEXT,
+  ADD COLUMN signup_invite TEXT;
+
+-- users rows left by registrations that never finished: no passkey, no recovery codes, never logged in
+DELETE FROM users u
+WHERE NOT u.is_admin
+  AND NOT EXISTS (SELECT 1 FROM passkey_credentials p WHERE p.user_id = u.id)
+  AND NOT EXISTS (SELECT 1 FROM recovery_codes c WHERE c.user_id = u.id)
+  AND NOT EXISTS (SELECT 1 FROM sessions s WHERE s.user_id = u.id);
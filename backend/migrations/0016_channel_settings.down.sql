@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS channel_slowmode;
+ALTER TABLE channels DROP CONSTRAINT IF EXISTS channels_slowmode_seconds_check;
+ALTER TABLE channels DROP CONSTRAINT IF EXISTS channels_type_check;
+ALTER TABLE channels DROP COLUMN IF EXISTS slowmode_seconds;
+ALTER TABLE channels DROP COLUMN IF EXISTS topic;
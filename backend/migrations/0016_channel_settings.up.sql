@@ -0,0 +1,14 @@
+-- Channel settings: topic, slow mode and announcement channels.
+-- channels.type was always 'text'; 'announcement' = read-only except for members with post_announcements.
+ALTER TABLE channels ADD COLUMN topic TEXT;
+ALTER TABLE channels ADD COLUMN slowmode_seconds INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE channels ADD CONSTRAINT channels_type_check CHECK (type IN ('text', 'announcement'));
+ALTER TABLE channels ADD CONSTRAINT channels_slowmode_seconds_check CHECK (slowmode_seconds BETWEEN 0 AND 21600);
+
+-- When each member last posted in a slow-mode channel (deleting the message doesn't reset it)
+CREATE TABLE channel_slowmode (
+  channel_id TEXT NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  last_post_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (channel_id, user_id)
+);
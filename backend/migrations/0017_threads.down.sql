@@ -0,0 +1,4 @@
+DELETE FROM messages WHERE thread_id IS NOT NULL;
+DROP INDEX IF EXISTS idx_messages_thread_created_at;
+ALTER TABLE messages DROP COLUMN IF EXISTS thread_id;
+DROP TABLE IF EXISTS threads;
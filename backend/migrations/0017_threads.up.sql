@@ -0,0 +1,23 @@
+-- Threads: side discussions branching from a channel message.
+-- Thread messages live in messages (thread_id set) so edits, reactions and attachments work as in the channel;
+-- the channel's own list only shows messages with thread_id NULL.
+CREATE TABLE threads (
+  id TEXT PRIMARY KEY,
+  channel_id TEXT NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  -- NULL once the parent message is deleted (the thread stays)
+  parent_message_id TEXT UNIQUE REFERENCES messages(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  message_count INTEGER NOT NULL DEFAULT 0,
+  last_message_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- archived by the sweep after auto_archive_minutes without messages; posting reopens it
+  auto_archive_minutes INTEGER NOT NULL DEFAULT 1440 CHECK (auto_archive_minutes IN (60, 1440, 4320, 10080)),
+  archived_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_threads_channel_last_message_at ON threads(channel_id, last_message_at DESC);
+CREATE INDEX idx_threads_active_last_message_at ON threads(last_message_at) WHERE archived_at IS NULL;
+
+ALTER TABLE messages ADD COLUMN thread_id TEXT REFERENCES threads(id) ON DELETE CASCADE;
+CREATE INDEX idx_messages_thread_created_at ON messages(thread_id, created_at) WHERE thread_id IS NOT NULL;
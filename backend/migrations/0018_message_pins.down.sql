@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_messages_channel_pinned_at;
+ALTER TABLE messages DROP COLUMN IF EXISTS pinned_by;
+ALTER TABLE messages DROP COLUMN IF EXISTS pinned_at;
@@ -0,0 +1,6 @@
+-- Pinned messages: at most MAX_PINS_PER_CHANNEL per channel (checked by the backend).
+-- Only channel messages can be pinned, not messages inside threads.
+ALTER TABLE messages ADD COLUMN pinned_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN pinned_by TEXT;
+
+CREATE INDEX idx_messages_channel_pinned_at ON messages(channel_id, pinned_at DESC) WHERE pinned_at IS NOT NULL;
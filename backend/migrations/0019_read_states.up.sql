@@ -0,0 +1,14 @@
+-- Per-user read position in each channel, shared by all of the user's devices.
+-- Channel messages (not thread messages) created after last_read_at count as unread;
+-- without a row, everything since the user joined the room does.
+CREATE TABLE channel_read_states (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  channel_id TEXT NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  -- no FK: the message may be deleted later, last_read_at still holds the position
+  last_read_message_id TEXT,
+  last_read_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, channel_id)
+);
+
+CREATE INDEX idx_channel_read_states_channel ON channel_read_states(channel_id);
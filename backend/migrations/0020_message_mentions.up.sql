@@ -0,0 +1,13 @@
+-- Who a message mentions, parsed by the backend when the message is posted or edited.
+-- kind: 'user' (@<userId>), 'everyone' (@everyone) or 'here' (@here: members online at the time).
+-- A user mentioned both by name and by @everyone / @here gets one 'user' row.
+CREATE TABLE message_mentions (
+  message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('user', 'everyone', 'here')),
+  -- the message's created_at (inbox order)
+  created_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX idx_message_mentions_user_created_at ON message_mentions(user_id, created_at DESC);
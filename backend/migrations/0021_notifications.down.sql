@@ -0,0 +1,3 @@
+ALTER TABLE users DROP COLUMN IF EXISTS highlight_keywords;
+DROP TABLE IF EXISTS notification_settings;
+DROP TABLE IF EXISTS notifications;
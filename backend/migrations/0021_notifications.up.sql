@@ -0,0 +1,40 @@
+-- Notification center: one row per notification, kept until the user clears it (at most
+-- MAX_NOTIFICATIONS_PER_USER per user, oldest dropped first).
+-- kind: 'mention' | 'reply' | 'keyword' | 'message' (channel set to "all") | 'dm' | 'friend_request' | 'room_join'
+CREATE TABLE notifications (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('mention', 'reply', 'keyword', 'message', 'dm', 'friend_request', 'room_join')),
+  actor_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  room_id TEXT REFERENCES rooms(id) ON DELETE CASCADE,
+  channel_id TEXT REFERENCES channels(id) ON DELETE CASCADE,
+  -- room thread, or the DM thread for 'dm'
+  thread_id TEXT,
+  -- no FK: room and DM messages live in different tables
+  message_id TEXT,
+  -- names and a snippet as they were when the notification was created
+  meta JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_created_at ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX idx_notifications_message ON notifications(message_id) WHERE message_id IS NOT NULL;
+
+-- Per-room (channel_id NULL) and per-channel notification settings; a channel's level wins over its room's.
+-- level NULL = inherit (channel -> room -> 'mentions'). A mute of the room covers its channels.
+CREATE TABLE notification_settings (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  channel_id TEXT REFERENCES channels(id) ON DELETE CASCADE,
+  level TEXT CHECK (level IN ('all', 'mentions', 'nothing')),
+  muted_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_notification_settings_target ON notification_settings(user_id, room_id, COALESCE(channel_id, ''));
+CREATE INDEX idx_notification_settings_level ON notification_settings(room_id, level) WHERE level = 'all';
+
+-- words that notify like a mention when they appear in a room message
+ALTER TABLE users ADD COLUMN highlight_keywords TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,5 @@
+-- Passkey re-confirmation of a logged-in user (recovery code regeneration, room ownership transfer).
+-- These used users.current_challenge, which /auth/login/options overwrites for anyone who knows the user ID.
+ALTER TABLE webauthn_challenges DROP CONSTRAINT webauthn_challenges_purpose_check;
+ALTER TABLE webauthn_challenges
+  ADD CONSTRAINT webauthn_challenges_purpose_check CHECK (purpose IN ('login', 'register', 'reauth'));
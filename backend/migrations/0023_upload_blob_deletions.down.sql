@@ -0,0 +1,2 @@
+DROP TRIGGER IF EXISTS uploads_blob_delete ON uploads;
+DROP FUNCTION IF EXISTS queue_orphaned_upload_blob_deletion();
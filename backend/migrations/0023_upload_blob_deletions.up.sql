@@ -0,0 +1,16 @@
+-- Uploads removed along with their owner (ON DELETE CASCADE) queue their blobs like attachments, stickers and
+-- avatars do. Claiming an upload also deletes its row, but the blob lives on in the row that claimed it, and
+-- expired uploads are queued by the sweep itself, so only rows whose owner is gone are queued here.
+CREATE FUNCTION queue_orphaned_upload_blob_deletion() RETURNS trigger AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = OLD.owner_id) THEN
+    INSERT INTO blob_deletions (storage_key) VALUES (OLD.storage_key) ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER uploads_blob_delete
+  AFTER DELETE ON uploads
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_orphaned_upload_blob_deletion();
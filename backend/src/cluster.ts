@@ -0,0 +1,246 @@
+import { randomUUID } from "node:crypto";
+import type { Client } from "pg";
+import { createDbClient, pool } from "./db.js";
+
+// Lets several backend processes serve WebSockets behind one proxy:
+//   - events published here reach every other instance through Postgres LISTEN/NOTIFY
+//   - presence (which users have a socket somewhere) is tracked cluster-wide in cluster_presence
+// Each instance delivers to its own sockets directly; published events are ignored by their sender.
+
+export const instanceId = randomUUID();
+
+const NOTIFY_CHANNEL = "yuiroom_cluster";
+// Postgres rejects NOTIFY payloads of 8000 bytes or more; bigger events go through cluster_messages
+const NOTIFY_MAX_BYTES = 7000;
+const HEARTBEAT_MS = 10_000;
+// an instance without a heartbeat for this long is considered gone
+const INSTANCE_TTL_MS = 45_000;
+const MESSAGE_RETENTION_MS = 5 * 60_000;
+
+type Envelope = { src: string; event: unknown } | { src: string; ref: number };
+
+type PresenceEvent = { op: "presence"; userId: string; instanceId: string; online: boolean };
+
+type ClusterOptions = {
+  // events published by other instances
+  onEvent: (event: any) => void;
+  // users whose last socket was on an instance that died (the caller announces them offline)
+  onUsersOffline: (userIds: string[]) => void;
+};
+
+let options: ClusterOptions | null = null;
+let listener: Client | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+// userId -> instances that have at least one socket for that user (including this one)
+const onlineBy = new Map<string, Set<string>>();
+// users with a socket on this instance, as last written to cluster_presence
+const localUsers = new Set<string>();
+// per-user queue so connect / disconnect of the same user are applied in order
+const presenceQueue = new Map<string, Promise<unknown>>();
+
+function setOnline(userId: string, instance: string, online: boolean) {
+  let set = onlineBy.get(userId);
+  if (online) {
+    if (!set) {
+      set = new Set();
+      onlineBy.set(userId, set);
+    }
+    set.add(instance);
+    return;
+  }
+  if (!set) return;
+  set.delete(instance);
+  if (set.size === 0) onlineBy.delete(userId);
+}
+
+export function isUserOnline(userId: string) {
+  return onlineBy.has(userId);
+}
+
+// Sends an event to every other instance. Failures are logged; local delivery never depends on this.
+export async function publishClusterEvent(event: unknown) {
+  const body = JSON.stringify({ src: instanceId, event } satisfies Envelope);
+  try {
+    if (Buffer.byteLength(body) <= NOTIFY_MAX_BYTES) {
+      await pool.query(`SELECT pg_notify($1, $2)`, [NOTIFY_CHANNEL, body]);
+      return;
+    }
+    const r = await pool.query(`INSERT INTO cluster_messages (payload) VALUES ($1) RETURNING id`, [body]);
+    const ref = Number(r.rows[0].id);
+    await pool.query(`SELECT pg_notify($1, $2)`, [NOTIFY_CHANNEL, JSON.stringify({ src: instanceId, ref } satisfies Envelope)]);
+  } catch (e: any) {
+    console.warn("cluster publish failed", e?.message ?? e);
+  }
+}
+
+function handleEvent(event: any) {
+  if (event?.op === "presence") {
+    const p = event as PresenceEvent;
+    setOnline(String(p.userId), String(p.instanceId), !!p.online);
+    return;
+  }
+  options?.onEvent(event);
+}
+
+async function handleNotification(payload: string | undefined) {
+  let env: any;
+  try {
+    env = JSON.parse(String(payload ?? ""));
+  } catch {
+    return;
+  }
+  if (!env || env.src === instanceId) return;
+  if (typeof env.ref === "number") {
+    const r = await pool.query(`SELECT payload FROM cluster_messages WHERE id=$1`, [env.ref]);
+    if ((r.rowCount ?? 0) === 0) return;
+    env = JSON.parse(String(r.rows[0].payload));
+  }
+  handleEvent(env.event);
+}
+
+// Rebuilds the presence map from the table (on start, and after the listener missed notifications).
+async function loadPresence() {
+  const { rows } = await pool.query(
+    `SELECT p.instance_id, p.user_id
+     FROM cluster_presence p
+     JOIN cluster_instances i ON i.instance_id = p.instance_id
+     WHERE i.heartbeat_at > now() - ($1::int * interval '1 millisecond')`,
+    [INSTANCE_TTL_MS]
+  );
+  onlineBy.clear();
+  for (const r of rows) setOnline(String(r.user_id), String(r.instance_id), true);
+  for (const userId of localUsers) setOnline(userId, instanceId, true);
+}
+
+async function connectListener() {
+  const client = createDbClient();
+  client.on("notification", (msg) => {
+    if (msg.channel !== NOTIFY_CHANNEL) return;
+    handleNotification(msg.payload).catch((e) => console.warn("cluster event failed", e?.message ?? e));
+  });
+  client.on("error", (e) => {
+    console.warn("cluster listener error", e?.message ?? e);
+    scheduleReconnect(client);
+  });
+  client.on("end", () => scheduleReconnect(client));
+  await client.connect();
+  await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+  listener = client;
+}
+
+function scheduleReconnect(dead: Client) {
+  if (listener !== dead && listener !== null) return;
+  listener = null;
+  void dead.end().catch(() => {});
+  if (reconnectTimer) return;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connectListener()
+      .then(() => loadPresence())
+      .catch((e) => {
+        console.warn("cluster listener reconnect failed", e?.message ?? e);
+        if (!listener) scheduleReconnect(dead);
+      });
+  }, 2_000);
+}
+
+// Records that this instance gained its first / lost its last socket for userId.
+// Resolves to true when that flipped the user's cluster-wide state (first socket anywhere / last one gone).
+export function setLocalPresence(userId: string, online: boolean): Promise<boolean> {
+  const prev = presenceQueue.get(userId) ?? Promise.resolve();
+  const next = prev.then(() => applyLocalPresence(userId, online));
+  const tail = next.catch(() => {});
+  presenceQueue.set(userId, tail);
+  void tail.then(() => {
+    if (presenceQueue.get(userId) === tail) presenceQueue.delete(userId);
+  });
+  return next;
+}
+
+async function applyLocalPresence(userId: string, online: boolean): Promise<boolean> {
+  if (online) localUsers.add(userId);
+  else localUsers.delete(userId);
+  setOnline(userId, instanceId, online);
+
+  let flipped = false;
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    // serializes instances touching the same user, so exactly one of them sees the flip
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext('cluster_presence:' || $1))`, [userId]);
+    if (online) {
+      await client.query(
+        `INSERT INTO cluster_presence (instance_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+        [instanceId, userId]
+      );
+    } else {
+      await client.query(`DELETE FROM cluster_presence WHERE instance_id=$1 AND user_id=$2`, [instanceId, userId]);
+    }
+    const others = await client.query(
+      `SELECT 1 FROM cluster_presence WHERE user_id=$1 AND instance_id <> $2 LIMIT 1`,
+      [userId, instanceId]
+    );
+    flipped = (others.rowCount ?? 0) === 0;
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  await publishClusterEvent({ op: "presence", userId, instanceId, online } satisfies PresenceEvent);
+  return flipped;
+}
+
+async function heartbeat() {
+  const u = await pool.query(`UPDATE cluster_instances SET heartbeat_at=now() WHERE instance_id=$1`, [instanceId]);
+  if ((u.rowCount ?? 0) === 0) {
+    // reaped by another instance (e.g. after a long DB outage): register again with our current sockets
+    await pool.query(`INSERT INTO cluster_instances (instance_id) VALUES ($1) ON CONFLICT DO NOTHING`, [instanceId]);
+    for (const userId of localUsers) {
+      await pool.query(`INSERT INTO cluster_presence (instance_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING`, [
+        instanceId,
+        userId,
+      ]);
+      await publishClusterEvent({ op: "presence", userId, instanceId, online: true } satisfies PresenceEvent);
+    }
+  }
+
+  // instances that stopped without cleaning up (crash, kill -9)
+  const { rows } = await pool.query(
+    `WITH dead AS (
+       DELETE FROM cluster_instances
+       WHERE heartbeat_at < now() - ($1::int * interval '1 millisecond')
+       RETURNING instance_id
+     )
+     DELETE FROM cluster_presence
+     WHERE instance_id IN (SELECT instance_id FROM dead)
+     RETURNING instance_id, user_id`,
+    [INSTANCE_TTL_MS]
+  );
+  const offline: string[] = [];
+  for (const r of rows) {
+    const userId = String(r.user_id);
+    setOnline(userId, String(r.instance_id), false);
+    await publishClusterEvent({ op: "presence", userId, instanceId: String(r.instance_id), online: false });
+    const still = await pool.query(`SELECT 1 FROM cluster_presence WHERE user_id=$1 LIMIT 1`, [userId]);
+    if ((still.rowCount ?? 0) === 0) offline.push(userId);
+  }
+  if (offline.length > 0) options?.onUsersOffline(offline);
+
+  await pool.query(`DELETE FROM cluster_messages WHERE created_at < now() - ($1::int * interval '1 millisecond')`, [
+    MESSAGE_RETENTION_MS,
+  ]);
+}
+
+export async function startCluster(opts: ClusterOptions) {
+  options = opts;
+  await pool.query(`INSERT INTO cluster_instances (instance_id) VALUES ($1)`, [instanceId]);
+  await connectListener();
+  await loadPresence();
+  setInterval(() => {
+    heartbeat().catch((e) => console.warn("cluster heartbeat failed", e?.message ?? e));
+  }, HEARTBEAT_MS);
+}
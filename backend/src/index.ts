@@ -3,12 +3,24 @@ import express from "express";
 import cors from "cors";
 import { initDb, pool } from "./db.js";
 import { spawn } from "node:child_process";
-import { randomUUID, createHash, createHmac, timingSafeEqual } from "node:crypto";
-import { readFileSync } from "node:fs";
+import { randomBytes, randomInt, randomUUID, createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { once } from "node:events";
+import { createWriteStream, readFileSync } from "node:fs";
+import { readFile, rm, writeFile } from "node:fs/promises";
 import { createServer } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { finished, pipeline } from "node:stream/promises";
 import type { IncomingMessage } from "node:http";
 import { WebSocketServer, WebSocket } from "ws";
 import type { RawData } from "ws";
+import type { PoolClient, QueryResult } from "pg";
+import { blobStore } from "./storage.js";
+import { isUserOnline, publishClusterEvent, setLocalPresence, startCluster } from "./cluster.js";
+import { enqueueJob, kickJobWorker, registerJobHandler, startJobWorker } from "./jobs.js";
+import { consumeRateLimit, rateLimitRules, rateLimitStore } from "./ratelimit.js";
+import { POSTER_MAX_WIDTH, THUMBNAIL_WIDTHS, posterSeekSeconds, probeMedia, renderWebpFrame, scaledHeight } from "./media.js";
+import type { BlobRange } from "./storage.js";
 import {
   generateAuthenticationOptions,
   generateRegistrationOptions,
@@ -19,14 +31,18 @@ import {
 type WsClient = {
   ws: WebSocket;
   userId: string;
+  sessionId: string;
   channels: Set<string>;
   dmThreads: Set<string>;
+  // channel threads: threadId -> channelId (dropped with the channel on leave / permission loss)
+  threads: Map<string, string>;
   home: boolean;
 };
 
 const wsClients = new Set<WsClient>();
 const wsByChannel = new Map<string, Set<WsClient>>();
 const wsByDmThread = new Map<string, Set<WsClient>>();
+const wsByThread = new Map<string, Set<WsClient>>();
 const wsByUserId = new Map<string, Set<WsClient>>();
 
 function detectMp4(buf: Buffer): boolean {
@@ -43,7 +59,8 @@ function detectMp4VideoCodecHint(buf: Buffer): "h264" | "hevc" | "av1" | "vp9" |
   return "unknown";
 }
 
-async function transcodeMp4ToH264Aac(input: Buffer): Promise<Buffer> {
+// onProgress receives the seconds of output encoded so far (ffmpeg -progress, on fd 3 to keep stderr for errors)
+async function transcodeMp4ToH264Aac(input: Buffer, opts: { onProgress?: (seconds: number) => void } = {}): Promise<Buffer> {
   return await new Promise<Buffer>((resolve, reject) => {
     const ffmpeg = spawn(
       "ffmpeg",
@@ -51,6 +68,9 @@ async function transcodeMp4ToH264Aac(input: Buffer): Promise<Buffer> {
         "-hide_banner",
         "-loglevel",
         "error",
+        "-nostats",
+        "-progress",
+        "pipe:3",
         "-i",
         "pipe:0",
         "-vf",
@@ -73,7 +93,7 @@ async function transcodeMp4ToH264Aac(input: Buffer): Promise<Buffer> {
         "mp4",
         "pipe:1",
       ],
-      { stdio: ["pipe", "pipe", "pipe"] }
+      { stdio: ["pipe", "pipe", "pipe", "pipe"] }
     );
 
     let done = false;
@@ -114,6 +134,18 @@ async function transcodeMp4ToH264Aac(input: Buffer): Promise<Buffer> {
       if (stderr.length < 1500) stderr += d.toString("utf8");
     });
 
+    let progressBuf = "";
+    ffmpeg.stdio[3]?.on("data", (d: Buffer) => {
+      progressBuf += d.toString("utf8");
+      const lines = progressBuf.split("\n");
+      progressBuf = lines.pop() ?? "";
+      for (const line of lines) {
+        // out_time_us is microseconds despite older builds also printing it as out_time_ms
+        const m = /^out_time_us=(\d+)$/.exec(line.trim());
+        if (m) opts.onProgress?.(Number(m[1]) / 1_000_000);
+      }
+    });
+
     ffmpeg.on("close", (code) => {
       clearTimeout(timeout);
       if (code === 0) {
@@ -133,6 +165,367 @@ async function transcodeMp4ToH264Aac(input: Buffer): Promise<Buffer> {
   });
 }
 
+// TRANSCODE_MP4=auto (default): re-encode unless it already looks like H.264. 1/true: always, 0/false: never.
+// Returns the input itself when no transcode was needed.
+async function normalizeMp4ForPlayback(
+  data: Buffer,
+  opts: { onProgress?: (seconds: number) => void } = {}
+): Promise<Buffer> {
+  const mode = String(process.env.TRANSCODE_MP4 ?? "auto").toLowerCase();
+  const hint = detectMp4VideoCodecHint(data);
+  const shouldTranscode = mode === "1" || mode === "true" || (mode !== "0" && mode !== "false" && hint !== "h264");
+  if (!shouldTranscode) return data;
+  return await transcodeMp4ToH264Aac(data, opts);
+}
+
+// stderr etc. stay in the logs; clients only see the fixed code
+function transcodeErrorCode(e: any): string {
+  const msg = String(e?.message ?? "attachment_transcode_failed");
+  if (msg.startsWith("attachment_transcode_unavailable")) return "attachment_transcode_unavailable";
+  if (msg.startsWith("attachment_transcode_timeout")) return "attachment_transcode_timeout";
+  if (msg.startsWith("attachment_transcode_output_too_large")) return "attachment_transcode_output_too_large";
+  return "attachment_transcode_failed";
+}
+
+// --- Blob bytes (attachments / stickers / avatars) ---
+
+// Best-effort cleanup for a blob whose row never got written.
+function discardBlob(key: string) {
+  void blobStore.delete(key).catch((e) => console.warn(`blob discard failed: ${key}`, e?.message ?? e));
+}
+
+// Parses a single "bytes=start-end" range. null = no (usable) Range header, "unsatisfiable" = 416.
+function parseByteRange(header: string, total: number): BlobRange | "unsatisfiable" | null {
+  const m = /^bytes=(\d*)-(\d*)$/.exec(header);
+  if (!m || total <= 0) return null;
+  const startRaw = m[1] ? Number(m[1]) : NaN;
+  const endRaw = m[2] ? Number(m[2]) : NaN;
+
+  let start = 0;
+  let end = total - 1;
+
+  if (!Number.isNaN(startRaw)) start = startRaw;
+  if (!Number.isNaN(endRaw)) end = endRaw;
+
+  // suffix range: bytes=-N
+  if (Number.isNaN(startRaw) && !Number.isNaN(endRaw)) {
+    const n = Math.max(0, endRaw);
+    start = Math.max(0, total - n);
+    end = total - 1;
+  }
+
+  if (start < 0) start = 0;
+  if (end >= total) end = total - 1;
+  if (start > end || start >= total) return "unsatisfiable";
+  return { start, end };
+}
+
+// Blobs are never rewritten under the same key, so the key itself identifies the content.
+function blobEtag(src: { key: string | null; data: Buffer | null }) {
+  const h = createHash("sha256");
+  if (src.key) h.update(`key:${src.key}`);
+  else h.update(src.data ?? Buffer.alloc(0));
+  return `"${h.digest("base64url").slice(0, 27)}"`;
+}
+
+function etagMatches(header: string, etag: string) {
+  if (header.trim() === "*") return true;
+  // weak comparison (W/ prefix ignored), as required for If-None-Match
+  return header.split(",").some((t) => t.trim().replace(/^W\//, "") === etag);
+}
+
+// Sends bytes from the blob store (storage_key) or, for rows not yet moved by blobs:migrate, from BYTEA.
+// Handles ETag / If-None-Match and single-range Range / If-Range requests.
+// Headers such as content-type / cache-control are expected to be set by the caller.
+async function sendBlob(
+  req: express.Request,
+  res: express.Response,
+  src: { key: string | null; data: Buffer | null },
+  opts: { notFound: string }
+) {
+  const total = src.key ? await blobStore.size(src.key) : (src.data?.length ?? null);
+  if (total == null) return res.status(404).json({ error: opts.notFound });
+
+  const etag = blobEtag(src);
+  res.setHeader("etag", etag);
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (typeof ifNoneMatch === "string" && etagMatches(ifNoneMatch, etag)) {
+    res.status(304);
+    return res.end();
+  }
+
+  res.setHeader("accept-ranges", "bytes");
+  // If-Range: only honor the Range when the client's copy is still current
+  const ifRange = req.headers["if-range"];
+  const rangeUsable = typeof ifRange !== "string" || ifRange.trim() === etag;
+  const range = rangeUsable ? parseByteRange(String(req.headers.range ?? ""), total) : null;
+  if (range === "unsatisfiable") {
+    res.status(416);
+    res.setHeader("content-range", `bytes */${total}`);
+    return res.end();
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader("content-range", `bytes ${range.start}-${range.end}/${total}`);
+  }
+  res.setHeader("content-length", String(range ? range.end - range.start + 1 : total));
+
+  if (!src.key) {
+    const data = src.data ?? Buffer.alloc(0);
+    return res.end(range ? data.subarray(range.start, range.end + 1) : data);
+  }
+
+  const stream = await blobStore.read(src.key, range ?? undefined);
+  try {
+    await pipeline(stream, res);
+  } catch (e: any) {
+    // client went away mid-download; nothing left to send
+    if (e?.code !== "ERR_STREAM_PREMATURE_CLOSE") console.warn(`blob stream failed: ${src.key}`, e?.message ?? e);
+  }
+}
+
+// Deletes blobs queued by the blob_deletions triggers (rows removed directly or through ON DELETE CASCADE).
+async function sweepBlobDeletions() {
+  const { rows } = await pool.query(`SELECT storage_key FROM blob_deletions ORDER BY queued_at ASC LIMIT 200`);
+  for (const r of rows) {
+    const key = String(r.storage_key);
+    try {
+      await blobStore.delete(key);
+      await pool.query(`DELETE FROM blob_deletions WHERE storage_key=$1`, [key]);
+    } catch (e: any) {
+      console.warn(`blob delete failed: ${key}`, e?.message ?? e);
+    }
+  }
+}
+
+// --- Attachment thumbnails / poster frames (see src/media.ts) ---
+
+type AttachmentMeta = {
+  id: string;
+  mime_type: string;
+  // processing: transcode / thumbnails still running (see the attachment_process job); failed: error holds the code
+  status: "processing" | "ready" | "failed";
+  error: string | null;
+  // intrinsic (display) size; null when unknown
+  width: number | null;
+  height: number | null;
+  // served by GET /attachments/:attachmentId/thumbnails/:width
+  thumbnails: Array<{ width: number; height: number }>;
+  // MP4 only; served by GET /attachments/:attachmentId/poster
+  poster: { width: number; height: number } | null;
+};
+
+// Probes an image / MP4 attachment (a local copy at filePath) and stores its size, WebP thumbnails
+// and (for MP4) a poster frame. Failures are only logged: the attachment stays servable, just without previews.
+async function generateAttachmentMedia(attachmentId: string, filePath: string, mime: string) {
+  const isVideo = mime === "video/mp4";
+  if (!isVideo && !mime.startsWith("image/")) return;
+
+  try {
+    const info = await probeMedia(filePath);
+    await pool.query(`UPDATE message_attachments SET width=$2, height=$3 WHERE id=$1`, [
+      attachmentId,
+      info.width,
+      info.height,
+    ]);
+
+    // only sizes smaller than the original; small images are shown as-is
+    const variants: Array<{ kind: "thumbnail" | "poster"; width: number }> = THUMBNAIL_WIDTHS.filter(
+      (w) => w < info.width
+    ).map((w) => ({ kind: "thumbnail", width: w }));
+    if (isVideo) variants.push({ kind: "poster", width: Math.min(POSTER_MAX_WIDTH, info.width) });
+    const seekSeconds = isVideo ? posterSeekSeconds(info) : 0;
+
+    for (const v of variants) {
+      const data = await renderWebpFrame(filePath, { maxWidth: v.width, seekSeconds });
+      const key = v.kind === "poster" ? `posters/${attachmentId}.webp` : `thumbnails/${attachmentId}/${v.width}.webp`;
+      await blobStore.put(key, data, "image/webp");
+      try {
+        await pool.query(
+          `INSERT INTO attachment_variants (attachment_id, kind, width, height, mime_type, storage_key)
+           VALUES ($1, $2, $3, $4, 'image/webp', $5)
+           ON CONFLICT (attachment_id, kind, width) DO NOTHING`,
+          [attachmentId, v.kind, v.width, scaledHeight(info, v.width), key]
+        );
+      } catch (e) {
+        // the attachment was deleted meanwhile
+        discardBlob(key);
+        throw e;
+      }
+    }
+  } catch (e: any) {
+    console.warn(`attachment media generation failed: ${attachmentId}`, e?.message ?? e);
+  }
+}
+
+async function loadAttachmentMetas(messageIds: string[]) {
+  const byMessage: Record<string, AttachmentMeta[]> = {};
+  if (messageIds.length === 0) return byMessage;
+
+  const a = await pool.query(
+    `SELECT id, message_id, mime_type, status, error, width, height
+     FROM message_attachments
+     WHERE message_id = ANY($1::text[])
+     ORDER BY created_at ASC`,
+    [messageIds]
+  );
+  const byId = new Map<string, AttachmentMeta>();
+  for (const row of a.rows) {
+    const meta: AttachmentMeta = {
+      id: row.id,
+      mime_type: row.mime_type,
+      status: row.status,
+      error: row.error ?? null,
+      width: row.width ?? null,
+      height: row.height ?? null,
+      thumbnails: [],
+      poster: null,
+    };
+    byId.set(meta.id, meta);
+    (byMessage[row.message_id] ||= []).push(meta);
+  }
+
+  if (byId.size > 0) {
+    const v = await pool.query(
+      `SELECT attachment_id, kind, width, height
+       FROM attachment_variants
+       WHERE attachment_id = ANY($1::text[])
+       ORDER BY width ASC`,
+      [Array.from(byId.keys())]
+    );
+    for (const row of v.rows) {
+      const meta = byId.get(String(row.attachment_id));
+      if (!meta) continue;
+      const size = { width: Number(row.width), height: Number(row.height) };
+      if (row.kind === "poster") meta.poster = size;
+      else meta.thumbnails.push(size);
+    }
+  }
+  return byMessage;
+}
+
+// --- attachment_process job: MP4 transcode + thumbnails, run by the worker in src/jobs.ts ---
+
+async function broadcastAttachmentUpdate(attachmentId: string) {
+  const r = await pool.query(
+    `SELECT a.message_id, m.channel_id, m.thread_id
+     FROM message_attachments a
+     JOIN messages m ON m.id = a.message_id
+     WHERE a.id=$1`,
+    [attachmentId]
+  );
+  const row = r.rows[0];
+  if (!row) return;
+  const channelId = String(row.channel_id);
+  const messageId = String(row.message_id);
+  const attachment = (await loadAttachmentMetas([messageId]))[messageId]?.find((a) => a.id === attachmentId);
+  if (!attachment) return;
+  wsBroadcastMessageEvent(channelId, row.thread_id ?? null, {
+    type: "channel_attachment_updated",
+    channelId,
+    messageId,
+    attachment,
+  });
+}
+
+async function markAttachmentFailed(attachmentId: string, error: string) {
+  const u = await pool.query(
+    `UPDATE message_attachments SET status='failed', error=$2 WHERE id=$1 AND status='processing'`,
+    [attachmentId, error]
+  );
+  if ((u.rowCount ?? 0) > 0) await broadcastAttachmentUpdate(attachmentId);
+}
+
+// Errors that may go away on retry (ffmpeg missing / overloaded, blob store down) are thrown so the job is retried;
+// a video ffmpeg can't handle marks the attachment failed right away.
+async function processAttachment(attachmentId: string) {
+  const r = await pool.query(
+    `SELECT a.mime_type, a.storage_key, a.status, a.message_id, m.channel_id, m.thread_id
+     FROM message_attachments a
+     JOIN messages m ON m.id = a.message_id
+     WHERE a.id=$1`,
+    [attachmentId]
+  );
+  const row = r.rows[0];
+  // deleted meanwhile, or finished by an earlier attempt
+  if (!row || row.status !== "processing" || !row.storage_key) return;
+  const mime = String(row.mime_type || "");
+  const channelId = String(row.channel_id);
+  const threadId: string | null = row.thread_id ?? null;
+  const messageId = String(row.message_id);
+
+  const tmp = join(tmpdir(), `yuiroom-media-${randomUUID()}`);
+  try {
+    await pipeline(await blobStore.read(String(row.storage_key)), createWriteStream(tmp));
+
+    if (mime === "video/mp4") {
+      const input: Buffer = await readFile(tmp);
+      const duration = await probeMedia(tmp)
+        .then((i) => i.duration)
+        .catch(() => null);
+      let lastSentAt = 0;
+      const onProgress = (seconds: number) => {
+        const now = Date.now();
+        if (!duration || now - lastSentAt < 1000) return;
+        lastSentAt = now;
+        const progress = Math.min(1, Math.max(0, seconds / duration));
+        wsBroadcastMessageEvent(channelId, threadId, {
+          type: "channel_attachment_progress",
+          channelId,
+          messageId,
+          attachmentId,
+          progress,
+        });
+      };
+
+      let output: Buffer;
+      try {
+        output = await normalizeMp4ForPlayback(input, { onProgress });
+      } catch (e: any) {
+        const code = transcodeErrorCode(e);
+        if (code === "attachment_transcode_unavailable" || code === "attachment_transcode_timeout") throw e;
+        console.warn(`attachment transcode failed: ${attachmentId}`, e?.message ?? e);
+        await markAttachmentFailed(attachmentId, code);
+        return;
+      }
+
+      if (output !== input) {
+        const key = `attachments/${attachmentId}.mp4`;
+        await blobStore.put(key, output, mime);
+        // the blob_replace trigger queues the uploaded original for deletion
+        const u = await pool.query(
+          `UPDATE message_attachments SET storage_key=$2 WHERE id=$1 AND status='processing'`,
+          [attachmentId, key]
+        );
+        if ((u.rowCount ?? 0) === 0) {
+          discardBlob(key);
+          return;
+        }
+        await writeFile(tmp, output);
+      }
+    }
+
+    await generateAttachmentMedia(attachmentId, tmp, mime);
+    const u = await pool.query(
+      `UPDATE message_attachments SET status='ready', error=NULL WHERE id=$1 AND status='processing'`,
+      [attachmentId]
+    );
+    if ((u.rowCount ?? 0) > 0) await broadcastAttachmentUpdate(attachmentId);
+  } finally {
+    await rm(tmp, { force: true });
+  }
+}
+
+registerJobHandler("attachment_process", {
+  run: (payload) => processAttachment(String(payload?.attachmentId ?? "")),
+  onFailed: (payload, error) =>
+    markAttachmentFailed(
+      String(payload?.attachmentId ?? ""),
+      error.startsWith("attachment_transcode_") ? transcodeErrorCode({ message: error }) : "attachment_processing_failed"
+    ),
+});
+
 function wsSubscribe(map: Map<string, Set<WsClient>>, key: string, c: WsClient) {
   let set = map.get(key);
   if (!set) {
@@ -157,54 +550,155 @@ function wsSendSafe(c: WsClient, data: unknown) {
   }
 }
 
-function wsBroadcastChannel(channelId: string, data: unknown) {
-  const set = wsByChannel.get(channelId);
+// --- realtime fan-out: local sockets directly, other instances via src/cluster.ts ---
+
+type WsTarget = "channel" | "thread" | "dm" | "user" | "user_all";
+
+type ClusterWsEvent =
+  | { op: "ws"; target: WsTarget; key: string; data: unknown }
+  | { op: "ws_leave_room"; userId: string; roomId: string; channelIds: string[]; reason: "room_banned" | "room_left" | "room_kicked" }
+  | { op: "ws_recheck_channels"; roomId: string; channelIds: string[] }
+  | { op: "sessions_revoked"; sessionIds: string[] };
+
+function deliverLocal(target: WsTarget, key: string, data: unknown) {
+  const map =
+    target === "channel" ? wsByChannel : target === "thread" ? wsByThread : target === "dm" ? wsByDmThread : wsByUserId;
+  const set = map.get(key);
   if (!set) return;
-  for (const c of set) wsSendSafe(c, data);
+  for (const c of set) {
+    // home-only events (friend requests, DM list, ...)
+    if (target === "user" && !c.home) continue;
+    wsSendSafe(c, data);
+  }
+}
+
+function wsBroadcast(target: WsTarget, key: string, data: unknown) {
+  deliverLocal(target, key, data);
+  void publishClusterEvent({ op: "ws", target, key, data } satisfies ClusterWsEvent);
+}
+
+function wsBroadcastChannel(channelId: string, data: unknown) {
+  wsBroadcast("channel", channelId, data);
+}
+
+function wsBroadcastThread(threadId: string, data: unknown) {
+  wsBroadcast("thread", threadId, data);
+}
+
+// Thread messages share the message routes; their events go to the thread's subscribers under these names.
+const THREAD_EVENT_TYPES = {
+  channel_message_created: "thread_message_created",
+  channel_message_updated: "thread_message_updated",
+  channel_message_deleted: "thread_message_deleted",
+  message_reactions_updated: "thread_reactions_updated",
+  channel_attachment_updated: "thread_attachment_updated",
+  channel_attachment_progress: "thread_attachment_progress",
+} as const;
+
+function wsBroadcastMessageEvent(
+  channelId: string,
+  threadId: string | null,
+  data: { type: keyof typeof THREAD_EVENT_TYPES; [k: string]: unknown }
+) {
+  if (threadId) wsBroadcastThread(threadId, { ...data, type: THREAD_EVENT_TYPES[data.type], threadId });
+  else wsBroadcastChannel(channelId, data);
 }
 
 function wsBroadcastDm(threadId: string, data: unknown) {
-  const set = wsByDmThread.get(threadId);
-  if (!set) return;
-  for (const c of set) wsSendSafe(c, data);
+  wsBroadcast("dm", threadId, data);
 }
 
 function wsBroadcastUser(userId: string, data: unknown) {
-  const set = wsByUserId.get(userId);
-  if (!set) return;
-  for (const c of set) {
-    if (!c.home) continue;
-    wsSendSafe(c, data);
-  }
+  wsBroadcast("user", userId, data);
 }
 
 function wsBroadcastUserAll(userId: string, data: unknown) {
-  const set = wsByUserId.get(userId);
-  if (!set) return;
-  for (const c of set) wsSendSafe(c, data);
+  wsBroadcast("user_all", userId, data);
 }
 
-function isUserOnline(userId: string) {
-  const set = wsByUserId.get(userId);
-  return !!set && set.size > 0;
+function unsubscribeThreadsLocal(c: WsClient, channelIds: string[]) {
+  for (const [threadId, channelId] of c.threads) {
+    if (!channelIds.includes(channelId)) continue;
+    c.threads.delete(threadId);
+    wsUnsubscribe(wsByThread, threadId, c);
+  }
 }
 
-async function wsKickUserFromRoom(userId: string, roomId: string) {
-  const set = wsByUserId.get(userId);
+// Drops the user's sockets (on this instance) from the room's channels and tells them why.
+function leaveRoomLocal(ev: Extract<ClusterWsEvent, { op: "ws_leave_room" }>) {
+  const set = wsByUserId.get(ev.userId);
   if (!set || set.size === 0) return;
-
-  const { rows } = await pool.query(`SELECT id FROM channels WHERE room_id=$1`, [roomId]);
-  const channelIds = new Set<string>(rows.map((r: any) => String(r.id)));
-
   for (const c of set) {
-    for (const channelId of channelIds) {
+    for (const channelId of ev.channelIds) {
       if (!c.channels.has(channelId)) continue;
       c.channels.delete(channelId);
       wsUnsubscribe(wsByChannel, channelId, c);
     }
+    unsubscribeThreadsLocal(c, ev.channelIds);
+  }
+  deliverLocal("user_all", ev.userId, { type: ev.reason, roomId: ev.roomId });
+}
+
+async function wsLeaveRoom(userId: string, roomId: string, reason: "room_banned" | "room_left" | "room_kicked") {
+  const { rows } = await pool.query(`SELECT id FROM channels WHERE room_id=$1`, [roomId]);
+  const ev: ClusterWsEvent = {
+    op: "ws_leave_room",
+    userId,
+    roomId,
+    channelIds: rows.map((r: any) => String(r.id)),
+    reason,
+  };
+  leaveRoomLocal(ev);
+  void publishClusterEvent(ev);
+}
+
+// Unsubscribes sockets (on this instance) that can no longer view the channels and tells them.
+async function recheckChannelsLocal(ev: Extract<ClusterWsEvent, { op: "ws_recheck_channels" }>) {
+  const userIds = new Set<string>();
+  for (const channelId of ev.channelIds) {
+    for (const c of wsByChannel.get(channelId) ?? []) userIds.add(c.userId);
+  }
+  for (const c of wsClients) {
+    for (const channelId of c.threads.values()) if (ev.channelIds.includes(channelId)) userIds.add(c.userId);
+  }
+  for (const userId of userIds) {
+    const bits = await channelPermissionBits(ev.roomId, userId);
+    for (const channelId of ev.channelIds) {
+      if (((bits.get(channelId) ?? 0) & CHANNEL_PERMISSIONS.view_channel) !== 0) continue;
+      for (const c of wsByUserId.get(userId) ?? []) {
+        unsubscribeThreadsLocal(c, [channelId]);
+        if (!c.channels.has(channelId)) continue;
+        c.channels.delete(channelId);
+        wsUnsubscribe(wsByChannel, channelId, c);
+        wsSendSafe(c, { type: "channel_hidden", roomId: ev.roomId, channelId });
+      }
+    }
+  }
+}
+
+// after overrides or role assignments changed; channelIds = null for every channel of the room
+async function wsRecheckChannels(roomId: string, channelIds: string[] | null = null) {
+  if (!channelIds) {
+    const { rows } = await pool.query(`SELECT id FROM channels WHERE room_id=$1`, [roomId]);
+    channelIds = rows.map((r: any) => String(r.id));
   }
+  const ev: ClusterWsEvent = { op: "ws_recheck_channels", roomId, channelIds };
+  void publishClusterEvent(ev);
+  await recheckChannelsLocal(ev);
+}
+
+function handleClusterEvent(event: any) {
+  const ev = event as ClusterWsEvent;
+  if (ev?.op === "ws") deliverLocal(ev.target, String(ev.key), ev.data);
+  else if (ev?.op === "ws_leave_room") leaveRoomLocal(ev);
+  else if (ev?.op === "ws_recheck_channels") {
+    recheckChannelsLocal(ev).catch((e) => console.warn("channel recheck failed", e?.message ?? e));
+  }
+  else if (ev?.op === "sessions_revoked") dropSessionsLocal(ev.sessionIds.map(String));
+}
 
-  wsBroadcastUserAll(userId, { type: "room_banned", roomId });
+async function wsKickUserFromRoom(userId: string, roomId: string) {
+  await wsLeaveRoom(userId, roomId, "room_banned");
 }
 
 async function wsBroadcastRoom(roomId: string, data: unknown) {
@@ -216,6 +710,58 @@ async function wsBroadcastRoom(roomId: string, data: unknown) {
   }
 }
 
+function channelSettingsPayload(row: any) {
+  return {
+    type: row.type === "announcement" ? ("announcement" as const) : ("text" as const),
+    topic: row.topic == null ? null : String(row.topic),
+    slowmodeSeconds: Number(row.slowmode_seconds ?? 0),
+  };
+}
+
+// Sends the new name / position / parent / settings of what changed so sidebars can patch their tree.
+// Channels with a view_channel deny are left out (their names would reach members who can't see them); partial tells clients to refetch.
+async function wsBroadcastTreeUpdate(
+  roomId: string,
+  changes: { room?: { id: string; name: string }; categoryIds?: string[]; channelIds?: string[] }
+) {
+  const categoryIds = changes.categoryIds ?? [];
+  const channelIds = changes.channelIds ?? [];
+  const cats = categoryIds.length
+    ? await pool.query(`SELECT id, name, position FROM categories WHERE room_id=$1 AND id = ANY($2::text[])`, [
+        roomId,
+        categoryIds,
+      ])
+    : { rows: [] as any[] };
+  const chans = channelIds.length
+    ? await pool.query(
+        `SELECT c.id, c.name, c.position, c.category_id, c.type, c.topic, c.slowmode_seconds
+              , EXISTS (
+                  SELECT 1 FROM channel_permission_overrides o
+                  WHERE o.channel_id = c.id AND (o.deny & $3) <> 0
+                ) AS restricted
+         FROM channels c
+         WHERE c.room_id=$1 AND c.id = ANY($2::text[])`,
+        [roomId, channelIds, CHANNEL_PERMISSIONS.view_channel]
+      )
+    : { rows: [] as any[] };
+  await wsBroadcastRoom(roomId, {
+    type: "room_tree_updated",
+    roomId,
+    room: changes.room ?? null,
+    categories: cats.rows.map((c) => ({ id: String(c.id), name: String(c.name), position: Number(c.position) })),
+    channels: chans.rows
+      .filter((c) => !c.restricted)
+      .map((c) => ({
+        id: String(c.id),
+        name: String(c.name),
+        position: Number(c.position),
+        categoryId: c.category_id == null ? null : String(c.category_id),
+        ...channelSettingsPayload(c),
+      })),
+    partial: chans.rows.some((c) => c.restricted),
+  });
+}
+
 async function wsBroadcastRoomsForUser(userId: string, data: unknown) {
   const { rows } = await pool.query(
     `SELECT DISTINCT room_id
@@ -234,58 +780,20 @@ async function wsBroadcastRoomsForUser(userId: string, data: unknown) {
 }
 
 async function wsRemoveUserFromRoom(userId: string, roomId: string, reasonType: "room_left" | "room_kicked") {
-  const set = wsByUserId.get(userId);
-  if (!set || set.size === 0) return;
-
-  const { rows } = await pool.query(`SELECT id FROM channels WHERE room_id=$1`, [roomId]);
-  const channelIds = new Set<string>(rows.map((r: any) => String(r.id)));
-
-  for (const c of set) {
-    for (const channelId of channelIds) {
-      if (!c.channels.has(channelId)) continue;
-      c.channels.delete(channelId);
-      wsUnsubscribe(wsByChannel, channelId, c);
-    }
-  }
-
-  wsBroadcastUserAll(userId, { type: reasonType, roomId });
+  await wsLeaveRoom(userId, roomId, reasonType);
 }
 
-const wsConnRateState = new Map<string, { resetAt: number; count: number }>();
-const wsMsgRateState = new Map<string, { resetAt: number; count: number }>();
-let wsMsgCleanupCounter = 0;
-
-function wsAllowConnection(remoteAddress: string) {
-  const key = `ws_conn:${remoteAddress || "unknown"}`;
-  const now = Date.now();
-  const cur = wsConnRateState.get(key);
-  if (!cur || now >= cur.resetAt) {
-    wsConnRateState.set(key, { resetAt: now + 60_000, count: 1 });
-    return true;
-  }
-  if (cur.count >= 60) return false;
-  cur.count += 1;
-  return true;
+// Presence is cluster-wide: room_presence goes out when the user's first socket anywhere connects / last one closes.
+function wsPresenceChanged(userId: string, online: boolean) {
+  setLocalPresence(userId, online)
+    .then((flipped) => {
+      if (flipped) return wsBroadcastRoomsForUser(userId, { type: "room_presence", userId, online });
+    })
+    .catch((e) => console.warn(`presence update failed: ${userId}`, e?.message ?? e));
 }
 
-function wsRateAllow(opts: { name: string; userId: string; windowMs: number; max: number }) {
-  const key = `${opts.name}:u:${opts.userId}`;
-  const now = Date.now();
-  const cur = wsMsgRateState.get(key);
-
-  if (!cur || now >= cur.resetAt) {
-    wsMsgRateState.set(key, { resetAt: now + opts.windowMs, count: 1 });
-    if ((wsMsgCleanupCounter++ & 0xff) === 0) {
-      for (const [k, v] of wsMsgRateState) {
-        if (now >= v.resetAt) wsMsgRateState.delete(k);
-      }
-    }
-    return true;
-  }
-
-  if (cur.count >= opts.max) return false;
-  cur.count += 1;
-  return true;
+async function wsRateAllow(name: string, userId: string) {
+  return (await consumeRateLimit(name, `u:${userId}`)).allowed;
 }
 
 function setupWebSocket(server: ReturnType<typeof createServer>) {
@@ -320,10 +828,10 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
       }
 
       const remote = req.socket.remoteAddress || "unknown";
-      if (!wsAllowConnection(remote)) {
-        ws.close(1013, "rate_limited");
-        return;
-      }
+      // checked without holding up the handshake: the socket is closed once the store answers
+      void consumeRateLimit("ws_conn", `ip:${remote}`).then((r) => {
+        if (!r.allowed) ws.close(1013, "rate_limited");
+      });
 
       const url = new URL(req.url || "/ws", "http://localhost");
       const protocol = typeof (ws as any).protocol === "string" ? String((ws as any).protocol) : "";
@@ -338,25 +846,32 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
           }
         }
       }
-      const userId = token ? verifyAuthToken(token) : null;
-      if (!userId) {
+      const claims = token ? verifyAuthToken(token) : null;
+      if (!claims) {
         ws.close(1008, "unauthorized");
         return;
       }
+      const userId = claims.userId;
+      // like ws_conn above: a revoked / expired session gets the socket closed once the DB answers
+      void sessionActive(claims, remote)
+        .then((active) => {
+          if (!active) ws.close(4001, "session_revoked");
+        })
+        .catch((e) => console.warn("ws session check failed", e?.message ?? e));
 
       const client: WsClient = {
         ws,
         userId,
+        sessionId: claims.sessionId,
         channels: new Set(),
         dmThreads: new Set(),
+        threads: new Map(),
         home: false,
       };
-      const wasOnline = isUserOnline(userId);
+      const hadLocalSocket = wsByUserId.has(userId);
       wsClients.add(client);
       wsSubscribe(wsByUserId, userId, client);
-      if (!wasOnline) {
-        void wsBroadcastRoomsForUser(userId, { type: "room_presence", userId, online: true });
-      }
+      if (!hadLocalSocket) wsPresenceChanged(userId, true);
 
       ws.on("message", async (raw: RawData) => {
         // Basic protection against huge messages / abuse.
@@ -373,7 +888,7 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
           return;
         }
 
-        if (!wsRateAllow({ name: "ws_any", userId: client.userId, windowMs: 10_000, max: 200 })) {
+        if (!(await wsRateAllow("ws_any", client.userId))) {
           try {
             ws.close(1013, "rate_limited");
           } catch {
@@ -392,7 +907,7 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
 
         // subscribe / unsubscribe
         if (msg.type === "subscribe" && typeof msg.channelId === "string") {
-          if (!wsRateAllow({ name: "ws_subscribe", userId: client.userId, windowMs: 60_000, max: 120 })) {
+          if (!(await wsRateAllow("ws_subscribe", client.userId))) {
             wsSendSafe(client, { type: "error", error: "rate_limited" });
             return;
           }
@@ -419,6 +934,11 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
               wsSendSafe(client, { type: "error", error: "not_member", channelId });
               return;
             }
+
+            if (!(await hasChannelPermission(roomId, channelId, client.userId, "view_channel"))) {
+              wsSendSafe(client, { type: "error", error: "missing_permission", permission: "view_channel", channelId });
+              return;
+            }
           }
 
           client.channels.add(channelId);
@@ -427,7 +947,7 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
           return;
         }
         if (msg.type === "unsubscribe" && typeof msg.channelId === "string") {
-          if (!wsRateAllow({ name: "ws_unsubscribe", userId: client.userId, windowMs: 60_000, max: 240 })) {
+          if (!(await wsRateAllow("ws_unsubscribe", client.userId))) {
             wsSendSafe(client, { type: "error", error: "rate_limited" });
             return;
           }
@@ -436,8 +956,59 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
           wsUnsubscribe(wsByChannel, channelId, client);
           return;
         }
+        // channel threads: same checks as the parent channel
+        if (msg.type === "subscribe_thread" && typeof msg.threadId === "string") {
+          if (!(await wsRateAllow("ws_subscribe_thread", client.userId))) {
+            wsSendSafe(client, { type: "error", error: "rate_limited" });
+            return;
+          }
+          const threadId = msg.threadId;
+          const th = await pool.query(
+            `SELECT t.channel_id, c.room_id FROM threads t JOIN channels c ON c.id = t.channel_id WHERE t.id=$1`,
+            [threadId]
+          );
+          if ((th.rowCount ?? 0) === 0) {
+            wsSendSafe(client, { type: "error", error: "thread_not_found", threadId });
+            return;
+          }
+          const channelId = String(th.rows[0].channel_id);
+          const roomId = String(th.rows[0].room_id);
+          const banned = await pool.query(`SELECT 1 FROM room_bans WHERE room_id=$1 AND user_id=$2`, [roomId, client.userId]);
+          if ((banned.rowCount ?? 0) > 0) {
+            wsSendSafe(client, { type: "error", error: "room_banned", threadId });
+            return;
+          }
+          if (!(await isRoomMemberOrPublic(roomId, client.userId))) {
+            wsSendSafe(client, { type: "error", error: "not_member", threadId });
+            return;
+          }
+          if (!(await hasChannelPermission(roomId, channelId, client.userId, "view_channel"))) {
+            wsSendSafe(client, {
+              type: "error",
+              error: "missing_permission",
+              permission: "view_channel",
+              threadId,
+            });
+            return;
+          }
+
+          client.threads.set(threadId, channelId);
+          wsSubscribe(wsByThread, threadId, client);
+          wsSendSafe(client, { type: "subscribed_thread", threadId });
+          return;
+        }
+        if (msg.type === "unsubscribe_thread" && typeof msg.threadId === "string") {
+          if (!(await wsRateAllow("ws_unsubscribe_thread", client.userId))) {
+            wsSendSafe(client, { type: "error", error: "rate_limited" });
+            return;
+          }
+          client.threads.delete(msg.threadId);
+          wsUnsubscribe(wsByThread, msg.threadId, client);
+          return;
+        }
+
         if (msg.type === "subscribe_dm" && typeof msg.threadId === "string") {
-          if (!wsRateAllow({ name: "ws_subscribe_dm", userId: client.userId, windowMs: 60_000, max: 120 })) {
+          if (!(await wsRateAllow("ws_subscribe_dm", client.userId))) {
             wsSendSafe(client, { type: "error", error: "rate_limited", threadId: msg.threadId });
             return;
           }
@@ -472,7 +1043,7 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
           return;
         }
         if (msg.type === "unsubscribe_dm" && typeof msg.threadId === "string") {
-          if (!wsRateAllow({ name: "ws_unsubscribe_dm", userId: client.userId, windowMs: 60_000, max: 240 })) {
+          if (!(await wsRateAllow("ws_unsubscribe_dm", client.userId))) {
             wsSendSafe(client, { type: "error", error: "rate_limited", threadId: msg.threadId });
             return;
           }
@@ -483,7 +1054,7 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
         }
 
         if (msg.type === "subscribe_home") {
-          if (!wsRateAllow({ name: "ws_subscribe_home", userId: client.userId, windowMs: 60_000, max: 30 })) {
+          if (!(await wsRateAllow("ws_subscribe_home", client.userId))) {
             wsSendSafe(client, { type: "error", error: "rate_limited" });
             return;
           }
@@ -492,7 +1063,7 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
           return;
         }
         if (msg.type === "unsubscribe_home") {
-          if (!wsRateAllow({ name: "ws_unsubscribe_home", userId: client.userId, windowMs: 60_000, max: 60 })) {
+          if (!(await wsRateAllow("ws_unsubscribe_home", client.userId))) {
             wsSendSafe(client, { type: "error", error: "rate_limited" });
             return;
           }
@@ -502,14 +1073,12 @@ function setupWebSocket(server: ReturnType<typeof createServer>) {
       });
 
       ws.on("close", () => {
-        const wasOnline = isUserOnline(client.userId);
         wsClients.delete(client);
         for (const ch of client.channels) wsUnsubscribe(wsByChannel, ch, client);
         for (const th of client.dmThreads) wsUnsubscribe(wsByDmThread, th, client);
+        for (const th of client.threads.keys()) wsUnsubscribe(wsByThread, th, client);
         wsUnsubscribe(wsByUserId, client.userId, client);
-        if (wasOnline && !isUserOnline(client.userId)) {
-          void wsBroadcastRoomsForUser(client.userId, { type: "room_presence", userId: client.userId, online: false });
-        }
+        if (!wsByUserId.has(client.userId)) wsPresenceChanged(client.userId, false);
       });
 
       wsSendSafe(client, { type: "hello", userId });
@@ -564,8 +1133,8 @@ app.use((req, res, next) => {
   next();
 });
 
-// Attachments are currently sent as base64 data URLs inside JSON.
-// 10MB binary ~= 13.3MB base64, plus JSON overhead.
+// Files normally go through POST /uploads (raw body, not parsed here). The large limit remains for
+// older clients that still send base64 data URLs inside JSON: 10MB binary ~= 13.3MB base64, plus JSON overhead.
 app.use(express.json({ limit: "25mb" }));
 
 const RP_ID = process.env.RP_ID ?? "localhost";
@@ -586,7 +1155,10 @@ function readEnvOrFile(name: string): string | null {
 }
 
 const AUTH_SECRET = readEnvOrFile("AUTH_SECRET") ?? "dev-secret-change-me";
-const TOKEN_TTL_SEC = 60 * 60 * 24 * 7; // 7 days
+// access tokens are checked against `sessions`, so revoking a session takes effect within SESSION_CACHE_MS
+const ACCESS_TOKEN_TTL_SEC = 15 * 60;
+// sliding: every refresh pushes the session's expiry out again
+const REFRESH_TOKEN_TTL_SEC = 60 * 60 * 24 * 30; // 30 days
 
 if (process.env.NODE_ENV === "production" && AUTH_SECRET === "dev-secret-change-me") {
   throw new Error("AUTH_SECRET must be set in production");
@@ -601,6 +1173,7 @@ if (process.env.NODE_ENV === "production") {
 }
 
 const USER_ID_REGEX = /^[a-z0-9_-]{3,32}$/;
+const RESERVED_USER_IDS = new Set(["everyone", "here"]);
 
 function normalizeUserId(v: string) {
   return v.trim().toLowerCase();
@@ -611,6 +1184,8 @@ function validateUserId(userId: unknown): string | null {
   const v = normalizeUserId(userId);
   if (!v) return "userId_required";
   if (!USER_ID_REGEX.test(v)) return "userId_invalid";
+  // these are @everyone / @here in messages
+  if (RESERVED_USER_IDS.has(v)) return "userId_reserved";
   return null;
 }
 
@@ -637,15 +1212,18 @@ function fromBase64url(s: string) {
   return Buffer.from(base64 + pad, "base64");
 }
 
-function signAuthToken(userId: string) {
+type AuthClaims = { userId: string; sessionId: string };
+
+function signAuthToken(userId: string, sessionId: string) {
   const now = Math.floor(Date.now() / 1000);
-  const payloadObj = { sub: userId, iat: now, exp: now + TOKEN_TTL_SEC };
+  const payloadObj = { sub: userId, sid: sessionId, iat: now, exp: now + ACCESS_TOKEN_TTL_SEC };
   const payload = toBase64url(Buffer.from(JSON.stringify(payloadObj), "utf-8"));
   const sig = toBase64url(createHmac("sha256", AUTH_SECRET).update(payload).digest());
   return `${payload}.${sig}`;
 }
 
-function verifyAuthToken(token: string): string | null {
+// Signature and expiry only; sessionActive() tells whether the session is still alive.
+function verifyAuthToken(token: string): AuthClaims | null {
   const parts = token.split(".");
   if (parts.length !== 2) return null;
   const [payload, sig] = parts;
@@ -665,86 +1243,230 @@ function verifyAuthToken(token: string): string | null {
     const json = fromBase64url(payload).toString("utf-8");
     const obj = JSON.parse(json);
     const sub = typeof obj?.sub === "string" ? obj.sub : null;
+    const sid = typeof obj?.sid === "string" ? obj.sid : null;
     const exp = typeof obj?.exp === "number" ? obj.exp : null;
-    if (!sub || !exp) return null;
+    // tokens from before sessions existed have no sid: the user has to log in again
+    if (!sub || !sid || !exp) return null;
     const now = Math.floor(Date.now() / 1000);
     if (now >= exp) return null;
     const idErr = validateUserId(sub);
     if (idErr) return null;
-    return normalizeUserId(sub);
+    return { userId: normalizeUserId(sub), sessionId: sid };
   } catch {
     return null;
   }
 }
 
-function requireAuth(req: express.Request, res: express.Response, next: express.NextFunction) {
-  const h = req.header("authorization") || "";
-  const m = /^Bearer\s+(.+)$/i.exec(h);
-  const token = m?.[1]?.trim();
-  if (!token) return res.status(401).json({ error: "auth_required" });
-  const userId = verifyAuthToken(token);
-  if (!userId) return res.status(401).json({ error: "auth_invalid" });
-  (req as any).userId = userId;
-  next();
-}
+// --- Sessions ---
+// One row per login (device). The client holds a 15-minute access token and a refresh token;
+// POST /auth/refresh swaps the refresh token for a new pair.
 
-function authedUserId(req: express.Request): string | null {
-  const h = req.header("authorization") || "";
-  const m = /^Bearer\s+(.+)$/i.exec(h);
-  const token = m?.[1]?.trim();
-  if (!token) return null;
-  return verifyAuthToken(token);
+// how long a session seen alive is trusted without asking the DB (revocations clear it at once, on every instance)
+const SESSION_CACHE_MS = 60_000;
+const sessionCache = new Map<string, { userId: string; checkedAt: number }>();
+
+function hashRefreshToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
 }
 
-type RateLimitConfig = {
-  name: string;
-  windowMs: number;
-  max: number;
-  key: (req: express.Request) => string;
-};
+function newRefreshToken() {
+  return toBase64url(randomBytes(32));
+}
 
-const rateLimitState = new Map<string, { resetAt: number; count: number }>();
-let rateLimitCleanupCounter = 0;
+// "Chrome / Windows", "デスクトップアプリ / macOS", ...
+function describeUserAgent(ua: string) {
+  const app = /Electron\//.test(ua)
+    ? "デスクトップアプリ"
+    : /Edg\//.test(ua)
+      ? "Edge"
+      : /Firefox\//.test(ua)
+        ? "Firefox"
+        : /Chrome\//.test(ua)
+          ? "Chrome"
+          : /Safari\//.test(ua)
+            ? "Safari"
+            : "";
+  const os = /Android/.test(ua)
+    ? "Android"
+    : /iPhone|iPad|iPod/.test(ua)
+      ? "iOS"
+      : /Windows/.test(ua)
+        ? "Windows"
+        : /Mac OS X|Macintosh/.test(ua)
+          ? "macOS"
+          : /Linux/.test(ua)
+            ? "Linux"
+            : "";
+  return [app, os].filter(Boolean).join(" / ") || "不明な端末";
+}
 
-function clientIp(req: express.Request) {
-  return req.ip || req.socket.remoteAddress || "unknown";
+async function createSession(userId: string, req: express.Request) {
+  const sessionId = randomUUID();
+  const refreshToken = newRefreshToken();
+  const userAgent = String(req.header("user-agent") || "").slice(0, 512);
+  const rawLabel = typeof req.body?.deviceLabel === "string" ? req.body.deviceLabel.trim() : "";
+  const deviceLabel = rawLabel ? rawLabel.slice(0, 64) : describeUserAgent(userAgent);
+  const ip = clientIp(req);
+  await pool.query(
+    `INSERT INTO sessions (id, user_id, refresh_token_hash, device_label, user_agent, created_ip, last_ip, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $6, now() + ($7::int * interval '1 second'))`,
+    [sessionId, userId, hashRefreshToken(refreshToken), deviceLabel, userAgent, ip, REFRESH_TOKEN_TTL_SEC]
+  );
+  sessionCache.set(sessionId, { userId, checkedAt: Date.now() });
+  return { sessionId, token: signAuthToken(userId, sessionId), refreshToken };
 }
 
-function rateLimit(config: RateLimitConfig) {
-  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    const key = `${config.name}:${config.key(req)}`;
-    const now = Date.now();
-    const cur = rateLimitState.get(key);
+// Whether the token's session still exists; also records last-seen time / IP (at most once per SESSION_CACHE_MS).
+async function sessionActive(claims: AuthClaims, ip: string | null) {
+  const now = Date.now();
+  const cached = sessionCache.get(claims.sessionId);
+  if (cached && now - cached.checkedAt < SESSION_CACHE_MS) return cached.userId === claims.userId;
 
-    if (!cur || now >= cur.resetAt) {
-      rateLimitState.set(key, { resetAt: now + config.windowMs, count: 1 });
-      if ((rateLimitCleanupCounter++ & 0xff) === 0) {
-        for (const [k, v] of rateLimitState) {
-          if (now >= v.resetAt) rateLimitState.delete(k);
-        }
-      }
-      return next();
+  const r = await pool.query(
+    `UPDATE sessions SET last_seen_at=now(), last_ip=COALESCE($3, last_ip)
+     WHERE id=$1 AND user_id=$2 AND expires_at > now()
+     RETURNING id`,
+    [claims.sessionId, claims.userId, ip]
+  );
+  if ((r.rowCount ?? 0) === 0) {
+    sessionCache.delete(claims.sessionId);
+    return false;
+  }
+  if (sessionCache.size > 10_000) {
+    for (const [k, v] of sessionCache) {
+      if (now - v.checkedAt >= SESSION_CACHE_MS) sessionCache.delete(k);
     }
+  }
+  sessionCache.set(claims.sessionId, { userId: claims.userId, checkedAt: now });
+  return true;
+}
 
-    if (cur.count >= config.max) {
-      const retryAfterSec = Math.max(1, Math.ceil((cur.resetAt - now) / 1000));
-      res.setHeader("retry-after", String(retryAfterSec));
-      return res.status(429).json({ error: "rate_limited" });
+function dropSessionsLocal(sessionIds: string[]) {
+  const ids = new Set(sessionIds);
+  for (const id of ids) sessionCache.delete(id);
+  for (const c of wsClients) {
+    if (!ids.has(c.sessionId)) continue;
+    try {
+      c.ws.close(4001, "session_revoked");
+    } catch {
+      // ignore
     }
+  }
+}
 
-    cur.count += 1;
-    return next();
-  };
+// Logs the given sessions of userId out everywhere: their tokens stop working and their sockets are closed.
+async function revokeSessions(userId: string, sessionIds: string[]) {
+  if (sessionIds.length === 0) return [];
+  const { rows } = await pool.query(`DELETE FROM sessions WHERE user_id=$1 AND id = ANY($2::text[]) RETURNING id`, [
+    userId,
+    sessionIds,
+  ]);
+  const revoked = rows.map((r) => String(r.id));
+  if (revoked.length > 0) {
+    dropSessionsLocal(revoked);
+    void publishClusterEvent({ op: "sessions_revoked", sessionIds: revoked } satisfies ClusterWsEvent);
+  }
+  return revoked;
 }
 
-function rateKeyByIp(req: express.Request) {
-  return `ip:${clientIp(req)}`;
+// expired sessions, recovery enrollments and login challenges
+async function sweepExpiredAuthState() {
+  await pool.query(`DELETE FROM sessions WHERE expires_at <= now()`);
+  await pool.query(`DELETE FROM recovery_enrollments WHERE expires_at <= now()`);
+  await pool.query(`DELETE FROM webauthn_challenges WHERE expires_at <= now()`);
 }
 
-function rateKeyByUserOrIp(req: express.Request) {
-  const userId = (req as any).userId as string | undefined;
-  if (userId) return `u:${userId}`;
-  return rateKeyByIp(req);
+function bearerToken(req: express.Request) {
+  const h = req.header("authorization") || "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m?.[1]?.trim() || null;
+}
+
+async function requireAuth(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const token = bearerToken(req);
+  if (!token) return res.status(401).json({ error: "auth_required" });
+  const claims = verifyAuthToken(token);
+  if (!claims) return res.status(401).json({ error: "auth_invalid" });
+  if (!(await sessionActive(claims, clientIp(req)))) return res.status(401).json({ error: "session_revoked" });
+  (req as any).userId = claims.userId;
+  (req as any).sessionId = claims.sessionId;
+  next();
+}
+
+// --- Signed media URLs ---
+// <video src> etc. can't send the Authorization header, so the client asks for a short-lived URL instead.
+// The signature binds path + viewer + expiry; room membership / bans are still checked per request.
+const MEDIA_URL_TTL_SEC = 15 * 60;
+
+function mediaSignature(path: string, userId: string, exp: number) {
+  return toBase64url(createHmac("sha256", AUTH_SECRET).update(`media:${path}:${userId}:${exp}`).digest());
+}
+
+function signMediaPath(path: string, userId: string) {
+  const exp = Math.floor(Date.now() / 1000) + MEDIA_URL_TTL_SEC;
+  const q = new URLSearchParams({ uid: userId, exp: String(exp), sig: mediaSignature(path, userId, exp) });
+  return { url: `${path}?${q.toString()}`, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+// requireAuth, or a valid ?uid=&exp=&sig= issued by signMediaPath for this exact path.
+function requireAuthOrSignedUrl(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const sig = typeof req.query.sig === "string" ? req.query.sig : "";
+  if (!sig) return requireAuth(req, res, next);
+
+  const uid = typeof req.query.uid === "string" ? req.query.uid : "";
+  const exp = Number(req.query.exp);
+  if (!uid || !Number.isInteger(exp)) return res.status(403).json({ error: "signed_url_invalid" });
+  if (Math.floor(Date.now() / 1000) >= exp) return res.status(403).json({ error: "signed_url_expired" });
+
+  const a = Buffer.from(sig);
+  const b = Buffer.from(mediaSignature(req.path, uid, exp));
+  if (a.length !== b.length || !timingSafeEqual(a, b)) return res.status(403).json({ error: "signed_url_invalid" });
+  (req as any).userId = uid;
+  next();
+}
+
+async function authedUserId(req: express.Request): Promise<string | null> {
+  const token = bearerToken(req);
+  if (!token) return null;
+  const claims = verifyAuthToken(token);
+  if (!claims || !(await sessionActive(claims, clientIp(req)))) return null;
+  return claims.userId;
+}
+
+function clientIp(req: express.Request) {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+// Limits are configured in src/ratelimit.ts (RATE_LIMIT_* / RATE_LIMITS_FILE); the name must be listed there.
+// Responses carry the IETF draft RateLimit-* headers.
+function rateLimit(name: string, key: (req: express.Request) => string) {
+  if (!(name in rateLimitRules)) throw new Error(`unknown rate limit: ${name}`);
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const r = await consumeRateLimit(name, key(req));
+    if (!r.rule) return next();
+
+    const resetSec = Math.max(1, Math.ceil((r.resetAt - Date.now()) / 1000));
+    res.setHeader("ratelimit-policy", `${r.rule.max};w=${Math.round(r.rule.windowMs / 1000)}`);
+    res.setHeader("ratelimit-limit", String(r.rule.max));
+    res.setHeader("ratelimit-remaining", String(r.remaining));
+    res.setHeader("ratelimit-reset", String(resetSec));
+
+    if (!r.allowed) {
+      res.setHeader("retry-after", String(resetSec));
+      return res.status(429).json({ error: "rate_limited" });
+    }
+    return next();
+  };
+}
+
+function rateKeyByIp(req: express.Request) {
+  return `ip:${clientIp(req)}`;
+}
+
+function rateKeyByUserOrIp(req: express.Request) {
+  const userId = (req as any).userId as string | undefined;
+  if (userId) return `u:${userId}`;
+  return rateKeyByIp(req);
 }
 
 function validateName(name: unknown, field: string) {
@@ -756,6 +1478,13 @@ function validateName(name: unknown, field: string) {
   return null;
 }
 
+const MAX_TREE_POSITION = 100_000;
+
+function parsePosition(raw: unknown): number | null {
+  const n = Number(raw);
+  return typeof raw === "number" && Number.isInteger(n) && n >= 0 && n <= MAX_TREE_POSITION ? n : null;
+}
+
 function validateMessageContent(content: unknown) {
   if (typeof content !== "string") return "content_must_be_string";
   const v = content.trim();
@@ -879,6 +1608,221 @@ async function assertRoomOwner(roomId: string, userId: string, res: any) {
   return true;
 }
 
+// Room permissions granted through roles (room_roles.permissions is a bitfield of these).
+// The room owner has all of them; managing roles and deleting the room stay owner-only.
+const ROOM_PERMISSIONS = {
+  manage_channels: 1 << 0,
+  manage_invites: 1 << 1,
+  ban_members: 1 << 2,
+  kick_members: 1 << 3,
+  delete_messages: 1 << 4,
+  view_audit_log: 1 << 5,
+  manage_stickers: 1 << 6,
+  mention_everyone: 1 << 7,
+  post_announcements: 1 << 8,
+  pin_messages: 1 << 9,
+} as const;
+
+type RoomPermission = keyof typeof ROOM_PERMISSIONS;
+
+const ALL_ROOM_PERMISSIONS = allPermissionBits(ROOM_PERMISSIONS);
+const MAX_ROOM_ROLES = 50;
+
+// Channel permissions. Members have all of them unless overrides on the channel take some away.
+// Overrides apply @everyone -> the member's roles (combined) -> the member, deny before allow at each step.
+// In announcement channels send_messages additionally needs the post_announcements room permission.
+const CHANNEL_PERMISSIONS = {
+  view_channel: 1 << 0,
+  send_messages: 1 << 1,
+  attach_files: 1 << 2,
+  add_reactions: 1 << 3,
+  create_polls: 1 << 4,
+} as const;
+
+type ChannelPermission = keyof typeof CHANNEL_PERMISSIONS;
+
+const ALL_CHANNEL_PERMISSIONS = allPermissionBits(CHANNEL_PERMISSIONS);
+
+function allPermissionBits(table: Record<string, number>) {
+  return Object.values(table).reduce((bits, bit) => bits | bit, 0);
+}
+
+function permissionNames<K extends string>(bits: number, table: Record<K, number>): K[] {
+  return (Object.keys(table) as K[]).filter((p) => (bits & table[p]) !== 0);
+}
+
+// ["ban_members", ...] -> bitfield; null if not an array of known names
+function parsePermissions<K extends string>(raw: unknown, table: Record<K, number>): number | null {
+  if (!Array.isArray(raw)) return null;
+  let bits = 0;
+  for (const p of raw) {
+    if (typeof p !== "string" || !Object.hasOwn(table, p)) return null;
+    bits |= table[p as K];
+  }
+  return bits;
+}
+
+// null = room not found. Banned users get nothing even if they still hold roles.
+async function roomPermissionBits(roomId: string, userId: string): Promise<number | null> {
+  const r = await pool.query(
+    `SELECT r.owner_id,
+            COALESCE((
+              SELECT bit_or(rr.permissions)
+              FROM room_member_roles mr
+              JOIN room_roles rr ON rr.id = mr.role_id
+              WHERE mr.room_id = r.id AND mr.user_id = $2
+            ), 0) AS permissions,
+            EXISTS (SELECT 1 FROM room_bans b WHERE b.room_id = r.id AND b.user_id = $2) AS banned
+     FROM rooms r
+     WHERE r.id=$1`,
+    [roomId, userId]
+  );
+  if ((r.rowCount ?? 0) === 0) return null;
+  const row = r.rows[0];
+  if (!row.owner_id) return 0;
+  if (String(row.owner_id) === userId) return ALL_ROOM_PERMISSIONS;
+  if (row.banned) return 0;
+  return Number(row.permissions ?? 0);
+}
+
+// Members holding ban_members or kick_members can only be banned / kicked by the owner, so one moderator
+// can't remove the others (roles have no ordering).
+async function assertCanModerateMember(roomId: string, actorId: string, targetId: string, res: any) {
+  if (await isRoomOwner(roomId, actorId)) return true;
+  const bits = (await roomPermissionBits(roomId, targetId)) ?? 0;
+  if (bits & (ROOM_PERMISSIONS.ban_members | ROOM_PERMISSIONS.kick_members)) {
+    res.status(403).json({ error: "target_is_moderator" });
+    return false;
+  }
+  return true;
+}
+
+async function hasRoomPermission(roomId: string, userId: string, permission: RoomPermission) {
+  const bits = await roomPermissionBits(roomId, userId);
+  if (bits === null) return null;
+  return (bits & ROOM_PERMISSIONS[permission]) !== 0;
+}
+
+async function assertRoomPermission(roomId: string, userId: string, permission: RoomPermission, res: any) {
+  const ok = await hasRoomPermission(roomId, userId, permission);
+  if (ok === null) {
+    res.status(404).json({ error: "room_not_found" });
+    return false;
+  }
+  if (!ok) {
+    res.status(403).json({ error: "forbidden" });
+    return false;
+  }
+  return true;
+}
+
+// channelId -> permission bits of userId, for every channel of the room (or just channelId)
+async function channelPermissionBits(roomId: string, userId: string, channelId: string | null = null) {
+  const room = await pool.query(`SELECT owner_id FROM rooms WHERE id=$1`, [roomId]);
+  const isOwner = !!room.rows?.[0]?.owner_id && String(room.rows[0].owner_id) === userId;
+  const { rows } = await pool.query(
+    `SELECT c.id AS channel_id, c.type, o.target_type, o.allow, o.deny
+     FROM channels c
+     LEFT JOIN channel_permission_overrides o
+       ON o.channel_id = c.id
+      AND (o.target_type = 'everyone'
+           OR (o.target_type = 'member' AND o.target_id = $2)
+           OR (o.target_type = 'role' AND o.target_id IN (
+                 SELECT role_id FROM room_member_roles WHERE room_id = $1 AND user_id = $2
+               )))
+     WHERE c.room_id=$1 AND ($3::text IS NULL OR c.id = $3)`,
+    [roomId, userId, channelId]
+  );
+
+  type Layer = { allow: number; deny: number };
+  const layers = new Map<string, { everyone: Layer; roles: Layer; member: Layer; announcement: boolean }>();
+  for (const r of rows) {
+    const id = String(r.channel_id);
+    let l = layers.get(id);
+    if (!l) {
+      l = {
+        everyone: { allow: 0, deny: 0 },
+        roles: { allow: 0, deny: 0 },
+        member: { allow: 0, deny: 0 },
+        announcement: r.type === "announcement",
+      };
+      layers.set(id, l);
+    }
+    if (!r.target_type) continue;
+    const layer = r.target_type === "everyone" ? l.everyone : r.target_type === "role" ? l.roles : l.member;
+    layer.allow |= Number(r.allow ?? 0);
+    layer.deny |= Number(r.deny ?? 0);
+  }
+
+  const canAnnounce =
+    !isOwner && [...layers.values()].some((l) => l.announcement)
+      ? (((await roomPermissionBits(roomId, userId)) ?? 0) & ROOM_PERMISSIONS.post_announcements) !== 0
+      : true;
+
+  const out = new Map<string, number>();
+  for (const [id, l] of layers) {
+    if (isOwner) {
+      out.set(id, ALL_CHANNEL_PERMISSIONS);
+      continue;
+    }
+    let bits = ALL_CHANNEL_PERMISSIONS;
+    for (const layer of [l.everyone, l.roles, l.member]) bits = (bits & ~layer.deny) | layer.allow;
+    if (l.announcement && !canAnnounce) bits &= ~CHANNEL_PERMISSIONS.send_messages;
+    // nothing else applies to a channel you can't see
+    out.set(id, bits & CHANNEL_PERMISSIONS.view_channel ? bits : 0);
+  }
+  return out;
+}
+
+async function hasChannelPermission(roomId: string, channelId: string, userId: string, permission: ChannelPermission) {
+  const bits = (await channelPermissionBits(roomId, userId, channelId)).get(channelId) ?? 0;
+  return (bits & CHANNEL_PERMISSIONS[permission]) !== 0;
+}
+
+// call after the room ban / membership checks
+async function assertChannelPermission(
+  roomId: string,
+  channelId: string,
+  userId: string,
+  permission: ChannelPermission,
+  res: any
+) {
+  if (await hasChannelPermission(roomId, channelId, userId, permission)) return true;
+  res.status(403).json({ error: "missing_permission", permission });
+  return false;
+}
+
+const MAX_SLOWMODE_SECONDS = 6 * 60 * 60;
+const MAX_CHANNEL_TOPIC_LENGTH = 1024;
+
+// Slow mode: claims the member's next post in the channel. Returns null when allowed, otherwise the
+// seconds left to wait. Members who manage channels aren't limited.
+// db: the transaction inserting the message, so a post that fails afterwards gives the slot back
+async function claimSlowmodeSlot(
+  roomId: string,
+  channelId: string,
+  userId: string,
+  seconds: number,
+  db: typeof pool | PoolClient = pool
+) {
+  if (seconds <= 0) return null;
+  if (await hasRoomPermission(roomId, userId, "manage_channels")) return null;
+  const claimed = await db.query(
+    `INSERT INTO channel_slowmode (channel_id, user_id) VALUES ($1, $2)
+     ON CONFLICT (channel_id, user_id) DO UPDATE SET last_post_at = now()
+       WHERE channel_slowmode.last_post_at <= now() - ($3::int * interval '1 second')
+     RETURNING last_post_at`,
+    [channelId, userId, seconds]
+  );
+  if ((claimed.rowCount ?? 0) > 0) return null;
+  const { rows } = await db.query(
+    `SELECT CEIL(EXTRACT(EPOCH FROM (last_post_at + ($3::int * interval '1 second') - now()))) AS wait
+     FROM channel_slowmode WHERE channel_id=$1 AND user_id=$2`,
+    [channelId, userId, seconds]
+  );
+  return Math.max(1, Number(rows[0]?.wait ?? seconds));
+}
+
 async function isBannedFromRoom(roomId: string, userId: string) {
   const b = await pool.query(
     `SELECT 1 FROM room_bans WHERE room_id=$1 AND user_id=$2`,
@@ -927,6 +1871,71 @@ async function isFirstRegisteredUser(userId: string) {
   return String(r.rows?.[0]?.id || "") === userId;
 }
 
+// --- Instance administration ---
+// Site admins (users.is_admin) manage accounts and the instance settings. The first user to finish
+// registering becomes admin when there is none; admins can grant it to others.
+
+const ROOM_CREATION_POLICIES = ["first_user", "admins", "allowlist", "everyone"] as const;
+type RoomCreationPolicy = (typeof ROOM_CREATION_POLICIES)[number];
+
+// open: anyone can sign up / invite: a signup invite from an admin is required / closed: nobody can
+const REGISTRATION_MODES = ["open", "invite", "closed"] as const;
+type RegistrationMode = (typeof REGISTRATION_MODES)[number];
+
+// REGISTRATION_MODE only sets the default, e.g. to start a new instance invite-only; the console setting wins.
+const DEFAULT_REGISTRATION_MODE = (() => {
+  const raw = (process.env.REGISTRATION_MODE ?? "").trim().toLowerCase() || "open";
+  if (!REGISTRATION_MODES.includes(raw as RegistrationMode)) throw new Error(`unknown REGISTRATION_MODE: ${raw}`);
+  return raw as RegistrationMode;
+})();
+
+const INSTANCE_SETTING_DEFAULTS = {
+  room_creation_policy: "admins" as RoomCreationPolicy,
+  registration_mode: DEFAULT_REGISTRATION_MODE,
+};
+
+async function instanceSettings() {
+  const { rows } = await pool.query(`SELECT key, value FROM instance_settings`);
+  const stored = new Map(rows.map((r) => [String(r.key), r.value]));
+  const policy = stored.get("room_creation_policy");
+  const registration = stored.get("registration_mode");
+  return {
+    roomCreationPolicy: ROOM_CREATION_POLICIES.includes(policy)
+      ? (policy as RoomCreationPolicy)
+      : INSTANCE_SETTING_DEFAULTS.room_creation_policy,
+    registrationMode: REGISTRATION_MODES.includes(registration)
+      ? (registration as RegistrationMode)
+      : INSTANCE_SETTING_DEFAULTS.registration_mode,
+  };
+}
+
+async function isInstanceAdmin(userId: string) {
+  const r = await pool.query(`SELECT 1 FROM users WHERE id=$1 AND is_admin AND suspended_at IS NULL`, [userId]);
+  return (r.rowCount ?? 0) > 0;
+}
+
+async function assertInstanceAdmin(userId: string, res: express.Response) {
+  if (await isInstanceAdmin(userId)) return true;
+  res.status(403).json({ error: "forbidden" });
+  return false;
+}
+
+// first_user: only the first registered account (the old behaviour) / admins / allowlist: admins + users.can_create_rooms / everyone
+async function canCreateRooms(userId: string, policy?: RoomCreationPolicy) {
+  const p = policy ?? (await instanceSettings()).roomCreationPolicy;
+  if (p === "first_user") return isFirstRegisteredUser(userId);
+  if (p === "everyone") return true;
+  const r = await pool.query(`SELECT is_admin, can_create_rooms FROM users WHERE id=$1`, [userId]);
+  const row = r.rows?.[0];
+  if (!row) return false;
+  return !!row.is_admin || (p === "allowlist" && !!row.can_create_rooms);
+}
+
+async function isSuspended(userId: string) {
+  const r = await pool.query(`SELECT 1 FROM users WHERE id=$1 AND suspended_at IS NOT NULL`, [userId]);
+  return (r.rowCount ?? 0) > 0;
+}
+
 async function buildPollsByMessageIds(messageIds: string[], viewerUserId: string | null) {
   const byMessageId: Record<
     string,
@@ -986,6 +1995,76 @@ async function buildPollsByMessageIds(messageIds: string[], viewerUserId: string
   return byMessageId;
 }
 
+function detectRasterImageMime(buf: Buffer): "image/png" | "image/jpeg" | "image/gif" | "image/webp" | null {
+  // PNG: 89 50 4E 47 0D 0A 1A 0A
+  if (
+    buf.length >= 8 &&
+    buf[0] === 0x89 &&
+    buf[1] === 0x50 &&
+    buf[2] === 0x4e &&
+    buf[3] === 0x47 &&
+    buf[4] === 0x0d &&
+    buf[5] === 0x0a &&
+    buf[6] === 0x1a &&
+    buf[7] === 0x0a
+  ) {
+    return "image/png";
+  }
+
+  // JPEG: FF D8 FF
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) {
+    return "image/jpeg";
+  }
+
+  // GIF: GIF87a / GIF89a
+  if (
+    buf.length >= 6 &&
+    buf[0] === 0x47 &&
+    buf[1] === 0x49 &&
+    buf[2] === 0x46 &&
+    buf[3] === 0x38 &&
+    (buf[4] === 0x37 || buf[4] === 0x39) &&
+    buf[5] === 0x61
+  ) {
+    return "image/gif";
+  }
+
+  // WEBP: "RIFF" .... "WEBP"
+  if (
+    buf.length >= 12 &&
+    buf[0] === 0x52 &&
+    buf[1] === 0x49 &&
+    buf[2] === 0x46 &&
+    buf[3] === 0x46 &&
+    buf[8] === 0x57 &&
+    buf[9] === 0x45 &&
+    buf[10] === 0x42 &&
+    buf[11] === 0x50
+  ) {
+    return "image/webp";
+  }
+
+  return null;
+}
+
+// Magic-byte check against the declared type; only the first 12 bytes are needed.
+// Returns the normalized mime, or null when the type isn't allowed or doesn't match the content.
+function detectAttachmentMime(head: Buffer, declaredMime: string): string | null {
+  const imageDetected = detectRasterImageMime(head);
+  if (imageDetected) {
+    const normalizedDeclared =
+      declaredMime === "image/jpg" ? "image/jpeg" : declaredMime === "image/pjpeg" ? "image/jpeg" : declaredMime;
+    const allowedDeclared = new Set(["image/png", "image/jpeg", "image/jpg", "image/pjpeg", "image/webp", "image/gif"]);
+    if (!allowedDeclared.has(declaredMime)) return null;
+    if (normalizedDeclared !== imageDetected) return null;
+    return imageDetected;
+  }
+
+  if (declaredMime === "video/mp4" && detectMp4(head)) return "video/mp4";
+
+  return null;
+}
+
 type ParsedAttachmentResult =
   | { ok: true; mime: string; bytes: Buffer }
   | { ok: false; error: string };
@@ -999,73 +2078,9 @@ function parseDataUrlAttachmentDetailed(dataUrl: string): ParsedAttachmentResult
   const bytes = Buffer.from(b64, "base64");
   if (!bytes || bytes.length < 12) return { ok: false, error: "attachment_invalid_dataUrl" };
 
-  function detectRasterImageMime(buf: Buffer): "image/png" | "image/jpeg" | "image/gif" | "image/webp" | null {
-    // PNG: 89 50 4E 47 0D 0A 1A 0A
-    if (
-      buf.length >= 8 &&
-      buf[0] === 0x89 &&
-      buf[1] === 0x50 &&
-      buf[2] === 0x4e &&
-      buf[3] === 0x47 &&
-      buf[4] === 0x0d &&
-      buf[5] === 0x0a &&
-      buf[6] === 0x1a &&
-      buf[7] === 0x0a
-    ) {
-      return "image/png";
-    }
-
-    // JPEG: FF D8 FF
-    if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) {
-      return "image/jpeg";
-    }
-
-    // GIF: GIF87a / GIF89a
-    if (
-      buf.length >= 6 &&
-      buf[0] === 0x47 &&
-      buf[1] === 0x49 &&
-      buf[2] === 0x46 &&
-      buf[3] === 0x38 &&
-      (buf[4] === 0x37 || buf[4] === 0x39) &&
-      buf[5] === 0x61
-    ) {
-      return "image/gif";
-    }
-
-    // WEBP: "RIFF" .... "WEBP"
-    if (
-      buf.length >= 12 &&
-      buf[0] === 0x52 &&
-      buf[1] === 0x49 &&
-      buf[2] === 0x46 &&
-      buf[3] === 0x46 &&
-      buf[8] === 0x57 &&
-      buf[9] === 0x45 &&
-      buf[10] === 0x42 &&
-      buf[11] === 0x50
-    ) {
-      return "image/webp";
-    }
-
-    return null;
-  }
-
-  const imageDetected = detectRasterImageMime(bytes);
-  if (imageDetected) {
-    const normalizedDeclared =
-      declaredMime === "image/jpg" ? "image/jpeg" : declaredMime === "image/pjpeg" ? "image/jpeg" : declaredMime;
-    const allowedDeclared = new Set(["image/png", "image/jpeg", "image/jpg", "image/pjpeg", "image/webp", "image/gif"]);
-    if (!allowedDeclared.has(declaredMime)) return { ok: false, error: "attachment_invalid_dataUrl" };
-    if (normalizedDeclared !== imageDetected) return { ok: false, error: "attachment_invalid_dataUrl" };
-    return { ok: true, mime: imageDetected, bytes };
-  }
-
-  if (declaredMime === "video/mp4" && detectMp4(bytes)) {
-    return { ok: true, mime: "video/mp4", bytes };
-  }
-
-  return { ok: false, error: "attachment_invalid_dataUrl" };
+  const mime = detectAttachmentMime(bytes, declaredMime);
+  if (!mime) return { ok: false, error: "attachment_invalid_dataUrl" };
+  return { ok: true, mime, bytes };
 }
 
 function parseDataUrlAttachment(dataUrl: string): { mime: string; bytes: Buffer } | null {
@@ -1089,7 +2104,7 @@ app.get("/health", (_req, res) => res.json({ ok: true }));
 app.get(
   "/stickers",
   requireAuth,
-  rateLimit({ name: "stickers_list", windowMs: 10_000, max: 30, key: rateKeyByUserOrIp }),
+  rateLimit("stickers_list", rateKeyByUserOrIp),
   async (req, res) => {
     const me = (req as any).userId as string;
     const r = await pool.query(
@@ -1115,9 +2130,28 @@ app.get(
 app.post(
   "/stickers",
   requireAuth,
-  rateLimit({ name: "stickers_create", windowMs: 60_000, max: 30, key: rateKeyByUserOrIp }),
+  rateLimit("stickers_create", rateKeyByUserOrIp),
   async (req, res) => {
     const me = (req as any).userId as string;
+    const nameRaw = typeof req.body?.name === "string" ? String(req.body.name) : "";
+    const name = nameRaw.trim().slice(0, 32);
+    const id = randomUUID();
+
+    const uploadId = req.body?.uploadId;
+    if (typeof uploadId === "string" && uploadId) {
+      const claimed = await pool.query(
+        `WITH up AS (
+           DELETE FROM uploads WHERE id=$1 AND owner_id=$2 AND kind='sticker' RETURNING mime_type, storage_key
+         )
+         INSERT INTO stickers (id, owner_id, name, mime_type, storage_key)
+         SELECT $3, $2, $4, mime_type, storage_key FROM up
+         RETURNING mime_type`,
+        [uploadId, me, id, name]
+      );
+      if ((claimed.rowCount ?? 0) === 0) return res.status(400).json({ error: "upload_not_found" });
+      return res.status(201).json({ id, name, mimeType: String(claimed.rows[0].mime_type) });
+    }
+
     const dataUrl = req.body?.dataUrl;
     if (typeof dataUrl !== "string") return res.status(400).json({ error: "sticker_dataUrl_required" });
     const parsed = parseDataUrlImage(String(dataUrl));
@@ -1125,15 +2159,18 @@ app.post(
     // Keep stickers reasonably small, but allow animated GIFs too.
     if (parsed.bytes.length > 2_000_000) return res.status(400).json({ error: "sticker_too_large" });
 
-    const nameRaw = typeof req.body?.name === "string" ? String(req.body.name) : "";
-    const name = nameRaw.trim().slice(0, 32);
-
-    const id = randomUUID();
-    await pool.query(
-      `INSERT INTO stickers (id, owner_id, name, mime_type, data)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [id, me, name, parsed.mime, parsed.bytes]
-    );
+    const key = `stickers/${id}`;
+    await blobStore.put(key, parsed.bytes, parsed.mime);
+    try {
+      await pool.query(
+        `INSERT INTO stickers (id, owner_id, name, mime_type, storage_key)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [id, me, name, parsed.mime, key]
+      );
+    } catch (e) {
+      discardBlob(key);
+      throw e;
+    }
     res.status(201).json({ id, name, mimeType: parsed.mime });
   }
 );
@@ -1142,7 +2179,7 @@ app.post(
 app.get(
   "/rooms/:roomId/stickers",
   requireAuth,
-  rateLimit({ name: "room_stickers_list", windowMs: 10_000, max: 30, key: rateKeyByUserOrIp }),
+  rateLimit("room_stickers_list", rateKeyByUserOrIp),
   async (req, res) => {
     const me = (req as any).userId as string;
     const roomId = String(req.params.roomId || "");
@@ -1173,7 +2210,7 @@ app.get(
 app.post(
   "/rooms/:roomId/stickers",
   requireAuth,
-  rateLimit({ name: "room_stickers_create", windowMs: 60_000, max: 40, key: rateKeyByUserOrIp }),
+  rateLimit("room_stickers_create", rateKeyByUserOrIp),
   async (req, res) => {
     const me = (req as any).userId as string;
     const roomId = String(req.params.roomId || "");
@@ -1181,6 +2218,25 @@ app.post(
     if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
     if (!(await assertRoomMember(roomId, me, res))) return;
 
+    const nameRaw = typeof req.body?.name === "string" ? String(req.body.name) : "";
+    const name = nameRaw.trim().slice(0, 32);
+    const id = randomUUID();
+
+    const uploadId = req.body?.uploadId;
+    if (typeof uploadId === "string" && uploadId) {
+      const claimed = await pool.query(
+        `WITH up AS (
+           DELETE FROM uploads WHERE id=$1 AND owner_id=$2 AND kind='sticker' RETURNING mime_type, storage_key
+         )
+         INSERT INTO stickers (id, owner_id, room_id, name, mime_type, storage_key)
+         SELECT $3, $2, $4, $5, mime_type, storage_key FROM up
+         RETURNING mime_type`,
+        [uploadId, me, id, roomId, name]
+      );
+      if ((claimed.rowCount ?? 0) === 0) return res.status(400).json({ error: "upload_not_found" });
+      return res.status(201).json({ id, name, mimeType: String(claimed.rows[0].mime_type), createdBy: me });
+    }
+
     const dataUrl = req.body?.dataUrl;
     if (typeof dataUrl !== "string") return res.status(400).json({ error: "sticker_dataUrl_required" });
     const parsed = parseDataUrlImage(String(dataUrl));
@@ -1188,15 +2244,18 @@ app.post(
     // Keep stickers reasonably small, but allow animated GIFs too.
     if (parsed.bytes.length > 2_000_000) return res.status(400).json({ error: "sticker_too_large" });
 
-    const nameRaw = typeof req.body?.name === "string" ? String(req.body.name) : "";
-    const name = nameRaw.trim().slice(0, 32);
-
-    const id = randomUUID();
-    await pool.query(
-      `INSERT INTO stickers (id, owner_id, room_id, name, mime_type, data)
-       VALUES ($1, $2, $3, $4, $5, $6)`,
-      [id, me, roomId, name, parsed.mime, parsed.bytes]
-    );
+    const key = `stickers/${id}`;
+    await blobStore.put(key, parsed.bytes, parsed.mime);
+    try {
+      await pool.query(
+        `INSERT INTO stickers (id, owner_id, room_id, name, mime_type, storage_key)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [id, me, roomId, name, parsed.mime, key]
+      );
+    } catch (e) {
+      discardBlob(key);
+      throw e;
+    }
     res.status(201).json({ id, name, mimeType: parsed.mime, createdBy: me });
   }
 );
@@ -1204,7 +2263,7 @@ app.post(
 app.delete(
   "/rooms/:roomId/stickers/:stickerId",
   requireAuth,
-  rateLimit({ name: "room_stickers_delete", windowMs: 60_000, max: 80, key: rateKeyByUserOrIp }),
+  rateLimit("room_stickers_delete", rateKeyByUserOrIp),
   async (req, res) => {
     const me = (req as any).userId as string;
     const roomId = String(req.params.roomId || "");
@@ -1215,17 +2274,10 @@ app.delete(
     if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
     if (!(await assertRoomMember(roomId, me, res))) return;
 
-    const s = await pool.query(
-      `SELECT s.id, s.owner_id, r.owner_id AS room_owner
-       FROM stickers s
-       JOIN rooms r ON r.id = s.room_id
-       WHERE s.id=$1 AND s.room_id=$2`,
-      [stickerId, roomId]
-    );
+    const s = await pool.query(`SELECT id, owner_id FROM stickers WHERE id=$1 AND room_id=$2`, [stickerId, roomId]);
     if ((s.rowCount ?? 0) === 0) return res.status(404).json({ error: "sticker_not_found" });
     const ownerId = String(s.rows?.[0]?.owner_id || "");
-    const roomOwner = s.rows?.[0]?.room_owner ? String(s.rows[0].room_owner) : null;
-    const canDelete = me === ownerId || (roomOwner && me === roomOwner);
+    const canDelete = me === ownerId || !!(await hasRoomPermission(roomId, me, "manage_stickers"));
     if (!canDelete) return res.status(403).json({ error: "forbidden" });
 
     const del = await pool.query(`DELETE FROM stickers WHERE id=$1 AND room_id=$2`, [stickerId, roomId]);
@@ -1242,7 +2294,7 @@ app.delete(
 app.delete(
   "/stickers/:stickerId",
   requireAuth,
-  rateLimit({ name: "stickers_delete", windowMs: 60_000, max: 60, key: rateKeyByUserOrIp }),
+  rateLimit("stickers_delete", rateKeyByUserOrIp),
   async (req, res) => {
     const me = (req as any).userId as string;
     const stickerId = String(req.params.stickerId || "");
@@ -1262,13 +2314,13 @@ app.delete(
 app.get(
   "/stickers/:stickerId",
   requireAuth,
-  rateLimit({ name: "stickers_get", windowMs: 60_000, max: 300, key: rateKeyByUserOrIp }),
+  rateLimit("stickers_get", rateKeyByUserOrIp),
   async (req, res) => {
     const me = (req as any).userId as string;
     const stickerId = String(req.params.stickerId || "");
     if (!stickerId) return res.status(400).json({ error: "stickerId_required" });
 
-    const r = await pool.query(`SELECT mime_type, data, owner_id, room_id FROM stickers WHERE id=$1`, [stickerId]);
+    const r = await pool.query(`SELECT mime_type, data, storage_key, owner_id, room_id FROM stickers WHERE id=$1`, [stickerId]);
     if ((r.rowCount ?? 0) === 0) return res.status(404).json({ error: "sticker_not_found" });
 
     const ownerId = String(r.rows?.[0]?.owner_id || "");
@@ -1281,12 +2333,13 @@ app.get(
     }
 
     const mime = String(r.rows?.[0]?.mime_type || "application/octet-stream");
-    const data = r.rows?.[0]?.data as Buffer;
+    const key = r.rows?.[0]?.storage_key ? String(r.rows[0].storage_key) : null;
+    const data = (r.rows?.[0]?.data as Buffer | null) ?? null;
 
     res.setHeader("cache-control", "private, max-age=60");
     res.setHeader("content-disposition", "inline");
     res.setHeader("content-type", mime);
-    res.send(data);
+    await sendBlob(req, res, { key, data }, { notFound: "sticker_not_found" });
   }
 );
 
@@ -1299,7 +2352,7 @@ app.get("/friends", requireAuth, async (req, res) => {
     `SELECT
         CASE WHEN f.user1_id=$1 THEN f.user2_id ELSE f.user1_id END AS user_id,
         u.display_name,
-        (u.avatar_data IS NOT NULL) AS has_avatar
+        (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS has_avatar
      FROM friendships f
      JOIN users u
        ON u.id = CASE WHEN f.user1_id=$1 THEN f.user2_id ELSE f.user1_id END
@@ -1357,7 +2410,7 @@ app.delete("/friends/:userId", requireAuth, async (req, res) => {
 app.get("/friends/requests", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
   const incoming = await pool.query(
-    `SELECT fr.id, fr.from_user_id AS user_id, u.display_name, (u.avatar_data IS NOT NULL) AS has_avatar
+    `SELECT fr.id, fr.from_user_id AS user_id, u.display_name, (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS has_avatar
      FROM friend_requests fr
      JOIN users u ON u.id = fr.from_user_id
      WHERE fr.to_user_id=$1 AND fr.status='pending'
@@ -1365,7 +2418,7 @@ app.get("/friends/requests", requireAuth, async (req, res) => {
     [me]
   );
   const outgoing = await pool.query(
-    `SELECT fr.id, fr.to_user_id AS user_id, u.display_name, (u.avatar_data IS NOT NULL) AS has_avatar
+    `SELECT fr.id, fr.to_user_id AS user_id, u.display_name, (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS has_avatar
      FROM friend_requests fr
      JOIN users u ON u.id = fr.to_user_id
      WHERE fr.from_user_id=$1 AND fr.status='pending'
@@ -1409,6 +2462,15 @@ app.post("/friends/requests", requireAuth, async (req, res) => {
   // realtime: update both sides (incoming/outgoing)
   wsBroadcastUser(toUserId, { type: "home_updated" });
   wsBroadcastUser(me, { type: "home_updated" });
+  const from = await pool.query(`SELECT display_name FROM users WHERE id=$1`, [me]);
+  await createNotifications([
+    {
+      userId: toUserId,
+      kind: "friend_request",
+      actorId: me,
+      meta: { author: String(from.rows[0]?.display_name || me), requestId: id },
+    },
+  ]);
 
   void writeAuditLog({
     roomId: null,
@@ -1540,7 +2602,7 @@ app.get("/dm/threads", requireAuth, async (req, res) => {
     `SELECT t.id AS thread_id,
             other.id AS user_id,
             other.display_name,
-            (other.avatar_data IS NOT NULL) AS has_avatar
+            (other.avatar_key IS NOT NULL OR other.avatar_data IS NOT NULL) AS has_avatar
      FROM dm_members m
      JOIN dm_threads t ON t.id = m.thread_id
      JOIN dm_members m2 ON m2.thread_id = m.thread_id AND m2.user_id <> $1
@@ -1633,7 +2695,7 @@ app.get("/dm/threads/:threadId/messages", requireAuth, async (req, res) => {
 
   const { rows } = await pool.query(
     `SELECT m.id, m.thread_id, m.author_id, u.display_name AS author_name,
-            (u.avatar_data IS NOT NULL) AS author_has_avatar,
+            (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS author_has_avatar,
             m.content, m.created_at
      FROM dm_messages m
      JOIN users u ON u.id = m.author_id
@@ -1682,7 +2744,7 @@ app.get("/dm/threads/:threadId/messages", requireAuth, async (req, res) => {
 app.post(
   "/dm/threads/:threadId/messages",
   requireAuth,
-  rateLimit({ name: "dm_message_create", windowMs: 10_000, max: 15, key: rateKeyByUserOrIp }),
+  rateLimit("dm_message_create", rateKeyByUserOrIp),
   async (req, res) => {
   const me = (req as any).userId as string;
   const threadId = String(req.params.threadId || "");
@@ -1710,7 +2772,7 @@ app.post(
     [id, threadId, me, content]
   );
 
-  const u = await pool.query(`SELECT display_name, (avatar_data IS NOT NULL) AS has FROM users WHERE id=$1`, [me]);
+  const u = await pool.query(`SELECT display_name, (avatar_key IS NOT NULL OR avatar_data IS NOT NULL) AS has FROM users WHERE id=$1`, [me]);
   const authorName = String(u.rows?.[0]?.display_name || me);
   const authorHasAvatar = !!u.rows?.[0]?.has;
 
@@ -1727,6 +2789,16 @@ app.post(
 
   // realtime: broadcast to subscribers of this DM thread
   wsBroadcastDm(threadId, { type: "dm_message_created", threadId, message: payload });
+  await createNotifications([
+    {
+      userId: other,
+      kind: "dm",
+      actorId: me,
+      threadId,
+      messageId: id,
+      meta: { author: authorName, content: notificationSnippet(content) },
+    },
+  ]);
 
   res.status(201).json(payload);
   }
@@ -1736,7 +2808,7 @@ app.post(
 app.post(
   "/dm/messages/:messageId/reactions/toggle",
   requireAuth,
-  rateLimit({ name: "dm_reaction_toggle", windowMs: 10_000, max: 50, key: rateKeyByUserOrIp }),
+  rateLimit("dm_reaction_toggle", rateKeyByUserOrIp),
   async (req, res) => {
     const me = (req as any).userId as string;
     const messageId = String(req.params.messageId || "");
@@ -1804,7 +2876,7 @@ app.post(
 app.get(
   "/dm/threads/:threadId/messages/search",
   requireAuth,
-  rateLimit({ name: "dm_message_search", windowMs: 10_000, max: 30, key: rateKeyByUserOrIp }),
+  rateLimit("dm_message_search", rateKeyByUserOrIp),
   async (req, res) => {
     const me = (req as any).userId as string;
     const threadId = String(req.params.threadId || "");
@@ -1838,7 +2910,7 @@ app.get(
 
     const { rows } = await pool.query(
       `SELECT m.id, m.thread_id, m.author_id, u.display_name AS author_name,
-              (u.avatar_data IS NOT NULL) AS author_has_avatar,
+              (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS author_has_avatar,
               m.content, m.created_at
        FROM dm_messages m
        JOIN users u ON u.id = m.author_id
@@ -1868,7 +2940,7 @@ app.get(
   }
 );
 
-// user avatar (stored in DB)
+// user avatar
 app.get("/users/:userId/avatar", async (req, res) => {
   const userIdParam = req.params.userId;
   const userIdErr = validateUserId(userIdParam);
@@ -1876,17 +2948,18 @@ app.get("/users/:userId/avatar", async (req, res) => {
   const userId = normalizeUserId(String(userIdParam));
 
   const u = await pool.query(
-    `SELECT avatar_mime, avatar_data FROM users WHERE id=$1`,
+    `SELECT avatar_mime, avatar_data, avatar_key FROM users WHERE id=$1`,
     [userId]
   );
   if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
   const mime = u.rows[0]?.avatar_mime;
-  const data = u.rows[0]?.avatar_data;
-  if (!mime || !data) return res.status(404).json({ error: "avatar_not_found" });
+  const key = u.rows[0]?.avatar_key ? String(u.rows[0].avatar_key) : null;
+  const data = (u.rows[0]?.avatar_data as Buffer | null) ?? null;
+  if (!mime || (!key && !data)) return res.status(404).json({ error: "avatar_not_found" });
   res.setHeader("content-type", mime);
   // simple cache: avatars change rarely
   res.setHeader("cache-control", "public, max-age=300");
-  res.send(data);
+  await sendBlob(req, res, { key, data }, { notFound: "avatar_not_found" });
 });
 
 app.post("/users/:userId/avatar", requireAuth, async (req, res) => {
@@ -1902,9 +2975,23 @@ app.post("/users/:userId/avatar", requireAuth, async (req, res) => {
   const u = await pool.query(`SELECT id FROM users WHERE id=$1`, [userId]);
   if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
 
+  const uploadId = req.body?.uploadId;
+  if (typeof uploadId === "string" && uploadId) {
+    const claimed = await pool.query(
+      `WITH up AS (
+         DELETE FROM uploads WHERE id=$1 AND owner_id=$2 AND kind='avatar' RETURNING mime_type, storage_key
+       )
+       UPDATE users SET avatar_mime=up.mime_type, avatar_key=up.storage_key, avatar_data=NULL
+       FROM up WHERE users.id=$2`,
+      [uploadId, userId]
+    );
+    if ((claimed.rowCount ?? 0) === 0) return res.status(400).json({ error: "upload_not_found" });
+    return res.json({ ok: true });
+  }
+
   const dataUrl = req.body?.dataUrl;
   if (dataUrl == null || dataUrl === "") {
-    await pool.query(`UPDATE users SET avatar_mime=NULL, avatar_data=NULL WHERE id=$1`, [userId]);
+    await pool.query(`UPDATE users SET avatar_mime=NULL, avatar_data=NULL, avatar_key=NULL WHERE id=$1`, [userId]);
     return res.json({ ok: true });
   }
   if (typeof dataUrl !== "string") return res.status(400).json({ error: "dataUrl_must_be_string_or_null" });
@@ -1913,17 +3000,60 @@ app.post("/users/:userId/avatar", requireAuth, async (req, res) => {
   if (!parsed) return res.status(400).json({ error: "avatar_invalid_dataUrl" });
   if (parsed.bytes.length > 2 * 1024 * 1024) return res.status(400).json({ error: "avatar_too_large" });
 
-  await pool.query(
-    `UPDATE users SET avatar_mime=$2, avatar_data=$3 WHERE id=$1`,
-    [userId, parsed.mime, parsed.bytes]
-  );
+  // new key per upload; the previous blob is queued for deletion by the users_avatar_blob_replace trigger
+  const key = `avatars/${userId}/${randomUUID()}`;
+  await blobStore.put(key, parsed.bytes, parsed.mime);
+  try {
+    await pool.query(
+      `UPDATE users SET avatar_mime=$2, avatar_data=NULL, avatar_key=$3 WHERE id=$1`,
+      [userId, parsed.mime, key]
+    );
+  } catch (e) {
+    discardBlob(key);
+    throw e;
+  }
   return res.json({ ok: true });
 });
 
 // --- Passkey (WebAuthn) auth ---
+
+// How long a registration may take between options and verify
+const REGISTER_CHALLENGE_TTL_SEC = 5 * 60;
+
+// Whether a new account may sign up now: { invite } is the signup invite to consume (null when none is needed).
+// Until the first admin exists anyone can register, so a new instance can always be set up.
+async function signupGate(rawInvite: unknown): Promise<{ invite: string | null } | { status: number; error: string }> {
+  const { registrationMode } = await instanceSettings();
+  if (registrationMode === "open") return { invite: null };
+  const admins = await pool.query(`SELECT 1 FROM users WHERE is_admin LIMIT 1`);
+  if ((admins.rowCount ?? 0) === 0) return { invite: null };
+  if (registrationMode === "closed") return { status: 403, error: "registration_closed" };
+
+  if (rawInvite == null || rawInvite === "") return { status: 403, error: "signup_invite_required" };
+  const codeErr = validateInviteCode(rawInvite);
+  if (codeErr) return { status: 400, error: codeErr };
+  const code = normalizeInviteCode(String(rawInvite));
+  const r = await pool.query(`SELECT uses, max_uses, expires_at FROM signup_invites WHERE code=$1`, [code]);
+  if ((r.rowCount ?? 0) === 0) return { status: 404, error: "signup_invite_not_found" };
+  const inv = r.rows[0];
+  if (new Date(inv.expires_at).getTime() <= Date.now()) return { status: 410, error: "signup_invite_expired" };
+  if (Number(inv.uses) >= Number(inv.max_uses)) return { status: 410, error: "signup_invite_max_uses" };
+  return { invite: code };
+}
+
+// registration mode for the sign-up screen: the effective one, so "open" until the first admin exists (see signupGate)
+app.get("/auth/registration", async (_req, res) => {
+  const { registrationMode } = await instanceSettings();
+  if (registrationMode === "open") return res.json({ mode: registrationMode });
+  const admins = await pool.query(`SELECT 1 FROM users WHERE is_admin LIMIT 1`);
+  res.json({ mode: (admins.rowCount ?? 0) === 0 ? "open" : registrationMode });
+});
+
+// { userId, displayName, inviteCode? }. Nothing is stored on users yet: the pending registration is kept
+// with the challenge (challengeId goes back to verify) and the account is created once the passkey verifies.
 app.post(
   "/auth/register/options",
-  rateLimit({ name: "auth_register_options", windowMs: 60_000, max: 10, key: rateKeyByIp }),
+  rateLimit("auth_register_options", rateKeyByIp),
   async (req, res) => {
   const userIdErr = validateUserId(req.body?.userId);
   if (userIdErr) return res.status(400).json({ error: userIdErr });
@@ -1933,22 +3063,17 @@ app.post(
   const userId = normalizeUserId(req.body.userId);
   const displayName = String(req.body.displayName).trim();
 
-  const existing = await pool.query(`SELECT id FROM users WHERE id=$1`, [userId]);
-  if ((existing.rowCount ?? 0) > 0) {
-    const creds = await pool.query(`SELECT COUNT(*)::int AS c FROM passkey_credentials WHERE user_id=$1`, [userId]);
-    if (creds.rows?.[0]?.c > 0) return res.status(409).json({ error: "user_exists" });
-    await pool.query(`UPDATE users SET display_name=$2 WHERE id=$1`, [userId, displayName]);
-  } else {
-    await pool.query(`INSERT INTO users (id, display_name) VALUES ($1, $2)`, [userId, displayName]);
-  }
+  const gate = await signupGate(req.body?.inviteCode);
+  if ("error" in gate) return res.status(gate.status).json({ error: gate.error });
 
-  const userHandle = createHash("sha256").update(userId).digest();
+  const existing = await pool.query(`SELECT id FROM users WHERE id=$1`, [userId]);
+  if ((existing.rowCount ?? 0) > 0) return res.status(409).json({ error: "user_exists" });
 
   const options = await generateRegistrationOptions({
     rpName: RP_NAME,
     rpID: RP_ID,
     userName: userId,
-    userID: userHandle,
+    userID: webauthnUserHandle(userId),
     userDisplayName: displayName,
     attestationType: "none",
     authenticatorSelection: {
@@ -1959,34 +3084,42 @@ app.post(
     excludeCredentials: [],
   });
 
-  await pool.query(`UPDATE users SET current_challenge=$2 WHERE id=$1`, [userId, options.challenge]);
-  res.json(options);
+  const challengeId = randomUUID();
+  await pool.query(
+    `INSERT INTO webauthn_challenges (id, challenge, expires_at, purpose, user_id, display_name, signup_invite)
+     VALUES ($1, $2, now() + ($3::int * interval '1 second'), 'register', $4, $5, $6)`,
+    [challengeId, options.challenge, REGISTER_CHALLENGE_TTL_SEC, userId, displayName, gate.invite]
+  );
+  res.json({ ...options, challengeId });
   }
 );
 
+// { userId, challengeId, response }
 app.post(
   "/auth/register/verify",
-  rateLimit({ name: "auth_register_verify", windowMs: 60_000, max: 10, key: rateKeyByIp }),
+  rateLimit("auth_register_verify", rateKeyByIp),
   async (req, res) => {
   const userIdErr = validateUserId(req.body?.userId);
   if (userIdErr) return res.status(400).json({ error: userIdErr });
   if (!req.body?.response) return res.status(400).json({ error: "response_required" });
+  const challengeId = typeof req.body?.challengeId === "string" ? req.body.challengeId : "";
+  if (!challengeId) return res.status(400).json({ error: "challenge_missing" });
 
   const userId = normalizeUserId(req.body.userId);
-  const user = await pool.query(
-    `SELECT id, display_name, current_challenge FROM users WHERE id=$1`,
-    [userId]
+  const pending = await pool.query(
+    `DELETE FROM webauthn_challenges
+     WHERE id=$1 AND purpose='register' AND user_id=$2 AND expires_at > now()
+     RETURNING challenge, display_name, signup_invite`,
+    [challengeId, userId]
   );
-  if (user.rowCount === 0) return res.status(404).json({ error: "user_not_found" });
-
-  const expectedChallenge = user.rows[0].current_challenge;
-  if (!expectedChallenge) return res.status(400).json({ error: "challenge_missing" });
+  if ((pending.rowCount ?? 0) === 0) return res.status(400).json({ error: "challenge_missing" });
+  const displayName = String(pending.rows[0].display_name);
 
   let verification;
   try {
     verification = await verifyRegistrationResponse({
       response: req.body.response,
-      expectedChallenge,
+      expectedChallenge: String(pending.rows[0].challenge),
       expectedOrigin: RP_ORIGIN,
       expectedRPID: RP_ID,
       requireUserVerification: false,
@@ -2000,42 +3133,103 @@ app.post(
     return res.status(400).json({ error: "webauthn_not_verified" });
   }
 
+  // the mode may have changed (or the invite run out) since the options
+  const gate = await signupGate(pending.rows[0].signup_invite);
+  if ("error" in gate) return res.status(gate.status).json({ error: gate.error });
+
   const cred = verification.registrationInfo.credential;
-  const credentialId = String(cred.id);
-  const publicKey = toBase64url(Buffer.from(cred.publicKey));
-  const counter = Number(cred.counter) || 0;
-  const transports = Array.isArray(cred.transports) ? cred.transports : [];
 
-  await pool.query(
-    `INSERT INTO passkey_credentials (id, user_id, credential_id, public_key, counter, transports)
-     VALUES ($1, $2, $3, $4, $5, $6)`,
-    [randomUUID(), userId, credentialId, publicKey, counter, transports]
-  );
-  await pool.query(`UPDATE users SET current_challenge=NULL WHERE id=$1`, [userId]);
+  // one connection: the invite use must roll back with a failed insert
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    if (gate.invite) {
+      const used = await client.query(
+        `UPDATE signup_invites SET uses = uses + 1
+         WHERE code=$1 AND uses < max_uses AND expires_at > now()
+         RETURNING code`,
+        [gate.invite]
+      );
+      if ((used.rowCount ?? 0) === 0) {
+        await client.query("ROLLBACK");
+        return res.status(410).json({ error: "signup_invite_max_uses" });
+      }
+    }
+    const created = await client.query(
+      `INSERT INTO users (id, display_name, signup_invite) VALUES ($1, $2, $3) ON CONFLICT (id) DO NOTHING`,
+      [userId, displayName, gate.invite]
+    );
+    // someone else finished registering this ID first
+    if ((created.rowCount ?? 0) === 0) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "user_exists" });
+    }
+    await client.query(
+      `INSERT INTO passkey_credentials (id, user_id, credential_id, public_key, counter, transports, name, last_used_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, now())`,
+      [
+        randomUUID(),
+        userId,
+        String(cred.id),
+        toBase64url(Buffer.from(cred.publicKey)),
+        Number(cred.counter) || 0,
+        Array.isArray(cred.transports) ? cred.transports : [],
+        describeUserAgent(String(req.header("user-agent") || "")),
+      ]
+    );
+    // bootstrap: the first account on an instance without admins becomes one
+    await client.query(
+      `UPDATE users SET is_admin=true WHERE id=$1 AND NOT EXISTS (SELECT 1 FROM users WHERE is_admin)`,
+      [userId]
+    );
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  void writeAuditLog({
+    actorId: userId,
+    action: "user_register",
+    targetType: "user",
+    targetId: userId,
+    meta: { ip: clientIp(req), inviteCode: gate.invite },
+  });
 
-  const token = signAuthToken(userId);
-  res.json({ ok: true, userId, displayName: user.rows[0].display_name, token });
+  const recoveryCodes = await issueRecoveryCodes(userId);
+  const session = await createSession(userId, req);
+  res.json({
+    ok: true,
+    userId,
+    displayName,
+    token: session.token,
+    refreshToken: session.refreshToken,
+    recoveryCodes,
+  });
   }
 );
 
-app.post(
-  "/auth/login/options",
-  rateLimit({ name: "auth_login_options", windowMs: 60_000, max: 20, key: rateKeyByIp }),
-  async (req, res) => {
-  const userIdErr = validateUserId(req.body?.userId);
-  if (userIdErr) return res.status(400).json({ error: userIdErr });
+// How long a login without a user ID may wait: autofill (conditional UI) keeps the request open until the user picks a passkey.
+const DISCOVERABLE_CHALLENGE_TTL_SEC = 10 * 60;
 
-  const userId = normalizeUserId(req.body.userId);
+// WebAuthn user.id of an account; user IDs never change, so it is derived instead of stored.
+function webauthnUserHandle(userId: string) {
+  return createHash("sha256").update(userId).digest();
+}
 
-  const user = await pool.query(`SELECT id FROM users WHERE id=$1`, [userId]);
-  if (user.rowCount === 0) return res.status(404).json({ error: "user_not_found" });
+// Re-confirmation of a logged-in user with one of their passkeys before a sensitive action.
+// The challenge is a 'reauth' row in webauthn_challenges (sent back as challengeId), not users.current_challenge,
+// which anyone can overwrite through /auth/login/options.
+const REAUTH_CHALLENGE_TTL_SEC = 2 * 60;
 
+async function passkeyReauthOptions(userId: string) {
   const creds = await pool.query(
     `SELECT credential_id, transports FROM passkey_credentials WHERE user_id=$1 ORDER BY created_at ASC`,
     [userId]
   );
-  if (creds.rowCount === 0) return res.status(404).json({ error: "no_credentials" });
-
+  if ((creds.rowCount ?? 0) === 0) return null;
   const options = await generateAuthenticationOptions({
     rpID: RP_ID,
     userVerification: "preferred",
@@ -2045,33 +3239,165 @@ app.post(
       transports: Array.isArray(c.transports) ? c.transports : undefined,
     })),
   });
+  const challengeId = randomUUID();
+  await pool.query(
+    `INSERT INTO webauthn_challenges (id, challenge, expires_at, purpose, user_id)
+     VALUES ($1, $2, now() + ($3::int * interval '1 second'), 'reauth', $4)`,
+    [challengeId, options.challenge, REAUTH_CHALLENGE_TTL_SEC, userId]
+  );
+  return { ...options, challengeId };
+}
 
-  await pool.query(`UPDATE users SET current_challenge=$2 WHERE id=$1`, [userId, options.challenge]);
-  res.json(options);
+// null when `response` is a valid assertion for the passkeyReauthOptions(userId) challenge, otherwise the error code
+async function verifyPasskeyReauth(userId: string, challengeId: unknown, response: any): Promise<string | null> {
+  if (!response || typeof response !== "object") return "response_required";
+  const credentialId = response.id;
+  if (typeof credentialId !== "string") return "credentialId_missing";
+  if (typeof challengeId !== "string" || !challengeId) return "challenge_missing";
+
+  // single use, whatever the outcome
+  const ch = await pool.query(
+    `DELETE FROM webauthn_challenges
+     WHERE id=$1 AND purpose='reauth' AND user_id=$2 AND expires_at > now()
+     RETURNING challenge`,
+    [challengeId, userId]
+  );
+  if ((ch.rowCount ?? 0) === 0) return "challenge_missing";
+  const expectedChallenge = String(ch.rows[0].challenge);
+
+  const cred = await pool.query(
+    `SELECT credential_id, public_key, counter, transports
+     FROM passkey_credentials
+     WHERE user_id=$1 AND credential_id=$2`,
+    [userId, credentialId]
+  );
+  if ((cred.rowCount ?? 0) === 0) return "credential_not_found";
+  const row = cred.rows[0];
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: RP_ORIGIN,
+      expectedRPID: RP_ID,
+      requireUserVerification: false,
+      credential: {
+        id: row.credential_id,
+        publicKey: fromBase64url(row.public_key),
+        counter: Number(row.counter) || 0,
+        transports: Array.isArray(row.transports) ? row.transports : undefined,
+      },
+    });
+  } catch (e) {
+    console.error(e);
+    return "webauthn_verify_failed";
   }
-);
+  if (!verification.verified || !verification.authenticationInfo) return "webauthn_not_verified";
 
+  await pool.query(
+    `UPDATE passkey_credentials SET counter=$3, last_used_at=now() WHERE user_id=$1 AND credential_id=$2`,
+    [userId, credentialId, verification.authenticationInfo.newCounter]
+  );
+  return null;
+}
+
+// With { userId }: options for that user's passkeys.
+// Without: options for any discoverable passkey (allowCredentials empty) plus a challengeId to send back to verify.
 app.post(
-  "/auth/login/verify",
-  rateLimit({ name: "auth_login_verify", windowMs: 60_000, max: 20, key: rateKeyByIp }),
+  "/auth/login/options",
+  rateLimit("auth_login_options", rateKeyByIp),
   async (req, res) => {
-  const userIdErr = validateUserId(req.body?.userId);
+  const rawUserId = req.body?.userId;
+  if (rawUserId == null || rawUserId === "") {
+    const options = await generateAuthenticationOptions({
+      rpID: RP_ID,
+      userVerification: "preferred",
+      timeout: DISCOVERABLE_CHALLENGE_TTL_SEC * 1000,
+      allowCredentials: [],
+    });
+    const challengeId = randomUUID();
+    await pool.query(
+      `INSERT INTO webauthn_challenges (id, challenge, expires_at)
+       VALUES ($1, $2, now() + ($3::int * interval '1 second'))`,
+      [challengeId, options.challenge, DISCOVERABLE_CHALLENGE_TTL_SEC]
+    );
+    return res.json({ ...options, challengeId });
+  }
+
+  const userIdErr = validateUserId(rawUserId);
   if (userIdErr) return res.status(400).json({ error: userIdErr });
-  if (!req.body?.response) return res.status(400).json({ error: "response_required" });
 
-  const userId = normalizeUserId(req.body.userId);
-  const user = await pool.query(
-    `SELECT id, display_name, current_challenge FROM users WHERE id=$1`,
+  const userId = normalizeUserId(rawUserId);
+
+  const user = await pool.query(`SELECT id FROM users WHERE id=$1`, [userId]);
+  if (user.rowCount === 0) return res.status(404).json({ error: "user_not_found" });
+
+  const creds = await pool.query(
+    `SELECT credential_id, transports FROM passkey_credentials WHERE user_id=$1 ORDER BY created_at ASC`,
     [userId]
   );
-  if (user.rowCount === 0) return res.status(404).json({ error: "user_not_found" });
+  if (creds.rowCount === 0) return res.status(404).json({ error: "no_credentials" });
+
+  const options = await generateAuthenticationOptions({
+    rpID: RP_ID,
+    userVerification: "preferred",
+    timeout: 60_000,
+    allowCredentials: creds.rows.map((c) => ({
+      id: c.credential_id,
+      transports: Array.isArray(c.transports) ? c.transports : undefined,
+    })),
+  });
 
-  const expectedChallenge = user.rows[0].current_challenge;
-  if (!expectedChallenge) return res.status(400).json({ error: "challenge_missing" });
+  await pool.query(`UPDATE users SET current_challenge=$2 WHERE id=$1`, [userId, options.challenge]);
+  res.json(options);
+  }
+);
 
+// { userId, response } after options for a user, or { challengeId, response } after options without one:
+// then the account comes from the passkey's userHandle.
+app.post(
+  "/auth/login/verify",
+  rateLimit("auth_login_verify", rateKeyByIp),
+  async (req, res) => {
+  if (!req.body?.response) return res.status(400).json({ error: "response_required" });
   const credentialId = req.body?.response?.id;
   if (typeof credentialId !== "string") return res.status(400).json({ error: "credentialId_missing" });
 
+  const challengeId = typeof req.body?.challengeId === "string" ? req.body.challengeId : "";
+  let userId: string;
+  let expectedChallenge: string;
+  if (challengeId) {
+    const ch = await pool.query(
+      `DELETE FROM webauthn_challenges WHERE id=$1 AND purpose='login' AND expires_at > now() RETURNING challenge`,
+      [challengeId]
+    );
+    if ((ch.rowCount ?? 0) === 0) return res.status(400).json({ error: "challenge_missing" });
+    expectedChallenge = String(ch.rows[0].challenge);
+
+    const userHandle = req.body?.response?.response?.userHandle;
+    // non-discoverable credentials (e.g. older security keys) don't return a user handle
+    if (typeof userHandle !== "string" || !userHandle) return res.status(400).json({ error: "user_handle_missing" });
+    const owner = await pool.query(`SELECT user_id FROM passkey_credentials WHERE credential_id=$1`, [credentialId]);
+    if ((owner.rowCount ?? 0) === 0) return res.status(404).json({ error: "credential_not_found" });
+    userId = String(owner.rows[0].user_id);
+    if (toBase64url(webauthnUserHandle(userId)) !== userHandle) {
+      return res.status(400).json({ error: "user_handle_mismatch" });
+    }
+  } else {
+    const userIdErr = validateUserId(req.body?.userId);
+    if (userIdErr) return res.status(400).json({ error: userIdErr });
+    userId = normalizeUserId(req.body.userId);
+    const u = await pool.query(`SELECT current_challenge FROM users WHERE id=$1`, [userId]);
+    if (u.rowCount === 0) return res.status(404).json({ error: "user_not_found" });
+    expectedChallenge = u.rows[0].current_challenge;
+    if (!expectedChallenge) return res.status(400).json({ error: "challenge_missing" });
+  }
+
+  const user = await pool.query(`SELECT display_name, suspended_at FROM users WHERE id=$1`, [userId]);
+  if (user.rowCount === 0) return res.status(404).json({ error: "user_not_found" });
+  if (user.rows[0].suspended_at) return res.status(403).json({ error: "account_suspended" });
+
   const cred = await pool.query(
     `SELECT credential_id, public_key, counter, transports
      FROM passkey_credentials
@@ -2107,1539 +3433,4804 @@ app.post(
   }
 
   await pool.query(
-    `UPDATE passkey_credentials SET counter=$3 WHERE user_id=$1 AND credential_id=$2`,
+    `UPDATE passkey_credentials SET counter=$3, last_used_at=now() WHERE user_id=$1 AND credential_id=$2`,
     [userId, credentialId, verification.authenticationInfo.newCounter]
   );
-  await pool.query(`UPDATE users SET current_challenge=NULL WHERE id=$1`, [userId]);
+  if (!challengeId) await pool.query(`UPDATE users SET current_challenge=NULL WHERE id=$1`, [userId]);
 
-  const token = signAuthToken(userId);
-  res.json({ ok: true, userId, displayName: user.rows[0].display_name, token });
+  const session = await createSession(userId, req);
+  res.json({
+    ok: true,
+    userId,
+    displayName: user.rows[0].display_name,
+    token: session.token,
+    refreshToken: session.refreshToken,
+  });
   }
 );
 
-// update user display name (server-side)
-app.post("/users/:userId/displayName", requireAuth, async (req, res) => {
-  const userIdParam = req.params.userId;
-  const userIdErr = validateUserId(userIdParam);
-  if (userIdErr) return res.status(400).json({ error: userIdErr });
-  const userId = normalizeUserId(String(userIdParam));
-
-  const me = (req as any).userId as string;
-  if (me !== userId) return res.status(403).json({ error: "forbidden" });
+// Swaps a refresh token for a new access token + refresh token (the old refresh token stops working).
+app.post(
+  "/auth/refresh",
+  rateLimit("auth_refresh", rateKeyByIp),
+  async (req, res) => {
+  const refreshToken = typeof req.body?.refreshToken === "string" ? req.body.refreshToken.trim() : "";
+  if (!refreshToken) return res.status(400).json({ error: "refreshToken_required" });
 
-  const nameErr = validateDisplayName(req.body?.displayName);
-  if (nameErr) return res.status(400).json({ error: nameErr });
-  const displayName = String(req.body.displayName).trim();
+  const hash = hashRefreshToken(refreshToken);
+  const next = newRefreshToken();
+  const r = await pool.query(
+    `UPDATE sessions
+     SET refresh_token_hash=$2, previous_refresh_hash=refresh_token_hash,
+         last_seen_at=now(), last_ip=$3, expires_at=now() + ($4::int * interval '1 second')
+     WHERE refresh_token_hash=$1 AND expires_at > now()
+     RETURNING id, user_id`,
+    [hash, hashRefreshToken(next), clientIp(req), REFRESH_TOKEN_TTL_SEC]
+  );
+  if ((r.rowCount ?? 0) === 0) {
+    // a refresh token that was already swapped: two clients hold it, so the session can't be trusted any more
+    const reused = await pool.query(`SELECT id, user_id FROM sessions WHERE previous_refresh_hash=$1`, [hash]);
+    for (const row of reused.rows) await revokeSessions(String(row.user_id), [String(row.id)]);
+    return res.status(401).json({ error: "refresh_token_invalid" });
+  }
 
-  const u = await pool.query(`SELECT id FROM users WHERE id=$1`, [userId]);
-  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+  const sessionId = String(r.rows[0].id);
+  const userId = String(r.rows[0].user_id);
+  sessionCache.set(sessionId, { userId, checkedAt: Date.now() });
+  res.json({ ok: true, userId, token: signAuthToken(userId, sessionId), refreshToken: next });
+  }
+);
 
-  await pool.query(`UPDATE users SET display_name=$2 WHERE id=$1`, [userId, displayName]);
-  return res.json({ ok: true });
+app.post("/auth/logout", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const sessionId = (req as any).sessionId as string;
+  await revokeSessions(me, [sessionId]);
+  res.json({ ok: true });
 });
 
-// user profile (self only)
-app.get("/users/:userId/profile", requireAuth, async (req, res) => {
-  const userIdParam = req.params.userId;
-  const userIdErr = validateUserId(userIdParam);
-  if (userIdErr) return res.status(400).json({ error: userIdErr });
-  const userId = normalizeUserId(String(userIdParam));
+// my logged-in devices
+app.get("/sessions", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const current = (req as any).sessionId as string;
+  const { rows } = await pool.query(
+    `SELECT id, device_label, created_at, last_seen_at, last_ip
+     FROM sessions
+     WHERE user_id=$1 AND expires_at > now()
+     ORDER BY last_seen_at DESC`,
+    [me]
+  );
+  res.json(
+    rows.map((r) => ({
+      id: String(r.id),
+      deviceLabel: String(r.device_label),
+      createdAt: r.created_at,
+      lastSeenAt: r.last_seen_at,
+      ip: r.last_ip ? String(r.last_ip) : null,
+      current: String(r.id) === current,
+    }))
+  );
+});
 
+// log out every other device
+app.delete("/sessions", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  if (me !== userId) return res.status(403).json({ error: "forbidden" });
+  const current = (req as any).sessionId as string;
+  const { rows } = await pool.query(`SELECT id FROM sessions WHERE user_id=$1 AND id <> $2`, [me, current]);
+  const revoked = await revokeSessions(me, rows.map((r) => String(r.id)));
+  res.json({ ok: true, revoked: revoked.length });
+});
 
-  const u = await pool.query(`SELECT id, display_name, bio FROM users WHERE id=$1`, [userId]);
-  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
-  return res.json({ userId: u.rows[0].id, displayName: u.rows[0].display_name, bio: u.rows[0].bio ?? null });
+app.delete("/sessions/:sessionId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const sessionId = String(req.params.sessionId || "");
+  const revoked = await revokeSessions(me, [sessionId]);
+  if (revoked.length === 0) return res.status(404).json({ error: "session_not_found" });
+  res.json({ ok: true });
 });
 
-// update user bio (self only)
-app.post("/users/:userId/bio", requireAuth, async (req, res) => {
-  const userIdParam = req.params.userId;
-  const userIdErr = validateUserId(userIdParam);
-  if (userIdErr) return res.status(400).json({ error: userIdErr });
-  const userId = normalizeUserId(String(userIdParam));
+// --- Recovery codes ---
+// Shown once at registration (and on regeneration). A code is traded for an enrollment token
+// that allows registering one new passkey, which then logs the user in.
 
-  const me = (req as any).userId as string;
-  if (me !== userId) return res.status(403).json({ error: "forbidden" });
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_ENROLLMENT_TTL_SEC = 10 * 60;
+// no 0/o, 1/l/i: the codes get typed in by hand
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
 
-  const bioRaw = req.body?.bio;
-  const bio = typeof bioRaw === "string" ? bioRaw.trim() : "";
-  if (bio.length > 80) return res.status(400).json({ error: "bio_too_long" });
-  if (/[\r\n]/.test(bio)) return res.status(400).json({ error: "bio_no_newlines" });
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
 
-  const u = await pool.query(`SELECT id FROM users WHERE id=$1`, [userId]);
-  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
 
-  await pool.query(`UPDATE users SET bio=$2 WHERE id=$1`, [userId, bio ? bio : null]);
-  return res.json({ ok: true });
-});
+// "xxxx-xxxx-xxxx" (about 59 bits)
+function newRecoveryCode() {
+  let raw = "";
+  for (let i = 0; i < 12; i++) raw += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+  return `${raw.slice(0, 4)}-${raw.slice(4, 8)}-${raw.slice(8)}`;
+}
 
-// list rooms
-app.get("/rooms", requireAuth, async (req, res) => {
+// Replaces all of the user's recovery codes; the plain codes are only ever returned from here.
+// db: the caller's transaction client, if any
+async function issueRecoveryCodes(userId: string, count = RECOVERY_CODE_COUNT, db: typeof pool | PoolClient = pool) {
+  const codes = Array.from({ length: count }, () => newRecoveryCode());
+  await db.query(
+    `WITH old AS (DELETE FROM recovery_codes WHERE user_id=$1)
+     INSERT INTO recovery_codes (id, user_id, code_hash)
+     SELECT id, $1, code_hash FROM unnest($2::text[], $3::text[]) AS t(id, code_hash)`,
+    [userId, codes.map(() => randomUUID()), codes.map(hashRecoveryCode)]
+  );
+  return codes;
+}
+
+async function remainingRecoveryCodes(userId: string) {
+  const r = await pool.query(`SELECT COUNT(*)::int AS c FROM recovery_codes WHERE user_id=$1 AND used_at IS NULL`, [
+    userId,
+  ]);
+  return Number(r.rows?.[0]?.c ?? 0);
+}
+
+// valid enrollment for the token, or null
+async function findRecoveryEnrollment(token: unknown) {
+  if (typeof token !== "string" || !token.trim()) return null;
+  const r = await pool.query(
+    `SELECT id, user_id, challenge FROM recovery_enrollments WHERE token_hash=$1 AND expires_at > now()`,
+    [createHash("sha256").update(token.trim()).digest("hex")]
+  );
+  if ((r.rowCount ?? 0) === 0) return null;
+  const row = r.rows[0];
+  return { id: String(row.id), userId: String(row.user_id), challenge: row.challenge ? String(row.challenge) : null };
+}
+
+app.get("/recovery-codes", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  const { rows } = await pool.query(
-    `SELECT r.id, r.name, r.owner_id
-     FROM rooms r
-     WHERE NOT EXISTS (
-       SELECT 1 FROM room_bans b
-       WHERE b.room_id = r.id AND b.user_id = $1
-     )
-     AND (
-       r.owner_id IS NULL
-       OR r.owner_id = $1
-       OR EXISTS (
-         SELECT 1 FROM room_members rm
-         WHERE rm.room_id = r.id AND rm.user_id = $1
-       )
-     )
-     ORDER BY r.created_at ASC`,
+  const r = await pool.query(
+    `SELECT COUNT(*)::int AS total, COUNT(*) FILTER (WHERE used_at IS NULL)::int AS remaining, MAX(created_at) AS created_at
+     FROM recovery_codes WHERE user_id=$1`,
     [me]
   );
-  res.json(rows);
+  const row = r.rows[0];
+  res.json({ total: Number(row.total), remaining: Number(row.remaining), createdAt: row.created_at ?? null });
 });
 
-// create room
-app.post("/rooms", requireAuth, async (req, res) => {
+// issues a new set (the old codes stop working), re-confirmed with a passkey:
+// POST /recovery-codes/options -> WebAuthn request options for my passkeys (+ challengeId)
+// POST /recovery-codes { challengeId, response }
+app.post("/recovery-codes/options", requireAuth, rateLimit("recovery_codes", rateKeyByUserOrIp), async (req, res) => {
   const me = (req as any).userId as string;
-  if (!(await isFirstRegisteredUser(me))) {
-    return res.status(403).json({ error: "only_first_user_can_create_rooms" });
-  }
-  const nameErr = validateName(req.body?.name, "name");
-  if (nameErr) return res.status(400).json({ error: nameErr });
-
-  const id = randomUUID();
-  const name = String(req.body.name).trim();
-
-  // Room作成時にデフォルト構成も同時に作成
-  // - カテゴリ: 「一般」
-  // - チャンネル: 「雑談」（上記カテゴリ配下）
-  const categoryId = randomUUID();
-  const channelId = randomUUID();
-
-  await pool.query("BEGIN");
-  try {
-    await pool.query(`INSERT INTO rooms (id, name, owner_id) VALUES ($1, $2, $3)`, [id, name, me]);
-    await pool.query(
-      `INSERT INTO room_members (room_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
-      [id, me]
-    );
-    await pool.query(
-      `INSERT INTO categories (id, room_id, name, position) VALUES ($1, $2, $3, $4)`,
-      [categoryId, id, "一般", 0]
-    );
-    await pool.query(
-      `INSERT INTO channels (id, room_id, category_id, name, position) VALUES ($1, $2, $3, $4, $5)`,
-      [channelId, id, categoryId, "雑談", 0]
-    );
-    await pool.query("COMMIT");
-  } catch (e) {
-    await pool.query("ROLLBACK");
-    throw e;
-  }
-
-  void writeAuditLog({ roomId: id, actorId: me, action: "room_create", targetType: "room", targetId: id, meta: { name } });
-  res.status(201).json({ id, name, owner_id: me });
+  const options = await passkeyReauthOptions(me);
+  if (!options) return res.status(404).json({ error: "no_credentials" });
+  res.json(options);
 });
 
-// delete room
-app.delete("/rooms/:roomId", requireAuth, async (req, res) => {
+app.post("/recovery-codes", requireAuth, rateLimit("recovery_codes", rateKeyByUserOrIp), async (req, res) => {
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
-
-  const r = await pool.query(`SELECT name FROM rooms WHERE id=$1`, [roomId]);
-  const roomName = r.rows?.[0]?.name ? String(r.rows[0].name) : null;
-  void writeAuditLog({ roomId, actorId: me, action: "room_delete", targetType: "room", targetId: roomId, meta: { name: roomName } });
+  const reauthErr = await verifyPasskeyReauth(me, req.body?.challengeId, req.body?.response);
+  if (reauthErr) return res.status(reauthErr === "credential_not_found" ? 404 : 400).json({ error: reauthErr });
 
-  await pool.query(`DELETE FROM rooms WHERE id=$1`, [roomId]);
-  res.json({ ok: true });
+  const codes = await issueRecoveryCodes(me);
+  void writeAuditLog({ actorId: me, action: "recovery_codes_regenerate", targetType: "user", targetId: me });
+  res.json({ ok: true, codes });
 });
 
-// room tree: categories + channels
-app.get("/rooms/:roomId/tree", requireAuth, async (req, res) => {
-  const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+app.post(
+  "/auth/recovery",
+  rateLimit("auth_recovery", rateKeyByIp),
+  rateLimit("auth_recovery_user", (req) => `u:${normalizeUserId(String(req.body?.userId ?? ""))}`),
+  async (req, res) => {
+  const userIdErr = validateUserId(req.body?.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  if (typeof req.body?.code !== "string" || !normalizeRecoveryCode(req.body.code)) {
+    return res.status(400).json({ error: "code_required" });
+  }
+  const userId = normalizeUserId(req.body.userId);
+  const ip = clientIp(req);
+
+  const user = await pool.query(`SELECT id, suspended_at FROM users WHERE id=$1`, [userId]);
+  // same answer as a wrong code, so user IDs can't be probed here
+  if ((user.rowCount ?? 0) === 0) return res.status(400).json({ error: "recovery_code_invalid" });
+
+  // a suspended account keeps its codes; a correct one only tells that the account is suspended
+  const suspended = !!user.rows[0].suspended_at;
+  const used = await pool.query(
+    `UPDATE recovery_codes SET used_at = CASE WHEN $3::boolean THEN used_at ELSE now() END
+     WHERE user_id=$1 AND code_hash=$2 AND used_at IS NULL
+     RETURNING id`,
+    [userId, hashRecoveryCode(req.body.code), suspended]
+  );
+  if ((used.rowCount ?? 0) === 0) {
+    void writeAuditLog({ actorId: userId, action: "recovery_code_failed", targetType: "user", targetId: userId, meta: { ip } });
+    return res.status(400).json({ error: "recovery_code_invalid" });
+  }
+  if (suspended) return res.status(403).json({ error: "account_suspended" });
+
+  const enrollmentToken = toBase64url(randomBytes(32));
+  const e = await pool.query(
+    `INSERT INTO recovery_enrollments (id, user_id, token_hash, expires_at)
+     VALUES ($1, $2, $3, now() + ($4::int * interval '1 second'))
+     RETURNING expires_at`,
+    [randomUUID(), userId, createHash("sha256").update(enrollmentToken).digest("hex"), RECOVERY_ENROLLMENT_TTL_SEC]
+  );
+  const remaining = await remainingRecoveryCodes(userId);
+  void writeAuditLog({
+    actorId: userId,
+    action: "recovery_code_use",
+    targetType: "user",
+    targetId: userId,
+    meta: { ip, remaining },
+  });
+  res.json({ ok: true, enrollmentToken, expiresAt: e.rows[0].expires_at, remaining });
+  }
+);
 
-  const room = await pool.query(`SELECT id, name, owner_id FROM rooms WHERE id=$1`, [roomId]);
-  if (room.rowCount === 0) return res.status(404).json({ error: "room_not_found" });
+app.post(
+  "/auth/recovery/options",
+  rateLimit("auth_register_options", rateKeyByIp),
+  async (req, res) => {
+  const enrollment = await findRecoveryEnrollment(req.body?.enrollmentToken);
+  if (!enrollment) return res.status(400).json({ error: "enrollment_invalid" });
 
-  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
-  if (!(await assertRoomMember(roomId, me, res))) return;
+  const user = await pool.query(`SELECT display_name FROM users WHERE id=$1`, [enrollment.userId]);
+  if ((user.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+  const creds = await pool.query(`SELECT credential_id, transports FROM passkey_credentials WHERE user_id=$1`, [
+    enrollment.userId,
+  ]);
 
-  const cats = await pool.query(
-    `SELECT id, name, position FROM categories WHERE room_id=$1 ORDER BY position ASC`,
-    [roomId]
-  );
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID: RP_ID,
+    userName: enrollment.userId,
+    userID: webauthnUserHandle(enrollment.userId),
+    userDisplayName: String(user.rows[0].display_name),
+    attestationType: "none",
+    authenticatorSelection: {
+      residentKey: "preferred",
+      userVerification: "preferred",
+    },
+    timeout: 60_000,
+    excludeCredentials: creds.rows.map((c) => ({
+      id: c.credential_id,
+      transports: Array.isArray(c.transports) ? c.transports : undefined,
+    })),
+  });
 
-  const chans = await pool.query(
-    `SELECT id, name, position, category_id
-     FROM channels
-     WHERE room_id=$1
-     ORDER BY category_id NULLS LAST, position ASC`,
-    [roomId]
-  );
+  await pool.query(`UPDATE recovery_enrollments SET challenge=$2 WHERE id=$1`, [enrollment.id, options.challenge]);
+  res.json(options);
+  }
+);
 
-  const byCat: Record<string, any[]> = {};
-  for (const ch of chans.rows) {
-    const key = ch.category_id ?? "__uncategorized__";
-    (byCat[key] ||= []).push({ id: ch.id, name: ch.name, position: ch.position });
+app.post(
+  "/auth/recovery/verify",
+  rateLimit("auth_register_verify", rateKeyByIp),
+  async (req, res) => {
+  if (!req.body?.response) return res.status(400).json({ error: "response_required" });
+  const enrollment = await findRecoveryEnrollment(req.body?.enrollmentToken);
+  if (!enrollment) return res.status(400).json({ error: "enrollment_invalid" });
+  if (!enrollment.challenge) return res.status(400).json({ error: "challenge_missing" });
+  if (await isSuspended(enrollment.userId)) return res.status(403).json({ error: "account_suspended" });
+
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response: req.body.response,
+      expectedChallenge: enrollment.challenge,
+      expectedOrigin: RP_ORIGIN,
+      expectedRPID: RP_ID,
+      requireUserVerification: false,
+    });
+  } catch (e) {
+    console.error(e);
+    return res.status(400).json({ error: "webauthn_verify_failed" });
+  }
+  if (!verification.verified || !verification.registrationInfo) {
+    return res.status(400).json({ error: "webauthn_not_verified" });
   }
 
-  const categories = cats.rows.map((c) => ({
-    id: c.id,
-    name: c.name,
-    position: c.position,
-    channels: byCat[c.id] ?? [],
-  }));
+  // one passkey per enrollment: whoever deletes the row first registers
+  const del = await pool.query(`DELETE FROM recovery_enrollments WHERE id=$1`, [enrollment.id]);
+  if ((del.rowCount ?? 0) === 0) return res.status(400).json({ error: "enrollment_invalid" });
 
-  const uncategorized = byCat["__uncategorized__"] ?? [];
+  const userId = enrollment.userId;
+  const cred = verification.registrationInfo.credential;
+  const passkeyId = randomUUID();
+  const ins = await pool.query(
+    `INSERT INTO passkey_credentials (id, user_id, credential_id, public_key, counter, transports, name, last_used_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+     ON CONFLICT (credential_id) DO NOTHING`,
+    [
+      passkeyId,
+      userId,
+      String(cred.id),
+      toBase64url(Buffer.from(cred.publicKey)),
+      Number(cred.counter) || 0,
+      Array.isArray(cred.transports) ? cred.transports : [],
+      describeUserAgent(String(req.header("user-agent") || "")),
+    ]
+  );
+  if ((ins.rowCount ?? 0) === 0) return res.status(409).json({ error: "passkey_already_registered" });
+
+  void writeAuditLog({
+    actorId: userId,
+    action: "recovery_passkey_register",
+    targetType: "passkey",
+    targetId: passkeyId,
+    meta: { ip: clientIp(req) },
+  });
 
+  const user = await pool.query(`SELECT display_name FROM users WHERE id=$1`, [userId]);
+  const session = await createSession(userId, req);
   res.json({
-    room: room.rows[0],
-    categories,
-    uncategorized,
+    ok: true,
+    userId,
+    displayName: String(user.rows?.[0]?.display_name ?? userId),
+    token: session.token,
+    refreshToken: session.refreshToken,
+    remainingRecoveryCodes: await remainingRecoveryCodes(userId),
   });
-});
+  }
+);
 
-// room bans (owner only)
-app.get("/rooms/:roomId/bans", requireAuth, async (req, res) => {
-  const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
+// --- Passkey management (logged in) ---
+
+function validatePasskeyName(name: unknown): string | null {
+  if (typeof name !== "string") return "name_must_be_string";
+  const v = name.trim();
+  if (!v) return "name_required";
+  if (v.length > 64) return "name_too_long";
+  return null;
+}
+
+function passkeyJson(r: any) {
+  return {
+    id: String(r.id),
+    name: String(r.name ?? ""),
+    transports: Array.isArray(r.transports) ? r.transports.map(String) : [],
+    createdAt: r.created_at,
+    lastUsedAt: r.last_used_at ?? null,
+  };
+}
 
+app.get("/passkeys", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
   const { rows } = await pool.query(
-    `SELECT b.user_id, u.display_name, b.reason, b.created_at
-     FROM room_bans b
-     JOIN users u ON u.id = b.user_id
-     WHERE b.room_id=$1
-     ORDER BY b.created_at DESC`,
-    [roomId]
+    `SELECT id, name, transports, created_at, last_used_at
+     FROM passkey_credentials
+     WHERE user_id=$1
+     ORDER BY created_at ASC`,
+    [me]
   );
-  res.json(rows.map((r) => ({ userId: r.user_id, displayName: r.display_name, reason: r.reason ?? null, created_at: r.created_at })));
+  res.json(rows.map(passkeyJson));
 });
 
-app.post("/rooms/:roomId/bans", requireAuth, async (req, res) => {
+// Adding and removing passkeys is re-confirmed with an existing passkey, so a stolen access token alone can't
+// plant a credential that outlives session revocation or remove the owner's:
+// POST /passkeys/reauth/options -> request options (+ challengeId) for my passkeys, answered in verify / DELETE
+app.post("/passkeys/reauth/options", requireAuth, rateLimit("passkeys_update", rateKeyByUserOrIp), async (req, res) => {
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
-
-  const userIdErr = validateUserId(req.body?.userId);
-  if (userIdErr) return res.status(400).json({ error: userIdErr });
-  const target = normalizeUserId(String(req.body.userId));
-  if (target === me) return res.status(400).json({ error: "cannot_ban_self" });
+  const options = await passkeyReauthOptions(me);
+  if (!options) return res.status(404).json({ error: "no_credentials" });
+  res.json(options);
+});
 
-  const u = await pool.query(`SELECT id FROM users WHERE id=$1`, [target]);
-  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+// registration options for an additional passkey (the ones already registered are excluded), plus a challengeId
+// to send back to verify. The challenge is kept like a signup's, not in users.current_challenge, which
+// /auth/login/options overwrites.
+app.post("/passkeys/options", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const user = await pool.query(`SELECT display_name FROM users WHERE id=$1`, [me]);
+  if ((user.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
 
-  const reasonRaw = req.body?.reason;
-  const reason = typeof reasonRaw === "string" ? reasonRaw.trim() : "";
-  if (reason.length > 200) return res.status(400).json({ error: "reason_too_long" });
-  if (/[\r\n]/.test(reason)) return res.status(400).json({ error: "reason_no_newlines" });
+  const creds = await pool.query(`SELECT credential_id, transports FROM passkey_credentials WHERE user_id=$1`, [me]);
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID: RP_ID,
+    userName: me,
+    userID: webauthnUserHandle(me),
+    userDisplayName: String(user.rows[0].display_name),
+    attestationType: "none",
+    authenticatorSelection: {
+      residentKey: "preferred",
+      userVerification: "preferred",
+    },
+    timeout: 60_000,
+    excludeCredentials: creds.rows.map((c) => ({
+      id: c.credential_id,
+      transports: Array.isArray(c.transports) ? c.transports : undefined,
+    })),
+  });
 
+  const challengeId = randomUUID();
   await pool.query(
-    `INSERT INTO room_bans (id, room_id, user_id, banned_by, reason)
-     VALUES ($1, $2, $3, $4, $5)
-     ON CONFLICT (room_id, user_id) DO NOTHING`,
-    [randomUUID(), roomId, target, me, reason || null]
+    `INSERT INTO webauthn_challenges (id, challenge, expires_at, purpose, user_id)
+     VALUES ($1, $2, now() + ($3::int * interval '1 second'), 'register', $4)`,
+    [challengeId, options.challenge, REGISTER_CHALLENGE_TTL_SEC, me]
   );
-
-  void writeAuditLog({
-    roomId,
-    actorId: me,
-    action: "room_ban",
-    targetType: "user",
-    targetId: target,
-    meta: { reason: reason || null },
-  });
-
-  await wsBroadcastRoom(roomId, { type: "room_ban_changed", roomId, userId: target, banned: true });
-  await wsKickUserFromRoom(target, roomId);
-  res.json({ ok: true });
+  res.json({ ...options, challengeId });
 });
 
-app.delete("/rooms/:roomId/bans/:userId", requireAuth, async (req, res) => {
+// { challengeId, response, name?, reauth: { challengeId, response } }
+app.post("/passkeys/verify", requireAuth, rateLimit("passkeys_update", rateKeyByUserOrIp), async (req, res) => {
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
+  if (!req.body?.response) return res.status(400).json({ error: "response_required" });
+  const challengeId = typeof req.body?.challengeId === "string" ? req.body.challengeId : "";
+  if (!challengeId) return res.status(400).json({ error: "challenge_missing" });
+  const rawName = req.body?.name;
+  if (rawName != null && rawName !== "") {
+    const nameErr = validatePasskeyName(rawName);
+    if (nameErr) return res.status(400).json({ error: nameErr });
+  }
 
-  const userIdErr = validateUserId(req.params.userId);
-  if (userIdErr) return res.status(400).json({ error: userIdErr });
-  const target = normalizeUserId(String(req.params.userId));
+  const reauthErr = await verifyPasskeyReauth(me, req.body?.reauth?.challengeId, req.body?.reauth?.response);
+  if (reauthErr) return res.status(reauthErr === "credential_not_found" ? 404 : 400).json({ error: reauthErr });
 
-  await pool.query(`DELETE FROM room_bans WHERE room_id=$1 AND user_id=$2`, [roomId, target]);
+  const pending = await pool.query(
+    `DELETE FROM webauthn_challenges
+     WHERE id=$1 AND purpose='register' AND user_id=$2 AND expires_at > now()
+     RETURNING challenge`,
+    [challengeId, me]
+  );
+  if ((pending.rowCount ?? 0) === 0) return res.status(400).json({ error: "challenge_missing" });
+  const expectedChallenge = String(pending.rows[0].challenge);
+
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response: req.body.response,
+      expectedChallenge,
+      expectedOrigin: RP_ORIGIN,
+      expectedRPID: RP_ID,
+      requireUserVerification: false,
+    });
+  } catch (e) {
+    console.error(e);
+    return res.status(400).json({ error: "webauthn_verify_failed" });
+  }
+  if (!verification.verified || !verification.registrationInfo) {
+    return res.status(400).json({ error: "webauthn_not_verified" });
+  }
 
+  const cred = verification.registrationInfo.credential;
+  const name =
+    typeof rawName === "string" && rawName.trim()
+      ? rawName.trim()
+      : describeUserAgent(String(req.header("user-agent") || ""));
+  const ins = await pool.query(
+    `INSERT INTO passkey_credentials (id, user_id, credential_id, public_key, counter, transports, name)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (credential_id) DO NOTHING
+     RETURNING id, name, transports, created_at, last_used_at`,
+    [
+      randomUUID(),
+      me,
+      String(cred.id),
+      toBase64url(Buffer.from(cred.publicKey)),
+      Number(cred.counter) || 0,
+      Array.isArray(cred.transports) ? cred.transports : [],
+      name,
+    ]
+  );
+  if ((ins.rowCount ?? 0) === 0) return res.status(409).json({ error: "passkey_already_registered" });
   void writeAuditLog({
-    roomId,
     actorId: me,
-    action: "room_unban",
+    action: "passkey_add",
     targetType: "user",
-    targetId: target,
+    targetId: me,
+    meta: { passkeyId: String(ins.rows[0].id), name: String(ins.rows[0].name) },
   });
+  res.json(passkeyJson(ins.rows[0]));
+});
 
-  await wsBroadcastRoom(roomId, { type: "room_ban_changed", roomId, userId: target, banned: false });
-  wsBroadcastUserAll(target, { type: "room_unbanned", roomId });
-  res.json({ ok: true });
+app.patch("/passkeys/:passkeyId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const nameErr = validatePasskeyName(req.body?.name);
+  if (nameErr) return res.status(400).json({ error: nameErr });
+
+  const { rows } = await pool.query(
+    `UPDATE passkey_credentials SET name=$3 WHERE id=$1 AND user_id=$2
+     RETURNING id, name, transports, created_at, last_used_at`,
+    [String(req.params.passkeyId || ""), me, String(req.body.name).trim()]
+  );
+  if (rows.length === 0) return res.status(404).json({ error: "passkey_not_found" });
+  res.json(passkeyJson(rows[0]));
 });
 
-// room invites (owner only)
-app.post("/rooms/:roomId/invites", requireAuth, async (req, res) => {
+// { challengeId, response } from /passkeys/reauth/options; the passkey being removed may be the one confirming.
+// The last passkey can't be removed: without one the account can't be logged into again
+app.delete("/passkeys/:passkeyId", requireAuth, rateLimit("passkeys_update", rateKeyByUserOrIp), async (req, res) => {
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
+  const passkeyId = String(req.params.passkeyId || "");
 
-  // legacy public rooms have no owner_id; disallow invites to avoid confusion
-  const room = await pool.query(`SELECT owner_id FROM rooms WHERE id=$1`, [roomId]);
-  if ((room.rowCount ?? 0) === 0) return res.status(404).json({ error: "room_not_found" });
-  if (!room.rows?.[0]?.owner_id) return res.status(400).json({ error: "room_public_no_invite" });
+  const reauthErr = await verifyPasskeyReauth(me, req.body?.challengeId, req.body?.response);
+  if (reauthErr) return res.status(reauthErr === "credential_not_found" ? 404 : 400).json({ error: reauthErr });
 
-  let code = "";
-  for (let i = 0; i < 8; i++) {
-    code = normalizeInviteCode(randomUUID().replace(/-/g, "").slice(0, 12));
-    try {
-      await pool.query(
-        `INSERT INTO room_invites (code, room_id, created_by, max_uses, expires_at)
-         VALUES ($1, $2, $3, 50, (now() + INTERVAL '7 days'))`,
-        [code, roomId, me]
-      );
-      break;
-    } catch (e: any) {
-      // retry on conflict
-      if (String(e?.code || "") === "23505") continue;
-      throw e;
+  let name = "";
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    // locks all of the user's passkeys so two deletes can't both see "one left besides me"
+    const { rows } = await client.query(`SELECT id FROM passkey_credentials WHERE user_id=$1 FOR UPDATE`, [me]);
+    if (!rows.some((r) => String(r.id) === passkeyId)) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "passkey_not_found" });
+    }
+    if (rows.length <= 1) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "last_passkey" });
     }
+    const del = await client.query(`DELETE FROM passkey_credentials WHERE id=$1 AND user_id=$2 RETURNING name`, [
+      passkeyId,
+      me,
+    ]);
+    name = String(del.rows[0]?.name ?? "");
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
   }
-
-  if (!code) return res.status(500).json({ error: "invite_create_failed" });
-  void writeAuditLog({
-    roomId,
-    actorId: me,
-    action: "invite_create",
-    targetType: "invite",
-    targetId: code,
-    meta: { maxUses: 50, expiresInDays: 7 },
-  });
-  res.status(201).json({ code, roomId });
+  void writeAuditLog({ actorId: me, action: "passkey_remove", targetType: "user", targetId: me, meta: { passkeyId, name } });
+  res.json({ ok: true });
 });
 
-app.get("/rooms/:roomId/invites", requireAuth, async (req, res) => {
+// update user display name (server-side)
+app.post("/users/:userId/displayName", requireAuth, async (req, res) => {
+  const userIdParam = req.params.userId;
+  const userIdErr = validateUserId(userIdParam);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const userId = normalizeUserId(String(userIdParam));
+
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
+  if (me !== userId) return res.status(403).json({ error: "forbidden" });
 
-  const room = await pool.query(`SELECT owner_id FROM rooms WHERE id=$1`, [roomId]);
-  if ((room.rowCount ?? 0) === 0) return res.status(404).json({ error: "room_not_found" });
-  if (!room.rows?.[0]?.owner_id) return res.status(400).json({ error: "room_public_no_invite" });
+  const nameErr = validateDisplayName(req.body?.displayName);
+  if (nameErr) return res.status(400).json({ error: nameErr });
+  const displayName = String(req.body.displayName).trim();
 
-  const { rows } = await pool.query(
-    `SELECT code, uses, max_uses, expires_at, created_at
-     FROM room_invites
-     WHERE room_id=$1
-     ORDER BY created_at DESC`,
-    [roomId]
-  );
-  res.json(
-    rows.map((r) => ({
-      code: r.code,
-      uses: Number(r.uses ?? 0),
-      max_uses: Number(r.max_uses ?? 10),
-      expires_at: r.expires_at,
-      created_at: r.created_at,
-    }))
-  );
+  const u = await pool.query(`SELECT id FROM users WHERE id=$1`, [userId]);
+  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+
+  await pool.query(`UPDATE users SET display_name=$2 WHERE id=$1`, [userId, displayName]);
+  return res.json({ ok: true });
 });
 
-app.delete("/rooms/:roomId/invites/:code", requireAuth, async (req, res) => {
+// user profile (self only)
+app.get("/users/:userId/profile", requireAuth, async (req, res) => {
+  const userIdParam = req.params.userId;
+  const userIdErr = validateUserId(userIdParam);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const userId = normalizeUserId(String(userIdParam));
+
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
+  if (me !== userId) return res.status(403).json({ error: "forbidden" });
 
-  const room = await pool.query(`SELECT owner_id FROM rooms WHERE id=$1`, [roomId]);
-  if ((room.rowCount ?? 0) === 0) return res.status(404).json({ error: "room_not_found" });
-  if (!room.rows?.[0]?.owner_id) return res.status(400).json({ error: "room_public_no_invite" });
+  const u = await pool.query(`SELECT id, display_name, bio FROM users WHERE id=$1`, [userId]);
+  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+  return res.json({ userId: u.rows[0].id, displayName: u.rows[0].display_name, bio: u.rows[0].bio ?? null });
+});
 
-  const codeErr = validateInviteCode(req.params.code);
-  if (codeErr) return res.status(400).json({ error: codeErr });
-  const code = normalizeInviteCode(String(req.params.code));
+// update user bio (self only)
+app.post("/users/:userId/bio", requireAuth, async (req, res) => {
+  const userIdParam = req.params.userId;
+  const userIdErr = validateUserId(userIdParam);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const userId = normalizeUserId(String(userIdParam));
 
-  const del = await pool.query(`DELETE FROM room_invites WHERE code=$1 AND room_id=$2`, [code, roomId]);
-  if ((del.rowCount ?? 0) === 0) return res.status(404).json({ error: "invite_not_found" });
-  void writeAuditLog({
-    roomId,
-    actorId: me,
-    action: "invite_delete",
-    targetType: "invite",
-    targetId: code,
-  });
-  res.json({ ok: true });
+  const me = (req as any).userId as string;
+  if (me !== userId) return res.status(403).json({ error: "forbidden" });
+
+  const bioRaw = req.body?.bio;
+  const bio = typeof bioRaw === "string" ? bioRaw.trim() : "";
+  if (bio.length > 80) return res.status(400).json({ error: "bio_too_long" });
+  if (/[\r\n]/.test(bio)) return res.status(400).json({ error: "bio_no_newlines" });
+
+  const u = await pool.query(`SELECT id FROM users WHERE id=$1`, [userId]);
+  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+
+  await pool.query(`UPDATE users SET bio=$2 WHERE id=$1`, [userId, bio ? bio : null]);
+  return res.json({ ok: true });
 });
 
-// join room by invite code
-app.post(
-  "/invites/join",
-  requireAuth,
-  rateLimit({ name: "invites_join", windowMs: 60_000, max: 30, key: rateKeyByUserOrIp }),
-  async (req, res) => {
+// list rooms
+app.get("/rooms", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  const codeErr = validateInviteCode(req.body?.code);
-  if (codeErr) return res.status(400).json({ error: codeErr });
-  const code = normalizeInviteCode(String(req.body.code));
-
-  await pool.query("BEGIN");
-  try {
-    const inv = await pool.query(
-      `SELECT i.code, i.room_id, i.uses, i.max_uses, i.expires_at, r.name
-       FROM room_invites i
-       JOIN rooms r ON r.id = i.room_id
-       WHERE i.code=$1
-       FOR UPDATE`,
-      [code]
-    );
-    if ((inv.rowCount ?? 0) === 0) {
-      await pool.query("ROLLBACK");
-      return res.status(404).json({ error: "invite_not_found" });
-    }
+  const { rows } = await pool.query(
+    `SELECT r.id, r.name, r.owner_id
+     FROM rooms r
+     WHERE NOT EXISTS (
+       SELECT 1 FROM room_bans b
+       WHERE b.room_id = r.id AND b.user_id = $1
+     )
+     AND (
+       r.owner_id IS NULL
+       OR r.owner_id = $1
+       OR EXISTS (
+         SELECT 1 FROM room_members rm
+         WHERE rm.room_id = r.id AND rm.user_id = $1
+       )
+     )
+     ORDER BY r.created_at ASC`,
+    [me]
+  );
+  res.json(rows);
+});
 
-    const roomId = String(inv.rows?.[0]?.room_id || "");
-    const roomName = String(inv.rows?.[0]?.name || "");
-    const uses = Number(inv.rows?.[0]?.uses ?? 0);
-    const maxUses = Number(inv.rows?.[0]?.max_uses ?? 10);
-    const expiresAt = inv.rows?.[0]?.expires_at as any;
+// create room
+app.post("/rooms", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const { roomCreationPolicy } = await instanceSettings();
+  if (!(await canCreateRooms(me, roomCreationPolicy))) {
+    return res.status(403).json({ error: "room_creation_not_allowed", policy: roomCreationPolicy });
+  }
+  const nameErr = validateName(req.body?.name, "name");
+  if (nameErr) return res.status(400).json({ error: nameErr });
 
-    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
-      await pool.query("ROLLBACK");
-      return res.status(410).json({ error: "invite_expired" });
-    }
-    if (Number.isFinite(maxUses) && uses >= maxUses) {
-      await pool.query("ROLLBACK");
-      return res.status(410).json({ error: "invite_max_uses" });
-    }
+  const id = randomUUID();
+  const name = String(req.body.name).trim();
 
-    if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) {
-      await pool.query("ROLLBACK");
-      return;
-    }
+  // Room作成時にデフォルト構成も同時に作成
+  // - カテゴリ: 「一般」
+  // - チャンネル: 「雑談」（上記カテゴリ配下）
+  const categoryId = randomUUID();
+  const channelId = randomUUID();
 
+  await pool.query("BEGIN");
+  try {
+    await pool.query(`INSERT INTO rooms (id, name, owner_id) VALUES ($1, $2, $3)`, [id, name, me]);
     await pool.query(
       `INSERT INTO room_members (room_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
-      [roomId, me]
+      [id, me]
+    );
+    await pool.query(
+      `INSERT INTO categories (id, room_id, name, position) VALUES ($1, $2, $3, $4)`,
+      [categoryId, id, "一般", 0]
+    );
+    await pool.query(
+      `INSERT INTO channels (id, room_id, category_id, name, position) VALUES ($1, $2, $3, $4, $5)`,
+      [channelId, id, categoryId, "雑談", 0]
     );
-    await pool.query(`UPDATE room_invites SET uses = uses + 1 WHERE code=$1`, [code]);
-
     await pool.query("COMMIT");
-    await wsBroadcastRoom(roomId, { type: "room_member_changed", roomId, userId: me, joined: true });
-    void writeAuditLog({
-      roomId,
-      actorId: me,
-      action: "room_join",
-      targetType: "user",
-      targetId: me,
-      meta: { inviteCode: code },
-    });
-    res.json({ ok: true, roomId, roomName });
   } catch (e) {
     await pool.query("ROLLBACK");
     throw e;
   }
+
+  void writeAuditLog({ roomId: id, actorId: me, action: "room_create", targetType: "room", targetId: id, meta: { name } });
+  res.status(201).json({ id, name, owner_id: me });
+});
+
+// delete room
+app.delete("/rooms/:roomId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomOwner(roomId, me, res))) return;
+
+  const r = await pool.query(`SELECT name FROM rooms WHERE id=$1`, [roomId]);
+  const roomName = r.rows?.[0]?.name ? String(r.rows[0].name) : null;
+  void writeAuditLog({ roomId, actorId: me, action: "room_delete", targetType: "room", targetId: roomId, meta: { name: roomName } });
+
+  await pool.query(`DELETE FROM rooms WHERE id=$1`, [roomId]);
+  res.json({ ok: true });
+});
+
+// rename room (owner)
+app.patch("/rooms/:roomId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomOwner(roomId, me, res))) return;
+
+  const nameErr = validateName(req.body?.name, "name");
+  if (nameErr) return res.status(400).json({ error: nameErr });
+  const name = String(req.body.name).trim();
+
+  const prev = await pool.query(`SELECT name FROM rooms WHERE id=$1`, [roomId]);
+  const previous = String(prev.rows[0]?.name ?? "");
+  const { rows } = await pool.query(`UPDATE rooms SET name=$2 WHERE id=$1 RETURNING id, name, owner_id`, [roomId, name]);
+  if (name !== previous) {
+    void writeAuditLog({ roomId, actorId: me, action: "room_rename", targetType: "room", targetId: roomId, meta: { name, previous } });
+    await wsBroadcastTreeUpdate(roomId, { room: { id: roomId, name } });
   }
-);
+  res.json(rows[0]);
+});
 
-// room members
-app.get("/rooms/:roomId/members", requireAuth, async (req, res) => {
+// room tree: categories + channels
+app.get("/rooms/:roomId/tree", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
   const roomId = String(req.params.roomId || "");
   if (!roomId) return res.status(400).json({ error: "roomId_required" });
 
-  const room = await pool.query(`SELECT id, owner_id FROM rooms WHERE id=$1`, [roomId]);
+  const room = await pool.query(`SELECT id, name, owner_id FROM rooms WHERE id=$1`, [roomId]);
   if (room.rowCount === 0) return res.status(404).json({ error: "room_not_found" });
-  const ownerId = room.rows?.[0]?.owner_id ? String(room.rows[0].owner_id) : null;
-  if (!ownerId) return res.status(400).json({ error: "room_public_no_members" });
 
   if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
   if (!(await assertRoomMember(roomId, me, res))) return;
 
-  const { rows } = await pool.query(
-    `SELECT user_id, display_name, has_avatar, bio
-     FROM (
-       SELECT rm.user_id, u.display_name, (u.avatar_data IS NOT NULL) AS has_avatar, u.bio
-       FROM room_members rm
-       JOIN users u ON u.id = rm.user_id
-       WHERE rm.room_id=$1
-       UNION
-       SELECT r.owner_id AS user_id, u.display_name, (u.avatar_data IS NOT NULL) AS has_avatar, u.bio
-       FROM rooms r
-       JOIN users u ON u.id = r.owner_id
-       WHERE r.id=$1 AND r.owner_id IS NOT NULL
-     ) x
-     ORDER BY display_name ASC`,
+  const cats = await pool.query(
+    `SELECT id, name, position FROM categories WHERE room_id=$1 ORDER BY position ASC`,
     [roomId]
   );
-  res.json(
-    rows.map((r) => ({
-      userId: r.user_id,
-      displayName: r.display_name,
-      hasAvatar: !!r.has_avatar,
-      bio: r.bio ?? null,
-      isOwner: ownerId === String(r.user_id),
-      online: isUserOnline(String(r.user_id)),
-    }))
+
+  const chans = await pool.query(
+    `SELECT c.id, c.name, c.position, c.category_id, c.type, c.topic, c.slowmode_seconds
+          , EXISTS (
+              SELECT 1 FROM channel_permission_overrides o
+              WHERE o.channel_id = c.id
+                AND o.target_type = 'everyone'
+                AND (o.deny & $2) <> 0
+            ) AS private
+     FROM channels c
+     WHERE c.room_id=$1
+     ORDER BY c.category_id NULLS LAST, c.position ASC`,
+    [roomId, CHANNEL_PERMISSIONS.view_channel]
+  );
+
+  const roomBits = (await roomPermissionBits(roomId, me)) ?? 0;
+  const myPermissions = permissionNames(roomBits, ROOM_PERMISSIONS);
+  const channelBits = await channelPermissionBits(roomId, me);
+
+  // channels the member can't view are left out entirely
+  const byCat: Record<string, any[]> = {};
+  for (const ch of chans.rows) {
+    const bits = channelBits.get(String(ch.id)) ?? 0;
+    if (!bits) continue;
+    const key = ch.category_id ?? "__uncategorized__";
+    (byCat[key] ||= []).push({
+      id: ch.id,
+      name: ch.name,
+      position: ch.position,
+      private: !!ch.private,
+      ...channelSettingsPayload(ch),
+      permissions: permissionNames(bits, CHANNEL_PERMISSIONS),
+    });
+  }
+
+  // so are categories with nothing visible in them, except for members who manage channels
+  const canManageChannels = (roomBits & ROOM_PERMISSIONS.manage_channels) !== 0;
+  const hiddenCategories = new Set(
+    chans.rows.filter((ch) => ch.category_id && !byCat[ch.category_id]).map((ch) => String(ch.category_id))
   );
+  const categories = cats.rows
+    .filter((c) => canManageChannels || !hiddenCategories.has(String(c.id)))
+    .map((c) => ({
+      id: c.id,
+      name: c.name,
+      position: c.position,
+      channels: byCat[c.id] ?? [],
+    }));
+
+  const uncategorized = byCat["__uncategorized__"] ?? [];
+
+  res.json({
+    room: room.rows[0],
+    categories,
+    uncategorized,
+    myPermissions,
+  });
 });
 
-// room audit logs (owner only)
-app.get("/rooms/:roomId/audit", requireAuth, async (req, res) => {
+// bulk reorder / move in one transaction (manage_channels)
+// body: { categories?: [{ id, position }], channels?: [{ id, position, categoryId? }] }; categoryId omitted = stays put
+app.patch("/rooms/:roomId/tree", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
   const roomId = String(req.params.roomId || "");
   if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
-
-  const limitRaw = req.query.limit;
-  const limit = Math.min(200, Math.max(1, Number(limitRaw ?? 50) || 50));
-
-  const beforeRaw = typeof req.query.before === "string" ? req.query.before : "";
-  let before: Date | null = null;
-  if (beforeRaw) {
-    const d = new Date(beforeRaw);
-    if (!Number.isNaN(d.getTime())) before = d;
+  if (!(await assertRoomPermission(roomId, me, "manage_channels", res))) return;
+
+  const rawCats = req.body?.categories ?? [];
+  const rawChans = req.body?.channels ?? [];
+  if (!Array.isArray(rawCats)) return res.status(400).json({ error: "categories_must_be_array" });
+  if (!Array.isArray(rawChans)) return res.status(400).json({ error: "channels_must_be_array" });
+  if (rawCats.length + rawChans.length === 0) return res.status(400).json({ error: "nothing_to_update" });
+  if (rawCats.length + rawChans.length > 500) return res.status(400).json({ error: "too_many_items" });
+
+  const cats: Array<{ id: string; position: number }> = [];
+  for (const c of rawCats) {
+    const position = parsePosition(c?.position);
+    if (typeof c?.id !== "string" || position === null) return res.status(400).json({ error: "categories_invalid" });
+    cats.push({ id: c.id, position });
+  }
+  const chans: Array<{ id: string; position: number; categoryId?: string | null }> = [];
+  for (const c of rawChans) {
+    const position = parsePosition(c?.position);
+    if (typeof c?.id !== "string" || position === null) return res.status(400).json({ error: "channels_invalid" });
+    if (c.categoryId !== undefined && c.categoryId !== null && typeof c.categoryId !== "string") {
+      return res.status(400).json({ error: "channels_invalid" });
+    }
+    chans.push({ id: c.id, position, categoryId: c.categoryId });
+  }
+  if (new Set(cats.map((c) => c.id)).size !== cats.length || new Set(chans.map((c) => c.id)).size !== chans.length) {
+    return res.status(400).json({ error: "duplicate_ids" });
   }
 
-  const { rows } = await pool.query(
-    `SELECT l.id, l.action, l.target_type, l.target_id, l.meta, l.created_at,
-            l.actor_id, u.display_name AS actor_name
-     FROM audit_logs l
-     JOIN users u ON u.id = l.actor_id
-     WHERE l.room_id=$1
-       AND ($2::timestamptz IS NULL OR l.created_at < $2)
-     ORDER BY l.created_at DESC
-     LIMIT $3`,
-    [roomId, before, limit]
+  const catIds = new Set(
+    (await pool.query(`SELECT id FROM categories WHERE room_id=$1`, [roomId])).rows.map((r) => String(r.id))
+  );
+  const chanIds = new Set(
+    (await pool.query(`SELECT id FROM channels WHERE room_id=$1`, [roomId])).rows.map((r) => String(r.id))
   );
+  if (cats.some((c) => !catIds.has(c.id))) return res.status(404).json({ error: "category_not_found" });
+  if (chans.some((c) => typeof c.categoryId === "string" && !catIds.has(c.categoryId))) {
+    return res.status(404).json({ error: "category_not_found" });
+  }
+  if (chans.some((c) => !chanIds.has(c.id))) return res.status(404).json({ error: "channel_not_found" });
 
-  res.json(
-    rows.map((r) => ({
-      id: r.id,
-      roomId,
-      action: r.action,
-      actorId: r.actor_id,
-      actorDisplayName: r.actor_name,
-      targetType: r.target_type ?? null,
-      targetId: r.target_id ?? null,
-      meta: r.meta ?? null,
-      created_at: r.created_at,
-    }))
-  );
-});
-
-// search room messages (owner/member only)
-app.get(
-  "/rooms/:roomId/messages/search",
-  requireAuth,
-  rateLimit({ name: "room_message_search", windowMs: 10_000, max: 30, key: rateKeyByUserOrIp }),
-  async (req, res) => {
-    const me = (req as any).userId as string;
-    const roomId = String(req.params.roomId || "");
-    if (!roomId) return res.status(400).json({ error: "roomId_required" });
-
-    if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
-    if (!(await assertRoomMember(roomId, me, res))) return;
-
-    const qRaw = typeof req.query.q === "string" ? req.query.q : "";
-    const q = qRaw.trim();
-    if (!q) return res.status(400).json({ error: "q_required" });
-    if (q.length > 100) return res.status(400).json({ error: "q_too_long" });
-
-    const limitRaw = req.query.limit;
-    const limit = Math.min(50, Math.max(1, Number(limitRaw ?? 20) || 20));
-
-    const channelId = typeof req.query.channelId === "string" ? req.query.channelId.trim() : "";
-    const channelFilter = channelId ? channelId : null;
-
-    const beforeRaw = typeof req.query.before === "string" ? req.query.before : "";
-    let before: Date | null = null;
-    if (beforeRaw) {
-      const d = new Date(beforeRaw);
-      if (!Number.isNaN(d.getTime())) before = d;
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    for (const c of cats) {
+      await client.query(`UPDATE categories SET position=$3 WHERE id=$1 AND room_id=$2`, [c.id, roomId, c.position]);
+    }
+    for (const c of chans) {
+      if (c.categoryId === undefined) {
+        await client.query(`UPDATE channels SET position=$3 WHERE id=$1 AND room_id=$2`, [c.id, roomId, c.position]);
+      } else {
+        await client.query(`UPDATE channels SET position=$3, category_id=$4 WHERE id=$1 AND room_id=$2`, [
+          c.id,
+          roomId,
+          c.position,
+          c.categoryId,
+        ]);
+      }
     }
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
 
-    const { rows } = await pool.query(
-      `SELECT m.id, m.channel_id, c.name AS channel_name,
-              m.author_id, COALESCE(m.author_name, m.author) AS author_name,
-              (u.avatar_data IS NOT NULL) AS author_has_avatar,
-              m.content, m.created_at
-       FROM messages m
-       JOIN channels c ON c.id = m.channel_id
-       LEFT JOIN users u ON u.id = m.author_id
-       WHERE c.room_id=$1
-         AND m.content ILIKE $2
-         AND ($3::timestamptz IS NULL OR m.created_at < $3)
-         AND ($4::text IS NULL OR m.channel_id = $4)
-       ORDER BY m.created_at DESC
-       LIMIT $5`,
-      [roomId, `%${q}%`, before, channelFilter, limit + 1]
-    );
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "room_tree_reorder",
+    targetType: "room",
+    targetId: roomId,
+    meta: { categories: cats.length, channels: chans.length },
+  });
+  await wsBroadcastTreeUpdate(roomId, { categoryIds: cats.map((c) => c.id), channelIds: chans.map((c) => c.id) });
+  res.json({ ok: true });
+});
 
-    const hasMore = rows.length > limit;
-    const page = rows.slice(0, limit);
+// room bans (ban_members)
+app.get("/rooms/:roomId/bans", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "ban_members", res))) return;
 
-    res.json({
-      items: page.map((r) => ({
-        id: r.id,
-        channelId: r.channel_id,
-        channelName: r.channel_name,
-        authorId: r.author_id ?? "",
-        author: r.author_name,
-        authorHasAvatar: !!r.author_has_avatar,
-        content: r.content,
-        created_at: r.created_at,
-      })),
-      hasMore,
-    });
-  }
-);
+  const { rows } = await pool.query(
+    `SELECT b.user_id, u.display_name, b.reason, b.created_at
+     FROM room_bans b
+     JOIN users u ON u.id = b.user_id
+     WHERE b.room_id=$1
+     ORDER BY b.created_at DESC`,
+    [roomId]
+  );
+  res.json(rows.map((r) => ({ userId: r.user_id, displayName: r.display_name, reason: r.reason ?? null, created_at: r.created_at })));
+});
 
-// personal audit logs (includes room + home actions where you are actor/target)
-app.get("/audit", requireAuth, async (req, res) => {
+app.post("/rooms/:roomId/bans", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "ban_members", res))) return;
 
-  const limitRaw = req.query.limit;
-  const limit = Math.min(200, Math.max(1, Number(limitRaw ?? 50) || 50));
+  const userIdErr = validateUserId(req.body?.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const target = normalizeUserId(String(req.body.userId));
+  if (target === me) return res.status(400).json({ error: "cannot_ban_self" });
 
-  const beforeRaw = typeof req.query.before === "string" ? req.query.before : "";
-  let before: Date | null = null;
-  if (beforeRaw) {
-    const d = new Date(beforeRaw);
-    if (!Number.isNaN(d.getTime())) before = d;
-  }
+  const u = await pool.query(`SELECT id FROM users WHERE id=$1`, [target]);
+  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+  if (await isRoomOwner(roomId, target)) return res.status(400).json({ error: "cannot_ban_owner" });
+  if (!(await assertCanModerateMember(roomId, me, target, res))) return;
 
-  const scope = typeof req.query.scope === "string" ? String(req.query.scope) : "home";
-  const onlyHome = scope === "home";
+  const reasonRaw = req.body?.reason;
+  const reason = typeof reasonRaw === "string" ? reasonRaw.trim() : "";
+  if (reason.length > 200) return res.status(400).json({ error: "reason_too_long" });
+  if (/[\r\n]/.test(reason)) return res.status(400).json({ error: "reason_no_newlines" });
 
-  const { rows } = await pool.query(
-    `SELECT l.id, l.room_id, l.action, l.target_type, l.target_id, l.meta, l.created_at,
-            l.actor_id, u.display_name AS actor_name
-     FROM audit_logs l
-     JOIN users u ON u.id = l.actor_id
-     WHERE (l.actor_id=$1 OR (l.target_type='user' AND l.target_id=$1))
-       AND ($2::timestamptz IS NULL OR l.created_at < $2)
-       AND ($3::boolean = false OR l.room_id IS NULL)
-     ORDER BY l.created_at DESC
-     LIMIT $4`,
-    [me, before, onlyHome, limit]
+  await pool.query(
+    `INSERT INTO room_bans (id, room_id, user_id, banned_by, reason)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (room_id, user_id) DO NOTHING`,
+    [randomUUID(), roomId, target, me, reason || null]
   );
 
-  res.json(
-    rows.map((r) => ({
-      id: r.id,
-      roomId: r.room_id ? String(r.room_id) : null,
-      action: r.action,
-      actorId: r.actor_id,
-      actorDisplayName: r.actor_name,
-      targetType: r.target_type ?? null,
-      targetId: r.target_id ?? null,
-      meta: r.meta ?? null,
-      created_at: r.created_at,
-    }))
-  );
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "room_ban",
+    targetType: "user",
+    targetId: target,
+    meta: { reason: reason || null },
+  });
+
+  await wsBroadcastRoom(roomId, { type: "room_ban_changed", roomId, userId: target, banned: true });
+  await wsKickUserFromRoom(target, roomId);
+  res.json({ ok: true });
 });
 
-app.delete("/rooms/:roomId/members/me", requireAuth, async (req, res) => {
+app.delete("/rooms/:roomId/bans/:userId", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
   const roomId = String(req.params.roomId || "");
   if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "ban_members", res))) return;
 
-  const room = await pool.query(`SELECT id, owner_id FROM rooms WHERE id=$1`, [roomId]);
-  if (room.rowCount === 0) return res.status(404).json({ error: "room_not_found" });
-  const ownerId = room.rows?.[0]?.owner_id ? String(room.rows[0].owner_id) : null;
-  if (!ownerId) return res.status(400).json({ error: "room_public_no_members" });
+  const userIdErr = validateUserId(req.params.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const target = normalizeUserId(String(req.params.userId));
 
-  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
-  if (!(await assertRoomMember(roomId, me, res))) return;
-  if (ownerId === me) return res.status(400).json({ error: "owner_cannot_leave" });
+  await pool.query(`DELETE FROM room_bans WHERE room_id=$1 AND user_id=$2`, [roomId, target]);
 
-  await pool.query(`DELETE FROM room_members WHERE room_id=$1 AND user_id=$2`, [roomId, me]);
-  void writeAuditLog({ roomId, actorId: me, action: "room_leave", targetType: "user", targetId: me });
-  await wsBroadcastRoom(roomId, { type: "room_member_changed", roomId, userId: me, joined: false });
-  await wsRemoveUserFromRoom(me, roomId, "room_left");
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "room_unban",
+    targetType: "user",
+    targetId: target,
+  });
+
+  await wsBroadcastRoom(roomId, { type: "room_ban_changed", roomId, userId: target, banned: false });
+  wsBroadcastUserAll(target, { type: "room_unbanned", roomId });
   res.json({ ok: true });
 });
 
-app.delete("/rooms/:roomId/members/:userId", requireAuth, async (req, res) => {
+// room invites (manage_invites)
+app.post("/rooms/:roomId/invites", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
   const roomId = String(req.params.roomId || "");
   if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
-
-  const userIdErr = validateUserId(req.params.userId);
-  if (userIdErr) return res.status(400).json({ error: userIdErr });
-  const target = normalizeUserId(String(req.params.userId));
-  if (target === me) return res.status(400).json({ error: "cannot_kick_self" });
+  if (!(await assertRoomPermission(roomId, me, "manage_invites", res))) return;
 
+  // legacy public rooms have no owner_id; disallow invites to avoid confusion
   const room = await pool.query(`SELECT owner_id FROM rooms WHERE id=$1`, [roomId]);
   if ((room.rowCount ?? 0) === 0) return res.status(404).json({ error: "room_not_found" });
-  if (!room.rows?.[0]?.owner_id) return res.status(400).json({ error: "room_public_no_members" });
+  if (!room.rows?.[0]?.owner_id) return res.status(400).json({ error: "room_public_no_invite" });
 
-  const del = await pool.query(`DELETE FROM room_members WHERE room_id=$1 AND user_id=$2`, [roomId, target]);
-  if ((del.rowCount ?? 0) === 0) return res.status(404).json({ error: "not_member" });
+  let code = "";
+  for (let i = 0; i < 8; i++) {
+    code = normalizeInviteCode(randomUUID().replace(/-/g, "").slice(0, 12));
+    try {
+      await pool.query(
+        `INSERT INTO room_invites (code, room_id, created_by, max_uses, expires_at)
+         VALUES ($1, $2, $3, 50, (now() + INTERVAL '7 days'))`,
+        [code, roomId, me]
+      );
+      break;
+    } catch (e: any) {
+      // retry on conflict
+      if (String(e?.code || "") === "23505") continue;
+      throw e;
+    }
+  }
 
-  void writeAuditLog({ roomId, actorId: me, action: "room_kick", targetType: "user", targetId: target });
-  await wsBroadcastRoom(roomId, { type: "room_member_changed", roomId, userId: target, joined: false });
-  await wsRemoveUserFromRoom(target, roomId, "room_kicked");
-  res.json({ ok: true });
+  if (!code) return res.status(500).json({ error: "invite_create_failed" });
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "invite_create",
+    targetType: "invite",
+    targetId: code,
+    meta: { maxUses: 50, expiresInDays: 7 },
+  });
+  res.status(201).json({ code, roomId });
 });
 
-// room channel activity (for unread)
-app.get("/rooms/:roomId/channels/activity", requireAuth, async (req, res) => {
+app.get("/rooms/:roomId/invites", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
   const roomId = String(req.params.roomId || "");
   if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "manage_invites", res))) return;
 
-  const room = await pool.query(`SELECT id FROM rooms WHERE id=$1`, [roomId]);
-  if (room.rowCount === 0) return res.status(404).json({ error: "room_not_found" });
-
-  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
-  if (!(await assertRoomMember(roomId, me, res))) return;
+  const room = await pool.query(`SELECT owner_id FROM rooms WHERE id=$1`, [roomId]);
+  if ((room.rowCount ?? 0) === 0) return res.status(404).json({ error: "room_not_found" });
+  if (!room.rows?.[0]?.owner_id) return res.status(400).json({ error: "room_public_no_invite" });
 
   const { rows } = await pool.query(
-    `SELECT c.id AS channel_id, MAX(m.created_at) AS last_message_at
-     FROM channels c
-     LEFT JOIN messages m ON m.channel_id = c.id
-     WHERE c.room_id=$1
-     GROUP BY c.id`,
+    `SELECT code, uses, max_uses, expires_at, created_at
+     FROM room_invites
+     WHERE room_id=$1
+     ORDER BY created_at DESC`,
     [roomId]
   );
-
   res.json(
     rows.map((r) => ({
-      channelId: String(r.channel_id),
-      lastMessageAt: r.last_message_at ? String(r.last_message_at) : null,
+      code: r.code,
+      uses: Number(r.uses ?? 0),
+      max_uses: Number(r.max_uses ?? 10),
+      expires_at: r.expires_at,
+      created_at: r.created_at,
     }))
   );
 });
 
-// list messages
+app.delete("/rooms/:roomId/invites/:code", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "manage_invites", res))) return;
+
+  const room = await pool.query(`SELECT owner_id FROM rooms WHERE id=$1`, [roomId]);
+  if ((room.rowCount ?? 0) === 0) return res.status(404).json({ error: "room_not_found" });
+  if (!room.rows?.[0]?.owner_id) return res.status(400).json({ error: "room_public_no_invite" });
+
+  const codeErr = validateInviteCode(req.params.code);
+  if (codeErr) return res.status(400).json({ error: codeErr });
+  const code = normalizeInviteCode(String(req.params.code));
+
+  const del = await pool.query(`DELETE FROM room_invites WHERE code=$1 AND room_id=$2`, [code, roomId]);
+  if ((del.rowCount ?? 0) === 0) return res.status(404).json({ error: "invite_not_found" });
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "invite_delete",
+    targetType: "invite",
+    targetId: code,
+  });
+  res.json({ ok: true });
+});
+
+// join room by invite code
+app.post(
+  "/invites/join",
+  requireAuth,
+  rateLimit("invites_join", rateKeyByUserOrIp),
+  async (req, res) => {
+  const me = (req as any).userId as string;
+  const codeErr = validateInviteCode(req.body?.code);
+  if (codeErr) return res.status(400).json({ error: codeErr });
+  const code = normalizeInviteCode(String(req.body.code));
+
+  await pool.query("BEGIN");
+  try {
+    const inv = await pool.query(
+      `SELECT i.code, i.room_id, i.uses, i.max_uses, i.expires_at, r.name, r.owner_id
+       FROM room_invites i
+       JOIN rooms r ON r.id = i.room_id
+       WHERE i.code=$1
+       FOR UPDATE`,
+      [code]
+    );
+    if ((inv.rowCount ?? 0) === 0) {
+      await pool.query("ROLLBACK");
+      return res.status(404).json({ error: "invite_not_found" });
+    }
+
+    const roomId = String(inv.rows?.[0]?.room_id || "");
+    const roomName = String(inv.rows?.[0]?.name || "");
+    const uses = Number(inv.rows?.[0]?.uses ?? 0);
+    const maxUses = Number(inv.rows?.[0]?.max_uses ?? 10);
+    const expiresAt = inv.rows?.[0]?.expires_at as any;
+
+    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+      await pool.query("ROLLBACK");
+      return res.status(410).json({ error: "invite_expired" });
+    }
+    if (Number.isFinite(maxUses) && uses >= maxUses) {
+      await pool.query("ROLLBACK");
+      return res.status(410).json({ error: "invite_max_uses" });
+    }
+
+    if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) {
+      await pool.query("ROLLBACK");
+      return;
+    }
+
+    const joined = await pool.query(
+      `INSERT INTO room_members (room_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+      [roomId, me]
+    );
+    await pool.query(`UPDATE room_invites SET uses = uses + 1 WHERE code=$1`, [code]);
+
+    await pool.query("COMMIT");
+    await wsBroadcastRoom(roomId, { type: "room_member_changed", roomId, userId: me, joined: true });
+    // the owner hears about new members (unless the room is muted / set to "nothing")
+    const ownerId = inv.rows[0].owner_id ? String(inv.rows[0].owner_id) : null;
+    if ((joined.rowCount ?? 0) > 0 && ownerId && ownerId !== me) {
+      const p = (await loadNotificationPrefs(roomId, null, [ownerId])).get(ownerId);
+      if (p && !p.muted && p.level !== "nothing") {
+        const u = await pool.query(`SELECT display_name FROM users WHERE id=$1`, [me]);
+        await createNotifications([
+          {
+            userId: ownerId,
+            kind: "room_join",
+            actorId: me,
+            roomId,
+            meta: { roomName, author: String(u.rows[0]?.display_name || me) },
+          },
+        ]);
+      }
+    }
+    void writeAuditLog({
+      roomId,
+      actorId: me,
+      action: "room_join",
+      targetType: "user",
+      targetId: me,
+      meta: { inviteCode: code },
+    });
+    res.json({ ok: true, roomId, roomName });
+  } catch (e) {
+    await pool.query("ROLLBACK");
+    throw e;
+  }
+  }
+);
+
+// room members
+app.get("/rooms/:roomId/members", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+
+  const room = await pool.query(`SELECT id, owner_id FROM rooms WHERE id=$1`, [roomId]);
+  if (room.rowCount === 0) return res.status(404).json({ error: "room_not_found" });
+  const ownerId = room.rows?.[0]?.owner_id ? String(room.rows[0].owner_id) : null;
+  if (!ownerId) return res.status(400).json({ error: "room_public_no_members" });
+
+  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (!(await assertRoomMember(roomId, me, res))) return;
+
+  const { rows } = await pool.query(
+    `SELECT user_id, display_name, has_avatar, bio,
+            COALESCE((
+              SELECT array_agg(mr.role_id ORDER BY mr.created_at)
+              FROM room_member_roles mr
+              WHERE mr.room_id=$1 AND mr.user_id = x.user_id
+            ), '{}') AS role_ids
+     FROM (
+       SELECT rm.user_id, u.display_name, (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS has_avatar, u.bio
+       FROM room_members rm
+       JOIN users u ON u.id = rm.user_id
+       WHERE rm.room_id=$1
+       UNION
+       SELECT r.owner_id AS user_id, u.display_name, (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS has_avatar, u.bio
+       FROM rooms r
+       JOIN users u ON u.id = r.owner_id
+       WHERE r.id=$1 AND r.owner_id IS NOT NULL
+     ) x
+     ORDER BY display_name ASC`,
+    [roomId]
+  );
+  res.json(
+    rows.map((r) => ({
+      userId: r.user_id,
+      displayName: r.display_name,
+      hasAvatar: !!r.has_avatar,
+      bio: r.bio ?? null,
+      isOwner: ownerId === String(r.user_id),
+      roleIds: (r.role_ids ?? []).map(String),
+      online: isUserOnline(String(r.user_id)),
+    }))
+  );
+});
+
+// room audit logs (view_audit_log)
+app.get("/rooms/:roomId/audit", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "view_audit_log", res))) return;
+
+  const limitRaw = req.query.limit;
+  const limit = Math.min(200, Math.max(1, Number(limitRaw ?? 50) || 50));
+
+  const beforeRaw = typeof req.query.before === "string" ? req.query.before : "";
+  let before: Date | null = null;
+  if (beforeRaw) {
+    const d = new Date(beforeRaw);
+    if (!Number.isNaN(d.getTime())) before = d;
+  }
+
+  const { rows } = await pool.query(
+    `SELECT l.id, l.action, l.target_type, l.target_id, l.meta, l.created_at,
+            l.actor_id, u.display_name AS actor_name
+     FROM audit_logs l
+     JOIN users u ON u.id = l.actor_id
+     WHERE l.room_id=$1
+       AND ($2::timestamptz IS NULL OR l.created_at < $2)
+     ORDER BY l.created_at DESC
+     LIMIT $3`,
+    [roomId, before, limit]
+  );
+
+  res.json(
+    rows.map((r) => ({
+      id: r.id,
+      roomId,
+      action: r.action,
+      actorId: r.actor_id,
+      actorDisplayName: r.actor_name,
+      targetType: r.target_type ?? null,
+      targetId: r.target_id ?? null,
+      meta: r.meta ?? null,
+      created_at: r.created_at,
+    }))
+  );
+});
+
+// search room messages (owner/member only)
+app.get(
+  "/rooms/:roomId/messages/search",
+  requireAuth,
+  rateLimit("room_message_search", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const roomId = String(req.params.roomId || "");
+    if (!roomId) return res.status(400).json({ error: "roomId_required" });
+
+    if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+    if (!(await assertRoomMember(roomId, me, res))) return;
+
+    const qRaw = typeof req.query.q === "string" ? req.query.q : "";
+    const q = qRaw.trim();
+    if (!q) return res.status(400).json({ error: "q_required" });
+    if (q.length > 100) return res.status(400).json({ error: "q_too_long" });
+
+    const limitRaw = req.query.limit;
+    const limit = Math.min(50, Math.max(1, Number(limitRaw ?? 20) || 20));
+
+    const channelId = typeof req.query.channelId === "string" ? req.query.channelId.trim() : "";
+    const channelFilter = channelId ? channelId : null;
+
+    const beforeRaw = typeof req.query.before === "string" ? req.query.before : "";
+    let before: Date | null = null;
+    if (beforeRaw) {
+      const d = new Date(beforeRaw);
+      if (!Number.isNaN(d.getTime())) before = d;
+    }
+
+    const channelBits = await channelPermissionBits(roomId, me);
+    const visibleChannelIds = Array.from(channelBits).filter(([, bits]) => bits !== 0).map(([id]) => id);
+
+    const { rows } = await pool.query(
+      `SELECT m.id, m.channel_id, c.name AS channel_name,
+              m.author_id, COALESCE(m.author_name, m.author) AS author_name,
+              (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS author_has_avatar,
+              m.content, m.created_at, m.thread_id
+       FROM messages m
+       JOIN channels c ON c.id = m.channel_id
+       LEFT JOIN users u ON u.id = m.author_id
+       WHERE c.room_id=$1
+         AND m.content ILIKE $2
+         AND ($3::timestamptz IS NULL OR m.created_at < $3)
+         AND ($4::text IS NULL OR m.channel_id = $4)
+         AND m.channel_id = ANY($6::text[])
+       ORDER BY m.created_at DESC
+       LIMIT $5`,
+      [roomId, `%${q}%`, before, channelFilter, limit + 1, visibleChannelIds]
+    );
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+
+    res.json({
+      items: page.map((r) => ({
+        id: r.id,
+        channelId: r.channel_id,
+        channelName: r.channel_name,
+        threadId: r.thread_id ?? null,
+        authorId: r.author_id ?? "",
+        author: r.author_name,
+        authorHasAvatar: !!r.author_has_avatar,
+        content: r.content,
+        created_at: r.created_at,
+      })),
+      hasMore,
+    });
+  }
+);
+
+// personal audit logs (includes room + home actions where you are actor/target)
+app.get("/audit", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+
+  const limitRaw = req.query.limit;
+  const limit = Math.min(200, Math.max(1, Number(limitRaw ?? 50) || 50));
+
+  const beforeRaw = typeof req.query.before === "string" ? req.query.before : "";
+  let before: Date | null = null;
+  if (beforeRaw) {
+    const d = new Date(beforeRaw);
+    if (!Number.isNaN(d.getTime())) before = d;
+  }
+
+  const scope = typeof req.query.scope === "string" ? String(req.query.scope) : "home";
+  const onlyHome = scope === "home";
+
+  const { rows } = await pool.query(
+    `SELECT l.id, l.room_id, l.action, l.target_type, l.target_id, l.meta, l.created_at,
+            l.actor_id, u.display_name AS actor_name
+     FROM audit_logs l
+     JOIN users u ON u.id = l.actor_id
+     WHERE (l.actor_id=$1 OR (l.target_type='user' AND l.target_id=$1))
+       AND ($2::timestamptz IS NULL OR l.created_at < $2)
+       AND ($3::boolean = false OR l.room_id IS NULL)
+     ORDER BY l.created_at DESC
+     LIMIT $4`,
+    [me, before, onlyHome, limit]
+  );
+
+  res.json(
+    rows.map((r) => ({
+      id: r.id,
+      roomId: r.room_id ? String(r.room_id) : null,
+      action: r.action,
+      actorId: r.actor_id,
+      actorDisplayName: r.actor_name,
+      targetType: r.target_type ?? null,
+      targetId: r.target_id ?? null,
+      meta: r.meta ?? null,
+      created_at: r.created_at,
+    }))
+  );
+});
+
+app.delete("/rooms/:roomId/members/me", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+
+  const room = await pool.query(`SELECT id, owner_id FROM rooms WHERE id=$1`, [roomId]);
+  if (room.rowCount === 0) return res.status(404).json({ error: "room_not_found" });
+  const ownerId = room.rows?.[0]?.owner_id ? String(room.rows[0].owner_id) : null;
+  if (!ownerId) return res.status(400).json({ error: "room_public_no_members" });
+
+  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (!(await assertRoomMember(roomId, me, res))) return;
+  // transfer the room first (POST /rooms/:roomId/transfer with leave) or delete it
+  if (ownerId === me) return res.status(400).json({ error: "owner_cannot_leave" });
+
+  await pool.query(`DELETE FROM room_members WHERE room_id=$1 AND user_id=$2`, [roomId, me]);
+  void writeAuditLog({ roomId, actorId: me, action: "room_leave", targetType: "user", targetId: me });
+  await wsBroadcastRoom(roomId, { type: "room_member_changed", roomId, userId: me, joined: false });
+  await wsRemoveUserFromRoom(me, roomId, "room_left");
+  res.json({ ok: true });
+});
+
+// ownership transfer (owner only, re-confirmed with a passkey):
+// POST .../transfer/options -> WebAuthn request options for the owner's passkeys
+// POST .../transfer { newOwnerId, response, leave? } -> the new owner must be a member; with leave the old owner leaves afterwards
+app.post(
+  "/rooms/:roomId/transfer/options",
+  requireAuth,
+  rateLimit("room_transfer", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const roomId = String(req.params.roomId || "");
+    if (!roomId) return res.status(400).json({ error: "roomId_required" });
+    if (!(await assertRoomOwner(roomId, me, res))) return;
+
+    const options = await passkeyReauthOptions(me);
+    if (!options) return res.status(404).json({ error: "no_credentials" });
+    res.json(options);
+  }
+);
+
+app.post(
+  "/rooms/:roomId/transfer",
+  requireAuth,
+  rateLimit("room_transfer", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const roomId = String(req.params.roomId || "");
+    if (!roomId) return res.status(400).json({ error: "roomId_required" });
+    if (!(await assertRoomOwner(roomId, me, res))) return;
+
+    const userIdErr = validateUserId(req.body?.newOwnerId);
+    if (userIdErr) return res.status(400).json({ error: userIdErr });
+    const newOwnerId = normalizeUserId(String(req.body.newOwnerId));
+    if (newOwnerId === me) return res.status(400).json({ error: "already_owner" });
+    const leave = req.body?.leave === true;
+
+    const reauthErr = await verifyPasskeyReauth(me, req.body?.challengeId, req.body?.response);
+    if (reauthErr) return res.status(reauthErr === "credential_not_found" ? 404 : 400).json({ error: reauthErr });
+
+    if (await isBannedFromRoom(roomId, newOwnerId)) return res.status(400).json({ error: "target_banned" });
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      // locked so the new owner can't leave while the owner changes
+      const member = await client.query(`SELECT 1 FROM room_members WHERE room_id=$1 AND user_id=$2 FOR UPDATE`, [
+        roomId,
+        newOwnerId,
+      ]);
+      if ((member.rowCount ?? 0) === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "not_member" });
+      }
+      // conditional on the current owner, so two transfers racing each other can't both succeed
+      const upd = await client.query(`UPDATE rooms SET owner_id=$3 WHERE id=$1 AND owner_id=$2 RETURNING id`, [
+        roomId,
+        me,
+        newOwnerId,
+      ]);
+      if ((upd.rowCount ?? 0) === 0) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "owner_changed" });
+      }
+      // the owner's roles meant nothing; drop them so the member list stays honest
+      await client.query(`DELETE FROM room_member_roles WHERE room_id=$1 AND user_id=$2`, [roomId, newOwnerId]);
+      if (leave) {
+        await client.query(`DELETE FROM room_members WHERE room_id=$1 AND user_id=$2`, [roomId, me]);
+      } else {
+        await client.query(`INSERT INTO room_members (room_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING`, [roomId, me]);
+      }
+      await client.query("COMMIT");
+    } catch (e) {
+      await client.query("ROLLBACK").catch(() => {});
+      throw e;
+    } finally {
+      client.release();
+    }
+
+    void writeAuditLog({
+      roomId,
+      actorId: me,
+      action: "room_transfer",
+      targetType: "user",
+      targetId: newOwnerId,
+      meta: { previousOwnerId: me, leave },
+    });
+    await wsBroadcastRoom(roomId, { type: "room_owner_changed", roomId, ownerId: newOwnerId, previousOwnerId: me });
+    if (leave) {
+      void writeAuditLog({ roomId, actorId: me, action: "room_leave", targetType: "user", targetId: me });
+      await wsBroadcastRoom(roomId, { type: "room_member_changed", roomId, userId: me, joined: false });
+      await wsRemoveUserFromRoom(me, roomId, "room_left");
+    } else {
+      // the old owner may lose private channels
+      await wsRecheckChannels(roomId);
+    }
+    res.json({ ok: true, roomId, ownerId: newOwnerId });
+  }
+);
+
+app.delete("/rooms/:roomId/members/:userId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "kick_members", res))) return;
+
+  const userIdErr = validateUserId(req.params.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const target = normalizeUserId(String(req.params.userId));
+  if (target === me) return res.status(400).json({ error: "cannot_kick_self" });
+
+  const room = await pool.query(`SELECT owner_id FROM rooms WHERE id=$1`, [roomId]);
+  if ((room.rowCount ?? 0) === 0) return res.status(404).json({ error: "room_not_found" });
+  if (!room.rows?.[0]?.owner_id) return res.status(400).json({ error: "room_public_no_members" });
+  if (String(room.rows[0].owner_id) === target) return res.status(400).json({ error: "cannot_kick_owner" });
+  if (!(await assertCanModerateMember(roomId, me, target, res))) return;
+
+  const del = await pool.query(`DELETE FROM room_members WHERE room_id=$1 AND user_id=$2`, [roomId, target]);
+  if ((del.rowCount ?? 0) === 0) return res.status(404).json({ error: "not_member" });
+
+  void writeAuditLog({ roomId, actorId: me, action: "room_kick", targetType: "user", targetId: target });
+  await wsBroadcastRoom(roomId, { type: "room_member_changed", roomId, userId: target, joined: false });
+  await wsRemoveUserFromRoom(target, roomId, "room_kicked");
+  res.json({ ok: true });
+});
+
+// room roles (list: members / changes: owner only)
+function roomRoleJson(r: any) {
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    permissions: permissionNames(Number(r.permissions ?? 0), ROOM_PERMISSIONS),
+    memberCount: Number(r.member_count ?? 0),
+    created_at: r.created_at,
+  };
+}
+
+app.get("/rooms/:roomId/roles", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+
+  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (!(await assertRoomMember(roomId, me, res))) return;
+
+  const { rows } = await pool.query(
+    `SELECT r.id, r.name, r.permissions, r.created_at,
+            (SELECT COUNT(*)::int FROM room_member_roles mr WHERE mr.role_id = r.id) AS member_count
+     FROM room_roles r
+     WHERE r.room_id=$1
+     ORDER BY r.created_at ASC`,
+    [roomId]
+  );
+  res.json(rows.map(roomRoleJson));
+});
+
+app.post("/rooms/:roomId/roles", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomOwner(roomId, me, res))) return;
+
+  const nameErr = validateName(req.body?.name, "name");
+  if (nameErr) return res.status(400).json({ error: nameErr });
+  const name = String(req.body.name).trim();
+  const permissions = req.body?.permissions == null ? 0 : parsePermissions(req.body.permissions, ROOM_PERMISSIONS);
+  if (permissions === null) return res.status(400).json({ error: "permissions_invalid" });
+
+  const count = await pool.query(`SELECT COUNT(*)::int AS n FROM room_roles WHERE room_id=$1`, [roomId]);
+  if (Number(count.rows?.[0]?.n ?? 0) >= MAX_ROOM_ROLES) return res.status(400).json({ error: "too_many_roles" });
+
+  const id = randomUUID();
+  const ins = await pool.query(
+    `INSERT INTO room_roles (id, room_id, name, permissions) VALUES ($1, $2, $3, $4) RETURNING id, name, permissions, created_at`,
+    [id, roomId, name, permissions]
+  );
+
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "role_create",
+    targetType: "role",
+    targetId: id,
+    meta: { name, permissions: permissionNames(permissions, ROOM_PERMISSIONS) },
+  });
+  await wsBroadcastRoom(roomId, { type: "room_roles_changed", roomId });
+  res.status(201).json(roomRoleJson(ins.rows[0]));
+});
+
+app.patch("/rooms/:roomId/roles/:roleId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  const roleId = String(req.params.roleId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomOwner(roomId, me, res))) return;
+
+  let name: string | null = null;
+  if (req.body?.name !== undefined) {
+    const nameErr = validateName(req.body.name, "name");
+    if (nameErr) return res.status(400).json({ error: nameErr });
+    name = String(req.body.name).trim();
+  }
+  let permissions: number | null = null;
+  if (req.body?.permissions !== undefined) {
+    permissions = parsePermissions(req.body.permissions, ROOM_PERMISSIONS);
+    if (permissions === null) return res.status(400).json({ error: "permissions_invalid" });
+  }
+
+  const upd = await pool.query(
+    `UPDATE room_roles
+     SET name = COALESCE($3, name), permissions = COALESCE($4, permissions)
+     WHERE id=$1 AND room_id=$2
+     RETURNING id, name, permissions, created_at,
+               (SELECT COUNT(*)::int FROM room_member_roles mr WHERE mr.role_id = room_roles.id) AS member_count`,
+    [roleId, roomId, name, permissions]
+  );
+  if ((upd.rowCount ?? 0) === 0) return res.status(404).json({ error: "role_not_found" });
+
+  const role = roomRoleJson(upd.rows[0]);
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "role_update",
+    targetType: "role",
+    targetId: roleId,
+    meta: { name: role.name, permissions: role.permissions },
+  });
+  await wsBroadcastRoom(roomId, { type: "room_roles_changed", roomId });
+  res.json(role);
+});
+
+app.delete("/rooms/:roomId/roles/:roleId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  const roleId = String(req.params.roleId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomOwner(roomId, me, res))) return;
+
+  const del = await pool.query(`DELETE FROM room_roles WHERE id=$1 AND room_id=$2 RETURNING name`, [roleId, roomId]);
+  if ((del.rowCount ?? 0) === 0) return res.status(404).json({ error: "role_not_found" });
+  // overrides reference roles by id only
+  await pool.query(`DELETE FROM channel_permission_overrides WHERE target_type='role' AND target_id=$1`, [roleId]);
+
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "role_delete",
+    targetType: "role",
+    targetId: roleId,
+    meta: { name: String(del.rows[0].name) },
+  });
+  await wsBroadcastRoom(roomId, { type: "room_roles_changed", roomId });
+  await wsRecheckChannels(roomId);
+  res.json({ ok: true });
+});
+
+// assign / unassign a role (owner only)
+app.put("/rooms/:roomId/members/:userId/roles/:roleId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  const roleId = String(req.params.roleId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomOwner(roomId, me, res))) return;
+
+  const userIdErr = validateUserId(req.params.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const target = normalizeUserId(String(req.params.userId));
+
+  const role = await pool.query(`SELECT name FROM room_roles WHERE id=$1 AND room_id=$2`, [roleId, roomId]);
+  if ((role.rowCount ?? 0) === 0) return res.status(404).json({ error: "role_not_found" });
+  const member = await pool.query(`SELECT 1 FROM room_members WHERE room_id=$1 AND user_id=$2`, [roomId, target]);
+  if ((member.rowCount ?? 0) === 0) return res.status(404).json({ error: "not_member" });
+
+  const ins = await pool.query(
+    `INSERT INTO room_member_roles (room_id, user_id, role_id) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING`,
+    [roomId, target, roleId]
+  );
+  if ((ins.rowCount ?? 0) > 0) {
+    void writeAuditLog({
+      roomId,
+      actorId: me,
+      action: "member_role_add",
+      targetType: "user",
+      targetId: target,
+      meta: { roleId, name: String(role.rows[0].name) },
+    });
+    await wsBroadcastRoom(roomId, { type: "room_roles_changed", roomId });
+    await wsRecheckChannels(roomId);
+  }
+  res.json({ ok: true });
+});
+
+app.delete("/rooms/:roomId/members/:userId/roles/:roleId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  const roleId = String(req.params.roleId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomOwner(roomId, me, res))) return;
+
+  const userIdErr = validateUserId(req.params.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const target = normalizeUserId(String(req.params.userId));
+
+  const del = await pool.query(
+    `DELETE FROM room_member_roles mr
+     USING room_roles r
+     WHERE r.id = mr.role_id AND mr.role_id=$1 AND mr.room_id=$2 AND mr.user_id=$3
+     RETURNING r.name`,
+    [roleId, roomId, target]
+  );
+  if ((del.rowCount ?? 0) > 0) {
+    void writeAuditLog({
+      roomId,
+      actorId: me,
+      action: "member_role_remove",
+      targetType: "user",
+      targetId: target,
+      meta: { roleId, name: String(del.rows[0].name) },
+    });
+    await wsBroadcastRoom(roomId, { type: "room_roles_changed", roomId });
+    await wsRecheckChannels(roomId);
+  }
+  res.json({ ok: true });
+});
+
+// --- mentions: "@<userId>", "@everyone" / "@here" parsed from room messages when posted or edited ---
+// Only members (not banned) who can view the channel are mentioned, never the author.
+// @everyone / @here need mention_everyone; without it they stay plain text.
+
+type MentionKind = "user" | "everyone" | "here";
+
+// "@" not preceded by a letter / digit / "_", like the composer's autocomplete
+const MENTION_REGEX = /(^|[^0-9A-Za-z_])@([A-Za-z0-9_-]{3,32})(?![0-9A-Za-z_-])/g;
+
+function parseMentionTokens(content: string) {
+  const userIds = new Set<string>();
+  let everyone = false;
+  let here = false;
+  for (const m of content.matchAll(MENTION_REGEX)) {
+    const name = (m[2] ?? "").toLowerCase();
+    if (name === "everyone") everyone = true;
+    else if (name === "here") here = true;
+    else userIds.add(name);
+  }
+  return { userIds: [...userIds], everyone, here };
+}
+
+// broadFrom: whose mention_everyone lets @everyone / @here through (null: only "@<userId>")
+async function resolveMentions(
+  roomId: string,
+  channelId: string,
+  authorId: string,
+  content: string,
+  broadFrom: string | null = authorId
+) {
+  const out = new Map<string, MentionKind>();
+  const tokens = parseMentionTokens(content);
+  const broad =
+    !!broadFrom &&
+    (tokens.everyone || tokens.here) &&
+    !!(await hasRoomPermission(roomId, broadFrom, "mention_everyone"));
+  if (tokens.userIds.length === 0 && !broad) return out;
+
+  const explicit = new Set(tokens.userIds);
+  for (const userId of await filterChannelViewers(roomId, channelId, broad ? null : tokens.userIds)) {
+    if (userId === authorId) continue;
+    if (explicit.has(userId)) out.set(userId, "user");
+    else if (tokens.everyone) out.set(userId, "everyone");
+    else if (isUserOnline(userId)) out.set(userId, "here");
+  }
+  return out;
+}
+
+// room members (not banned) among userIds who can view the channel; userIds null = every member.
+// One query for everyone: the channel's overrides per member, applied like channelPermissionBits does.
+async function filterChannelViewers(roomId: string, channelId: string, userIds: string[] | null) {
+  const { rows } = await pool.query(
+    `SELECT rm.user_id, (rm.user_id = r.owner_id) AS is_owner,
+            COALESCE(ev.allow, 0) AS everyone_allow, COALESCE(ev.deny, 0) AS everyone_deny,
+            ro.allow AS roles_allow, ro.deny AS roles_deny,
+            COALESCE(mo.allow, 0) AS member_allow, COALESCE(mo.deny, 0) AS member_deny
+     FROM room_members rm
+     JOIN rooms r ON r.id = rm.room_id
+     LEFT JOIN channel_permission_overrides ev
+       ON ev.channel_id = $3 AND ev.target_type = 'everyone'
+     LEFT JOIN channel_permission_overrides mo
+       ON mo.channel_id = $3 AND mo.target_type = 'member' AND mo.target_id = rm.user_id
+     CROSS JOIN LATERAL (
+       SELECT COALESCE(bit_or(o.allow), 0) AS allow, COALESCE(bit_or(o.deny), 0) AS deny
+       FROM channel_permission_overrides o
+       JOIN room_member_roles mr ON mr.role_id = o.target_id AND mr.room_id = rm.room_id AND mr.user_id = rm.user_id
+       WHERE o.channel_id = $3 AND o.target_type = 'role'
+     ) ro
+     WHERE rm.room_id = $1
+       AND ($2::text[] IS NULL OR rm.user_id = ANY($2::text[]))
+       AND NOT EXISTS (SELECT 1 FROM room_bans b WHERE b.room_id = rm.room_id AND b.user_id = rm.user_id)`,
+    [roomId, userIds, channelId]
+  );
+  const view = CHANNEL_PERMISSIONS.view_channel;
+  const out: string[] = [];
+  for (const r of rows) {
+    if (!r.is_owner) {
+      let bits = view;
+      for (const [allow, deny] of [
+        [r.everyone_allow, r.everyone_deny],
+        [r.roles_allow, r.roles_deny],
+        [r.member_allow, r.member_deny],
+      ]) {
+        bits = (bits & ~Number(deny)) | (Number(allow) & view);
+      }
+      if (!bits) continue;
+    }
+    out.push(String(r.user_id));
+  }
+  return out;
+}
+
+// Replaces the message's mention rows; returns the users who weren't mentioned by it before.
+async function saveMessageMentions(messageId: string, mentions: Map<string, MentionKind>) {
+  const userIds = [...mentions.keys()];
+  const kinds = userIds.map((u) => mentions.get(u) as MentionKind);
+  const { rows } = await pool.query(
+    `WITH gone AS (
+       DELETE FROM message_mentions WHERE message_id = $1 AND NOT (user_id = ANY($2::text[]))
+     ), saved AS (
+       INSERT INTO message_mentions (message_id, user_id, kind, created_at)
+       SELECT m.id, t.user_id, t.kind, m.created_at
+       FROM messages m, unnest($2::text[], $3::text[]) AS t(user_id, kind)
+       WHERE m.id = $1
+       ON CONFLICT (message_id, user_id) DO UPDATE SET kind = EXCLUDED.kind
+       RETURNING user_id, (xmax = 0) AS inserted
+     )
+     SELECT user_id FROM saved WHERE inserted`,
+    [messageId, userIds, kinds]
+  );
+  return rows.map((r) => String(r.user_id));
+}
+
+// columns of FROM message_mentions mm (joined to the message, its channel, room, thread and author)
+const MENTION_SELECT = `SELECT mm.user_id, mm.kind, m.id, m.channel_id, c.name AS channel_name
+          , c.room_id, r.name AS room_name, m.thread_id, t.name AS thread_name
+          , COALESCE(m.author_id, m.author) AS author_id
+          , COALESCE(m.author_name, m.author) AS author_name
+          , (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS author_has_avatar
+          , m.content, m.created_at, m.edited_at
+     FROM message_mentions mm
+     JOIN messages m ON m.id = mm.message_id
+     JOIN channels c ON c.id = m.channel_id
+     JOIN rooms r ON r.id = c.room_id
+     LEFT JOIN threads t ON t.id = m.thread_id
+     LEFT JOIN users u ON u.id = COALESCE(m.author_id, m.author)`;
+
+function mentionPayload(r: any) {
+  return {
+    id: String(r.id),
+    kind: r.kind as MentionKind,
+    roomId: String(r.room_id),
+    roomName: String(r.room_name),
+    channelId: String(r.channel_id),
+    channelName: String(r.channel_name),
+    threadId: r.thread_id ?? null,
+    threadName: r.thread_name ?? null,
+    authorId: String(r.author_id ?? ""),
+    author: String(r.author_name ?? ""),
+    authorHasAvatar: !!r.author_has_avatar,
+    content: String(r.content ?? ""),
+    created_at: r.created_at,
+    edited_at: r.edited_at ?? null,
+  };
+}
+
+// "mention_created" to every session of each user, subscribed to the channel or not
+async function notifyMentions(messageId: string, userIds: string[]) {
+  if (userIds.length === 0) return;
+  const { rows } = await pool.query(`${MENTION_SELECT} WHERE mm.message_id = $1 AND mm.user_id = ANY($2::text[])`, [
+    messageId,
+    userIds,
+  ]);
+  for (const r of rows) wsBroadcastUserAll(String(r.user_id), { type: "mention_created", mention: mentionPayload(r) });
+}
+
+// messages that mention me in every room I can still see, newest first
+// ?roomId= one room only, ?everyone=false leaves out @everyone / @here, ?before= paging
+app.get("/mentions", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+
+  const limitRaw = req.query.limit;
+  const limit = Math.min(50, Math.max(1, Number(limitRaw ?? 25) || 25));
+
+  const beforeRaw = typeof req.query.before === "string" ? req.query.before : "";
+  let before: Date | null = null;
+  if (beforeRaw) {
+    const d = new Date(beforeRaw);
+    if (!Number.isNaN(d.getTime())) before = d;
+  }
+
+  const roomFilter = typeof req.query.roomId === "string" && req.query.roomId.trim() ? req.query.roomId.trim() : null;
+  const includeEveryone = req.query.everyone !== "false";
+
+  const rooms = await pool.query(
+    `SELECT rm.room_id
+     FROM room_members rm
+     WHERE rm.user_id = $1
+       AND ($2::text IS NULL OR rm.room_id = $2)
+       AND NOT EXISTS (SELECT 1 FROM room_bans b WHERE b.room_id = rm.room_id AND b.user_id = rm.user_id)`,
+    [me, roomFilter]
+  );
+  const visibleChannelIds: string[] = [];
+  for (const r of rooms.rows) {
+    const bits = await channelPermissionBits(String(r.room_id), me);
+    for (const [id, b] of bits) if (b & CHANNEL_PERMISSIONS.view_channel) visibleChannelIds.push(id);
+  }
+
+  const { rows } = await pool.query(
+    `${MENTION_SELECT}
+     WHERE mm.user_id = $1
+       AND m.channel_id = ANY($2::text[])
+       AND ($3::timestamptz IS NULL OR mm.created_at < $3)
+       AND ($4::boolean OR mm.kind = 'user')
+     ORDER BY mm.created_at DESC
+     LIMIT $5`,
+    [me, visibleChannelIds, before, includeEveryone, limit + 1]
+  );
+
+  const hasMore = rows.length > limit;
+  res.json({ items: rows.slice(0, limit).map(mentionPayload), hasMore });
+});
+
+// --- notifications: the per-user notification center, plus notification settings per room / channel ---
+// Room notifications follow notification_settings: "nothing" or a mute drops them, "all" adds every
+// channel message. Highlight keywords (users.highlight_keywords) notify like a mention.
+
+type NotificationKind = "mention" | "reply" | "keyword" | "message" | "dm" | "friend_request" | "room_join";
+
+const NOTIFICATION_LEVELS = ["all", "mentions", "nothing"] as const;
+type NotificationLevel = (typeof NOTIFICATION_LEVELS)[number];
+
+const MAX_NOTIFICATIONS_PER_USER = 500;
+const MAX_HIGHLIGHT_KEYWORDS = 20;
+
+type NewNotification = {
+  userId: string;
+  kind: NotificationKind;
+  actorId: string | null;
+  roomId?: string | null;
+  channelId?: string | null;
+  threadId?: string | null;
+  messageId?: string | null;
+  meta: Record<string, unknown>;
+};
+
+function notificationPayload(r: any) {
+  return {
+    id: String(r.id),
+    kind: r.kind as NotificationKind,
+    actorId: r.actor_id ?? null,
+    roomId: r.room_id ?? null,
+    channelId: r.channel_id ?? null,
+    threadId: r.thread_id ?? null,
+    messageId: r.message_id ?? null,
+    meta: r.meta ?? {},
+    readAt: r.read_at ?? null,
+    created_at: r.created_at,
+  };
+}
+
+function notificationSnippet(content: string) {
+  const t = content.trim();
+  return t.length > 200 ? `${t.slice(0, 200)}…` : t;
+}
+
+// true for notifications of rooms / channels that are muted or set to "nothing" right now (not counted as unread)
+const NOTIFICATION_SILENCED_SQL = `(n.room_id IS NOT NULL AND (
+       EXISTS (
+         SELECT 1 FROM notification_settings s
+         WHERE s.user_id = n.user_id AND s.room_id = n.room_id
+           AND (s.channel_id IS NULL OR s.channel_id = n.channel_id)
+           AND s.muted_until > now()
+       )
+       OR COALESCE(
+         (SELECT s.level FROM notification_settings s
+          WHERE s.user_id = n.user_id AND s.room_id = n.room_id AND s.channel_id = n.channel_id),
+         (SELECT s.level FROM notification_settings s
+          WHERE s.user_id = n.user_id AND s.room_id = n.room_id AND s.channel_id IS NULL),
+         'mentions'
+       ) = 'nothing'
+     ))`;
+
+async function unreadNotificationCount(userId: string) {
+  const { rows } = await pool.query(
+    `SELECT count(*) AS n
+     FROM notifications n
+     WHERE n.user_id = $1 AND n.read_at IS NULL AND NOT ${NOTIFICATION_SILENCED_SQL}`,
+    [userId]
+  );
+  return Number(rows[0]?.n ?? 0);
+}
+
+// after reads / deletes / settings changes: every session of the user reloads the list and the badge
+async function broadcastNotificationsChanged(userId: string) {
+  const unreadCount = await unreadNotificationCount(userId);
+  wsBroadcastUserAll(userId, { type: "notifications_changed", unreadCount });
+  return unreadCount;
+}
+
+async function createNotifications(items: NewNotification[]) {
+  if (items.length === 0) return;
+  const { rows } = await pool.query(
+    `INSERT INTO notifications (id, user_id, kind, actor_id, room_id, channel_id, thread_id, message_id, meta)
+     SELECT * FROM unnest($1::text[], $2::text[], $3::text[], $4::text[], $5::text[], $6::text[], $7::text[], $8::text[], $9::jsonb[])
+     RETURNING *`,
+    [
+      items.map(() => randomUUID()),
+      items.map((n) => n.userId),
+      items.map((n) => n.kind),
+      items.map((n) => n.actorId),
+      items.map((n) => n.roomId ?? null),
+      items.map((n) => n.channelId ?? null),
+      items.map((n) => n.threadId ?? null),
+      items.map((n) => n.messageId ?? null),
+      items.map((n) => JSON.stringify(n.meta)),
+    ]
+  );
+  const userIds = [...new Set(items.map((n) => n.userId))];
+  await pool.query(
+    `DELETE FROM notifications
+     WHERE id IN (
+       SELECT id FROM (
+         SELECT id, row_number() OVER (PARTITION BY user_id ORDER BY created_at DESC) AS rn
+         FROM notifications
+         WHERE user_id = ANY($1::text[])
+       ) x
+       WHERE x.rn > $2
+     )`,
+    [userIds, MAX_NOTIFICATIONS_PER_USER]
+  );
+  for (const r of rows) {
+    wsBroadcastUserAll(String(r.user_id), { type: "notification_created", notification: notificationPayload(r) });
+  }
+}
+
+// effective level (channel row, else room row, else "mentions") and mute of each user; channelId null = the room
+async function loadNotificationPrefs(roomId: string, channelId: string | null, userIds: string[]) {
+  const out = new Map<string, { level: NotificationLevel; muted: boolean }>();
+  for (const u of userIds) out.set(u, { level: "mentions", muted: false });
+  if (userIds.length === 0) return out;
+  const { rows } = await pool.query(
+    `SELECT user_id, level, COALESCE(muted_until > now(), false) AS muted
+     FROM notification_settings
+     WHERE room_id = $1 AND (channel_id IS NULL OR channel_id = $2) AND user_id = ANY($3::text[])
+     ORDER BY channel_id NULLS FIRST`,
+    [roomId, channelId, userIds]
+  );
+  for (const r of rows) {
+    const p = out.get(String(r.user_id));
+    if (!p) continue;
+    if (r.level) p.level = r.level as NotificationLevel;
+    if (r.muted) p.muted = true;
+  }
+  return out;
+}
+
+type RoomMessageNotice = {
+  id: string;
+  roomId: string;
+  channelId: string;
+  threadId: string | null;
+  authorId: string;
+  authorName: string;
+  content: string;
+  // users newly mentioned by the message (already checked by resolveMentions)
+  mentions: Map<string, MentionKind>;
+  // false for edits: only the new mentions notify
+  posted: boolean;
+  // author of the message this one replies to
+  replyToAuthorId?: string | null;
+};
+
+// One notification per user and message: mention > reply > keyword > message ("all").
+async function notifyRoomMessage(m: RoomMessageNotice) {
+  const kinds = new Map<string, NotificationKind>();
+  const keywordByUser = new Map<string, string>();
+  for (const userId of m.mentions.keys()) kinds.set(userId, "mention");
+
+  if (m.posted) {
+    if (m.replyToAuthorId && m.replyToAuthorId !== m.authorId && !kinds.has(m.replyToAuthorId)) {
+      kinds.set(m.replyToAuthorId, "reply");
+    }
+
+    const kw = await pool.query(
+      `SELECT u.id, u.highlight_keywords
+       FROM room_members rm
+       JOIN users u ON u.id = rm.user_id
+       WHERE rm.room_id = $1 AND rm.user_id <> $2 AND cardinality(u.highlight_keywords) > 0`,
+      [m.roomId, m.authorId]
+    );
+    const lower = m.content.toLowerCase();
+    for (const r of kw.rows) {
+      const userId = String(r.id);
+      if (kinds.has(userId)) continue;
+      const hit = (r.highlight_keywords as string[]).find((k) => lower.includes(k.toLowerCase()));
+      if (!hit) continue;
+      kinds.set(userId, "keyword");
+      keywordByUser.set(userId, hit);
+    }
+
+    // "all" covers channel messages, not thread replies
+    if (!m.threadId) {
+      const subs = await pool.query(
+        `SELECT DISTINCT user_id
+         FROM notification_settings
+         WHERE room_id = $1 AND (channel_id IS NULL OR channel_id = $2) AND level = 'all' AND user_id <> $3`,
+        [m.roomId, m.channelId, m.authorId]
+      );
+      for (const r of subs.rows) if (!kinds.has(String(r.user_id))) kinds.set(String(r.user_id), "message");
+    }
+  }
+  if (kinds.size === 0) return;
+
+  const others = [...kinds].filter(([, kind]) => kind !== "mention").map(([userId]) => userId);
+  const viewers = new Set(others.length > 0 ? await filterChannelViewers(m.roomId, m.channelId, others) : []);
+  const prefs = await loadNotificationPrefs(m.roomId, m.channelId, [...kinds.keys()]);
+
+  const names = await pool.query(
+    `SELECT r.name AS room_name, c.name AS channel_name, t.name AS thread_name
+     FROM channels c
+     JOIN rooms r ON r.id = c.room_id
+     LEFT JOIN threads t ON t.id = $2
+     WHERE c.id = $1`,
+    [m.channelId, m.threadId]
+  );
+  const base = {
+    roomName: names.rows[0]?.room_name ?? null,
+    channelName: names.rows[0]?.channel_name ?? null,
+    threadName: names.rows[0]?.thread_name ?? null,
+    author: m.authorName,
+    content: notificationSnippet(m.content),
+  };
+
+  const items: NewNotification[] = [];
+  for (const [userId, kind] of kinds) {
+    if (kind !== "mention" && !viewers.has(userId)) continue;
+    const p = prefs.get(userId);
+    if (!p || p.muted || p.level === "nothing") continue;
+    if (kind === "message" && p.level !== "all") continue;
+    items.push({
+      userId,
+      kind,
+      actorId: m.authorId,
+      roomId: m.roomId,
+      channelId: m.channelId,
+      threadId: m.threadId,
+      messageId: m.id,
+      meta: {
+        ...base,
+        ...(kind === "mention" ? { mentionKind: m.mentions.get(userId) } : {}),
+        ...(kind === "keyword" ? { keyword: keywordByUser.get(userId) } : {}),
+      },
+    });
+  }
+  await createNotifications(items);
+}
+
+// my notifications, newest first (?before= paging, ?unread=true for unread ones only)
+app.get("/notifications", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+
+  const limitRaw = req.query.limit;
+  const limit = Math.min(100, Math.max(1, Number(limitRaw ?? 30) || 30));
+
+  const beforeRaw = typeof req.query.before === "string" ? req.query.before : "";
+  let before: Date | null = null;
+  if (beforeRaw) {
+    const d = new Date(beforeRaw);
+    if (!Number.isNaN(d.getTime())) before = d;
+  }
+  const unreadOnly = req.query.unread === "true";
+
+  const { rows } = await pool.query(
+    `SELECT n.*
+     FROM notifications n
+     WHERE n.user_id = $1
+       AND ($2::timestamptz IS NULL OR n.created_at < $2)
+       AND ($3::boolean = false OR n.read_at IS NULL)
+     ORDER BY n.created_at DESC
+     LIMIT $4`,
+    [me, before, unreadOnly, limit + 1]
+  );
+
+  const hasMore = rows.length > limit;
+  res.json({
+    items: rows.slice(0, limit).map(notificationPayload),
+    hasMore,
+    unreadCount: await unreadNotificationCount(me),
+  });
+});
+
+function parseNotificationIds(body: any): { all: boolean; ids: string[] } | { error: string } {
+  if (body?.all === true) return { all: true, ids: [] };
+  const ids = body?.ids;
+  if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string")) return { error: "ids_must_be_string_array" };
+  if (ids.length > 200) return { error: "ids_too_many" };
+  return { all: false, ids: ids as string[] };
+}
+
+// mark as read: { ids } or { all: true }
+app.post(
+  "/notifications/read",
+  requireAuth,
+  rateLimit("notifications_update", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const target = parseNotificationIds(req.body);
+    if ("error" in target) return res.status(400).json({ error: target.error });
+
+    await pool.query(
+      `UPDATE notifications SET read_at = now()
+       WHERE user_id = $1 AND read_at IS NULL AND ($2::boolean OR id = ANY($3::text[]))`,
+      [me, target.all, target.ids]
+    );
+    res.json({ ok: true, unreadCount: await broadcastNotificationsChanged(me) });
+  }
+);
+
+// delete: { ids }, { all: true }, or { all: true, onlyRead: true } to keep the unread ones
+app.post(
+  "/notifications/clear",
+  requireAuth,
+  rateLimit("notifications_update", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const target = parseNotificationIds(req.body);
+    if ("error" in target) return res.status(400).json({ error: target.error });
+    const onlyRead = req.body?.onlyRead === true;
+
+    await pool.query(
+      `DELETE FROM notifications
+       WHERE user_id = $1 AND ($2::boolean OR id = ANY($3::text[])) AND ($4::boolean = false OR read_at IS NOT NULL)`,
+      [me, target.all, target.ids, onlyRead]
+    );
+    res.json({ ok: true, unreadCount: await broadcastNotificationsChanged(me) });
+  }
+);
+
+// rooms / channels I've changed from the default, and my highlight keywords
+app.get("/notification-settings", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const { rows } = await pool.query(
+    `SELECT room_id, channel_id, level, muted_until FROM notification_settings WHERE user_id = $1`,
+    [me]
+  );
+  const u = await pool.query(`SELECT highlight_keywords FROM users WHERE id = $1`, [me]);
+  res.json({
+    settings: rows.map((r) => ({
+      roomId: String(r.room_id),
+      channelId: r.channel_id ?? null,
+      level: r.level ?? null,
+      mutedUntil: r.muted_until ?? null,
+    })),
+    keywords: (u.rows[0]?.highlight_keywords ?? []) as string[],
+  });
+});
+
+// body: { level: "all" | "mentions" | "nothing" | null (inherit), mutedUntil: ISO time | null }; both null drops the row
+async function saveNotificationSetting(req: express.Request, res: express.Response, roomId: string, channelId: string | null) {
+  const me = (req as any).userId as string;
+  const level = req.body?.level ?? null;
+  if (level !== null && !NOTIFICATION_LEVELS.includes(level)) return res.status(400).json({ error: "level_invalid" });
+  const mutedRaw = req.body?.mutedUntil ?? null;
+  let mutedUntil: Date | null = null;
+  if (mutedRaw !== null) {
+    mutedUntil = typeof mutedRaw === "string" ? new Date(mutedRaw) : null;
+    if (!mutedUntil || Number.isNaN(mutedUntil.getTime())) return res.status(400).json({ error: "mutedUntil_invalid" });
+    if (mutedUntil.getTime() <= Date.now()) mutedUntil = null;
+  }
+
+  if (level === null && mutedUntil === null) {
+    await pool.query(
+      `DELETE FROM notification_settings WHERE user_id = $1 AND room_id = $2 AND channel_id IS NOT DISTINCT FROM $3`,
+      [me, roomId, channelId]
+    );
+  } else {
+    await pool.query(
+      `INSERT INTO notification_settings (user_id, room_id, channel_id, level, muted_until)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, room_id, COALESCE(channel_id, '')) DO UPDATE SET
+         level = EXCLUDED.level,
+         muted_until = EXCLUDED.muted_until,
+         updated_at = now()`,
+      [me, roomId, channelId, level, mutedUntil]
+    );
+  }
+  const setting = { roomId, channelId, level, mutedUntil: mutedUntil ? mutedUntil.toISOString() : null };
+  wsBroadcastUserAll(me, { type: "notification_settings_updated", setting });
+  await broadcastNotificationsChanged(me);
+  res.json({ setting });
+}
+
+app.put(
+  "/notification-settings/rooms/:roomId",
+  requireAuth,
+  rateLimit("notification_settings", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const roomId = String(req.params.roomId || "");
+    if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+    if (!(await assertRoomMember(roomId, me, res))) return;
+    await saveNotificationSetting(req, res, roomId, null);
+  }
+);
+
+app.put(
+  "/notification-settings/channels/:channelId",
+  requireAuth,
+  rateLimit("notification_settings", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const channelId = String(req.params.channelId || "");
+    const ch = await pool.query(`SELECT room_id FROM channels WHERE id=$1`, [channelId]);
+    if ((ch.rowCount ?? 0) === 0) return res.status(404).json({ error: "channel_not_found" });
+    const roomId = String(ch.rows[0].room_id);
+    if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+    if (!(await assertRoomMember(roomId, me, res))) return;
+    if (!(await assertChannelPermission(roomId, channelId, me, "view_channel", res))) return;
+    await saveNotificationSetting(req, res, roomId, channelId);
+  }
+);
+
+// body: { keywords: string[] } (replaces the list; matched case-insensitively anywhere in the text)
+app.put(
+  "/notification-settings/keywords",
+  requireAuth,
+  rateLimit("notification_settings", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const raw = req.body?.keywords;
+    if (!Array.isArray(raw) || raw.some((k) => typeof k !== "string")) {
+      return res.status(400).json({ error: "keywords_must_be_string_array" });
+    }
+    const keywords: string[] = [];
+    for (const k of raw as string[]) {
+      const v = k.trim();
+      if (!v) continue;
+      if (v.length > 40) return res.status(400).json({ error: "keyword_too_long" });
+      if (!keywords.some((x) => x.toLowerCase() === v.toLowerCase())) keywords.push(v);
+    }
+    if (keywords.length > MAX_HIGHLIGHT_KEYWORDS) {
+      return res.status(400).json({ error: "keywords_too_many", max: MAX_HIGHLIGHT_KEYWORDS });
+    }
+
+    await pool.query(`UPDATE users SET highlight_keywords = $2 WHERE id = $1`, [me, keywords]);
+    wsBroadcastUserAll(me, { type: "notification_settings_updated", keywords });
+    res.json({ keywords });
+  }
+);
+
+// --- read states: where each user has read up to in each channel, synced across their devices ---
+// Unread = channel messages (not thread messages) from others after last_read_at (or after joining the room).
+// Mentions are the unread ones among them with a message_mentions row for the user.
+
+type ChannelReadStateRow = {
+  channel_id: string;
+  room_id: string;
+  last_read_message_id: string | null;
+  last_read_at: Date | null;
+  last_message_at: Date | null;
+  unread_count: string | number;
+  mention_count: string | number;
+};
+
+function readStatePayload(r: ChannelReadStateRow) {
+  return {
+    channelId: String(r.channel_id),
+    roomId: String(r.room_id),
+    lastReadMessageId: r.last_read_message_id == null ? null : String(r.last_read_message_id),
+    lastReadAt: r.last_read_at == null ? null : new Date(r.last_read_at).toISOString(),
+    lastMessageAt: r.last_message_at == null ? null : new Date(r.last_message_at).toISOString(),
+    unreadCount: Number(r.unread_count ?? 0),
+    mentionCount: Number(r.mention_count ?? 0),
+  };
+}
+
+// channels of rooms the user belongs to (not banned from), optionally only channelIds; view_channel is checked by callers
+async function loadChannelReadStates(userId: string, channelIds: string[] | null) {
+  const { rows } = await pool.query<ChannelReadStateRow>(
+    `SELECT c.id AS channel_id, c.room_id, rs.last_read_message_id, rs.last_read_at
+          , (SELECT MAX(m.created_at) FROM messages m WHERE m.channel_id = c.id AND m.thread_id IS NULL) AS last_message_at
+          , COALESCE(n.unread_count, 0) AS unread_count
+          , COALESCE(n.mention_count, 0) AS mention_count
+     FROM channels c
+     JOIN room_members rm ON rm.room_id = c.room_id AND rm.user_id = $1
+     LEFT JOIN channel_read_states rs ON rs.channel_id = c.id AND rs.user_id = $1
+     LEFT JOIN LATERAL (
+       SELECT count(*) AS unread_count
+            , count(*) FILTER (
+                WHERE EXISTS (SELECT 1 FROM message_mentions mm WHERE mm.message_id = m.id AND mm.user_id = $1)
+              ) AS mention_count
+       FROM messages m
+       WHERE m.channel_id = c.id
+         AND m.thread_id IS NULL
+         AND m.created_at > COALESCE(rs.last_read_at, rm.created_at)
+         AND COALESCE(m.author_id, m.author) <> $1
+     ) n ON true
+     WHERE ($2::text[] IS NULL OR c.id = ANY($2::text[]))
+       AND NOT EXISTS (SELECT 1 FROM room_bans b WHERE b.room_id = c.room_id AND b.user_id = $1)`,
+    [userId, channelIds]
+  );
+
+  // drop channels the user can't see
+  const bitsByRoom = new Map<string, Map<string, number>>();
+  const visible: ChannelReadStateRow[] = [];
+  for (const r of rows) {
+    const roomId = String(r.room_id);
+    let bits = bitsByRoom.get(roomId);
+    if (!bits) {
+      bits = await channelPermissionBits(roomId, userId);
+      bitsByRoom.set(roomId, bits);
+    }
+    if (((bits.get(String(r.channel_id)) ?? 0) & CHANNEL_PERMISSIONS.view_channel) !== 0) visible.push(r);
+  }
+  return visible.map(readStatePayload);
+}
+
+// tells every session of the user (other devices included) about the new position and counts
+async function broadcastReadState(userId: string, channelId: string) {
+  const [state] = await loadChannelReadStates(userId, [channelId]);
+  if (state) wsBroadcastUserAll(userId, { type: "read_state_updated", state });
+  return state ?? null;
+}
+
+// every channel of every room I'm in, plus per-room totals
+app.get("/read-states", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const channels = await loadChannelReadStates(me, null);
+  const rooms = new Map<string, { roomId: string; unreadCount: number; mentionCount: number }>();
+  for (const c of channels) {
+    const room = rooms.get(c.roomId) ?? { roomId: c.roomId, unreadCount: 0, mentionCount: 0 };
+    room.unreadCount += c.unreadCount;
+    room.mentionCount += c.mentionCount;
+    rooms.set(c.roomId, room);
+  }
+  res.json({ channels, rooms: [...rooms.values()] });
+});
+
+async function loadChannelForReadState(req: express.Request, res: express.Response) {
+  const me = (req as any).userId as string;
+  const channelId = String(req.params.channelId || "");
+  const ch = await pool.query(`SELECT room_id FROM channels WHERE id=$1`, [channelId]);
+  if ((ch.rowCount ?? 0) === 0) {
+    res.status(404).json({ error: "channel_not_found" });
+    return null;
+  }
+  const roomId = String(ch.rows[0].room_id);
+  if (!(await assertNotBannedFromRoom(roomId, me, res))) return null;
+  if (!(await assertRoomMember(roomId, me, res))) return null;
+  if (!(await assertChannelPermission(roomId, channelId, me, "view_channel", res))) return null;
+
+  const messageId = req.body?.messageId;
+  if (messageId != null && typeof messageId !== "string") {
+    res.status(400).json({ error: "messageId_must_be_string" });
+    return null;
+  }
+  if (messageId) {
+    const m = await pool.query(`SELECT 1 FROM messages WHERE id=$1 AND channel_id=$2 AND thread_id IS NULL`, [
+      messageId,
+      channelId,
+    ]);
+    if ((m.rowCount ?? 0) === 0) {
+      res.status(404).json({ error: "message_not_found" });
+      return null;
+    }
+  }
+  return { me, channelId, messageId: messageId ? String(messageId) : null };
+}
+
+// mark read up to messageId (default: the latest message). Never moves the position back.
+app.post(
+  "/channels/:channelId/ack",
+  requireAuth,
+  rateLimit("read_ack", rateKeyByUserOrIp),
+  async (req, res) => {
+    const ctx = await loadChannelForReadState(req, res);
+    if (!ctx) return;
+    let targetId = ctx.messageId;
+    if (!targetId) {
+      const latest = await pool.query(
+        `SELECT id FROM messages
+         WHERE channel_id=$1 AND thread_id IS NULL
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [ctx.channelId]
+      );
+      targetId = latest.rows[0]?.id ?? null;
+    }
+
+    // timestamps stay in SQL: JS dates would drop the microseconds and leave the message itself unread
+    const upd = await pool.query(
+      `INSERT INTO channel_read_states (user_id, channel_id, last_read_message_id, last_read_at)
+       VALUES ($1, $2, $3, COALESCE((SELECT created_at FROM messages WHERE id = $3), now()))
+       ON CONFLICT (user_id, channel_id) DO UPDATE SET
+         last_read_message_id = EXCLUDED.last_read_message_id,
+         last_read_at = EXCLUDED.last_read_at,
+         updated_at = now()
+       WHERE channel_read_states.last_read_at < EXCLUDED.last_read_at`,
+      [ctx.me, ctx.channelId, targetId]
+    );
+    const state =
+      (upd.rowCount ?? 0) > 0
+        ? await broadcastReadState(ctx.me, ctx.channelId)
+        : ((await loadChannelReadStates(ctx.me, [ctx.channelId]))[0] ?? null);
+    res.json({ state });
+  }
+);
+
+// "mark unread from here": the message and everything after it become unread again
+app.post(
+  "/channels/:channelId/unread",
+  requireAuth,
+  rateLimit("read_ack", rateKeyByUserOrIp),
+  async (req, res) => {
+    const ctx = await loadChannelForReadState(req, res);
+    if (!ctx) return;
+    if (!ctx.messageId) return res.status(400).json({ error: "messageId_required" });
+
+    // read up to just before the message (the previous one's id, if any)
+    await pool.query(
+      `WITH target AS (SELECT created_at FROM messages WHERE id = $3)
+       INSERT INTO channel_read_states (user_id, channel_id, last_read_message_id, last_read_at)
+       SELECT $1, $2
+            , (SELECT m.id FROM messages m
+               WHERE m.channel_id = $2 AND m.thread_id IS NULL AND m.created_at < target.created_at
+               ORDER BY m.created_at DESC
+               LIMIT 1)
+            , target.created_at - interval '1 microsecond'
+       FROM target
+       ON CONFLICT (user_id, channel_id) DO UPDATE SET
+         last_read_message_id = EXCLUDED.last_read_message_id,
+         last_read_at = EXCLUDED.last_read_at,
+         updated_at = now()`,
+      [ctx.me, ctx.channelId, ctx.messageId]
+    );
+    res.json({ state: await broadcastReadState(ctx.me, ctx.channelId) });
+  }
+);
+
+// room channel activity (for unread)
+app.get("/rooms/:roomId/channels/activity", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+
+  const room = await pool.query(`SELECT id FROM rooms WHERE id=$1`, [roomId]);
+  if (room.rowCount === 0) return res.status(404).json({ error: "room_not_found" });
+
+  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (!(await assertRoomMember(roomId, me, res))) return;
+
+  const { rows } = await pool.query(
+    `SELECT c.id AS channel_id, MAX(m.created_at) AS last_message_at
+     FROM channels c
+     LEFT JOIN messages m ON m.channel_id = c.id AND m.thread_id IS NULL
+     WHERE c.room_id=$1
+     GROUP BY c.id`,
+    [roomId]
+  );
+  const channelBits = await channelPermissionBits(roomId, me);
+
+  res.json(
+    rows
+      .filter((r) => (channelBits.get(String(r.channel_id)) ?? 0) !== 0)
+      .map((r) => ({
+        channelId: String(r.channel_id),
+        lastMessageAt: r.last_message_at ? String(r.last_message_at) : null,
+      }))
+  );
+});
+
+// list messages
 app.get("/channels/:channelId/messages", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  const channelId = req.params.channelId;
+  const channelId = String(req.params.channelId || "");
+
+  const ch = await pool.query(`SELECT id, room_id FROM channels WHERE id=$1`, [channelId]);
+  if (ch.rowCount === 0) return res.status(404).json({ error: "channel_not_found" });
+  const roomId = String(ch.rows?.[0]?.room_id || "");
+  if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+  if (roomId && !(await assertChannelPermission(roomId, channelId, me, "view_channel", res))) return;
+
+  await sendMessagePage(req, res, { channelId, roomId, threadId: null });
+});
+
+// One page of a channel's messages (threadId null) or of a thread's, oldest first. Access is checked by the caller.
+async function sendMessagePage(
+  req: express.Request,
+  res: express.Response,
+  where: { channelId: string; roomId: string; threadId: string | null }
+) {
+  const limitRaw = req.query.limit;
+  const limit = Math.min(200, Math.max(1, Number(limitRaw ?? 50) || 50));
+  const beforeRaw = req.query.before;
+  const before = typeof beforeRaw === "string" && beforeRaw.trim() ? beforeRaw.trim() : null;
+  if (before) {
+    const t = Date.parse(before);
+    if (!Number.isFinite(t)) return res.status(400).json({ error: "before_invalid" });
+  }
+
+  const viewer = await authedUserId(req);
+
+  const { rows: rawRows } = await pool.query(
+    `SELECT ${messageColumns("$3")}
+     FROM messages m
+     LEFT JOIN users u ON u.id = COALESCE(m.author_id, m.author)
+     WHERE m.channel_id=$1
+       AND ${where.threadId ? "m.thread_id = $5" : "m.thread_id IS NULL"}
+       AND ($4::timestamptz IS NULL OR m.created_at < $4::timestamptz)
+     ORDER BY m.created_at DESC
+     LIMIT $2 + 1`,
+    where.threadId
+      ? [where.channelId, limit, where.roomId, before, where.threadId]
+      : [where.channelId, limit, where.roomId, before]
+  );
+
+  const hasMore = rawRows.length > limit;
+  const rows = (hasMore ? rawRows.slice(0, limit) : rawRows).reverse();
+
+  res.json({ items: await buildMessagePayloads(rows, viewer), hasMore });
+}
+
+// columns of FROM messages m LEFT JOIN users u (author); roomParam = placeholder of the room id (ban flag)
+function messageColumns(roomParam: string) {
+  return `m.id, m.channel_id, m.thread_id
+            , COALESCE(m.author_id, m.author) AS author_id
+            , COALESCE(m.author_name, m.author) AS author_name
+            , m.author
+            , m.content, m.created_at, m.edited_at
+            , m.reply_to, m.pinned_at
+            , (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS author_has_avatar
+            , EXISTS (
+                SELECT 1
+                FROM room_bans b
+                WHERE b.room_id = ${roomParam}
+                  AND b.user_id = COALESCE(m.author_id, m.author)
+              ) AS author_is_banned`;
+}
+
+async function buildMessagePayloads(rows: any[], viewer: string | null) {
+  const messageIds = rows.map((r) => r.id);
+  const replyIds = rows.map((r) => r.reply_to).filter(Boolean);
+
+  const repliesById: Record<string, { id: string; author: string; content: string }> = {};
+  if (replyIds.length > 0) {
+    const replyRows = await pool.query(
+      `SELECT id, COALESCE(author_name, author) AS author, content
+       FROM messages
+       WHERE id = ANY($1::text[])`,
+      [replyIds]
+    );
+    for (const r of replyRows.rows) {
+      repliesById[r.id] = { id: r.id, author: r.author, content: r.content };
+    }
+  }
+
+  const attachmentsByMessage = await loadAttachmentMetas(messageIds);
+
+  const reactionsByMessage: Record<
+    string,
+    Record<string, { emoji: string; count: number; byMe: boolean }>
+  > = {};
+  if (messageIds.length > 0) {
+    const r = await pool.query(
+      `SELECT message_id, emoji, author
+       FROM message_reactions
+       WHERE message_id = ANY($1::text[])`,
+      [messageIds]
+    );
+    for (const row of r.rows) {
+      const byEmoji = (reactionsByMessage[row.message_id] ||= {});
+      const item = (byEmoji[row.emoji] ||= { emoji: row.emoji, count: 0, byMe: false });
+      item.count += 1;
+      if (viewer && row.author === viewer) item.byMe = true;
+    }
+  }
+
+  const pollsByMessageId = await buildPollsByMessageIds(messageIds, viewer);
+
+  const threadsByParent: Record<string, ReturnType<typeof threadPayload>> = {};
+  if (messageIds.length > 0) {
+    const t = await pool.query(`SELECT * FROM threads WHERE parent_message_id = ANY($1::text[])`, [messageIds]);
+    for (const row of t.rows) threadsByParent[String(row.parent_message_id)] = threadPayload(row);
+  }
+
+  return rows.map((m) => ({
+    id: m.id,
+    channel_id: m.channel_id,
+    thread_id: m.thread_id ?? null,
+    author_id: m.author_id,
+    author: m.author_name,
+    author_has_avatar: !!m.author_has_avatar,
+    author_is_banned: !!m.author_is_banned,
+    content: m.content,
+    created_at: m.created_at,
+    edited_at: m.edited_at ?? null,
+    pinned_at: m.pinned_at ?? null,
+    reply_to: m.reply_to ?? null,
+    reply: m.reply_to ? repliesById[m.reply_to] ?? null : null,
+    attachments: attachmentsByMessage[m.id] ?? [],
+    reactions: Object.values(reactionsByMessage[m.id] ?? {}),
+    poll: pollsByMessageId[m.id] ?? null,
+    thread: threadsByParent[m.id] ?? null,
+  }));
+}
+
+// create message
+app.post(
+  "/channels/:channelId/messages",
+  requireAuth,
+  rateLimit("message_create", rateKeyByUserOrIp),
+  async (req, res) => {
+    const channelId = String(req.params.channelId || "");
+    if (!channelId) return res.status(400).json({ error: "channelId_required" });
+    await createMessage(req, res, channelId, null);
+  }
+);
+
+// Posts to a channel, or to one of its threads (threadId). Slow mode only applies to the channel itself;
+// posting in an archived thread reopens it.
+async function createMessage(req: express.Request, res: express.Response, channelId: string, threadId: string | null) {
+  const ch = await pool.query(`SELECT id, room_id, slowmode_seconds FROM channels WHERE id=$1`, [channelId]);
+  if (ch.rowCount === 0) return res.status(404).json({ error: "channel_not_found" });
+  const roomId = String(ch.rows?.[0]?.room_id || "");
+
+  const authorId = (req as any).userId as string;
+  if (roomId && !(await assertNotBannedFromRoom(roomId, authorId, res))) return;
+  if (roomId && !(await assertRoomMember(roomId, authorId, res))) return;
+  const channelBits = roomId
+    ? ((await channelPermissionBits(roomId, authorId, channelId)).get(channelId) ?? 0)
+    : ALL_CHANNEL_PERMISSIONS;
+  if (!(channelBits & CHANNEL_PERMISSIONS.send_messages)) {
+    return res.status(403).json({ error: "missing_permission", permission: "send_messages" });
+  }
+  const u = await pool.query(`SELECT display_name FROM users WHERE id=$1`, [authorId]);
+  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+  const authorName = String(u.rows[0].display_name || authorId);
+
+  const replyTo = req.body?.replyTo;
+  if (replyTo != null && typeof replyTo !== "string") {
+    return res.status(400).json({ error: "replyTo_must_be_string_or_null" });
+  }
+
+  const attachmentsRaw = req.body?.attachments;
+  const attachments: Array<{ mime_type: string; data: Buffer }> = [];
+  // uploaded via POST /uploads (preferred); dataUrl is still accepted from older clients
+  const uploadIds: string[] = [];
+  if (attachmentsRaw != null) {
+    if (!Array.isArray(attachmentsRaw)) return res.status(400).json({ error: "attachments_must_be_array" });
+    if (attachmentsRaw.length > 1) return res.status(400).json({ error: "attachments_too_many" });
+    for (const a of attachmentsRaw) {
+      if (typeof a !== "object" || a == null) return res.status(400).json({ error: "attachment_invalid" });
+      const uploadId = (a as any).uploadId;
+      if (typeof uploadId === "string" && uploadId) {
+        uploadIds.push(uploadId);
+        continue;
+      }
+      const dataUrl = (a as any).dataUrl;
+      if (typeof dataUrl !== "string") return res.status(400).json({ error: "attachment_dataUrl_required" });
+      const parsed = parseDataUrlAttachmentDetailed(dataUrl);
+      if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+      if (parsed.bytes.length > 10 * 1024 * 1024) return res.status(400).json({ error: "attachment_too_large" });
+
+      // transcode etc. happen in the attachment_process job
+      attachments.push({ mime_type: parsed.mime, data: parsed.bytes });
+    }
+  }
+
+  // content: 文字列自体は必須（型チェック）、ただし添付がある場合は空でもOK
+  if (typeof req.body?.content !== "string") {
+    return res.status(400).json({ error: "content_must_be_string" });
+  }
+  const content = String(req.body.content).trim();
+  if (attachments.length === 0 && uploadIds.length === 0) {
+    if (!content) return res.status(400).json({ error: "content_required" });
+  } else if (!(channelBits & CHANNEL_PERMISSIONS.attach_files)) {
+    return res.status(403).json({ error: "missing_permission", permission: "attach_files" });
+  }
+  if (content.length > 2000) return res.status(400).json({ error: "content_too_long" });
+
+  const mentions = roomId ? await resolveMentions(roomId, channelId, authorId, content) : new Map<string, MentionKind>();
+
+  const id = randomUUID();
+
+  // bytes go to the blob store first; the rows only reference them
+  const stored: Array<{ id: string; mime_type: string; key: string }> = [];
+  try {
+    for (const a of attachments) {
+      const aid = randomUUID();
+      const key = `attachments/${aid}`;
+      await blobStore.put(key, a.data, a.mime_type);
+      stored.push({ id: aid, mime_type: a.mime_type, key });
+    }
+  } catch (e) {
+    for (const a of stored) discardBlob(a.key);
+    throw e;
+  }
+
+  let thread: QueryResult | null = null;
+  const attachmentIds: string[] = [];
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    if (typeof replyTo === "string") {
+      const parent = await client.query(
+        `SELECT id FROM messages WHERE id=$1 AND channel_id=$2 AND thread_id IS NOT DISTINCT FROM $3`,
+        [replyTo, channelId, threadId]
+      );
+      if (parent.rowCount === 0) {
+        await client.query("ROLLBACK");
+        for (const a of stored) discardBlob(a.key);
+        return res.status(404).json({ error: "replyTo_not_found" });
+      }
+    }
+
+    await client.query(
+      `INSERT INTO messages (id, channel_id, thread_id, author, author_id, author_name, content, reply_to)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [id, channelId, threadId, authorName, authorId, authorName, content, replyTo ?? null]
+    );
+    thread = threadId
+      ? await client.query(
+          `UPDATE threads SET message_count = message_count + 1, last_message_at = now(), archived_at = NULL
+           WHERE id=$1
+           RETURNING *`,
+          [threadId]
+        )
+      : null;
+
+    for (const a of stored) {
+      await client.query(
+        `INSERT INTO message_attachments (id, message_id, mime_type, storage_key, status)
+         VALUES ($1, $2, $3, $4, 'processing')`,
+        [a.id, id, a.mime_type, a.key]
+      );
+      attachmentIds.push(a.id);
+    }
+    for (const uploadId of uploadIds) {
+      const aid = randomUUID();
+      const claimed = await client.query(
+        `WITH up AS (
+           DELETE FROM uploads WHERE id=$1 AND owner_id=$2 AND kind='attachment' RETURNING mime_type, storage_key
+         )
+         INSERT INTO message_attachments (id, message_id, mime_type, storage_key, status)
+         SELECT $3, $4, mime_type, storage_key, 'processing' FROM up
+         RETURNING mime_type`,
+        [uploadId, authorId, aid, id]
+      );
+      if ((claimed.rowCount ?? 0) === 0) {
+        await client.query("ROLLBACK");
+        for (const a of stored) discardBlob(a.key);
+        return res.status(400).json({ error: "upload_not_found" });
+      }
+      attachmentIds.push(aid);
+    }
+    // claimed last, so a post rejected above doesn't use up the slot; the row stays locked until commit
+    const slowmodeWait =
+      roomId && !threadId
+        ? await claimSlowmodeSlot(roomId, channelId, authorId, Number(ch.rows[0].slowmode_seconds ?? 0), client)
+        : null;
+    if (slowmodeWait !== null) {
+      await client.query("ROLLBACK");
+      for (const a of stored) discardBlob(a.key);
+      res.setHeader("retry-after", String(slowmodeWait));
+      return res.status(429).json({ error: "slowmode", retryAfterSec: slowmodeWait });
+    }
+    for (const aid of attachmentIds) await enqueueJob("attachment_process", { attachmentId: aid }, { db: client });
+
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    for (const a of stored) discardBlob(a.key);
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  // attachments go out as "processing"; channel_attachment_updated follows when the job is done
+  kickJobWorker();
+  const mentionedUserIds = mentions.size > 0 ? await saveMessageMentions(id, mentions) : [];
+  const attachmentMetas = attachmentIds.length > 0 ? ((await loadAttachmentMetas([id]))[id] ?? []) : [];
+
+  let reply: any = null;
+  let replyToAuthorId: string | null = null;
+  if (typeof replyTo === "string") {
+    const r = await pool.query(
+      `SELECT id, COALESCE(author_name, author) AS author, content, COALESCE(author_id, author) AS author_id
+       FROM messages
+       WHERE id=$1`,
+      [replyTo]
+    );
+    if ((r.rowCount ?? 0) > 0) {
+      reply = { id: r.rows[0].id, author: r.rows[0].author, content: r.rows[0].content };
+      replyToAuthorId = String(r.rows[0].author_id);
+    }
+  }
+
+  const avatar = await pool.query(`SELECT (avatar_key IS NOT NULL OR avatar_data IS NOT NULL) AS has FROM users WHERE id=$1`, [authorId]);
+  const authorHasAvatar = !!avatar.rows?.[0]?.has;
+
+  const payload = {
+    id,
+    channel_id: channelId,
+    thread_id: threadId,
+    author_id: authorId,
+    author: authorName,
+    author_has_avatar: authorHasAvatar,
+    content,
+    created_at: new Date().toISOString(),
+    edited_at: null,
+    pinned_at: null,
+    reply_to: replyTo ?? null,
+    reply,
+    attachments: attachmentMetas,
+    reactions: [],
+    poll: null,
+    thread: null,
+  };
+
+  // realtime: broadcast to subscribers of this channel (or thread)
+  wsBroadcastMessageEvent(channelId, threadId, { type: "channel_message_created", channelId, message: payload });
+  if (thread?.rows[0]) {
+    wsBroadcastChannel(channelId, { type: "thread_updated", channelId, thread: threadPayload(thread.rows[0]) });
+  }
+  await notifyMentions(id, mentionedUserIds);
+  if (roomId) {
+    await notifyRoomMessage({
+      id,
+      roomId,
+      channelId,
+      threadId,
+      authorId,
+      authorName,
+      content,
+      mentions,
+      posted: true,
+      replyToAuthorId,
+    });
+  }
+
+  res.status(201).json(payload);
+}
+
+// create poll (creates a message)
+app.post(
+  "/channels/:channelId/polls",
+  requireAuth,
+  rateLimit("poll_create", rateKeyByUserOrIp),
+  async (req, res) => {
+    const channelId = String(req.params.channelId || "");
+    if (!channelId) return res.status(400).json({ error: "channelId_required" });
+
+    const me = (req as any).userId as string;
+
+    const ch = await pool.query(`SELECT id, room_id, slowmode_seconds FROM channels WHERE id=$1`, [channelId]);
+    if (ch.rowCount === 0) return res.status(404).json({ error: "channel_not_found" });
+    const roomId = String(ch.rows?.[0]?.room_id || "");
+    if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
+    if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+    // a poll is a message too
+    if (roomId && !(await assertChannelPermission(roomId, channelId, me, "send_messages", res))) return;
+    if (roomId && !(await assertChannelPermission(roomId, channelId, me, "create_polls", res))) return;
+
+    const questionErr = validatePollQuestion(req.body?.question);
+    if (questionErr) return res.status(400).json({ error: questionErr });
+    const optsErr = validatePollOptions(req.body?.options);
+    if (optsErr) return res.status(400).json({ error: optsErr });
+
+    const question = String(req.body.question).trim();
+    const options = Array.from(
+      new Set((req.body.options as any[]).map((x) => (typeof x === "string" ? x.trim() : "")).filter(Boolean))
+    );
+
+    const u = await pool.query(`SELECT display_name, (avatar_key IS NOT NULL OR avatar_data IS NOT NULL) AS has FROM users WHERE id=$1`, [me]);
+    if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+    const authorName = String(u.rows[0].display_name || me);
+    const authorHasAvatar = !!u.rows?.[0]?.has;
+
+    const messageId = randomUUID();
+    const pollId = randomUUID();
+
+    const optionIds: string[] = [];
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const slowmodeWait = roomId
+        ? await claimSlowmodeSlot(roomId, channelId, me, Number(ch.rows[0].slowmode_seconds ?? 0), client)
+        : null;
+      if (slowmodeWait !== null) {
+        await client.query("ROLLBACK");
+        res.setHeader("retry-after", String(slowmodeWait));
+        return res.status(429).json({ error: "slowmode", retryAfterSec: slowmodeWait });
+      }
+      await client.query(
+        `INSERT INTO messages (id, channel_id, author, author_id, author_name, content)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [messageId, channelId, me, me, authorName, question]
+      );
+      await client.query(
+        `INSERT INTO polls (id, message_id, question, created_by)
+         VALUES ($1, $2, $3, $4)`,
+        [pollId, messageId, question, me]
+      );
+
+      for (let i = 0; i < options.length; i++) {
+        const oid = randomUUID();
+        optionIds.push(oid);
+        await client.query(
+          `INSERT INTO poll_options (id, poll_id, text, position)
+           VALUES ($1, $2, $3, $4)`,
+          [oid, pollId, options[i], i]
+        );
+      }
+
+      await client.query("COMMIT");
+    } catch (e) {
+      await client.query("ROLLBACK").catch(() => {});
+      throw e;
+    } finally {
+      client.release();
+    }
+
+    const pollPayload = {
+      id: pollId,
+      question,
+      options: optionIds.map((id, i) => ({ id, text: options[i], votes: 0, byMe: false })),
+    };
+
+    const payload = {
+      id: messageId,
+      channel_id: channelId,
+      thread_id: null,
+      author_id: me,
+      author: authorName,
+      author_has_avatar: authorHasAvatar,
+      author_is_banned: false,
+      content: question,
+      created_at: new Date().toISOString(),
+      edited_at: null,
+      pinned_at: null,
+      reply_to: null,
+      reply: null,
+      attachments: [],
+      reactions: [],
+      poll: pollPayload,
+      thread: null,
+    };
+
+    wsBroadcastChannel(channelId, { type: "channel_message_created", channelId, message: payload });
+    res.status(201).json(payload);
+  }
+);
+
+// vote poll
+app.post(
+  "/polls/:pollId/vote",
+  requireAuth,
+  rateLimit("poll_vote", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const pollId = String(req.params.pollId || "");
+    if (!pollId) return res.status(400).json({ error: "pollId_required" });
+
+    const optionId = typeof req.body?.optionId === "string" ? String(req.body.optionId) : "";
+    if (!optionId) return res.status(400).json({ error: "optionId_required" });
+
+    const p = await pool.query(
+      `SELECT p.id, p.message_id, m.channel_id, c.room_id
+       FROM polls p
+       JOIN messages m ON m.id = p.message_id
+       JOIN channels c ON c.id = m.channel_id
+       WHERE p.id=$1`,
+      [pollId]
+    );
+    if ((p.rowCount ?? 0) === 0) return res.status(404).json({ error: "poll_not_found" });
+    const messageId = String(p.rows?.[0]?.message_id || "");
+    const channelId = String(p.rows?.[0]?.channel_id || "");
+    const roomId = String(p.rows?.[0]?.room_id || "");
+
+    if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
+    if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+    if (roomId && !(await assertChannelPermission(roomId, channelId, me, "view_channel", res))) return;
+
+    const opt = await pool.query(
+      `SELECT id, text FROM poll_options WHERE id=$1 AND poll_id=$2`,
+      [optionId, pollId]
+    );
+    if ((opt.rowCount ?? 0) === 0) return res.status(404).json({ error: "poll_option_not_found" });
+
+    await pool.query("BEGIN");
+    try {
+      await pool.query(`DELETE FROM poll_votes WHERE poll_id=$1 AND user_id=$2`, [pollId, me]);
+      await pool.query(`INSERT INTO poll_votes (poll_id, user_id, option_id) VALUES ($1, $2, $3)`, [pollId, me, optionId]);
+      await pool.query("COMMIT");
+    } catch (e) {
+      await pool.query("ROLLBACK");
+      throw e;
+    }
+
+    const pollsByMessageId = await buildPollsByMessageIds([messageId], me);
+    const pollPayload = pollsByMessageId[messageId];
+    if (!pollPayload) return res.status(500).json({ error: "poll_build_failed" });
+
+    wsBroadcastChannel(channelId, { type: "poll_updated", channelId, messageId, poll: pollPayload });
+    res.json({ pollId, messageId, poll: pollPayload });
+  }
+);
+
+// --- Uploads ---
+// Files are streamed as the raw request body (no base64 / JSON) and parked in `uploads` until a
+// message, sticker or avatar claims them by uploadId.
+
+type UploadKind = "attachment" | "sticker" | "avatar";
+
+const UPLOAD_LIMITS: Record<UploadKind, number> = {
+  attachment: 10 * 1024 * 1024,
+  sticker: 2_000_000,
+  avatar: 2 * 1024 * 1024,
+};
+const UPLOAD_TTL_MS = 60 * 60 * 1000;
+const UPLOAD_MAX_PENDING = 20;
+
+function isUploadKind(v: string): v is UploadKind {
+  return v === "attachment" || v === "sticker" || v === "avatar";
+}
+
+// Writes the body to `filePath`, enforcing the limit while bytes arrive and sniffing the type from the first 12 bytes.
+async function receiveUploadBody(
+  req: express.Request,
+  filePath: string,
+  opts: { limit: number; declaredMime: string; imagesOnly: boolean }
+): Promise<{ ok: true; mime: string; size: number } | { ok: false; error: "too_large" | "invalid_type" }> {
+  const out = createWriteStream(filePath);
+  let size = 0;
+  let head = Buffer.alloc(0);
+  let mime: string | null = null;
+  let rejected = false;
+  try {
+    for await (const chunk of req as AsyncIterable<Buffer>) {
+      size += chunk.length;
+      // stops reading; the connection is dropped since the rest of the body is never consumed
+      if (size > opts.limit) return { ok: false, error: "too_large" };
+      // keep draining (within the limit) so the client still gets a proper error response
+      if (rejected) continue;
+      if (!mime) {
+        head = Buffer.concat([head, chunk.subarray(0, 12)]).subarray(0, 12);
+        if (head.length >= 12) {
+          mime = detectAttachmentMime(head, opts.declaredMime);
+          if (!mime || (opts.imagesOnly && !mime.startsWith("image/"))) {
+            rejected = true;
+            continue;
+          }
+        }
+      }
+      if (!out.write(chunk)) await once(out, "drain");
+    }
+  } finally {
+    out.end();
+    await finished(out).catch(() => {});
+  }
+  if (rejected || !mime) return { ok: false, error: "invalid_type" };
+  return { ok: true, mime, size };
+}
+
+// Unclaimed uploads expire; their blobs go through the normal blob_deletions sweep.
+async function sweepExpiredUploads() {
+  await pool.query(
+    `WITH expired AS (
+       DELETE FROM uploads WHERE created_at < now() - ($1::int * interval '1 millisecond') RETURNING storage_key
+     )
+     INSERT INTO blob_deletions (storage_key) SELECT storage_key FROM expired ON CONFLICT DO NOTHING`,
+    [UPLOAD_TTL_MS]
+  );
+}
+
+// upload a file: raw body, content-type = the file's type, ?kind=attachment|sticker|avatar
+app.post(
+  "/uploads",
+  requireAuth,
+  rateLimit("uploads_create", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const kind = String(req.query.kind ?? "attachment");
+    if (!isUploadKind(kind)) return res.status(400).json({ error: "upload_kind_invalid" });
+    const limit = UPLOAD_LIMITS[kind];
+
+    // reject before reading the body when the client already told us
+    const declaredLength = Number(req.headers["content-length"]);
+    if (Number.isFinite(declaredLength) && declaredLength > limit) {
+      res.setHeader("connection", "close");
+      return res.status(413).json({ error: `${kind}_too_large` });
+    }
+    const declaredMime = String(req.headers["content-type"] ?? "").split(";")[0]!.trim().toLowerCase();
+    const imagesOnly = kind !== "attachment";
+    if (!/^image\/(png|jpe?g|pjpeg|gif|webp)$/.test(declaredMime) && (imagesOnly || declaredMime !== "video/mp4")) {
+      res.setHeader("connection", "close");
+      return res.status(400).json({ error: "upload_invalid_type" });
+    }
+
+    const pending = await pool.query(`SELECT COUNT(*)::int AS n FROM uploads WHERE owner_id=$1`, [me]);
+    if (Number(pending.rows?.[0]?.n ?? 0) >= UPLOAD_MAX_PENDING) {
+      res.setHeader("connection", "close");
+      return res.status(429).json({ error: "uploads_too_many_pending" });
+    }
+
+    const id = randomUUID();
+    const tmp = join(tmpdir(), `yuiroom-upload-${id}`);
+    try {
+      const received = await receiveUploadBody(req, tmp, { limit, declaredMime, imagesOnly });
+      if (!received.ok) {
+        res.setHeader("connection", "close");
+        if (received.error === "too_large") return res.status(413).json({ error: `${kind}_too_large` });
+        return res.status(400).json({ error: "upload_invalid_type" });
+      }
+
+      // MP4s are transcoded later by the attachment_process job, once a message references them
+      const key = `uploads/${id}`;
+      const size = received.size;
+      await blobStore.putFile(key, tmp, received.mime);
+
+      try {
+        await pool.query(
+          `INSERT INTO uploads (id, owner_id, kind, mime_type, size_bytes, storage_key)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [id, me, kind, received.mime, size, key]
+        );
+      } catch (e) {
+        discardBlob(key);
+        throw e;
+      }
+      res.status(201).json({ id, kind, mimeType: received.mime, size });
+    } finally {
+      await rm(tmp, { force: true });
+    }
+  }
+);
+
+// Looks up an attachment and checks that `me` may see it; responds with 403/404 itself and returns null otherwise.
+async function loadAttachmentForViewer(attachmentId: string, me: string, res: express.Response) {
+  const a = await pool.query(
+    `SELECT a.id, a.mime_type, a.storage_key, m.channel_id, c.room_id
+     FROM message_attachments a
+     JOIN messages m ON m.id = a.message_id
+     JOIN channels c ON c.id = m.channel_id
+     WHERE a.id=$1`,
+    [attachmentId]
+  );
+  if (a.rowCount === 0) {
+    res.status(404).json({ error: "attachment_not_found" });
+    return null;
+  }
+  const roomId = String(a.rows?.[0]?.room_id || "");
+  if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return null;
+  if (roomId && !(await assertRoomMember(roomId, me, res))) return null;
+  if (roomId && !(await assertChannelPermission(roomId, String(a.rows[0].channel_id), me, "view_channel", res))) return null;
+  return {
+    mime: String(a.rows[0].mime_type || "application/octet-stream"),
+    key: a.rows[0].storage_key ? String(a.rows[0].storage_key) : null,
+  };
+}
+
+// get attachment binary (Authorization header, or a signed URL from /attachments/:attachmentId/url)
+app.get(
+  "/attachments/:attachmentId",
+  requireAuthOrSignedUrl,
+  rateLimit("attachment_get", rateKeyByUserOrIp),
+  async (req, res) => {
+  const me = (req as any).userId as string;
+  const attachmentId = String(req.params.attachmentId || "");
+  const a = await loadAttachmentForViewer(attachmentId, me, res);
+  if (!a) return;
+  // rows not yet moved out by blobs:migrate
+  let data: Buffer | null = null;
+  if (!a.key) {
+    const r = await pool.query(`SELECT data FROM message_attachments WHERE id=$1`, [attachmentId]);
+    data = (r.rows?.[0]?.data as Buffer | null) ?? null;
+  }
 
-  const ch = await pool.query(`SELECT id, room_id FROM channels WHERE id=$1`, [channelId]);
-  if (ch.rowCount === 0) return res.status(404).json({ error: "channel_not_found" });
-  const roomId = String(ch.rows?.[0]?.room_id || "");
-  if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
-  if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+  // revalidated via ETag; signed URLs change every time they're issued, so no long-lived caching here
+  res.setHeader("cache-control", "private, no-cache");
+  res.setHeader("content-disposition", "inline");
+  res.setHeader("content-type", a.mime);
+  await sendBlob(req, res, { key: a.key, data }, { notFound: "attachment_not_found" });
+  }
+);
+
+// WebP thumbnails / MP4 poster frames generated at message creation (widths are listed in the message payload)
+async function sendAttachmentVariant(
+  req: express.Request,
+  res: express.Response,
+  kind: "thumbnail" | "poster",
+  width: number | null
+) {
+  const me = (req as any).userId as string;
+  const attachmentId = String(req.params.attachmentId || "");
+  const a = await loadAttachmentForViewer(attachmentId, me, res);
+  if (!a) return;
+  const v = await pool.query(
+    `SELECT mime_type, storage_key
+     FROM attachment_variants
+     WHERE attachment_id=$1 AND kind=$2 AND ($3::int IS NULL OR width=$3::int)`,
+    [attachmentId, kind, width]
+  );
+  if ((v.rowCount ?? 0) === 0) return res.status(404).json({ error: `${kind}_not_found` });
+
+  // generated once per attachment and never rewritten
+  res.setHeader("cache-control", "private, max-age=31536000, immutable");
+  res.setHeader("content-type", String(v.rows[0].mime_type));
+  await sendBlob(req, res, { key: String(v.rows[0].storage_key), data: null }, { notFound: `${kind}_not_found` });
+}
+
+app.get(
+  "/attachments/:attachmentId/thumbnails/:width",
+  requireAuth,
+  rateLimit("attachment_preview_get", rateKeyByUserOrIp),
+  async (req, res) => {
+    const width = Number(req.params.width);
+    if (!Number.isInteger(width) || width <= 0) return res.status(400).json({ error: "width_invalid" });
+    await sendAttachmentVariant(req, res, "thumbnail", width);
+  }
+);
+
+app.get(
+  "/attachments/:attachmentId/poster",
+  requireAuth,
+  rateLimit("attachment_preview_get", rateKeyByUserOrIp),
+  async (req, res) => {
+    await sendAttachmentVariant(req, res, "poster", null);
+  }
+);
+
+// short-lived URL for <video src> / direct download without the Authorization header
+app.get(
+  "/attachments/:attachmentId/url",
+  requireAuth,
+  rateLimit("attachment_url", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const attachmentId = String(req.params.attachmentId || "");
+    const a = await loadAttachmentForViewer(attachmentId, me, res);
+    if (!a) return;
+    res.setHeader("cache-control", "no-store");
+    res.json(signMediaPath(`/attachments/${encodeURIComponent(attachmentId)}`, me));
+  }
+);
+
+// toggle reaction
+app.post(
+  "/messages/:messageId/reactions/toggle",
+  requireAuth,
+  rateLimit("reaction_toggle", rateKeyByUserOrIp),
+  async (req, res) => {
+  const messageId = req.params.messageId;
+
+  const author = (req as any).userId as string;
+
+  const msg = await pool.query(
+    `SELECT m.id, m.channel_id, m.thread_id, c.room_id
+     FROM messages m
+     JOIN channels c ON c.id = m.channel_id
+     WHERE m.id=$1`,
+    [messageId]
+  );
+  if (msg.rowCount === 0) return res.status(404).json({ error: "message_not_found" });
+  const channelId = String(msg.rows?.[0]?.channel_id || "");
+  const threadId: string | null = msg.rows?.[0]?.thread_id ?? null;
+  const roomId = String(msg.rows?.[0]?.room_id || "");
+  if (roomId && !(await assertNotBannedFromRoom(roomId, author, res))) return;
+  if (roomId && !(await assertRoomMember(roomId, author, res))) return;
+  const channelBits = roomId
+    ? ((await channelPermissionBits(roomId, author, channelId)).get(channelId) ?? 0)
+    : ALL_CHANNEL_PERMISSIONS;
+  if (!(channelBits & CHANNEL_PERMISSIONS.view_channel)) {
+    return res.status(403).json({ error: "missing_permission", permission: "view_channel" });
+  }
+
+  const emojiErr = validateEmoji(req.body?.emoji);
+  if (emojiErr) return res.status(400).json({ error: emojiErr });
+
+  const emoji = String(req.body.emoji).trim();
+
+  const existing = await pool.query(
+    `SELECT id FROM message_reactions WHERE message_id=$1 AND author=$2 AND emoji=$3`,
+    [messageId, author, emoji]
+  );
+
+  if ((existing.rowCount ?? 0) > 0) {
+    await pool.query(
+      `DELETE FROM message_reactions WHERE message_id=$1 AND author=$2 AND emoji=$3`,
+      [messageId, author, emoji]
+    );
+  } else {
+    // taking your own reaction back stays possible without add_reactions
+    if (!(channelBits & CHANNEL_PERMISSIONS.add_reactions)) {
+      return res.status(403).json({ error: "missing_permission", permission: "add_reactions" });
+    }
+    if (emoji.startsWith("sticker:")) {
+      const stickerId = emoji.slice("sticker:".length);
+      const s = await pool.query(`SELECT 1 FROM stickers WHERE id=$1`, [stickerId]);
+      if ((s.rowCount ?? 0) === 0) return res.status(404).json({ error: "sticker_not_found" });
+    }
+    await pool.query(
+      `INSERT INTO message_reactions (id, message_id, author, emoji)
+       VALUES ($1, $2, $3, $4)`,
+      [randomUUID(), messageId, author, emoji]
+    );
+  }
+
+  const r = await pool.query(
+    `SELECT emoji, author FROM message_reactions WHERE message_id=$1`,
+    [messageId]
+  );
+  const byEmoji: Record<string, { emoji: string; count: number; byMe: boolean }> = {};
+  for (const row of r.rows) {
+    const item = (byEmoji[row.emoji] ||= { emoji: row.emoji, count: 0, byMe: false });
+    item.count += 1;
+    if (row.author === author) item.byMe = true;
+  }
 
-  const limitRaw = req.query.limit;
-  const limit = Math.min(200, Math.max(1, Number(limitRaw ?? 50) || 50));
-  const beforeRaw = req.query.before;
-  const before = typeof beforeRaw === "string" && beforeRaw.trim() ? beforeRaw.trim() : null;
-  if (before) {
-    const t = Date.parse(before);
-    if (!Number.isFinite(t)) return res.status(400).json({ error: "before_invalid" });
+  if (channelId) {
+    wsBroadcastMessageEvent(channelId, threadId, {
+      type: "message_reactions_updated",
+      channelId,
+      messageId,
+      reactions: Object.values(byEmoji),
+    });
   }
 
-  const viewer = authedUserId(req);
+  res.json({ messageId, reactions: Object.values(byEmoji) });
+  }
+);
 
-  const { rows: rawRows } = await pool.query(
-    `SELECT m.id, m.channel_id
+// edit message (author or room owner)
+app.patch(
+  "/messages/:messageId",
+  requireAuth,
+  rateLimit("message_edit", rateKeyByUserOrIp),
+  async (req, res) => {
+  const me = (req as any).userId as string;
+  const messageId = String(req.params.messageId || "");
+  if (!messageId) return res.status(400).json({ error: "messageId_required" });
+
+  if (typeof req.body?.content !== "string") return res.status(400).json({ error: "content_must_be_string" });
+  const content = String(req.body.content).trim();
+  if (!content) return res.status(400).json({ error: "content_required" });
+  if (content.length > 2000) return res.status(400).json({ error: "content_too_long" });
+
+  const msg = await pool.query(
+    `SELECT m.id, m.channel_id, m.thread_id, c.room_id
             , COALESCE(m.author_id, m.author) AS author_id
-            , COALESCE(m.author_name, m.author) AS author_name
-            , m.author
-            , m.content, m.created_at, m.edited_at
-            , m.reply_to
-            , (u.avatar_data IS NOT NULL) AS author_has_avatar
-            , EXISTS (
-                SELECT 1
-                FROM room_bans b
-                WHERE b.room_id = $3
-                  AND b.user_id = COALESCE(m.author_id, m.author)
-              ) AS author_is_banned
+            , r.owner_id
      FROM messages m
-     LEFT JOIN users u ON u.id = COALESCE(m.author_id, m.author)
-     WHERE m.channel_id=$1
-       AND ($4::timestamptz IS NULL OR m.created_at < $4::timestamptz)
-     ORDER BY m.created_at DESC
-     LIMIT $2 + 1`,
-    [channelId, limit, roomId, before]
+     JOIN channels c ON c.id = m.channel_id
+     JOIN rooms r ON r.id = c.room_id
+     WHERE m.id=$1`,
+    [messageId]
   );
+  if (msg.rowCount === 0) return res.status(404).json({ error: "message_not_found" });
 
-  const hasMore = rawRows.length > limit;
-  const rows = (hasMore ? rawRows.slice(0, limit) : rawRows).reverse();
+  const channelId = String(msg.rows?.[0]?.channel_id || "");
+  const roomId = String(msg.rows?.[0]?.room_id || "");
+  const authorId = String(msg.rows?.[0]?.author_id || "");
+  const ownerId = msg.rows?.[0]?.owner_id ? String(msg.rows[0].owner_id) : null;
 
-  const messageIds = rows.map((r) => r.id);
-  const replyIds = rows.map((r) => r.reply_to).filter(Boolean);
+  if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+  if (roomId && !(await assertChannelPermission(roomId, channelId, me, "view_channel", res))) return;
 
-  const repliesById: Record<string, { id: string; author: string; content: string }> = {};
-  if (replyIds.length > 0) {
-    const replyRows = await pool.query(
-      `SELECT id, COALESCE(author_name, author) AS author, content
-       FROM messages
-       WHERE id = ANY($1::text[])`,
-      [replyIds]
-    );
-    for (const r of replyRows.rows) {
-      repliesById[r.id] = { id: r.id, author: r.author, content: r.content };
-    }
-  }
+  const canEdit = me === authorId || (ownerId && ownerId === me);
+  if (!canEdit) return res.status(403).json({ error: "forbidden" });
 
-  const attachmentsByMessage: Record<string, Array<{ id: string; mime_type: string }>> = {};
-  if (messageIds.length > 0) {
-    const a = await pool.query(
-      `SELECT id, message_id, mime_type
-       FROM message_attachments
-       WHERE message_id = ANY($1::text[])
-       ORDER BY created_at ASC`,
-      [messageIds]
-    );
-    for (const row of a.rows) {
-      (attachmentsByMessage[row.message_id] ||= []).push({ id: row.id, mime_type: row.mime_type });
-    }
-  }
+  const upd = await pool.query(
+    `UPDATE messages SET content=$2, edited_at=now() WHERE id=$1 RETURNING edited_at`,
+    [messageId, content]
+  );
+  const editedAt = upd.rows?.[0]?.edited_at ?? null;
 
-  const reactionsByMessage: Record<
-    string,
-    Record<string, { emoji: string; count: number; byMe: boolean }>
-  > = {};
-  if (messageIds.length > 0) {
-    const r = await pool.query(
-      `SELECT message_id, emoji, author
-       FROM message_reactions
-       WHERE message_id = ANY($1::text[])`,
-      [messageIds]
+  // new "@<userId>" mentions are notified; @everyone / @here only count when the message is posted
+  let mentionedUserIds: string[] = [];
+  if (roomId) {
+    const mentions = await resolveMentions(roomId, channelId, authorId, content, null);
+    const tokens = parseMentionTokens(content);
+    const prev = await pool.query(
+      `SELECT user_id, kind FROM message_mentions WHERE message_id=$1 AND kind <> 'user'`,
+      [messageId]
     );
-    for (const row of r.rows) {
-      const byEmoji = (reactionsByMessage[row.message_id] ||= {});
-      const item = (byEmoji[row.emoji] ||= { emoji: row.emoji, count: 0, byMe: false });
-      item.count += 1;
-      if (viewer && row.author === viewer) item.byMe = true;
+    // kept while the token is still in the text
+    for (const r of prev.rows) {
+      const kind = r.kind as MentionKind;
+      const stillThere = kind === "everyone" ? tokens.everyone : tokens.here;
+      if (stillThere && !mentions.has(String(r.user_id))) mentions.set(String(r.user_id), kind);
     }
+    mentionedUserIds = await saveMessageMentions(messageId, mentions);
   }
 
-  const pollsByMessageId = await buildPollsByMessageIds(messageIds, viewer);
+  if (roomId) {
+    void writeAuditLog({
+      roomId,
+      actorId: me,
+      action: "message_edit",
+      targetType: "message",
+      targetId: messageId,
+      meta: { channelId, authorId, byOwner: !!(ownerId && ownerId === me && me !== authorId) },
+    });
+  }
 
-  res.json({
-    items: rows.map((m) => ({
-      id: m.id,
-      channel_id: m.channel_id,
-      author_id: m.author_id,
-      author: m.author_name,
-      author_has_avatar: !!m.author_has_avatar,
-      author_is_banned: !!m.author_is_banned,
-      content: m.content,
-      created_at: m.created_at,
-      edited_at: m.edited_at ?? null,
-      reply_to: m.reply_to ?? null,
-      reply: m.reply_to ? repliesById[m.reply_to] ?? null : null,
-      attachments: attachmentsByMessage[m.id] ?? [],
-      reactions: Object.values(reactionsByMessage[m.id] ?? {}),
-      poll: pollsByMessageId[m.id] ?? null,
-    })),
-    hasMore,
+  wsBroadcastMessageEvent(channelId, msg.rows[0].thread_id ?? null, {
+    type: "channel_message_updated",
+    channelId,
+    messageId,
+    content,
+    edited_at: editedAt,
   });
-});
+  await notifyMentions(messageId, mentionedUserIds);
+  if (roomId && mentionedUserIds.length > 0) {
+    const author = await pool.query(`SELECT COALESCE(author_name, author) AS name FROM messages WHERE id=$1`, [messageId]);
+    // only "@<userId>" can be new after an edit
+    await notifyRoomMessage({
+      id: messageId,
+      roomId,
+      channelId,
+      threadId: msg.rows[0].thread_id ?? null,
+      authorId,
+      authorName: String(author.rows[0]?.name ?? authorId),
+      content,
+      mentions: new Map(mentionedUserIds.map((u) => [u, "user" as const])),
+      posted: false,
+    });
+  }
+  res.json({ ok: true, messageId, content, edited_at: editedAt });
+  }
+);
 
-// create message
-app.post(
-  "/channels/:channelId/messages",
+// delete message (author or delete_messages)
+app.delete(
+  "/messages/:messageId",
   requireAuth,
-  rateLimit({ name: "message_create", windowMs: 10_000, max: 20, key: rateKeyByUserOrIp }),
+  rateLimit("message_delete", rateKeyByUserOrIp),
   async (req, res) => {
+  const me = (req as any).userId as string;
+  const messageId = String(req.params.messageId || "");
+  if (!messageId) return res.status(400).json({ error: "messageId_required" });
+
+  const msg = await pool.query(
+    `SELECT m.id, m.channel_id, m.thread_id, c.room_id
+            , COALESCE(m.author_id, m.author) AS author_id
+     FROM messages m
+     JOIN channels c ON c.id = m.channel_id
+     WHERE m.id=$1`,
+    [messageId]
+  );
+  if (msg.rowCount === 0) return res.status(404).json({ error: "message_not_found" });
+
+  const channelId = String(msg.rows?.[0]?.channel_id || "");
+  const roomId = String(msg.rows?.[0]?.room_id || "");
+  const authorId = String(msg.rows?.[0]?.author_id || "");
+
+  if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+  if (roomId && !(await assertChannelPermission(roomId, channelId, me, "view_channel", res))) return;
+
+  const canDelete = me === authorId || (!!roomId && !!(await hasRoomPermission(roomId, me, "delete_messages")));
+  if (!canDelete) return res.status(403).json({ error: "forbidden" });
+
+  const threadId: string | null = msg.rows[0].thread_id ?? null;
+  await pool.query(`DELETE FROM messages WHERE id=$1`, [messageId]);
+  // its notifications go too
+  const gone = await pool.query(`DELETE FROM notifications WHERE message_id=$1 RETURNING user_id`, [messageId]);
+  for (const userId of new Set(gone.rows.map((r) => String(r.user_id)))) await broadcastNotificationsChanged(userId);
+  if (threadId) {
+    const t = await pool.query(
+      `UPDATE threads SET message_count = GREATEST(message_count - 1, 0) WHERE id=$1 RETURNING *`,
+      [threadId]
+    );
+    if (t.rows[0]) wsBroadcastThreadUpdated(t.rows[0]);
+  }
+  if (roomId) {
+    void writeAuditLog({
+      roomId,
+      actorId: me,
+      action: "message_delete",
+      targetType: "message",
+      targetId: messageId,
+      meta: { channelId, authorId, byModerator: me !== authorId },
+    });
+  }
+  if (roomId && channelId) {
+    wsBroadcastMessageEvent(channelId, threadId, { type: "channel_message_deleted", channelId, messageId });
+  }
+  res.json({ ok: true });
+  }
+);
+
+// --- pins ---
+// Pinning needs view_channel plus the pin_messages room permission; thread messages can't be pinned.
+
+const MAX_PINS_PER_CHANNEL = 50;
+
+// pinned messages of a channel, most recently pinned first
+app.get("/channels/:channelId/pins", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
   const channelId = String(req.params.channelId || "");
-  if (!channelId) return res.status(400).json({ error: "channelId_required" });
 
-  const ch = await pool.query(`SELECT id, room_id FROM channels WHERE id=$1`, [channelId]);
-  if (ch.rowCount === 0) return res.status(404).json({ error: "channel_not_found" });
-  const roomId = String(ch.rows?.[0]?.room_id || "");
+  const ch = await pool.query(`SELECT room_id FROM channels WHERE id=$1`, [channelId]);
+  if ((ch.rowCount ?? 0) === 0) return res.status(404).json({ error: "channel_not_found" });
+  const roomId = String(ch.rows[0].room_id);
+  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (!(await assertRoomMember(roomId, me, res))) return;
+  if (!(await assertChannelPermission(roomId, channelId, me, "view_channel", res))) return;
 
-  const authorId = (req as any).userId as string;
-  if (roomId && !(await assertNotBannedFromRoom(roomId, authorId, res))) return;
-  if (roomId && !(await assertRoomMember(roomId, authorId, res))) return;
-  const u = await pool.query(`SELECT display_name FROM users WHERE id=$1`, [authorId]);
-  if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
-  const authorName = String(u.rows[0].display_name || authorId);
+  const { rows } = await pool.query(
+    `SELECT ${messageColumns("$2")}
+     FROM messages m
+     LEFT JOIN users u ON u.id = COALESCE(m.author_id, m.author)
+     WHERE m.channel_id=$1 AND m.pinned_at IS NOT NULL
+     ORDER BY m.pinned_at DESC
+     LIMIT ${MAX_PINS_PER_CHANNEL}`,
+    [channelId, roomId]
+  );
+  res.json({ items: await buildMessagePayloads(rows, me), max: MAX_PINS_PER_CHANNEL });
+});
 
-  const replyTo = req.body?.replyTo;
-  if (replyTo != null && typeof replyTo !== "string") {
-    return res.status(400).json({ error: "replyTo_must_be_string_or_null" });
+async function setMessagePinned(req: express.Request, res: express.Response, pinned: boolean) {
+  const me = (req as any).userId as string;
+  const messageId = String(req.params.messageId || "");
+  if (!messageId) return res.status(400).json({ error: "messageId_required" });
+
+  const msg = await pool.query(
+    `SELECT m.id, m.channel_id, m.thread_id, m.pinned_at, c.room_id
+            , COALESCE(m.author_id, m.author) AS author_id
+     FROM messages m
+     JOIN channels c ON c.id = m.channel_id
+     WHERE m.id=$1`,
+    [messageId]
+  );
+  if (msg.rowCount === 0) return res.status(404).json({ error: "message_not_found" });
+  const channelId = String(msg.rows[0].channel_id);
+  const roomId = String(msg.rows[0].room_id);
+
+  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (!(await assertRoomMember(roomId, me, res))) return;
+  if (!(await assertChannelPermission(roomId, channelId, me, "view_channel", res))) return;
+  if (!(await hasRoomPermission(roomId, me, "pin_messages"))) {
+    return res.status(403).json({ error: "missing_permission", permission: "pin_messages" });
   }
+  if (msg.rows[0].thread_id) return res.status(400).json({ error: "message_in_thread" });
 
-  const attachmentsRaw = req.body?.attachments;
-  const attachments: Array<{ mime_type: string; data: Buffer }> = [];
-  if (attachmentsRaw != null) {
-    if (!Array.isArray(attachmentsRaw)) return res.status(400).json({ error: "attachments_must_be_array" });
-    if (attachmentsRaw.length > 1) return res.status(400).json({ error: "attachments_too_many" });
-    for (const a of attachmentsRaw) {
-      if (typeof a !== "object" || a == null) return res.status(400).json({ error: "attachment_invalid" });
-      const dataUrl = (a as any).dataUrl;
-      if (typeof dataUrl !== "string") return res.status(400).json({ error: "attachment_dataUrl_required" });
-      const parsed = parseDataUrlAttachmentDetailed(dataUrl);
-      if (!parsed.ok) return res.status(400).json({ error: parsed.error });
-      if (parsed.bytes.length > 10 * 1024 * 1024) return res.status(400).json({ error: "attachment_too_large" });
+  // already in the requested state: nothing to log or broadcast
+  if ((msg.rows[0].pinned_at != null) === pinned) {
+    return res.json({ ok: true, messageId, pinned, pinned_at: msg.rows[0].pinned_at ?? null });
+  }
 
-      let data = parsed.bytes;
-      let mimeType = parsed.mime;
-      if (mimeType === "video/mp4") {
-        const mode = String(process.env.TRANSCODE_MP4 ?? "auto").toLowerCase();
-        const hint = detectMp4VideoCodecHint(data);
-        const shouldTranscode = mode === "1" || mode === "true" || (mode !== "0" && mode !== "false" && hint !== "h264");
-        if (shouldTranscode) {
-          try {
-            data = await transcodeMp4ToH264Aac(data);
-            mimeType = "video/mp4";
-          } catch (e: any) {
-            const msg = String(e?.message ?? "attachment_transcode_failed");
-            if (msg.startsWith("attachment_transcode_unavailable")) {
-              return res.status(500).json({ error: "attachment_transcode_unavailable" });
-            }
-            if (msg.startsWith("attachment_transcode_timeout")) {
-              return res.status(400).json({ error: "attachment_transcode_timeout" });
-            }
-            if (msg.startsWith("attachment_transcode_output_too_large")) {
-              return res.status(400).json({ error: "attachment_transcode_output_too_large" });
-            }
-            return res.status(400).json({ error: "attachment_transcode_failed" });
-          }
-        }
+  let pinnedAt: string | null = null;
+  if (pinned) {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      // pins in one channel take turns, so concurrent ones can't all see room under the cap
+      await client.query(`SELECT 1 FROM channels WHERE id=$1 FOR UPDATE`, [channelId]);
+      const upd = await client.query(
+        `UPDATE messages SET pinned_at=now(), pinned_by=$2
+         WHERE id=$1
+           AND (SELECT count(*) FROM messages WHERE channel_id=$3 AND pinned_at IS NOT NULL) < $4
+         RETURNING pinned_at`,
+        [messageId, me, channelId, MAX_PINS_PER_CHANNEL]
+      );
+      if ((upd.rowCount ?? 0) === 0) {
+        await client.query("ROLLBACK");
+        return res.status(400).json({ error: "too_many_pins", max: MAX_PINS_PER_CHANNEL });
       }
+      await client.query("COMMIT");
+      pinnedAt = upd.rows[0].pinned_at;
+    } catch (e) {
+      await client.query("ROLLBACK").catch(() => {});
+      throw e;
+    } finally {
+      client.release();
+    }
+  } else {
+    await pool.query(`UPDATE messages SET pinned_at=NULL, pinned_by=NULL WHERE id=$1`, [messageId]);
+  }
+
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: pinned ? "message_pin" : "message_unpin",
+    targetType: "message",
+    targetId: messageId,
+    meta: { channelId, authorId: String(msg.rows[0].author_id || "") },
+  });
+  wsBroadcastChannel(channelId, {
+    type: "channel_pins_updated",
+    channelId,
+    messageId,
+    pinned,
+    pinned_at: pinnedAt,
+  });
+  res.json({ ok: true, messageId, pinned, pinned_at: pinnedAt });
+}
+
+app.put(
+  "/messages/:messageId/pin",
+  requireAuth,
+  rateLimit("message_pin", rateKeyByUserOrIp),
+  async (req, res) => {
+    await setMessagePinned(req, res, true);
+  }
+);
+
+app.delete(
+  "/messages/:messageId/pin",
+  requireAuth,
+  rateLimit("message_pin", rateKeyByUserOrIp),
+  async (req, res) => {
+    await setMessagePinned(req, res, false);
+  }
+);
+
+// --- threads: side discussions started from a channel message ---
+// Thread messages are messages with thread_id set, so edit / delete / reactions / attachments use the routes above.
+// Viewing a thread needs view_channel on its channel, posting send_messages (same as the channel).
+
+const THREAD_AUTO_ARCHIVE_MINUTES = [60, 1440, 4320, 10080];
+const MAX_THREAD_NAME_LENGTH = 100;
+
+function threadPayload(row: any) {
+  return {
+    id: String(row.id),
+    channelId: String(row.channel_id),
+    parentMessageId: row.parent_message_id == null ? null : String(row.parent_message_id),
+    name: String(row.name),
+    createdBy: row.created_by == null ? null : String(row.created_by),
+    createdAt: new Date(row.created_at).toISOString(),
+    messageCount: Number(row.message_count ?? 0),
+    lastMessageAt: new Date(row.last_message_at).toISOString(),
+    autoArchiveMinutes: Number(row.auto_archive_minutes),
+    archivedAt: row.archived_at == null ? null : new Date(row.archived_at).toISOString(),
+  };
+}
 
-      attachments.push({ mime_type: mimeType, data });
-    }
-  }
+function wsBroadcastThreadUpdated(row: any) {
+  const thread = threadPayload(row);
+  const data = { type: "thread_updated", channelId: thread.channelId, thread };
+  wsBroadcastChannel(thread.channelId, data);
+  // the panel may be open without the channel itself (narrow layout)
+  wsBroadcastThread(thread.id, data);
+}
 
-  // content: 文字列自体は必須（型チェック）、ただし添付がある場合は空でもOK
-  if (typeof req.body?.content !== "string") {
-    return res.status(400).json({ error: "content_must_be_string" });
-  }
-  const content = String(req.body.content).trim();
-  if (attachments.length === 0) {
-    if (!content) return res.status(400).json({ error: "content_required" });
+function parseThreadName(raw: unknown): { name: string } | { error: string } | null {
+  if (raw == null) return null;
+  if (typeof raw !== "string") return { error: "name_must_be_string" };
+  const name = raw.trim();
+  if (!name) return { error: "name_required" };
+  if (name.length > MAX_THREAD_NAME_LENGTH) return { error: "name_too_long" };
+  return { name };
+}
+
+// the thread row plus its room, after the channel's ban / membership / view_channel checks (responds on failure)
+async function loadThreadForMember(threadId: string, userId: string, res: express.Response) {
+  const t = await pool.query(
+    `SELECT t.*, c.room_id FROM threads t JOIN channels c ON c.id = t.channel_id WHERE t.id=$1`,
+    [threadId]
+  );
+  if ((t.rowCount ?? 0) === 0) {
+    res.status(404).json({ error: "thread_not_found" });
+    return null;
   }
-  if (content.length > 2000) return res.status(400).json({ error: "content_too_long" });
+  const row = t.rows[0];
+  const roomId = String(row.room_id);
+  if (!(await assertNotBannedFromRoom(roomId, userId, res))) return null;
+  if (!(await assertRoomMember(roomId, userId, res))) return null;
+  if (!(await assertChannelPermission(roomId, String(row.channel_id), userId, "view_channel", res))) return null;
+  return { row, roomId, channelId: String(row.channel_id) };
+}
 
-  const id = randomUUID();
+// Archives threads with no messages for their auto_archive_minutes. Runs on every instance; the UPDATE decides who broadcasts.
+async function sweepInactiveThreads() {
+  const { rows } = await pool.query(
+    `UPDATE threads SET archived_at = now()
+     WHERE archived_at IS NULL
+       AND last_message_at < now() - (auto_archive_minutes * interval '1 minute')
+     RETURNING *`
+  );
+  for (const row of rows) wsBroadcastThreadUpdated(row);
+}
 
-  await pool.query("BEGIN");
-  try {
-    if (typeof replyTo === "string") {
-      const parent = await pool.query(
-        `SELECT id FROM messages WHERE id=$1 AND channel_id=$2`,
-        [replyTo, channelId]
-      );
-      if (parent.rowCount === 0) {
-        await pool.query("ROLLBACK");
-        return res.status(404).json({ error: "replyTo_not_found" });
-      }
-    }
+// start a thread from a channel message
+app.post(
+  "/messages/:messageId/thread",
+  requireAuth,
+  rateLimit("thread_create", rateKeyByUserOrIp),
+  async (req, res) => {
+    const me = (req as any).userId as string;
+    const messageId = String(req.params.messageId || "");
 
-    await pool.query(
-      `INSERT INTO messages (id, channel_id, author, author_id, author_name, content, reply_to)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [id, channelId, authorName, authorId, authorName, content, replyTo ?? null]
+    const msg = await pool.query(
+      `SELECT m.id, m.channel_id, m.thread_id, m.content, c.room_id
+       FROM messages m
+       JOIN channels c ON c.id = m.channel_id
+       WHERE m.id=$1`,
+      [messageId]
     );
+    if ((msg.rowCount ?? 0) === 0) return res.status(404).json({ error: "message_not_found" });
+    const parent = msg.rows[0];
+    const channelId = String(parent.channel_id);
+    const roomId = String(parent.room_id);
+    if (parent.thread_id) return res.status(400).json({ error: "message_in_thread" });
 
-    const attachmentMetas: Array<{ id: string; mime_type: string }> = [];
-    for (const a of attachments) {
-      const aid = randomUUID();
-      await pool.query(
-        `INSERT INTO message_attachments (id, message_id, mime_type, data)
-         VALUES ($1, $2, $3, $4)`,
-        [aid, id, a.mime_type, a.data]
-      );
-      attachmentMetas.push({ id: aid, mime_type: a.mime_type });
+    if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+    if (!(await assertRoomMember(roomId, me, res))) return;
+    if (!(await assertChannelPermission(roomId, channelId, me, "send_messages", res))) return;
+
+    const parsedName = parseThreadName(req.body?.name);
+    if (parsedName && "error" in parsedName) return res.status(400).json({ error: parsedName.error });
+    // default: the first line of the message
+    const name =
+      parsedName?.name ??
+      ((String(parent.content ?? "").trim().split("\n")[0] ?? "").trim().slice(0, MAX_THREAD_NAME_LENGTH) || "スレッド");
+
+    const autoArchiveMinutes = req.body?.autoArchiveMinutes ?? 1440;
+    if (!THREAD_AUTO_ARCHIVE_MINUTES.includes(autoArchiveMinutes)) {
+      return res.status(400).json({ error: "autoArchiveMinutes_invalid" });
     }
 
-    await pool.query("COMMIT");
-
-    let reply: any = null;
-    if (typeof replyTo === "string") {
-      const r = await pool.query(
-        `SELECT id, COALESCE(author_name, author) AS author, content FROM messages WHERE id=$1`,
-        [replyTo]
-      );
-      if ((r.rowCount ?? 0) > 0) reply = r.rows[0];
+    const ins = await pool.query(
+      `INSERT INTO threads (id, channel_id, parent_message_id, name, created_by, auto_archive_minutes)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (parent_message_id) DO NOTHING
+       RETURNING *`,
+      [randomUUID(), channelId, messageId, name, me, autoArchiveMinutes]
+    );
+    if ((ins.rowCount ?? 0) === 0) {
+      const existing = await pool.query(`SELECT * FROM threads WHERE parent_message_id=$1`, [messageId]);
+      return res.status(409).json({ error: "thread_exists", thread: existing.rows[0] ? threadPayload(existing.rows[0]) : null });
     }
 
-    const avatar = await pool.query(`SELECT avatar_data IS NOT NULL AS has FROM users WHERE id=$1`, [authorId]);
-    const authorHasAvatar = !!avatar.rows?.[0]?.has;
+    void writeAuditLog({
+      roomId,
+      actorId: me,
+      action: "thread_create",
+      targetType: "thread",
+      targetId: String(ins.rows[0].id),
+      meta: { channelId, messageId, name },
+    });
+    wsBroadcastThreadUpdated(ins.rows[0]);
+    res.status(201).json(threadPayload(ins.rows[0]));
+  }
+);
 
-    const payload = {
-      id,
-      channel_id: channelId,
-      author_id: authorId,
-      author: authorName,
-      author_has_avatar: authorHasAvatar,
-      content,
-      created_at: new Date().toISOString(),
-      edited_at: null,
-      reply_to: replyTo ?? null,
-      reply,
-      attachments: attachmentMetas,
-      reactions: [],
-    };
+// threads of a channel: active ones (most recent activity first), or ?archived=1 for archived ones
+app.get("/channels/:channelId/threads", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const channelId = String(req.params.channelId || "");
 
-    // realtime: broadcast to subscribers of this channel
-    wsBroadcastChannel(channelId, { type: "channel_message_created", channelId, message: payload });
+  const ch = await pool.query(`SELECT room_id FROM channels WHERE id=$1`, [channelId]);
+  if ((ch.rowCount ?? 0) === 0) return res.status(404).json({ error: "channel_not_found" });
+  const roomId = String(ch.rows[0].room_id);
+  if (!(await assertNotBannedFromRoom(roomId, me, res))) return;
+  if (!(await assertRoomMember(roomId, me, res))) return;
+  if (!(await assertChannelPermission(roomId, channelId, me, "view_channel", res))) return;
 
-    res.status(201).json(payload);
-  } catch (e) {
-    await pool.query("ROLLBACK");
-    throw e;
-  }
+  const archived = req.query.archived === "1" || req.query.archived === "true";
+  const { rows } = await pool.query(
+    `SELECT * FROM threads
+     WHERE channel_id=$1 AND (archived_at IS NOT NULL) = $2
+     ORDER BY last_message_at DESC
+     LIMIT 100`,
+    [channelId, archived]
+  );
+  res.json({ items: rows.map(threadPayload) });
+});
+
+// a thread and the message it started from (null once deleted)
+app.get("/threads/:threadId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const t = await loadThreadForMember(String(req.params.threadId || ""), me, res);
+  if (!t) return;
+
+  let parent = null;
+  if (t.row.parent_message_id) {
+    const { rows } = await pool.query(
+      `SELECT ${messageColumns("$2")}
+       FROM messages m
+       LEFT JOIN users u ON u.id = COALESCE(m.author_id, m.author)
+       WHERE m.id=$1`,
+      [t.row.parent_message_id, t.roomId]
+    );
+    parent = (await buildMessagePayloads(rows, me))[0] ?? null;
   }
-);
+  res.json({ thread: threadPayload(t.row), parent });
+});
+
+app.get("/threads/:threadId/messages", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const t = await loadThreadForMember(String(req.params.threadId || ""), me, res);
+  if (!t) return;
+  await sendMessagePage(req, res, { channelId: t.channelId, roomId: t.roomId, threadId: String(t.row.id) });
+});
 
-// create poll (creates a message)
 app.post(
-  "/channels/:channelId/polls",
+  "/threads/:threadId/messages",
   requireAuth,
-  rateLimit({ name: "poll_create", windowMs: 60_000, max: 10, key: rateKeyByUserOrIp }),
+  rateLimit("message_create", rateKeyByUserOrIp),
   async (req, res) => {
-    const channelId = String(req.params.channelId || "");
-    if (!channelId) return res.status(400).json({ error: "channelId_required" });
-
     const me = (req as any).userId as string;
+    const t = await loadThreadForMember(String(req.params.threadId || ""), me, res);
+    if (!t) return;
+    await createMessage(req, res, t.channelId, String(t.row.id));
+  }
+);
 
-    const ch = await pool.query(`SELECT id, room_id FROM channels WHERE id=$1`, [channelId]);
-    if (ch.rowCount === 0) return res.status(404).json({ error: "channel_not_found" });
-    const roomId = String(ch.rows?.[0]?.room_id || "");
-    if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
-    if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+// rename / archive / unarchive / auto-archive duration (thread creator or manage_channels)
+app.patch("/threads/:threadId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const t = await loadThreadForMember(String(req.params.threadId || ""), me, res);
+  if (!t) return;
+  const isCreator = t.row.created_by != null && String(t.row.created_by) === me;
+  if (!isCreator && !(await hasRoomPermission(t.roomId, me, "manage_channels"))) {
+    return res.status(403).json({ error: "missing_permission", permission: "manage_channels" });
+  }
 
-    const questionErr = validatePollQuestion(req.body?.question);
-    if (questionErr) return res.status(400).json({ error: questionErr });
-    const optsErr = validatePollOptions(req.body?.options);
-    if (optsErr) return res.status(400).json({ error: optsErr });
+  const parsedName = parseThreadName(req.body?.name);
+  if (parsedName && "error" in parsedName) return res.status(400).json({ error: parsedName.error });
+  const archived = req.body?.archived;
+  if (archived !== undefined && typeof archived !== "boolean") return res.status(400).json({ error: "archived_must_be_boolean" });
+  const autoArchiveMinutes = req.body?.autoArchiveMinutes;
+  if (autoArchiveMinutes !== undefined && !THREAD_AUTO_ARCHIVE_MINUTES.includes(autoArchiveMinutes)) {
+    return res.status(400).json({ error: "autoArchiveMinutes_invalid" });
+  }
 
-    const question = String(req.body.question).trim();
-    const options = Array.from(
-      new Set((req.body.options as any[]).map((x) => (typeof x === "string" ? x.trim() : "")).filter(Boolean))
-    );
+  // unarchiving counts as activity, so the sweep doesn't archive it again right away
+  const { rows } = await pool.query(
+    `UPDATE threads SET
+       name = COALESCE($2, name),
+       auto_archive_minutes = COALESCE($3, auto_archive_minutes),
+       archived_at = CASE
+         WHEN $4::boolean IS NULL THEN archived_at
+         WHEN $4 THEN COALESCE(archived_at, now())
+         ELSE NULL
+       END,
+       last_message_at = CASE WHEN $4 = false AND archived_at IS NOT NULL THEN now() ELSE last_message_at END
+     WHERE id=$1
+     RETURNING *`,
+    [t.row.id, parsedName?.name ?? null, autoArchiveMinutes ?? null, archived ?? null]
+  );
+  if (rows.length === 0) return res.status(404).json({ error: "thread_not_found" });
 
-    const u = await pool.query(`SELECT display_name, (avatar_data IS NOT NULL) AS has FROM users WHERE id=$1`, [me]);
-    if ((u.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
-    const authorName = String(u.rows[0].display_name || me);
-    const authorHasAvatar = !!u.rows?.[0]?.has;
+  void writeAuditLog({
+    roomId: t.roomId,
+    actorId: me,
+    action: "thread_update",
+    targetType: "thread",
+    targetId: String(t.row.id),
+    meta: {
+      channelId: t.channelId,
+      name: parsedName ? { from: String(t.row.name), to: parsedName.name } : undefined,
+      archived,
+      autoArchiveMinutes,
+    },
+  });
+  wsBroadcastThreadUpdated(rows[0]);
+  res.json(threadPayload(rows[0]));
+});
 
-    const messageId = randomUUID();
-    const pollId = randomUUID();
+// create category
+app.post("/rooms/:roomId/categories", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "manage_channels", res))) return;
 
-    await pool.query("BEGIN");
-    try {
-      await pool.query(
-        `INSERT INTO messages (id, channel_id, author, author_id, author_name, content)
-         VALUES ($1, $2, $3, $4, $5, $6)`,
-        [messageId, channelId, me, me, authorName, question]
-      );
-      await pool.query(
-        `INSERT INTO polls (id, message_id, question, created_by)
-         VALUES ($1, $2, $3, $4)`,
-        [pollId, messageId, question, me]
-      );
+  const nameErr = validateName(req.body?.name, "name");
+  if (nameErr) return res.status(400).json({ error: nameErr });
 
-      const optionIds: string[] = [];
-      for (let i = 0; i < options.length; i++) {
-        const oid = randomUUID();
-        optionIds.push(oid);
-        await pool.query(
-          `INSERT INTO poll_options (id, poll_id, text, position)
-           VALUES ($1, $2, $3, $4)`,
-          [oid, pollId, options[i], i]
-        );
-      }
+  const id = randomUUID();
+  const name = String(req.body.name).trim();
+  const position = Number.isFinite(Number(req.body?.position)) ? Number(req.body.position) : 0;
 
-      await pool.query("COMMIT");
+  await pool.query(
+    `INSERT INTO categories (id, room_id, name, position) VALUES ($1, $2, $3, $4)`,
+    [id, roomId, name, position]
+  );
 
-      const pollPayload = {
-        id: pollId,
-        question,
-        options: optionIds.map((id, i) => ({ id, text: options[i], votes: 0, byMe: false })),
-      };
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "category_create",
+    targetType: "category",
+    targetId: id,
+    meta: { name, position },
+  });
 
-      const payload = {
-        id: messageId,
-        channel_id: channelId,
-        author_id: me,
-        author: authorName,
-        author_has_avatar: authorHasAvatar,
-        author_is_banned: false,
-        content: question,
-        created_at: new Date().toISOString(),
-        edited_at: null,
-        reply_to: null,
-        reply: null,
-        attachments: [],
-        reactions: [],
-        poll: pollPayload,
-      };
+  res.status(201).json({ id, room_id: roomId, name, position });
+});
 
-      wsBroadcastChannel(channelId, { type: "channel_message_created", channelId, message: payload });
-      res.status(201).json(payload);
-    } catch (e) {
-      await pool.query("ROLLBACK");
-      throw e;
-    }
+// rename / reposition category (manage_channels)
+app.patch("/rooms/:roomId/categories/:categoryId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  const categoryId = String(req.params.categoryId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "manage_channels", res))) return;
+
+  const cat = await pool.query(`SELECT name, position FROM categories WHERE id=$1 AND room_id=$2`, [categoryId, roomId]);
+  if ((cat.rowCount ?? 0) === 0) return res.status(404).json({ error: "category_not_found" });
+
+  let name = String(cat.rows[0].name);
+  let position = Number(cat.rows[0].position);
+  if (req.body?.name !== undefined) {
+    const nameErr = validateName(req.body.name, "name");
+    if (nameErr) return res.status(400).json({ error: nameErr });
+    name = String(req.body.name).trim();
+  }
+  if (req.body?.position !== undefined) {
+    const p = parsePosition(req.body.position);
+    if (p === null) return res.status(400).json({ error: "position_invalid" });
+    position = p;
   }
-);
 
-// vote poll
-app.post(
-  "/polls/:pollId/vote",
-  requireAuth,
-  rateLimit({ name: "poll_vote", windowMs: 10_000, max: 60, key: rateKeyByUserOrIp }),
-  async (req, res) => {
-    const me = (req as any).userId as string;
-    const pollId = String(req.params.pollId || "");
-    if (!pollId) return res.status(400).json({ error: "pollId_required" });
+  await pool.query(`UPDATE categories SET name=$3, position=$4 WHERE id=$1 AND room_id=$2`, [categoryId, roomId, name, position]);
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "category_update",
+    targetType: "category",
+    targetId: categoryId,
+    meta: { name, position, previous: name !== cat.rows[0].name ? String(cat.rows[0].name) : null },
+  });
+  await wsBroadcastTreeUpdate(roomId, { categoryIds: [categoryId] });
+  res.json({ id: categoryId, room_id: roomId, name, position });
+});
 
-    const optionId = typeof req.body?.optionId === "string" ? String(req.body.optionId) : "";
-    if (!optionId) return res.status(400).json({ error: "optionId_required" });
+// delete category (also delete channels in the category)
+app.delete("/rooms/:roomId/categories/:categoryId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  const categoryId = req.params.categoryId;
 
-    const p = await pool.query(
-      `SELECT p.id, p.message_id, m.channel_id, c.room_id
-       FROM polls p
-       JOIN messages m ON m.id = p.message_id
-       JOIN channels c ON c.id = m.channel_id
-       WHERE p.id=$1`,
-      [pollId]
+  if (!(await assertRoomPermission(roomId, me, "manage_channels", res))) return;
+
+  const cat = await pool.query(`SELECT id, name FROM categories WHERE id=$1 AND room_id=$2`, [categoryId, roomId]);
+  if (cat.rowCount === 0) return res.status(404).json({ error: "category_not_found" });
+  const catName = cat.rows?.[0]?.name ? String(cat.rows[0].name) : null;
+
+  await pool.query("BEGIN");
+  try {
+    // messages will cascade via channels -> messages
+    await pool.query(
+      `DELETE FROM channels WHERE room_id=$1 AND category_id=$2`,
+      [roomId, categoryId]
     );
-    if ((p.rowCount ?? 0) === 0) return res.status(404).json({ error: "poll_not_found" });
-    const messageId = String(p.rows?.[0]?.message_id || "");
-    const channelId = String(p.rows?.[0]?.channel_id || "");
-    const roomId = String(p.rows?.[0]?.room_id || "");
+    await pool.query(
+      `DELETE FROM categories WHERE id=$1 AND room_id=$2`,
+      [categoryId, roomId]
+    );
+    await pool.query("COMMIT");
+  } catch (e) {
+    await pool.query("ROLLBACK");
+    throw e;
+  }
+
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "category_delete",
+    targetType: "category",
+    targetId: String(categoryId),
+    meta: { name: catName },
+  });
+
+  res.json({ ok: true });
+});
+
+// create channel
+app.post("/rooms/:roomId/channels", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "manage_channels", res))) return;
 
-    if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
-    if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+  const nameErr = validateName(req.body?.name, "name");
+  if (nameErr) return res.status(400).json({ error: nameErr });
 
-    const opt = await pool.query(
-      `SELECT id, text FROM poll_options WHERE id=$1 AND poll_id=$2`,
-      [optionId, pollId]
+  const categoryId = req.body?.categoryId;
+  if (categoryId != null && typeof categoryId !== "string") {
+    return res.status(400).json({ error: "categoryId_must_be_string_or_null" });
+  }
+
+  if (typeof categoryId === "string") {
+    const cat = await pool.query(
+      `SELECT id FROM categories WHERE id=$1 AND room_id=$2`,
+      [categoryId, roomId]
     );
-    if ((opt.rowCount ?? 0) === 0) return res.status(404).json({ error: "poll_option_not_found" });
+    if (cat.rowCount === 0) return res.status(404).json({ error: "category_not_found" });
+  }
 
-    await pool.query("BEGIN");
-    try {
-      await pool.query(`DELETE FROM poll_votes WHERE poll_id=$1 AND user_id=$2`, [pollId, me]);
-      await pool.query(`INSERT INTO poll_votes (poll_id, user_id, option_id) VALUES ($1, $2, $3)`, [pollId, me, optionId]);
-      await pool.query("COMMIT");
-    } catch (e) {
-      await pool.query("ROLLBACK");
-      throw e;
-    }
+  const id = randomUUID();
+  const name = String(req.body.name).trim();
+  const position = Number.isFinite(Number(req.body?.position)) ? Number(req.body.position) : 0;
 
-    const pollsByMessageId = await buildPollsByMessageIds([messageId], me);
-    const pollPayload = pollsByMessageId[messageId];
-    if (!pollPayload) return res.status(500).json({ error: "poll_build_failed" });
+  await pool.query(
+    `INSERT INTO channels (id, room_id, category_id, name, position) VALUES ($1, $2, $3, $4, $5)`,
+    [id, roomId, categoryId ?? null, name, position]
+  );
 
-    wsBroadcastChannel(channelId, { type: "poll_updated", channelId, messageId, poll: pollPayload });
-    res.json({ pollId, messageId, poll: pollPayload });
-  }
-);
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "channel_create",
+    targetType: "channel",
+    targetId: id,
+    meta: { name, position, categoryId: categoryId ?? null },
+  });
 
-// get attachment binary
-app.get(
-  "/attachments/:attachmentId",
-  requireAuth,
-  rateLimit({ name: "attachment_get", windowMs: 60_000, max: 300, key: rateKeyByUserOrIp }),
-  async (req, res) => {
+  res.status(201).json({ id, room_id: roomId, category_id: categoryId ?? null, name, position });
+});
+
+// delete channel
+app.delete("/rooms/:roomId/channels/:channelId", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  const attachmentId = req.params.attachmentId;
-  const a = await pool.query(
-    `SELECT a.id, a.mime_type, a.data, c.room_id
-     FROM message_attachments a
-     JOIN messages m ON m.id = a.message_id
-     JOIN channels c ON c.id = m.channel_id
-     WHERE a.id=$1`,
-    [attachmentId]
-  );
-  if (a.rowCount === 0) return res.status(404).json({ error: "attachment_not_found" });
-  const roomId = String(a.rows?.[0]?.room_id || "");
-  if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
-  if (roomId && !(await assertRoomMember(roomId, me, res))) return;
-  const mime = String(a.rows[0].mime_type || "application/octet-stream");
-  const data = a.rows[0].data as Buffer;
+  const roomId = String(req.params.roomId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  const channelId = req.params.channelId;
 
-  res.setHeader("cache-control", "private, no-store");
-  res.setHeader("content-disposition", "inline");
-  res.setHeader("content-type", mime);
-  res.setHeader("accept-ranges", "bytes");
+  if (!(await assertRoomPermission(roomId, me, "manage_channels", res))) return;
 
-  const range = String(req.headers.range ?? "");
-  const m = /^bytes=(\d*)-(\d*)$/.exec(range);
-  if (m && data && data.length > 0) {
-    const total = data.length;
-    const startRaw = m[1] ? Number(m[1]) : NaN;
-    const endRaw = m[2] ? Number(m[2]) : NaN;
+  const ch = await pool.query(`SELECT id, name FROM channels WHERE id=$1 AND room_id=$2`, [channelId, roomId]);
+  if (ch.rowCount === 0) return res.status(404).json({ error: "channel_not_found" });
+  const chName = ch.rows?.[0]?.name ? String(ch.rows[0].name) : null;
 
-    let start = 0;
-    let end = total - 1;
+  await pool.query(`DELETE FROM channels WHERE id=$1 AND room_id=$2`, [channelId, roomId]);
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "channel_delete",
+    targetType: "channel",
+    targetId: String(channelId),
+    meta: { name: chName },
+  });
+  res.json({ ok: true });
+});
 
-    if (!Number.isNaN(startRaw)) start = startRaw;
-    if (!Number.isNaN(endRaw)) end = endRaw;
+// channel settings (manage_channels): name, position, category (null = uncategorized),
+// topic ("" / null clears), slowmodeSeconds (0 = off) and type ("text" | "announcement")
+app.patch("/rooms/:roomId/channels/:channelId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  const channelId = String(req.params.channelId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "manage_channels", res))) return;
 
-    // suffix range: bytes=-N
-    if (Number.isNaN(startRaw) && !Number.isNaN(endRaw)) {
-      const n = Math.max(0, endRaw);
-      start = Math.max(0, total - n);
-      end = total - 1;
+  const ch = await pool.query(
+    `SELECT name, position, category_id, type, topic, slowmode_seconds FROM channels WHERE id=$1 AND room_id=$2`,
+    [channelId, roomId]
+  );
+  if ((ch.rowCount ?? 0) === 0) return res.status(404).json({ error: "channel_not_found" });
+  const before = channelSettingsPayload(ch.rows[0]);
+
+  let { type, topic, slowmodeSeconds } = before;
+  if (req.body?.topic !== undefined) {
+    const raw = req.body.topic;
+    if (raw !== null && typeof raw !== "string") return res.status(400).json({ error: "topic_must_be_string_or_null" });
+    const v = typeof raw === "string" ? raw.trim() : "";
+    if (v.length > MAX_CHANNEL_TOPIC_LENGTH) return res.status(400).json({ error: "topic_too_long" });
+    topic = v || null;
+  }
+  if (req.body?.slowmodeSeconds !== undefined) {
+    const n = req.body.slowmodeSeconds;
+    if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || n > MAX_SLOWMODE_SECONDS) {
+      return res.status(400).json({ error: "slowmodeSeconds_invalid" });
     }
+    slowmodeSeconds = n;
+  }
+  if (req.body?.type !== undefined) {
+    if (req.body.type !== "text" && req.body.type !== "announcement") return res.status(400).json({ error: "type_invalid" });
+    type = req.body.type;
+  }
 
-    if (start < 0) start = 0;
-    if (end >= total) end = total - 1;
-    if (start > end || start >= total) {
-      res.status(416);
-      res.setHeader("content-range", `bytes */${total}`);
-      return res.end();
+  let name = String(ch.rows[0].name);
+  let position = Number(ch.rows[0].position);
+  let categoryId: string | null = ch.rows[0].category_id == null ? null : String(ch.rows[0].category_id);
+  if (req.body?.name !== undefined) {
+    const nameErr = validateName(req.body.name, "name");
+    if (nameErr) return res.status(400).json({ error: nameErr });
+    name = String(req.body.name).trim();
+  }
+  const moved = req.body?.categoryId !== undefined && req.body.categoryId !== categoryId;
+  if (req.body?.categoryId !== undefined) {
+    const next = req.body.categoryId;
+    if (next !== null && typeof next !== "string") return res.status(400).json({ error: "categoryId_must_be_string_or_null" });
+    if (typeof next === "string") {
+      const cat = await pool.query(`SELECT 1 FROM categories WHERE id=$1 AND room_id=$2`, [next, roomId]);
+      if ((cat.rowCount ?? 0) === 0) return res.status(404).json({ error: "category_not_found" });
     }
-
-    const chunk = data.subarray(start, end + 1);
-    res.status(206);
-    res.setHeader("content-range", `bytes ${start}-${end}/${total}`);
-    res.setHeader("content-length", String(chunk.length));
-    return res.send(chunk);
+    categoryId = next;
+  }
+  if (req.body?.position !== undefined) {
+    const p = parsePosition(req.body.position);
+    if (p === null) return res.status(400).json({ error: "position_invalid" });
+    position = p;
+  } else if (moved) {
+    // moved without a position: goes to the end of the new category
+    const last = await pool.query(
+      `SELECT COALESCE(MAX(position) + 1, 0) AS next FROM channels WHERE room_id=$1 AND category_id IS NOT DISTINCT FROM $2::text`,
+      [roomId, categoryId]
+    );
+    position = Math.min(MAX_TREE_POSITION, Number(last.rows[0]?.next ?? 0));
   }
 
-  res.send(data);
+  await pool.query(
+    `UPDATE channels SET name=$3, position=$4, category_id=$5, type=$6, topic=$7, slowmode_seconds=$8
+     WHERE id=$1 AND room_id=$2`,
+    [channelId, roomId, name, position, categoryId, type, topic, slowmodeSeconds]
+  );
+  if (slowmodeSeconds === 0 && before.slowmodeSeconds > 0) {
+    await pool.query(`DELETE FROM channel_slowmode WHERE channel_id=$1`, [channelId]);
   }
-);
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "channel_update",
+    targetType: "channel",
+    targetId: channelId,
+    meta: {
+      name,
+      position,
+      categoryId,
+      type,
+      topic,
+      slowmodeSeconds,
+      previous: name !== ch.rows[0].name ? String(ch.rows[0].name) : null,
+    },
+  });
+  await wsBroadcastTreeUpdate(roomId, { channelIds: [channelId] });
+  // who may post changed: members refetch their permissions like after an override change
+  if (type !== before.type) await wsBroadcastRoom(roomId, { type: "channel_permissions_changed", roomId, channelId });
+  res.json({ id: channelId, room_id: roomId, category_id: categoryId, name, position, type, topic, slowmodeSeconds });
+});
 
-// toggle reaction
-app.post(
-  "/messages/:messageId/reactions/toggle",
-  requireAuth,
-  rateLimit({ name: "reaction_toggle", windowMs: 10_000, max: 80, key: rateKeyByUserOrIp }),
-  async (req, res) => {
-  const messageId = req.params.messageId;
+// channel permission overrides (manage_channels)
+app.get("/rooms/:roomId/channels/:channelId/overrides", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  const channelId = String(req.params.channelId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "manage_channels", res))) return;
 
-  const author = (req as any).userId as string;
+  const ch = await pool.query(`SELECT 1 FROM channels WHERE id=$1 AND room_id=$2`, [channelId, roomId]);
+  if ((ch.rowCount ?? 0) === 0) return res.status(404).json({ error: "channel_not_found" });
 
-  const msg = await pool.query(
-    `SELECT m.id, m.channel_id, c.room_id
-     FROM messages m
-     JOIN channels c ON c.id = m.channel_id
-     WHERE m.id=$1`,
-    [messageId]
+  const { rows } = await pool.query(
+    `SELECT o.target_type, o.target_id, o.allow, o.deny, o.updated_at
+          , CASE o.target_type
+              WHEN 'role' THEN r.name
+              WHEN 'member' THEN COALESCE(u.display_name, o.target_id)
+            END AS name
+     FROM channel_permission_overrides o
+     LEFT JOIN room_roles r ON o.target_type = 'role' AND r.id = o.target_id
+     LEFT JOIN users u ON o.target_type = 'member' AND u.id = o.target_id
+     WHERE o.channel_id=$1
+     ORDER BY CASE o.target_type WHEN 'everyone' THEN 0 WHEN 'role' THEN 1 ELSE 2 END, name ASC`,
+    [channelId]
   );
-  if (msg.rowCount === 0) return res.status(404).json({ error: "message_not_found" });
-  const channelId = String(msg.rows?.[0]?.channel_id || "");
-  const roomId = String(msg.rows?.[0]?.room_id || "");
-  if (roomId && !(await assertNotBannedFromRoom(roomId, author, res))) return;
-  if (roomId && !(await assertRoomMember(roomId, author, res))) return;
 
-  const emojiErr = validateEmoji(req.body?.emoji);
-  if (emojiErr) return res.status(400).json({ error: emojiErr });
+  res.json(
+    rows.map((r) => ({
+      targetType: String(r.target_type),
+      targetId: String(r.target_id),
+      name: r.name == null ? null : String(r.name),
+      allow: permissionNames(Number(r.allow ?? 0), CHANNEL_PERMISSIONS),
+      deny: permissionNames(Number(r.deny ?? 0), CHANNEL_PERMISSIONS),
+      updated_at: r.updated_at,
+    }))
+  );
+});
 
-  const emoji = String(req.body.emoji).trim();
+// body: { targetType: "everyone" | "role" | "member", targetId, allow: [...], deny: [...] }; both empty = remove
+app.put("/rooms/:roomId/channels/:channelId/overrides", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const roomId = String(req.params.roomId || "");
+  const channelId = String(req.params.channelId || "");
+  if (!roomId) return res.status(400).json({ error: "roomId_required" });
+  if (!(await assertRoomPermission(roomId, me, "manage_channels", res))) return;
 
-  const existing = await pool.query(
-    `SELECT id FROM message_reactions WHERE message_id=$1 AND author=$2 AND emoji=$3`,
-    [messageId, author, emoji]
-  );
+  const ch = await pool.query(`SELECT name FROM channels WHERE id=$1 AND room_id=$2`, [channelId, roomId]);
+  if ((ch.rowCount ?? 0) === 0) return res.status(404).json({ error: "channel_not_found" });
 
-  if ((existing.rowCount ?? 0) > 0) {
+  const targetType = req.body?.targetType;
+  if (targetType !== "everyone" && targetType !== "role" && targetType !== "member") {
+    return res.status(400).json({ error: "targetType_invalid" });
+  }
+  let targetId = "";
+  if (targetType === "role") {
+    targetId = typeof req.body?.targetId === "string" ? req.body.targetId : "";
+    const role = await pool.query(`SELECT 1 FROM room_roles WHERE id=$1 AND room_id=$2`, [targetId, roomId]);
+    if ((role.rowCount ?? 0) === 0) return res.status(404).json({ error: "role_not_found" });
+  } else if (targetType === "member") {
+    const userIdErr = validateUserId(req.body?.targetId);
+    if (userIdErr) return res.status(400).json({ error: userIdErr });
+    targetId = normalizeUserId(String(req.body.targetId));
+    const member = await pool.query(`SELECT 1 FROM room_members WHERE room_id=$1 AND user_id=$2`, [roomId, targetId]);
+    if ((member.rowCount ?? 0) === 0) return res.status(404).json({ error: "not_member" });
+  }
+
+  const allow = parsePermissions(req.body?.allow ?? [], CHANNEL_PERMISSIONS);
+  const deny = parsePermissions(req.body?.deny ?? [], CHANNEL_PERMISSIONS);
+  if (allow == null || deny == null) return res.status(400).json({ error: "permissions_invalid" });
+  if ((allow & deny) !== 0) return res.status(400).json({ error: "permissions_conflict" });
+
+  if (allow === 0 && deny === 0) {
     await pool.query(
-      `DELETE FROM message_reactions WHERE message_id=$1 AND author=$2 AND emoji=$3`,
-      [messageId, author, emoji]
+      `DELETE FROM channel_permission_overrides WHERE channel_id=$1 AND target_type=$2 AND target_id=$3`,
+      [channelId, targetType, targetId]
     );
   } else {
-    if (emoji.startsWith("sticker:")) {
-      const stickerId = emoji.slice("sticker:".length);
-      const s = await pool.query(`SELECT 1 FROM stickers WHERE id=$1`, [stickerId]);
-      if ((s.rowCount ?? 0) === 0) return res.status(404).json({ error: "sticker_not_found" });
-    }
     await pool.query(
-      `INSERT INTO message_reactions (id, message_id, author, emoji)
-       VALUES ($1, $2, $3, $4)`,
-      [randomUUID(), messageId, author, emoji]
+      `INSERT INTO channel_permission_overrides (channel_id, target_type, target_id, allow, deny)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (channel_id, target_type, target_id) DO UPDATE SET
+         allow = EXCLUDED.allow, deny = EXCLUDED.deny, updated_at = now()`,
+      [channelId, targetType, targetId, allow, deny]
     );
   }
 
-  const r = await pool.query(
-    `SELECT emoji, author FROM message_reactions WHERE message_id=$1`,
-    [messageId]
-  );
-  const byEmoji: Record<string, { emoji: string; count: number; byMe: boolean }> = {};
-  for (const row of r.rows) {
-    const item = (byEmoji[row.emoji] ||= { emoji: row.emoji, count: 0, byMe: false });
-    item.count += 1;
-    if (row.author === author) item.byMe = true;
+  void writeAuditLog({
+    roomId,
+    actorId: me,
+    action: "channel_override_update",
+    targetType: "channel",
+    targetId: channelId,
+    meta: {
+      name: String(ch.rows[0].name),
+      overrideType: targetType,
+      overrideId: targetId || null,
+      allow: permissionNames(allow, CHANNEL_PERMISSIONS),
+      deny: permissionNames(deny, CHANNEL_PERMISSIONS),
+    },
+  });
+  // every member's tree may change (visibility, lock marker), not just the target's
+  await wsBroadcastRoom(roomId, { type: "channel_permissions_changed", roomId, channelId });
+  await wsRecheckChannels(roomId, [channelId]);
+  res.json({ ok: true });
+});
+
+// What the signed-in user may do instance-wide (admin console, room creation)
+app.get("/instance", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  const { roomCreationPolicy } = await instanceSettings();
+  res.json({
+    isAdmin: await isInstanceAdmin(me),
+    canCreateRooms: await canCreateRooms(me, roomCreationPolicy),
+    roomCreationPolicy,
+  });
+});
+
+app.get("/admin/settings", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  if (!(await assertInstanceAdmin(me, res))) return;
+  res.json(await instanceSettings());
+});
+
+app.patch("/admin/settings", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  if (!(await assertInstanceAdmin(me, res))) return;
+
+  const previous = await instanceSettings();
+  const updates: Array<{ key: string; value: string; previous: string }> = [];
+  const policy = req.body?.roomCreationPolicy;
+  if (policy !== undefined) {
+    if (!ROOM_CREATION_POLICIES.includes(policy)) return res.status(400).json({ error: "roomCreationPolicy_invalid" });
+    updates.push({ key: "room_creation_policy", value: policy, previous: previous.roomCreationPolicy });
+  }
+  const registration = req.body?.registrationMode;
+  if (registration !== undefined) {
+    if (!REGISTRATION_MODES.includes(registration)) return res.status(400).json({ error: "registrationMode_invalid" });
+    updates.push({ key: "registration_mode", value: registration, previous: previous.registrationMode });
   }
+  if (updates.length === 0) return res.status(400).json({ error: "settings_required" });
 
-  if (channelId) {
-    wsBroadcastChannel(channelId, {
-      type: "message_reactions_updated",
-      channelId,
-      messageId,
-      reactions: Object.values(byEmoji),
+  for (const u of updates) {
+    if (u.value === u.previous) continue;
+    await pool.query(
+      `INSERT INTO instance_settings (key, value, updated_by, updated_at)
+       VALUES ($1, $2::jsonb, $3, now())
+       ON CONFLICT (key) DO UPDATE SET value=EXCLUDED.value, updated_by=EXCLUDED.updated_by, updated_at=now()`,
+      [u.key, JSON.stringify(u.value), me]
+    );
+    void writeAuditLog({
+      actorId: me,
+      action: "instance_settings_update",
+      targetType: "instance",
+      targetId: u.key,
+      meta: { value: u.value, previous: u.previous },
     });
   }
+  res.json(await instanceSettings());
+});
 
-  res.json({ messageId, reactions: Object.values(byEmoji) });
-  }
-);
+// signup invites for the 'invite' registration mode
+app.get("/admin/signup-invites", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  if (!(await assertInstanceAdmin(me, res))) return;
 
-// edit message (author or room owner)
-app.patch(
-  "/messages/:messageId",
-  requireAuth,
-  rateLimit({ name: "message_edit", windowMs: 60_000, max: 60, key: rateKeyByUserOrIp }),
-  async (req, res) => {
+  const { rows } = await pool.query(
+    `SELECT i.code, i.note, i.uses, i.max_uses, i.expires_at, i.created_at, i.created_by, u.display_name AS created_by_name
+     FROM signup_invites i
+     LEFT JOIN users u ON u.id = i.created_by
+     ORDER BY i.created_at DESC
+     LIMIT 200`
+  );
+  res.json(
+    rows.map((r) => ({
+      code: String(r.code),
+      note: String(r.note ?? ""),
+      uses: Number(r.uses),
+      maxUses: Number(r.max_uses),
+      expiresAt: r.expires_at,
+      createdAt: r.created_at,
+      createdBy: r.created_by ? String(r.created_by) : null,
+      createdByName: r.created_by_name ? String(r.created_by_name) : null,
+    }))
+  );
+});
+
+// { maxUses? (1-100, default 1), expiresInHours? (1-720, default 72), note? }
+app.post("/admin/signup-invites", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  const messageId = String(req.params.messageId || "");
-  if (!messageId) return res.status(400).json({ error: "messageId_required" });
+  if (!(await assertInstanceAdmin(me, res))) return;
 
-  if (typeof req.body?.content !== "string") return res.status(400).json({ error: "content_must_be_string" });
-  const content = String(req.body.content).trim();
-  if (!content) return res.status(400).json({ error: "content_required" });
-  if (content.length > 2000) return res.status(400).json({ error: "content_too_long" });
+  const maxUses = req.body?.maxUses == null ? 1 : Number(req.body.maxUses);
+  if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > 100) return res.status(400).json({ error: "maxUses_invalid" });
+  const hours = req.body?.expiresInHours == null ? 72 : Number(req.body.expiresInHours);
+  if (!Number.isInteger(hours) || hours < 1 || hours > 720) return res.status(400).json({ error: "expiresInHours_invalid" });
+  const note = typeof req.body?.note === "string" ? req.body.note.trim().slice(0, 100) : "";
 
-  const msg = await pool.query(
-    `SELECT m.id, m.channel_id, c.room_id
-            , COALESCE(m.author_id, m.author) AS author_id
-            , r.owner_id
-     FROM messages m
-     JOIN channels c ON c.id = m.channel_id
-     JOIN rooms r ON r.id = c.room_id
-     WHERE m.id=$1`,
-    [messageId]
-  );
-  if (msg.rowCount === 0) return res.status(404).json({ error: "message_not_found" });
+  let code = "";
+  let expiresAt: string | null = null;
+  for (let i = 0; i < 8; i++) {
+    code = normalizeInviteCode(randomUUID().replace(/-/g, "").slice(0, 16));
+    try {
+      const r = await pool.query(
+        `INSERT INTO signup_invites (code, created_by, note, max_uses, expires_at)
+         VALUES ($1, $2, $3, $4, now() + ($5::int * interval '1 hour'))
+         RETURNING expires_at`,
+        [code, me, note, maxUses, hours]
+      );
+      expiresAt = r.rows[0].expires_at;
+      break;
+    } catch (e: any) {
+      // retry on conflict
+      if (String(e?.code || "") === "23505") continue;
+      throw e;
+    }
+  }
+  if (!expiresAt) return res.status(500).json({ error: "invite_create_failed" });
+
+  void writeAuditLog({
+    actorId: me,
+    action: "signup_invite_create",
+    targetType: "signup_invite",
+    targetId: code,
+    meta: { maxUses, expiresInHours: hours, note: note || null },
+  });
+  res.status(201).json({ code, maxUses, expiresAt });
+});
+
+app.delete("/admin/signup-invites/:code", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  if (!(await assertInstanceAdmin(me, res))) return;
+  const codeErr = validateInviteCode(req.params.code);
+  if (codeErr) return res.status(400).json({ error: codeErr });
+  const code = normalizeInviteCode(String(req.params.code));
 
-  const channelId = String(msg.rows?.[0]?.channel_id || "");
-  const roomId = String(msg.rows?.[0]?.room_id || "");
-  const authorId = String(msg.rows?.[0]?.author_id || "");
-  const ownerId = msg.rows?.[0]?.owner_id ? String(msg.rows[0].owner_id) : null;
+  const del = await pool.query(`DELETE FROM signup_invites WHERE code=$1`, [code]);
+  if ((del.rowCount ?? 0) === 0) return res.status(404).json({ error: "invite_not_found" });
+  void writeAuditLog({ actorId: me, action: "signup_invite_delete", targetType: "signup_invite", targetId: code });
+  res.json({ ok: true });
+});
 
-  if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
-  if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+// ?q= matches user ID or display name; ?filter=admins|suspended|room_creators
+app.get("/admin/users", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  if (!(await assertInstanceAdmin(me, res))) return;
 
-  const canEdit = me === authorId || (ownerId && ownerId === me);
-  if (!canEdit) return res.status(403).json({ error: "forbidden" });
+  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  if (q.length > 100) return res.status(400).json({ error: "q_too_long" });
+  const filter = typeof req.query.filter === "string" ? req.query.filter : "all";
+  if (!["all", "admins", "suspended", "room_creators"].includes(filter)) {
+    return res.status(400).json({ error: "filter_invalid" });
+  }
+  const limit = Math.min(100, Math.max(1, Number(req.query.limit ?? 50) || 50));
+  const offset = Math.max(0, Number(req.query.offset ?? 0) || 0);
 
-  const upd = await pool.query(
-    `UPDATE messages SET content=$2, edited_at=now() WHERE id=$1 RETURNING edited_at`,
-    [messageId, content]
+  const { rows } = await pool.query(
+    `SELECT u.id, u.display_name, u.created_at, u.is_admin, u.can_create_rooms, u.suspended_at, u.suspended_reason,
+            u.signup_invite,
+            (u.avatar_key IS NOT NULL OR u.avatar_data IS NOT NULL) AS has_avatar,
+            (SELECT COUNT(*)::int FROM passkey_credentials p WHERE p.user_id = u.id) AS passkeys,
+            (SELECT COUNT(*)::int FROM rooms r WHERE r.owner_id = u.id) AS owned_rooms,
+            (SELECT MAX(s.last_seen_at) FROM sessions s WHERE s.user_id = u.id) AS last_seen_at
+     FROM users u
+     WHERE ($1::text IS NULL OR u.id ILIKE $1 OR u.display_name ILIKE $1)
+       AND ($2 = 'all'
+         OR ($2 = 'admins' AND u.is_admin)
+         OR ($2 = 'suspended' AND u.suspended_at IS NOT NULL)
+         OR ($2 = 'room_creators' AND u.can_create_rooms))
+     ORDER BY u.created_at ASC, u.id ASC
+     LIMIT $3 OFFSET $4`,
+    [q ? `%${q}%` : null, filter, limit + 1, offset]
   );
-  const editedAt = upd.rows?.[0]?.edited_at ?? null;
+  const hasMore = rows.length > limit;
+  res.json({
+    items: rows.slice(0, limit).map((r) => ({
+      userId: String(r.id),
+      displayName: String(r.display_name),
+      hasAvatar: !!r.has_avatar,
+      createdAt: r.created_at,
+      lastSeenAt: r.last_seen_at ?? null,
+      isAdmin: !!r.is_admin,
+      canCreateRooms: !!r.can_create_rooms,
+      suspendedAt: r.suspended_at ?? null,
+      suspendedReason: r.suspended_reason ?? null,
+      signupInvite: r.signup_invite ?? null,
+      passkeys: Number(r.passkeys),
+      ownedRooms: Number(r.owned_rooms),
+    })),
+    hasMore,
+  });
+});
 
-  if (roomId) {
-    void writeAuditLog({
-      roomId,
-      actorId: me,
-      action: "message_edit",
-      targetType: "message",
-      targetId: messageId,
-      meta: { channelId, authorId, byOwner: !!(ownerId && ownerId === me && me !== authorId) },
-    });
+// The account an admin action (suspend / passkey reset / delete) targets: never yourself or another admin,
+// who has to be demoted first.
+// userId: already validated / normalized
+async function loadAdminTarget(me: string, userId: string, res: express.Response) {
+  if (userId === me) {
+    res.status(400).json({ error: "cannot_target_self" });
+    return null;
   }
-
-  wsBroadcastChannel(channelId, { type: "channel_message_updated", channelId, messageId, content, edited_at: editedAt });
-  res.json({ ok: true, messageId, content, edited_at: editedAt });
+  const r = await pool.query(`SELECT id, display_name, is_admin, suspended_at FROM users WHERE id=$1`, [userId]);
+  if ((r.rowCount ?? 0) === 0) {
+    res.status(404).json({ error: "user_not_found" });
+    return null;
   }
-);
-
-// delete message (author or room owner)
-app.delete(
-  "/messages/:messageId",
-  requireAuth,
-  rateLimit({ name: "message_delete", windowMs: 60_000, max: 60, key: rateKeyByUserOrIp }),
-  async (req, res) => {
-  const me = (req as any).userId as string;
-  const messageId = String(req.params.messageId || "");
-  if (!messageId) return res.status(400).json({ error: "messageId_required" });
+  if (r.rows[0].is_admin) {
+    res.status(409).json({ error: "target_is_admin" });
+    return null;
+  }
+  return { displayName: String(r.rows[0].display_name), suspended: !!r.rows[0].suspended_at };
+}
 
-  const msg = await pool.query(
-    `SELECT m.id, m.channel_id, c.room_id
-            , COALESCE(m.author_id, m.author) AS author_id
-            , r.owner_id
-     FROM messages m
-     JOIN channels c ON c.id = m.channel_id
-     JOIN rooms r ON r.id = c.room_id
-     WHERE m.id=$1`,
-    [messageId]
-  );
-  if (msg.rowCount === 0) return res.status(404).json({ error: "message_not_found" });
+async function revokeAllSessions(userId: string) {
+  const { rows } = await pool.query(`SELECT id FROM sessions WHERE user_id=$1`, [userId]);
+  return revokeSessions(userId, rows.map((r) => String(r.id)));
+}
 
-  const channelId = String(msg.rows?.[0]?.channel_id || "");
-  const roomId = String(msg.rows?.[0]?.room_id || "");
-  const authorId = String(msg.rows?.[0]?.author_id || "");
-  const ownerId = msg.rows?.[0]?.owner_id ? String(msg.rows[0].owner_id) : null;
+// { isAdmin?, canCreateRooms? }
+app.patch("/admin/users/:userId", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  if (!(await assertInstanceAdmin(me, res))) return;
+  const userIdErr = validateUserId(req.params.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const userId = normalizeUserId(String(req.params.userId));
 
-  if (roomId && !(await assertNotBannedFromRoom(roomId, me, res))) return;
-  if (roomId && !(await assertRoomMember(roomId, me, res))) return;
+  const isAdmin = req.body?.isAdmin;
+  const allowRooms = req.body?.canCreateRooms;
+  if (isAdmin !== undefined && typeof isAdmin !== "boolean") return res.status(400).json({ error: "isAdmin_invalid" });
+  if (allowRooms !== undefined && typeof allowRooms !== "boolean") {
+    return res.status(400).json({ error: "canCreateRooms_invalid" });
+  }
 
-  const canDelete = me === authorId || (ownerId && ownerId === me);
-  if (!canDelete) return res.status(403).json({ error: "forbidden" });
+  const r = await pool.query(`SELECT is_admin, can_create_rooms, suspended_at FROM users WHERE id=$1`, [userId]);
+  if ((r.rowCount ?? 0) === 0) return res.status(404).json({ error: "user_not_found" });
+  const cur = r.rows[0];
 
-  await pool.query(`DELETE FROM messages WHERE id=$1`, [messageId]);
-  if (roomId) {
+  if (isAdmin !== undefined && isAdmin !== !!cur.is_admin) {
+    if (isAdmin && cur.suspended_at) return res.status(409).json({ error: "target_suspended" });
+    if (!isAdmin) {
+      const others = await pool.query(`SELECT 1 FROM users WHERE is_admin AND suspended_at IS NULL AND id <> $1 LIMIT 1`, [
+        userId,
+      ]);
+      if ((others.rowCount ?? 0) === 0) return res.status(409).json({ error: "last_admin" });
+    }
+    await pool.query(`UPDATE users SET is_admin=$2 WHERE id=$1`, [userId, isAdmin]);
+    void writeAuditLog({ actorId: me, action: isAdmin ? "admin_grant" : "admin_revoke", targetType: "user", targetId: userId });
+  }
+  if (allowRooms !== undefined && allowRooms !== !!cur.can_create_rooms) {
+    await pool.query(`UPDATE users SET can_create_rooms=$2 WHERE id=$1`, [userId, allowRooms]);
     void writeAuditLog({
-      roomId,
       actorId: me,
-      action: "message_delete",
-      targetType: "message",
-      targetId: messageId,
-      meta: { channelId, authorId, byOwner: !!(ownerId && ownerId === me && me !== authorId) },
+      action: allowRooms ? "room_creator_allow" : "room_creator_disallow",
+      targetType: "user",
+      targetId: userId,
     });
   }
-  if (roomId && channelId) {
-    wsBroadcastChannel(channelId, { type: "channel_message_deleted", channelId, messageId });
-  }
   res.json({ ok: true });
-  }
-);
+});
 
-// create category
-app.post("/rooms/:roomId/categories", requireAuth, async (req, res) => {
+// Logs the account out everywhere and blocks login / recovery until unsuspended.
+app.post("/admin/users/:userId/suspend", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
-
-  const nameErr = validateName(req.body?.name, "name");
-  if (nameErr) return res.status(400).json({ error: nameErr });
-
-  const id = randomUUID();
-  const name = String(req.body.name).trim();
-  const position = Number.isFinite(Number(req.body?.position)) ? Number(req.body.position) : 0;
+  if (!(await assertInstanceAdmin(me, res))) return;
+  const userIdErr = validateUserId(req.params.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const userId = normalizeUserId(String(req.params.userId));
+  const target = await loadAdminTarget(me, userId, res);
+  if (!target) return;
 
-  await pool.query(
-    `INSERT INTO categories (id, room_id, name, position) VALUES ($1, $2, $3, $4)`,
-    [id, roomId, name, position]
+  const reason = typeof req.body?.reason === "string" ? req.body.reason.trim().slice(0, 200) : "";
+  const r = await pool.query(
+    `UPDATE users SET suspended_at=now(), suspended_reason=$2 WHERE id=$1 AND suspended_at IS NULL`,
+    [userId, reason || null]
   );
+  if ((r.rowCount ?? 0) === 0) return res.status(409).json({ error: "already_suspended" });
 
+  const revoked = await revokeAllSessions(userId);
   void writeAuditLog({
-    roomId,
     actorId: me,
-    action: "category_create",
-    targetType: "category",
-    targetId: id,
-    meta: { name, position },
+    action: "user_suspend",
+    targetType: "user",
+    targetId: userId,
+    meta: { reason: reason || null, sessions: revoked.length },
   });
-
-  res.status(201).json({ id, room_id: roomId, name, position });
+  res.json({ ok: true });
 });
 
-// delete category (also delete channels in the category)
-app.delete("/rooms/:roomId/categories/:categoryId", requireAuth, async (req, res) => {
+app.post("/admin/users/:userId/unsuspend", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  const categoryId = req.params.categoryId;
+  if (!(await assertInstanceAdmin(me, res))) return;
+  const userIdErr = validateUserId(req.params.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const userId = normalizeUserId(String(req.params.userId));
+  const target = await loadAdminTarget(me, userId, res);
+  if (!target) return;
 
-  if (!(await assertRoomOwner(roomId, me, res))) return;
+  const r = await pool.query(
+    `UPDATE users SET suspended_at=NULL, suspended_reason=NULL WHERE id=$1 AND suspended_at IS NOT NULL`,
+    [userId]
+  );
+  if ((r.rowCount ?? 0) === 0) return res.status(409).json({ error: "not_suspended" });
+  void writeAuditLog({ actorId: me, action: "user_unsuspend", targetType: "user", targetId: userId });
+  res.json({ ok: true });
+});
 
-  const cat = await pool.query(`SELECT id, name FROM categories WHERE id=$1 AND room_id=$2`, [categoryId, roomId]);
-  if (cat.rowCount === 0) return res.status(404).json({ error: "category_not_found" });
-  const catName = cat.rows?.[0]?.name ? String(cat.rows[0].name) : null;
+// Removes every passkey and logs the account out. The returned one-time recovery code (the old codes stop
+// working) is handed to the user, who registers a new passkey with it from the login screen.
+app.post("/admin/users/:userId/reset-passkeys", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  if (!(await assertInstanceAdmin(me, res))) return;
+  const userIdErr = validateUserId(req.params.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const userId = normalizeUserId(String(req.params.userId));
+  const target = await loadAdminTarget(me, userId, res);
+  if (!target) return;
 
-  await pool.query("BEGIN");
+  let removed = 0;
+  let codes: string[] = [];
+  const client = await pool.connect();
   try {
-    // messages will cascade via channels -> messages
-    await pool.query(
-      `DELETE FROM channels WHERE room_id=$1 AND category_id=$2`,
-      [roomId, categoryId]
-    );
-    await pool.query(
-      `DELETE FROM categories WHERE id=$1 AND room_id=$2`,
-      [categoryId, roomId]
-    );
-    await pool.query("COMMIT");
+    await client.query("BEGIN");
+    const del = await client.query(`DELETE FROM passkey_credentials WHERE user_id=$1`, [userId]);
+    removed = del.rowCount ?? 0;
+    await client.query(`DELETE FROM recovery_enrollments WHERE user_id=$1`, [userId]);
+    await client.query(`UPDATE users SET current_challenge=NULL WHERE id=$1`, [userId]);
+    codes = await issueRecoveryCodes(userId, 1, client);
+    await client.query("COMMIT");
   } catch (e) {
-    await pool.query("ROLLBACK");
+    await client.query("ROLLBACK").catch(() => {});
     throw e;
+  } finally {
+    client.release();
   }
+  await revokeAllSessions(userId);
 
   void writeAuditLog({
-    roomId,
     actorId: me,
-    action: "category_delete",
-    targetType: "category",
-    targetId: String(categoryId),
-    meta: { name: catName },
+    action: "user_passkeys_reset",
+    targetType: "user",
+    targetId: userId,
+    meta: { removed },
   });
-
-  res.json({ ok: true });
+  res.json({ ok: true, removed, recoveryCode: codes[0] });
 });
 
-// create channel
-app.post("/rooms/:roomId/channels", requireAuth, async (req, res) => {
+// Rooms the account owns would be left without an owner, so they have to be deleted along with it (?deleteOwnedRooms=1).
+app.delete("/admin/users/:userId", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  if (!(await assertRoomOwner(roomId, me, res))) return;
-
-  const nameErr = validateName(req.body?.name, "name");
-  if (nameErr) return res.status(400).json({ error: nameErr });
-
-  const categoryId = req.body?.categoryId;
-  if (categoryId != null && typeof categoryId !== "string") {
-    return res.status(400).json({ error: "categoryId_must_be_string_or_null" });
+  if (!(await assertInstanceAdmin(me, res))) return;
+  const userIdErr = validateUserId(req.params.userId);
+  if (userIdErr) return res.status(400).json({ error: userIdErr });
+  const userId = normalizeUserId(String(req.params.userId));
+  const target = await loadAdminTarget(me, userId, res);
+  if (!target) return;
+
+  const owned = await pool.query(`SELECT id, name FROM rooms WHERE owner_id=$1 ORDER BY created_at ASC`, [userId]);
+  const rooms = owned.rows.map((r) => ({ id: String(r.id), name: String(r.name) }));
+  if (rooms.length > 0 && req.query.deleteOwnedRooms !== "1") {
+    return res.status(409).json({ error: "user_owns_rooms", rooms });
   }
 
-  if (typeof categoryId === "string") {
-    const cat = await pool.query(
-      `SELECT id FROM categories WHERE id=$1 AND room_id=$2`,
-      [categoryId, roomId]
-    );
-    if (cat.rowCount === 0) return res.status(404).json({ error: "category_not_found" });
+  await revokeAllSessions(userId);
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`DELETE FROM rooms WHERE owner_id=$1`, [userId]);
+    await client.query(`DELETE FROM users WHERE id=$1`, [userId]);
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
   }
 
-  const id = randomUUID();
-  const name = String(req.body.name).trim();
-  const position = Number.isFinite(Number(req.body?.position)) ? Number(req.body.position) : 0;
-
-  await pool.query(
-    `INSERT INTO channels (id, room_id, category_id, name, position) VALUES ($1, $2, $3, $4, $5)`,
-    [id, roomId, categoryId ?? null, name, position]
-  );
-
   void writeAuditLog({
-    roomId,
     actorId: me,
-    action: "channel_create",
-    targetType: "channel",
-    targetId: id,
-    meta: { name, position, categoryId: categoryId ?? null },
+    action: "user_delete",
+    targetType: "user",
+    targetId: userId,
+    meta: { name: target.displayName, rooms: rooms.map((r) => r.id) },
   });
-
-  res.status(201).json({ id, room_id: roomId, category_id: categoryId ?? null, name, position });
+  res.json({ ok: true, deletedRooms: rooms.length });
 });
 
-// delete channel
-app.delete("/rooms/:roomId/channels/:channelId", requireAuth, async (req, res) => {
+// Instance-wide audit log: account and instance events (audit_logs without a room)
+app.get("/admin/audit", requireAuth, async (req, res) => {
   const me = (req as any).userId as string;
-  const roomId = String(req.params.roomId || "");
-  if (!roomId) return res.status(400).json({ error: "roomId_required" });
-  const channelId = req.params.channelId;
+  if (!(await assertInstanceAdmin(me, res))) return;
 
-  if (!(await assertRoomOwner(roomId, me, res))) return;
+  const limit = Math.min(200, Math.max(1, Number(req.query.limit ?? 50) || 50));
+  const beforeRaw = typeof req.query.before === "string" ? req.query.before : "";
+  let before: Date | null = null;
+  if (beforeRaw) {
+    const d = new Date(beforeRaw);
+    if (!Number.isNaN(d.getTime())) before = d;
+  }
+  const action = typeof req.query.action === "string" && req.query.action.trim() ? req.query.action.trim() : null;
+  const userId = typeof req.query.userId === "string" && req.query.userId.trim() ? req.query.userId.trim() : null;
 
-  const ch = await pool.query(`SELECT id, name FROM channels WHERE id=$1 AND room_id=$2`, [channelId, roomId]);
-  if (ch.rowCount === 0) return res.status(404).json({ error: "channel_not_found" });
-  const chName = ch.rows?.[0]?.name ? String(ch.rows[0].name) : null;
+  const { rows } = await pool.query(
+    `SELECT l.id, l.action, l.target_type, l.target_id, l.meta, l.created_at,
+            l.actor_id, u.display_name AS actor_name
+     FROM audit_logs l
+     JOIN users u ON u.id = l.actor_id
+     WHERE l.room_id IS NULL
+       AND ($1::timestamptz IS NULL OR l.created_at < $1)
+       AND ($2::text IS NULL OR l.action = $2)
+       AND ($3::text IS NULL OR l.actor_id = $3 OR (l.target_type = 'user' AND l.target_id = $3))
+     ORDER BY l.created_at DESC
+     LIMIT $4`,
+    [before, action, userId, limit]
+  );
 
-  await pool.query(`DELETE FROM channels WHERE id=$1 AND room_id=$2`, [channelId, roomId]);
-  void writeAuditLog({
-    roomId,
-    actorId: me,
-    action: "channel_delete",
-    targetType: "channel",
-    targetId: String(channelId),
-    meta: { name: chName },
-  });
-  res.json({ ok: true });
+  res.json(
+    rows.map((r) => ({
+      id: r.id,
+      roomId: null,
+      action: r.action,
+      actorId: r.actor_id,
+      actorDisplayName: r.actor_name,
+      targetType: r.target_type ?? null,
+      targetId: r.target_id ?? null,
+      meta: r.meta ?? null,
+      created_at: r.created_at,
+    }))
+  );
+});
+
+// Users / IPs currently over a rate limit (instance admin only)
+app.get("/admin/rate-limits", requireAuth, async (req, res) => {
+  const me = (req as any).userId as string;
+  if (!(await assertInstanceAdmin(me, res))) return;
+
+  const throttled: Array<{
+    name: string;
+    userId: string | null;
+    displayName: string | null;
+    ip: string | null;
+    count: number;
+    max: number;
+    resetAt: string;
+  }> = [];
+  for (const e of await rateLimitStore.active()) {
+    const sep = e.key.indexOf(":");
+    const name = e.key.slice(0, sep);
+    const subject = e.key.slice(sep + 1);
+    const rule = rateLimitRules[name];
+    if (!rule || e.count < rule.max) continue;
+    throttled.push({
+      name,
+      userId: subject.startsWith("u:") ? subject.slice(2) : null,
+      displayName: null,
+      ip: subject.startsWith("ip:") ? subject.slice(3) : null,
+      count: e.count,
+      max: rule.max,
+      resetAt: new Date(e.resetAt).toISOString(),
+    });
+  }
+
+  const userIds = Array.from(new Set(throttled.flatMap((t) => (t.userId ? [t.userId] : []))));
+  if (userIds.length > 0) {
+    const u = await pool.query(`SELECT id, display_name FROM users WHERE id = ANY($1::text[])`, [userIds]);
+    const names = new Map(u.rows.map((r) => [String(r.id), String(r.display_name)]));
+    for (const t of throttled) if (t.userId) t.displayName = names.get(t.userId) ?? null;
+  }
+  throttled.sort((a, b) => a.resetAt.localeCompare(b.resetAt));
+
+  res.json({ store: rateLimitStore.driver, rules: rateLimitRules, throttled });
 });
 
 const port = Number(process.env.PORT ?? 3000);
 
 async function main() {
   await initDb();
+  await startCluster({
+    onEvent: handleClusterEvent,
+    onUsersOffline: (userIds) => {
+      for (const userId of userIds) {
+        void wsBroadcastRoomsForUser(userId, { type: "room_presence", userId, online: false }).catch((e) =>
+          console.warn(`presence broadcast failed: ${userId}`, e?.message ?? e)
+        );
+      }
+    },
+  });
+  startJobWorker();
+  setInterval(() => {
+    sweepExpiredUploads()
+      .then(() => sweepBlobDeletions())
+      .catch((e) => console.warn("blob sweep failed", e?.message ?? e));
+    sweepExpiredAuthState().catch((e) => console.warn("auth state sweep failed", e?.message ?? e));
+    sweepInactiveThreads().catch((e) => console.warn("thread archive sweep failed", e?.message ?? e));
+  }, 60_000);
   const server = createServer(app);
   setupWebSocket(server);
   server.listen(port, "0.0.0.0", () => {
@@ -0,0 +1,184 @@
+import { randomUUID } from "node:crypto";
+import type { PoolClient } from "pg";
+import { pool } from "./db.js";
+
+// Persistent job queue on the `jobs` table (media transcode / thumbnails, ...).
+// Jobs survive restarts; several backend processes can share the table (claims use SKIP LOCKED).
+//   JOB_CONCURRENCY: jobs run at the same time by this process (default 2)
+
+export type JobContext = { id: string; attempt: number; maxAttempts: number };
+
+export type JobHandler = {
+  run(payload: any, ctx: JobContext): Promise<void>;
+  // called once, after the last attempt failed
+  onFailed?(payload: any, error: string): Promise<void>;
+};
+
+type ClaimedJob = { id: string; kind: string; payload: any; attempts: number; maxAttempts: number };
+
+const POLL_MS = 2_000;
+// a running job whose worker hasn't finished it by then is assumed lost (process crash / restart)
+const STALE_MS = 10 * 60_000;
+// failed jobs are kept this long for inspection
+const FAILED_RETENTION_MS = 7 * 24 * 60 * 60_000;
+
+const handlers = new Map<string, JobHandler>();
+
+export function registerJobHandler(kind: string, handler: JobHandler) {
+  handlers.set(kind, handler);
+}
+
+// Call kickJobWorker() once the surrounding transaction (if any) has committed.
+// opts.db: the caller's transaction client, so the job only exists once that commits
+export async function enqueueJob(
+  kind: string,
+  payload: unknown,
+  opts: { maxAttempts?: number; db?: PoolClient } = {}
+) {
+  const id = randomUUID();
+  await (opts.db ?? pool).query(`INSERT INTO jobs (id, kind, payload, max_attempts) VALUES ($1, $2, $3::jsonb, $4)`, [
+    id,
+    kind,
+    JSON.stringify(payload ?? {}),
+    opts.maxAttempts ?? 3,
+  ]);
+  return id;
+}
+
+function jobConcurrency() {
+  const n = Number(process.env.JOB_CONCURRENCY ?? 2);
+  return Number.isInteger(n) && n >= 1 ? Math.min(n, 16) : 2;
+}
+
+// retry after 15s, 1min, 4min, ...
+function retryDelayMs(attempt: number) {
+  return 15_000 * 4 ** Math.max(0, attempt - 1);
+}
+
+let started = false;
+let running = 0;
+let filling = false;
+let refill = false;
+
+async function claimJob(): Promise<ClaimedJob | null> {
+  const { rows } = await pool.query(
+    `UPDATE jobs
+     SET status='running', attempts=attempts + 1, locked_at=now(), updated_at=now()
+     WHERE id = (
+       SELECT id FROM jobs
+       WHERE status='queued' AND run_at <= now() AND attempts < max_attempts
+       ORDER BY run_at ASC
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, kind, payload, attempts, max_attempts`
+  );
+  const r = rows[0];
+  if (!r) return null;
+  return {
+    id: String(r.id),
+    kind: String(r.kind),
+    payload: r.payload,
+    attempts: Number(r.attempts),
+    maxAttempts: Number(r.max_attempts),
+  };
+}
+
+async function failJob(job: { id: string; kind: string; payload: any }, error: string) {
+  await pool.query(`UPDATE jobs SET status='failed', locked_at=NULL, last_error=$2, updated_at=now() WHERE id=$1`, [
+    job.id,
+    error,
+  ]);
+  try {
+    await handlers.get(job.kind)?.onFailed?.(job.payload, error);
+  } catch (e: any) {
+    console.warn(`job onFailed failed: ${job.kind} ${job.id}`, e?.message ?? e);
+  }
+}
+
+async function runJob(job: ClaimedJob) {
+  const handler = handlers.get(job.kind);
+  try {
+    if (!handler) throw new Error(`job_kind_unknown:${job.kind}`);
+    await handler.run(job.payload, { id: job.id, attempt: job.attempts, maxAttempts: job.maxAttempts });
+    await pool.query(`DELETE FROM jobs WHERE id=$1`, [job.id]);
+  } catch (e: any) {
+    const error = String(e?.message ?? e).slice(0, 2000);
+    console.warn(`job failed: ${job.kind} ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`, error);
+    if (job.attempts >= job.maxAttempts) {
+      await failJob(job, error);
+      return;
+    }
+    await pool.query(
+      `UPDATE jobs
+       SET status='queued', locked_at=NULL, last_error=$2, updated_at=now(),
+           run_at=now() + ($3::int * interval '1 millisecond')
+       WHERE id=$1`,
+      [job.id, error, retryDelayMs(job.attempts)]
+    );
+  }
+}
+
+async function fill() {
+  if (filling) {
+    refill = true;
+    return;
+  }
+  filling = true;
+  try {
+    do {
+      refill = false;
+      while (running < jobConcurrency()) {
+        const job = await claimJob();
+        if (!job) break;
+        running += 1;
+        void runJob(job)
+          .catch((e) => console.warn(`job bookkeeping failed: ${job.kind} ${job.id}`, e?.message ?? e))
+          .finally(() => {
+            running -= 1;
+            kickJobWorker();
+          });
+      }
+    } while (refill && running < jobConcurrency());
+  } catch (e: any) {
+    console.warn("job claim failed", e?.message ?? e);
+  } finally {
+    filling = false;
+  }
+}
+
+// Looks for runnable jobs right away instead of waiting for the next poll.
+export function kickJobWorker() {
+  if (started) void fill();
+}
+
+// Requeues jobs left "running" by a worker that went away; gives up on those out of attempts.
+async function recoverStaleJobs() {
+  const exhausted = await pool.query(
+    `SELECT id, kind, payload FROM jobs
+     WHERE status='running' AND locked_at < now() - ($1::int * interval '1 millisecond') AND attempts >= max_attempts`,
+    [STALE_MS]
+  );
+  for (const r of exhausted.rows) {
+    await failJob({ id: String(r.id), kind: String(r.kind), payload: r.payload }, "job_worker_lost");
+  }
+  await pool.query(
+    `UPDATE jobs SET status='queued', locked_at=NULL, last_error='job_worker_lost', updated_at=now()
+     WHERE status='running' AND locked_at < now() - ($1::int * interval '1 millisecond')`,
+    [STALE_MS]
+  );
+  await pool.query(
+    `DELETE FROM jobs WHERE status='failed' AND updated_at < now() - ($1::bigint * interval '1 millisecond')`,
+    [FAILED_RETENTION_MS]
+  );
+}
+
+export function startJobWorker() {
+  if (started) return;
+  started = true;
+  setInterval(() => kickJobWorker(), POLL_MS);
+  setInterval(() => {
+    recoverStaleJobs().catch((e) => console.warn("job recovery failed", e?.message ?? e));
+  }, 60_000);
+  kickJobWorker();
+}
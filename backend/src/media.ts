@@ -0,0 +1,155 @@
+import { spawn } from "node:child_process";
+
+// Probing and still-frame extraction for image / MP4 attachments, via the same ffmpeg
+// (and its ffprobe) that the MP4 transcode uses. Inputs are local files: MP4s with the
+// moov atom at the end can't be read from a pipe.
+
+// widths of the WebP thumbnails generated for each image / video attachment
+export const THUMBNAIL_WIDTHS = [160, 320, 640] as const;
+// poster frames are never wider than the transcoded video itself
+export const POSTER_MAX_WIDTH = 1280;
+
+export type MediaInfo = {
+  width: number;
+  height: number;
+  // seconds; null for still images
+  duration: number | null;
+};
+
+function runTool(
+  bin: "ffmpeg" | "ffprobe",
+  args: string[],
+  opts: { timeoutMs: number; maxOutput: number; errorCode: string }
+): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    const child = spawn(bin, args, { stdio: ["ignore", "pipe", "pipe"] });
+
+    let done = false;
+    const chunks: Buffer[] = [];
+    let total = 0;
+    let stderr = "";
+
+    const finish = (err?: Error, out?: Buffer) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timeout);
+      try {
+        child.kill("SIGKILL");
+      } catch {
+        // ignore
+      }
+      if (err) reject(err);
+      else resolve(out ?? Buffer.alloc(0));
+    };
+
+    const timeout = setTimeout(() => finish(new Error(`${opts.errorCode}:timeout`)), opts.timeoutMs);
+
+    child.on("error", () => finish(new Error("media_tools_unavailable")));
+
+    child.stdout.on("data", (d: Buffer) => {
+      total += d.length;
+      if (total > opts.maxOutput) {
+        finish(new Error(`${opts.errorCode}:output_too_large`));
+        return;
+      }
+      chunks.push(d);
+    });
+
+    child.stderr.on("data", (d: Buffer) => {
+      if (stderr.length < 1500) stderr += d.toString("utf8");
+    });
+
+    child.on("close", (code) => {
+      if (code === 0) finish(undefined, Buffer.concat(chunks, total));
+      else finish(new Error(stderr.trim() ? `${opts.errorCode}:${stderr.trim()}` : opts.errorCode));
+    });
+  });
+}
+
+// Display size of the first video stream (images are a single-frame video stream to ffprobe).
+// Rotation metadata from phones is applied, so portrait videos come back portrait.
+export async function probeMedia(filePath: string): Promise<MediaInfo> {
+  const out = await runTool(
+    "ffprobe",
+    [
+      "-v",
+      "error",
+      "-select_streams",
+      "v:0",
+      "-show_entries",
+      "stream=width,height:stream_tags=rotate:stream_side_data=rotation:format=duration",
+      "-of",
+      "json",
+      filePath,
+    ],
+    { timeoutMs: 15_000, maxOutput: 64 * 1024, errorCode: "media_probe_failed" }
+  );
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(out.toString("utf8"));
+  } catch {
+    throw new Error("media_probe_failed:invalid_json");
+  }
+  const stream = parsed?.streams?.[0];
+  const w = Number(stream?.width);
+  const h = Number(stream?.height);
+  if (!Number.isInteger(w) || !Number.isInteger(h) || w <= 0 || h <= 0) throw new Error("media_probe_failed:no_video_stream");
+
+  const sideRotation = Array.isArray(stream?.side_data_list)
+    ? stream.side_data_list.find((s: any) => s?.rotation != null)?.rotation
+    : undefined;
+  const rotation = Number(sideRotation ?? stream?.tags?.rotate ?? 0);
+  const quarterTurn = Number.isFinite(rotation) && Math.abs(Math.round(rotation)) % 180 === 90;
+
+  const duration = Number(parsed?.format?.duration);
+  return {
+    width: quarterTurn ? h : w,
+    height: quarterTurn ? w : h,
+    duration: Number.isFinite(duration) && duration > 0 ? duration : null,
+  };
+}
+
+// Where the poster frame is taken from: a little way in (the first frame is often black), but inside short clips.
+export function posterSeekSeconds(info: MediaInfo): number {
+  if (info.duration == null) return 0;
+  return Math.min(1, info.duration / 2);
+}
+
+// Renders one frame as WebP, scaled down to `maxWidth` (never up). The first frame for images / animated GIFs.
+export async function renderWebpFrame(
+  filePath: string,
+  opts: { maxWidth: number; seekSeconds?: number }
+): Promise<Buffer> {
+  const seek = opts.seekSeconds && opts.seekSeconds > 0 ? ["-ss", opts.seekSeconds.toFixed(3)] : [];
+  const out = await runTool(
+    "ffmpeg",
+    [
+      "-hide_banner",
+      "-loglevel",
+      "error",
+      ...seek,
+      "-i",
+      filePath,
+      "-frames:v",
+      "1",
+      "-vf",
+      `scale='min(${opts.maxWidth},iw)':-1`,
+      "-c:v",
+      "libwebp",
+      "-quality",
+      "80",
+      "-f",
+      "webp",
+      "pipe:1",
+    ],
+    { timeoutMs: 30_000, maxOutput: 2 * 1024 * 1024, errorCode: "media_thumbnail_failed" }
+  );
+  if (out.length === 0) throw new Error("media_thumbnail_failed:empty");
+  return out;
+}
+
+// Height of a frame scaled to `width`, matching ffmpeg's `scale=w:-1` rounding.
+export function scaledHeight(info: MediaInfo, width: number): number {
+  return Math.max(1, Math.round((info.height * width) / info.width));
+}
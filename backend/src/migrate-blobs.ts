@@ -0,0 +1,125 @@
+import "dotenv/config";
+import { randomUUID } from "node:crypto";
+import { pool } from "./db.js";
+import { blobStore } from "./storage.js";
+
+// One-shot: moves BYTEA columns (message_attachments.data, stickers.data, users.avatar_data)
+// into the configured blob store and clears them. Safe to re-run / interrupt; finished rows are skipped.
+//
+// Usage:
+//   npm run blobs:migrate -- [--dry-run] [--limit N]
+
+type Target = {
+  label: string;
+  countSql: string;
+  // ids of rows still carrying bytes in the DB
+  pendingSql: string;
+  loadSql: string;
+  keyOf: (id: string) => string;
+  // only touches the row while it's still un-migrated (concurrent runs)
+  updateSql: string;
+};
+
+const targets: Target[] = [
+  {
+    label: "attachments",
+    countSql: `SELECT COUNT(*)::int AS n, COALESCE(SUM(octet_length(data)), 0)::bigint AS bytes
+               FROM message_attachments WHERE data IS NOT NULL AND storage_key IS NULL`,
+    pendingSql: `SELECT id FROM message_attachments WHERE data IS NOT NULL AND storage_key IS NULL ORDER BY created_at ASC LIMIT $1`,
+    loadSql: `SELECT mime_type AS mime, data FROM message_attachments WHERE id=$1 AND data IS NOT NULL AND storage_key IS NULL`,
+    keyOf: (id) => `attachments/${id}`,
+    updateSql: `UPDATE message_attachments SET storage_key=$2, data=NULL WHERE id=$1 AND storage_key IS NULL`,
+  },
+  {
+    label: "stickers",
+    countSql: `SELECT COUNT(*)::int AS n, COALESCE(SUM(octet_length(data)), 0)::bigint AS bytes
+               FROM stickers WHERE data IS NOT NULL AND storage_key IS NULL`,
+    pendingSql: `SELECT id FROM stickers WHERE data IS NOT NULL AND storage_key IS NULL ORDER BY created_at ASC LIMIT $1`,
+    loadSql: `SELECT mime_type AS mime, data FROM stickers WHERE id=$1 AND data IS NOT NULL AND storage_key IS NULL`,
+    keyOf: (id) => `stickers/${id}`,
+    updateSql: `UPDATE stickers SET storage_key=$2, data=NULL WHERE id=$1 AND storage_key IS NULL`,
+  },
+  {
+    label: "avatars",
+    countSql: `SELECT COUNT(*)::int AS n, COALESCE(SUM(octet_length(avatar_data)), 0)::bigint AS bytes
+               FROM users WHERE avatar_data IS NOT NULL AND avatar_key IS NULL`,
+    pendingSql: `SELECT id FROM users WHERE avatar_data IS NOT NULL AND avatar_key IS NULL ORDER BY created_at ASC LIMIT $1`,
+    loadSql: `SELECT avatar_mime AS mime, avatar_data AS data FROM users WHERE id=$1 AND avatar_data IS NOT NULL AND avatar_key IS NULL`,
+    keyOf: (id) => `avatars/${id}/${randomUUID()}`,
+    updateSql: `UPDATE users SET avatar_key=$2, avatar_data=NULL WHERE id=$1 AND avatar_key IS NULL`,
+  },
+];
+
+const mib = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MiB`;
+
+function usage(): never {
+  console.error("usage: migrate-blobs [--dry-run] [--limit N]");
+  process.exit(2);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  let limit = Infinity;
+  const li = args.indexOf("--limit");
+  if (li >= 0) {
+    limit = Number(args[li + 1]);
+    if (!Number.isInteger(limit) || limit < 1) usage();
+  }
+
+  console.log(`blob store: ${blobStore.driver}`);
+
+  if (dryRun) {
+    for (const t of targets) {
+      const c = await pool.query(t.countSql);
+      console.log(`${t.label}: would move ${c.rows[0].n} row(s), ${mib(Number(c.rows[0].bytes))}`);
+    }
+    return;
+  }
+
+  let totalRows = 0;
+  for (const t of targets) {
+    let rows = 0;
+    let bytes = 0;
+    while (rows < limit) {
+      // ids only; bytes are loaded one row at a time. Moved rows drop out of this query.
+      const batch = await pool.query(t.pendingSql, [Math.min(100, limit - rows)]);
+      if (batch.rows.length === 0) break;
+
+      for (const b of batch.rows) {
+        const id = String(b.id);
+        const r = await pool.query(t.loadSql, [id]);
+        const row = r.rows[0];
+        if (!row) continue; // deleted or migrated meanwhile
+        const data = row.data as Buffer;
+        const key = t.keyOf(id);
+
+        await blobStore.put(key, data, String(row.mime || "application/octet-stream"));
+        const stored = await blobStore.size(key);
+        if (stored !== data.length) throw new Error(`blob_verify_failed:${key}: expected ${data.length} bytes, got ${stored}`);
+        const u = await pool.query(t.updateSql, [id, key]);
+        if ((u.rowCount ?? 0) === 0) {
+          // another run finished this row first
+          await blobStore.delete(key);
+          continue;
+        }
+        rows += 1;
+        bytes += data.length;
+      }
+    }
+    console.log(`${t.label}: moved ${rows} row(s), ${mib(bytes)}`);
+    totalRows += rows;
+  }
+
+  if (totalRows > 0) {
+    // data=NULL leaves dead tuples behind; only VACUUM FULL gives the space back to the filesystem
+    console.log("done. Run `VACUUM FULL message_attachments, stickers, users;` to shrink the database files.");
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e?.message ?? e);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
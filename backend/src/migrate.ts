@@ -0,0 +1,61 @@
+import "dotenv/config";
+import { pool } from "./db.js";
+import { migrateDown, migrateUp, migrationStatus } from "./migrations.js";
+
+// Usage:
+//   npm run migrate -- status
+//   npm run migrate -- up [--dry-run]
+//   npm run migrate -- down [steps] [--dry-run]
+
+function usage(): never {
+  console.error("usage: migrate <status|up|down> [steps] [--dry-run]");
+  process.exit(2);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const [cmd, stepsRaw] = args.filter((a) => !a.startsWith("--"));
+  const log = (line: string) => console.log(line);
+
+  if (cmd === "status") {
+    const s = await migrationStatus(pool);
+    for (const a of s.applied) {
+      const flag = s.unknown.some((u) => u.version === a.version)
+        ? " (unknown to this build)"
+        : s.modified.some((m) => m.version === a.version)
+          ? " (modified since applied)"
+          : "";
+      console.log(`applied  ${a.version}_${a.name}  ${a.appliedAt.toISOString()}${flag}`);
+    }
+    for (const p of s.pending) console.log(`pending  ${p.version}_${p.name}${p.downSql ? "" : "  (irreversible)"}`);
+    if (s.unknown.length > 0) {
+      console.log("schema is ahead of the code; the server will refuse to start");
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (cmd === "up") {
+    const done = await migrateUp(pool, { dryRun, log });
+    console.log(done.length ? `${dryRun ? "would apply" : "applied"} ${done.length} migration(s)` : "up to date");
+    return;
+  }
+
+  if (cmd === "down") {
+    const steps = stepsRaw ? Number(stepsRaw) : 1;
+    if (!Number.isInteger(steps) || steps < 1) usage();
+    const done = await migrateDown(pool, { steps, dryRun, log });
+    console.log(`${dryRun ? "would revert" : "reverted"} ${done.length} migration(s)`);
+    return;
+  }
+
+  usage();
+}
+
+main()
+  .catch((e) => {
+    console.error(e?.message ?? e);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,238 @@
+import type { Pool, PoolClient } from "pg";
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+// Migration files live in backend/migrations/ and are named
+//   NNNN_description.up.sql   (required)
+//   NNNN_description.down.sql (optional; without it the migration can't be rolled back)
+// Each file is applied inside its own transaction together with its schema_migrations row.
+
+export type Migration = {
+  version: number;
+  name: string;
+  upSql: string;
+  downSql: string | null;
+  checksum: string;
+};
+
+export type AppliedMigration = {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+};
+
+export type MigrationStatus = {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  // versions recorded in the DB that this build doesn't know about (schema is ahead of the code)
+  unknown: AppliedMigration[];
+  // versions whose file content changed after being applied
+  modified: Array<{ version: number; name: string }>;
+};
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("../migrations/", import.meta.url));
+const FILE_REGEX = /^(\d{4,})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Arbitrary constant used with pg_advisory_lock so concurrent boots don't apply migrations twice.
+const MIGRATION_LOCK_KEY = 0x7975_6972; // "yuir"
+
+function checksumOf(sql: string) {
+  return createHash("sha256").update(sql.replace(/\r\n/g, "\n")).digest("hex");
+}
+
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+  for (const file of readdirSync(dir).sort()) {
+    const m = FILE_REGEX.exec(file);
+    if (!m || !m[1] || !m[2] || !m[3]) continue;
+    const version = Number(m[1]);
+    const name = m[2];
+    const entry = byVersion.get(version) ?? { name };
+    if (entry.name !== name) throw new Error(`migration_version_conflict:${version}`);
+    const sql = readFileSync(`${dir}/${file}`, "utf-8");
+    if (m[3] === "up") entry.up = sql;
+    else entry.down = sql;
+    byVersion.set(version, entry);
+  }
+
+  const out: Migration[] = [];
+  for (const [version, e] of [...byVersion.entries()].sort((a, b) => a[0] - b[0])) {
+    if (!e.up) throw new Error(`migration_up_missing:${version}_${e.name}`);
+    out.push({ version, name: e.name, upSql: e.up, downSql: e.down ?? null, checksum: checksumOf(e.up) });
+  }
+  return out;
+}
+
+async function ensureMigrationsTable(db: Pool | PoolClient) {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INT PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  `);
+}
+
+async function readApplied(db: Pool | PoolClient): Promise<AppliedMigration[]> {
+  const { rows } = await db.query(
+    `SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version ASC`
+  );
+  return rows.map((r) => ({
+    version: Number(r.version),
+    name: String(r.name),
+    checksum: String(r.checksum),
+    appliedAt: new Date(r.applied_at),
+  }));
+}
+
+function diff(applied: AppliedMigration[], migrations: Migration[]): MigrationStatus {
+  const known = new Map(migrations.map((m) => [m.version, m]));
+  const appliedVersions = new Set(applied.map((a) => a.version));
+  const unknown = applied.filter((a) => !known.has(a.version));
+  const modified = applied
+    .filter((a) => known.has(a.version) && known.get(a.version)!.checksum !== a.checksum)
+    .map((a) => ({ version: a.version, name: a.name }));
+  const pending = migrations.filter((m) => !appliedVersions.has(m.version));
+  return { applied, pending, unknown, modified };
+}
+
+export async function migrationStatus(pool: Pool, migrations = loadMigrations()): Promise<MigrationStatus> {
+  await ensureMigrationsTable(pool);
+  return diff(await readApplied(pool), migrations);
+}
+
+async function withMigrationLock<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query(`SELECT pg_advisory_lock($1)`, [MIGRATION_LOCK_KEY]);
+    try {
+      await ensureMigrationsTable(client);
+      return await fn(client);
+    } finally {
+      await client.query(`SELECT pg_advisory_unlock($1)`, [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+function assertNotAhead(status: MigrationStatus) {
+  if (status.unknown.length === 0) return;
+  const versions = status.unknown.map((u) => `${u.version}_${u.name}`).join(", ");
+  throw new Error(`schema_ahead_of_code: database has migrations unknown to this build (${versions})`);
+}
+
+// Applies every pending migration, each in its own transaction.
+// With dryRun, all pending migrations run inside a single transaction that is rolled back at the end,
+// so syntax/constraint errors surface without touching the schema.
+export async function migrateUp(
+  pool: Pool,
+  opts: { dryRun?: boolean; log?: (line: string) => void } = {}
+): Promise<Migration[]> {
+  const log = opts.log ?? (() => {});
+  const migrations = loadMigrations();
+  return await withMigrationLock(pool, async (client) => {
+    const status = diff(await readApplied(client), migrations);
+    assertNotAhead(status);
+    if (status.pending.length === 0) return [];
+
+    if (opts.dryRun) {
+      await client.query("BEGIN");
+      try {
+        for (const m of status.pending) {
+          log(`[dry-run] apply ${m.version}_${m.name}`);
+          await client.query(m.upSql);
+        }
+      } finally {
+        await client.query("ROLLBACK");
+      }
+      return status.pending;
+    }
+
+    for (const m of status.pending) {
+      log(`apply ${m.version}_${m.name}`);
+      await client.query("BEGIN");
+      try {
+        await client.query(m.upSql);
+        await client.query(
+          `INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)`,
+          [m.version, m.name, m.checksum]
+        );
+        await client.query("COMMIT");
+      } catch (e) {
+        await client.query("ROLLBACK");
+        throw new Error(`migration_failed:${m.version}_${m.name}: ${String((e as any)?.message ?? e)}`);
+      }
+    }
+    return status.pending;
+  });
+}
+
+// Rolls back the newest `steps` applied migrations using their .down.sql files.
+export async function migrateDown(
+  pool: Pool,
+  opts: { steps?: number; dryRun?: boolean; log?: (line: string) => void } = {}
+): Promise<Migration[]> {
+  const log = opts.log ?? (() => {});
+  const steps = Math.max(1, Math.floor(opts.steps ?? 1));
+  const migrations = loadMigrations();
+  return await withMigrationLock(pool, async (client) => {
+    const status = diff(await readApplied(client), migrations);
+    assertNotAhead(status);
+
+    const known = new Map(migrations.map((m) => [m.version, m]));
+    const targets = [...status.applied]
+      .reverse()
+      .slice(0, steps)
+      .map((a) => known.get(a.version)!);
+    for (const m of targets) {
+      if (!m.downSql) throw new Error(`migration_irreversible:${m.version}_${m.name}`);
+    }
+
+    if (opts.dryRun) {
+      await client.query("BEGIN");
+      try {
+        for (const m of targets) {
+          log(`[dry-run] revert ${m.version}_${m.name}`);
+          await client.query(m.downSql!);
+        }
+      } finally {
+        await client.query("ROLLBACK");
+      }
+      return targets;
+    }
+
+    for (const m of targets) {
+      log(`revert ${m.version}_${m.name}`);
+      await client.query("BEGIN");
+      try {
+        await client.query(m.downSql!);
+        await client.query(`DELETE FROM schema_migrations WHERE version=$1`, [m.version]);
+        await client.query("COMMIT");
+      } catch (e) {
+        await client.query("ROLLBACK");
+        throw new Error(`migration_revert_failed:${m.version}_${m.name}: ${String((e as any)?.message ?? e)}`);
+      }
+    }
+    return targets;
+  });
+}
+
+// Called on boot. Refuses to continue when the DB carries migrations this build doesn't know about,
+// applies pending migrations when autoMigrate is on, and otherwise refuses to serve a stale schema.
+export async function prepareSchema(pool: Pool, opts: { autoMigrate: boolean }) {
+  const status = await migrationStatus(pool);
+  assertNotAhead(status);
+  for (const m of status.modified) {
+    console.warn(`migration_checksum_mismatch: ${m.version}_${m.name} changed after it was applied`);
+  }
+  if (status.pending.length === 0) return;
+  if (!opts.autoMigrate) {
+    const versions = status.pending.map((m) => `${m.version}_${m.name}`).join(", ");
+    throw new Error(`schema_pending_migrations: run \`npm run migrate -- up\` first (${versions})`);
+  }
+  await migrateUp(pool, { log: (line) => console.log(`migrate: ${line}`) });
+}
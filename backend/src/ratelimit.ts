@@ -0,0 +1,214 @@
+import { readFileSync } from "node:fs";
+import { pool } from "./db.js";
+
+// Fixed-window rate limits shared by HTTP routes and WebSocket messages.
+//   RATE_LIMIT_STORE=postgres (default): counters in the rate_limits table, shared by every backend and kept across restarts
+//   RATE_LIMIT_STORE=memory: per-process counters (single instance / development)
+// Limits default to RATE_LIMIT_DEFAULTS and can be overridden by
+//   RATE_LIMITS_FILE: JSON file, e.g. { "message_create": { "max": 20, "windowMs": 10000 } }
+//   RATE_LIMIT_<NAME>: "<max>/<window seconds>" (e.g. RATE_LIMIT_MESSAGE_CREATE=20/10) or "off"
+// Env wins over the file.
+
+export type RateLimitRule = { max: number; windowMs: number };
+
+export const RATE_LIMIT_DEFAULTS: Record<string, RateLimitRule> = {
+  // auth (per IP unless noted)
+  auth_register_options: { max: 10, windowMs: 60_000 },
+  auth_register_verify: { max: 10, windowMs: 60_000 },
+  auth_login_options: { max: 20, windowMs: 60_000 },
+  auth_login_verify: { max: 20, windowMs: 60_000 },
+  auth_refresh: { max: 60, windowMs: 60_000 },
+  auth_recovery: { max: 10, windowMs: 10 * 60_000 },
+  // per target user, so guessing codes for one account from many IPs is capped too
+  auth_recovery_user: { max: 10, windowMs: 60 * 60_000 },
+  // per user: options + regenerate
+  recovery_codes: { max: 20, windowMs: 10 * 60_000 },
+  // per user: re-confirmation options + passkey add / remove
+  passkeys_update: { max: 30, windowMs: 10 * 60_000 },
+
+  // messages
+  message_create: { max: 20, windowMs: 10_000 },
+  message_edit: { max: 60, windowMs: 60_000 },
+  message_delete: { max: 60, windowMs: 60_000 },
+  reaction_toggle: { max: 80, windowMs: 10_000 },
+  poll_create: { max: 10, windowMs: 60_000 },
+  poll_vote: { max: 60, windowMs: 10_000 },
+  thread_create: { max: 10, windowMs: 60_000 },
+  message_pin: { max: 30, windowMs: 60_000 },
+  read_ack: { max: 120, windowMs: 60_000 },
+  notifications_update: { max: 120, windowMs: 60_000 },
+  notification_settings: { max: 60, windowMs: 60_000 },
+  room_message_search: { max: 30, windowMs: 10_000 },
+  invites_join: { max: 30, windowMs: 60_000 },
+  // options + transfer, so about 10 attempts
+  room_transfer: { max: 20, windowMs: 10 * 60_000 },
+
+  // DM
+  dm_message_create: { max: 15, windowMs: 10_000 },
+  dm_reaction_toggle: { max: 50, windowMs: 10_000 },
+  dm_message_search: { max: 30, windowMs: 10_000 },
+
+  // files
+  uploads_create: { max: 30, windowMs: 60_000 },
+  attachment_get: { max: 300, windowMs: 60_000 },
+  attachment_preview_get: { max: 600, windowMs: 60_000 },
+  attachment_url: { max: 120, windowMs: 60_000 },
+  stickers_list: { max: 30, windowMs: 10_000 },
+  stickers_create: { max: 30, windowMs: 60_000 },
+  stickers_delete: { max: 60, windowMs: 60_000 },
+  stickers_get: { max: 300, windowMs: 60_000 },
+  room_stickers_list: { max: 30, windowMs: 10_000 },
+  room_stickers_create: { max: 40, windowMs: 60_000 },
+  room_stickers_delete: { max: 80, windowMs: 60_000 },
+
+  // WebSocket (connections per IP, messages per user)
+  ws_conn: { max: 60, windowMs: 60_000 },
+  ws_any: { max: 200, windowMs: 10_000 },
+  ws_subscribe: { max: 120, windowMs: 60_000 },
+  ws_unsubscribe: { max: 240, windowMs: 60_000 },
+  ws_subscribe_thread: { max: 120, windowMs: 60_000 },
+  ws_unsubscribe_thread: { max: 240, windowMs: 60_000 },
+  ws_subscribe_dm: { max: 120, windowMs: 60_000 },
+  ws_unsubscribe_dm: { max: 240, windowMs: 60_000 },
+  ws_subscribe_home: { max: 30, windowMs: 60_000 },
+  ws_unsubscribe_home: { max: 60, windowMs: 60_000 },
+};
+
+function parseRule(name: string, raw: unknown, source: string): RateLimitRule | null {
+  if (raw === "off") return null;
+  let max = NaN;
+  let windowMs = NaN;
+  if (typeof raw === "string") {
+    const m = /^(\d+)\/(\d+)$/.exec(raw.trim());
+    if (m) {
+      max = Number(m[1]);
+      windowMs = Number(m[2]) * 1000;
+    }
+  } else if (raw && typeof raw === "object") {
+    max = Number((raw as any).max);
+    windowMs = Number((raw as any).windowMs);
+  }
+  if (!Number.isInteger(max) || max < 1 || !Number.isInteger(windowMs) || windowMs < 1000) {
+    throw new Error(`invalid rate limit for ${name} in ${source}`);
+  }
+  return { max, windowMs };
+}
+
+// null = limit disabled
+export function loadRateLimitRules(): Record<string, RateLimitRule | null> {
+  const rules: Record<string, RateLimitRule | null> = { ...RATE_LIMIT_DEFAULTS };
+
+  const file = (process.env.RATE_LIMITS_FILE ?? "").trim();
+  if (file) {
+    const parsed = JSON.parse(readFileSync(file, "utf-8"));
+    if (!parsed || typeof parsed !== "object") throw new Error(`${file}: expected an object`);
+    for (const [name, raw] of Object.entries(parsed)) {
+      if (!(name in RATE_LIMIT_DEFAULTS)) console.warn(`${file}: unknown rate limit "${name}" ignored`);
+      else rules[name] = parseRule(name, raw, file);
+    }
+  }
+
+  for (const name of Object.keys(RATE_LIMIT_DEFAULTS)) {
+    const raw = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+    if (raw != null && raw.trim()) rules[name] = parseRule(name, raw.trim(), `RATE_LIMIT_${name.toUpperCase()}`);
+  }
+  return rules;
+}
+
+// --- stores ---
+
+export type RateLimitCounter = { count: number; resetAt: number };
+
+export type RateLimitStore = {
+  driver: "memory" | "postgres";
+  // counts one hit and returns the window's total including it
+  hit(key: string, windowMs: number): Promise<RateLimitCounter>;
+  // counters whose window hasn't ended yet
+  active(): Promise<Array<RateLimitCounter & { key: string }>>;
+};
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const state = new Map<string, RateLimitCounter>();
+  let cleanupCounter = 0;
+  return {
+    driver: "memory",
+    async hit(key, windowMs) {
+      const now = Date.now();
+      const cur = state.get(key);
+      if (!cur || now >= cur.resetAt) {
+        const fresh = { count: 1, resetAt: now + windowMs };
+        state.set(key, fresh);
+        if ((cleanupCounter++ & 0xff) === 0) {
+          for (const [k, v] of state) {
+            if (now >= v.resetAt) state.delete(k);
+          }
+        }
+        return { ...fresh };
+      }
+      cur.count += 1;
+      return { ...cur };
+    },
+    async active() {
+      const now = Date.now();
+      return Array.from(state, ([key, v]) => ({ key, ...v })).filter((e) => e.resetAt > now);
+    },
+  };
+}
+
+export function createPostgresRateLimitStore(): RateLimitStore {
+  let cleanupCounter = 0;
+  return {
+    driver: "postgres",
+    async hit(key, windowMs) {
+      const { rows } = await pool.query(
+        `INSERT INTO rate_limits (key, count, reset_at)
+         VALUES ($1, 1, now() + ($2::int * interval '1 millisecond'))
+         ON CONFLICT (key) DO UPDATE SET
+           count = CASE WHEN rate_limits.reset_at <= now() THEN 1 ELSE rate_limits.count + 1 END,
+           reset_at = CASE WHEN rate_limits.reset_at <= now() THEN EXCLUDED.reset_at ELSE rate_limits.reset_at END
+         RETURNING count, reset_at`,
+        [key, windowMs]
+      );
+      if ((cleanupCounter++ & 0x3ff) === 0) {
+        void pool.query(`DELETE FROM rate_limits WHERE reset_at <= now()`).catch(() => {});
+      }
+      return { count: Number(rows[0].count), resetAt: new Date(rows[0].reset_at).getTime() };
+    },
+    async active() {
+      const { rows } = await pool.query(`SELECT key, count, reset_at FROM rate_limits WHERE reset_at > now()`);
+      return rows.map((r) => ({ key: String(r.key), count: Number(r.count), resetAt: new Date(r.reset_at).getTime() }));
+    },
+  };
+}
+
+export function createRateLimitStoreFromEnv(): RateLimitStore {
+  const driver = (process.env.RATE_LIMIT_STORE ?? "").trim().toLowerCase() || "postgres";
+  if (driver === "postgres") return createPostgresRateLimitStore();
+  if (driver === "memory") return createMemoryRateLimitStore();
+  throw new Error(`unknown RATE_LIMIT_STORE: ${driver}`);
+}
+
+export const rateLimitRules = loadRateLimitRules();
+export const rateLimitStore = createRateLimitStoreFromEnv();
+
+export type RateLimitResult = {
+  allowed: boolean;
+  // null when the limit is disabled
+  rule: RateLimitRule | null;
+  remaining: number;
+  resetAt: number;
+};
+
+// subject: "u:<userId>" or "ip:<address>". A failing store lets the request through (logged).
+export async function consumeRateLimit(name: string, subject: string): Promise<RateLimitResult> {
+  const rule = rateLimitRules[name];
+  if (rule === undefined) throw new Error(`unknown rate limit: ${name}`);
+  if (rule === null) return { allowed: true, rule: null, remaining: 0, resetAt: 0 };
+  try {
+    const c = await rateLimitStore.hit(`${name}:${subject}`, rule.windowMs);
+    return { allowed: c.count <= rule.max, rule, remaining: Math.max(0, rule.max - c.count), resetAt: c.resetAt };
+  } catch (e: any) {
+    console.warn(`rate limit store failed (${name})`, e?.message ?? e);
+    return { allowed: true, rule, remaining: rule.max, resetAt: Date.now() + rule.windowMs };
+  }
+}
@@ -0,0 +1,280 @@
+import { createHash, createHmac, randomUUID } from "node:crypto";
+import { createReadStream, readFileSync } from "node:fs";
+import { copyFile, mkdir, rename, rm, stat, writeFile } from "node:fs/promises";
+import { dirname, resolve, sep } from "node:path";
+import { Readable } from "node:stream";
+
+// Blob storage for attachment / sticker / avatar bytes.
+//   STORAGE_DRIVER=local (default): files under STORAGE_DIR (default ./data/blobs)
+//   STORAGE_DRIVER=s3: any S3-compatible endpoint (AWS S3, MinIO, ...)
+// Rows written before this existed still carry their bytes in BYTEA columns;
+// `npm run blobs:migrate` moves them into the configured store.
+
+// inclusive byte range, same as HTTP Range
+export type BlobRange = { start: number; end: number };
+
+export type BlobStore = {
+  driver: "local" | "s3";
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // streams a local (temp) file into the store without loading it into memory
+  putFile(key: string, filePath: string, contentType: string): Promise<void>;
+  // null when the blob doesn't exist
+  size(key: string): Promise<number | null>;
+  read(key: string, range?: BlobRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+};
+
+function readEnvOrFile(name: string): string | null {
+  const direct = (process.env[name] ?? "").trim();
+  if (direct) return direct;
+  const path = (process.env[`${name}_FILE`] ?? "").trim();
+  if (!path) return null;
+  try {
+    const v = readFileSync(path, "utf-8").trim();
+    return v ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+const KEY_REGEX = /^[a-zA-Z0-9_.-]+(\/[a-zA-Z0-9_.-]+)*$/;
+
+function assertValidKey(key: string) {
+  if (!KEY_REGEX.test(key) || key.split("/").some((s) => s === "." || s === "..")) {
+    throw new Error(`blob_invalid_key:${key}`);
+  }
+}
+
+// --- local filesystem ---
+
+export function createLocalBlobStore(rootDir: string): BlobStore {
+  const root = resolve(rootDir);
+  const pathOf = (key: string) => {
+    assertValidKey(key);
+    const p = resolve(root, key);
+    if (!p.startsWith(root + sep)) throw new Error(`blob_invalid_key:${key}`);
+    return p;
+  };
+
+  // write-then-rename so readers never see a half-written file
+  const writeAtomic = async (key: string, write: (tmp: string) => Promise<void>) => {
+    const p = pathOf(key);
+    await mkdir(dirname(p), { recursive: true });
+    const tmp = `${p}.${randomUUID()}.tmp`;
+    try {
+      await write(tmp);
+      await rename(tmp, p);
+    } catch (e) {
+      await rm(tmp, { force: true });
+      throw e;
+    }
+  };
+
+  return {
+    driver: "local",
+    async put(key, data) {
+      await writeAtomic(key, (tmp) => writeFile(tmp, data));
+    },
+    async putFile(key, filePath) {
+      await writeAtomic(key, (tmp) => copyFile(filePath, tmp));
+    },
+    async size(key) {
+      try {
+        const s = await stat(pathOf(key));
+        return s.isFile() ? s.size : null;
+      } catch (e: any) {
+        if (e?.code === "ENOENT") return null;
+        throw e;
+      }
+    },
+    async read(key, range) {
+      const p = pathOf(key);
+      const s = await stat(p).catch(() => null);
+      if (!s?.isFile()) throw new Error(`blob_not_found:${key}`);
+      return createReadStream(p, range ? { start: range.start, end: range.end } : {});
+    },
+    async delete(key) {
+      await rm(pathOf(key), { force: true });
+    },
+  };
+}
+
+// --- S3 compatible (AWS Signature V4, no SDK) ---
+
+export type S3Config = {
+  endpoint: string; // e.g. https://s3.ap-northeast-1.amazonaws.com or http://minio:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix: string;
+  // MinIO needs path-style (endpoint/bucket/key); AWS prefers virtual-hosted (bucket.endpoint/key)
+  forcePathStyle: boolean;
+};
+
+const EMPTY_SHA256 = createHash("sha256").update("").digest("hex");
+
+function sha256Hex(data: string | Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+async function sha256HexOfFile(filePath: string) {
+  const h = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) h.update(chunk as Buffer);
+  return h.digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string) {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding as required by SigV4 canonical URIs
+function encodeRfc3986(s: string) {
+  return encodeURIComponent(s).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export function createS3BlobStore(cfg: S3Config): BlobStore {
+  const endpoint = new URL(cfg.endpoint);
+  const basePath = endpoint.pathname.replace(/\/+$/, "");
+
+  const urlOf = (key: string) => {
+    assertValidKey(key);
+    const objectKey = cfg.prefix ? `${cfg.prefix}/${key}` : key;
+    const encodedKey = objectKey.split("/").map(encodeRfc3986).join("/");
+    const u = new URL(endpoint.toString());
+    if (cfg.forcePathStyle) {
+      u.pathname = `${basePath}/${encodeRfc3986(cfg.bucket)}/${encodedKey}`;
+    } else {
+      u.hostname = `${cfg.bucket}.${endpoint.hostname}`;
+      u.pathname = `${basePath}/${encodedKey}`;
+    }
+    return u;
+  };
+
+  const signedFetch = async (
+    method: "GET" | "PUT" | "HEAD" | "DELETE",
+    key: string,
+    opts: { body?: Buffer | { filePath: string; sha256: string }; headers?: Record<string, string> } = {}
+  ) => {
+    const url = urlOf(key);
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, ""); // YYYYMMDDTHHMMSSZ
+    const day = amzDate.slice(0, 8);
+    const body = opts.body;
+    const payloadHash = !body ? EMPTY_SHA256 : Buffer.isBuffer(body) ? sha256Hex(body) : body.sha256;
+
+    const headers: Record<string, string> = {
+      ...(opts.headers ?? {}),
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    const signedNames = Object.keys(headers)
+      .map((h) => h.toLowerCase())
+      .sort();
+    const lower = new Map(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v.trim()]));
+    const canonicalHeaders = signedNames.map((h) => `${h}:${lower.get(h)}\n`).join("");
+    const signedHeaders = signedNames.join(";");
+
+    const canonicalRequest = [method, url.pathname, "", canonicalHeaders, signedHeaders, payloadHash].join("\n");
+    const scope = `${day}/${cfg.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+    const kDate = hmac(`AWS4${cfg.secretAccessKey}`, day);
+    const kRegion = hmac(kDate, cfg.region);
+    const kService = hmac(kRegion, "s3");
+    const kSigning = hmac(kService, "aws4_request");
+    const signature = createHmac("sha256", kSigning).update(stringToSign).digest("hex");
+
+    const { host: _host, ...sendHeaders } = headers;
+    return await fetch(url, {
+      method,
+      headers: {
+        ...sendHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${cfg.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      ...(!body
+        ? {}
+        : Buffer.isBuffer(body)
+          ? { body: body as Uint8Array<ArrayBuffer> }
+          : { body: Readable.toWeb(createReadStream(body.filePath)) as ReadableStream, duplex: "half" as const }),
+    });
+  };
+
+  const fail = async (op: string, key: string, r: Response): Promise<never> => {
+    const text = await r.text().catch(() => "");
+    throw new Error(`blob_s3_${op}_failed:${key}: HTTP ${r.status} ${text.slice(0, 300)}`);
+  };
+
+  return {
+    driver: "s3",
+    async put(key, data, contentType) {
+      const r = await signedFetch("PUT", key, {
+        body: data,
+        headers: { "content-type": contentType, "content-length": String(data.length) },
+      });
+      if (!r.ok) await fail("put", key, r);
+      await r.arrayBuffer().catch(() => null);
+    },
+    async putFile(key, filePath, contentType) {
+      const s = await stat(filePath);
+      const r = await signedFetch("PUT", key, {
+        body: { filePath, sha256: await sha256HexOfFile(filePath) },
+        headers: { "content-type": contentType, "content-length": String(s.size) },
+      });
+      if (!r.ok) await fail("put", key, r);
+      await r.arrayBuffer().catch(() => null);
+    },
+    async size(key) {
+      const r = await signedFetch("HEAD", key);
+      if (r.status === 404) return null;
+      if (!r.ok) await fail("head", key, r);
+      const len = Number(r.headers.get("content-length"));
+      return Number.isFinite(len) ? len : null;
+    },
+    async read(key, range) {
+      const r = await signedFetch("GET", key, range ? { headers: { range: `bytes=${range.start}-${range.end}` } } : {});
+      if (r.status === 404) throw new Error(`blob_not_found:${key}`);
+      if (!r.ok || !r.body) await fail("get", key, r);
+      return Readable.fromWeb(r.body as any);
+    },
+    async delete(key) {
+      const r = await signedFetch("DELETE", key);
+      // S3 returns 204 even if the object didn't exist; some implementations return 404
+      if (!r.ok && r.status !== 404) await fail("delete", key, r);
+      await r.arrayBuffer().catch(() => null);
+    },
+  };
+}
+
+export function createBlobStoreFromEnv(): BlobStore {
+  const driver = (process.env.STORAGE_DRIVER ?? "local").trim().toLowerCase();
+  if (driver === "local") {
+    return createLocalBlobStore((process.env.STORAGE_DIR ?? "").trim() || "./data/blobs");
+  }
+  if (driver === "s3") {
+    const endpoint = (process.env.S3_ENDPOINT ?? "").trim();
+    const region = (process.env.S3_REGION ?? "").trim() || "us-east-1";
+    const bucket = (process.env.S3_BUCKET ?? "").trim();
+    const accessKeyId = readEnvOrFile("S3_ACCESS_KEY_ID");
+    const secretAccessKey = readEnvOrFile("S3_SECRET_ACCESS_KEY");
+    if (!bucket) throw new Error("S3_BUCKET must be set when STORAGE_DRIVER=s3");
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error("S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY must be set when STORAGE_DRIVER=s3");
+    }
+    const pathStyleRaw = (process.env.S3_FORCE_PATH_STYLE ?? "").trim().toLowerCase();
+    return createS3BlobStore({
+      endpoint: endpoint || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket,
+      accessKeyId,
+      secretAccessKey,
+      prefix: (process.env.S3_PREFIX ?? "").trim().replace(/^\/+|\/+$/g, ""),
+      // default: path-style for custom endpoints (MinIO), virtual-hosted for AWS
+      forcePathStyle: pathStyleRaw ? pathStyleRaw === "true" || pathStyleRaw === "1" : !!endpoint,
+    });
+  }
+  throw new Error(`unknown STORAGE_DRIVER: ${driver}`);
+}
+
+export const blobStore = createBlobStoreFromEnv();
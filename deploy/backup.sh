@@ -38,3 +38,11 @@ tar -C "$tmp" -czf "$out" .
 
 echo "OK: $out"
 
+# Blobs (STORAGE_DRIVER=local) are copied into a shared directory rather than into every tarball.
+if docker compose exec -T backend test -d /app/data/blobs 2>/dev/null; then
+  echo "Syncing blobs..."
+  mkdir -p "$BACKUP_DIR/blobs"
+  docker compose cp backend:/app/data/blobs/. "$BACKUP_DIR/blobs/"
+  echo "OK: $BACKUP_DIR/blobs"
+fi
+
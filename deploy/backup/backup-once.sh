@@ -7,6 +7,7 @@ BACKUP_KEEP="${BACKUP_KEEP:-30}"
 VERIFY_BACKUP="${VERIFY_BACKUP:-0}"
 VERIFY_DB_NAME="${VERIFY_DB_NAME:-yuiroom_verify}"
 KEEP_VERIFY_DB="${KEEP_VERIFY_DB:-0}"
+BLOBS_DIR="${BLOBS_DIR:-}"
 
 mkdir -p "$BACKUP_DIR"
 
@@ -47,6 +48,15 @@ tar -C "$tmp" -czf "$out" .
 
 echo "OK: $out"
 
+# Attachment/sticker/avatar files (STORAGE_DRIVER=local). Blobs are never rewritten under the same key,
+# so an incremental no-clobber copy into one shared directory is enough (not duplicated per backup).
+if [ -n "$BLOBS_DIR" ] && [ -d "$BLOBS_DIR" ]; then
+  echo "Syncing blobs..."
+  mkdir -p "$BACKUP_DIR/blobs"
+  cp -a -n "$BLOBS_DIR/." "$BACKUP_DIR/blobs/"
+  echo "OK: $BACKUP_DIR/blobs"
+fi
+
 if [ "$VERIFY_BACKUP" = "1" ]; then
   if ! [[ "$VERIFY_DB_NAME" =~ ^[a-zA-Z0-9_]+$ ]]; then
     echo "VERIFY_DB_NAME must match ^[a-zA-Z0-9_]+$" >&2
@@ -51,5 +51,10 @@ docker compose exec -T postgres sh -eu -c 'psql -U "$POSTGRES_USER" -d "$POSTGRE
 echo "Restarting stack..."
 docker compose up -d
 
+if [ -d "$ROOT_DIR/backups/blobs" ]; then
+  echo "Restoring blobs..."
+  docker compose cp "$ROOT_DIR/backups/blobs/." backend:/app/data/blobs/
+fi
+
 echo "OK"
 
@@ -1,34 +1,199 @@
-const { app, BrowserWindow, shell } = require("electron");
+const { app, BrowserWindow, Menu, Notification, Tray, ipcMain, nativeImage, screen, shell } = require("electron");
+const fs = require("node:fs");
+const path = require("node:path");
+
+const startUrl = process.env.ELECTRON_START_URL || "http://localhost:5173";
+const ASSETS = path.join(__dirname, "assets");
+
+/** @type {BrowserWindow | null} */
+let win = null;
+/** @type {Tray | null} */
+let tray = null;
+let badgeCount = 0;
+
+// --- ウィンドウの位置とサイズ（userData/window-state.json） ---
+
+function windowStatePath() {
+  return path.join(app.getPath("userData"), "window-state.json");
+}
+
+function loadWindowState() {
+  const fallback = { width: 1280, height: 720 };
+  try {
+    const s = JSON.parse(fs.readFileSync(windowStatePath(), "utf-8"));
+    if (!Number.isInteger(s.width) || !Number.isInteger(s.height)) return fallback;
+    const state = { width: Math.max(480, s.width), height: Math.max(360, s.height), maximized: !!s.maximized };
+    // 外したモニターの上には出さない
+    if (Number.isInteger(s.x) && Number.isInteger(s.y)) {
+      const visible = screen.getAllDisplays().some(({ workArea: a }) => {
+        return s.x < a.x + a.width && s.x + state.width > a.x && s.y < a.y + a.height && s.y + state.height > a.y;
+      });
+      if (visible) Object.assign(state, { x: s.x, y: s.y });
+    }
+    return state;
+  } catch {
+    return fallback;
+  }
+}
+
+function saveWindowState() {
+  if (!win || win.isDestroyed()) return;
+  const bounds = win.getNormalBounds();
+  try {
+    fs.writeFileSync(windowStatePath(), JSON.stringify({ ...bounds, maximized: win.isMaximized() }));
+  } catch {}
+}
+
+// --- ウィンドウ / トレイ ---
+
+function showWindow() {
+  if (!win) return;
+  if (win.isMinimized()) win.restore();
+  win.show();
+  win.focus();
+}
+
+function isAppUrl(url) {
+  return typeof url === "string" && (url === startUrl || url.startsWith(startUrl + "/"));
+}
+
+function isHttpUrl(url) {
+  return typeof url === "string" && /^https?:\/\//i.test(url);
+}
+
+function updateTray() {
+  if (!tray) return;
+  tray.setToolTip(badgeCount > 0 ? `YuiRoom（未読 ${badgeCount}）` : "YuiRoom");
+}
+
+function createTray() {
+  const icon = nativeImage.createFromPath(path.join(ASSETS, "tray.png"));
+  tray = new Tray(process.platform === "darwin" ? icon.resize({ width: 16, height: 16 }) : icon);
+  tray.setContextMenu(
+    Menu.buildFromTemplate([
+      { label: "YuiRoomを開く", click: showWindow },
+      { type: "separator" },
+      { label: "終了", click: () => app.quit() },
+    ])
+  );
+  tray.on("click", () => {
+    if (win && win.isVisible() && win.isFocused()) win.hide();
+    else showWindow();
+  });
+  updateTray();
+}
 
 function createWindow() {
-  const startUrl = process.env.ELECTRON_START_URL || "http://localhost:5173";
-  const win = new BrowserWindow({
-    width: 1280,
-    height: 720,
+  const state = loadWindowState();
+  win = new BrowserWindow({
+    ...state,
     title: "YuiRoom",
     autoHideMenuBar: true,
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
       sandbox: true,
+      preload: path.join(__dirname, "preload.js"),
     },
   });
+  if (state.maximized) win.maximize();
 
   // 開発中はViteに繋ぐ
   win.setMenu(null);
 
   win.webContents.setWindowOpenHandler(({ url }) => {
-    if (typeof url === "string" && /^https?:\\/\\//i.test(url)) {
+    if (isHttpUrl(url)) {
       try { void shell.openExternal(url); } catch {}
     }
     return { action: "deny" };
   });
   win.webContents.on("will-navigate", (e, url) => {
-    if (url === startUrl || url.startsWith(startUrl + "/")) return;
+    if (isAppUrl(url)) return;
     e.preventDefault();
   });
 
+  let saveTimer = null;
+  const saveSoon = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(saveWindowState, 500);
+  };
+  win.on("resize", saveSoon);
+  win.on("move", saveSoon);
+
+  // 最小化するとトレイへ隠す（macOSはDockに入るので通常どおり）
+  win.on("minimize", () => {
+    if (tray && process.platform !== "darwin") win.hide();
+  });
+  win.on("close", () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveWindowState();
+  });
+  win.on("focus", () => win.flashFrame(false));
+  win.on("closed", () => {
+    win = null;
+  });
+
   win.loadURL(startUrl);
 }
 
-app.whenReady().then(createWindow);
+// --- preload.js からの呼び出し ---
+
+function fromApp(e) {
+  return !!win && e.sender === win.webContents && isAppUrl(e.senderFrame?.url ?? "");
+}
+
+ipcMain.on("desktop:notify", (e, opts) => {
+  if (!fromApp(e) || !Notification.isSupported() || !opts || typeof opts !== "object") return;
+  const n = new Notification({
+    title: String(opts.title ?? "YuiRoom").slice(0, 200),
+    body: String(opts.body ?? "").slice(0, 500),
+    silent: !!opts.silent,
+  });
+  const notificationId = typeof opts.notificationId === "string" ? opts.notificationId : null;
+  n.on("click", () => {
+    showWindow();
+    if (notificationId && win) win.webContents.send("desktop:notification-click", { notificationId });
+  });
+  n.show();
+});
+
+ipcMain.on("desktop:set-badge-count", (e, count) => {
+  if (!fromApp(e)) return;
+  badgeCount = Math.max(0, Math.floor(Number(count) || 0));
+  // macOS: Dockのバッジ / Linux: Unityランチャー / Windows: タスクバーのオーバーレイ
+  app.setBadgeCount(badgeCount);
+  if (process.platform === "win32" && win) {
+    win.setOverlayIcon(
+      badgeCount > 0 ? nativeImage.createFromPath(path.join(ASSETS, "badge.png")) : null,
+      badgeCount > 0 ? `未読 ${badgeCount}` : ""
+    );
+  }
+  updateTray();
+});
+
+ipcMain.on("desktop:flash-frame", (e, flag) => {
+  if (!fromApp(e) || !win) return;
+  // 見ているときは点滅させない
+  win.flashFrame(!!flag && !win.isFocused());
+});
+
+ipcMain.handle("desktop:open-external", async (e, url) => {
+  if (!fromApp(e) || !isHttpUrl(url)) return false;
+  await shell.openExternal(url);
+  return true;
+});
+
+// 2つ目の起動は既存のウィンドウを前に出す
+if (!app.requestSingleInstanceLock()) {
+  app.quit();
+} else {
+  app.on("second-instance", showWindow);
+  app.on("activate", () => {
+    if (win) showWindow();
+    else createWindow();
+  });
+  app.whenReady().then(() => {
+    createWindow();
+    createTray();
+  });
+}
@@ -0,0 +1,16 @@
+// デスクトップ版だけの機能を window.yuiroomDesktop として渡す（型は renderer/src/desktop.ts）
+// sandbox: true なので require できるのは electron の一部だけ
+const { contextBridge, ipcRenderer } = require("electron");
+
+contextBridge.exposeInMainWorld("yuiroomDesktop", {
+  platform: process.platform,
+  notify: (opts) => ipcRenderer.send("desktop:notify", opts),
+  setBadgeCount: (count) => ipcRenderer.send("desktop:set-badge-count", count),
+  flashFrame: (flag) => ipcRenderer.send("desktop:flash-frame", flag),
+  openExternal: (url) => ipcRenderer.invoke("desktop:open-external", url),
+  onNotificationClick: (cb) => {
+    const listener = (_e, target) => cb(target);
+    ipcRenderer.on("desktop:notification-click", listener);
+    return () => ipcRenderer.removeListener("desktop:notification-click", listener);
+  },
+});
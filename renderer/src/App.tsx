@@ -7,13 +7,16 @@ import { AppOverlays } from "./views/AppOverlays";
 import { RoomView } from "./views/RoomView";
 import { startAuthentication, startRegistration } from "@simplewebauthn/browser";
 import type { DmMessage, DmSearchMessage, FriendRequests, FriendUser } from "./api";
-import type { RoomMember } from "./api";
+import type { RoomMember, RoomPermission, RoomRole } from "./api";
 import type { AuditLog } from "./api";
+import type { AuthOk, InstanceInfo, RegistrationMode, RoomTreeLayout, RoomTreeUpdate } from "./api";
 import { realtime } from "./realtime";
 import { useAppViewportVars } from "./hooks/useAppViewportVars";
 import { useIsNarrow } from "./hooks/useIsNarrow";
 import { useLatestRef } from "./hooks/useLatestRef";
-import { useDmToastNotifications } from "./hooks/useDmToastNotifications";
+import { describeNotification, useNotifications } from "./hooks/useNotifications";
+import { desktop } from "./desktop";
+import { useReadStates } from "./hooks/useReadStates";
 import { useHomeAutoRefresh } from "./hooks/useHomeAutoRefresh";
 import {
   HOME_ID,
@@ -21,10 +24,16 @@ import {
   displayNameKey,
   extractInviteCode,
   fileToPngAvatarDataUrl,
+  findTreeChannel,
   hasServerAvatar,
+  applyRoomTreeUpdate,
   inviteUrlFromCode,
+  moveTreeCategory,
+  moveTreeChannel,
   normalizeUserId,
+  pickVisibleChannel,
   readSessionUserId,
+  roomCan,
   readEnterKeySends,
   readSavedUserId,
   validateDisplayName,
@@ -34,31 +43,22 @@ import {
   writeSessionUserId,
 } from "./app/appUtils";
 
-type Mode = "login" | "register";
+type Mode = "login" | "register" | "recover";
 
 type LoginForm = { userId: string };
-type RegisterForm = { userId: string; displayName: string };
-
-type NotificationItem =
-  | {
-      id: string;
-      kind: "mention";
-      title: string;
-      body: string;
-      at: number;
-      channelId: string;
-      messageId: string;
-    }
-  | {
-      id: string;
-      kind: "dm";
-      title: string;
-      body: string;
-      at: number;
-      threadId: string;
-      messageId: string;
-      peer: { userId: string; displayName: string; hasAvatar: boolean };
-    };
+type RegisterForm = { userId: string; displayName: string; inviteCode: string };
+type RecoveryForm = { userId: string; code: string };
+
+const SUSPENDED_MESSAGE = "このアカウントは管理者によって停止されているよ";
+const REGISTER_ERROR_MESSAGES: Record<string, string> = {
+  registration_closed: "このサーバーは現在新規登録を受け付けていないよ",
+  signup_invite_required: "このサーバーは招待制だよ。招待コードを入力してね",
+  signup_invite_not_found: "招待コードが見つからないよ",
+  signup_invite_expired: "招待コードの有効期限が切れているよ",
+  signup_invite_max_uses: "招待コードの使用回数が上限に達しているよ",
+  user_exists: "そのユーザーIDはすでに使われているよ",
+  userId_reserved: "そのユーザーIDは使えないよ（@everyone / @here 用）",
+};
 
 type UserActionStatus =
   | { kind: "self" }
@@ -79,17 +79,25 @@ export default function App() {
   const [rememberUserId, setRememberUserId] = useState(true);
 
   const [login, setLogin] = useState<LoginForm>(() => ({ userId: readSavedUserId() }));
-  const [reg, setReg] = useState<RegisterForm>(() => ({ userId: readSavedUserId(), displayName: "" }));
+  const [reg, setReg] = useState<RegisterForm>(() => ({ userId: readSavedUserId(), displayName: "", inviteCode: "" }));
+  const [registrationMode, setRegistrationMode] = useState<RegistrationMode | null>(null);
 
-  const loginErr = useMemo(() => validateUserId(login.userId), [login.userId]);
+  // 空欄ならID入力なし（保存されたパスキーを選ぶ）でログイン
+  const loginErr = useMemo(() => (login.userId.trim() ? validateUserId(login.userId) : null), [login.userId]);
   const regUserIdErr = useMemo(() => validateUserId(reg.userId), [reg.userId]);
   const regNameErr = useMemo(() => validateDisplayName(reg.displayName), [reg.displayName]);
 
   const [agreeNoRecovery, setAgreeNoRecovery] = useState(false);
 
+  const [recovery, setRecovery] = useState<RecoveryForm>(() => ({ userId: readSavedUserId(), code: "" }));
+  const recoveryUserIdErr = useMemo(() => validateUserId(recovery.userId), [recovery.userId]);
+  // the code is spent once traded; keep the enrollment so a cancelled passkey prompt can be retried
+  const recoveryEnrollmentRef = useRef<{ userId: string; token: string; expiresAt: number } | null>(null);
+  // shown once after registration
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
   const [busy, setBusy] = useState(false);
   const [toast, setToast] = useState<string | null>(null);
-  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
   const baseTitleRef = useRef<string>("");
   const [focusMessage, setFocusMessage] = useState<null | { messageId: string; nonce: number }>(null);
   const [focusDmMessage, setFocusDmMessage] = useState<null | { threadId: string; messageId: string; nonce: number }>(null);
@@ -168,6 +176,7 @@ export default function App() {
     | { kind: "room" }
     | { kind: "category" }
     | { kind: "channel"; categoryId: string | null }
+    | { kind: "rename"; target: "room" | "category" | "channel"; roomId: string; id: string }
   >(null);
   const [createName, setCreateName] = useState("");
   const [createBusy, setCreateBusy] = useState(false);
@@ -182,16 +191,26 @@ export default function App() {
   const [deleteBusy, setDeleteBusy] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
 
+  const [channelPermissionsModal, setChannelPermissionsModal] = useState<
+    null | { roomId: string; channelId: string; channelName: string }
+  >(null);
+
   const [banModal, setBanModal] = useState<null | { roomId: string; roomName: string }>(null);
   const [banUserId, setBanUserId] = useState("");
   const [banReason, setBanReason] = useState("");
   const [banBusy, setBanBusy] = useState(false);
   const [banError, setBanError] = useState<string | null>(null);
 
-  const [inviteModal, setInviteModal] = useState<null | { roomId: string; roomName: string; isOwner: boolean }>(null);
-  const [roomSettingsTab, setRoomSettingsTab] = useState<"members" | "invites" | "audit" | "danger">("members");
+  const [inviteModal, setInviteModal] = useState<null | {
+    roomId: string;
+    roomName: string;
+    isOwner: boolean;
+    permissions: RoomPermission[];
+  }>(null);
+  const [roomSettingsTab, setRoomSettingsTab] = useState<"members" | "roles" | "invites" | "audit" | "danger">("members");
   const [invites, setInvites] = useState<Array<{ code: string; uses: number; max_uses: number; expires_at: string; created_at: string }>>([]);
-  const [members, setMembers] = useState<Array<{ userId: string; displayName: string; hasAvatar: boolean; isOwner: boolean }>>([]);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [roomRoles, setRoomRoles] = useState<RoomRole[]>([]);
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [auditError, setAuditError] = useState<string | null>(null);
   const [inviteBusy, setInviteBusy] = useState(false);
@@ -202,17 +221,52 @@ export default function App() {
   const [homeAuditBusy, setHomeAuditBusy] = useState(false);
   const [homeAuditError, setHomeAuditError] = useState<string | null>(null);
 
+  const [instanceInfo, setInstanceInfo] = useState<InstanceInfo | null>(null);
+  const [adminConsoleOpen, setAdminConsoleOpen] = useState(false);
+
   const [memberPane, setMemberPane] = useState<RoomMember[]>([]);
   const [memberPaneLoading, setMemberPaneLoading] = useState(false);
   const [memberPaneError, setMemberPaneError] = useState<string | null>(null);
 
-  const [unreadByChannelId, setUnreadByChannelId] = useState<Record<string, boolean>>({});
-  const lastReadRef = useRef<Record<string, string>>({});
-  const lastToastRef = useRef<{ key: string; at: number }>({ key: "", at: 0 });
   const selectedChannelIdRef = useLatestRef(selectedChannelId);
   const selectedRoomIdRef = useLatestRef(selectedRoomId);
+  // set by openRoomMessage while another room's tree loads
+  const pendingJumpRef = useRef<{ roomId: string; channelId: string; messageId: string } | null>(null);
+  const treeRef = useLatestRef(tree);
   const selectedDmThreadIdRef = useLatestRef(selectedDmThreadId);
 
+  const [notificationsOpen, setNotificationsOpen] = useState(false);
+  const [notificationSettingsOpen, setNotificationSettingsOpen] = useState(false);
+  const {
+    notifications,
+    hasMore: notificationsHasMore,
+    unreadCount: notificationUnreadCount,
+    loadingMore: notificationsLoadingMore,
+    loadMore: loadMoreNotifications,
+    markRead: markNotificationsRead,
+    clear: clearNotifications,
+  } = useNotifications({
+    authed,
+    currentUserId,
+    homeId: HOME_ID,
+    selectedRoomId,
+    selectedChannelId,
+    selectedDmThreadId,
+    setToast,
+  });
+  // for the sidebar lists
+  const notificationList = useMemo(
+    () =>
+      notifications.map((n) => ({
+        id: n.id,
+        kind: n.kind,
+        ...describeNotification(n, selectedRoomId),
+        at: Date.parse(n.created_at),
+        unread: !n.readAt,
+      })),
+    [notifications, selectedRoomId]
+  );
+
   const [confirmModal, setConfirmModal] = useState<
     | null
     | { kind: "leave"; roomId: string; roomName: string }
@@ -261,17 +315,69 @@ export default function App() {
     await loadTree(selectedRoomId);
   }
 
+  // name / position / parent changes from our own PATCH responses, applied like a room_tree_updated
+  function patchTree(roomId: string, update: Partial<RoomTreeUpdate>) {
+    const ev: RoomTreeUpdate = { roomId, room: null, categories: [], channels: [], partial: false, ...update };
+    if (ev.room) {
+      const name = ev.room.name;
+      setRooms((prev) => (prev ? prev.map((r) => (r.id === roomId ? { ...r, name } : r)) : prev));
+    }
+    setTree((prev) => (prev && prev.room.id === roomId ? (applyRoomTreeUpdate(prev, ev) ?? prev) : prev));
+  }
+
+  function applyChannelUpdate(roomId: string, c: Awaited<ReturnType<typeof api.updateChannel>>) {
+    const { type, topic, slowmodeSeconds } = c;
+    patchTree(roomId, {
+      channels: [{ id: c.id, name: c.name, position: c.position, categoryId: c.category_id, type, topic, slowmodeSeconds }],
+    });
+  }
+
+  // drag & drop in the channel list: show the new order right away, put the tree back if saving fails
+  async function saveTreeLayout(moved: { tree: RoomTree; layout: RoomTreeLayout } | null) {
+    if (!moved || !selectedRoomId) return;
+    const roomId = selectedRoomId;
+    setTree(moved.tree);
+    try {
+      await api.reorderRoomTree(roomId, moved.layout);
+    } catch (e) {
+      setToast(e instanceof Error ? e.message : "並び替えに失敗したよ");
+      try {
+        const t = await api.getRoomTree(roomId);
+        if (selectedRoomIdRef.current === roomId) setTree(t);
+      } catch {
+        // keep what we have
+      }
+    }
+  }
+
+  function moveChannel(channelId: string, categoryId: string | null, beforeChannelId: string | null) {
+    if (!tree) return;
+    void saveTreeLayout(moveTreeChannel(tree, channelId, categoryId, beforeChannelId));
+  }
+
+  function moveCategory(categoryId: string, beforeCategoryId: string | null) {
+    if (!tree) return;
+    void saveTreeLayout(moveTreeCategory(tree, categoryId, beforeCategoryId));
+  }
+
   async function loadTree(roomId: string) {
     setTreeLoading(true);
     try {
       const t = await api.getRoomTree(roomId);
       setTree(t);
-      // 初期選択：最初のチャンネル
+      // 初期選択：最初のチャンネル（openRoomMessage からの移動ならそのチャンネル）
       const first =
         t.categories?.[0]?.channels?.[0]?.id ??
         t.uncategorized?.[0]?.id ??
         null;
-      setSelectedChannelId(first);
+      const jump = pendingJumpRef.current?.roomId === roomId ? pendingJumpRef.current : null;
+      pendingJumpRef.current = null;
+      if (jump && findTreeChannel(t, jump.channelId)) {
+        setFocusMessage((prev) => ({ messageId: jump.messageId, nonce: (prev?.nonce ?? 0) + 1 }));
+        setSelectedChannelId(jump.channelId);
+      } else {
+        setSelectedChannelId(first);
+      }
     } catch (e: any) {
       setToast(e?.message ?? "failed");
       setTree(null);
@@ -280,30 +386,6 @@ export default function App() {
     }
   }
 
-  function lastReadKey(userId: string) {
-    return `yuiroom.lastReadAt:${userId}`;
-  }
-
-  function readLastRead(userId: string) {
-    try {
-      const raw = localStorage.getItem(lastReadKey(userId));
-      if (!raw) return {};
-      const obj = JSON.parse(raw);
-      if (!obj || typeof obj !== "object") return {};
-      return obj as Record<string, string>;
-    } catch {
-      return {};
-    }
-  }
-
-  function writeLastRead(userId: string, map: Record<string, string>) {
-    try {
-      localStorage.setItem(lastReadKey(userId), JSON.stringify(map));
-    } catch {
-      // ignore
-    }
-  }
-
   async function loadMemberPane(roomId: string) {
     setMemberPaneLoading(true);
     setMemberPaneError(null);
@@ -336,9 +418,9 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    // Tab title badge for DM/mention notifications
+    // Tab title badge: unread notifications, not counting muted rooms / channels
     const baseTitle = baseTitleRef.current || "YuiRoom";
-    const count = authed ? notifications.length : 0;
+    const count = authed ? notificationUnreadCount : 0;
     try {
       document.title = count > 0 ? `(${count}) ${baseTitle}` : baseTitle;
     } catch {
@@ -355,7 +437,10 @@ export default function App() {
     } catch {
       // ignore
     }
-  }, [authed, notifications.length]);
+
+    // desktop app: taskbar / dock badge and the tray
+    desktop?.setBadgeCount(count);
+  }, [authed, notificationUnreadCount]);
 
   useEffect(() => {
     if (selectedRoomId && selectedRoomId !== HOME_ID) {
@@ -366,7 +451,6 @@ export default function App() {
       setSelectedChannelId(null);
       setMemberPane([]);
       setMemberPaneError(null);
-      setUnreadByChannelId({});
     }
   }, [selectedRoomId]);
 
@@ -380,11 +464,51 @@ export default function App() {
         pendingInviteRef.current = String(m[1]).toLowerCase();
         window.history.replaceState({}, "", "/");
       }
+      // 新規登録の招待URL: ログイン画面の新規登録を開いてコードを入れておく
+      const s = /^\/signup\/([a-z0-9]{6,32})(?:\/)?$/i.exec(path);
+      if (s?.[1]) {
+        const inviteCode = String(s[1]).toLowerCase();
+        setReg((p) => ({ ...p, inviteCode }));
+        setMode("register");
+        window.history.replaceState({}, "", "/");
+      }
     } catch {
       // ignore
     }
   }, []);
 
+  useEffect(() => {
+    if (authed) return;
+    let cancelled = false;
+    api
+      .getRegistrationMode()
+      .then((r) => {
+        if (!cancelled) setRegistrationMode(r.mode);
+      })
+      .catch(() => {
+        // unknown: the server answers when registering
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authed]);
+
+  useEffect(() => {
+    if (!authed) return;
+    let cancelled = false;
+    api
+      .getInstanceInfo()
+      .then((info) => {
+        if (!cancelled) setInstanceInfo(info);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authed]);
+
   useEffect(() => {
     if (!authed) return;
     const code = pendingInviteRef.current;
@@ -468,31 +592,13 @@ export default function App() {
     return () => window.removeEventListener("keydown", onKeyDown);
   }, [authed, selectedDmThreadId]);
 
-  useEffect(() => {
-    if (!authed || !currentUserId) return;
-    lastReadRef.current = readLastRead(currentUserId);
-  }, [authed, currentUserId]);
-
-  useEffect(() => {
-    if (!authed || !currentUserId) return;
-    if (!selectedRoomId || selectedRoomId === HOME_ID) return;
-    void (async () => {
-      try {
-        const activity = await api.listChannelActivity(selectedRoomId);
-        const lastRead = lastReadRef.current;
-        const next: Record<string, boolean> = {};
-        for (const a of activity) {
-          if (!a.lastMessageAt) continue;
-          const readAt = lastRead[a.channelId];
-          if (!readAt) continue;
-          if (Date.parse(a.lastMessageAt) > Date.parse(readAt)) next[a.channelId] = true;
-        }
-        setUnreadByChannelId(next);
-      } catch {
-        // ignore
-      }
-    })();
-  }, [authed, currentUserId, selectedRoomId]);
+  const { readMarker, unreadByChannelId, mentionCountByChannelId, unreadByRoomId, noteChannelMessage, markUnread } =
+    useReadStates({
+      authed,
+      currentUserId,
+      selectedChannelId,
+      roomIdsKey: (rooms ?? []).map((r) => r.id).join(","),
+    });
 
   useEffect(() => {
     if (!authed) return;
@@ -502,67 +608,11 @@ export default function App() {
       ...tree.categories.flatMap((c) => c.channels.map((ch) => ch.id)),
       ...tree.uncategorized.map((ch) => ch.id),
     ];
-    const channelNameById = new Map<string, string>();
-    for (const c of tree.categories) for (const ch of c.channels) channelNameById.set(ch.id, ch.name);
-    for (const ch of tree.uncategorized) channelNameById.set(ch.id, ch.name);
-
-    function maybeToast(key: string, msg: string) {
-      const now = Date.now();
-      if (lastToastRef.current.key === key && now - lastToastRef.current.at < 1500) return;
-      lastToastRef.current = { key, at: now };
-      setToast(msg);
-    }
-
-    function pushNotification(n: NotificationItem) {
-      setNotifications((prev) => {
-        if (prev.some((x) => x.id === n.id)) return prev;
-        const next = [n, ...prev];
-        return next.slice(0, 20);
-      });
-    }
-
-    function isMentioned(content: unknown) {
-      if (!currentUserId) return false;
-      if (typeof content !== "string") return false;
-      const c = content.toLowerCase();
-      const idToken = `@${currentUserId.toLowerCase()}`;
-      if (c.includes(idToken)) return true;
-      const dn = (displayName || "").trim();
-      if (dn) {
-        const dnToken = `@${dn.toLowerCase()}`;
-        if (c.includes(dnToken)) return true;
-      }
-      return false;
-    }
-
     const unsubs = channelIds.map((channelId) =>
       realtime.subscribeChannelMessage(channelId, (msg) => {
-        if (selectedChannelIdRef.current === channelId) return;
-        setUnreadByChannelId((prev) => (prev[channelId] ? prev : { ...prev, [channelId]: true }));
-
-        // toast on mention
         if (!msg || typeof msg !== "object") return;
         const authorId = String((msg as any).author_id ?? "");
-        if (currentUserId && authorId === currentUserId) return;
-        const content = (msg as any).content;
-        if (!isMentioned(content)) return;
-        const author = String((msg as any).author ?? "someone");
-        const channelName = channelNameById.get(channelId) ?? "channel";
-        const text = typeof content === "string" ? content.trim() : "";
-        const snippet = text.length > 60 ? `${text.slice(0, 60)}…` : text;
-        const msgId = String((msg as any).id ?? "");
-        maybeToast(`mention:${channelId}:${msgId}`, `@メンション #${channelName} — ${author}: ${snippet}`);
-        if (msgId) {
-          pushNotification({
-            id: `mention:${roomId}:${channelId}:${msgId}`,
-            kind: "mention",
-            title: `@メンション #${channelName}`,
-            body: `${author}: ${snippet || "(本文なし)"}`,
-            at: Date.now(),
-            channelId,
-            messageId: msgId,
-          });
-        }
+        noteChannelMessage(roomId, channelId, { id: String((msg as any).id ?? ""), authorId });
       })
     );
     return () => {
@@ -570,31 +620,9 @@ export default function App() {
     };
   }, [authed, tree?.room?.id]);
 
-  useDmToastNotifications({
-    authed,
-    currentUserId,
-    apiListDmThreads: api.listDmThreads,
-    subscribeDmMessage: realtime.subscribeDmMessage,
-    subscribeHome: realtime.subscribeHome,
-    homeId: HOME_ID,
-    selectedRoomIdRef,
-    selectedDmThreadIdRef,
-    setToast,
-    setNotifications,
-  });
-
+  // useReadStates acks the channel once it's selected
   function selectChannelAndMarkRead(channelId: string) {
     setSelectedChannelId(channelId);
-    setUnreadByChannelId((prev) => {
-      if (!prev[channelId]) return prev;
-      const { [channelId]: _x, ...rest } = prev;
-      return rest;
-    });
-    if (currentUserId) {
-      const next = { ...lastReadRef.current, [channelId]: new Date().toISOString() };
-      lastReadRef.current = next;
-      writeLastRead(currentUserId, next);
-    }
   }
 
   async function loadHome() {
@@ -707,6 +735,115 @@ export default function App() {
     return unsub;
   }, [authed, selectedRoomId]);
 
+  // role changes can grant / take away permissions (and channels): refresh what the UI offers
+  useEffect(() => {
+    if (!authed) return;
+    const unsub = realtime.subscribeRoomRolesChanged(({ roomId }) => {
+      const settingsOpen = inviteModal?.roomId === roomId;
+      if (selectedRoomId !== roomId && !settingsOpen) return;
+      void api
+        .getRoomTree(roomId)
+        .then((t) => {
+          const permissions = t.myPermissions ?? [];
+          if (selectedRoomIdRef.current === roomId) {
+            setTree(t);
+            setSelectedChannelId((cur) => pickVisibleChannel(t, cur));
+          }
+          setInviteModal((prev) => (prev && prev.roomId === roomId ? { ...prev, permissions } : prev));
+        })
+        .catch(() => {});
+      if (settingsOpen) {
+        void Promise.all([api.listRoomRoles(roomId), api.listRoomMembers(roomId)])
+          .then(([roles, list]) => {
+            setRoomRoles(roles);
+            setMembers(list);
+          })
+          .catch(() => {});
+      }
+    });
+    return unsub;
+  }, [authed, selectedRoomId, selectedRoomIdRef, inviteModal]);
+
+  // ownership moved: owner-only UI (settings tabs, role management, ...) follows the new owner
+  useEffect(() => {
+    if (!authed) return;
+    const unsub = realtime.subscribeRoomOwnerChanged(({ roomId, ownerId }) => {
+      const isOwner = !!currentUserId && ownerId === currentUserId;
+      const settingsOpen = inviteModal?.roomId === roomId;
+      setRooms((prev) => (prev ? prev.map((r) => (r.id === roomId ? { ...r, owner_id: ownerId } : r)) : prev));
+      if (settingsOpen) {
+        setInviteModal((prev) => (prev && prev.roomId === roomId ? { ...prev, isOwner } : prev));
+        if (!isOwner) setRoomSettingsTab((tab) => (tab === "roles" || tab === "danger" ? "members" : tab));
+      }
+      if (isOwner) setToast("Roomのオーナーになりました");
+      if (selectedRoomIdRef.current !== roomId && !settingsOpen) return;
+      void api
+        .getRoomTree(roomId)
+        .then((t) => {
+          if (selectedRoomIdRef.current === roomId) {
+            setTree(t);
+            setSelectedChannelId((cur) => pickVisibleChannel(t, cur));
+          }
+          const permissions = t.myPermissions ?? [];
+          setInviteModal((prev) => (prev && prev.roomId === roomId ? { ...prev, permissions } : prev));
+        })
+        .catch(() => {});
+      void api
+        .listRoomMembers(roomId)
+        .then((list) => {
+          if (selectedRoomIdRef.current === roomId) setMemberPane(list);
+          if (settingsOpen) setMembers(list);
+        })
+        .catch(() => {});
+    });
+    return unsub;
+  }, [authed, currentUserId, inviteModal, selectedRoomIdRef]);
+
+  // channel overrides changed (or this user lost access to a channel): channels may appear / disappear
+  useEffect(() => {
+    if (!authed) return;
+    const unsub = realtime.subscribeChannelAccessChanged(({ roomId, channelId, hidden }) => {
+      if (selectedRoomIdRef.current !== roomId) return;
+      if (hidden && selectedChannelIdRef.current === channelId) setToast("このチャンネルを表示する権限がなくなりました");
+      void api
+        .getRoomTree(roomId)
+        .then((t) => {
+          if (selectedRoomIdRef.current !== roomId) return;
+          setTree(t);
+          setSelectedChannelId((cur) => pickVisibleChannel(t, cur));
+        })
+        .catch(() => {});
+    });
+    return unsub;
+  }, [authed, selectedChannelIdRef, selectedRoomIdRef]);
+
+  // someone renamed / reordered / moved categories or channels: patch the sidebar without refetching
+  useEffect(() => {
+    if (!authed) return;
+    const unsub = realtime.subscribeRoomTreeUpdated((ev) => {
+      if (ev.room) {
+        const name = ev.room.name;
+        setRooms((prev) => (prev ? prev.map((r) => (r.id === ev.roomId ? { ...r, name } : r)) : prev));
+      }
+      if (selectedRoomIdRef.current !== ev.roomId) return;
+      const current = treeRef.current;
+      const next = current && current.room.id === ev.roomId ? applyRoomTreeUpdate(current, ev) : null;
+      if (next) {
+        setTree(next);
+        return;
+      }
+      void api
+        .getRoomTree(ev.roomId)
+        .then((t) => {
+          if (selectedRoomIdRef.current !== ev.roomId) return;
+          setTree(t);
+          setSelectedChannelId((cur) => pickVisibleChannel(t, cur));
+        })
+        .catch(() => {});
+    });
+    return unsub;
+  }, [authed, selectedRoomIdRef, treeRef]);
+
   useEffect(() => {
     if (!authed) return;
     const unsub = realtime.subscribeRoomPresence(({ roomId, userId, online }) => {
@@ -1031,26 +1168,61 @@ export default function App() {
     }
   }
 
+  // Opens a message of any room I'm in (mention notifications, the mentions inbox).
+  // A thread message is shown by its parent message; the room's tree loads first when it's another room.
+  async function openRoomMessage(target: { roomId: string; channelId: string; threadId: string | null; messageId: string }) {
+    let messageId = target.messageId;
+    if (target.threadId) {
+      try {
+        messageId = (await api.getThread(target.threadId)).thread.parentMessageId ?? messageId;
+      } catch {
+        // the thread is gone: try the message itself
+      }
+    }
+    if (selectedRoomIdRef.current !== target.roomId) {
+      pendingJumpRef.current = { roomId: target.roomId, channelId: target.channelId, messageId };
+      setSelectedRoomId(target.roomId);
+      return;
+    }
+    setFocusMessage((prev) => ({ messageId, nonce: (prev?.nonce ?? 0) + 1 }));
+    selectChannelAndMarkRead(target.channelId);
+  }
+
+  // desktop app: clicking an OS notification opens it
+  const openNotificationRef = useLatestRef(openNotification);
+  useEffect(() => {
+    if (!desktop) return;
+    return desktop.onNotificationClick(({ notificationId }) => openNotificationRef.current(notificationId));
+  }, [openNotificationRef]);
+
+  // Opens what a notification points at (message / DM / Home / room) and marks it read.
   function openNotification(id: string) {
     const n = notifications.find((x) => x.id === id);
     if (!n) return;
-    setNotifications((prev) => prev.filter((x) => x.id !== id));
-    if (n.kind === "mention") {
-      setFocusMessage((prev) => ({ messageId: n.messageId, nonce: (prev?.nonce ?? 0) + 1 }));
-      selectChannelAndMarkRead(n.channelId);
+    void markNotificationsRead([id]).catch(() => {});
+    setNotificationsOpen(false);
+    if (n.kind === "dm") {
+      const threadId = n.threadId;
+      if (!n.actorId || !threadId) return;
+      setSelectedRoomId(HOME_ID);
+      if (n.messageId) {
+        const messageId = n.messageId;
+        setFocusDmMessage((prev) => ({ threadId, messageId, nonce: (prev?.nonce ?? 0) + 1 }));
+      }
+      const friend = friends.find((f) => f.userId === n.actorId);
+      void openDmWith(friend ?? { userId: n.actorId, displayName: n.meta.author || n.actorId, hasAvatar: false });
       return;
     }
-    setSelectedRoomId(HOME_ID);
-    setFocusDmMessage((prev) => ({
-      threadId: n.threadId,
-      messageId: n.messageId,
-      nonce: (prev?.nonce ?? 0) + 1,
-    }));
-    void openDmWith({
-      userId: n.peer.userId,
-      displayName: n.peer.displayName,
-      hasAvatar: n.peer.hasAvatar,
-    });
+    // friend requests are listed on Home
+    if (n.kind === "friend_request" || !n.roomId) {
+      setSelectedRoomId(HOME_ID);
+      return;
+    }
+    if (n.channelId && n.messageId) {
+      void openRoomMessage({ roomId: n.roomId, channelId: n.channelId, threadId: n.threadId, messageId: n.messageId });
+      return;
+    }
+    setSelectedRoomId(n.roomId);
   }
 
   const selectedChannelName = useMemo(() => {
@@ -1064,6 +1236,7 @@ export default function App() {
   }, [tree, selectedChannelId]);
 
   async function onLogin() {
+    if (!login.userId.trim()) return onDiscoverableLogin();
     const err = validateUserId(login.userId);
     if (err) return setToast(err);
 
@@ -1074,43 +1247,135 @@ export default function App() {
       const options = await api.passkeyLoginOptions(userId);
       const response = await startAuthentication({ optionsJSON: options } as any);
       const ok = await api.passkeyLoginVerify(userId, response as any);
+      await completeLogin(ok);
+    } catch (e: any) {
+      setToast(e?.message === "account_suspended" ? SUSPENDED_MESSAGE : (e?.message ?? "パスキー認証に失敗したよ"));
+    } finally {
+      setBusy(false);
+    }
+  }
 
-      if (rememberUserId) writeSavedUserId(ok.userId);
-      else writeSavedUserId(null);
-      writeSessionUserId(ok.userId);
+  function discoverableLoginError(e: unknown) {
+    const msg = e instanceof Error ? e.message : "";
+    if (msg === "user_handle_missing") return "このパスキーはID入力なしのログインに対応していないよ。ユーザーIDを入力してね";
+    if (msg === "credential_not_found") return "このパスキーは登録されていないよ（削除済みかも）";
+    if (msg === "account_suspended") return SUSPENDED_MESSAGE;
+    return msg || "パスキー認証に失敗したよ";
+  }
 
-      api.setAuthToken(ok.token);
+  // ユーザーID欄が空のとき: ブラウザのパスキー選択からアカウントを決める
+  async function onDiscoverableLogin() {
+    setBusy(true);
+    setToast(null);
+    try {
+      const options = await api.passkeyDiscoverableLoginOptions();
+      const response = await startAuthentication({ optionsJSON: options });
+      const ok = await api.passkeyDiscoverableLoginVerify(options.challengeId, response);
+      await completeLogin(ok);
+    } catch (e) {
+      setToast(discoverableLoginError(e));
+    } finally {
+      setBusy(false);
+    }
+  }
 
-      setLogin({ userId: ok.userId });
-      setCurrentUserId(ok.userId);
+  // ログイン画面を開いている間、ユーザーID欄の自動入力候補にパスキーを出す（conditional UI）。
+  // 別のパスキー操作が始まるか画面を離れると中断される。
+  async function onConditionalLogin() {
+    let options: Awaited<ReturnType<typeof api.passkeyDiscoverableLoginOptions>>;
+    let response: Awaited<ReturnType<typeof startAuthentication>>;
+    try {
+      options = await api.passkeyDiscoverableLoginOptions();
+      response = await startAuthentication({ optionsJSON: options, useBrowserAutofill: true });
+    } catch {
+      // aborted, or nothing picked
+      return;
+    }
+    setBusy(true);
+    setToast(null);
+    try {
+      const ok = await api.passkeyDiscoverableLoginVerify(options.challengeId, response);
+      await completeLogin(ok);
+    } catch (e) {
+      setToast(discoverableLoginError(e));
+    } finally {
+      setBusy(false);
+    }
+  }
 
-      // 端末ローカルの上書きがあれば優先
-      let name = ok.displayName || ok.userId;
-      try {
-        const stored = localStorage.getItem(displayNameKey(ok.userId));
-        if (stored?.trim()) name = stored.trim();
-      } catch {
-        // ignore
-      }
-      setDisplayName(name);
+  // ログイン / 復旧で共通: トークン保存と画面の初期化
+  async function completeLogin(ok: AuthOk) {
+    if (rememberUserId) writeSavedUserId(ok.userId);
+    else writeSavedUserId(null);
+    writeSessionUserId(ok.userId);
 
-      // 端末ローカルのアイコン
-      try {
-        const storedAvatar = localStorage.getItem(avatarKey(ok.userId));
-        setAvatarDataUrl(storedAvatar || "");
-      } catch {
-        setAvatarDataUrl("");
-      }
-      setCurrentUserAvatarVersion(0);
-      void (async () => {
-        const has = await hasServerAvatar(ok.userId);
-        setCurrentUserHasServerAvatar(has);
-      })();
+    api.setAuthTokens(ok);
 
-      setAuthed(true);
-      await loadRooms();
-    } catch (e: any) {
-      setToast(e?.message ?? "パスキー認証に失敗したよ");
+    setLogin({ userId: ok.userId });
+    setCurrentUserId(ok.userId);
+
+    // 端末ローカルの上書きがあれば優先
+    let name = ok.displayName || ok.userId;
+    try {
+      const stored = localStorage.getItem(displayNameKey(ok.userId));
+      if (stored?.trim()) name = stored.trim();
+    } catch {
+      // ignore
+    }
+    setDisplayName(name);
+
+    // 端末ローカルのアイコン
+    try {
+      const storedAvatar = localStorage.getItem(avatarKey(ok.userId));
+      setAvatarDataUrl(storedAvatar || "");
+    } catch {
+      setAvatarDataUrl("");
+    }
+    setCurrentUserAvatarVersion(0);
+    void (async () => {
+      const has = await hasServerAvatar(ok.userId);
+      setCurrentUserHasServerAvatar(has);
+    })();
+
+    setAuthed(true);
+    await loadRooms();
+  }
+
+  async function onRecover() {
+    const err = validateUserId(recovery.userId);
+    if (err) return setToast(err);
+    if (!recovery.code.trim()) return setToast("リカバリーコードを入力してね");
+
+    setBusy(true);
+    setToast(null);
+    try {
+      const userId = normalizeUserId(recovery.userId);
+      let enrollment = recoveryEnrollmentRef.current;
+      if (!enrollment || enrollment.userId !== userId || enrollment.expiresAt <= Date.now()) {
+        const started = await api.recoveryStart(userId, recovery.code.trim());
+        enrollment = { userId, token: started.enrollmentToken, expiresAt: new Date(started.expiresAt).getTime() };
+        recoveryEnrollmentRef.current = enrollment;
+      }
+      const options = await api.recoveryOptions(enrollment.token);
+      const response = await startRegistration({ optionsJSON: options });
+      const ok = await api.recoveryVerify(enrollment.token, response);
+      recoveryEnrollmentRef.current = null;
+      setRecovery({ userId: ok.userId, code: "" });
+
+      await completeLogin(ok);
+      setToast(`新しいパスキーを登録したよ（残りのリカバリーコード: ${ok.remainingRecoveryCodes ?? 0}個）`);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "";
+      if (msg === "enrollment_invalid") recoveryEnrollmentRef.current = null;
+      setToast(
+        msg === "recovery_code_invalid"
+          ? "リカバリーコードが違うか、使用済みだよ"
+          : msg === "rate_limited"
+            ? "試行回数が多すぎるよ。しばらく待ってからもう一度試してね"
+            : msg === "account_suspended"
+              ? SUSPENDED_MESSAGE
+              : msg || "復旧に失敗したよ"
+      );
     } finally {
       setBusy(false);
     }
@@ -1121,7 +1386,7 @@ export default function App() {
     const err2 = validateDisplayName(reg.displayName);
     if (err1) return setToast(err1);
     if (err2) return setToast(err2);
-    if (!agreeNoRecovery) return setToast("同意にチェックしてね（復旧不可）");
+    if (!agreeNoRecovery) return setToast("同意にチェックしてね（パスキーとリカバリーコードを失うと復旧不可）");
 
     setBusy(true);
     setToast(null);
@@ -1129,15 +1394,16 @@ export default function App() {
       const userId = normalizeUserId(reg.userId);
       const name = reg.displayName.trim();
 
-      const options = await api.passkeyRegisterOptions(userId, name);
-      const response = await startRegistration({ optionsJSON: options } as any);
-      const ok = await api.passkeyRegisterVerify(userId, response as any);
+      const options = await api.passkeyRegisterOptions(userId, name, reg.inviteCode.trim().toLowerCase());
+      const response = await startRegistration({ optionsJSON: options });
+      const ok = await api.passkeyRegisterVerify(userId, options.challengeId, response);
+      if (ok.recoveryCodes?.length) setRecoveryCodes(ok.recoveryCodes);
 
       if (rememberUserId) writeSavedUserId(ok.userId);
       else writeSavedUserId(null);
       writeSessionUserId(ok.userId);
 
-      api.setAuthToken(ok.token);
+      api.setAuthTokens(ok);
 
       setLogin({ userId: ok.userId });
       setCurrentUserId(ok.userId);
@@ -1159,7 +1425,7 @@ export default function App() {
       setAuthed(true);
       await loadRooms();
     } catch (e: any) {
-      setToast(e?.message ?? "パスキー登録に失敗したよ");
+      setToast(REGISTER_ERROR_MESSAGES[e?.message] ?? e?.message ?? "パスキー登録に失敗したよ");
     } finally {
       setBusy(false);
     }
@@ -1172,8 +1438,11 @@ export default function App() {
     setAvatarDataUrl("");
     setCurrentUserHasServerAvatar(false);
     setCurrentUserAvatarVersion(0);
-    api.setAuthToken(null);
+    void api.logout();
     writeSessionUserId(null);
+    setRecoveryCodes(null);
+    setInstanceInfo(null);
+    setAdminConsoleOpen(false);
     realtime.close();
     setSelectedRoomId(null);
     setTree(null);
@@ -1186,7 +1455,11 @@ export default function App() {
     api.setOnAuthError((reason) => {
       // 401が来た = トークン期限切れ/不正など。UIをログアウトに戻す。
       logout();
-      setToast("認証が切れたよ。もう一度パスキーでログインしてね");
+      setToast(
+        reason === "session_revoked"
+          ? "この端末はログアウトされたよ。もう一度パスキーでログインしてね"
+          : "認証が切れたよ。もう一度パスキーでログインしてね"
+      );
       console.warn("auth error:", reason);
     });
     return () => api.setOnAuthError(null);
@@ -1200,7 +1473,7 @@ export default function App() {
 
     const userId = readSessionUserId() || readSavedUserId();
     if (!userId) {
-      api.setAuthToken(null);
+      api.setAuthTokens(null);
       return;
     }
 
@@ -1315,7 +1588,7 @@ export default function App() {
       }
     } catch (e: any) {
       const msg = e?.message ?? "failed";
-      if (msg === "avatar_invalid_dataUrl") {
+      if (msg === "avatar_invalid_dataUrl" || msg === "upload_invalid_type") {
         setSettingsError("アイコン画像の形式が対応していません（PNG/JPEG/GIF/WebP）");
       } else if (msg === "avatar_too_large") {
         setSettingsError("アイコン画像が大きすぎます（2MB以下にしてください）");
@@ -1348,6 +1621,13 @@ export default function App() {
     setCreateError(null);
   }
 
+  function openRename(target: "room" | "category" | "channel", id: string, name: string) {
+    if (!selectedRoomId) return;
+    setCreateModal({ kind: "rename", target, roomId: selectedRoomId, id });
+    setCreateName(name);
+    setCreateError(null);
+  }
+
   function closeModal() {
     if (createBusy) return;
     setCreateModal(null);
@@ -1367,7 +1647,7 @@ export default function App() {
     if (!selectedRoomId || selectedRoomId === HOME_ID || !rooms || !currentUserId) return;
     const room = rooms.find((r) => r.id === selectedRoomId);
     if (!room) return;
-    if (!room.owner_id || room.owner_id !== currentUserId) return;
+    if (!tree || tree.room.id !== room.id || !roomCan(tree, "ban_members")) return;
 
     const target = typeof prefillUserId === "string" ? prefillUserId.trim().toLowerCase() : "";
     if (target && target === currentUserId) {
@@ -1423,14 +1703,19 @@ export default function App() {
     setInviteError(null);
     try {
       const isOwner = room.owner_id === currentUserId;
-      setInviteModal({ roomId: room.id, roomName: room.name, isOwner });
-      setRoomSettingsTab(isOwner ? "invites" : "members");
-      const [m, inv, logs] = await Promise.all([
+      const permissions = tree && tree.room.id === room.id ? (tree.myPermissions ?? []) : [];
+      const canInvite = permissions.includes("manage_invites");
+      const canAudit = permissions.includes("view_audit_log");
+      setInviteModal({ roomId: room.id, roomName: room.name, isOwner, permissions });
+      setRoomSettingsTab(canInvite ? "invites" : "members");
+      const [m, roles, inv, logs] = await Promise.all([
         api.listRoomMembers(room.id),
-        isOwner ? api.listRoomInvites(room.id) : Promise.resolve([]),
-        isOwner ? api.listRoomAudit(room.id, { limit: 50 }) : Promise.resolve([] as AuditLog[]),
+        api.listRoomRoles(room.id),
+        canInvite ? api.listRoomInvites(room.id) : Promise.resolve([]),
+        canAudit ? api.listRoomAudit(room.id, { limit: 50 }) : Promise.resolve([] as AuditLog[]),
       ]);
       setMembers(m);
+      setRoomRoles(roles);
       setInvites(inv);
       setAuditLogs(logs);
       setAuditError(null);
@@ -1449,6 +1734,7 @@ export default function App() {
     setInviteError(null);
     setInvites([]);
     setMembers([]);
+    setRoomRoles([]);
     setAuditLogs([]);
     setAuditError(null);
     setRoomSettingsTab("members");
@@ -1456,7 +1742,7 @@ export default function App() {
   }
 
   async function refreshAudit() {
-    if (!inviteModal || !inviteModal.isOwner) return;
+    if (!inviteModal || !inviteModal.permissions.includes("view_audit_log")) return;
     setInviteBusy(true);
     setAuditError(null);
     try {
@@ -1485,6 +1771,17 @@ export default function App() {
     }
   }
 
+  // 管理コンソールで自分の管理者権限やRoom作成ポリシーが変わったとき
+  async function refreshInstanceInfo() {
+    try {
+      const info = await api.getInstanceInfo();
+      setInstanceInfo(info);
+      if (!info.isAdmin) setAdminConsoleOpen(false);
+    } catch {
+      // ignore
+    }
+  }
+
   function closeHomeAudit() {
     if (homeAuditBusy) return;
     setHomeAuditOpen(false);
@@ -1499,14 +1796,14 @@ export default function App() {
 
   async function refreshInvites() {
     if (!inviteModal) return;
-    if (!inviteModal.isOwner) return;
+    if (!inviteModal.permissions.includes("manage_invites")) return;
     const list = await api.listRoomInvites(inviteModal.roomId);
     setInvites(list);
   }
 
   async function createInvite() {
     if (!inviteModal || inviteBusy) return;
-    if (!inviteModal.isOwner) return;
+    if (!inviteModal.permissions.includes("manage_invites")) return;
     setInviteBusy(true);
     setInviteError(null);
     try {
@@ -1522,7 +1819,7 @@ export default function App() {
 
   async function deleteInvite(code: string) {
     if (!inviteModal || inviteBusy) return;
-    if (!inviteModal.isOwner) return;
+    if (!inviteModal.permissions.includes("manage_invites")) return;
     const ok = window.confirm("この招待URLを削除しますか？");
     if (!ok) return;
     setInviteBusy(true);
@@ -1544,6 +1841,17 @@ export default function App() {
     setMembers(list);
   }
 
+  async function refreshRolesAndMembers() {
+    if (!inviteModal) return;
+    try {
+      const [roles, list] = await Promise.all([api.listRoomRoles(inviteModal.roomId), api.listRoomMembers(inviteModal.roomId)]);
+      setRoomRoles(roles);
+      setMembers(list);
+    } catch (e) {
+      setInviteError(e instanceof Error ? e.message : "failed");
+    }
+  }
+
   async function leaveRoom(roomId: string) {
     if (!inviteModal || inviteBusy) return;
     setConfirmModal({ kind: "leave", roomId, roomName: inviteModal.roomName });
@@ -1567,7 +1875,7 @@ export default function App() {
 
   async function kickMember(userId: string) {
     if (!inviteModal || inviteBusy) return;
-    if (!inviteModal.isOwner) return;
+    if (!inviteModal.permissions.includes("kick_members")) return;
     const target = members.find((m) => m.userId === userId);
     setConfirmModal({ kind: "kick", roomId: inviteModal.roomId, userId, displayName: target?.displayName ?? userId });
   }
@@ -1642,6 +1950,11 @@ export default function App() {
     setDeleteError(null);
   }
 
+  function openChannelPermissions(channelId: string, channelName: string) {
+    if (!selectedRoomId) return;
+    setChannelPermissionsModal({ roomId: selectedRoomId, channelId, channelName });
+  }
+
   function closeDeleteModal() {
     if (deleteBusy) return;
     setDeleteModal(null);
@@ -1693,12 +2006,30 @@ export default function App() {
       if (createModal.kind === "channel") {
         await createChannel({ name, categoryId: createModal.categoryId });
       }
+      if (createModal.kind === "rename") {
+        const { target, roomId, id } = createModal;
+        if (target === "room") {
+          const room = await api.renameRoom(roomId, name);
+          patchTree(roomId, { room: { id: room.id, name: room.name } });
+        }
+        if (target === "category") {
+          const c = await api.updateCategory(roomId, id, { name });
+          patchTree(roomId, { categories: [{ id: c.id, name: c.name, position: c.position }] });
+        }
+        if (target === "channel") {
+          applyChannelUpdate(roomId, await api.updateChannel(roomId, id, { name }));
+        }
+      }
       setCreateModal(null);
       setCreateName("");
     } catch (e: any) {
       const msg = e?.message ?? "failed";
-      if (msg === "only_first_user_can_create_rooms") {
-        setCreateError("Room作成は最初に作成したアカウントのみ可能です");
+      if (msg === "room_creation_not_allowed") {
+        setCreateError(
+          instanceInfo?.roomCreationPolicy === "first_user"
+            ? "Room作成は最初に作成したアカウントのみ可能です"
+            : "このサーバーではRoomを作成する権限がありません（管理者に依頼してね）"
+        );
       } else {
         setCreateError(msg);
       }
@@ -1835,14 +2166,27 @@ export default function App() {
           selectedChannelName={selectedChannelName}
           selectChannelAndMarkRead={selectChannelAndMarkRead}
           unreadByChannelId={unreadByChannelId}
-          notifications={notifications}
-          setNotifications={setNotifications}
+          mentionCountByChannelId={mentionCountByChannelId}
+          unreadByRoomId={unreadByRoomId}
+          readMarker={readMarker}
+          markUnread={markUnread}
+          notifications={notificationList}
+          notificationUnreadCount={notificationUnreadCount}
+          clearNotifications={() => void clearNotifications().catch(() => {})}
+          dismissNotification={(id: string) => void clearNotifications([id]).catch(() => {})}
+          openNotificationCenter={() => setNotificationsOpen(true)}
+          openNotificationSettings={() => setNotificationSettingsOpen(true)}
           openNotification={openNotification}
+          openRoomMessage={openRoomMessage}
           openCreateCategory={openCreateCategory}
           openInviteModal={openInviteModal}
           openCreateChannel={openCreateChannel}
           openDeleteCategory={openDeleteCategory}
           openDeleteChannel={openDeleteChannel}
+          openChannelPermissions={openChannelPermissions}
+          openRename={openRename}
+          moveChannel={moveChannel}
+          moveCategory={moveCategory}
           memberPane={memberPane}
           memberPaneLoading={memberPaneLoading}
           memberPaneError={memberPaneError}
@@ -1854,6 +2198,8 @@ export default function App() {
           openAddFriend={openAddFriend}
           openHomeAudit={openHomeAudit}
           homeAuditBusy={homeAuditBusy}
+          isInstanceAdmin={!!instanceInfo?.isAdmin}
+          openAdminConsole={() => setAdminConsoleOpen(true)}
           homeError={homeError}
           addFriendOpen={addFriendOpen}
           homeLoading={homeLoading}
@@ -1910,10 +2256,16 @@ export default function App() {
           setReg={setReg as any}
           regUserIdErr={regUserIdErr}
           regNameErr={regNameErr}
+          registrationMode={registrationMode}
           agreeNoRecovery={agreeNoRecovery}
           setAgreeNoRecovery={setAgreeNoRecovery}
+          recovery={recovery}
+          setRecovery={setRecovery}
+          recoveryUserIdErr={recoveryUserIdErr}
           onLogin={onLogin}
+          onConditionalLogin={onConditionalLogin}
           onRegister={onRegister}
+          onRecover={onRecover}
         />
       )}
 
@@ -1957,6 +2309,9 @@ export default function App() {
         deleteBusy={deleteBusy}
         submitDelete={submitDelete}
         deleteError={deleteError}
+        channelPermissionsModal={channelPermissionsModal}
+        closeChannelPermissionsModal={() => setChannelPermissionsModal(null)}
+        applyChannelUpdate={applyChannelUpdate}
         userAction={userAction}
         closeUserActions={closeUserActions}
         userActionBusy={userActionBusy}
@@ -1988,6 +2343,8 @@ export default function App() {
         inviteError={inviteError}
         auditError={auditError}
         members={members}
+        roomRoles={roomRoles}
+        refreshRolesAndMembers={refreshRolesAndMembers}
         invites={invites}
         auditLogs={auditLogs}
         inviteUrlFromCode={inviteUrlFromCode}
@@ -2017,6 +2374,24 @@ export default function App() {
         homeAuditLogs={homeAuditLogs}
         closeHomeAudit={closeHomeAudit}
         openHomeAudit={openHomeAudit}
+        adminConsoleOpen={adminConsoleOpen && !!instanceInfo?.isAdmin}
+        closeAdminConsole={() => setAdminConsoleOpen(false)}
+        refreshInstanceInfo={refreshInstanceInfo}
+        recoveryCodes={recoveryCodes}
+        closeRecoveryCodes={() => setRecoveryCodes(null)}
+        notificationsOpen={notificationsOpen}
+        closeNotifications={() => setNotificationsOpen(false)}
+        notifications={notifications}
+        notificationUnreadCount={notificationUnreadCount}
+        notificationsHasMore={notificationsHasMore}
+        notificationsLoadingMore={notificationsLoadingMore}
+        loadMoreNotifications={loadMoreNotifications}
+        openNotification={openNotification}
+        markNotificationsRead={markNotificationsRead}
+        clearNotifications={clearNotifications}
+        notificationSettingsOpen={notificationSettingsOpen}
+        openNotificationSettings={() => setNotificationSettingsOpen(true)}
+        closeNotificationSettings={() => setNotificationSettingsOpen(false)}
       />
     </div>
   );
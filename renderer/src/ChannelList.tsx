@@ -1,4 +1,7 @@
-import type { RoomTree } from "./api";
+import { useState } from "react";
+import type { DragEvent } from "react";
+import type { NotificationKind, RoomTree } from "./api";
+import { NOTIFICATION_BADGES } from "./hooks/useNotifications";
 
 type Props = {
   tree: RoomTree;
@@ -6,40 +9,152 @@ type Props = {
   onSelectChannel: (id: string) => void;
   width?: number;
   unreadByChannelId?: Record<string, boolean>;
-  notifications?: Array<{ id: string; kind: "dm" | "mention"; title: string; body: string; at: number }>;
+  // unread messages mentioning me, per channel
+  mentionCountByChannelId?: Record<string, number>;
+  notifications?: Array<{ id: string; kind: NotificationKind; title: string; body: string; at: number; unread: boolean }>;
+  // not counting muted rooms / channels
+  notificationUnreadCount?: number;
   onOpenNotification?: (id: string) => void;
   onDismissNotification?: (id: string) => void;
   onClearNotifications?: () => void;
+  onOpenNotificationCenter?: () => void;
+  onOpenNotificationSettings?: () => void;
+  // every message that mentioned me, across rooms
+  onOpenMentions?: () => void;
   onRequestCreateCategory?: () => void;
   onOpenRoomSettings?: () => void;
   onRequestCreateChannel?: (categoryId: string | null) => void;
   onRequestDeleteCategory?: (categoryId: string, categoryName: string) => void;
   onRequestDeleteChannel?: (channelId: string, channelName: string) => void;
+  onRequestChannelPermissions?: (channelId: string, channelName: string) => void;
+  onRequestRenameRoom?: () => void;
+  onRequestRenameCategory?: (categoryId: string, categoryName: string) => void;
+  onRequestRenameChannel?: (channelId: string, channelName: string) => void;
+  // drag & drop; beforeId null = at the end
+  onMoveChannel?: (channelId: string, categoryId: string | null, beforeChannelId: string | null) => void;
+  onMoveCategory?: (categoryId: string, beforeCategoryId: string | null) => void;
   currentUserName: string;
   currentUserAvatarUrl?: string | null;
   onOpenSettings?: () => void;
 };
 
+export function MentionBadge({ count }: { count: number }) {
+  return (
+    <span
+      style={{
+        minWidth: 18,
+        height: 18,
+        padding: "0 5px",
+        borderRadius: 999,
+        background: "#f04747",
+        color: "#ffffff",
+        fontSize: 11,
+        fontWeight: 900,
+        lineHeight: "18px",
+        textAlign: "center",
+        flexShrink: 0,
+        boxSizing: "border-box",
+      }}
+      title={`メンション ${count}件`}
+    >
+      {count > 99 ? "99+" : count}
+    </span>
+  );
+}
+
 export function ChannelList({
   tree,
   selectedChannelId,
   onSelectChannel,
   width,
   unreadByChannelId,
+  mentionCountByChannelId,
   notifications,
+  notificationUnreadCount = 0,
   onOpenNotification,
   onDismissNotification,
   onClearNotifications,
+  onOpenNotificationCenter,
+  onOpenNotificationSettings,
+  onOpenMentions,
   onRequestCreateCategory,
   onOpenRoomSettings,
   onRequestCreateChannel,
   onRequestDeleteCategory,
   onRequestDeleteChannel,
+  onRequestChannelPermissions,
+  onRequestRenameRoom,
+  onRequestRenameCategory,
+  onRequestRenameChannel,
+  onMoveChannel,
+  onMoveCategory,
   currentUserName,
   currentUserAvatarUrl,
   onOpenSettings,
 }: Props) {
   const w = width ?? 240;
+  const [drag, setDrag] = useState<{ kind: "channel" | "category"; id: string } | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  function endDrag() {
+    setDrag(null);
+    setDropTarget(null);
+  }
+
+  function startDrag(e: DragEvent, kind: "channel" | "category", id: string) {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", id);
+    setDrag({ kind, id });
+  }
+
+  // dropping on a channel puts the dragged channel before it
+  function channelDragProps(channelId: string, categoryId: string | null) {
+    if (!onMoveChannel) return {};
+    return {
+      draggable: true,
+      onDragStart: (e: DragEvent) => startDrag(e, "channel", channelId),
+      onDragOver: (e: DragEvent) => {
+        if (drag?.kind !== "channel") return;
+        e.preventDefault();
+        setDropTarget(`channel:${channelId}`);
+      },
+      onDrop: (e: DragEvent) => {
+        if (drag?.kind !== "channel") return;
+        e.preventDefault();
+        onMoveChannel(drag.id, categoryId, channelId);
+        endDrag();
+      },
+      onDragEnd: endDrag,
+    };
+  }
+
+  // dropping on a category header: channels go to the end of it, categories before it (Uncategorized = last)
+  function headerDragProps(categoryId: string | null) {
+    const key = `category:${categoryId ?? ""}`;
+    const accepts = (kind: "channel" | "category" | undefined) =>
+      (kind === "channel" && !!onMoveChannel) || (kind === "category" && !!onMoveCategory);
+    return {
+      draggable: !!onMoveCategory && categoryId !== null,
+      onDragStart: (e: DragEvent) => {
+        if (categoryId) startDrag(e, "category", categoryId);
+      },
+      onDragOver: (e: DragEvent) => {
+        if (!accepts(drag?.kind)) return;
+        e.preventDefault();
+        setDropTarget(key);
+      },
+      onDrop: (e: DragEvent) => {
+        if (!drag || !accepts(drag.kind)) return;
+        e.preventDefault();
+        if (drag.kind === "channel") onMoveChannel?.(drag.id, categoryId, null);
+        else onMoveCategory?.(drag.id, categoryId);
+        endDrag();
+      },
+      onDragEnd: endDrag,
+    };
+  }
+
+  const dropLine = (key: string) => (dropTarget === key ? { boxShadow: "inset 0 2px 0 #7289da" } : {});
   return (
     <div style={{
       width: w,
@@ -54,7 +169,30 @@ export function ChannelList({
       overflow: "hidden"
     }}>
       <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8, marginBottom: 12, padding: "0 16px" }}>
-        <div style={{ fontSize: 16, fontWeight: "bold" }}>{tree.room.name}</div>
+        <div style={{ display: "flex", alignItems: "center", gap: 6, minWidth: 0 }}>
+          <div style={{ fontSize: 16, fontWeight: "bold", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+            {tree.room.name}
+          </div>
+          {onRequestRenameRoom && (
+            <button
+              onClick={onRequestRenameRoom}
+              style={{
+                border: "none",
+                background: "transparent",
+                color: "#8e9297",
+                cursor: "pointer",
+                fontSize: 14,
+                padding: 0,
+                lineHeight: 1,
+                flexShrink: 0,
+              }}
+              title="Room名を変更"
+              aria-label="Room名を変更"
+            >
+              ✎
+            </button>
+          )}
+        </div>
         <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
           {onOpenRoomSettings && (
             <button
@@ -97,7 +235,19 @@ export function ChannelList({
       <div style={{ flex: 1, overflowY: "auto" }}>
         {tree.categories.map((cat) => (
           <div key={cat.id} style={{ marginBottom: 16 }}>
-            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8, padding: "0 16px", marginBottom: 8 }}>
+            <div
+              {...headerDragProps(cat.id)}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+                gap: 8,
+                padding: "0 16px",
+                marginBottom: 8,
+                cursor: onMoveCategory ? "grab" : undefined,
+                ...dropLine(`category:${cat.id}`),
+              }}
+            >
               <div style={{
                 fontSize: 12,
                 fontWeight: "bold",
@@ -107,6 +257,24 @@ export function ChannelList({
                 {cat.name}
               </div>
               <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+                {onRequestRenameCategory && (
+                  <button
+                    onClick={() => onRequestRenameCategory(cat.id, cat.name)}
+                    style={{
+                      border: "none",
+                      background: "transparent",
+                      color: "#8e9297",
+                      cursor: "pointer",
+                      fontSize: 13,
+                      padding: 0,
+                      lineHeight: 1
+                    }}
+                    title="カテゴリ名を変更"
+                    aria-label="カテゴリ名を変更"
+                  >
+                    ✎
+                  </button>
+                )}
                 {onRequestCreateChannel && (
                   <button
                     onClick={() => onRequestCreateChannel(cat.id)}
@@ -150,6 +318,7 @@ export function ChannelList({
                 return (
                   <button
                     key={ch.id}
+                    {...channelDragProps(ch.id, cat.id)}
                     onClick={() => onSelectChannel(ch.id)}
                     style={{
                       width: "100%",
@@ -164,7 +333,8 @@ export function ChannelList({
                       display: "flex",
                       alignItems: "center",
                       gap: 6,
-                      transition: "background 0.1s ease"
+                      transition: "background 0.1s ease",
+                      ...dropLine(`channel:${ch.id}`),
                     }}
                     onMouseEnter={(e) => {
                       if (!active) e.currentTarget.style.background = "#35373c";
@@ -173,20 +343,67 @@ export function ChannelList({
                       if (!active) e.currentTarget.style.background = "transparent";
                     }}
                   >
-                    <span style={{ color: "#8e9297" }}>#</span>
+                    <span style={{ color: "#8e9297" }} title={ch.private ? "プライベートチャンネル" : undefined}>
+                      {ch.private ? "🔒" : "#"}
+                    </span>
                     <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{ch.name}</span>
-                    {!!unreadByChannelId?.[ch.id] && !active && (
+                    {!active && (mentionCountByChannelId?.[ch.id] ?? 0) > 0 ? (
+                      <MentionBadge count={mentionCountByChannelId?.[ch.id] ?? 0} />
+                    ) : (
+                      !!unreadByChannelId?.[ch.id] &&
+                      !active && (
+                        <span
+                          style={{
+                            width: 8,
+                            height: 8,
+                            borderRadius: 999,
+                            background: "#f04747",
+                            flexShrink: 0,
+                            boxShadow: "0 0 0 2px rgba(0,0,0,0.25)",
+                          }}
+                          title="未読"
+                        />
+                      )
+                    )}
+                    {onRequestRenameChannel && (
                       <span
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          onRequestRenameChannel(ch.id, ch.name);
+                        }}
+                        role="button"
+                        aria-label="チャンネル名を変更"
+                        title="チャンネル名を変更"
                         style={{
-                          width: 8,
-                          height: 8,
-                          borderRadius: 999,
-                          background: "#f04747",
-                          flexShrink: 0,
-                          boxShadow: "0 0 0 2px rgba(0,0,0,0.25)",
+                          color: "#8e9297",
+                          padding: "0 2px",
+                          cursor: "pointer",
+                          lineHeight: 1,
                         }}
-                        title="未読"
-                      />
+                      >
+                        ✎
+                      </span>
+                    )}
+                    {onRequestChannelPermissions && (
+                      <span
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          onRequestChannelPermissions(ch.id, ch.name);
+                        }}
+                        role="button"
+                        aria-label="チャンネルの設定"
+                        title="チャンネルの設定"
+                        style={{
+                          color: "#8e9297",
+                          padding: "0 2px",
+                          cursor: "pointer",
+                          lineHeight: 1,
+                        }}
+                      >
+                        ⚙
+                      </span>
                     )}
                     {onRequestDeleteChannel && (
                       <span
@@ -218,7 +435,18 @@ export function ChannelList({
 
         {tree.uncategorized.length > 0 && (
           <div style={{ marginTop: 16 }}>
-            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8, padding: "0 16px", marginBottom: 8 }}>
+            <div
+              {...headerDragProps(null)}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+                gap: 8,
+                padding: "0 16px",
+                marginBottom: 8,
+                ...dropLine("category:"),
+              }}
+            >
               <div style={{
                 fontSize: 12,
                 fontWeight: "bold",
@@ -251,6 +479,7 @@ export function ChannelList({
                 return (
                   <button
                     key={ch.id}
+                    {...channelDragProps(ch.id, null)}
                     onClick={() => onSelectChannel(ch.id)}
                     style={{
                       width: "100%",
@@ -265,7 +494,8 @@ export function ChannelList({
                       display: "flex",
                       alignItems: "center",
                       gap: 6,
-                      transition: "background 0.1s ease"
+                      transition: "background 0.1s ease",
+                      ...dropLine(`channel:${ch.id}`),
                     }}
                     onMouseEnter={(e) => {
                       if (!active) e.currentTarget.style.background = "#35373c";
@@ -274,20 +504,67 @@ export function ChannelList({
                       if (!active) e.currentTarget.style.background = "transparent";
                     }}
                   >
-                    <span style={{ color: "#8e9297" }}>#</span>
+                    <span style={{ color: "#8e9297" }} title={ch.private ? "プライベートチャンネル" : undefined}>
+                      {ch.private ? "🔒" : "#"}
+                    </span>
                     <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{ch.name}</span>
-                    {!!unreadByChannelId?.[ch.id] && !active && (
+                    {!active && (mentionCountByChannelId?.[ch.id] ?? 0) > 0 ? (
+                      <MentionBadge count={mentionCountByChannelId?.[ch.id] ?? 0} />
+                    ) : (
+                      !!unreadByChannelId?.[ch.id] &&
+                      !active && (
+                        <span
+                          style={{
+                            width: 8,
+                            height: 8,
+                            borderRadius: 999,
+                            background: "#f04747",
+                            flexShrink: 0,
+                            boxShadow: "0 0 0 2px rgba(0,0,0,0.25)",
+                          }}
+                          title="未読"
+                        />
+                      )
+                    )}
+                    {onRequestRenameChannel && (
                       <span
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          onRequestRenameChannel(ch.id, ch.name);
+                        }}
+                        role="button"
+                        aria-label="チャンネル名を変更"
+                        title="チャンネル名を変更"
                         style={{
-                          width: 8,
-                          height: 8,
-                          borderRadius: 999,
-                          background: "#f04747",
-                          flexShrink: 0,
-                          boxShadow: "0 0 0 2px rgba(0,0,0,0.25)",
+                          color: "#8e9297",
+                          padding: "0 2px",
+                          cursor: "pointer",
+                          lineHeight: 1,
                         }}
-                        title="未読"
-                      />
+                      >
+                        ✎
+                      </span>
+                    )}
+                    {onRequestChannelPermissions && (
+                      <span
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          onRequestChannelPermissions(ch.id, ch.name);
+                        }}
+                        role="button"
+                        aria-label="チャンネルの設定"
+                        title="チャンネルの設定"
+                        style={{
+                          color: "#8e9297",
+                          padding: "0 2px",
+                          cursor: "pointer",
+                          lineHeight: 1,
+                        }}
+                      >
+                        ⚙
+                      </span>
                     )}
                     {onRequestDeleteChannel && (
                       <span
@@ -329,7 +606,70 @@ export function ChannelList({
         }}
       >
         <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
-          <div style={{ color: "#b9bbbe", fontSize: 12, fontWeight: 900 }}>通知</div>
+          <div style={{ color: "#b9bbbe", fontSize: 12, fontWeight: 900 }}>
+            通知
+            {notificationUnreadCount > 0 && (
+              <span style={{ marginLeft: 6, color: "#ffffff", background: "#ed4245", borderRadius: 999, padding: "0 6px", fontSize: 11 }}>
+                {notificationUnreadCount > 99 ? "99+" : notificationUnreadCount}
+              </span>
+            )}
+          </div>
+          {onOpenMentions && (
+            <button
+              type="button"
+              onClick={onOpenMentions}
+              style={{
+                marginLeft: "auto",
+                border: "none",
+                background: "transparent",
+                color: "#8e9297",
+                cursor: "pointer",
+                fontSize: 12,
+                fontWeight: 900,
+                padding: 0,
+              }}
+              title="自分へのメンションを一覧"
+            >
+              @ メンション
+            </button>
+          )}
+          {onOpenNotificationCenter && (
+            <button
+              type="button"
+              onClick={onOpenNotificationCenter}
+              style={{
+                border: "none",
+                background: "transparent",
+                color: "#8e9297",
+                cursor: "pointer",
+                fontSize: 12,
+                fontWeight: 900,
+                padding: 0,
+              }}
+              title="通知をすべて表示"
+            >
+              すべて
+            </button>
+          )}
+          {onOpenNotificationSettings && (
+            <button
+              type="button"
+              onClick={onOpenNotificationSettings}
+              style={{
+                border: "none",
+                background: "transparent",
+                color: "#8e9297",
+                cursor: "pointer",
+                fontSize: 12,
+                fontWeight: 900,
+                padding: 0,
+              }}
+              title="このRoomの通知設定"
+              aria-label="通知設定"
+            >
+              ⚙
+            </button>
+          )}
           {onClearNotifications && (
             <button
               type="button"
@@ -360,8 +700,7 @@ export function ChannelList({
               const time = Number.isNaN(t.getTime())
                 ? ""
                 : t.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
-              const badgeColor = n.kind === "dm" ? "#3ba55c" : "#faa61a";
-              const badgeText = n.kind === "dm" ? "DM" : "@";
+              const badge = NOTIFICATION_BADGES[n.kind] ?? { text: "?", color: "#b9bbbe" };
               return (
                 <button
                   key={n.id}
@@ -378,6 +717,7 @@ export function ChannelList({
                     cursor: "pointer",
                     display: "grid",
                     gap: 4,
+                    opacity: n.unread ? 1 : 0.7,
                   }}
                   title={n.title}
                 >
@@ -391,14 +731,14 @@ export function ChannelList({
                         height: 18,
                         padding: "0 6px",
                         borderRadius: 999,
-                        background: badgeColor,
+                        background: badge.color,
                         color: "#111",
                         fontSize: 11,
                         fontWeight: 900,
                         flexShrink: 0,
                       }}
                     >
-                      {badgeText}
+                      {badge.text}
                     </span>
                     <span
                       style={{
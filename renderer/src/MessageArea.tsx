@@ -1,7 +1,8 @@
-import { useEffect, useRef, useState } from "react";
+import { Fragment, useEffect, useRef, useState } from "react";
 import { api } from "./api";
-import type { Message, Poll, RoomSearchMessage } from "./api";
+import type { AttachmentMeta, ChannelPermission, ChannelType, Message, Poll, RoomSearchMessage, Thread } from "./api";
 import { realtime } from "./realtime";
+import type { ChannelAttachmentEvent } from "./realtime";
 import { Modal } from "./Modal";
 import { renderTextWithLinks, renderTextWithLinksAndHighlights } from "./linkify";
 import { ReactionPickerModal } from "./modals/ReactionPickerModal";
@@ -13,14 +14,40 @@ type Props = {
   selectedChannelName: string | null;
   onAuthorClick?: (author: { userId: string; displayName: string }) => void;
   currentUserId?: string | null;
-  canModerate?: boolean;
+  // room owner: may edit other people's messages
+  canEditOthers?: boolean;
+  // delete_messages / manage_stickers permissions in this room
+  canDeleteOthers?: boolean;
+  canManageStickers?: boolean;
+  // the current user's permissions in the selected channel (undefined: everything)
+  channelPermissions?: ChannelPermission[];
+  channelTopic?: string | null;
+  channelType?: ChannelType;
+  // seconds between posts per member; 0 = off
+  slowmodeSeconds?: number;
+  // manage_channels: slow mode doesn't apply
+  slowmodeExempt?: boolean;
   mentionCandidates?: Array<{ userId: string; displayName: string }>;
   enterKeySends?: boolean;
   focusMessageId?: string | null;
   focusMessageNonce?: number;
-  onJumpToMessage?: (args: { channelId: string; messageId: string }) => void;
+  onJumpToMessage?: (args: { channelId: string; messageId: string; threadId?: string | null }) => void;
+  // thread mode (side panel): this thread's messages instead of the channel's; remount (key) per thread
+  thread?: Thread | null;
+  // may archive threads other people started (manage_channels)
+  canManageThreads?: boolean;
+  onOpenThread?: (thread: Thread) => void;
+  onCloseThread?: () => void;
+  // pin_messages permission; onOpenPins shows the channel's pins (header button)
+  canPinMessages?: boolean;
+  onOpenPins?: () => void;
+  // read position when the channel was opened ("new messages" divider) and "mark unread from here"
+  readMarker?: { lastReadMessageId: string | null; lastReadAt: string | null } | null;
+  onMarkUnread?: (messageId: string) => Promise<void>;
 };
 
+const THREAD_ARCHIVE_LABELS: Record<number, string> = { 60: "1時間", 1440: "24時間", 4320: "3日", 10080: "1週間" };
+
 function scrollFromBottomKey(userId: string, channelId: string) {
   return `yuiroom.scrollFromBottom:${userId}:${channelId}`;
 }
@@ -47,14 +74,51 @@ function writeScrollFromBottom(userId: string, channelId: string, value: number)
 function humanizeError(err: string): string {
   if (!err) return err;
   if (err === "attachment_too_large") return "添付ファイルが大きすぎます（10MBまで）";
-  if (err === "attachment_invalid_dataUrl") return "添付ファイルの形式が不正です";
+  if (err === "attachment_invalid_dataUrl" || err === "upload_invalid_type") return "添付ファイルの形式が不正です";
+  if (err === "missing_permission") return "このチャンネルでその操作をする権限がありません";
+  if (err === "message_in_thread") return "スレッド内のメッセージからはスレッドを作れません";
+  if (err === "thread_exists") return "このメッセージには既にスレッドがあります";
+  if (err === "thread_not_found") return "スレッドが見つかりません（削除された可能性があります）";
+  if (err === "too_many_pins") return "このチャンネルのピン留めが上限に達しています（外してから追加してください）";
+  if (err === "slowmode") return "低速モード中です（少し待ってから送信して下さい）";
+  if (err === "upload_not_found") return "添付ファイルの有効期限が切れました（もう一度添付して下さい）";
+  if (err === "uploads_too_many_pending") return "送信待ちの添付ファイルが多すぎます（しばらく待って下さい）";
   if (err === "attachment_transcode_failed") return "動画の変換に失敗しました（別の動画で試すか、H.264/AACで再エンコードして下さい）";
   if (err === "attachment_transcode_timeout") return "動画の変換がタイムアウトしました（動画が長い/重い可能性）";
   if (err === "attachment_transcode_output_too_large") return "変換後の動画サイズが大きすぎます（10MBまで）";
   if (err === "attachment_transcode_unavailable") return "サーバー側の動画変換が利用できません（管理者に連絡して下さい）";
+  if (err === "attachment_processing_failed") return "添付ファイルの処理に失敗しました";
   return err;
 }
 
+const threadButtonStyle = {
+  border: "1px solid #40444b",
+  background: "transparent",
+  color: "#b9bbbe",
+  cursor: "pointer",
+  padding: "4px 8px",
+  borderRadius: 8,
+  fontSize: 12,
+  fontWeight: 800,
+} as const;
+
+function formatSlowmode(seconds: number) {
+  if (seconds % 3600 === 0) return `${seconds / 3600}時間`;
+  if (seconds % 60 === 0) return `${seconds / 60}分`;
+  return `${seconds}秒`;
+}
+
+const channelBadgeStyle = {
+  fontSize: 11,
+  fontWeight: 900,
+  color: "#b9bbbe",
+  border: "1px solid #40444b",
+  borderRadius: 999,
+  padding: "1px 8px",
+  flexShrink: 0,
+  whiteSpace: "nowrap",
+} as const;
+
 function formatTime(iso: string) {
   const d = new Date(iso);
   if (Number.isNaN(d.getTime())) return "";
@@ -68,26 +132,74 @@ function formatTime(iso: string) {
   });
 }
 
+const ATTACHMENT_MAX_WIDTH = 420;
+
+// Reserves the final size up front (from the server-reported dimensions) so the list doesn't jump while media loads.
+function attachmentBoxStyle(a: AttachmentMeta): React.CSSProperties {
+  if (a.width && a.height) {
+    return { maxWidth: Math.min(ATTACHMENT_MAX_WIDTH, a.width), width: "100%", aspectRatio: `${a.width} / ${a.height}` };
+  }
+  return { maxWidth: ATTACHMENT_MAX_WIDTH, width: "100%", height: 180 };
+}
+
+// Smallest thumbnail that still looks sharp at the displayed size; null = use the original.
+function pickThumbnailWidth(a: AttachmentMeta): number | null {
+  const thumbs = a.thumbnails ?? [];
+  if (thumbs.length === 0) return null;
+  const dpr = typeof window !== "undefined" ? window.devicePixelRatio || 1 : 1;
+  const needed = Math.min(ATTACHMENT_MAX_WIDTH, a.width ?? ATTACHMENT_MAX_WIDTH) * dpr;
+  return thumbs.find((t) => t.width >= needed)?.width ?? null;
+}
+
+// true once the element has come near the viewport (stays true); media is only fetched after that.
+function useNearViewport<T extends Element>() {
+  const ref = useRef<T | null>(null);
+  const [near, setNear] = useState(false);
+
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || near) return;
+    const io = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) setNear(true);
+      },
+      { rootMargin: "400px 0px" }
+    );
+    io.observe(el);
+    return () => io.disconnect();
+  }, [near]);
+
+  return [ref, near] as const;
+}
+
 function AttachmentImage({
-  attachmentId,
+  attachment,
   onOpen,
 }: {
-  attachmentId: string;
+  attachment: AttachmentMeta;
   onOpen?: (src: string) => void;
 }) {
+  const attachmentId = attachment.id;
+  const thumbWidth = pickThumbnailWidth(attachment);
+  const [boxRef, near] = useNearViewport<HTMLDivElement>();
   const [url, setUrl] = useState<string | null>(null);
   const [failed, setFailed] = useState(false);
+  const [opening, setOpening] = useState(false);
+  // full-size object URL for the image modal (only fetched when a thumbnail is shown)
+  const originalUrlRef = useRef<string | null>(null);
 
   useEffect(() => {
+    if (!near) return;
     let active = true;
     let objectUrl: string | null = null;
 
-    setUrl(null);
-    setFailed(false);
-
     void (async () => {
       try {
-        const blob = await api.fetchAttachmentBlob(attachmentId);
+        const blob =
+          thumbWidth != null
+            ? await api.fetchAttachmentThumbnailBlob(attachmentId, thumbWidth)
+            : await api.fetchAttachmentBlob(attachmentId);
         if (!active) return;
         objectUrl = URL.createObjectURL(blob);
         setUrl(objectUrl);
@@ -101,13 +213,42 @@ function AttachmentImage({
       active = false;
       if (objectUrl) URL.revokeObjectURL(objectUrl);
     };
+  }, [attachmentId, thumbWidth, near]);
+
+  useEffect(() => {
+    return () => {
+      if (originalUrlRef.current) URL.revokeObjectURL(originalUrlRef.current);
+      originalUrlRef.current = null;
+    };
   }, [attachmentId]);
 
+  async function open() {
+    if (!url) return;
+    if (thumbWidth == null) {
+      onOpen?.(url);
+      return;
+    }
+    if (!originalUrlRef.current) {
+      setOpening(true);
+      try {
+        const blob = await api.fetchAttachmentBlob(attachmentId);
+        originalUrlRef.current = URL.createObjectURL(blob);
+      } catch {
+        // fall back to the thumbnail
+      } finally {
+        setOpening(false);
+      }
+    }
+    onOpen?.(originalUrlRef.current ?? url);
+  }
+
+  const box = attachmentBoxStyle(attachment);
+
   if (failed) {
     return (
       <div
         style={{
-          maxWidth: 420,
+          maxWidth: ATTACHMENT_MAX_WIDTH,
           width: "100%",
           borderRadius: 8,
           border: "1px solid #3a3f47",
@@ -125,13 +266,12 @@ function AttachmentImage({
   if (!url) {
     return (
       <div
+        ref={boxRef}
         style={{
-          maxWidth: 420,
-          width: "100%",
+          ...box,
           borderRadius: 8,
           border: "1px solid #202225",
           background: "#2b2d31",
-          height: 180,
         }}
       />
     );
@@ -140,17 +280,17 @@ function AttachmentImage({
   return (
     <button
       type="button"
-      onClick={() => onOpen?.(url)}
-      style={{ padding: 0, border: "none", background: "transparent", cursor: "pointer", textAlign: "left" }}
+      onClick={() => void open()}
+      disabled={opening}
+      style={{ padding: 0, border: "none", background: "transparent", cursor: opening ? "progress" : "pointer", textAlign: "left" }}
       title="画像を拡大"
     >
       <img
         src={url}
         alt="attachment"
-        loading="lazy"
         style={{
-          maxWidth: 420,
-          width: "100%",
+          ...box,
+          height: "auto",
           borderRadius: 8,
           border: "1px solid #202225",
           display: "block",
@@ -160,29 +300,79 @@ function AttachmentImage({
   );
 }
 
-function AttachmentVideo({ attachmentId, mimeType }: { attachmentId: string; mimeType: string }) {
+// Shown while the server is still processing an attachment, or after it gave up.
+function AttachmentPending({ attachment, progress }: { attachment: AttachmentMeta; progress: number | null }) {
+  const failed = attachment.status === "failed";
+  const isVideo = attachment.mime_type === "video/mp4";
+  return (
+    <div
+      style={{
+        ...attachmentBoxStyle(attachment),
+        borderRadius: 8,
+        border: `1px solid ${failed ? "#3a3f47" : "#202225"}`,
+        background: "#2b2d31",
+        color: "#8e9297",
+        padding: 12,
+        fontSize: 12,
+        boxSizing: "border-box",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "center",
+        gap: 8,
+      }}
+    >
+      {failed ? (
+        <div>{humanizeError(attachment.error || "attachment_processing_failed")}</div>
+      ) : (
+        <>
+          <div>
+            {isVideo ? "動画を処理しています…" : "画像を処理しています…"}
+            {progress != null ? ` ${Math.round(progress * 100)}%` : ""}
+          </div>
+          {progress != null && (
+            <div style={{ height: 6, borderRadius: 999, background: "#202225", overflow: "hidden" }}>
+              <div style={{ width: `${Math.round(progress * 100)}%`, height: "100%", background: "#7289da" }} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function AttachmentVideo({ attachment }: { attachment: AttachmentMeta }) {
+  const attachmentId = attachment.id;
+  const mimeType = attachment.mime_type;
+  const hasPoster = !!attachment.poster;
+  const [boxRef, near] = useNearViewport<HTMLDivElement>();
   const [url, setUrl] = useState<string | null>(null);
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
   const [failed, setFailed] = useState(false);
   const [errorDetail, setErrorDetail] = useState<string | null>(null);
-  const [blobSize, setBlobSize] = useState<number | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const refreshedRef = useRef(false);
 
+  // Streams straight from the server (Range requests) via a signed URL instead of downloading the whole file first.
+  // Nothing is requested until the video scrolls near the viewport.
   useEffect(() => {
+    if (!near) return;
     let active = true;
-    let objectUrl: string | null = null;
+    let posterObjectUrl: string | null = null;
 
-    setUrl(null);
-    setFailed(false);
-    setErrorDetail(null);
-    setBlobSize(null);
+    refreshedRef.current = false;
 
     void (async () => {
       try {
-        const blob = await api.fetchAttachmentBlob(attachmentId);
+        const [signed, poster] = await Promise.all([
+          api.getAttachmentSignedUrl(attachmentId),
+          hasPoster ? api.fetchAttachmentPosterBlob(attachmentId).catch(() => null) : Promise.resolve(null),
+        ]);
         if (!active) return;
-        const normalized = blob.type ? blob : new Blob([blob], { type: mimeType });
-        objectUrl = URL.createObjectURL(normalized);
-        setUrl(objectUrl);
-        setBlobSize(normalized.size);
+        if (poster) {
+          posterObjectUrl = URL.createObjectURL(poster);
+          setPosterUrl(posterObjectUrl);
+        }
+        setUrl(signed.url);
       } catch (e: any) {
         if (!active) return;
         setFailed(true);
@@ -192,9 +382,25 @@ function AttachmentVideo({ attachmentId, mimeType }: { attachmentId: string; mim
 
     return () => {
       active = false;
-      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      if (posterObjectUrl) URL.revokeObjectURL(posterObjectUrl);
     };
-  }, [attachmentId]);
+  }, [attachmentId, hasPoster, near]);
+
+  // The signed URL expires; when a later seek fails, get a fresh one once and resume from the same position.
+  async function refreshUrl() {
+    refreshedRef.current = true;
+    const at = videoRef.current?.currentTime ?? 0;
+    try {
+      const signed = await api.getAttachmentSignedUrl(attachmentId);
+      setUrl(signed.url);
+      requestAnimationFrame(() => {
+        if (videoRef.current && at > 0) videoRef.current.currentTime = at;
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
 
   if (failed) {
     const mp4Support = (() => {
@@ -225,7 +431,6 @@ function AttachmentVideo({ attachmentId, mimeType }: { attachmentId: string; mim
         <div>動画の読み込みに失敗しました</div>
         {errorDetail && <div style={{ marginTop: 6, opacity: 0.85 }}>reason: {errorDetail}</div>}
         {!!mimeType && <div style={{ marginTop: 6, opacity: 0.85 }}>type: {mimeType}</div>}
-        {blobSize != null && <div style={{ marginTop: 6, opacity: 0.85 }}>size: {blobSize} bytes</div>}
         {mp4Support && <div style={{ marginTop: 6, opacity: 0.85 }}>canPlayType(video/mp4): {mp4Support}</div>}
         {looksLikeCodecIssue && (
           <div style={{ marginTop: 8, color: "#c7cbd1" }}>
@@ -245,16 +450,17 @@ function AttachmentVideo({ attachmentId, mimeType }: { attachmentId: string; mim
     );
   }
 
+  const box = attachmentBoxStyle(attachment);
+
   if (!url) {
     return (
       <div
+        ref={boxRef}
         style={{
-          maxWidth: 420,
-          width: "100%",
+          ...box,
           borderRadius: 8,
           border: "1px solid #202225",
           background: "#2b2d31",
-          height: 180,
         }}
       />
     );
@@ -262,23 +468,34 @@ function AttachmentVideo({ attachmentId, mimeType }: { attachmentId: string; mim
 
   return (
     <video
+      ref={videoRef}
       src={url}
+      poster={posterUrl ?? undefined}
       controls
       playsInline
-      preload="metadata"
+      // with a poster there's nothing to show before playback, so don't fetch any of the file yet
+      preload={posterUrl ? "none" : "metadata"}
       onError={(e) => {
+        let code = 0;
         try {
-          const mediaError = (e.currentTarget as HTMLVideoElement).error;
-          const code = mediaError?.code ?? 0;
-          setErrorDetail(`media_error_${code}`);
+          code = (e.currentTarget as HTMLVideoElement).error?.code ?? 0;
         } catch {
-          setErrorDetail("media_error");
+          // ignore
         }
+        // MEDIA_ERR_NETWORK (2) / SRC_NOT_SUPPORTED (4) are also what an expired signed URL looks like
+        if (!refreshedRef.current && (code === 2 || code === 4)) {
+          void refreshUrl().then((ok) => {
+            if (ok) return;
+            setErrorDetail(`media_error_${code}`);
+            setFailed(true);
+          });
+          return;
+        }
+        setErrorDetail(code ? `media_error_${code}` : "media_error");
         setFailed(true);
       }}
       style={{
-        maxWidth: 420,
-        width: "100%",
+        ...box,
         borderRadius: 8,
         border: "1px solid #202225",
         display: "block",
@@ -294,14 +511,51 @@ export function MessageArea({
   selectedChannelName,
   onAuthorClick,
   currentUserId,
-  canModerate,
+  canEditOthers,
+  canDeleteOthers,
+  canManageStickers,
+  channelPermissions,
+  channelTopic,
+  channelType,
+  slowmodeSeconds = 0,
+  slowmodeExempt,
   mentionCandidates,
   enterKeySends = true,
   focusMessageId,
   focusMessageNonce,
   onJumpToMessage,
+  thread,
+  canManageThreads,
+  onOpenThread,
+  onCloseThread,
+  canPinMessages,
+  onOpenPins,
+  readMarker,
+  onMarkUnread,
 }: Props) {
+  const threadId = thread?.id ?? null;
+  const canSend = !channelPermissions || channelPermissions.includes("send_messages");
+  const canAttach = canSend && (!channelPermissions || channelPermissions.includes("attach_files"));
+  const canReact = !channelPermissions || channelPermissions.includes("add_reactions");
+  const canCreatePolls = !threadId && canSend && (!channelPermissions || channelPermissions.includes("create_polls"));
+  const slowmodeActive = slowmodeSeconds > 0 && !slowmodeExempt;
+
+  // channelId -> epoch ms when this member may post again (slow mode)
+  const [slowmodeUntil, setSlowmodeUntil] = useState<Record<string, number>>({});
+  const [slowmodeNow, setSlowmodeNow] = useState(() => Date.now());
+  const slowmodeWait =
+    slowmodeActive && selectedChannelId
+      ? Math.max(0, Math.ceil(((slowmodeUntil[selectedChannelId] ?? 0) - slowmodeNow) / 1000))
+      : 0;
+
   const [messages, setMessages] = useState<Message[]>([]);
+  // thread mode: the thread as last reported by the server, and the message it started from
+  const [threadLive, setThreadLive] = useState<Thread | null>(thread ?? null);
+  const [threadParent, setThreadParent] = useState<Message | null>(null);
+  const [threadBusy, setThreadBusy] = useState(false);
+  const [pinBusyFor, setPinBusyFor] = useState<string | null>(null);
+  // the divider goes away once I post (the marker object identifies the channel visit)
+  const [dividerDismissedFor, setDividerDismissedFor] = useState<Props["readMarker"]>(null);
   const [loading, setLoading] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(false);
@@ -311,13 +565,15 @@ export function MessageArea({
   const [sending, setSending] = useState(false);
 
   const [replyTo, setReplyTo] = useState<null | { id: string; author: string; content: string }>(null);
-  const [pendingAttachment, setPendingAttachment] = useState<null | { dataUrl: string; mime: string }>(null);
+  const [pendingAttachment, setPendingAttachment] = useState<null | { file: File; previewUrl: string; mime: string }>(null);
   const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
   const [deleteModalFor, setDeleteModalFor] = useState<null | { id: string; author: string; content: string }>(null);
   const [deleting, setDeleting] = useState(false);
   const [editFor, setEditFor] = useState<null | { id: string; text: string }>(null);
   const [editing, setEditing] = useState(false);
   const [imageModalSrc, setImageModalSrc] = useState<string | null>(null);
+  // attachmentId -> 0..1 while the server transcodes it
+  const [attachmentProgress, setAttachmentProgress] = useState<Record<string, number>>({});
   const [mentionOpen, setMentionOpen] = useState(false);
   const [mentionQuery, setMentionQuery] = useState("");
   const [mentionIndex, setMentionIndex] = useState(0);
@@ -350,20 +606,38 @@ export function MessageArea({
   const messagesRef = useRef<Message[]>([]);
   const focusRunRef = useRef(0);
 
+  useEffect(() => {
+    if (slowmodeWait <= 0) return;
+    const t = window.setInterval(() => setSlowmodeNow(Date.now()), 1000);
+    return () => window.clearInterval(t);
+  }, [slowmodeWait]);
+
+  function startSlowmode(channelId: string) {
+    if (!slowmodeActive) return;
+    const now = Date.now();
+    setSlowmodeNow(now);
+    setSlowmodeUntil((prev) => ({ ...prev, [channelId]: now + slowmodeSeconds * 1000 }));
+  }
   useEffect(() => {
     messagesRef.current = messages;
   }, [messages]);
 
+  useEffect(() => {
+    if (!pendingAttachment) return;
+    const url = pendingAttachment.previewUrl;
+    return () => URL.revokeObjectURL(url);
+  }, [pendingAttachment]);
+
   useEffect(() => {
     const channelId = selectedChannelId;
     const userId = currentUserId;
     return () => {
-      if (!channelId || !userId) return;
+      if (!channelId || !userId || threadId) return;
       const el = listRef.current;
       if (!el) return;
       writeScrollFromBottom(userId, channelId, el.scrollHeight - el.scrollTop);
     };
-  }, [selectedChannelId, currentUserId]);
+  }, [selectedChannelId, currentUserId, threadId]);
 
   useEffect(() => {
     let cancelled = false;
@@ -379,7 +653,13 @@ export function MessageArea({
       setLoading(true);
       setError(null);
       try {
-        const r = await api.listMessages(selectedChannelId, 50);
+        if (threadId) {
+          const t = await api.getThread(threadId);
+          if (cancelled) return;
+          setThreadLive(t.thread);
+          setThreadParent(t.parent);
+        }
+        const r = threadId ? await api.listThreadMessages(threadId, 50) : await api.listMessages(selectedChannelId, 50);
         if (!cancelled) {
           setMessages(r.items);
           setHasMore(!!r.hasMore);
@@ -394,7 +674,8 @@ export function MessageArea({
           setMentionIndex(0);
           mentionRangeRef.current = null;
           setHighlightMessageId(null);
-          pendingFocusRef.current = null;
+          // A thread panel is mounted per thread, so a pending focus already targets it.
+          if (!threadId) pendingFocusRef.current = null;
           shouldStickToBottomRef.current = true;
         }
       } catch (e: any) {
@@ -408,7 +689,7 @@ export function MessageArea({
     return () => {
       cancelled = true;
     };
-  }, [selectedChannelId]);
+  }, [selectedChannelId, threadId]);
 
   function openSearch() {
     if (!roomId) return;
@@ -453,8 +734,10 @@ export function MessageArea({
     try {
       await api.createPoll(selectedChannelId, q, uniq);
       setPollCreateOpen(false);
+      startSlowmode(selectedChannelId);
     } catch (e: any) {
-      setPollError(e?.message ?? "作成に失敗したよ");
+      if (e?.message === "slowmode") startSlowmode(selectedChannelId);
+      setPollError(e?.message ? humanizeError(e.message) : "作成に失敗したよ");
     } finally {
       setPollBusy(false);
     }
@@ -499,6 +782,27 @@ export function MessageArea({
     return () => window.removeEventListener("keydown", onKeyDown);
   }, [roomId]);
 
+  function applyAttachmentEvent(ev: ChannelAttachmentEvent) {
+    if (ev.kind === "progress") {
+      setAttachmentProgress((prev) => ({ ...prev, [ev.attachmentId]: ev.progress }));
+      return;
+    }
+    const updated = ev.attachment as AttachmentMeta;
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === ev.messageId
+          ? { ...m, attachments: (m.attachments ?? []).map((a) => (a.id === updated.id ? updated : a)) }
+          : m
+      )
+    );
+    setAttachmentProgress((prev) => {
+      if (!(updated.id in prev)) return prev;
+      const next = { ...prev };
+      delete next[updated.id];
+      return next;
+    });
+  }
+
   useEffect(() => {
     if (!selectedChannelId) return;
     const id = focusMessageId ? String(focusMessageId) : "";
@@ -508,7 +812,7 @@ export function MessageArea({
   }, [selectedChannelId, focusMessageId, focusMessageNonce]);
 
   useEffect(() => {
-    if (!selectedChannelId) return;
+    if (!selectedChannelId || threadId) return;
     const unsub = realtime.subscribeChannelMessage(selectedChannelId, (msg: Message) => {
       const el = listRef.current;
       const atBottom = !el || el.scrollHeight - el.scrollTop - el.clientHeight < 40;
@@ -516,26 +820,26 @@ export function MessageArea({
       if (atBottom) shouldStickToBottomRef.current = true;
     });
     return unsub;
-  }, [selectedChannelId]);
+  }, [selectedChannelId, threadId]);
 
   useEffect(() => {
-    if (!selectedChannelId) return;
+    if (!selectedChannelId || threadId) return;
     const unsub = realtime.subscribeChannelReactions(selectedChannelId, ({ messageId, reactions }) => {
       setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, reactions } : m)));
     });
     return unsub;
-  }, [selectedChannelId]);
+  }, [selectedChannelId, threadId]);
 
   useEffect(() => {
-    if (!selectedChannelId) return;
+    if (!selectedChannelId || threadId) return;
     const unsub = realtime.subscribeChannelPolls(selectedChannelId, ({ messageId, poll }) => {
       setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, poll } : m)));
     });
     return unsub;
-  }, [selectedChannelId]);
+  }, [selectedChannelId, threadId]);
 
   useEffect(() => {
-    if (!selectedChannelId) return;
+    if (!selectedChannelId || threadId) return;
     const unsub = realtime.subscribeChannelDeleted(selectedChannelId, ({ messageId }) => {
       setMessages((prev) => prev.filter((m) => m.id !== messageId));
       if (replyTo?.id === messageId) setReplyTo(null);
@@ -544,16 +848,70 @@ export function MessageArea({
       if (editFor?.id === messageId) setEditFor(null);
     });
     return unsub;
-  }, [selectedChannelId, replyTo?.id, reactionPickerFor, deleteModalFor?.id, editFor?.id]);
+  }, [selectedChannelId, threadId, replyTo?.id, reactionPickerFor, deleteModalFor?.id, editFor?.id]);
 
   useEffect(() => {
-    if (!selectedChannelId) return;
+    if (!selectedChannelId || threadId) return;
     const unsub = realtime.subscribeChannelUpdated(selectedChannelId, ({ messageId, content, edited_at }) => {
       setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, content, edited_at } : m)));
       if (editFor?.id === messageId) setEditFor(null);
     });
     return unsub;
-  }, [selectedChannelId, editFor?.id]);
+  }, [selectedChannelId, threadId, editFor?.id]);
+
+  useEffect(() => {
+    if (!selectedChannelId || threadId) return;
+    const unsub = realtime.subscribeChannelPins(selectedChannelId, ({ messageId, pinned_at }) => {
+      setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, pinned_at } : m)));
+    });
+    return unsub;
+  }, [selectedChannelId, threadId]);
+
+  useEffect(() => {
+    if (!selectedChannelId || threadId) return;
+    const unsub = realtime.subscribeChannelAttachments(selectedChannelId, applyAttachmentEvent);
+    return unsub;
+  }, [selectedChannelId, threadId]);
+
+  useEffect(() => {
+    if (!selectedChannelId || threadId) return;
+    const unsub = realtime.subscribeChannelThreads(selectedChannelId, (t) => {
+      setMessages((prev) => prev.map((m) => (m.id === t.parentMessageId ? { ...m, thread: t } : m)));
+    });
+    return unsub;
+  }, [selectedChannelId, threadId]);
+
+  // thread mode: same updates as the channel subscriptions above, from subscribe_thread
+  useEffect(() => {
+    if (!threadId) return;
+    const unsub = realtime.subscribeThread(threadId, (ev) => {
+      if (ev.kind === "thread") {
+        setThreadLive(ev.thread);
+      } else if (ev.kind === "created") {
+        const msg = ev.message as Message;
+        const el = listRef.current;
+        const atBottom = !el || el.scrollHeight - el.scrollTop - el.clientHeight < 40;
+        setMessages((prev) => (prev.some((m) => m.id === msg.id) ? prev : [...prev, msg]));
+        if (atBottom) shouldStickToBottomRef.current = true;
+      } else if (ev.kind === "edited") {
+        setMessages((prev) =>
+          prev.map((m) => (m.id === ev.messageId ? { ...m, content: ev.content, edited_at: ev.edited_at } : m))
+        );
+        setEditFor((prev) => (prev?.id === ev.messageId ? null : prev));
+      } else if (ev.kind === "deleted") {
+        setMessages((prev) => prev.filter((m) => m.id !== ev.messageId));
+        setReplyTo((prev) => (prev?.id === ev.messageId ? null : prev));
+        setReactionPickerFor((prev) => (prev === ev.messageId ? null : prev));
+        setDeleteModalFor((prev) => (prev?.id === ev.messageId ? null : prev));
+        setEditFor((prev) => (prev?.id === ev.messageId ? null : prev));
+      } else if (ev.kind === "reactions") {
+        setMessages((prev) => prev.map((m) => (m.id === ev.messageId ? { ...m, reactions: ev.reactions } : m)));
+      } else {
+        applyAttachmentEvent(ev.event);
+      }
+    });
+    return unsub;
+  }, [threadId]);
 
   useEffect(() => {
     if (!selectedChannelId) return;
@@ -571,7 +929,7 @@ export function MessageArea({
       lastChannelIdRef.current = selectedChannelId;
       const userId = currentUserId;
       const channelId = selectedChannelId;
-      const fromBottom = userId && channelId ? readScrollFromBottom(userId, channelId) : null;
+      const fromBottom = userId && channelId && !threadId ? readScrollFromBottom(userId, channelId) : null;
       if (fromBottom != null) {
         requestAnimationFrame(() => {
           const el2 = listRef.current;
@@ -588,7 +946,7 @@ export function MessageArea({
     if (!shouldStickToBottomRef.current) return;
     el.scrollTop = el.scrollHeight;
     shouldStickToBottomRef.current = false;
-  }, [messages.length, selectedChannelId, currentUserId]);
+  }, [messages.length, selectedChannelId, currentUserId, threadId]);
 
   const mentionList = (() => {
     if (!mentionOpen) return [];
@@ -689,7 +1047,7 @@ export function MessageArea({
   }
 
   async function send() {
-    if (!selectedChannelId) return;
+    if (!selectedChannelId || slowmodeWait > 0) return;
     const content = text.trim();
     if (!content && !pendingAttachment) return;
 
@@ -698,12 +1056,16 @@ export function MessageArea({
     try {
       const el = listRef.current;
       const atBottom = !el || el.scrollHeight - el.scrollTop - el.clientHeight < 40;
-      const msg = await api.createMessage(selectedChannelId, content, {
-        replyTo: replyTo?.id ?? null,
-        attachmentDataUrl: pendingAttachment?.dataUrl ?? null,
-      });
+      // the file goes up as raw bytes first; the message only references it
+      const upload = pendingAttachment ? await api.uploadFile("attachment", pendingAttachment.file) : null;
+      const opts = { replyTo: replyTo?.id ?? null, attachmentUploadId: upload?.id ?? null };
+      const msg = threadId
+        ? await api.createThreadMessage(threadId, content, opts)
+        : await api.createMessage(selectedChannelId, content, opts);
       setMessages((prev) => (prev.some((m) => m.id === msg.id) ? prev : [...prev, msg]));
+      setDividerDismissedFor(readMarker);
       if (atBottom) shouldStickToBottomRef.current = true;
+      startSlowmode(selectedChannelId);
       setText("");
       setReplyTo(null);
       setPendingAttachment(null);
@@ -712,12 +1074,59 @@ export function MessageArea({
       setMentionIndex(0);
       mentionRangeRef.current = null;
     } catch (e: any) {
+      // the server's window may be longer than ours (e.g. we posted from another device)
+      if (e?.message === "slowmode") startSlowmode(selectedChannelId);
       setError(e?.message ?? "failed");
     } finally {
       setSending(false);
     }
   }
 
+  async function openThreadFor(msg: Message) {
+    if (!onOpenThread) return;
+    if (msg.thread) {
+      onOpenThread(msg.thread);
+      return;
+    }
+    setThreadBusy(true);
+    setError(null);
+    try {
+      const t = await api.createThread(msg.id);
+      setMessages((prev) => prev.map((m) => (m.id === msg.id ? { ...m, thread: t } : m)));
+      onOpenThread(t);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "failed");
+    } finally {
+      setThreadBusy(false);
+    }
+  }
+
+  async function togglePin(msg: Message) {
+    setPinBusyFor(msg.id);
+    setError(null);
+    try {
+      const r = msg.pinned_at ? await api.unpinMessage(msg.id) : await api.pinMessage(msg.id);
+      setMessages((prev) => prev.map((m) => (m.id === msg.id ? { ...m, pinned_at: r.pinned_at } : m)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "failed");
+    } finally {
+      setPinBusyFor(null);
+    }
+  }
+
+  async function updateThread(patch: { archived?: boolean; autoArchiveMinutes?: number }) {
+    if (!threadId) return;
+    setThreadBusy(true);
+    setError(null);
+    try {
+      setThreadLive(await api.updateThread(threadId, patch));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "failed");
+    } finally {
+      setThreadBusy(false);
+    }
+  }
+
   async function loadMore() {
     if (!selectedChannelId) return;
     if (loadingMore) return;
@@ -730,7 +1139,9 @@ export function MessageArea({
     const prevHeight = el?.scrollHeight ?? 0;
     const prevTop = el?.scrollTop ?? 0;
     try {
-      const r = await api.listMessagesBefore(selectedChannelId, oldest.created_at, 50);
+      const r = threadId
+        ? await api.listThreadMessages(threadId, 50, oldest.created_at)
+        : await api.listMessagesBefore(selectedChannelId, oldest.created_at, 50);
       setMessages((prev) => {
         const existing = new Set(prev.map((m) => m.id));
         const add = r.items.filter((m) => !existing.has(m.id));
@@ -823,7 +1234,7 @@ export function MessageArea({
       .map((it) => it.getAsFile())
       .find((f): f is File => !!f);
 
-    if (!file) return;
+    if (!file || !canAttach) return;
     const isImage = file.type.startsWith("image/");
     const isMp4 = file.type === "video/mp4";
     if (!isImage && !isMp4) return;
@@ -833,17 +1244,7 @@ export function MessageArea({
       setError("ファイルが大きすぎます（10MBまで）");
       return;
     }
-    try {
-      const dataUrl = await new Promise<string>((resolve, reject) => {
-        const r = new FileReader();
-        r.onload = () => resolve(String(r.result));
-        r.onerror = () => reject(new Error("read_failed"));
-        r.readAsDataURL(file);
-      });
-      setPendingAttachment({ dataUrl, mime: file.type });
-    } catch (err: any) {
-      setError(err?.message ?? "image_failed");
-    }
+    setPendingAttachment({ file, previewUrl: URL.createObjectURL(file), mime: file.type });
   }
 
   async function handlePickAttachment(file: File) {
@@ -853,22 +1254,12 @@ export function MessageArea({
       setError("画像またはmp4のみ対応です");
       return;
     }
-    // dataURLでJSON送信する都合上、サイズは控えめに（サーバー側も10MBで検証）
+    // サーバー側も10MBで検証（送信前に弾いておく）
     if (file.size > 10 * 1024 * 1024) {
       setError("添付ファイルが大きすぎます（10MBまで）");
       return;
     }
-    try {
-      const dataUrl = await new Promise<string>((resolve, reject) => {
-        const r = new FileReader();
-        r.onload = () => resolve(String(r.result));
-        r.onerror = () => reject(new Error("read_failed"));
-        r.readAsDataURL(file);
-      });
-      setPendingAttachment({ dataUrl, mime: file.type });
-    } catch (err: any) {
-      setError(err?.message ?? "image_failed");
-    }
+    setPendingAttachment({ file, previewUrl: URL.createObjectURL(file), mime: file.type });
   }
 
   async function toggleReaction(messageId: string, emoji: string) {
@@ -916,7 +1307,9 @@ export function MessageArea({
 
         let r: { items: Message[]; hasMore: boolean };
         try {
-          r = await api.listMessagesBefore(channelId, oldest.created_at, 50);
+          r = threadId
+            ? await api.listThreadMessages(threadId, 50, oldest.created_at)
+            : await api.listMessagesBefore(channelId, oldest.created_at, 50);
         } catch {
           return;
         }
@@ -956,7 +1349,24 @@ export function MessageArea({
       });
       pendingFocusRef.current = null;
     })();
-  }, [selectedChannelId, focusMessageNonce]);
+  }, [selectedChannelId, focusMessageNonce, loading]);
+
+  // first message after the read position that someone else posted
+  function findFirstUnreadId(): string | null {
+    if (threadId || !readMarker || readMarker === dividerDismissedFor) return null;
+    const notMine = (m: Message) => !currentUserId || m.author_id !== currentUserId;
+    const readIndex = readMarker.lastReadMessageId ? messages.findIndex((m) => m.id === readMarker.lastReadMessageId) : -1;
+    if (readIndex >= 0) return messages.slice(readIndex + 1).find(notMine)?.id ?? null;
+    // never opened: no divider, everything loaded is new
+    if (!readMarker.lastReadAt) return null;
+    const readAt = Date.parse(readMarker.lastReadAt);
+    return messages.find((m) => Date.parse(m.created_at) >= readAt && notMine(m))?.id ?? null;
+  }
+  const firstUnreadId = findFirstUnreadId();
+
+  const canEditThread = !!threadLive && (canManageThreads || (!!currentUserId && threadLive.createdBy === currentUserId));
+  const sendDisabled =
+    !selectedChannelId || sending || !canSend || slowmodeWait > 0 || (!text.trim() && !pendingAttachment);
 
   return (
     <div style={{
@@ -969,63 +1379,185 @@ export function MessageArea({
       height: "var(--app-height)",
       overflowX: "hidden",
     }}>
-      {/* チャンネルヘッダー */}
-      <div style={{
-        padding: "16px",
-        borderBottom: "1px solid #202225",
-        fontSize: 16,
-        fontWeight: "bold",
-        display: "flex",
-        alignItems: "center",
-        justifyContent: "space-between",
-        gap: 10,
-      }}>
-        <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
-          {selectedChannelName ? `# ${selectedChannelName}` : "チャンネル未選択"}
-        </div>
-        {roomId && (
-          <div style={{ display: "flex", alignItems: "center", gap: 10, flexShrink: 0 }}>
-            <button
-              type="button"
-              onClick={openPollCreate}
-              disabled={!selectedChannelId}
-              style={{
-                border: "1px solid #40444b",
-                background: "transparent",
-                color: "#b9bbbe",
-                cursor: selectedChannelId ? "pointer" : "not-allowed",
-                padding: "6px 10px",
-                borderRadius: 999,
-                fontSize: 12,
-                fontWeight: 900,
-                opacity: selectedChannelId ? 1 : 0.6,
-              }}
-              title="アンケート"
-              aria-label="アンケート"
-            >
-              アンケート
-            </button>
-            <button
-              type="button"
-              onClick={openSearch}
+      {threadId && threadLive ? (
+        /* スレッドのヘッダー */
+        <div
+          style={{
+            padding: "12px 16px",
+            borderBottom: "1px solid #202225",
+            display: "grid",
+            gap: 8,
+          }}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: 8, minWidth: 0 }}>
+            <div
               style={{
-                border: "1px solid #40444b",
-                background: "transparent",
-                color: "#b9bbbe",
-                cursor: "pointer",
-                padding: "6px 10px",
-                borderRadius: 999,
-                fontSize: 12,
-                fontWeight: 900,
+                flex: 1,
+                minWidth: 0,
+                fontSize: 16,
+                fontWeight: "bold",
+                overflow: "hidden",
+                textOverflow: "ellipsis",
+                whiteSpace: "nowrap",
               }}
-              title="検索"
-              aria-label="検索"
+              title={threadLive.name}
             >
-              検索
-            </button>
+              🧵 {threadLive.name}
+            </div>
+            {threadLive.archivedAt && <span style={channelBadgeStyle}>アーカイブ済み</span>}
+            {onCloseThread && (
+              <button
+                type="button"
+                onClick={onCloseThread}
+                style={{ ...threadButtonStyle, borderRadius: 999 }}
+                title="スレッドを閉じる"
+                aria-label="スレッドを閉じる"
+              >
+                ✕
+              </button>
+            )}
           </div>
-        )}
-      </div>
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 12, color: "#8e9297" }}>
+            <span>#{selectedChannelName ?? ""}</span>
+            <span>{threadLive.messageCount}件の返信</span>
+            {canEditThread && (
+              <>
+                <select
+                  value={threadLive.autoArchiveMinutes}
+                  disabled={threadBusy}
+                  onChange={(e) => void updateThread({ autoArchiveMinutes: Number(e.target.value) })}
+                  style={{ ...threadButtonStyle, background: "#202225" }}
+                  title="この期間メッセージがないと自動でアーカイブされます"
+                >
+                  {Object.entries(THREAD_ARCHIVE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}で自動アーカイブ
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  disabled={threadBusy}
+                  onClick={() => void updateThread({ archived: !threadLive.archivedAt })}
+                  style={threadButtonStyle}
+                >
+                  {threadLive.archivedAt ? "再開" : "アーカイブ"}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ) : (
+        /* チャンネルヘッダー */
+        <div style={{
+          padding: "16px",
+          borderBottom: "1px solid #202225",
+          fontSize: 16,
+          fontWeight: "bold",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: 10,
+        }}>
+          <div style={{ display: "flex", alignItems: "baseline", gap: 8, minWidth: 0 }}>
+            <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", flexShrink: 0, maxWidth: "60%" }}>
+              {selectedChannelName ? `# ${selectedChannelName}` : "チャンネル未選択"}
+            </div>
+            {selectedChannelId && channelType === "announcement" && (
+              <span style={channelBadgeStyle} title="投稿できるのは許可されたメンバーだけです">
+                お知らせ
+              </span>
+            )}
+            {selectedChannelId && slowmodeSeconds > 0 && (
+              <span style={channelBadgeStyle} title="メンバーごとに投稿の間隔が制限されています">
+                低速モード {formatSlowmode(slowmodeSeconds)}
+              </span>
+            )}
+            {selectedChannelId && channelTopic && (
+              <div
+                title={channelTopic}
+                style={{
+                  fontSize: 13,
+                  fontWeight: 400,
+                  color: "#8e9297",
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                  minWidth: 0,
+                }}
+              >
+                {channelTopic}
+              </div>
+            )}
+          </div>
+          {roomId && (
+            <div style={{ display: "flex", alignItems: "center", gap: 10, flexShrink: 0 }}>
+              {canCreatePolls && (
+                <button
+                  type="button"
+                  onClick={openPollCreate}
+                  disabled={!selectedChannelId}
+                  style={{
+                    border: "1px solid #40444b",
+                    background: "transparent",
+                    color: "#b9bbbe",
+                    cursor: selectedChannelId ? "pointer" : "not-allowed",
+                    padding: "6px 10px",
+                    borderRadius: 999,
+                    fontSize: 12,
+                    fontWeight: 900,
+                    opacity: selectedChannelId ? 1 : 0.6,
+                  }}
+                  title="アンケート"
+                  aria-label="アンケート"
+                >
+                  アンケート
+                </button>
+              )}
+              {onOpenPins && (
+                <button
+                  type="button"
+                  onClick={onOpenPins}
+                  disabled={!selectedChannelId}
+                  style={{
+                    border: "1px solid #40444b",
+                    background: "transparent",
+                    color: "#b9bbbe",
+                    cursor: selectedChannelId ? "pointer" : "not-allowed",
+                    padding: "6px 10px",
+                    borderRadius: 999,
+                    fontSize: 12,
+                    fontWeight: 900,
+                    opacity: selectedChannelId ? 1 : 0.6,
+                  }}
+                  title="ピン留めされたメッセージ"
+                  aria-label="ピン留めされたメッセージ"
+                >
+                  ピン留め
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={openSearch}
+                style={{
+                  border: "1px solid #40444b",
+                  background: "transparent",
+                  color: "#b9bbbe",
+                  cursor: "pointer",
+                  padding: "6px 10px",
+                  borderRadius: 999,
+                  fontSize: 12,
+                  fontWeight: 900,
+                }}
+                title="検索"
+                aria-label="検索"
+              >
+                検索
+              </button>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* メッセージリスト */}
       <div
@@ -1066,285 +1598,362 @@ export function MessageArea({
           )}
           {loading && <div style={{ opacity: 0.8, fontSize: 13 }}>読み込み中…</div>}
           {error && <div style={{ color: "#ff7a7a", fontSize: 12, marginBottom: 10 }}>{humanizeError(error)}</div>}
-          {!loading && !error && selectedChannelId && messages.length === 0 && (
-            <div style={{ opacity: 0.8, fontSize: 13 }}>まだメッセージがないよ</div>
-          )}
-
-          {messages.map((msg) => (
+          {threadId && !hasMore && !loading && (
             <div
-              key={msg.id}
-              id={`msg_${msg.id}`}
               style={{
                 marginBottom: 16,
-                display: "flex",
-                alignItems: "flex-start",
-                gap: 12,
-                padding: "6px 8px",
+                padding: "10px 12px",
                 borderRadius: 12,
-                minWidth: 0,
-                background: highlightMessageId === msg.id ? "rgba(114,137,218,0.20)" : "transparent",
-                transition: "background 180ms ease",
+                border: "1px solid #40444b",
+                background: "#2f3136",
+                fontSize: 13,
               }}
             >
+              {threadParent ? (
+                <>
+                  <div style={{ fontSize: 12, color: "#8e9297", marginBottom: 4 }}>
+                    <span style={{ color: "#ffffff", fontWeight: 800 }}>{threadParent.author}</span>{" "}
+                    {formatTime(threadParent.created_at)}
+                  </div>
+                  <div style={{ whiteSpace: "pre-wrap", overflowWrap: "anywhere" }}>
+                    {threadParent.poll ? threadParent.poll.question : renderTextWithLinks(threadParent.content)}
+                  </div>
+                </>
+              ) : (
+                <div style={{ color: "#8e9297" }}>元のメッセージは削除されました</div>
+              )}
+            </div>
+          )}
+          {!loading && !error && selectedChannelId && messages.length === 0 && (
+            <div style={{ opacity: 0.8, fontSize: 13 }}>{threadId ? "まだ返信がないよ" : "まだメッセージがないよ"}</div>
+          )}
+
+          {messages.map((msg) => (
+            <Fragment key={msg.id}>
+              {firstUnreadId === msg.id && (
+                <div
+                  role="separator"
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 8,
+                    margin: "4px 0 12px",
+                    color: "#f04747",
+                    fontSize: 12,
+                    fontWeight: 900,
+                  }}
+                >
+                  <div style={{ flex: 1, height: 1, background: "#f04747" }} />
+                  新着メッセージ
+                  <div style={{ flex: 1, height: 1, background: "#f04747" }} />
+                </div>
+              )}
               <div
+                id={`msg_${msg.id}`}
                 style={{
-                  width: 40,
-                  height: 40,
-                  borderRadius: "50%",
-                  background: "#7289da",
+                  marginBottom: 16,
                   display: "flex",
-                  alignItems: "center",
-                  justifyContent: "center",
-                  color: "#ffffff",
-                  fontWeight: "bold",
-                  flexShrink: 0,
-                  overflow: "hidden",
+                  alignItems: "flex-start",
+                  gap: 12,
+                  padding: "6px 8px",
+                  borderRadius: 12,
+                  minWidth: 0,
+                  background: highlightMessageId === msg.id ? "rgba(114,137,218,0.20)" : "transparent",
+                  transition: "background 180ms ease",
                 }}
-                title={msg.author}
               >
-                {msg.author_has_avatar ? (
-                  <img
-                    src={api.userAvatarUrl(msg.author_id)}
-                    alt="avatar"
-                    style={{ width: "100%", height: "100%", objectFit: "cover" }}
-                  />
-                ) : (
-                  msg.author?.[0]?.toUpperCase?.() ?? "?"
-                )}
-              </div>
-              <div style={{ flex: 1, minWidth: 0 }}>
-                {msg.reply && (
-                  <div
-                    onClick={() => scrollToMessage(msg.reply!.id)}
-                    title="返信先へ移動"
-                    style={{
-                      fontSize: 12,
-                      color: "#b9bbbe",
-                      borderLeft: "2px solid #40444b",
-                      paddingLeft: 10,
-                      marginBottom: 6,
-                      cursor: "pointer",
-                      whiteSpace: "nowrap",
-                      overflow: "hidden",
-                      textOverflow: "ellipsis",
-                    }}
-                  >
-                    ↩ <span style={{ color: "#ffffff", fontWeight: 800 }}>{msg.reply.author}</span>{" "}
-                    {msg.reply.content.length > 80 ? `${msg.reply.content.slice(0, 80)}…` : msg.reply.content}
-                  </div>
-                )}
                 <div
                   style={{
-                    fontSize: 14,
-                    fontWeight: "bold",
-                    color: "#ffffff",
-                    marginBottom: 4,
+                    width: 40,
+                    height: 40,
+                    borderRadius: "50%",
+                    background: "#7289da",
                     display: "flex",
-                    alignItems: "baseline",
-                    gap: 8
+                    alignItems: "center",
+                    justifyContent: "center",
+                    color: "#ffffff",
+                    fontWeight: "bold",
+                    flexShrink: 0,
+                    overflow: "hidden",
                   }}
+                  title={msg.author}
                 >
-                  {onAuthorClick ? (
-                    <button
-                      type="button"
-                      onClick={() => onAuthorClick({ userId: msg.author_id, displayName: msg.author })}
-                      style={{
-                        border: "none",
-                        background: "transparent",
-                        color: "#ffffff",
-                        fontWeight: "bold",
-                        padding: 0,
-                        cursor: "pointer",
-                      }}
-                      title={msg.author_id}
-                    >
-                      {msg.author}
-                    </button>
+                  {msg.author_has_avatar ? (
+                    <img
+                      src={api.userAvatarUrl(msg.author_id)}
+                      alt="avatar"
+                      style={{ width: "100%", height: "100%", objectFit: "cover" }}
+                    />
                   ) : (
-                    <span>{msg.author}</span>
+                    msg.author?.[0]?.toUpperCase?.() ?? "?"
                   )}
-
-                  {msg.author_is_banned && (
-                    <span
+                </div>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  {msg.reply && (
+                    <div
+                      onClick={() => scrollToMessage(msg.reply!.id)}
+                      title="返信先へ移動"
                       style={{
-                        fontSize: 11,
-                        fontWeight: 900,
-                        padding: "2px 6px",
-                        borderRadius: 999,
-                        background: "rgba(237,66,69,0.16)",
-                        border: "1px solid rgba(237,66,69,0.55)",
-                        color: "#ff7a7a",
-                        lineHeight: 1.2,
+                        fontSize: 12,
+                        color: "#b9bbbe",
+                        borderLeft: "2px solid #40444b",
+                        paddingLeft: 10,
+                        marginBottom: 6,
+                        cursor: "pointer",
+                        whiteSpace: "nowrap",
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
                       }}
-                      title="このユーザーはBANされています"
                     >
-                      BAN
-                    </span>
+                      ↩ <span style={{ color: "#ffffff", fontWeight: 800 }}>{msg.reply.author}</span>{" "}
+                      {msg.reply.content.length > 80 ? `${msg.reply.content.slice(0, 80)}…` : msg.reply.content}
+                    </div>
                   )}
-                  <span style={{ fontSize: 12, color: "#72767d", fontWeight: "normal" }}>
-                    {formatTime(msg.created_at)}
-                  </span>
-                </div>
-                {(editFor?.id === msg.id || !msg.poll) && (
                   <div
                     style={{
                       fontSize: 14,
-                      lineHeight: 1.4,
-                      whiteSpace: "pre-wrap",
-                      overflowWrap: "anywhere",
-                      wordWrap: "break-word" as any,
+                      fontWeight: "bold",
+                      color: "#ffffff",
+                      marginBottom: 4,
+                      display: "flex",
+                      alignItems: "baseline",
+                      gap: 8
                     }}
                   >
-                    {editFor?.id === msg.id ? (
-                    <div style={{ display: "grid", gap: 8 }}>
-                      <textarea
-                        value={editFor.text}
-                        onChange={(e) => setEditFor((p) => (p ? { ...p, text: e.target.value } : p))}
-                        disabled={editing}
+                    {onAuthorClick ? (
+                      <button
+                        type="button"
+                        onClick={() => onAuthorClick({ userId: msg.author_id, displayName: msg.author })}
                         style={{
-                          width: "100%",
-                          minHeight: 70,
-                          resize: "vertical",
-                          padding: "10px 12px",
-                          borderRadius: 10,
-                          border: "1px solid #40444b",
-                          background: "#202225",
-                          color: "#dcddde",
-                          fontSize: 14,
-                          lineHeight: 1.4,
-                          outline: "none",
+                          border: "none",
+                          background: "transparent",
+                          color: "#ffffff",
+                          fontWeight: "bold",
+                          padding: 0,
+                          cursor: "pointer",
                         }}
-                      />
-                      <div style={{ display: "flex", gap: 10 }}>
-                        <button
-                          onClick={closeEdit}
+                        title={msg.author_id}
+                      >
+                        {msg.author}
+                      </button>
+                    ) : (
+                      <span>{msg.author}</span>
+                    )}
+
+                    {msg.author_is_banned && (
+                      <span
+                        style={{
+                          fontSize: 11,
+                          fontWeight: 900,
+                          padding: "2px 6px",
+                          borderRadius: 999,
+                          background: "rgba(237,66,69,0.16)",
+                          border: "1px solid rgba(237,66,69,0.55)",
+                          color: "#ff7a7a",
+                          lineHeight: 1.2,
+                        }}
+                        title="このユーザーはBANされています"
+                      >
+                        BAN
+                      </span>
+                    )}
+                    <span style={{ fontSize: 12, color: "#72767d", fontWeight: "normal" }}>
+                      {formatTime(msg.created_at)}
+                    </span>
+                    {msg.pinned_at && (
+                      <span
+                        style={{ fontSize: 11, color: "#faa61a", fontWeight: 800 }}
+                        title={`${formatTime(msg.pinned_at)} にピン留め`}
+                      >
+                        📌 ピン留め
+                      </span>
+                    )}
+                  </div>
+                  {(editFor?.id === msg.id || !msg.poll) && (
+                    <div
+                      style={{
+                        fontSize: 14,
+                        lineHeight: 1.4,
+                        whiteSpace: "pre-wrap",
+                        overflowWrap: "anywhere",
+                        wordWrap: "break-word" as any,
+                      }}
+                    >
+                      {editFor?.id === msg.id ? (
+                      <div style={{ display: "grid", gap: 8 }}>
+                        <textarea
+                          value={editFor.text}
+                          onChange={(e) => setEditFor((p) => (p ? { ...p, text: e.target.value } : p))}
                           disabled={editing}
                           style={{
-                            padding: "8px 10px",
-                            borderRadius: 8,
+                            width: "100%",
+                            minHeight: 70,
+                            resize: "vertical",
+                            padding: "10px 12px",
+                            borderRadius: 10,
                             border: "1px solid #40444b",
-                            background: "transparent",
+                            background: "#202225",
                             color: "#dcddde",
-                            cursor: "pointer",
-                            fontSize: 12,
-                            fontWeight: 800,
-                            width: "100%",
+                            fontSize: 14,
+                            lineHeight: 1.4,
+                            outline: "none",
                           }}
-                        >
-                          キャンセル
-                        </button>
-                        <button
-                          onClick={() => void submitEdit()}
-                          disabled={editing || !editFor.text.trim()}
-                          style={{
-                            padding: "8px 10px",
-                            borderRadius: 8,
-                            border: "none",
-                            background: "#7289da",
-                            color: "#ffffff",
-                            cursor: "pointer",
-                            fontSize: 12,
-                            fontWeight: 900,
-                            width: "100%",
-                            opacity: editing || !editFor.text.trim() ? 0.7 : 1,
-                          }}
-                        >
-                          {editing ? "保存中…" : "保存"}
-                        </button>
+                        />
+                        <div style={{ display: "flex", gap: 10 }}>
+                          <button
+                            onClick={closeEdit}
+                            disabled={editing}
+                            style={{
+                              padding: "8px 10px",
+                              borderRadius: 8,
+                              border: "1px solid #40444b",
+                              background: "transparent",
+                              color: "#dcddde",
+                              cursor: "pointer",
+                              fontSize: 12,
+                              fontWeight: 800,
+                              width: "100%",
+                            }}
+                          >
+                            キャンセル
+                          </button>
+                          <button
+                            onClick={() => void submitEdit()}
+                            disabled={editing || !editFor.text.trim()}
+                            style={{
+                              padding: "8px 10px",
+                              borderRadius: 8,
+                              border: "none",
+                              background: "#7289da",
+                              color: "#ffffff",
+                              cursor: "pointer",
+                              fontSize: 12,
+                              fontWeight: 900,
+                              width: "100%",
+                              opacity: editing || !editFor.text.trim() ? 0.7 : 1,
+                            }}
+                          >
+                            {editing ? "保存中…" : "保存"}
+                          </button>
+                        </div>
                       </div>
+                      ) : (
+                        renderTextWithLinks(msg.content)
+                      )}
                     </div>
-                    ) : (
-                      renderTextWithLinks(msg.content)
-                    )}
-                  </div>
-                )}
+                  )}
 
-                {!!msg.edited_at && editFor?.id !== msg.id && (
-                  <div style={{ marginTop: 4, fontSize: 11, color: "#8e9297" }}>編集済</div>
-                )}
+                  {!!msg.edited_at && editFor?.id !== msg.id && (
+                    <div style={{ marginTop: 4, fontSize: 11, color: "#8e9297" }}>編集済</div>
+                  )}
 
-                {msg.poll && (
-                  <div
-                    style={{
-                      marginTop: 10,
-                      border: "1px solid #40444b",
-                      background: "#2f3136",
-                      borderRadius: 12,
-                      padding: 12,
-                      display: "grid",
-                      gap: 10,
-                    }}
-                  >
-                    <div style={{ fontWeight: 900, color: "#ffffff" }}>{msg.poll.question}</div>
-                    <div style={{ display: "grid", gap: 8 }}>
-                      {msg.poll.options.map((o) => {
-                        const total = totalVotes(msg.poll as any);
-                        const pct = total > 0 ? Math.round((o.votes / total) * 100) : 0;
-                        const active = o.byMe;
-                        return (
+                  {msg.poll && (
+                    <div
+                      style={{
+                        marginTop: 10,
+                        border: "1px solid #40444b",
+                        background: "#2f3136",
+                        borderRadius: 12,
+                        padding: 12,
+                        display: "grid",
+                        gap: 10,
+                      }}
+                    >
+                      <div style={{ fontWeight: 900, color: "#ffffff" }}>{msg.poll.question}</div>
+                      <div style={{ display: "grid", gap: 8 }}>
+                        {msg.poll.options.map((o) => {
+                          const total = totalVotes(msg.poll as any);
+                          const pct = total > 0 ? Math.round((o.votes / total) * 100) : 0;
+                          const active = o.byMe;
+                          return (
+                            <button
+                              key={o.id}
+                              type="button"
+                              disabled={pollVoteBusyId === msg.poll!.id}
+                              onClick={() => {
+                                void (async () => {
+                                  if (!msg.poll) return;
+                                  setPollVoteBusyId(msg.poll.id);
+                                  try {
+                                    const r = await api.votePoll(msg.poll.id, o.id);
+                                    setMessages((prev) => prev.map((m) => (m.id === r.messageId ? { ...m, poll: r.poll } : m)));
+                                  } catch (e: any) {
+                                    setError(e?.message ?? "投票に失敗したよ");
+                                  } finally {
+                                    setPollVoteBusyId(null);
+                                  }
+                                })();
+                              }}
+                              style={{
+                                border: active ? "1px solid rgba(114,137,218,0.9)" : "1px solid #40444b",
+                                background: active ? "rgba(114,137,218,0.18)" : "transparent",
+                                color: "#dcddde",
+                                borderRadius: 10,
+                                padding: "10px 10px",
+                                cursor: pollVoteBusyId === msg.poll!.id ? "not-allowed" : "pointer",
+                                display: "grid",
+                                gap: 6,
+                                textAlign: "left",
+                              }}
+                              title="投票"
+                            >
+                              <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                                <div style={{ fontWeight: 800, overflowWrap: "anywhere" }}>{o.text}</div>
+                                <div style={{ fontSize: 12, color: "#8e9297", flexShrink: 0 }}>
+                                  {o.votes}票 {total > 0 ? `(${pct}%)` : ""}
+                                </div>
+                              </div>
+                              <div style={{ height: 6, borderRadius: 999, background: "#202225", overflow: "hidden" }}>
+                                <div style={{ width: `${pct}%`, height: "100%", background: active ? "#7289da" : "#40444b" }} />
+                              </div>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {msg.attachments && msg.attachments.length > 0 && (
+                    <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
+                      {msg.attachments.map((a) => (
+                        a.status === "processing" || a.status === "failed" ? (
+                          <AttachmentPending key={a.id} attachment={a} progress={attachmentProgress[a.id] ?? null} />
+                        ) : a.mime_type === "video/mp4" ? (
+                          <AttachmentVideo key={a.id} attachment={a} />
+                        ) : (
+                          <AttachmentImage key={a.id} attachment={a} onOpen={(src) => setImageModalSrc(src)} />
+                        )
+                      ))}
+                    </div>
+                  )}
+
+                  {msg.reactions && msg.reactions.length > 0 && (
+                    <div style={{ marginTop: 8, display: "flex", flexWrap: "wrap", gap: 8 }}>
+                      {msg.reactions.map((r) => (
+                        parseStickerIdFromReaction(r.emoji) ? (
                           <button
-                            key={o.id}
-                            type="button"
-                            disabled={pollVoteBusyId === msg.poll!.id}
-                            onClick={() => {
-                              void (async () => {
-                                if (!msg.poll) return;
-                                setPollVoteBusyId(msg.poll.id);
-                                try {
-                                  const r = await api.votePoll(msg.poll.id, o.id);
-                                  setMessages((prev) => prev.map((m) => (m.id === r.messageId ? { ...m, poll: r.poll } : m)));
-                                } catch (e: any) {
-                                  setError(e?.message ?? "投票に失敗したよ");
-                                } finally {
-                                  setPollVoteBusyId(null);
-                                }
-                              })();
-                            }}
+                            key={r.emoji}
+                            onClick={() => toggleReaction(msg.id, r.emoji)}
                             style={{
-                              border: active ? "1px solid rgba(114,137,218,0.9)" : "1px solid #40444b",
-                              background: active ? "rgba(114,137,218,0.18)" : "transparent",
+                              border: "1px solid #40444b",
+                              background: r.byMe ? "#40444b" : "transparent",
                               color: "#dcddde",
-                              borderRadius: 10,
-                              padding: "10px 10px",
-                              cursor: pollVoteBusyId === msg.poll!.id ? "not-allowed" : "pointer",
-                              display: "grid",
-                              gap: 6,
-                              textAlign: "left",
+                              borderRadius: 12,
+                              padding: "4px 8px",
+                              fontSize: 12,
+                              cursor: "pointer",
+                              display: "flex",
+                              alignItems: "center",
+                              gap: 8,
+                              maxWidth: "100%",
+                              minWidth: 0,
                             }}
-                            title="投票"
+                            title="スタンプリアクション"
                           >
-                            <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
-                              <div style={{ fontWeight: 800, overflowWrap: "anywhere" }}>{o.text}</div>
-                              <div style={{ fontSize: 12, color: "#8e9297", flexShrink: 0 }}>
-                                {o.votes}票 {total > 0 ? `(${pct}%)` : ""}
-                              </div>
-                            </div>
-                            <div style={{ height: 6, borderRadius: 999, background: "#202225", overflow: "hidden" }}>
-                              <div style={{ width: `${pct}%`, height: "100%", background: active ? "#7289da" : "#40444b" }} />
-                            </div>
+                            <StickerImg stickerId={parseStickerIdFromReaction(r.emoji) as string} size={22} />
+                            <span style={{ opacity: 0.9 }}>{r.count}</span>
                           </button>
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
-
-                {msg.attachments && msg.attachments.length > 0 && (
-                  <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
-                    {msg.attachments.map((a) => (
-                      a.mime_type === "video/mp4" ? (
-                        <AttachmentVideo key={a.id} attachmentId={a.id} mimeType={a.mime_type} />
-                      ) : (
-                        <AttachmentImage key={a.id} attachmentId={a.id} onOpen={(src) => setImageModalSrc(src)} />
-                      )
-                    ))}
-                  </div>
-                )}
-
-                {msg.reactions && msg.reactions.length > 0 && (
-                  <div style={{ marginTop: 8, display: "flex", flexWrap: "wrap", gap: 8 }}>
-                    {msg.reactions.map((r) => (
-                      parseStickerIdFromReaction(r.emoji) ? (
+                        ) : (
                         <button
                           key={r.emoji}
                           onClick={() => toggleReaction(msg.id, r.emoji)}
@@ -1352,121 +1961,193 @@ export function MessageArea({
                             border: "1px solid #40444b",
                             background: r.byMe ? "#40444b" : "transparent",
                             color: "#dcddde",
-                            borderRadius: 12,
+                            borderRadius: 999,
                             padding: "4px 8px",
                             fontSize: 12,
                             cursor: "pointer",
                             display: "flex",
                             alignItems: "center",
-                            gap: 8,
+                            gap: 6,
                             maxWidth: "100%",
                             minWidth: 0,
                           }}
-                          title="スタンプリアクション"
+                          title="リアクション"
                         >
-                          <StickerImg stickerId={parseStickerIdFromReaction(r.emoji) as string} size={22} />
+                          <span style={{ overflowWrap: "anywhere", wordBreak: "break-all", minWidth: 0 }}>
+                            {r.emoji}
+                          </span>
                           <span style={{ opacity: 0.9 }}>{r.count}</span>
                         </button>
-                      ) : (
-                      <button
-                        key={r.emoji}
-                        onClick={() => toggleReaction(msg.id, r.emoji)}
-                        style={{
-                          border: "1px solid #40444b",
-                          background: r.byMe ? "#40444b" : "transparent",
-                          color: "#dcddde",
-                          borderRadius: 999,
-                          padding: "4px 8px",
-                          fontSize: 12,
-                          cursor: "pointer",
-                          display: "flex",
-                          alignItems: "center",
-                          gap: 6,
-                          maxWidth: "100%",
-                          minWidth: 0,
-                        }}
-                        title="リアクション"
-                      >
-                        <span style={{ overflowWrap: "anywhere", wordBreak: "break-all", minWidth: 0 }}>
-                          {r.emoji}
-                        </span>
-                        <span style={{ opacity: 0.9 }}>{r.count}</span>
-                      </button>
-                      )
-                    ))}
-                  </div>
-                )}
-
-                <div style={{ marginTop: 6, display: "flex", gap: 10, alignItems: "center" }}>
-                  <button
-                    onClick={() => setReplyTo({ id: msg.id, author: msg.author, content: msg.content })}
-                    style={{
-                      border: "none",
-                      background: "transparent",
-                      color: "#8e9297",
-                      cursor: "pointer",
-                      fontSize: 12,
-                      padding: 0,
-                    }}
-                    title="返信"
-                  >
-                    返信
-                  </button>
-
-                  <button
-                    onClick={() => setReactionPickerFor((prev) => (prev === msg.id ? null : msg.id))}
-                    style={{
-                      border: "none",
-                      background: "transparent",
-                      color: "#8e9297",
-                      cursor: "pointer",
-                      fontSize: 12,
-                      padding: 0,
-                    }}
-                    title="リアクションを追加"
-                  >
-                    リアクション
-                  </button>
+                        )
+                      ))}
+                    </div>
+                  )}
 
-                  {(currentUserId && !msg.poll && (msg.author_id === currentUserId || canModerate) && editFor?.id !== msg.id) && (
+                  {!threadId && msg.thread && onOpenThread && (
                     <button
-                      onClick={() => openEdit(msg)}
+                      type="button"
+                      onClick={() => onOpenThread(msg.thread!)}
                       style={{
-                        border: "none",
-                        background: "transparent",
-                        color: "#b9bbbe",
+                        marginTop: 8,
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 8,
+                        maxWidth: "100%",
+                        border: "1px solid #40444b",
+                        background: "#2f3136",
+                        color: "#dcddde",
+                        borderRadius: 8,
+                        padding: "6px 10px",
                         cursor: "pointer",
                         fontSize: 12,
-                        padding: 0,
-                        fontWeight: 800,
+                        textAlign: "left",
                       }}
-                      title="編集"
+                      title="スレッドを開く"
                     >
-                      編集
+                      <span style={{ fontWeight: 900, color: "#7289da", flexShrink: 0 }}>
+                        {msg.thread.messageCount > 0 ? `${msg.thread.messageCount}件の返信` : "スレッド"}
+                      </span>
+                      <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", minWidth: 0 }}>
+                        {msg.thread.name}
+                      </span>
+                      <span style={{ color: "#8e9297", flexShrink: 0 }}>
+                        {msg.thread.archivedAt ? "アーカイブ済み" : `最終: ${formatTime(msg.thread.lastMessageAt)}`}
+                      </span>
                     </button>
                   )}
 
-                  {(currentUserId && (msg.author_id === currentUserId || canModerate)) && (
+                  <div style={{ marginTop: 6, display: "flex", gap: 10, alignItems: "center" }}>
+                    {canSend && (
+                      <button
+                        onClick={() => setReplyTo({ id: msg.id, author: msg.author, content: msg.content })}
+                        style={{
+                          border: "none",
+                          background: "transparent",
+                          color: "#8e9297",
+                          cursor: "pointer",
+                          fontSize: 12,
+                          padding: 0,
+                        }}
+                        title="返信"
+                      >
+                        返信
+                      </button>
+                    )}
+
+                    {!threadId && onOpenThread && !msg.thread && canSend && (
+                      <button
+                        onClick={() => void openThreadFor(msg)}
+                        disabled={threadBusy}
+                        style={{
+                          border: "none",
+                          background: "transparent",
+                          color: "#8e9297",
+                          cursor: threadBusy ? "not-allowed" : "pointer",
+                          fontSize: 12,
+                          padding: 0,
+                        }}
+                        title="このメッセージからスレッドを作成"
+                      >
+                        スレッド
+                      </button>
+                    )}
+
+                    {canReact && (
+                      <button
+                        onClick={() => setReactionPickerFor((prev) => (prev === msg.id ? null : msg.id))}
+                        style={{
+                          border: "none",
+                          background: "transparent",
+                          color: "#8e9297",
+                          cursor: "pointer",
+                          fontSize: 12,
+                          padding: 0,
+                        }}
+                        title="リアクションを追加"
+                      >
+                        リアクション
+                      </button>
+                    )}
+
+                    {(currentUserId && !msg.poll && (msg.author_id === currentUserId || canEditOthers) && editFor?.id !== msg.id) && (
+                      <button
+                        onClick={() => openEdit(msg)}
+                        style={{
+                          border: "none",
+                          background: "transparent",
+                          color: "#b9bbbe",
+                          cursor: "pointer",
+                          fontSize: 12,
+                          padding: 0,
+                          fontWeight: 800,
+                        }}
+                        title="編集"
+                      >
+                        編集
+                      </button>
+                    )}
+
+                    {!threadId && onMarkUnread && (
                     <button
-                      onClick={() => openDeleteModal({ id: msg.id, author: msg.author, content: msg.content })}
+                      onClick={() =>
+                        void onMarkUnread(msg.id).catch((e) => setError(e instanceof Error ? e.message : "failed"))
+                      }
                       style={{
                         border: "none",
                         background: "transparent",
-                        color: "#ff7a7a",
+                        color: "#8e9297",
                         cursor: "pointer",
                         fontSize: 12,
                         padding: 0,
                         fontWeight: 800,
                       }}
-                      title="削除"
+                      title="このメッセージから未読にする"
                     >
-                      削除
+                      ここから未読
                     </button>
                   )}
-                </div>
 
+                  {!threadId && canPinMessages && (
+                      <button
+                        onClick={() => void togglePin(msg)}
+                        disabled={pinBusyFor === msg.id}
+                        style={{
+                          border: "none",
+                          background: "transparent",
+                          color: "#8e9297",
+                          cursor: pinBusyFor === msg.id ? "not-allowed" : "pointer",
+                          fontSize: 12,
+                          padding: 0,
+                          fontWeight: 800,
+                        }}
+                        title={msg.pinned_at ? "ピン留めを外す" : "ピン留め"}
+                      >
+                        {msg.pinned_at ? "ピン留めを外す" : "ピン留め"}
+                      </button>
+                    )}
+
+                    {(currentUserId && (msg.author_id === currentUserId || canDeleteOthers)) && (
+                      <button
+                        onClick={() => openDeleteModal({ id: msg.id, author: msg.author, content: msg.content })}
+                        style={{
+                          border: "none",
+                          background: "transparent",
+                          color: "#ff7a7a",
+                          cursor: "pointer",
+                          fontSize: 12,
+                          padding: 0,
+                          fontWeight: 800,
+                        }}
+                        title="削除"
+                      >
+                        削除
+                      </button>
+                    )}
+                  </div>
+
+                </div>
               </div>
-            </div>
+            </Fragment>
           ))}
       </div>
 
@@ -1475,7 +2156,7 @@ export function MessageArea({
         title="リアクション"
         roomId={roomId}
         currentUserId={currentUserId}
-        canModerate={canModerate}
+        canModerate={canManageStickers}
         selected={
           reactionPickerFor
             ? new Set(
@@ -1688,13 +2369,13 @@ export function MessageArea({
             <div style={{ display: "flex", alignItems: "center", gap: 10, minWidth: 0 }}>
               {pendingAttachment.mime.startsWith("image/") ? (
                 <img
-                  src={pendingAttachment.dataUrl}
+                  src={pendingAttachment.previewUrl}
                   alt="pasted"
                   style={{ width: 44, height: 44, objectFit: "cover", borderRadius: 6, border: "1px solid #202225" }}
                 />
               ) : (
                 <video
-                  src={pendingAttachment.dataUrl}
+                  src={pendingAttachment.previewUrl}
                   muted
                   preload="metadata"
                   style={{ width: 64, height: 44, borderRadius: 6, border: "1px solid #202225", background: "#000" }}
@@ -1724,24 +2405,26 @@ export function MessageArea({
         )}
 
         <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            disabled={!selectedChannelId || sending}
-            style={{
-              padding: "10px 12px",
-              borderRadius: 8,
-              border: "1px solid #40444b",
-              background: "#2f3136",
-              color: "#dcddde",
-              fontSize: 12,
-              cursor: !selectedChannelId || sending ? "not-allowed" : "pointer",
-              opacity: !selectedChannelId || sending ? 0.6 : 1,
-              flexShrink: 0,
-            }}
-            title="画像を添付"
-          >
-            画像を添付
-          </button>
+          {canAttach && (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!selectedChannelId || sending}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 8,
+                border: "1px solid #40444b",
+                background: "#2f3136",
+                color: "#dcddde",
+                fontSize: 12,
+                cursor: !selectedChannelId || sending ? "not-allowed" : "pointer",
+                opacity: !selectedChannelId || sending ? 0.6 : 1,
+                flexShrink: 0,
+              }}
+              title="画像を添付"
+            >
+              画像を添付
+            </button>
+          )}
           <input
             ref={fileInputRef}
             type="file"
@@ -1826,7 +2509,21 @@ export function MessageArea({
 
             <textarea
               ref={textInputRef}
-              placeholder={`#${selectedChannelName || "channel"} にメッセージを送信（画像は貼り付け/添付OK）`}
+              placeholder={
+                !canSend
+                  ? channelType === "announcement"
+                    ? "お知らせチャンネルです（投稿できるのは許可されたメンバーだけです）"
+                    : "このチャンネルではメッセージを送信できません"
+                  : slowmodeWait > 0
+                    ? `低速モード中: あと${slowmodeWait}秒で送信できます`
+                    : threadLive?.archivedAt
+                      ? "アーカイブ済みのスレッドです（送信すると再開します）"
+                      : threadLive
+                        ? `スレッド「${threadLive.name}」に返信`
+                    : canAttach
+                    ? `#${selectedChannelName || "channel"} にメッセージを送信（画像は貼り付け/添付OK）`
+                    : `#${selectedChannelName || "channel"} にメッセージを送信`
+              }
               value={text}
               onChange={(e) => {
                 const v = e.target.value;
@@ -1879,7 +2576,7 @@ export function MessageArea({
                 e.preventDefault();
                 send();
               }}
-              disabled={!selectedChannelId || sending}
+              disabled={!selectedChannelId || sending || !canSend}
               style={{
                 width: "100%",
                 padding: "12px",
@@ -1888,7 +2585,7 @@ export function MessageArea({
                 background: "#40444b",
                 color: "#dcddde",
                 fontSize: 14,
-                opacity: !selectedChannelId ? 0.6 : 1,
+                opacity: !selectedChannelId || !canSend ? 0.6 : 1,
                 minHeight: 44,
                 maxHeight: 160,
                 resize: "none",
@@ -1900,7 +2597,7 @@ export function MessageArea({
 
           <button
             onClick={() => send()}
-            disabled={!selectedChannelId || sending || (!text.trim() && !pendingAttachment)}
+            disabled={sendDisabled}
             style={{
               padding: "12px 14px",
               borderRadius: 8,
@@ -1908,17 +2605,13 @@ export function MessageArea({
               background: "#7289da",
               color: "#ffffff",
               fontWeight: 900,
-              cursor:
-                !selectedChannelId || sending || (!text.trim() && !pendingAttachment)
-                  ? "not-allowed"
-                  : "pointer",
-              opacity:
-                !selectedChannelId || sending || (!text.trim() && !pendingAttachment) ? 0.6 : 1,
+              cursor: sendDisabled ? "not-allowed" : "pointer",
+              opacity: sendDisabled ? 0.6 : 1,
               flexShrink: 0,
             }}
             title="送信"
           >
-            送信
+            {slowmodeWait > 0 ? `${slowmodeWait}秒` : "送信"}
           </button>
         </div>
       </div>
@@ -2125,7 +2818,7 @@ export function MessageArea({
                     key={it.id}
                     type="button"
                     onClick={() => {
-                      onJumpToMessage?.({ channelId: it.channelId, messageId: it.id });
+                      onJumpToMessage?.({ channelId: it.channelId, messageId: it.id, threadId: it.threadId });
                       setSearchOpen(false);
                     }}
                     style={{
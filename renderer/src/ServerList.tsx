@@ -1,4 +1,5 @@
 import type { Room } from "./api";
+import { MentionBadge } from "./ChannelList";
 
 type Props = {
   rooms: Room[];
@@ -6,9 +7,10 @@ type Props = {
   onSelectRoom: (id: string) => void;
   onRequestCreateRoom?: () => void;
   homeId?: string;
+  unreadByRoomId?: Record<string, { unread: boolean; mentions: number }>;
 };
 
-export function ServerList({ rooms, selectedRoomId, onSelectRoom, onRequestCreateRoom, homeId }: Props) {
+export function ServerList({ rooms, selectedRoomId, onSelectRoom, onRequestCreateRoom, homeId, unreadByRoomId }: Props) {
   return (
     <div
       style={{
@@ -61,6 +63,7 @@ export function ServerList({ rooms, selectedRoomId, onSelectRoom, onRequestCreat
 
       {rooms.map((room) => {
         const active = room.id === selectedRoomId;
+        const unread = unreadByRoomId?.[room.id];
         return (
           <button
             key={room.id}
@@ -80,6 +83,7 @@ export function ServerList({ rooms, selectedRoomId, onSelectRoom, onRequestCreat
               alignItems: "center",
               justifyContent: "center",
               transition: "border-radius 0.2s, background 0.1s ease",
+              position: "relative",
             }}
             onMouseEnter={(e) => {
               if (!active) e.currentTarget.style.background = "#40444b";
@@ -87,9 +91,28 @@ export function ServerList({ rooms, selectedRoomId, onSelectRoom, onRequestCreat
             onMouseLeave={(e) => {
               if (!active) e.currentTarget.style.background = "#36393f";
             }}
-            title={room.name}
+            title={unread?.unread ? `${room.name}（未読あり）` : room.name}
           >
             {room.name[0].toUpperCase()}
+            {unread?.unread && !active && (
+              <span
+                style={{
+                  position: "absolute",
+                  left: -12,
+                  top: "50%",
+                  width: 4,
+                  height: 8,
+                  marginTop: -4,
+                  borderRadius: "0 4px 4px 0",
+                  background: "#ffffff",
+                }}
+              />
+            )}
+            {!!unread?.mentions && (
+              <span style={{ position: "absolute", right: -4, bottom: -4, display: "flex" }}>
+                <MentionBadge count={unread.mentions} />
+              </span>
+            )}
           </button>
         );
       })}
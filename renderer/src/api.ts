@@ -1,3 +1,10 @@
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/browser";
+
 export type Room = {
   id: string;
   name: string;
@@ -17,15 +24,87 @@ export type Channel = {
   category_id?: string | null;
 };
 
+export type ChannelType = "text" | "announcement";
+
+export type ChannelSettings = { type: ChannelType; topic: string | null; slowmodeSeconds: number };
+
+// channels the user can't view are not in the tree at all
+export type RoomTreeChannel = {
+  id: string;
+  name: string;
+  position: number;
+  // @everyone can't view it
+  private?: boolean;
+  // announcement = only members with post_announcements can post
+  type?: ChannelType;
+  topic?: string | null;
+  // minimum seconds between posts per member (0 = off; members who manage channels are exempt)
+  slowmodeSeconds?: number;
+  // what the current user may do in this channel
+  permissions?: ChannelPermission[];
+};
+
 export type RoomTree = {
   room: Room;
   categories: Array<{
     id: string;
     name: string;
     position: number;
-    channels: Array<{ id: string; name: string; position: number }>;
+    channels: RoomTreeChannel[];
   }>;
-  uncategorized: Array<{ id: string; name: string; position: number }>;
+  uncategorized: RoomTreeChannel[];
+  // what the current user may do in this room (the owner has all of them)
+  myPermissions?: RoomPermission[];
+};
+
+// WS room_tree_updated: new name / position / parent of what changed.
+// partial = some changed channels were left out (restricted), refetch the tree.
+export type RoomTreeUpdate = {
+  roomId: string;
+  room: { id: string; name: string } | null;
+  categories: Array<{ id: string; name: string; position: number }>;
+  channels: Array<{ id: string; name: string; position: number; categoryId: string | null } & Partial<ChannelSettings>>;
+  partial: boolean;
+};
+
+export type RoomTreeLayout = {
+  categories?: Array<{ id: string; position: number }>;
+  channels?: Array<{ id: string; position: number; categoryId?: string | null }>;
+};
+
+export type RoomPermission =
+  | "manage_channels"
+  | "manage_invites"
+  | "ban_members"
+  | "kick_members"
+  | "delete_messages"
+  | "view_audit_log"
+  | "manage_stickers"
+  | "mention_everyone"
+  | "post_announcements"
+  | "pin_messages";
+
+export type ChannelPermission = "view_channel" | "send_messages" | "attach_files" | "add_reactions" | "create_polls";
+
+export type ChannelOverrideTarget = "everyone" | "role" | "member";
+
+export type ChannelOverride = {
+  targetType: ChannelOverrideTarget;
+  // "" for everyone
+  targetId: string;
+  // role / member name (null for everyone)
+  name: string | null;
+  allow: ChannelPermission[];
+  deny: ChannelPermission[];
+  updated_at: string;
+};
+
+export type RoomRole = {
+  id: string;
+  name: string;
+  permissions: RoomPermission[];
+  memberCount: number;
+  created_at: string;
 };
 
 export type RoomBan = {
@@ -54,6 +133,7 @@ export type RoomMember = {
   hasAvatar: boolean;
   bio?: string | null;
   isOwner: boolean;
+  roleIds?: string[];
   online?: boolean;
 };
 
@@ -75,9 +155,79 @@ export type AuditLog = {
   created_at: string;
 };
 
-export type ChannelActivity = {
+// where I've read up to in a channel (server-side, shared by all my devices)
+export type ChannelReadState = {
   channelId: string;
+  roomId: string;
+  lastReadMessageId: string | null;
+  // null = never opened (unread counts from when I joined the room)
+  lastReadAt: string | null;
   lastMessageAt: string | null;
+  unreadCount: number;
+  mentionCount: number;
+};
+
+export type RoomReadSummary = {
+  roomId: string;
+  unreadCount: number;
+  mentionCount: number;
+};
+
+// a message that mentions me (GET /mentions, "mention_created")
+export type MentionItem = {
+  // the message id
+  id: string;
+  // "user": @<my id>, "everyone" / "here": @everyone / @here
+  kind: "user" | "everyone" | "here";
+  roomId: string;
+  roomName: string;
+  channelId: string;
+  channelName: string;
+  threadId: string | null;
+  threadName: string | null;
+  authorId: string;
+  author: string;
+  authorHasAvatar: boolean;
+  content: string;
+  created_at: string;
+  edited_at: string | null;
+};
+
+// an entry of my notification center (GET /notifications, "notification_created")
+export type NotificationKind = "mention" | "reply" | "keyword" | "message" | "dm" | "friend_request" | "room_join";
+
+export type AppNotification = {
+  id: string;
+  kind: NotificationKind;
+  actorId: string | null;
+  roomId: string | null;
+  channelId: string | null;
+  // room thread, or the DM thread for "dm"
+  threadId: string | null;
+  messageId: string | null;
+  meta: {
+    roomName?: string | null;
+    channelName?: string | null;
+    threadName?: string | null;
+    author?: string;
+    content?: string;
+    mentionKind?: MentionItem["kind"];
+    keyword?: string;
+    requestId?: string;
+  };
+  readAt: string | null;
+  created_at: string;
+};
+
+// null level = inherit (channel → room → "mentions")
+export type NotificationLevel = "all" | "mentions" | "nothing";
+
+export type NotificationSetting = {
+  roomId: string;
+  // null = the whole room
+  channelId: string | null;
+  level: NotificationLevel | null;
+  mutedUntil: string | null;
 };
 
 export type InviteJoinResult = {
@@ -89,6 +239,8 @@ export type InviteJoinResult = {
 export type Message = {
   id: string;
   channel_id: string;
+  // set for messages posted in a thread
+  thread_id?: string | null;
   author_id: string;
   author: string;
   author_has_avatar?: boolean;
@@ -96,15 +248,51 @@ export type Message = {
   content: string;
   created_at: string;
   edited_at?: string | null;
+  // set while the message is pinned in its channel
+  pinned_at?: string | null;
   reply_to?: string | null;
   reply?: { id: string; author: string; content: string } | null;
-  attachments?: Array<{ id: string; mime_type: string }>;
+  attachments?: AttachmentMeta[];
   reactions?: Array<{ emoji: string; count: number; byMe: boolean }>;
   poll?: Poll | null;
+  // the thread started from this message
+  thread?: Thread | null;
+};
+
+// a side discussion started from a channel message; archived after autoArchiveMinutes without messages
+export type Thread = {
+  id: string;
+  channelId: string;
+  parentMessageId: string | null;
+  name: string;
+  createdBy: string | null;
+  createdAt: string;
+  messageCount: number;
+  lastMessageAt: string;
+  autoArchiveMinutes: number;
+  archivedAt: string | null;
+};
+
+export type AttachmentMeta = {
+  id: string;
+  mime_type: string;
+  // processing: the server is still transcoding / making thumbnails (channel_attachment_updated follows)
+  status?: "processing" | "ready" | "failed";
+  error?: string | null;
+  // intrinsic size (null: unknown, e.g. attachments from before thumbnails existed)
+  width?: number | null;
+  height?: number | null;
+  // WebP thumbnails smaller than the original, ascending by width
+  thumbnails?: Array<{ width: number; height: number }>;
+  // video/mp4 only
+  poster?: { width: number; height: number } | null;
 };
 
 export type StickerMeta = { id: string; name: string; mimeType: string; createdAt: string; createdBy?: string };
 
+export type UploadKind = "attachment" | "sticker" | "avatar";
+export type UploadResult = { id: string; kind: UploadKind; mimeType: string; size: number };
+
 export type Poll = {
   id: string;
   question: string;
@@ -116,34 +304,41 @@ function apiBase() {
 }
 
 let authToken: string | null = null;
+let refreshToken: string | null = null;
+let refreshing: Promise<boolean> | null = null;
 let onAuthError: ((reason: string) => void) | null = null;
 
 const AUTH_TOKEN_SESSION_KEY = "yuiroom.authToken";
+const REFRESH_TOKEN_SESSION_KEY = "yuiroom.refreshToken";
 
 function canUseSessionStorage(): boolean {
   return typeof window !== "undefined" && typeof window.sessionStorage !== "undefined";
 }
 
-function persistAuthToken(token: string | null) {
+function persistSessionValue(key: string, value: string | null) {
   if (!canUseSessionStorage()) return;
   try {
-    if (token) window.sessionStorage.setItem(AUTH_TOKEN_SESSION_KEY, token);
-    else window.sessionStorage.removeItem(AUTH_TOKEN_SESSION_KEY);
+    if (value) window.sessionStorage.setItem(key, value);
+    else window.sessionStorage.removeItem(key);
   } catch {
     // ignore
   }
 }
 
-function setAuthTokenInternal(token: string | null) {
-  authToken = token && token.trim() ? token.trim() : null;
-  persistAuthToken(authToken);
+function setAuthTokensInternal(tokens: { token: string; refreshToken: string } | null) {
+  authToken = tokens?.token.trim() ? tokens.token.trim() : null;
+  refreshToken = tokens?.refreshToken.trim() ? tokens.refreshToken.trim() : null;
+  persistSessionValue(AUTH_TOKEN_SESSION_KEY, authToken);
+  persistSessionValue(REFRESH_TOKEN_SESSION_KEY, refreshToken);
 }
 
-// Restore token after reload (tab session only)
+// Restore tokens after reload (tab session only)
 if (canUseSessionStorage()) {
   try {
     const stored = window.sessionStorage.getItem(AUTH_TOKEN_SESSION_KEY);
     if (stored && stored.trim()) authToken = stored.trim();
+    const storedRefresh = window.sessionStorage.getItem(REFRESH_TOKEN_SESSION_KEY);
+    if (storedRefresh && storedRefresh.trim()) refreshToken = storedRefresh.trim();
   } catch {
     // ignore
   }
@@ -153,18 +348,57 @@ function authHeaders(): Record<string, string> {
   return authToken ? { authorization: `Bearer ${authToken}` } : {};
 }
 
-async function handleAuthFailure(res: Response) {
-  if (res.status !== 401) return;
-  // トークン失効/未設定/不正など。以後のリクエストを止めるために破棄。
-  setAuthTokenInternal(null);
-  const msg = (await extractError(res)) ?? "auth_invalid";
+// The access token lives 15 minutes; the refresh token gets a new pair. Concurrent callers share one request.
+function refreshSession(): Promise<boolean> {
+  if (refreshing) return refreshing;
+  const current = refreshToken;
+  if (!current) return Promise.resolve(false);
+  refreshing = (async () => {
+    try {
+      const res = await fetch(`${apiBase()}/auth/refresh`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ refreshToken: current }),
+      });
+      if (!res.ok) return false;
+      const data = (await res.json()) as { token: string; refreshToken: string };
+      // logged out while the request was in flight
+      if (refreshToken !== current) return false;
+      setAuthTokensInternal({ token: data.token, refreshToken: data.refreshToken });
+      return true;
+    } catch {
+      return false;
+    } finally {
+      refreshing = null;
+    }
+  })();
+  return refreshing;
+}
+
+// fetch with the access token; on 401 refreshes once and retries
+async function authedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), ...authHeaders() } });
+  const res = await send();
+  if (res.status !== 401 || !refreshToken) return res;
+  if (!(await refreshSession())) return res;
+  return send();
+}
+
+function endSession(reason: string) {
+  setAuthTokensInternal(null);
   try {
-    onAuthError?.(msg);
+    onAuthError?.(reason);
   } catch {
     // ignore
   }
 }
 
+async function handleAuthFailure(res: Response) {
+  if (res.status !== 401) return;
+  // トークン失効/未設定/不正、またはこの端末のログインが取り消された。以後のリクエストを止めるために破棄。
+  endSession((await extractError(res)) ?? "auth_invalid");
+}
+
 async function extractError(res: Response): Promise<string | null> {
   try {
     const data = await res.json();
@@ -180,7 +414,7 @@ async function extractError(res: Response): Promise<string | null> {
 
 async function getJson<T>(path: string): Promise<T> {
   const base = apiBase();
-  const res = await fetch(`${base}${path}`, { headers: authHeaders() });
+  const res = await authedFetch(`${base}${path}`);
   await handleAuthFailure(res);
   if (!res.ok) {
     const msg = await extractError(res);
@@ -189,19 +423,51 @@ async function getJson<T>(path: string): Promise<T> {
   return (await res.json()) as T;
 }
 
+async function getBlob(path: string): Promise<Blob> {
+  const base = apiBase();
+  const res = await authedFetch(`${base}${path}`);
+  await handleAuthFailure(res);
+  if (!res.ok) {
+    const msg = await extractError(res);
+    throw new Error(msg ?? `HTTP ${res.status}`);
+  }
+  return await res.blob();
+}
 
-async function deleteJson<T>(path: string): Promise<T> {
+async function deleteJson<T>(path: string, body?: unknown): Promise<T> {
   const base = apiBase();
-  const res = await fetch(`${base}${path}`, { method: "DELETE", headers: authHeaders() });
+  const res = await authedFetch(
+    `${base}${path}`,
+    body === undefined
+      ? { method: "DELETE" }
+      : { method: "DELETE", headers: { "content-type": "application/json" }, body: JSON.stringify(body) }
+  );
   await handleAuthFailure(res);
-  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  if (!res.ok) {
+    const msg = await extractError(res);
+    throw new Error(msg ?? `HTTP ${res.status}`);
+  }
   return (await res.json()) as T;
 }
 async function patchJson<T>(path: string, body: unknown): Promise<T> {
   const base = apiBase();
-  const res = await fetch(`${base}${path}`, {
+  const res = await authedFetch(`${base}${path}`, {
     method: "PATCH",
-    headers: { "content-type": "application/json", ...authHeaders() },
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  await handleAuthFailure(res);
+  if (!res.ok) {
+    const msg = await extractError(res);
+    throw new Error(msg ?? `HTTP ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+async function putJson<T>(path: string, body: unknown): Promise<T> {
+  const base = apiBase();
+  const res = await authedFetch(`${base}${path}`, {
+    method: "PUT",
+    headers: { "content-type": "application/json" },
     body: JSON.stringify(body),
   });
   await handleAuthFailure(res);
@@ -213,9 +479,9 @@ async function patchJson<T>(path: string, body: unknown): Promise<T> {
 }
 async function postJson<T>(path: string, body: unknown): Promise<T> {
   const base = apiBase();
-  const res = await fetch(`${base}${path}`, {
+  const res = await authedFetch(`${base}${path}`, {
     method: "POST",
-    headers: { "content-type": "application/json", ...authHeaders() },
+    headers: { "content-type": "application/json" },
     body: JSON.stringify(body),
   });
   await handleAuthFailure(res);
@@ -226,11 +492,105 @@ async function postJson<T>(path: string, body: unknown): Promise<T> {
   return (await res.json()) as T;
 }
 
+// Sends the file as the raw request body (no base64); the returned id is then passed as uploadId.
+async function uploadBlob(kind: UploadKind, blob: Blob): Promise<UploadResult> {
+  const base = apiBase();
+  const res = await authedFetch(`${base}/uploads?kind=${encodeURIComponent(kind)}`, {
+    method: "POST",
+    headers: { "content-type": blob.type || "application/octet-stream" },
+    body: blob,
+  });
+  await handleAuthFailure(res);
+  if (!res.ok) {
+    const msg = await extractError(res);
+    throw new Error(msg ?? `HTTP ${res.status}`);
+  }
+  return (await res.json()) as UploadResult;
+}
+
+// Canvas output (avatar / sticker crop) comes as a data URL; upload it as bytes.
+function dataUrlToBlob(dataUrl: string): Blob {
+  const m = /^data:([^;]+);base64,(.*)$/i.exec(dataUrl);
+  if (!m) throw new Error("invalid_dataUrl");
+  const bytes = Uint8Array.from(atob(m[2]), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: m[1] || "application/octet-stream" });
+}
+
 export type AuthOk = {
   ok: true;
   userId: string;
   displayName: string;
   token: string;
+  refreshToken: string;
+  // new account: the recovery codes, shown once
+  recoveryCodes?: string[];
+  // logged in with a recovery code: how many are left
+  remainingRecoveryCodes?: number;
+};
+
+export type RecoveryCodeStatus = { total: number; remaining: number; createdAt: string | null };
+
+export type AuthSession = {
+  id: string;
+  deviceLabel: string;
+  createdAt: string;
+  lastSeenAt: string;
+  ip: string | null;
+  // the session this client is using
+  current: boolean;
+};
+
+export type RoomCreationPolicy = "first_user" | "admins" | "allowlist" | "everyone";
+
+// what the signed-in user may do instance-wide
+export type InstanceInfo = {
+  isAdmin: boolean;
+  canCreateRooms: boolean;
+  roomCreationPolicy: RoomCreationPolicy;
+};
+
+// open: anyone / invite: a signup invite is required / closed: no new accounts
+export type RegistrationMode = "open" | "invite" | "closed";
+
+export type InstanceSettings = { roomCreationPolicy: RoomCreationPolicy; registrationMode: RegistrationMode };
+
+export type SignupInvite = {
+  code: string;
+  note: string;
+  uses: number;
+  maxUses: number;
+  expiresAt: string;
+  createdAt: string;
+  createdBy: string | null;
+  createdByName: string | null;
+};
+
+export type AdminUserFilter = "all" | "admins" | "suspended" | "room_creators";
+
+export type AdminUser = {
+  userId: string;
+  displayName: string;
+  hasAvatar: boolean;
+  createdAt: string;
+  lastSeenAt: string | null;
+  isAdmin: boolean;
+  // allowlisted for the "allowlist" room-creation policy
+  canCreateRooms: boolean;
+  suspendedAt: string | null;
+  suspendedReason: string | null;
+  // the signup invite the account registered with
+  signupInvite: string | null;
+  passkeys: number;
+  ownedRooms: number;
+};
+
+export type Passkey = {
+  id: string;
+  // "" for passkeys registered before they could be named
+  name: string;
+  transports: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
 };
 
 export type FriendUser = {
@@ -281,6 +641,8 @@ export type RoomSearchMessage = {
   id: string;
   channelId: string;
   channelName: string;
+  // set when the message is in a thread of the channel
+  threadId: string | null;
   authorId: string;
   author: string;
   authorHasAvatar: boolean;
@@ -291,17 +653,76 @@ export type RoomSearchMessage = {
 export const api = {
   base: apiBase,
   getAuthToken: () => authToken,
-  setAuthToken: (token: string | null) => {
-    setAuthTokenInternal(token);
+  setAuthTokens: (tokens: { token: string; refreshToken: string } | null) => {
+    setAuthTokensInternal(tokens);
+  },
+  refreshSession,
+  // the session is gone (e.g. the WebSocket was closed as revoked): drop the tokens and notify like a 401
+  endSession,
+  // ends this device's session on the server, then forgets the tokens
+  logout: async () => {
+    if (authToken) {
+      try {
+        await authedFetch(`${apiBase()}/auth/logout`, { method: "POST" });
+      } catch {
+        // ignore
+      }
+    }
+    setAuthTokensInternal(null);
   },
+  listSessions: () => getJson<AuthSession[]>("/sessions"),
+  revokeSession: (sessionId: string) => deleteJson<{ ok: true }>(`/sessions/${encodeURIComponent(sessionId)}`),
+  revokeOtherSessions: () => deleteJson<{ ok: true; revoked: number }>("/sessions"),
   setOnAuthError: (fn: ((reason: string) => void) | null) => {
     onAuthError = fn;
   },
   health: () => getJson<{ ok: boolean }>("/health"),
+  getInstanceInfo: () => getJson<InstanceInfo>("/instance"),
+  getInstanceSettings: () => getJson<InstanceSettings>("/admin/settings"),
+  updateInstanceSettings: (settings: Partial<InstanceSettings>) => patchJson<InstanceSettings>("/admin/settings", settings),
+  listSignupInvites: () => getJson<SignupInvite[]>("/admin/signup-invites"),
+  createSignupInvite: (opts: { maxUses: number; expiresInHours: number; note?: string }) =>
+    postJson<{ code: string; maxUses: number; expiresAt: string }>("/admin/signup-invites", opts),
+  deleteSignupInvite: (code: string) => deleteJson<{ ok: true }>(`/admin/signup-invites/${encodeURIComponent(code)}`),
+  listAdminUsers: (opts?: { q?: string; filter?: AdminUserFilter; offset?: number; limit?: number }) => {
+    const q = new URLSearchParams();
+    q.set("limit", String(opts?.limit ?? 50));
+    if (opts?.q) q.set("q", opts.q);
+    if (opts?.filter) q.set("filter", opts.filter);
+    if (opts?.offset) q.set("offset", String(opts.offset));
+    return getJson<Page<AdminUser>>(`/admin/users?${q.toString()}`);
+  },
+  updateAdminUser: (userId: string, patch: { isAdmin?: boolean; canCreateRooms?: boolean }) =>
+    patchJson<{ ok: true }>(`/admin/users/${encodeURIComponent(userId)}`, patch),
+  suspendUser: (userId: string, reason: string) =>
+    postJson<{ ok: true }>(`/admin/users/${encodeURIComponent(userId)}/suspend`, { reason }),
+  unsuspendUser: (userId: string) => postJson<{ ok: true }>(`/admin/users/${encodeURIComponent(userId)}/unsuspend`, {}),
+  // returns a one-time recovery code to hand to the user
+  resetUserPasskeys: (userId: string) =>
+    postJson<{ ok: true; removed: number; recoveryCode: string }>(
+      `/admin/users/${encodeURIComponent(userId)}/reset-passkeys`,
+      {}
+    ),
+  deleteUser: (userId: string, opts?: { deleteOwnedRooms?: boolean }) =>
+    deleteJson<{ ok: true; deletedRooms: number }>(
+      `/admin/users/${encodeURIComponent(userId)}${opts?.deleteOwnedRooms ? "?deleteOwnedRooms=1" : ""}`
+    ),
+  listInstanceAudit: (opts?: { before?: string; limit?: number; action?: string; userId?: string }) => {
+    const q = new URLSearchParams();
+    q.set("limit", String(opts?.limit ?? 50));
+    if (opts?.before) q.set("before", opts.before);
+    if (opts?.action) q.set("action", opts.action);
+    if (opts?.userId) q.set("userId", opts.userId);
+    return getJson<AuditLog[]>(`/admin/audit?${q.toString()}`);
+  },
   listRooms: () => getJson<Room[]>("/rooms"),
   getRoomTree: (roomId: string) => getJson<RoomTree>(`/rooms/${encodeURIComponent(roomId)}/tree`),
   createRoom: (name: string) => postJson<Room>("/rooms", { name }),
   deleteRoom: (roomId: string) => deleteJson<{ ok: boolean }>(`/rooms/${encodeURIComponent(roomId)}`),
+  renameRoom: (roomId: string, name: string) => patchJson<Room>(`/rooms/${encodeURIComponent(roomId)}`, { name }),
+  // positions (and parents) of several categories / channels in one transaction
+  reorderRoomTree: (roomId: string, layout: RoomTreeLayout) =>
+    patchJson<{ ok: true }>(`/rooms/${encodeURIComponent(roomId)}/tree`, layout),
   searchRoomMessages: (
     roomId: string,
     q: string,
@@ -319,6 +740,11 @@ export const api = {
       `/rooms/${encodeURIComponent(roomId)}/categories`,
       { name, position }
     ),
+  updateCategory: (roomId: string, categoryId: string, patch: { name?: string; position?: number }) =>
+    patchJson<{ id: string; room_id: string; name: string; position: number }>(
+      `/rooms/${encodeURIComponent(roomId)}/categories/${encodeURIComponent(categoryId)}`,
+      patch
+    ),
   deleteCategory: (roomId: string, categoryId: string) =>
     deleteJson<{ ok: boolean }>(
       `/rooms/${encodeURIComponent(roomId)}/categories/${encodeURIComponent(categoryId)}`
@@ -328,6 +754,15 @@ export const api = {
       `/rooms/${encodeURIComponent(roomId)}/channels`,
       { name, categoryId: categoryId ?? null, position }
     ),
+  updateChannel: (
+    roomId: string,
+    channelId: string,
+    patch: { name?: string; position?: number; categoryId?: string | null } & Partial<ChannelSettings>
+  ) =>
+    patchJson<{ id: string; room_id: string; category_id: string | null; name: string; position: number } & ChannelSettings>(
+      `/rooms/${encodeURIComponent(roomId)}/channels/${encodeURIComponent(channelId)}`,
+      patch
+    ),
   deleteChannel: (roomId: string, channelId: string) =>
     deleteJson<{ ok: boolean }>(
       `/rooms/${encodeURIComponent(roomId)}/channels/${encodeURIComponent(channelId)}`
@@ -354,12 +789,99 @@ export const api = {
     if (opts?.before) q.set("before", opts.before);
     return getJson<AuditLog[]>(`/audit?${q.toString()}`);
   },
-  listChannelActivity: (roomId: string) =>
-    getJson<ChannelActivity[]>(`/rooms/${encodeURIComponent(roomId)}/channels/activity`),
+  getReadStates: () => getJson<{ channels: ChannelReadState[]; rooms: RoomReadSummary[] }>("/read-states"),
+  // read up to messageId (default: the latest message)
+  ackChannel: (channelId: string, messageId?: string) =>
+    postJson<{ state: ChannelReadState | null }>(`/channels/${encodeURIComponent(channelId)}/ack`, {
+      messageId: messageId || undefined,
+    }),
+  // messages that mention me in every room, newest first
+  listMentions: (opts?: { limit?: number; before?: string | null; roomId?: string | null; everyone?: boolean }) => {
+    const qs = new URLSearchParams();
+    qs.set("limit", String(opts?.limit ?? 25));
+    if (opts?.before) qs.set("before", opts.before);
+    if (opts?.roomId) qs.set("roomId", opts.roomId);
+    if (opts?.everyone === false) qs.set("everyone", "false");
+    return getJson<Page<MentionItem>>(`/mentions?${qs.toString()}`);
+  },
+  listNotifications: (opts?: { limit?: number; before?: string | null; unread?: boolean }) => {
+    const qs = new URLSearchParams();
+    qs.set("limit", String(opts?.limit ?? 30));
+    if (opts?.before) qs.set("before", opts.before);
+    if (opts?.unread) qs.set("unread", "true");
+    return getJson<Page<AppNotification> & { unreadCount: number }>(`/notifications?${qs.toString()}`);
+  },
+  // ids, or every notification with "all"
+  markNotificationsRead: (ids: string[] | "all") =>
+    postJson<{ ok: boolean; unreadCount: number }>("/notifications/read", ids === "all" ? { all: true } : { ids }),
+  clearNotifications: (target: string[] | { all: true; onlyRead?: boolean }) =>
+    postJson<{ ok: boolean; unreadCount: number }>("/notifications/clear", Array.isArray(target) ? { ids: target } : target),
+  getNotificationSettings: () =>
+    getJson<{ settings: NotificationSetting[]; keywords: string[] }>("/notification-settings"),
+  updateRoomNotificationSetting: (roomId: string, patch: { level: NotificationLevel | null; mutedUntil: string | null }) =>
+    putJson<{ setting: NotificationSetting }>(`/notification-settings/rooms/${encodeURIComponent(roomId)}`, patch),
+  updateChannelNotificationSetting: (
+    channelId: string,
+    patch: { level: NotificationLevel | null; mutedUntil: string | null }
+  ) => putJson<{ setting: NotificationSetting }>(`/notification-settings/channels/${encodeURIComponent(channelId)}`, patch),
+  updateHighlightKeywords: (keywords: string[]) =>
+    putJson<{ keywords: string[] }>("/notification-settings/keywords", { keywords }),
+  // the message and everything after it become unread
+  markChannelUnread: (channelId: string, messageId: string) =>
+    postJson<{ state: ChannelReadState | null }>(`/channels/${encodeURIComponent(channelId)}/unread`, { messageId }),
   leaveRoom: (roomId: string) =>
     deleteJson<{ ok: boolean }>(`/rooms/${encodeURIComponent(roomId)}/members/me`),
   kickRoomMember: (roomId: string, userId: string) =>
     deleteJson<{ ok: boolean }>(`/rooms/${encodeURIComponent(roomId)}/members/${encodeURIComponent(userId)}`),
+  listRoomRoles: (roomId: string) => getJson<RoomRole[]>(`/rooms/${encodeURIComponent(roomId)}/roles`),
+  createRoomRole: (roomId: string, name: string, permissions: RoomPermission[]) =>
+    postJson<RoomRole>(`/rooms/${encodeURIComponent(roomId)}/roles`, { name, permissions }),
+  updateRoomRole: (roomId: string, roleId: string, patch: { name?: string; permissions?: RoomPermission[] }) =>
+    patchJson<RoomRole>(`/rooms/${encodeURIComponent(roomId)}/roles/${encodeURIComponent(roleId)}`, patch),
+  deleteRoomRole: (roomId: string, roleId: string) =>
+    deleteJson<{ ok: boolean }>(`/rooms/${encodeURIComponent(roomId)}/roles/${encodeURIComponent(roleId)}`),
+  addMemberRole: (roomId: string, userId: string, roleId: string) =>
+    putJson<{ ok: boolean }>(
+      `/rooms/${encodeURIComponent(roomId)}/members/${encodeURIComponent(userId)}/roles/${encodeURIComponent(roleId)}`,
+      {}
+    ),
+  removeMemberRole: (roomId: string, userId: string, roleId: string) =>
+    deleteJson<{ ok: boolean }>(
+      `/rooms/${encodeURIComponent(roomId)}/members/${encodeURIComponent(userId)}/roles/${encodeURIComponent(roleId)}`
+    ),
+  // ownership transfer: re-confirm with one of the owner's passkeys, then hand the room over
+  roomTransferOptions: (roomId: string) =>
+    postJson<PublicKeyCredentialRequestOptionsJSON & { challengeId: string }>(
+      `/rooms/${encodeURIComponent(roomId)}/transfer/options`,
+      {}
+    ),
+  transferRoomOwnership: (
+    roomId: string,
+    newOwnerId: string,
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+    leave: boolean
+  ) =>
+    postJson<{ ok: true; roomId: string; ownerId: string }>(`/rooms/${encodeURIComponent(roomId)}/transfer`, {
+      newOwnerId,
+      challengeId,
+      response,
+      leave,
+    }),
+  listChannelOverrides: (roomId: string, channelId: string) =>
+    getJson<ChannelOverride[]>(
+      `/rooms/${encodeURIComponent(roomId)}/channels/${encodeURIComponent(channelId)}/overrides`
+    ),
+  // empty allow and deny removes the override
+  setChannelOverride: (
+    roomId: string,
+    channelId: string,
+    override: { targetType: ChannelOverrideTarget; targetId: string; allow: ChannelPermission[]; deny: ChannelPermission[] }
+  ) =>
+    putJson<{ ok: boolean }>(
+      `/rooms/${encodeURIComponent(roomId)}/channels/${encodeURIComponent(channelId)}/overrides`,
+      override
+    ),
   joinByInvite: (code: string) =>
     postJson<InviteJoinResult>(`/invites/join`, { code }),
 
@@ -372,21 +894,24 @@ export const api = {
     const base = apiBase();
     return `${base}/attachments/${encodeURIComponent(attachmentId)}`;
   },
-  fetchAttachmentBlob: async (attachmentId: string): Promise<Blob> => {
-    const base = apiBase();
-    const res = await fetch(`${base}/attachments/${encodeURIComponent(attachmentId)}`, { headers: authHeaders() });
-    await handleAuthFailure(res);
-    if (!res.ok) {
-      const msg = await extractError(res);
-      throw new Error(msg ?? `HTTP ${res.status}`);
-    }
-    return await res.blob();
+  // short-lived URL usable as <video src> (no Authorization header needed)
+  getAttachmentSignedUrl: async (attachmentId: string) => {
+    const r = await getJson<{ url: string; expiresAt: string }>(`/attachments/${encodeURIComponent(attachmentId)}/url`);
+    return { url: `${apiBase()}${r.url}`, expiresAt: r.expiresAt };
   },
+  fetchAttachmentBlob: (attachmentId: string) => getBlob(`/attachments/${encodeURIComponent(attachmentId)}`),
+  fetchAttachmentThumbnailBlob: (attachmentId: string, width: number) =>
+    getBlob(`/attachments/${encodeURIComponent(attachmentId)}/thumbnails/${width}`),
+  fetchAttachmentPosterBlob: (attachmentId: string) =>
+    getBlob(`/attachments/${encodeURIComponent(attachmentId)}/poster`),
   userAvatarUrl: (userId: string) => `${apiBase()}/users/${encodeURIComponent(userId)}/avatar`,
-  setUserAvatar: (userId: string, dataUrl: string | null) =>
-    postJson<{ ok: boolean }>(`/users/${encodeURIComponent(userId)}/avatar`, {
-      dataUrl: dataUrl && dataUrl.trim() ? dataUrl : null,
-    }),
+  setUserAvatar: async (userId: string, dataUrl: string | null) => {
+    if (!dataUrl || !dataUrl.trim()) {
+      return postJson<{ ok: boolean }>(`/users/${encodeURIComponent(userId)}/avatar`, { dataUrl: null });
+    }
+    const up = await uploadBlob("avatar", dataUrlToBlob(dataUrl));
+    return postJson<{ ok: boolean }>(`/users/${encodeURIComponent(userId)}/avatar`, { uploadId: up.id });
+  },
   setUserDisplayName: (userId: string, displayName: string) =>
     postJson<{ ok: boolean }>(`/users/${encodeURIComponent(userId)}/displayName`, { displayName }),
   getUserProfile: (userId: string) => getJson<UserProfile>(`/users/${encodeURIComponent(userId)}/profile`),
@@ -407,15 +932,16 @@ export const api = {
       `/channels/${encodeURIComponent(channelId)}/messages?${q.toString()}`
     );
   },
+  uploadFile: (kind: UploadKind, file: Blob) => uploadBlob(kind, file),
   createMessage: (
     channelId: string,
     content: string,
-    opts?: { replyTo?: string | null; attachmentDataUrl?: string | null }
+    opts?: { replyTo?: string | null; attachmentUploadId?: string | null }
   ) =>
     postJson<Message>(`/channels/${encodeURIComponent(channelId)}/messages`, {
       content,
       replyTo: opts?.replyTo ?? null,
-      attachments: opts?.attachmentDataUrl ? [{ dataUrl: opts.attachmentDataUrl }] : [],
+      attachments: opts?.attachmentUploadId ? [{ uploadId: opts.attachmentUploadId }] : [],
     }),
   toggleReaction: (messageId: string, emoji: string) =>
     postJson<{ messageId: string; reactions: Array<{ emoji: string; count: number; byMe: boolean }> }>(
@@ -434,14 +960,95 @@ export const api = {
       { content }
     ),
 
+  // pins
+  listChannelPins: (channelId: string) =>
+    getJson<{ items: Message[]; max: number }>(`/channels/${encodeURIComponent(channelId)}/pins`),
+  pinMessage: (messageId: string) =>
+    putJson<{ ok: boolean; messageId: string; pinned: boolean; pinned_at: string | null }>(
+      `/messages/${encodeURIComponent(messageId)}/pin`,
+      {}
+    ),
+  unpinMessage: (messageId: string) =>
+    deleteJson<{ ok: boolean; messageId: string; pinned: boolean; pinned_at: string | null }>(
+      `/messages/${encodeURIComponent(messageId)}/pin`
+    ),
+
+  // threads
+  createThread: (messageId: string, opts?: { name?: string }) =>
+    postJson<Thread>(`/messages/${encodeURIComponent(messageId)}/thread`, { name: opts?.name || undefined }),
+  listChannelThreads: (channelId: string, archived = false) =>
+    getJson<{ items: Thread[] }>(`/channels/${encodeURIComponent(channelId)}/threads${archived ? "?archived=1" : ""}`),
+  getThread: (threadId: string) =>
+    getJson<{ thread: Thread; parent: Message | null }>(`/threads/${encodeURIComponent(threadId)}`),
+  listThreadMessages: (threadId: string, limit?: number, beforeIso?: string) => {
+    const q = new URLSearchParams();
+    q.set("limit", String(limit ?? 50));
+    if (beforeIso) q.set("before", beforeIso);
+    return getJson<{ items: Message[]; hasMore: boolean }>(`/threads/${encodeURIComponent(threadId)}/messages?${q.toString()}`);
+  },
+  createThreadMessage: (
+    threadId: string,
+    content: string,
+    opts?: { replyTo?: string | null; attachmentUploadId?: string | null }
+  ) =>
+    postJson<Message>(`/threads/${encodeURIComponent(threadId)}/messages`, {
+      content,
+      replyTo: opts?.replyTo ?? null,
+      attachments: opts?.attachmentUploadId ? [{ uploadId: opts.attachmentUploadId }] : [],
+    }),
+  updateThread: (threadId: string, patch: { name?: string; archived?: boolean; autoArchiveMinutes?: number }) =>
+    patchJson<Thread>(`/threads/${encodeURIComponent(threadId)}`, patch),
+
   // passkey
-  passkeyRegisterOptions: (userId: string, displayName: string) =>
-    postJson<any>("/auth/register/options", { userId, displayName }),
-  passkeyRegisterVerify: (userId: string, response: any) =>
-    postJson<AuthOk>("/auth/register/verify", { userId, response }),
+  getRegistrationMode: () => getJson<{ mode: RegistrationMode }>("/auth/registration"),
+  // the pending registration lives on the server under challengeId until verify
+  passkeyRegisterOptions: (userId: string, displayName: string, inviteCode?: string) =>
+    postJson<PublicKeyCredentialCreationOptionsJSON & { challengeId: string }>("/auth/register/options", {
+      userId,
+      displayName,
+      inviteCode: inviteCode || undefined,
+    }),
+  passkeyRegisterVerify: (userId: string, challengeId: string, response: RegistrationResponseJSON) =>
+    postJson<AuthOk>("/auth/register/verify", { userId, challengeId, response }),
   passkeyLoginOptions: (userId: string) => postJson<any>("/auth/login/options", { userId }),
   passkeyLoginVerify: (userId: string, response: any) =>
     postJson<AuthOk>("/auth/login/verify", { userId, response }),
+  // login without a user ID: any discoverable passkey for this site (also used for autofill)
+  passkeyDiscoverableLoginOptions: () =>
+    postJson<PublicKeyCredentialRequestOptionsJSON & { challengeId: string }>("/auth/login/options", {}),
+  passkeyDiscoverableLoginVerify: (challengeId: string, response: AuthenticationResponseJSON) =>
+    postJson<AuthOk>("/auth/login/verify", { challengeId, response }),
+  recoveryStart: (userId: string, code: string) =>
+    postJson<{ ok: true; enrollmentToken: string; expiresAt: string; remaining: number }>("/auth/recovery", {
+      userId,
+      code,
+    }),
+  recoveryOptions: (enrollmentToken: string) =>
+    postJson<PublicKeyCredentialCreationOptionsJSON>("/auth/recovery/options", { enrollmentToken }),
+  recoveryVerify: (enrollmentToken: string, response: RegistrationResponseJSON) =>
+    postJson<AuthOk>("/auth/recovery/verify", { enrollmentToken, response }),
+  getRecoveryCodeStatus: () => getJson<RecoveryCodeStatus>("/recovery-codes"),
+  // re-confirmed with a passkey like the ownership transfer
+  recoveryCodesOptions: () =>
+    postJson<PublicKeyCredentialRequestOptionsJSON & { challengeId: string }>("/recovery-codes/options", {}),
+  regenerateRecoveryCodes: (challengeId: string, response: AuthenticationResponseJSON) =>
+    postJson<{ ok: true; codes: string[] }>("/recovery-codes", { challengeId, response }),
+  listPasskeys: () => getJson<Passkey[]>("/passkeys"),
+  // adding / removing a passkey is re-confirmed with one of the registered ones
+  passkeyReauthOptions: () =>
+    postJson<PublicKeyCredentialRequestOptionsJSON & { challengeId: string }>("/passkeys/reauth/options", {}),
+  passkeyAddOptions: () =>
+    postJson<PublicKeyCredentialCreationOptionsJSON & { challengeId: string }>("/passkeys/options", {}),
+  passkeyAddVerify: (
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    reauth: { challengeId: string; response: AuthenticationResponseJSON },
+    name?: string
+  ) => postJson<Passkey>("/passkeys/verify", { challengeId, response, reauth, name }),
+  renamePasskey: (passkeyId: string, name: string) =>
+    patchJson<Passkey>(`/passkeys/${encodeURIComponent(passkeyId)}`, { name }),
+  deletePasskey: (passkeyId: string, challengeId: string, response: AuthenticationResponseJSON) =>
+    deleteJson<{ ok: true }>(`/passkeys/${encodeURIComponent(passkeyId)}`, { challengeId, response }),
 
   // friends / dm
   listFriends: () => getJson<FriendUser[]>("/friends"),
@@ -485,16 +1092,24 @@ export const api = {
 
   // stickers
   listStickers: () => getJson<StickerMeta[]>("/stickers"),
-  createSticker: (dataUrl: string, name?: string) => postJson<{ id: string; name: string; mimeType: string }>("/stickers", { dataUrl, name: name ?? "" }),
+  createSticker: async (image: Blob | string, name?: string) => {
+    const up = await uploadBlob("sticker", typeof image === "string" ? dataUrlToBlob(image) : image);
+    return postJson<{ id: string; name: string; mimeType: string }>("/stickers", { uploadId: up.id, name: name ?? "" });
+  },
   deleteSticker: (stickerId: string) => deleteJson<{ ok: true }>(`/stickers/${encodeURIComponent(stickerId)}`),
   listRoomStickers: (roomId: string) => getJson<StickerMeta[]>(`/rooms/${encodeURIComponent(roomId)}/stickers`),
-  createRoomSticker: (roomId: string, dataUrl: string, name?: string) =>
-    postJson<{ id: string; name: string; mimeType: string; createdBy: string }>(`/rooms/${encodeURIComponent(roomId)}/stickers`, { dataUrl, name: name ?? "" }),
+  createRoomSticker: async (roomId: string, image: Blob | string, name?: string) => {
+    const up = await uploadBlob("sticker", typeof image === "string" ? dataUrlToBlob(image) : image);
+    return postJson<{ id: string; name: string; mimeType: string; createdBy: string }>(
+      `/rooms/${encodeURIComponent(roomId)}/stickers`,
+      { uploadId: up.id, name: name ?? "" }
+    );
+  },
   deleteRoomSticker: (roomId: string, stickerId: string) =>
     deleteJson<{ ok: true }>(`/rooms/${encodeURIComponent(roomId)}/stickers/${encodeURIComponent(stickerId)}`),
   fetchStickerBlob: async (stickerId: string): Promise<Blob> => {
     const base = apiBase();
-    const res = await fetch(`${base}/stickers/${encodeURIComponent(stickerId)}`, { headers: authHeaders() });
+    const res = await authedFetch(`${base}/stickers/${encodeURIComponent(stickerId)}`);
     if (!res.ok) throw new Error("sticker_not_found");
     return res.blob();
   },
@@ -1,4 +1,5 @@
 import { api } from "../api";
+import type { RoomPermission, RoomTree, RoomTreeChannel, RoomTreeLayout, RoomTreeUpdate } from "../api";
 
 const USER_ID_REGEX = /^[a-z0-9_-]{3,32}$/;
 
@@ -8,6 +9,141 @@ const SAVED_USER_ID_KEY = "yuiroom.savedUserId";
 const SESSION_USER_ID_KEY = "yuiroom.sessionUserId";
 const ENTER_KEY_SENDS_KEY = "yr_enter_key_sends_v1";
 
+export function roomCan(tree: RoomTree | null | undefined, permission: RoomPermission) {
+  return !!tree?.myPermissions?.includes(permission);
+}
+
+function treeChannels(tree: RoomTree) {
+  return [...tree.categories.flatMap((c) => c.channels), ...tree.uncategorized];
+}
+
+export function findTreeChannel(tree: RoomTree | null | undefined, channelId: string | null | undefined) {
+  if (!tree || !channelId) return null;
+  return treeChannels(tree).find((c) => c.id === channelId) ?? null;
+}
+
+// keeps the current channel while it's still in the tree, otherwise falls back to the first one
+export function pickVisibleChannel(tree: RoomTree, current: string | null) {
+  if (current && treeChannels(tree).some((c) => c.id === current)) return current;
+  return tree.categories?.[0]?.channels?.[0]?.id ?? tree.uncategorized?.[0]?.id ?? null;
+}
+
+function byPosition<T extends { position: number }>(a: T, b: T) {
+  return a.position - b.position;
+}
+
+// patches a room_tree_updated into the tree; null when it can't be done locally (refetch instead)
+export function applyRoomTreeUpdate(tree: RoomTree, ev: RoomTreeUpdate): RoomTree | null {
+  if (ev.partial) return null;
+  const catPatch = new Map(ev.categories.map((c) => [c.id, c]));
+  const chanPatch = new Map(ev.channels.map((c) => [c.id, c]));
+
+  const categories = tree.categories.map((c) => {
+    const p = catPatch.get(c.id);
+    return { ...c, name: p?.name ?? c.name, position: p?.position ?? c.position, channels: [] as RoomTreeChannel[] };
+  });
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const uncategorized: RoomTreeChannel[] = [];
+
+  const current = [
+    ...tree.categories.flatMap((c) => c.channels.map((ch) => ({ ch, categoryId: c.id as string | null }))),
+    ...tree.uncategorized.map((ch) => ({ ch, categoryId: null as string | null })),
+  ];
+  for (const { ch, categoryId } of current) {
+    const p = chanPatch.get(ch.id);
+    const target = p ? p.categoryId : categoryId;
+    const next = p
+      ? {
+          ...ch,
+          name: p.name,
+          position: p.position,
+          type: p.type ?? ch.type,
+          topic: p.topic !== undefined ? p.topic : ch.topic,
+          slowmodeSeconds: p.slowmodeSeconds ?? ch.slowmodeSeconds,
+        }
+      : ch;
+    if (target === null) {
+      uncategorized.push(next);
+      continue;
+    }
+    // moved into a category this member doesn't have
+    const cat = byId.get(target);
+    if (!cat) return null;
+    cat.channels.push(next);
+  }
+
+  for (const c of categories) c.channels.sort(byPosition);
+  return {
+    ...tree,
+    room: ev.room ? { ...tree.room, name: ev.room.name } : tree.room,
+    categories: categories.sort(byPosition),
+    uncategorized: uncategorized.sort(byPosition),
+  };
+}
+
+// drag & drop: puts the channel before beforeChannelId (null = at the end of categoryId) and
+// renumbers the categories it left / entered; layout is what PATCH /rooms/:roomId/tree needs
+export function moveTreeChannel(
+  tree: RoomTree,
+  channelId: string,
+  categoryId: string | null,
+  beforeChannelId: string | null
+): { tree: RoomTree; layout: RoomTreeLayout } | null {
+  if (channelId === beforeChannelId) return null;
+  const lists = new Map<string | null, RoomTreeChannel[]>([
+    ...tree.categories.map((c) => [c.id, [...c.channels]] as [string, RoomTreeChannel[]]),
+    [null, [...tree.uncategorized]],
+  ]);
+  const from = [...lists.entries()].find(([, list]) => list.some((ch) => ch.id === channelId))?.[0];
+  const target = lists.get(categoryId);
+  if (from === undefined || !target) return null;
+
+  const source = lists.get(from)!;
+  const [moving] = source.splice(
+    source.findIndex((ch) => ch.id === channelId),
+    1
+  );
+  const at = beforeChannelId ? target.findIndex((ch) => ch.id === beforeChannelId) : -1;
+  target.splice(at < 0 ? target.length : at, 0, moving);
+
+  const touched = from === categoryId ? [categoryId] : [from, categoryId];
+  const channels: NonNullable<RoomTreeLayout["channels"]> = [];
+  for (const key of touched) {
+    const list = lists.get(key)!.map((ch, i) => ({ ...ch, position: i }));
+    lists.set(key, list);
+    for (const ch of list) channels.push({ id: ch.id, position: ch.position, categoryId: key });
+  }
+
+  return {
+    tree: {
+      ...tree,
+      categories: tree.categories.map((c) => ({ ...c, channels: lists.get(c.id) ?? c.channels })),
+      uncategorized: lists.get(null) ?? tree.uncategorized,
+    },
+    layout: { channels },
+  };
+}
+
+// drag & drop: puts the category before beforeCategoryId (null = last) and renumbers all of them
+export function moveTreeCategory(
+  tree: RoomTree,
+  categoryId: string,
+  beforeCategoryId: string | null
+): { tree: RoomTree; layout: RoomTreeLayout } | null {
+  if (categoryId === beforeCategoryId) return null;
+  const list = [...tree.categories];
+  const index = list.findIndex((c) => c.id === categoryId);
+  if (index < 0) return null;
+  const [moving] = list.splice(index, 1);
+  const at = beforeCategoryId ? list.findIndex((c) => c.id === beforeCategoryId) : -1;
+  list.splice(at < 0 ? list.length : at, 0, moving);
+  const categories = list.map((c, i) => ({ ...c, position: i }));
+  return {
+    tree: { ...tree, categories },
+    layout: { categories: categories.map((c) => ({ id: c.id, position: c.position })) },
+  };
+}
+
 export function normalizeUserId(v: string) {
   return v.trim().toLowerCase();
 }
@@ -45,6 +181,13 @@ export function inviteUrlFromCode(code: string): string {
   return origin ? `${origin}/invite/${encodeURIComponent(c)}` : `/invite/${encodeURIComponent(c)}`;
 }
 
+// 新規登録用の招待URL（開くとログイン画面の新規登録にコードが入る）
+export function signupUrlFromCode(code: string): string {
+  const origin = inviteBaseOrigin();
+  const c = String(code || "").trim();
+  return origin ? `${origin}/signup/${encodeURIComponent(c)}` : `/signup/${encodeURIComponent(c)}`;
+}
+
 export function extractInviteCode(input: string): string {
   const v = String(input ?? "").trim();
   if (!v) return "";
@@ -0,0 +1,29 @@
+// Bridge to the Electron shell (preload.js). null in a normal browser.
+
+export type DesktopNotification = {
+  title: string;
+  body: string;
+  // passed back to onNotificationClick when the OS notification is clicked
+  notificationId?: string;
+  silent?: boolean;
+};
+
+export type DesktopBridge = {
+  platform: string;
+  notify: (opts: DesktopNotification) => void;
+  // taskbar / dock badge and the tray tooltip; 0 clears it
+  setBadgeCount: (count: number) => void;
+  // flashes the taskbar entry until the window is focused (ignored while focused)
+  flashFrame: (flag: boolean) => void;
+  // http(s) only; resolves false when refused
+  openExternal: (url: string) => Promise<boolean>;
+  onNotificationClick: (cb: (target: { notificationId: string }) => void) => () => void;
+};
+
+declare global {
+  interface Window {
+    yuiroomDesktop?: DesktopBridge;
+  }
+}
+
+export const desktop: DesktopBridge | null = typeof window !== "undefined" ? (window.yuiroomDesktop ?? null) : null;
@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from "react";
+import { api } from "../api";
+import type { AppNotification, NotificationKind } from "../api";
+import { realtime } from "../realtime";
+import { desktop } from "../desktop";
+import { useLatestRef } from "./useLatestRef";
+
+function snippet(text: string | undefined, max = 60) {
+  const t = String(text ?? "").trim();
+  return t.length > max ? `${t.slice(0, max)}…` : t;
+}
+
+// list badge of each kind
+export const NOTIFICATION_BADGES: Record<NotificationKind, { text: string; color: string }> = {
+  mention: { text: "@", color: "#faa61a" },
+  reply: { text: "返信", color: "#faa61a" },
+  keyword: { text: "★", color: "#faa61a" },
+  message: { text: "#", color: "#b9bbbe" },
+  dm: { text: "DM", color: "#3ba55c" },
+  friend_request: { text: "フレンド", color: "#3ba55c" },
+  room_join: { text: "参加", color: "#7289da" },
+};
+
+// Title / body of a notification for toasts and lists; the room name is left out for the room on screen.
+export function describeNotification(n: AppNotification, currentRoomId: string | null): { title: string; body: string } {
+  const m = n.meta;
+  const author = m.author || n.actorId || "";
+  const where =
+    (n.roomId && n.roomId === currentRoomId ? "" : `${m.roomName ?? ""} `) +
+    `#${m.channelName ?? ""}` +
+    (m.threadName ? ` › ${m.threadName}` : "");
+  const said = `${author}: ${snippet(m.content) || "(本文なし)"}`;
+  switch (n.kind) {
+    case "mention":
+      return { title: `${!m.mentionKind || m.mentionKind === "user" ? "@メンション" : `@${m.mentionKind}`} ${where}`, body: said };
+    case "reply":
+      return { title: `返信 ${where}`, body: said };
+    case "keyword":
+      return { title: `「${m.keyword ?? ""}」 ${where}`, body: said };
+    case "message":
+      return { title: where, body: said };
+    case "dm":
+      return { title: "DM", body: said };
+    case "friend_request":
+      return { title: "フレンド申請", body: `${author} からフレンド申請が届いたよ` };
+    case "room_join":
+      return { title: `${m.roomName ?? ""} に参加`, body: `${author} が参加したよ` };
+    default:
+      return { title: "通知", body: "" };
+  }
+}
+
+type Selection = { roomId: string | null; channelId: string | null; dmThreadId: string | null };
+
+function isOnScreen(n: AppNotification, sel: Selection, homeId: string) {
+  if (document.visibilityState !== "visible") return false;
+  if (n.kind === "dm") return sel.roomId === homeId && !!n.threadId && sel.dmThreadId === n.threadId;
+  // thread messages are in the side panel, which may be closed
+  return !!n.channelId && !n.threadId && sel.roomId === n.roomId && sel.channelId === n.channelId;
+}
+
+function withReadAt(items: AppNotification[], ids: string[] | "all") {
+  const now = new Date().toISOString();
+  return items.map((n) => (!n.readAt && (ids === "all" || ids.includes(n.id)) ? { ...n, readAt: now } : n));
+}
+
+// The server-side notification center (GET /notifications): toasts for new entries (plus OS notifications in the
+// desktop app while its window isn't focused), the unread count for the tab-title badge, and read / clear.
+// Room notifications are already filtered by my notification settings on the server; an entry for what's on
+// screen right now is marked read instead of toasting.
+export function useNotifications(args: {
+  authed: boolean;
+  currentUserId: string | null;
+  homeId: string;
+  selectedRoomId: string | null;
+  selectedChannelId: string | null;
+  selectedDmThreadId: string | null;
+  setToast: (msg: string | null) => void;
+}) {
+  const { authed, currentUserId, homeId, selectedRoomId, selectedChannelId, selectedDmThreadId, setToast } = args;
+
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const itemsRef = useLatestRef(items);
+  const selectionRef = useLatestRef<Selection>({ roomId: selectedRoomId, channelId: selectedChannelId, dmThreadId: selectedDmThreadId });
+  const setToastRef = useLatestRef(setToast);
+  const lastToastRef = useRef<{ key: string; at: number }>({ key: "", at: 0 });
+
+  useEffect(() => {
+    if (!authed || !currentUserId) {
+      setItems([]);
+      setHasMore(false);
+      setUnreadCount(0);
+      return;
+    }
+    let cancelled = false;
+    function load() {
+      // keep what's been paged in so far
+      const limit = Math.min(100, Math.max(30, itemsRef.current.length));
+      void api
+        .listNotifications({ limit })
+        .then((r) => {
+          if (cancelled) return;
+          setItems(r.items);
+          setHasMore(r.hasMore);
+          setUnreadCount(r.unreadCount);
+        })
+        .catch(() => {});
+    }
+    load();
+    const unsubHello = realtime.subscribeHello(load);
+    // read / cleared on another device, or settings changed what counts
+    const unsubChanged = realtime.subscribeNotificationsChanged(({ unreadCount }) => {
+      setUnreadCount(unreadCount);
+      load();
+    });
+    const unsubCreated = realtime.subscribeNotification((n) => {
+      if (isOnScreen(n, selectionRef.current, homeId)) {
+        setItems((prev) => (prev.some((x) => x.id === n.id) ? prev : [{ ...n, readAt: new Date().toISOString() }, ...prev]));
+        void api.markNotificationsRead([n.id]).catch(() => {});
+        return;
+      }
+      setItems((prev) => (prev.some((x) => x.id === n.id) ? prev : [n, ...prev]));
+      setUnreadCount((c) => c + 1);
+
+      const { title, body } = describeNotification(n, selectionRef.current.roomId);
+      const key = `${n.kind}:${n.messageId ?? n.id}`;
+      const now = Date.now();
+      if (lastToastRef.current.key === key && now - lastToastRef.current.at < 1500) return;
+      lastToastRef.current = { key, at: now };
+      setToastRef.current(`${title} — ${body}`);
+      // desktop app in the background: OS notification (a click opens it) and a flashing taskbar entry
+      if (desktop && !document.hasFocus()) {
+        desktop.notify({ title, body, notificationId: n.id });
+        desktop.flashFrame(true);
+      }
+    });
+    return () => {
+      cancelled = true;
+      unsubHello();
+      unsubChanged();
+      unsubCreated();
+    };
+  }, [authed, currentUserId, homeId, itemsRef, selectionRef, setToastRef]);
+
+  // opening a channel / DM (or coming back to the window) reads its notifications
+  useEffect(() => {
+    if (!authed) return;
+    function readOnScreen() {
+      const ids = itemsRef.current.filter((n) => !n.readAt && isOnScreen(n, selectionRef.current, homeId)).map((n) => n.id);
+      if (ids.length === 0) return;
+      setItems((prev) => withReadAt(prev, ids));
+      setUnreadCount((c) => Math.max(0, c - ids.length));
+      void api.markNotificationsRead(ids).catch(() => {});
+    }
+    readOnScreen();
+    document.addEventListener("visibilitychange", readOnScreen);
+    return () => document.removeEventListener("visibilitychange", readOnScreen);
+    // items: a notification for the channel on screen that came while the window was hidden
+  }, [authed, homeId, itemsRef, selectionRef, selectedRoomId, selectedChannelId, selectedDmThreadId, items]);
+
+  async function loadMore() {
+    const last = items[items.length - 1];
+    if (!last || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const r = await api.listNotifications({ before: last.created_at });
+      setItems((prev) => [...prev, ...r.items.filter((n) => !prev.some((x) => x.id === n.id))]);
+      setHasMore(r.hasMore);
+      setUnreadCount(r.unreadCount);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  async function markRead(ids: string[] | "all") {
+    if (ids !== "all" && !items.some((n) => ids.includes(n.id) && !n.readAt)) return;
+    setItems((prev) => withReadAt(prev, ids));
+    const r = await api.markNotificationsRead(ids);
+    setUnreadCount(r.unreadCount);
+  }
+
+  // ids, or everything (onlyRead keeps the unread ones)
+  async function clear(target: string[] | { onlyRead?: boolean } = {}) {
+    if (Array.isArray(target)) {
+      setItems((prev) => prev.filter((n) => !target.includes(n.id)));
+    } else {
+      setItems((prev) => (target.onlyRead ? prev.filter((n) => !n.readAt) : []));
+      if (!target.onlyRead) setHasMore(false);
+    }
+    const r = await api.clearNotifications(Array.isArray(target) ? target : { all: true, onlyRead: target.onlyRead });
+    setUnreadCount(r.unreadCount);
+  }
+
+  return { notifications: items, hasMore, unreadCount, loadingMore, loadMore, markRead, clear };
+}
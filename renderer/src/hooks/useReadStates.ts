@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { api } from "../api";
+import type { ChannelReadState } from "../api";
+import { realtime } from "../realtime";
+import { useLatestRef } from "./useLatestRef";
+
+// read position when the channel was opened: MessageArea draws the "new messages" divider after it
+export type ReadMarker = { channelId: string; lastReadMessageId: string | null; lastReadAt: string | null };
+
+type SetReadStates = React.Dispatch<React.SetStateAction<Record<string, ChannelReadState>>>;
+
+function emptyReadState(roomId: string, channelId: string): ChannelReadState {
+  return {
+    channelId,
+    roomId,
+    lastReadMessageId: null,
+    lastReadAt: null,
+    lastMessageAt: null,
+    unreadCount: 0,
+    mentionCount: 0,
+  };
+}
+
+function ackChannel(setReadStates: SetReadStates, channelId: string, messageId?: string) {
+  setReadStates((prev) => {
+    const cur = prev[channelId];
+    if (!cur || (cur.unreadCount === 0 && cur.mentionCount === 0)) return prev;
+    return { ...prev, [channelId]: { ...cur, unreadCount: 0, mentionCount: 0 } };
+  });
+  void api
+    .ackChannel(channelId, messageId)
+    .then((r) => {
+      const state = r.state;
+      if (state) setReadStates((prev) => ({ ...prev, [channelId]: state }));
+    })
+    .catch(() => {});
+}
+
+// Server-side read states (GET /read-states) kept in sync with acks from my other devices.
+// The selected channel is acked when opened and while new messages arrive, unless marked unread by hand.
+export function useReadStates(args: {
+  authed: boolean;
+  currentUserId: string | null;
+  selectedChannelId: string | null;
+  // changes when I join / leave rooms
+  roomIdsKey: string;
+}) {
+  const { authed, currentUserId, selectedChannelId, roomIdsKey } = args;
+
+  const [readStates, setReadStates] = useState<Record<string, ChannelReadState>>({});
+  const [readMarker, setReadMarker] = useState<ReadMarker | null>(null);
+  const readStatesRef = useLatestRef(readStates);
+  const selectedChannelIdRef = useLatestRef(selectedChannelId);
+  // channel marked unread from MessageArea: stays unread until it's opened again
+  const manualUnreadRef = useRef<string | null>(null);
+  const pendingAckRef = useRef<{ channelId: string; messageId: string; timer: number } | null>(null);
+
+  useEffect(() => {
+    if (!authed || !currentUserId) {
+      setReadStates({});
+      return;
+    }
+    let cancelled = false;
+    function load() {
+      void api
+        .getReadStates()
+        .then((r) => {
+          if (cancelled) return;
+          setReadStates(Object.fromEntries(r.channels.map((c) => [c.channelId, c])));
+        })
+        .catch(() => {});
+    }
+    load();
+    // counts may have moved while the socket was down
+    const unsubHello = realtime.subscribeHello(load);
+    const unsubState = realtime.subscribeReadState((state) => {
+      setReadStates((prev) => ({ ...prev, [state.channelId]: state }));
+    });
+    // comes for every room; the message itself is only seen for the current room's channels
+    const unsubMention = realtime.subscribeMention((m) => {
+      // thread messages don't count toward the channel
+      if (m.threadId) return;
+      const onScreen = selectedChannelIdRef.current === m.channelId && document.visibilityState === "visible";
+      if (onScreen && manualUnreadRef.current !== m.channelId) return;
+      setReadStates((prev) => {
+        const cur = prev[m.channelId] ?? emptyReadState(m.roomId, m.channelId);
+        // a mention added by editing a message I've already read
+        if (cur.lastReadAt && Date.parse(m.created_at) <= Date.parse(cur.lastReadAt)) return prev;
+        return {
+          ...prev,
+          [m.channelId]: { ...cur, unreadCount: Math.max(cur.unreadCount, 1), mentionCount: cur.mentionCount + 1 },
+        };
+      });
+    });
+    return () => {
+      cancelled = true;
+      unsubHello();
+      unsubState();
+      unsubMention();
+    };
+  }, [authed, currentUserId, roomIdsKey, selectedChannelIdRef]);
+
+  useEffect(() => {
+    manualUnreadRef.current = null;
+    if (!authed || !selectedChannelId) {
+      setReadMarker(null);
+      return;
+    }
+    const cur = readStatesRef.current[selectedChannelId];
+    setReadMarker({
+      channelId: selectedChannelId,
+      lastReadMessageId: cur?.lastReadMessageId ?? null,
+      lastReadAt: cur?.lastReadAt ?? null,
+    });
+    ackChannel(setReadStates, selectedChannelId);
+  }, [authed, selectedChannelId, readStatesRef]);
+
+  // coming back to a hidden tab / window reads the channel on screen
+  useEffect(() => {
+    if (!authed) return;
+    function onVisible() {
+      if (document.visibilityState !== "visible") return;
+      const channelId = selectedChannelIdRef.current;
+      if (!channelId || manualUnreadRef.current === channelId) return;
+      if ((readStatesRef.current[channelId]?.unreadCount ?? 0) > 0) ackChannel(setReadStates, channelId);
+    }
+    document.addEventListener("visibilitychange", onVisible);
+    window.addEventListener("focus", onVisible);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisible);
+      window.removeEventListener("focus", onVisible);
+    };
+  }, [authed, readStatesRef, selectedChannelIdRef]);
+
+  // a new message in one of the current room's channels (from the channel subscription); mentions come separately
+  function noteChannelMessage(roomId: string, channelId: string, msg: { id: string; authorId: string }) {
+    const mine = !!currentUserId && msg.authorId === currentUserId;
+    const onScreen = selectedChannelIdRef.current === channelId && document.visibilityState === "visible";
+    if (onScreen && manualUnreadRef.current !== channelId) {
+      // batch acks while a busy channel is open
+      const pending = pendingAckRef.current;
+      if (pending && pending.channelId === channelId) {
+        pending.messageId = msg.id;
+        return;
+      }
+      if (pending) window.clearTimeout(pending.timer);
+      const timer = window.setTimeout(() => {
+        const p = pendingAckRef.current;
+        pendingAckRef.current = null;
+        if (p) ackChannel(setReadStates, p.channelId, p.messageId);
+      }, 1000);
+      pendingAckRef.current = { channelId, messageId: msg.id, timer };
+      return;
+    }
+    if (mine) return;
+    setReadStates((prev) => {
+      const cur = prev[channelId] ?? emptyReadState(roomId, channelId);
+      return {
+        ...prev,
+        [channelId]: { ...cur, lastMessageAt: new Date().toISOString(), unreadCount: cur.unreadCount + 1 },
+      };
+    });
+  }
+
+  async function markUnread(channelId: string, messageId: string) {
+    manualUnreadRef.current = channelId;
+    const r = await api.markChannelUnread(channelId, messageId);
+    const state = r.state;
+    if (!state) return;
+    setReadStates((prev) => ({ ...prev, [channelId]: state }));
+    if (selectedChannelIdRef.current === channelId) {
+      setReadMarker({ channelId, lastReadMessageId: state.lastReadMessageId, lastReadAt: state.lastReadAt });
+    }
+  }
+
+  const unreadByChannelId = useMemo(() => {
+    const out: Record<string, boolean> = {};
+    for (const s of Object.values(readStates)) if (s.unreadCount > 0) out[s.channelId] = true;
+    return out;
+  }, [readStates]);
+
+  const mentionCountByChannelId = useMemo(() => {
+    const out: Record<string, number> = {};
+    for (const s of Object.values(readStates)) if (s.mentionCount > 0) out[s.channelId] = s.mentionCount;
+    return out;
+  }, [readStates]);
+
+  const unreadByRoomId = useMemo(() => {
+    const out: Record<string, { unread: boolean; mentions: number }> = {};
+    for (const s of Object.values(readStates)) {
+      if (s.unreadCount === 0) continue;
+      const room = (out[s.roomId] ??= { unread: false, mentions: 0 });
+      room.unread = true;
+      room.mentions += s.mentionCount;
+    }
+    return out;
+  }, [readStates]);
+
+  return {
+    readMarker,
+    unreadByChannelId,
+    mentionCountByChannelId,
+    unreadByRoomId,
+    noteChannelMessage,
+    markUnread,
+  };
+}
@@ -1,4 +1,5 @@
 import type { ReactNode } from "react";
+import { desktop } from "./desktop";
 
 const URL_RE = /\b((?:https?:\/\/|www\.)[^\s<]+)\b/gi;
 
@@ -244,6 +245,15 @@ export function renderTextWithLinksAndHighlights(text: string, query: string): R
         href={href}
         target="_blank"
         rel="noreferrer noopener"
+        onClick={
+          desktop
+            ? (e) => {
+                // desktop app: the default browser, not a new Electron window
+                e.preventDefault();
+                void desktop?.openExternal(href);
+              }
+            : undefined
+        }
         style={{ color: "#00a8fc", textDecoration: "underline", wordBreak: "break-all" }}
       >
         {url}
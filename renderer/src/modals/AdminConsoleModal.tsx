@@ -0,0 +1,798 @@
+import { useEffect, useState } from "react";
+import { Modal } from "../Modal";
+import { api } from "../api";
+import type { AdminUser, AdminUserFilter, AuditLog, RegistrationMode, RoomCreationPolicy, SignupInvite } from "../api";
+import { signupUrlFromCode } from "../app/appUtils";
+
+type AdminTab = "users" | "invites" | "settings" | "audit";
+
+type Props = {
+  currentUserId: string | null;
+  onClose: () => void;
+  // 自分の権限やRoom作成ポリシーが変わったとき（App側の表示を更新する）
+  onInstanceChanged: () => void;
+};
+
+const POLICY_OPTIONS: Array<{ value: RoomCreationPolicy; label: string; description: string }> = [
+  { value: "first_user", label: "最初のアカウントのみ", description: "最初に登録されたアカウントだけがRoomを作成できます（従来の動作）" },
+  { value: "admins", label: "管理者のみ", description: "インスタンス管理者だけがRoomを作成できます" },
+  { value: "allowlist", label: "許可リスト", description: "管理者と、ユーザー一覧で「Room作成を許可」したユーザーが作成できます" },
+  { value: "everyone", label: "全員", description: "ログインしている全員がRoomを作成できます" },
+];
+
+const REGISTRATION_OPTIONS: Array<{ value: RegistrationMode; label: string; description: string }> = [
+  { value: "open", label: "公開", description: "誰でも新規登録できます" },
+  { value: "invite", label: "招待制", description: "「招待」タブで発行した招待コードを持つ人だけが登録できます" },
+  { value: "closed", label: "停止", description: "新規登録を受け付けません（既存のアカウントはそのまま使えます）" },
+];
+
+const FILTER_OPTIONS: Array<{ value: AdminUserFilter; label: string }> = [
+  { value: "all", label: "すべて" },
+  { value: "admins", label: "管理者" },
+  { value: "suspended", label: "停止中" },
+  { value: "room_creators", label: "Room作成を許可" },
+];
+
+const PAGE_SIZE = 50;
+
+function errorText(e: unknown) {
+  const msg = e instanceof Error ? e.message : "";
+  if (msg === "target_is_admin") return "管理者には実行できません（先に管理者を解除してください）";
+  if (msg === "last_admin") return "最後の管理者は解除できません";
+  if (msg === "cannot_target_self") return "自分自身には実行できません";
+  if (msg === "target_suspended") return "停止中のユーザーは管理者にできません";
+  if (msg === "invite_not_found") return "招待コードが見つかりません（削除済みの可能性があります）";
+  return msg || "failed";
+}
+
+// インスタンス管理: ユーザー管理 / 新規登録の招待 / 登録モード・Room作成ポリシー / インスタンス全体の監査ログ（管理者のみ）
+export function AdminConsoleModal({ currentUserId, onClose, onInstanceChanged }: Props) {
+  const [tab, setTab] = useState<AdminTab>("users");
+
+  const tabStyle = (t: AdminTab) => ({
+    padding: "8px 12px",
+    borderRadius: 999,
+    border: "1px solid #40444b",
+    background: tab === t ? "#40444b" : "transparent",
+    color: "#dcddde",
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 900,
+  });
+
+  return (
+    <Modal
+      title="管理コンソール"
+      onClose={onClose}
+      maxWidth="640px"
+      footer={
+        <button onClick={onClose} style={smallButtonStyle}>
+          閉じる
+        </button>
+      }
+    >
+      <div style={{ display: "grid", gap: 14, color: "#dcddde" }}>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          <button type="button" onClick={() => setTab("users")} style={tabStyle("users")}>
+            ユーザー
+          </button>
+          <button type="button" onClick={() => setTab("invites")} style={tabStyle("invites")}>
+            招待
+          </button>
+          <button type="button" onClick={() => setTab("settings")} style={tabStyle("settings")}>
+            設定
+          </button>
+          <button type="button" onClick={() => setTab("audit")} style={tabStyle("audit")}>
+            監査ログ
+          </button>
+        </div>
+
+        {tab === "users" && <UsersSection currentUserId={currentUserId} onInstanceChanged={onInstanceChanged} />}
+        {tab === "invites" && <InvitesSection />}
+        {tab === "settings" && <SettingsSection onInstanceChanged={onInstanceChanged} />}
+        {tab === "audit" && <AuditSection />}
+      </div>
+    </Modal>
+  );
+}
+
+function UsersSection({ currentUserId, onInstanceChanged }: { currentUserId: string | null; onInstanceChanged: () => void }) {
+  const [query, setQuery] = useState("");
+  const [filter, setFilter] = useState<AdminUserFilter>("all");
+  const [users, setUsers] = useState<AdminUser[] | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+  const [issuedCode, setIssuedCode] = useState<{ userId: string; code: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .listAdminUsers({ limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setUsers(page.items);
+        setHasMore(page.hasMore);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(errorText(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function load(opts: { append: boolean; filter?: AdminUserFilter }) {
+    setBusy(true);
+    setError(null);
+    try {
+      const page = await api.listAdminUsers({
+        q: query.trim(),
+        filter: opts.filter ?? filter,
+        offset: opts.append ? (users?.length ?? 0) : 0,
+        limit: PAGE_SIZE,
+      });
+      setUsers((prev) => (opts.append ? [...(prev ?? []), ...page.items] : page.items));
+      setHasMore(page.hasMore);
+    } catch (e) {
+      setError(errorText(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // 1件ぶんの操作のあと、一覧のその行だけ取り直す
+  async function run(userId: string, action: () => Promise<unknown>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      const page = await api.listAdminUsers({ q: userId, limit: PAGE_SIZE });
+      const fresh = page.items.find((u) => u.userId === userId);
+      setUsers((prev) =>
+        (prev ?? []).flatMap((u) => (u.userId !== userId ? [u] : fresh ? [fresh] : []))
+      );
+      return true;
+    } catch (e) {
+      setError(errorText(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleAdmin(u: AdminUser) {
+    const self = u.userId === currentUserId;
+    const question = u.isAdmin
+      ? self
+        ? "自分の管理者権限を解除しますか？（管理コンソールを使えなくなります）"
+        : `${u.displayName} の管理者権限を解除しますか？`
+      : `${u.displayName} を管理者にしますか？（ユーザー管理やRoom作成ポリシーの変更ができるようになります）`;
+    if (!window.confirm(question)) return;
+    const ok = await run(u.userId, () => api.updateAdminUser(u.userId, { isAdmin: !u.isAdmin }));
+    if (ok && self) onInstanceChanged();
+  }
+
+  async function suspend(u: AdminUser) {
+    if (!window.confirm(`${u.displayName} を停止しますか？（すべての端末からログアウトされ、ログインできなくなります）`)) return;
+    if (await run(u.userId, () => api.suspendUser(u.userId, reason.trim()))) setReason("");
+  }
+
+  async function resetPasskeys(u: AdminUser) {
+    if (
+      !window.confirm(
+        `${u.displayName} のパスキーをすべて削除しますか？\nログアウトされ、今のリカバリーコードも使えなくなります。新しい1回限りのリカバリーコードを本人に渡してください。`
+      )
+    ) {
+      return;
+    }
+    let code = "";
+    const ok = await run(u.userId, async () => {
+      code = (await api.resetUserPasskeys(u.userId)).recoveryCode;
+    });
+    if (ok) setIssuedCode({ userId: u.userId, code });
+  }
+
+  async function remove(u: AdminUser) {
+    const rooms = u.ownedRooms > 0 ? `\n所有している ${u.ownedRooms} 個のRoomも削除されます。` : "";
+    if (!window.confirm(`${u.displayName} (${u.userId}) を削除しますか？メッセージなども含めて元に戻せません。${rooms}`)) return;
+    const ok = await run(u.userId, () => api.deleteUser(u.userId, { deleteOwnedRooms: u.ownedRooms > 0 }));
+    if (ok) setExpanded(null);
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          void load({ append: false });
+        }}
+        style={{ display: "flex", gap: 8 }}
+      >
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="ユーザーID / 表示名で検索"
+          style={{ flex: 1, minWidth: 0 }}
+        />
+        <select
+          value={filter}
+          onChange={(e) => {
+            const next = e.target.value as AdminUserFilter;
+            setFilter(next);
+            void load({ append: false, filter: next });
+          }}
+          style={{ ...smallButtonStyle, background: "#202225" }}
+        >
+          {FILTER_OPTIONS.map((f) => (
+            <option key={f.value} value={f.value}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+        <button type="submit" disabled={busy} style={smallButtonStyle}>
+          検索
+        </button>
+      </form>
+
+      {error && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>}
+
+      {issuedCode && (
+        <div
+          style={{
+            border: "1px solid #faa61a",
+            background: "#202225",
+            borderRadius: 10,
+            padding: "10px 12px",
+            display: "grid",
+            gap: 6,
+            fontSize: 12,
+          }}
+        >
+          <div>
+            {issuedCode.userId} の新しいリカバリーコード（1回限り・この画面を閉じると再表示できません）
+          </div>
+          <div style={{ fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace", fontSize: 15, userSelect: "all" }}>
+            {issuedCode.code}
+          </div>
+          <div style={{ color: "#8e9297" }}>本人がログイン画面の「パスキーを無くした場合」から、このコードで新しいパスキーを登録できます。</div>
+          <button onClick={() => setIssuedCode(null)} style={{ ...smallButtonStyle, justifySelf: "start" }}>
+            閉じる
+          </button>
+        </div>
+      )}
+
+      {users === null && !error ? (
+        <div style={{ fontSize: 12, color: "#8e9297" }}>読み込み中…</div>
+      ) : users?.length === 0 ? (
+        <div style={{ fontSize: 12, color: "#8e9297" }}>該当するユーザーはいません</div>
+      ) : (
+        <div className="darkScroll" style={{ display: "grid", gap: 6, maxHeight: 420, overflowY: "auto", paddingRight: 2 }}>
+          {(users ?? []).map((u) => {
+            const self = u.userId === currentUserId;
+            const open = expanded === u.userId;
+            return (
+              <div
+                key={u.userId}
+                style={{
+                  border: "1px solid #40444b",
+                  background: "#202225",
+                  borderRadius: 10,
+                  padding: "8px 10px",
+                  display: "grid",
+                  gap: 6,
+                }}
+              >
+                <button
+                  type="button"
+                  onClick={() => {
+                    setExpanded(open ? null : u.userId);
+                    setReason("");
+                  }}
+                  style={{
+                    all: "unset",
+                    cursor: "pointer",
+                    display: "grid",
+                    gap: 2,
+                  }}
+                >
+                  <div style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13, fontWeight: 900 }}>
+                    <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                      {u.displayName} ({u.userId})
+                    </span>
+                    {self && <span style={{ color: "#43b581", fontSize: 11 }}>自分</span>}
+                    {u.isAdmin && <span style={badgeStyle("#7289da")}>管理者</span>}
+                    {u.suspendedAt && <span style={badgeStyle("#ed4245")}>停止中</span>}
+                    {u.canCreateRooms && <span style={badgeStyle("#3ba55c")}>Room作成可</span>}
+                  </div>
+                  <div style={{ fontSize: 11, color: "#8e9297" }}>
+                    登録: {new Date(u.createdAt).toLocaleDateString()}
+                    {u.signupInvite ? `（招待 ${u.signupInvite}）` : ""} / 最終利用:{" "}
+                    {u.lastSeenAt ? new Date(u.lastSeenAt).toLocaleString() : "なし"} / パスキー {u.passkeys} / 所有Room{" "}
+                    {u.ownedRooms}
+                  </div>
+                  {u.suspendedAt && (
+                    <div style={{ fontSize: 11, color: "#ff7a7a" }}>
+                      停止: {new Date(u.suspendedAt).toLocaleString()}
+                      {u.suspendedReason ? `（${u.suspendedReason}）` : ""}
+                    </div>
+                  )}
+                </button>
+
+                {open && (
+                  <div style={{ display: "grid", gap: 8, borderTop: "1px solid #40444b", paddingTop: 8 }}>
+                    <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                      {(!u.suspendedAt || u.isAdmin) && (
+                        <button disabled={busy} onClick={() => void toggleAdmin(u)} style={smallButtonStyle}>
+                          {u.isAdmin ? "管理者を解除" : "管理者にする"}
+                        </button>
+                      )}
+                      {!u.isAdmin && (
+                        <button
+                          disabled={busy}
+                          onClick={() =>
+                            void run(u.userId, () => api.updateAdminUser(u.userId, { canCreateRooms: !u.canCreateRooms }))
+                          }
+                          style={smallButtonStyle}
+                        >
+                          {u.canCreateRooms ? "Room作成の許可を外す" : "Room作成を許可"}
+                        </button>
+                      )}
+                      {!self && !u.isAdmin && u.suspendedAt && (
+                        <button
+                          disabled={busy}
+                          onClick={() => void run(u.userId, () => api.unsuspendUser(u.userId))}
+                          style={smallButtonStyle}
+                        >
+                          停止を解除
+                        </button>
+                      )}
+                      {!self && !u.isAdmin && (
+                        <button disabled={busy} onClick={() => void resetPasskeys(u)} style={smallButtonStyle}>
+                          パスキーをリセット
+                        </button>
+                      )}
+                      {!self && !u.isAdmin && (
+                        <button
+                          disabled={busy}
+                          onClick={() => void remove(u)}
+                          style={{ ...smallButtonStyle, border: "none", background: "#ed4245", color: "#ffffff" }}
+                        >
+                          アカウントを削除
+                        </button>
+                      )}
+                    </div>
+                    {!self && !u.isAdmin && !u.suspendedAt && (
+                      <div style={{ display: "flex", gap: 6 }}>
+                        <input
+                          value={reason}
+                          onChange={(e) => setReason(e.target.value)}
+                          maxLength={200}
+                          placeholder="停止の理由（任意・監査ログに残ります）"
+                          style={{ flex: 1, minWidth: 0 }}
+                        />
+                        <button
+                          disabled={busy}
+                          onClick={() => void suspend(u)}
+                          style={{ ...smallButtonStyle, color: "#ff7a7a" }}
+                        >
+                          停止
+                        </button>
+                      </div>
+                    )}
+                    {u.isAdmin && !self && (
+                      <div style={{ fontSize: 11, color: "#8e9297" }}>
+                        管理者の停止・削除・パスキーのリセットは、管理者を解除してから行えます。
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {hasMore && (
+            <button disabled={busy} onClick={() => void load({ append: true })} style={smallButtonStyle}>
+              もっと見る
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InvitesSection() {
+  const [invites, setInvites] = useState<SignupInvite[] | null>(null);
+  const [maxUses, setMaxUses] = useState(1);
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .listSignupInvites()
+      .then((list) => {
+        if (!cancelled) setInvites(list);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(errorText(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setInvites(await api.listSignupInvites());
+    } catch (e) {
+      setError(errorText(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function copy(code: string) {
+    try {
+      await navigator.clipboard.writeText(signupUrlFromCode(code));
+      setToast("コピーしました");
+    } catch {
+      setToast("コピーできませんでした");
+    }
+  }
+
+  async function create() {
+    await run(async () => {
+      const created = await api.createSignupInvite({ maxUses, expiresInHours, note: note.trim() || undefined });
+      setNote("");
+      await copy(created.code);
+    });
+  }
+
+  async function remove(inv: SignupInvite) {
+    if (!window.confirm(`招待コード ${inv.code} を削除しますか？`)) return;
+    await run(() => api.deleteSignupInvite(inv.code));
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ fontSize: 12, color: "#8e9297" }}>
+        登録モードが「招待制」のとき、ここで発行した招待URL（またはコード）を持つ人だけが新規登録できます。
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          void create();
+        }}
+        style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", fontSize: 12 }}
+      >
+        <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+          使用回数
+          <select value={maxUses} onChange={(e) => setMaxUses(Number(e.target.value))} disabled={busy}>
+            {[1, 5, 10, 25, 100].map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+          期限
+          <select value={expiresInHours} onChange={(e) => setExpiresInHours(Number(e.target.value))} disabled={busy}>
+            <option value={1}>1時間</option>
+            <option value={24}>1日</option>
+            <option value={72}>3日</option>
+            <option value={168}>7日</option>
+            <option value={720}>30日</option>
+          </select>
+        </label>
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={100}
+          placeholder="メモ（任意・誰に渡したかなど）"
+          style={{ flex: 1, minWidth: 120 }}
+          disabled={busy}
+        />
+        <button type="submit" className="primary" disabled={busy}>
+          発行してコピー
+        </button>
+      </form>
+      {error && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>}
+      {toast && <div style={{ color: "#43b581", fontSize: 12 }}>{toast}</div>}
+      {invites === null && !error ? (
+        <div style={{ fontSize: 12, color: "#8e9297" }}>読み込み中…</div>
+      ) : invites?.length === 0 ? (
+        <div style={{ fontSize: 12, color: "#8e9297" }}>発行済みの招待はありません</div>
+      ) : (
+        <div className="darkScroll" style={{ display: "grid", gap: 6, maxHeight: 420, overflowY: "auto", paddingRight: 2 }}>
+          {(invites ?? []).map((inv) => {
+            const expired = new Date(inv.expiresAt).getTime() <= Date.now();
+            const maxed = inv.uses >= inv.maxUses;
+            return (
+              <div
+                key={inv.code}
+                style={{
+                  border: "1px solid #40444b",
+                  background: "#202225",
+                  borderRadius: 10,
+                  padding: "8px 10px",
+                  display: "grid",
+                  gap: 4,
+                  opacity: expired || maxed ? 0.6 : 1,
+                }}
+              >
+                <div style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13, fontWeight: 900 }}>
+                  <span
+                    style={{
+                      fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                      userSelect: "all",
+                    }}
+                  >
+                    {inv.code}
+                  </span>
+                  {expired && <span style={badgeStyle("#ed4245")}>期限切れ</span>}
+                  {!expired && maxed && <span style={badgeStyle("#4f545c")}>上限到達</span>}
+                </div>
+                <div style={{ fontSize: 11, color: "#8e9297" }}>
+                  使用 {inv.uses}/{inv.maxUses} / 期限: {new Date(inv.expiresAt).toLocaleString()} / 発行:{" "}
+                  {inv.createdByName ?? inv.createdBy ?? "削除済み"}
+                  {inv.note ? ` / ${inv.note}` : ""}
+                </div>
+                <div style={{ display: "flex", gap: 6 }}>
+                  <button disabled={busy} onClick={() => void copy(inv.code)} style={smallButtonStyle}>
+                    URLをコピー
+                  </button>
+                  <button disabled={busy} onClick={() => void remove(inv)} style={{ ...smallButtonStyle, color: "#ff7a7a" }}>
+                    削除
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SettingsSection({ onInstanceChanged }: { onInstanceChanged: () => void }) {
+  const [policy, setPolicy] = useState<RoomCreationPolicy | null>(null);
+  const [registration, setRegistration] = useState<RegistrationMode | null>(null);
+  const [saved, setSaved] = useState<{ policy: RoomCreationPolicy; registration: RegistrationMode } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .getInstanceSettings()
+      .then((s) => {
+        if (cancelled) return;
+        setPolicy(s.roomCreationPolicy);
+        setRegistration(s.registrationMode);
+        setSaved({ policy: s.roomCreationPolicy, registration: s.registrationMode });
+      })
+      .catch((e) => {
+        if (!cancelled) setError(errorText(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function save() {
+    if (!policy || !registration) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const s = await api.updateInstanceSettings({ roomCreationPolicy: policy, registrationMode: registration });
+      setPolicy(s.roomCreationPolicy);
+      setRegistration(s.registrationMode);
+      setSaved({ policy: s.roomCreationPolicy, registration: s.registrationMode });
+      onInstanceChanged();
+    } catch (e) {
+      setError(errorText(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!policy || !registration) {
+    return error ? (
+      <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>
+    ) : (
+      <div style={{ fontSize: 12, color: "#8e9297" }}>読み込み中…</div>
+    );
+  }
+
+  const dirty = policy !== saved?.policy || registration !== saved?.registration;
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div style={{ fontSize: 12, color: "#8e9297" }}>新規登録</div>
+      {REGISTRATION_OPTIONS.map((o) => (
+        <label key={o.value} style={{ display: "flex", gap: 8, alignItems: "flex-start", fontSize: 13, cursor: "pointer" }}>
+          <input
+            type="radio"
+            name="registrationMode"
+            checked={registration === o.value}
+            disabled={busy}
+            onChange={() => setRegistration(o.value)}
+          />
+          <span>
+            {o.label}
+            <div style={{ fontSize: 12, color: "#8e9297" }}>{o.description}</div>
+          </span>
+        </label>
+      ))}
+      <div style={{ fontSize: 12, color: "#8e9297", marginTop: 6 }}>Roomを作成できるユーザー</div>
+      {POLICY_OPTIONS.map((o) => (
+        <label key={o.value} style={{ display: "flex", gap: 8, alignItems: "flex-start", fontSize: 13, cursor: "pointer" }}>
+          <input
+            type="radio"
+            name="roomCreationPolicy"
+            checked={policy === o.value}
+            disabled={busy}
+            onChange={() => setPolicy(o.value)}
+          />
+          <span>
+            {o.label}
+            <div style={{ fontSize: 12, color: "#8e9297" }}>{o.description}</div>
+          </span>
+        </label>
+      ))}
+      {error && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>}
+      <button className="primary" onClick={() => void save()} disabled={busy || !dirty} style={{ justifySelf: "start" }}>
+        保存
+      </button>
+    </div>
+  );
+}
+
+function AuditSection() {
+  const [logs, setLogs] = useState<AuditLog[] | null>(null);
+  const [userFilter, setUserFilter] = useState("");
+  const [hasMore, setHasMore] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .listInstanceAudit({ limit: PAGE_SIZE })
+      .then((list) => {
+        if (cancelled) return;
+        setLogs(list);
+        setHasMore(list.length === PAGE_SIZE);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(errorText(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function load(append: boolean) {
+    setBusy(true);
+    setError(null);
+    try {
+      const before = append && logs?.length ? logs[logs.length - 1].created_at : undefined;
+      const list = await api.listInstanceAudit({ limit: PAGE_SIZE, before, userId: userFilter.trim() || undefined });
+      setLogs((prev) => (append ? [...(prev ?? []), ...list] : list));
+      setHasMore(list.length === PAGE_SIZE);
+    } catch (e) {
+      setError(errorText(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          void load(false);
+        }}
+        style={{ display: "flex", gap: 8 }}
+      >
+        <input
+          value={userFilter}
+          onChange={(e) => setUserFilter(e.target.value)}
+          placeholder="ユーザーIDで絞り込み（実行者 / 対象）"
+          style={{ flex: 1, minWidth: 0 }}
+        />
+        <button type="submit" disabled={busy} style={smallButtonStyle}>
+          更新
+        </button>
+      </form>
+      <div style={{ fontSize: 12, color: "#8e9297" }}>Roomに属さない操作（アカウント・ログイン・管理操作など）の記録です。</div>
+      {error && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>}
+      {logs === null && !error ? (
+        <div style={{ fontSize: 12, color: "#8e9297" }}>読み込み中…</div>
+      ) : logs?.length === 0 ? (
+        <div style={{ fontSize: 12, color: "#8e9297" }}>なし</div>
+      ) : (
+        <div className="darkScroll" style={{ display: "grid", gap: 6, maxHeight: 420, overflowY: "auto", paddingRight: 2 }}>
+          {(logs ?? []).map((l) => (
+            <div
+              key={l.id}
+              style={{
+                border: "1px solid #40444b",
+                background: "#202225",
+                borderRadius: 10,
+                padding: "8px 10px",
+                display: "grid",
+                gap: 4,
+              }}
+            >
+              <div style={{ display: "flex", justifyContent: "space-between", gap: 10, fontSize: 12 }}>
+                <div style={{ fontWeight: 900, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {l.actorDisplayName} ({l.actorId})
+                </div>
+                <div style={{ color: "#8e9297", flexShrink: 0 }}>{new Date(l.created_at).toLocaleString()}</div>
+              </div>
+              <div style={{ fontSize: 12, color: "#b9bbbe" }}>
+                {(() => {
+                  const meta = l.meta && typeof l.meta === "object" ? l.meta : null;
+                  const extra: string[] = [];
+                  if (meta?.name) extra.push(`name=${String(meta.name)}`);
+                  if (meta?.reason) extra.push(`reason=${String(meta.reason)}`);
+                  if (meta?.value) extra.push(`value=${String(meta.value)}`);
+                  if (meta?.previous) extra.push(`previous=${String(meta.previous)}`);
+                  if (typeof meta?.removed === "number") extra.push(`removed=${meta.removed}`);
+                  if (Array.isArray(meta?.rooms) && meta.rooms.length) extra.push(`rooms=${meta.rooms.length}`);
+                  if (meta?.inviteCode) extra.push(`invite=${String(meta.inviteCode)}`);
+                  if (typeof meta?.maxUses === "number") extra.push(`maxUses=${meta.maxUses}`);
+                  if (meta?.ip) extra.push(`ip=${String(meta.ip)}`);
+                  return `${l.action}${l.targetId ? ` (${l.targetId})` : ""}${extra.length ? ` - ${extra.join(" ")}` : ""}`;
+                })()}
+              </div>
+            </div>
+          ))}
+          {hasMore && (
+            <button disabled={busy} onClick={() => void load(true)} style={smallButtonStyle}>
+              もっと見る
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function badgeStyle(color: string) {
+  return {
+    padding: "1px 6px",
+    borderRadius: 999,
+    background: color,
+    color: "#ffffff",
+    fontSize: 10,
+    fontWeight: 900,
+    flexShrink: 0,
+  } as const;
+}
+
+const smallButtonStyle = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #40444b",
+  background: "transparent",
+  color: "#dcddde",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 800,
+} as const;
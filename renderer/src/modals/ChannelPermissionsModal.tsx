@@ -0,0 +1,415 @@
+import { useEffect, useState } from "react";
+import { Modal } from "../Modal";
+import { api } from "../api";
+import type {
+  ChannelOverride,
+  ChannelOverrideTarget,
+  ChannelPermission,
+  ChannelSettings,
+  ChannelType,
+  RoomMember,
+  RoomRole,
+} from "../api";
+
+const CHANNEL_PERMISSION_LABELS: Array<{ key: ChannelPermission; label: string }> = [
+  { key: "view_channel", label: "チャンネルを見る" },
+  { key: "send_messages", label: "メッセージを送信" },
+  { key: "attach_files", label: "ファイルを添付" },
+  { key: "add_reactions", label: "リアクションを追加" },
+  { key: "create_polls", label: "アンケートを作成" },
+];
+
+const SLOWMODE_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: "オフ" },
+  { value: 5, label: "5秒" },
+  { value: 10, label: "10秒" },
+  { value: 30, label: "30秒" },
+  { value: 60, label: "1分" },
+  { value: 300, label: "5分" },
+  { value: 900, label: "15分" },
+  { value: 3600, label: "1時間" },
+  { value: 21600, label: "6時間" },
+];
+
+const MAX_TOPIC_LENGTH = 1024;
+
+type UpdatedChannel = Awaited<ReturnType<typeof api.updateChannel>>;
+
+type Props = {
+  roomId: string;
+  channelId: string;
+  channelName: string;
+  // current settings from the room tree (null while the tree is loading)
+  channel: Partial<ChannelSettings> | null;
+  onChannelUpdated: (c: UpdatedChannel) => void;
+  onClose: () => void;
+};
+
+type Target = { targetType: ChannelOverrideTarget; targetId: string };
+
+function targetKey(t: Target) {
+  return `${t.targetType}:${t.targetId}`;
+}
+
+// チャンネルの設定（トピック・低速モード・お知らせ）と権限の上書き（manage_channels）。
+// 上書きは @everyone → ロール → メンバーの順に適用される
+export function ChannelPermissionsModal({ roomId, channelId, channelName, channel, onChannelUpdated, onClose }: Props) {
+  const [overrides, setOverrides] = useState<ChannelOverride[]>([]);
+  const [roles, setRoles] = useState<RoomRole[]>([]);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<Target>({ targetType: "everyone", targetId: "" });
+  const [draftAllow, setDraftAllow] = useState<ChannelPermission[]>([]);
+  const [draftDeny, setDraftDeny] = useState<ChannelPermission[]>([]);
+
+  const [topic, setTopic] = useState(channel?.topic ?? "");
+  const [slowmodeSeconds, setSlowmodeSeconds] = useState(channel?.slowmodeSeconds ?? 0);
+  const [channelType, setChannelType] = useState<ChannelType>(channel?.type ?? "text");
+  const [settingsSaved, setSettingsSaved] = useState(false);
+  const settingsDirty =
+    topic.trim() !== (channel?.topic ?? "") ||
+    slowmodeSeconds !== (channel?.slowmodeSeconds ?? 0) ||
+    channelType !== (channel?.type ?? "text");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    Promise.all([api.listChannelOverrides(roomId, channelId), api.listRoomRoles(roomId), api.listRoomMembers(roomId)])
+      .then(([list, roleList, memberList]) => {
+        if (cancelled) return;
+        setOverrides(list);
+        setRoles(roleList);
+        setMembers(memberList);
+        const everyone = list.find((o) => o.targetType === "everyone");
+        setDraftAllow(everyone?.allow ?? []);
+        setDraftDeny(everyone?.deny ?? []);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "failed");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, channelId]);
+
+  const everyone = overrides.find((o) => o.targetType === "everyone");
+  const isPrivate = !!everyone?.deny.includes("view_channel");
+  const targets: Array<Target & { label: string }> = [
+    { targetType: "everyone", targetId: "", label: "@everyone" },
+    ...overrides
+      .filter((o) => o.targetType !== "everyone")
+      .map((o) => ({
+        targetType: o.targetType,
+        targetId: o.targetId,
+        label: o.targetType === "role" ? `ロール: ${o.name ?? o.targetId}` : `${o.name ?? o.targetId} (${o.targetId})`,
+      })),
+  ];
+  const addableRoles = roles.filter((r) => !overrides.some((o) => o.targetType === "role" && o.targetId === r.id));
+  const addableMembers = members.filter(
+    (m) => !m.isOwner && !overrides.some((o) => o.targetType === "member" && o.targetId === m.userId)
+  );
+  const isSelectedListed = targets.some((t) => targetKey(t) === targetKey(selected));
+
+  function select(t: Target) {
+    const o = overrides.find((x) => targetKey(x) === targetKey(t));
+    setSelected({ targetType: t.targetType, targetId: t.targetId });
+    setDraftAllow(o?.allow ?? []);
+    setDraftDeny(o?.deny ?? []);
+    setError(null);
+  }
+
+  function setState(key: ChannelPermission, state: "allow" | "inherit" | "deny") {
+    setDraftAllow((prev) => (state === "allow" ? [...prev.filter((p) => p !== key), key] : prev.filter((p) => p !== key)));
+    setDraftDeny((prev) => (state === "deny" ? [...prev.filter((p) => p !== key), key] : prev.filter((p) => p !== key)));
+  }
+
+  async function apply(target: Target, allow: ChannelPermission[], deny: ChannelPermission[]) {
+    setBusy(true);
+    setError(null);
+    try {
+      await api.setChannelOverride(roomId, channelId, { ...target, allow, deny });
+      const list = await api.listChannelOverrides(roomId, channelId);
+      setOverrides(list);
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "failed");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveSettings() {
+    setBusy(true);
+    setError(null);
+    setSettingsSaved(false);
+    try {
+      const c = await api.updateChannel(roomId, channelId, { topic: topic.trim() || null, slowmodeSeconds, type: channelType });
+      onChannelUpdated(c);
+      setTopic(c.topic ?? "");
+      setSlowmodeSeconds(c.slowmodeSeconds);
+      setChannelType(c.type);
+      setSettingsSaved(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function togglePrivate(on: boolean) {
+    const allow = (everyone?.allow ?? []).filter((p) => p !== "view_channel");
+    const deny = (everyone?.deny ?? []).filter((p) => p !== "view_channel");
+    const ok = await apply({ targetType: "everyone", targetId: "" }, allow, on ? [...deny, "view_channel"] : deny);
+    if (ok && selected.targetType === "everyone") {
+      setDraftAllow(allow);
+      setDraftDeny(on ? [...deny, "view_channel"] : deny);
+    }
+  }
+
+  async function removeSelected() {
+    if (await apply(selected, [], [])) select({ targetType: "everyone", targetId: "" });
+  }
+
+  const selectedLabel =
+    targets.find((t) => targetKey(t) === targetKey(selected))?.label ??
+    (selected.targetType === "role"
+      ? `ロール: ${roles.find((r) => r.id === selected.targetId)?.name ?? selected.targetId}`
+      : `${members.find((m) => m.userId === selected.targetId)?.displayName ?? selected.targetId} (${selected.targetId})`);
+
+  return (
+    <Modal
+      title={`#${channelName} の設定`}
+      onClose={onClose}
+      maxWidth="560px"
+      footer={
+        <button onClick={onClose} style={smallButtonStyle}>
+          閉じる
+        </button>
+      }
+    >
+      {loading ? (
+        <div style={{ fontSize: 13, color: "#b9bbbe" }}>読み込み中…</div>
+      ) : (
+        <div style={{ display: "grid", gap: 12, color: "#dcddde" }}>
+          {error && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>}
+
+          <div style={{ display: "grid", gap: 8 }}>
+            <label style={{ display: "grid", gap: 4, fontSize: 13 }}>
+              トピック
+              <textarea
+                value={topic}
+                maxLength={MAX_TOPIC_LENGTH}
+                rows={2}
+                disabled={busy}
+                placeholder="チャンネルの説明（ヘッダーに表示されます）"
+                onChange={(e) => {
+                  setTopic(e.target.value);
+                  setSettingsSaved(false);
+                }}
+                style={{ resize: "vertical" }}
+              />
+            </label>
+            <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+              低速モード
+              <select
+                value={slowmodeSeconds}
+                disabled={busy}
+                onChange={(e) => {
+                  setSlowmodeSeconds(Number(e.target.value));
+                  setSettingsSaved(false);
+                }}
+                style={{ ...smallButtonStyle, background: "#202225" }}
+              >
+                {SLOWMODE_OPTIONS.some((o) => o.value === slowmodeSeconds) ? null : (
+                  <option value={slowmodeSeconds}>{slowmodeSeconds}秒</option>
+                )}
+                {SLOWMODE_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={{ display: "flex", gap: 8, alignItems: "flex-start", fontSize: 13 }}>
+              <input
+                type="checkbox"
+                checked={channelType === "announcement"}
+                disabled={busy}
+                onChange={(e) => {
+                  setChannelType(e.target.checked ? "announcement" : "text");
+                  setSettingsSaved(false);
+                }}
+              />
+              <span>
+                お知らせチャンネル
+                <div style={{ fontSize: 12, color: "#8e9297" }}>
+                  投稿できるのはオーナーと「お知らせチャンネルに投稿」権限を持つロールだけになります。
+                </div>
+              </span>
+            </label>
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <button className="primary" onClick={() => void saveSettings()} disabled={busy || !settingsDirty}>
+                設定を保存
+              </button>
+              {settingsSaved && <span style={{ fontSize: 12, color: "#3ba55c" }}>保存しました</span>}
+            </div>
+            <div style={{ fontSize: 12, color: "#8e9297" }}>
+              低速モード中は、メンバーごとに次の投稿まで待つ必要があります（チャンネル管理の権限を持つ人は対象外）。
+            </div>
+          </div>
+
+          <div style={{ borderTop: "1px solid #40444b" }} />
+
+          <label style={{ display: "flex", gap: 8, alignItems: "flex-start", fontSize: 13 }}>
+            <input
+              type="checkbox"
+              checked={isPrivate}
+              disabled={busy}
+              onChange={(e) => void togglePrivate(e.target.checked)}
+            />
+            <span>
+              プライベートチャンネル
+              <div style={{ fontSize: 12, color: "#8e9297" }}>
+                @everyone から「チャンネルを見る」を外します。見せたいロールやメンバーには下で許可してください。
+              </div>
+            </span>
+          </label>
+
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+            {targets.map((t) => (
+              <button
+                key={targetKey(t)}
+                type="button"
+                onClick={() => select(t)}
+                style={{
+                  ...smallButtonStyle,
+                  background: targetKey(t) === targetKey(selected) ? "#40444b" : "transparent",
+                }}
+              >
+                {t.label}
+              </button>
+            ))}
+            <select
+              value=""
+              disabled={busy || (addableRoles.length === 0 && addableMembers.length === 0)}
+              onChange={(e) => {
+                const [targetType, ...rest] = e.target.value.split(":");
+                if (targetType === "role" || targetType === "member") select({ targetType, targetId: rest.join(":") });
+              }}
+              style={{ ...smallButtonStyle, background: "#202225" }}
+            >
+              <option value="">＋ 追加</option>
+              {addableRoles.length > 0 && (
+                <optgroup label="ロール">
+                  {addableRoles.map((r) => (
+                    <option key={r.id} value={`role:${r.id}`}>
+                      {r.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              {addableMembers.length > 0 && (
+                <optgroup label="メンバー">
+                  {addableMembers.map((m) => (
+                    <option key={m.userId} value={`member:${m.userId}`}>
+                      {m.displayName} ({m.userId})
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+
+          <div
+            style={{
+              border: "1px solid #40444b",
+              background: "#202225",
+              borderRadius: 10,
+              padding: "10px 12px",
+              display: "grid",
+              gap: 8,
+            }}
+          >
+            <div style={{ fontSize: 13, fontWeight: 900 }}>{selectedLabel}</div>
+            {CHANNEL_PERMISSION_LABELS.map(({ key, label }) => {
+              const state = draftAllow.includes(key) ? "allow" : draftDeny.includes(key) ? "deny" : "inherit";
+              return (
+                <div key={key} style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+                  <div style={{ fontSize: 13 }}>{label}</div>
+                  <div style={{ display: "flex", gap: 4, flexShrink: 0 }}>
+                    {(
+                      [
+                        { value: "deny", text: "拒否", color: "#ed4245" },
+                        { value: "inherit", text: "既定", color: "#4f545c" },
+                        { value: "allow", text: "許可", color: "#3ba55c" },
+                      ] as const
+                    ).map((o) => (
+                      <button
+                        key={o.value}
+                        type="button"
+                        disabled={busy}
+                        onClick={() => setState(key, o.value)}
+                        style={{
+                          ...smallButtonStyle,
+                          padding: "4px 8px",
+                          border: state === o.value ? "none" : smallButtonStyle.border,
+                          background: state === o.value ? o.color : "transparent",
+                          color: state === o.value ? "#ffffff" : "#b9bbbe",
+                        }}
+                      >
+                        {o.text}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+            <div style={{ display: "flex", gap: 8 }}>
+              <button
+                className="primary"
+                onClick={() => void apply(selected, draftAllow, draftDeny)}
+                disabled={busy}
+                style={{ flex: 1 }}
+              >
+                保存
+              </button>
+              {selected.targetType !== "everyone" && isSelectedListed && (
+                <button
+                  onClick={() => void removeSelected()}
+                  disabled={busy}
+                  style={{ ...smallButtonStyle, border: "none", background: "#ed4245", color: "#ffffff" }}
+                >
+                  上書きを削除
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div style={{ fontSize: 12, color: "#8e9297", lineHeight: 1.5 }}>
+            「既定」は上書きしません。@everyone → ロール（複数なら合算）→ メンバーの順に適用され、後のものが優先されます。
+            Roomオーナーは常にすべて行えます。
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+const smallButtonStyle = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #40444b",
+  background: "transparent",
+  color: "#dcddde",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 800,
+} as const;
@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { Modal } from "../Modal";
+import { api } from "../api";
+import type { NotificationLevel, NotificationSetting, RoomTree } from "../api";
+
+type Props = {
+  // room whose settings are shown (null: keywords only, e.g. from Home)
+  tree: RoomTree | null;
+  onClose: () => void;
+};
+
+type Scope = { channelId: string | null };
+
+const LEVEL_LABELS: Record<NotificationLevel, string> = {
+  all: "すべてのメッセージ",
+  mentions: "メンションのみ",
+  nothing: "通知しない",
+};
+
+const MUTE_OPTIONS: Array<{ minutes: number; label: string }> = [
+  { minutes: 15, label: "15分" },
+  { minutes: 60, label: "1時間" },
+  { minutes: 8 * 60, label: "8時間" },
+  { minutes: 24 * 60, label: "24時間" },
+  { minutes: 7 * 24 * 60, label: "1週間" },
+];
+
+function errorText(e: unknown) {
+  const msg = e instanceof Error ? e.message : "";
+  if (msg === "keyword_too_long") return "キーワードは40文字までだよ";
+  if (msg === "keywords_too_many") return "キーワードは20個までだよ";
+  if (msg === "rate_limited") return "操作が多すぎるよ。少し待ってね";
+  if (msg === "forbidden" || msg === "not_member") return "このRoomの設定は変更できないよ";
+  return msg || "failed";
+}
+
+function isMuted(s: NotificationSetting | undefined) {
+  return !!s?.mutedUntil && Date.parse(s.mutedUntil) > Date.now();
+}
+
+// 通知設定: Room / チャンネルごとの通知レベルとミュート、ハイライトキーワード（全Room共通）
+export function NotificationSettingsModal({ tree, onClose }: Props) {
+  const [settings, setSettings] = useState<NotificationSetting[]>([]);
+  const [keywordsText, setKeywordsText] = useState("");
+  const [savedKeywords, setSavedKeywords] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [keywordsSaved, setKeywordsSaved] = useState(false);
+
+  const roomId = tree?.room.id ?? null;
+  const channels = tree ? [...tree.uncategorized, ...tree.categories.flatMap((c) => c.channels)] : [];
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .getNotificationSettings()
+      .then((r) => {
+        if (cancelled) return;
+        setSettings(r.settings);
+        setSavedKeywords(r.keywords);
+        setKeywordsText(r.keywords.join("\n"));
+      })
+      .catch((e) => {
+        if (!cancelled) setError(errorText(e));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function settingOf(scope: Scope) {
+    return settings.find((s) => s.roomId === roomId && s.channelId === scope.channelId);
+  }
+
+  async function save(scope: Scope, patch: Partial<Pick<NotificationSetting, "level" | "mutedUntil">>) {
+    if (!roomId) return;
+    const cur = settingOf(scope);
+    const next = {
+      level: patch.level !== undefined ? patch.level : (cur?.level ?? null),
+      mutedUntil: patch.mutedUntil !== undefined ? patch.mutedUntil : isMuted(cur) ? (cur?.mutedUntil ?? null) : null,
+    };
+    setBusy(true);
+    setError(null);
+    try {
+      const r = scope.channelId
+        ? await api.updateChannelNotificationSetting(scope.channelId, next)
+        : await api.updateRoomNotificationSetting(roomId, next);
+      setSettings((prev) => [
+        ...prev.filter((s) => !(s.roomId === roomId && s.channelId === scope.channelId)),
+        ...(r.setting.level || r.setting.mutedUntil ? [r.setting] : []),
+      ]);
+    } catch (e) {
+      setError(errorText(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveKeywords() {
+    const keywords = keywordsText
+      .split(/[\n,、]/)
+      .map((k) => k.trim())
+      .filter(Boolean);
+    setBusy(true);
+    setError(null);
+    setKeywordsSaved(false);
+    try {
+      const r = await api.updateHighlightKeywords(keywords);
+      setSavedKeywords(r.keywords);
+      setKeywordsText(r.keywords.join("\n"));
+      setKeywordsSaved(true);
+    } catch (e) {
+      setError(errorText(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function renderControls(scope: Scope, inherited: string) {
+    const s = settingOf(scope);
+    const muted = isMuted(s);
+    return (
+      <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+        <select
+          value={s?.level ?? ""}
+          disabled={busy}
+          onChange={(e) => void save(scope, { level: (e.target.value || null) as NotificationLevel | null })}
+          style={selectStyle}
+        >
+          <option value="">{inherited}</option>
+          {(Object.keys(LEVEL_LABELS) as NotificationLevel[]).map((level) => (
+            <option key={level} value={level}>
+              {LEVEL_LABELS[level]}
+            </option>
+          ))}
+        </select>
+        {muted ? (
+          <button type="button" disabled={busy} onClick={() => void save(scope, { mutedUntil: null })} style={smallButtonStyle}>
+            🔕 {new Date(s?.mutedUntil ?? "").toLocaleString([], { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" })}
+            までミュート中（解除）
+          </button>
+        ) : (
+          <select
+            value=""
+            disabled={busy}
+            onChange={(e) => {
+              const minutes = Number(e.target.value);
+              if (minutes > 0) void save(scope, { mutedUntil: new Date(Date.now() + minutes * 60_000).toISOString() });
+            }}
+            style={selectStyle}
+          >
+            <option value="">ミュート…</option>
+            {MUTE_OPTIONS.map((o) => (
+              <option key={o.minutes} value={o.minutes}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  }
+
+  const roomLevel = settingOf({ channelId: null })?.level ?? "mentions";
+
+  return (
+    <Modal
+      title="通知設定"
+      onClose={onClose}
+      maxWidth="min(600px, 100%)"
+      footer={
+        <button type="button" onClick={onClose} style={smallButtonStyle}>
+          閉じる
+        </button>
+      }
+    >
+      <div style={{ display: "grid", gap: 16, color: "#dcddde" }}>
+        {error && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>}
+        {loading ? (
+          <div style={{ color: "#8e9297", fontSize: 12 }}>読み込み中…</div>
+        ) : (
+          <>
+            {tree && (
+              <section style={{ display: "grid", gap: 8 }}>
+                <div style={{ fontWeight: 900 }}>{tree.room.name}</div>
+                <div style={{ fontSize: 12, color: "#8e9297" }}>
+                  「メンションのみ」では @メンション・返信・キーワードだけを通知するよ。ミュート中と「通知しない」はトーストもタブの未読数も出ないよ。
+                </div>
+                {renderControls({ channelId: null }, "既定（メンションのみ）")}
+                {channels.length > 0 && (
+                  <div className="darkScroll" style={{ display: "grid", gap: 6, maxHeight: 280, overflowY: "auto", paddingRight: 2 }}>
+                    {channels.map((ch) => (
+                      <div
+                        key={ch.id}
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: 8,
+                          border: "1px solid #40444b",
+                          borderRadius: 10,
+                          padding: "6px 10px",
+                          flexWrap: "wrap",
+                        }}
+                      >
+                        <div style={{ flex: 1, minWidth: 120, fontSize: 13, fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                          #{ch.name}
+                        </div>
+                        {renderControls({ channelId: ch.id }, `Roomに従う（${LEVEL_LABELS[roomLevel]}）`)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+            )}
+
+            <section style={{ display: "grid", gap: 8 }}>
+              <div style={{ fontWeight: 900 }}>ハイライトキーワード</div>
+              <div style={{ fontSize: 12, color: "#8e9297" }}>
+                どのRoomでも、この言葉を含むメッセージをメンションと同じように通知するよ（1行に1つ、大文字小文字は区別しない、20個まで）
+              </div>
+              <textarea
+                value={keywordsText}
+                onChange={(e) => {
+                  setKeywordsText(e.target.value);
+                  setKeywordsSaved(false);
+                }}
+                rows={4}
+                disabled={busy}
+                style={{
+                  width: "100%",
+                  boxSizing: "border-box",
+                  padding: "8px 10px",
+                  borderRadius: 8,
+                  border: "1px solid #40444b",
+                  background: "#202225",
+                  color: "#dcddde",
+                  fontSize: 13,
+                  resize: "vertical",
+                }}
+              />
+              <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <button
+                  type="button"
+                  onClick={() => void saveKeywords()}
+                  disabled={busy || keywordsText.trim() === savedKeywords.join("\n")}
+                  style={{ ...smallButtonStyle, border: "none", background: "#7289da", color: "#ffffff" }}
+                >
+                  保存
+                </button>
+                {keywordsSaved && <span style={{ fontSize: 12, color: "#3ba55c" }}>保存したよ</span>}
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+const smallButtonStyle = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #40444b",
+  background: "transparent",
+  color: "#dcddde",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 800,
+} as const;
+
+const selectStyle = { ...smallButtonStyle, background: "#202225" } as const;
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { Modal } from "../Modal";
+import type { AppNotification } from "../api";
+import { describeNotification, NOTIFICATION_BADGES } from "../hooks/useNotifications";
+
+type Props = {
+  notifications: AppNotification[];
+  // room on screen: its name is left out of the titles
+  currentRoomId: string | null;
+  unreadCount: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => Promise<void>;
+  onOpen: (id: string) => void;
+  onMarkRead: (ids: string[] | "all") => Promise<void>;
+  onClear: (target: string[] | { onlyRead?: boolean }) => Promise<void>;
+  onOpenSettings: () => void;
+  onClose: () => void;
+};
+
+function errorText(e: unknown) {
+  const msg = e instanceof Error ? e.message : "";
+  if (msg === "rate_limited") return "操作が多すぎるよ。少し待ってね";
+  return msg || "failed";
+}
+
+// Notification center: every notification kept on the server, with paging and bulk read / clear.
+export function NotificationsModal({
+  notifications,
+  currentRoomId,
+  unreadCount,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  onOpen,
+  onMarkRead,
+  onClear,
+  onOpenSettings,
+  onClose,
+}: Props) {
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const shown = unreadOnly ? notifications.filter((n) => !n.readAt) : notifications;
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(errorText(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal
+      title={unreadCount > 0 ? `通知（未読 ${unreadCount}）` : "通知"}
+      onClose={onClose}
+      maxWidth="min(600px, 100%)"
+      footer={
+        <>
+          <button
+            type="button"
+            onClick={() => void run(() => onClear({ onlyRead: true }))}
+            disabled={busy || !notifications.some((n) => n.readAt)}
+            style={smallButtonStyle}
+          >
+            既読を削除
+          </button>
+          <button
+            type="button"
+            onClick={() => void run(() => onClear({}))}
+            disabled={busy || notifications.length === 0}
+            style={smallButtonStyle}
+          >
+            すべて削除
+          </button>
+          <button
+            type="button"
+            onClick={() => void run(() => onMarkRead("all"))}
+            disabled={busy || unreadCount === 0}
+            style={{ ...smallButtonStyle, border: "none", background: "#7289da", color: "#ffffff" }}
+          >
+            すべて既読
+          </button>
+        </>
+      }
+    >
+      <div style={{ display: "grid", gap: 10, color: "#dcddde" }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+          <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 12, color: "#b9bbbe", cursor: "pointer" }}>
+            <input type="checkbox" checked={unreadOnly} onChange={(e) => setUnreadOnly(e.target.checked)} />
+            未読のみ
+          </label>
+          <button type="button" onClick={onOpenSettings} style={{ ...smallButtonStyle, marginLeft: "auto" }}>
+            通知設定
+          </button>
+        </div>
+        {error && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>}
+        {shown.length === 0 && !hasMore ? (
+          <div style={{ color: "#8e9297", fontSize: 12 }}>なし</div>
+        ) : (
+          <div className="darkScroll" style={{ display: "grid", gap: 6, maxHeight: 460, overflowY: "auto", paddingRight: 2 }}>
+            {shown.map((n) => {
+              const { title, body } = describeNotification(n, currentRoomId);
+              const badge = NOTIFICATION_BADGES[n.kind] ?? { text: "?", color: "#b9bbbe" };
+              return (
+                <div
+                  key={n.id}
+                  style={{
+                    border: "1px solid #40444b",
+                    background: n.readAt ? "#2f3136" : "#202225",
+                    borderRadius: 10,
+                    padding: "8px 10px",
+                    display: "grid",
+                    gap: 4,
+                    opacity: n.readAt ? 0.75 : 1,
+                  }}
+                >
+                  <div style={{ display: "flex", alignItems: "center", gap: 8, minWidth: 0, fontSize: 12 }}>
+                    <span style={{ ...badgeStyle, background: badge.color }}>{badge.text}</span>
+                    <button
+                      type="button"
+                      onClick={() => onOpen(n.id)}
+                      style={{
+                        border: "none",
+                        background: "transparent",
+                        color: "#ffffff",
+                        cursor: "pointer",
+                        padding: 0,
+                        fontSize: 12,
+                        fontWeight: 900,
+                        textAlign: "left",
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                        whiteSpace: "nowrap",
+                        minWidth: 0,
+                      }}
+                      title="開く"
+                    >
+                      {title}
+                    </button>
+                    <span style={{ marginLeft: "auto", color: "#8e9297", flexShrink: 0 }}>
+                      {new Date(n.created_at).toLocaleString([], { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" })}
+                    </span>
+                  </div>
+                  <div style={{ fontSize: 12, color: "#b9bbbe", whiteSpace: "pre-wrap", overflowWrap: "anywhere" }}>{body}</div>
+                  <div style={{ display: "flex", gap: 10 }}>
+                    {!n.readAt && (
+                      <button type="button" onClick={() => void run(() => onMarkRead([n.id]))} disabled={busy} style={linkButtonStyle}>
+                        既読にする
+                      </button>
+                    )}
+                    <button type="button" onClick={() => void run(() => onClear([n.id]))} disabled={busy} style={linkButtonStyle}>
+                      削除
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            {loadingMore && <div style={{ fontSize: 12, opacity: 0.8 }}>読み込み中…</div>}
+            {hasMore && !loadingMore && (
+              <button
+                type="button"
+                onClick={() => void run(onLoadMore)}
+                style={{ ...linkButtonStyle, color: "#7289da", justifySelf: "center" }}
+              >
+                もっと見る
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+const badgeStyle = {
+  display: "inline-flex",
+  alignItems: "center",
+  justifyContent: "center",
+  minWidth: 18,
+  height: 18,
+  padding: "0 6px",
+  borderRadius: 999,
+  color: "#111",
+  fontSize: 11,
+  fontWeight: 900,
+  flexShrink: 0,
+} as const;
+
+const smallButtonStyle = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #40444b",
+  background: "transparent",
+  color: "#dcddde",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 800,
+} as const;
+
+const linkButtonStyle = {
+  border: "none",
+  background: "transparent",
+  color: "#8e9297",
+  cursor: "pointer",
+  fontSize: 12,
+  padding: 0,
+  fontWeight: 800,
+} as const;
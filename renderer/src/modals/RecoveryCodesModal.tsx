@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Modal } from "../Modal";
+
+type Props = {
+  open: boolean;
+  codes: string[];
+  onClose: () => void;
+};
+
+// 発行直後のリカバリーコードを一度だけ表示する（サーバーにはハッシュしか残らない）
+export function RecoveryCodesModal({ open, codes, onClose }: Props) {
+  const [copied, setCopied] = useState(false);
+
+  if (!open) return null;
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      setCopied(true);
+    } catch {
+      // ignore
+    }
+  }
+
+  function download() {
+    const blob = new Blob([`YuiRoom リカバリーコード\n\n${codes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "yuiroom-recovery-codes.txt";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <Modal
+      title="リカバリーコード"
+      onClose={onClose}
+      footer={
+        <button
+          onClick={onClose}
+          style={{
+            padding: "10px 12px",
+            borderRadius: 8,
+            border: "none",
+            background: "#7289da",
+            color: "#ffffff",
+            cursor: "pointer",
+            fontSize: 13,
+            fontWeight: 800,
+          }}
+        >
+          保管しました
+        </button>
+      }
+    >
+      <div style={{ display: "grid", gap: 10, fontSize: 13, color: "#dcddde" }}>
+        <div style={{ lineHeight: 1.5 }}>
+          パスキーをすべて無くしたときは、このコードで新しいパスキーを登録できます。
+          <br />
+          各コードは1回だけ使えます。この画面を閉じると二度と表示されないので、安全な場所に保管してください。
+        </div>
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(2, minmax(0, 1fr))",
+            gap: 6,
+            padding: 10,
+            borderRadius: 8,
+            border: "1px solid #40444b",
+            background: "#202225",
+            fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+            fontSize: 14,
+            userSelect: "all",
+          }}
+        >
+          {codes.map((c) => (
+            <div key={c}>{c}</div>
+          ))}
+        </div>
+        <div style={{ display: "flex", gap: 8 }}>
+          {[
+            { label: copied ? "コピーしました" : "コピー", onClick: () => void copy() },
+            { label: "テキストで保存", onClick: download },
+          ].map((b) => (
+            <button
+              key={b.label}
+              onClick={b.onClick}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 8,
+                border: "1px solid #40444b",
+                background: "transparent",
+                color: "#dcddde",
+                cursor: "pointer",
+                fontSize: 13,
+              }}
+            >
+              {b.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,10 +1,25 @@
+import { useState } from "react";
+import { startAuthentication } from "@simplewebauthn/browser";
 import { Modal } from "../Modal";
 import { api } from "../api";
-import type { AuditLog, RoomInvite, RoomMember } from "../api";
+import type { AuditLog, RoomInvite, RoomMember, RoomPermission, RoomRole } from "../api";
 
-export type RoomSettingsTab = "members" | "invites" | "audit" | "danger";
+export type RoomSettingsTab = "members" | "roles" | "invites" | "audit" | "danger";
 
-type InviteModalState = { roomId: string; roomName: string; isOwner: boolean };
+type InviteModalState = { roomId: string; roomName: string; isOwner: boolean; permissions: RoomPermission[] };
+
+const PERMISSION_LABELS: Array<{ key: RoomPermission; label: string }> = [
+  { key: "manage_channels", label: "チャンネルの管理（作成・削除）" },
+  { key: "manage_invites", label: "招待URLの管理" },
+  { key: "ban_members", label: "BAN / BAN解除" },
+  { key: "kick_members", label: "メンバーを外す" },
+  { key: "delete_messages", label: "他の人のメッセージを削除" },
+  { key: "view_audit_log", label: "監査ログの閲覧" },
+  { key: "manage_stickers", label: "Roomスタンプの管理（他の人のものも削除）" },
+  { key: "mention_everyone", label: "@everyone / @here でメンション" },
+  { key: "post_announcements", label: "お知らせチャンネルに投稿" },
+  { key: "pin_messages", label: "メッセージのピン留め" },
+];
 
 type Props = {
   open: boolean;
@@ -21,6 +36,8 @@ type Props = {
   currentUserId: string | null;
 
   members: RoomMember[];
+  roles: RoomRole[];
+  onRolesChanged: () => void;
   invites: RoomInvite[];
   auditLogs: AuditLog[];
 
@@ -47,6 +64,8 @@ export function RoomSettingsModal({
   auditError,
   currentUserId,
   members,
+  roles,
+  onRolesChanged,
   invites,
   auditLogs,
   inviteUrlFromCode,
@@ -61,79 +80,60 @@ export function RoomSettingsModal({
 }: Props) {
   if (!open || !inviteModal) return null;
 
+  const can = (p: RoomPermission) => inviteModal.permissions.includes(p);
+  const roleNameById = new Map(roles.map((r) => [r.id, r.name]));
+  const tabStyle = (tab: RoomSettingsTab) => ({
+    padding: "8px 12px",
+    borderRadius: 999,
+    border: "1px solid #40444b",
+    background: roomSettingsTab === tab ? "#40444b" : "transparent",
+    color: "#dcddde",
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 900,
+  });
+
   return (
     <Modal title={`Room設定（${inviteModal.roomName}）`} onClose={onClose}>
       <div style={{ display: "grid", gap: 14, color: "#dcddde" }}>
         {inviteError && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{inviteError}</div>}
 
         <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-          <button
-            type="button"
-            onClick={() => setRoomSettingsTab("members")}
-            style={{
-              padding: "8px 12px",
-              borderRadius: 999,
-              border: "1px solid #40444b",
-              background: roomSettingsTab === "members" ? "#40444b" : "transparent",
-              color: "#dcddde",
-              cursor: "pointer",
-              fontSize: 12,
-              fontWeight: 900,
-            }}
-          >
+          <button type="button" onClick={() => setRoomSettingsTab("members")} style={tabStyle("members")}>
             メンバー
           </button>
           {inviteModal.isOwner && (
-            <>
-              <button
-                type="button"
-                onClick={() => setRoomSettingsTab("invites")}
-                style={{
-                  padding: "8px 12px",
-                  borderRadius: 999,
-                  border: "1px solid #40444b",
-                  background: roomSettingsTab === "invites" ? "#40444b" : "transparent",
-                  color: "#dcddde",
-                  cursor: "pointer",
-                  fontSize: 12,
-                  fontWeight: 900,
-                }}
-              >
-                招待
-              </button>
-              <button
-                type="button"
-                onClick={() => setRoomSettingsTab("audit")}
-                style={{
-                  padding: "8px 12px",
-                  borderRadius: 999,
-                  border: "1px solid #40444b",
-                  background: roomSettingsTab === "audit" ? "#40444b" : "transparent",
-                  color: "#dcddde",
-                  cursor: "pointer",
-                  fontSize: 12,
-                  fontWeight: 900,
-                }}
-              >
-                監査ログ
-              </button>
-              <button
-                type="button"
-                onClick={() => setRoomSettingsTab("danger")}
-                style={{
-                  padding: "8px 12px",
-                  borderRadius: 999,
-                  border: "1px solid rgba(237,66,69,0.55)",
-                  background: roomSettingsTab === "danger" ? "rgba(237,66,69,0.18)" : "transparent",
-                  color: "#ff7a7a",
-                  cursor: "pointer",
-                  fontSize: 12,
-                  fontWeight: 900,
-                }}
-              >
-                危険
-              </button>
-            </>
+            <button type="button" onClick={() => setRoomSettingsTab("roles")} style={tabStyle("roles")}>
+              ロール
+            </button>
+          )}
+          {can("manage_invites") && (
+            <button type="button" onClick={() => setRoomSettingsTab("invites")} style={tabStyle("invites")}>
+              招待
+            </button>
+          )}
+          {can("view_audit_log") && (
+            <button type="button" onClick={() => setRoomSettingsTab("audit")} style={tabStyle("audit")}>
+              監査ログ
+            </button>
+          )}
+          {inviteModal.isOwner && (
+            <button
+              type="button"
+              onClick={() => setRoomSettingsTab("danger")}
+              style={{
+                padding: "8px 12px",
+                borderRadius: 999,
+                border: "1px solid rgba(237,66,69,0.55)",
+                background: roomSettingsTab === "danger" ? "rgba(237,66,69,0.18)" : "transparent",
+                color: "#ff7a7a",
+                cursor: "pointer",
+                fontSize: 12,
+                fontWeight: 900,
+              }}
+            >
+              危険
+            </button>
           )}
         </div>
 
@@ -187,11 +187,20 @@ export function RoomSettingsModal({
                         <div style={{ fontSize: 11, color: "#8e9297", fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace" }}>
                           {m.userId}
                         </div>
+                        {(m.roleIds ?? []).length > 0 && (
+                          <div style={{ display: "flex", gap: 4, flexWrap: "wrap", marginTop: 4 }}>
+                            {(m.roleIds ?? []).map((id) => (
+                              <span key={id} style={roleChipStyle}>
+                                {roleNameById.get(id) ?? id}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
 
                     <div style={{ marginLeft: "auto", display: "flex", gap: 8, alignItems: "center" }}>
-                      {inviteModal.isOwner && m.userId !== currentUserId && (
+                      {can("ban_members") && m.userId !== currentUserId && !m.isOwner && (
                         <button
                           onClick={() => onBanFromMemberList(m.userId)}
                           disabled={inviteBusy}
@@ -211,7 +220,7 @@ export function RoomSettingsModal({
                           BAN
                         </button>
                       )}
-                      {inviteModal.isOwner && m.userId !== currentUserId && !m.isOwner && (
+                      {can("kick_members") && m.userId !== currentUserId && !m.isOwner && (
                         <button
                           onClick={() => onKickMember(m.userId)}
                           disabled={inviteBusy}
@@ -255,10 +264,25 @@ export function RoomSettingsModal({
                 退出する
               </button>
             )}
+            {inviteModal.isOwner && (
+              <div style={{ fontSize: 12, color: "#8e9297" }}>
+                オーナーは退出できません。「危険」タブでオーナーを移譲すると退出できます。
+              </div>
+            )}
           </>
         )}
 
-        {inviteModal.isOwner && roomSettingsTab === "invites" && (
+        {inviteModal.isOwner && roomSettingsTab === "roles" && (
+          <RolesSection
+            roomId={inviteModal.roomId}
+            roles={roles}
+            members={members}
+            onChanged={onRolesChanged}
+            setToast={setToast}
+          />
+        )}
+
+        {can("manage_invites") && roomSettingsTab === "invites" && (
           <>
             <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
               <button className="primary" onClick={onCreateInvite} disabled={inviteBusy} style={{ width: "100%" }}>
@@ -372,7 +396,7 @@ export function RoomSettingsModal({
           </>
         )}
 
-        {inviteModal.isOwner && roomSettingsTab === "audit" && (
+        {can("view_audit_log") && roomSettingsTab === "audit" && (
           <>
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
               <div style={{ fontSize: 12, color: "#b9bbbe" }}>監査ログ</div>
@@ -459,6 +483,11 @@ export function RoomSettingsModal({
                         if (meta?.inviteCode) extra.push(`code=${String(meta.inviteCode)}`);
                         if (meta?.channelId) extra.push(`channel=${String(meta.channelId)}`);
                         if (meta?.byOwner) extra.push("byOwner");
+                        if (meta?.byModerator) extra.push("byModerator");
+                        if (Array.isArray(meta?.permissions)) extra.push(`permissions=${meta.permissions.join(",") || "-"}`);
+                        if (meta?.overrideType) extra.push(`target=${String(meta.overrideType)}${meta.overrideId ? `:${String(meta.overrideId)}` : ""}`);
+                        if (Array.isArray(meta?.allow)) extra.push(`allow=${meta.allow.join(",") || "-"}`);
+                        if (Array.isArray(meta?.deny)) extra.push(`deny=${meta.deny.join(",") || "-"}`);
                         return `${label}${l.targetId ? ` (${l.targetId})` : ""}${extra.length ? ` - ${extra.join(" ")}` : ""}`;
                       })()}
                     </div>
@@ -471,6 +500,7 @@ export function RoomSettingsModal({
 
         {inviteModal.isOwner && roomSettingsTab === "danger" && (
           <>
+            <TransferOwnershipSection roomId={inviteModal.roomId} members={members} setToast={setToast} />
             <div style={{ fontSize: 12, color: "#b9bbbe" }}>危険</div>
             <button
               onClick={onDeleteRoom}
@@ -497,3 +527,282 @@ export function RoomSettingsModal({
   );
 }
 
+const roleChipStyle = {
+  padding: "1px 6px",
+  borderRadius: 999,
+  border: "1px solid #40444b",
+  background: "#2f3136",
+  color: "#b9bbbe",
+  fontSize: 10,
+  fontWeight: 800,
+} as const;
+
+const smallButtonStyle = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #40444b",
+  background: "transparent",
+  color: "#dcddde",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 800,
+} as const;
+
+// ロールの作成・編集・削除とメンバーへの割り当て（Roomオーナーのみ）
+function RolesSection({
+  roomId,
+  roles,
+  members,
+  onChanged,
+  setToast,
+}: {
+  roomId: string;
+  roles: RoomRole[];
+  members: RoomMember[];
+  onChanged: () => void;
+  setToast: (msg: string | null) => void;
+}) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [draftPermissions, setDraftPermissions] = useState<RoomPermission[]>([]);
+  const [newName, setNewName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = roles.find((r) => r.id === selectedId) ?? null;
+  const assignable = members.filter((m) => !m.isOwner);
+
+  function select(role: RoomRole) {
+    setSelectedId(role.id);
+    setDraftName(role.name);
+    setDraftPermissions(role.permissions);
+    setError(null);
+  }
+
+  async function run(action: () => Promise<unknown>, done?: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      onChanged();
+      if (done) setToast(done);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function create() {
+    const name = newName.trim();
+    if (!name) return;
+    await run(async () => {
+      const role = await api.createRoomRole(roomId, name, []);
+      setNewName("");
+      select(role);
+    }, "ロールを作成しました");
+  }
+
+  async function save() {
+    if (!selected) return;
+    await run(
+      () => api.updateRoomRole(roomId, selected.id, { name: draftName.trim(), permissions: draftPermissions }),
+      "保存しました"
+    );
+  }
+
+  async function remove() {
+    if (!selected) return;
+    if (!window.confirm(`ロール「${selected.name}」を削除しますか？`)) return;
+    await run(async () => {
+      await api.deleteRoomRole(roomId, selected.id);
+      setSelectedId(null);
+    }, "削除しました");
+  }
+
+  function toggleMember(m: RoomMember, on: boolean) {
+    if (!selected) return;
+    void run(() =>
+      on ? api.addMemberRole(roomId, m.userId, selected.id) : api.removeMemberRole(roomId, m.userId, selected.id)
+    );
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      {error && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>}
+      <div style={{ fontSize: 12, color: "#b9bbbe" }}>
+        ロールを付けたメンバーは、そのロールの権限でRoomを管理できます（複数のロールは権限を合算）。
+      </div>
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") void create();
+          }}
+          placeholder="新しいロール名"
+          maxLength={64}
+          disabled={busy}
+          style={{ flex: 1 }}
+        />
+        <button onClick={() => void create()} disabled={busy || !newName.trim()} style={smallButtonStyle}>
+          作成
+        </button>
+      </div>
+
+      {roles.length === 0 ? (
+        <div style={{ fontSize: 12, opacity: 0.8 }}>ロールはまだありません</div>
+      ) : (
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+          {roles.map((r) => (
+            <button
+              key={r.id}
+              type="button"
+              onClick={() => select(r)}
+              style={{ ...smallButtonStyle, background: r.id === selectedId ? "#40444b" : "transparent" }}
+            >
+              {r.name}
+              <span style={{ marginLeft: 6, color: "#8e9297" }}>{r.memberCount}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div
+          style={{
+            border: "1px solid #40444b",
+            background: "#202225",
+            borderRadius: 10,
+            padding: "10px 12px",
+            display: "grid",
+            gap: 10,
+          }}
+        >
+          <input value={draftName} onChange={(e) => setDraftName(e.target.value)} maxLength={64} disabled={busy} />
+
+          <div style={{ display: "grid", gap: 6 }}>
+            {PERMISSION_LABELS.map(({ key, label }) => (
+              <label key={key} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                <input
+                  type="checkbox"
+                  checked={draftPermissions.includes(key)}
+                  disabled={busy}
+                  onChange={(e) =>
+                    setDraftPermissions((prev) => (e.target.checked ? [...prev, key] : prev.filter((p) => p !== key)))
+                  }
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div style={{ display: "flex", gap: 8 }}>
+            <button className="primary" onClick={() => void save()} disabled={busy || !draftName.trim()} style={{ flex: 1 }}>
+              保存
+            </button>
+            <button
+              onClick={() => void remove()}
+              disabled={busy}
+              style={{ ...smallButtonStyle, border: "none", background: "#ed4245", color: "#ffffff" }}
+            >
+              削除
+            </button>
+          </div>
+
+          <div style={{ fontSize: 12, color: "#b9bbbe" }}>このロールのメンバー</div>
+          {assignable.length === 0 ? (
+            <div style={{ fontSize: 12, opacity: 0.8 }}>割り当てられるメンバーがいません</div>
+          ) : (
+            <div className="darkScroll" style={{ display: "grid", gap: 4, maxHeight: 220, overflowY: "auto" }}>
+              {assignable.map((m) => (
+                <label key={m.userId} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                  <input
+                    type="checkbox"
+                    checked={(m.roleIds ?? []).includes(selected.id)}
+                    disabled={busy}
+                    onChange={(e) => toggleMember(m, e.target.checked)}
+                  />
+                  {m.displayName}
+                  <span style={{ color: "#8e9297", fontSize: 11 }}>{m.userId}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// オーナーの移譲（パスキーで本人確認してから）。移譲後はロールの管理やRoomの削除ができなくなる
+function TransferOwnershipSection({
+  roomId,
+  members,
+  setToast,
+}: {
+  roomId: string;
+  members: RoomMember[];
+  setToast: (msg: string | null) => void;
+}) {
+  const [newOwnerId, setNewOwnerId] = useState("");
+  const [leave, setLeave] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = members.filter((m) => !m.isOwner);
+  const target = candidates.find((m) => m.userId === newOwnerId) ?? null;
+
+  async function transfer() {
+    if (!target) return;
+    const question = leave
+      ? `「${target.displayName}」にオーナーを移譲して、このRoomから退出しますか？`
+      : `「${target.displayName}」にオーナーを移譲しますか？`;
+    if (!window.confirm(question)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const options = await api.roomTransferOptions(roomId);
+      const response = await startAuthentication({ optionsJSON: options });
+      await api.transferRoomOwnership(roomId, target.userId, options.challengeId, response, leave);
+      setToast(`オーナーを「${target.displayName}」に移譲しました`);
+    } catch (e) {
+      if (e instanceof Error && e.name === "NotAllowedError") setError("パスキーでの確認がキャンセルされました");
+      else setError(e instanceof Error ? e.message : "failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div style={{ fontSize: 12, color: "#b9bbbe" }}>オーナーの移譲</div>
+      <div style={{ fontSize: 12, color: "#8e9297", lineHeight: 1.5 }}>
+        移譲するとロールの管理やRoomの削除はできなくなります。パスキーで本人確認します。
+      </div>
+      {error && <div style={{ color: "#ff7a7a", fontSize: 12 }}>{error}</div>}
+      {candidates.length === 0 ? (
+        <div style={{ fontSize: 12, opacity: 0.8 }}>移譲できるメンバーがいません</div>
+      ) : (
+        <>
+          <select value={newOwnerId} onChange={(e) => setNewOwnerId(e.target.value)} disabled={busy}>
+            <option value="">新しいオーナーを選択</option>
+            {candidates.map((m) => (
+              <option key={m.userId} value={m.userId}>
+                {m.displayName} ({m.userId})
+              </option>
+            ))}
+          </select>
+          <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+            <input type="checkbox" checked={leave} disabled={busy} onChange={(e) => setLeave(e.target.checked)} />
+            移譲後にこのRoomから退出する
+          </label>
+          <button onClick={() => void transfer()} disabled={busy || !target} style={smallButtonStyle}>
+            {busy ? "確認中…" : "パスキーで確認して移譲"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
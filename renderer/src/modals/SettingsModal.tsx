@@ -1,6 +1,10 @@
 import { Modal } from "../Modal";
 import { useEffect, useState } from "react";
+import { startAuthentication, startRegistration } from "@simplewebauthn/browser";
+import { api } from "../api";
+import type { AuthSession, Passkey, RecoveryCodeStatus } from "../api";
 import { AvatarCropModal } from "./AvatarCropModal";
+import { RecoveryCodesModal } from "./RecoveryCodesModal";
 
 function dataUrlToFile(dataUrl: string, filename: string): File {
   const m = /^data:([^;]+);base64,(.*)$/i.exec(dataUrl);
@@ -10,6 +14,327 @@ function dataUrlToFile(dataUrl: string, filename: string): File {
   return new File([bytes], filename, { type: mime });
 }
 
+const smallButtonStyle = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #40444b",
+  background: "transparent",
+  color: "#dcddde",
+  cursor: "pointer",
+  fontSize: 12,
+} as const;
+
+// ログイン中の端末の一覧と、端末ごと / 他の全端末のログアウト
+function SessionsSection() {
+  const [sessions, setSessions] = useState<AuthSession[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function reload() {
+    try {
+      setSessions(await api.listSessions());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "端末一覧を取得できませんでした");
+    }
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .listSessions()
+      .then((list) => {
+        if (!cancelled) setSessions(list);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "端末一覧を取得できませんでした");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function revoke(run: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await run();
+      await reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "ログアウトできませんでした");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const others = sessions?.filter((s) => !s.current) ?? [];
+
+  return (
+    <div style={{ display: "grid", gap: 6, fontSize: 12, color: "#8e9297" }}>
+      ログイン中の端末
+      {sessions === null && !error && <div>読み込み中…</div>}
+      {sessions?.map((s) => (
+        <div
+          key={s.id}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 10,
+            padding: "8px 10px",
+            borderRadius: 8,
+            border: "1px solid #40444b",
+            background: "#202225",
+          }}
+        >
+          <div style={{ display: "grid", gap: 2, minWidth: 0, flex: 1 }}>
+            <div style={{ color: "#dcddde", fontSize: 13 }}>
+              {s.deviceLabel}
+              {s.current && <span style={{ color: "#43b581", marginLeft: 6 }}>この端末</span>}
+            </div>
+            <div>
+              最終利用: {new Date(s.lastSeenAt).toLocaleString()}
+              {s.ip ? ` / ${s.ip}` : ""}
+            </div>
+            <div>ログイン: {new Date(s.createdAt).toLocaleString()}</div>
+          </div>
+          {!s.current && (
+            <button disabled={busy} onClick={() => void revoke(() => api.revokeSession(s.id))} style={smallButtonStyle}>
+              ログアウト
+            </button>
+          )}
+        </div>
+      ))}
+      {others.length > 0 && (
+        <button
+          disabled={busy}
+          onClick={() => void revoke(() => api.revokeOtherSessions())}
+          style={{ ...smallButtonStyle, justifySelf: "start", color: "#ff7a7a" }}
+        >
+          他の端末をすべてログアウト
+        </button>
+      )}
+      {error && <div style={{ color: "#ff7a7a", lineHeight: 1.3 }}>{error}</div>}
+    </div>
+  );
+}
+
+const TRANSPORT_LABELS: Record<string, string> = {
+  internal: "この端末",
+  hybrid: "スマホ（QR）",
+  usb: "USB",
+  nfc: "NFC",
+  ble: "Bluetooth",
+};
+
+// 登録済みパスキーの一覧 / 追加 / 名前変更 / 削除（最後の1つは削除できない）
+function PasskeysSection() {
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .listPasskeys()
+      .then((list) => {
+        if (!cancelled) setPasskeys(list);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "パスキーを取得できませんでした");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPasskeys(await api.listPasskeys());
+    } catch (e) {
+      if (e instanceof Error && e.name === "NotAllowedError") setError("パスキーでの確認がキャンセルされました");
+      else setError(e instanceof Error ? e.message : fallback);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // re-confirmation with a registered passkey first
+  async function reauth() {
+    const options = await api.passkeyReauthOptions();
+    const response = await startAuthentication({ optionsJSON: options });
+    return { challengeId: options.challengeId, response };
+  }
+
+  const onAdd = () =>
+    run(async () => {
+      const confirmed = await reauth();
+      const options = await api.passkeyAddOptions();
+      const response = await startRegistration({ optionsJSON: options });
+      await api.passkeyAddVerify(options.challengeId, response, confirmed);
+    }, "パスキーを追加できませんでした");
+
+  const onRename = (id: string) =>
+    run(async () => {
+      await api.renamePasskey(id, editingName.trim());
+      setEditingId(null);
+    }, "名前を変更できませんでした");
+
+  const onDelete = (p: Passkey) => {
+    if (!window.confirm(`パスキー「${p.name || "パスキー"}」を削除しますか？（この端末/アプリではログインできなくなります）`)) return;
+    void run(async () => {
+      const confirmed = await reauth();
+      await api.deletePasskey(p.id, confirmed.challengeId, confirmed.response);
+    }, "パスキーを削除できませんでした");
+  };
+
+  const onlyOne = (passkeys?.length ?? 0) <= 1;
+
+  return (
+    <div style={{ display: "grid", gap: 6, fontSize: 12, color: "#8e9297" }}>
+      パスキー
+      {passkeys === null && !error && <div>読み込み中…</div>}
+      {passkeys?.map((p) => (
+        <div
+          key={p.id}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 10,
+            padding: "8px 10px",
+            borderRadius: 8,
+            border: "1px solid #40444b",
+            background: "#202225",
+          }}
+        >
+          <div style={{ display: "grid", gap: 2, minWidth: 0, flex: 1 }}>
+            {editingId === p.id ? (
+              <input
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                maxLength={64}
+                autoFocus
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && editingName.trim()) void onRename(p.id);
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                style={{
+                  padding: "6px 8px",
+                  borderRadius: 6,
+                  border: "1px solid #40444b",
+                  background: "#2f3136",
+                  color: "#dcddde",
+                  fontSize: 13,
+                }}
+              />
+            ) : (
+              <div style={{ color: "#dcddde", fontSize: 13 }}>{p.name || "パスキー"}</div>
+            )}
+            <div>
+              登録: {new Date(p.createdAt).toLocaleString()} / 最終使用:{" "}
+              {p.lastUsedAt ? new Date(p.lastUsedAt).toLocaleString() : "なし"}
+            </div>
+            {p.transports.length > 0 && <div>{p.transports.map((t) => TRANSPORT_LABELS[t] ?? t).join("・")}</div>}
+          </div>
+          {editingId === p.id ? (
+            <button disabled={busy || !editingName.trim()} onClick={() => void onRename(p.id)} style={smallButtonStyle}>
+              保存
+            </button>
+          ) : (
+            <button
+              disabled={busy}
+              onClick={() => {
+                setEditingId(p.id);
+                setEditingName(p.name);
+              }}
+              style={smallButtonStyle}
+            >
+              名前変更
+            </button>
+          )}
+          <button
+            disabled={busy || onlyOne}
+            title={onlyOne ? "最後のパスキーは削除できません" : undefined}
+            onClick={() => onDelete(p)}
+            style={{ ...smallButtonStyle, color: onlyOne ? "#72767d" : "#ff7a7a" }}
+          >
+            削除
+          </button>
+        </div>
+      ))}
+      {passkeys && (
+        <button disabled={busy} onClick={() => void onAdd()} style={{ ...smallButtonStyle, justifySelf: "start" }}>
+          パスキーを追加
+        </button>
+      )}
+      <div style={{ lineHeight: 1.4 }}>
+        スマホやPCを無くしてもログインできるよう、別の端末のパスキーも登録しておくのがおすすめです。
+      </div>
+      {error && <div style={{ color: "#ff7a7a", lineHeight: 1.3 }}>{error}</div>}
+    </div>
+  );
+}
+
+// 残りのリカバリーコード数と再発行（パスキーで本人確認してから。古いコードは無効になる）
+function RecoveryCodesSection() {
+  const [status, setStatus] = useState<RecoveryCodeStatus | null>(null);
+  const [codes, setCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .getRecoveryCodeStatus()
+      .then((s) => {
+        if (!cancelled) setStatus(s);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "リカバリーコードの状態を取得できませんでした");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function regenerate() {
+    if (status && status.total > 0 && !window.confirm("リカバリーコードを再発行しますか？（今のコードは使えなくなります）")) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const options = await api.recoveryCodesOptions();
+      const response = await startAuthentication({ optionsJSON: options });
+      const r = await api.regenerateRecoveryCodes(options.challengeId, response);
+      setCodes(r.codes);
+      setStatus(await api.getRecoveryCodeStatus());
+    } catch (e) {
+      if (e instanceof Error && e.name === "NotAllowedError") setError("パスキーでの確認がキャンセルされました");
+      else setError(e instanceof Error ? e.message : "再発行できませんでした");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 6, fontSize: 12, color: "#8e9297" }}>
+      リカバリーコード
+      {status && (
+        <div style={{ color: status.remaining <= 2 ? "#faa61a" : "#dcddde", fontSize: 13 }}>
+          {status.total === 0 ? "未発行" : `残り ${status.remaining} / ${status.total} 個`}
+        </div>
+      )}
+      <button disabled={busy} onClick={() => void regenerate()} style={{ ...smallButtonStyle, justifySelf: "start" }}>
+        {status?.total ? "再発行" : "発行"}
+      </button>
+      {error && <div style={{ color: "#ff7a7a", lineHeight: 1.3 }}>{error}</div>}
+      <RecoveryCodesModal open={!!codes} codes={codes ?? []} onClose={() => setCodes(null)} />
+    </div>
+  );
+}
+
 type Props = {
   open: boolean;
   onClose: () => void;
@@ -225,6 +550,12 @@ export function SettingsModal({
             </div>
           </div>
 
+          <PasskeysSection />
+
+          <RecoveryCodesSection />
+
+          <SessionsSection />
+
           {settingsError && <div style={{ color: "#ff7a7a", fontSize: 12, lineHeight: 1.3 }}>{settingsError}</div>}
         </div>
       </Modal>
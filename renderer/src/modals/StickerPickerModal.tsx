@@ -467,7 +467,7 @@ export function StickerPickerModal({ open, title = "スタンプ", onClose, onPi
             } catch (e: any) {
               const msg = String(e?.message ?? "");
               if (msg === "sticker_too_large") setError("スタンプが大きすぎます（画像を小さくしてください）");
-              else if (msg === "sticker_invalid_dataUrl") setError("画像形式が対応していません（PNG/JPEG/GIF/WebP）");
+              else if (msg === "sticker_invalid_dataUrl" || msg === "upload_invalid_type") setError("画像形式が対応していません（PNG/JPEG/GIF/WebP）");
               else setError(msg || "作成に失敗しました");
             } finally {
               setCreating(false);
@@ -481,15 +481,6 @@ export function StickerPickerModal({ open, title = "スタンプ", onClose, onPi
   );
 }
 
-async function readFileAsDataUrl(file: File): Promise<string> {
-  return await new Promise<string>((resolve, reject) => {
-    const r = new FileReader();
-    r.onload = () => resolve(String(r.result ?? ""));
-    r.onerror = () => reject(new Error("read_failed"));
-    r.readAsDataURL(file);
-  });
-}
-
 export function StickerPickerPanel({
   roomId,
   currentUserId,
@@ -613,10 +604,9 @@ export function StickerPickerPanel({
               setCreating(true);
               setError(null);
               try {
-                const dataUrl = await readFileAsDataUrl(file);
                 const created = roomId
-                  ? await api.createRoomSticker(roomId, dataUrl, newName.trim())
-                  : await api.createSticker(dataUrl, newName.trim());
+                  ? await api.createRoomSticker(roomId, file, newName.trim())
+                  : await api.createSticker(file, newName.trim());
                 const meta: StickerMeta = {
                   id: created.id,
                   name: created.name ?? "",
@@ -629,7 +619,7 @@ export function StickerPickerPanel({
               } catch (e2: any) {
                 const msg = String(e2?.message ?? "");
                 if (msg === "sticker_too_large") setError("スタンプが大きすぎます（サイズを小さくしてください）");
-                else if (msg === "sticker_invalid_dataUrl") setError("画像形式が対応していません（PNG/JPEG/GIF/WebP）");
+                else if (msg === "sticker_invalid_dataUrl" || msg === "upload_invalid_type") setError("画像形式が対応していません（PNG/JPEG/GIF/WebP）");
                 else setError(msg || "作成に失敗しました");
               } finally {
                 setCreating(false);
@@ -751,10 +741,9 @@ export function StickerPickerPanel({
               setCreating(true);
               setError(null);
               try {
-                const dataUrl = await readFileAsDataUrl(file);
                 const created = roomId
-                  ? await api.createRoomSticker(roomId, dataUrl, newName.trim())
-                  : await api.createSticker(dataUrl, newName.trim());
+                  ? await api.createRoomSticker(roomId, file, newName.trim())
+                  : await api.createSticker(file, newName.trim());
                 const meta: StickerMeta = {
                   id: created.id,
                   name: created.name ?? "",
@@ -767,7 +756,7 @@ export function StickerPickerPanel({
               } catch (e2: any) {
                 const msg = String(e2?.message ?? "");
                 if (msg === "sticker_too_large") setError("スタンプが大きすぎます（サイズを小さくしてください）");
-                else if (msg === "sticker_invalid_dataUrl") setError("画像形式が対応していません（PNG/JPEG/GIF/WebP）");
+                else if (msg === "sticker_invalid_dataUrl" || msg === "upload_invalid_type") setError("画像形式が対応していません（PNG/JPEG/GIF/WebP）");
                 else setError(msg || "作成に失敗しました");
               } finally {
                 setCreating(false);
@@ -940,7 +929,7 @@ export function StickerPickerPanel({
             } catch (e: any) {
               const msg = String(e?.message ?? "");
               if (msg === "sticker_too_large") setError("スタンプが大きすぎます（サイズを小さくしてください）");
-              else if (msg === "sticker_invalid_dataUrl") setError("画像形式が対応していません（PNG/JPEG/GIF/WebP）");
+              else if (msg === "sticker_invalid_dataUrl" || msg === "upload_invalid_type") setError("画像形式が対応していません（PNG/JPEG/GIF/WebP）");
               else setError(msg || "作成に失敗しました");
             } finally {
               setCreating(false);
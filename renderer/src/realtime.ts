@@ -1,4 +1,13 @@
 import { api } from "./api";
+import type {
+  AppNotification,
+  ChannelReadState,
+  MentionItem,
+  Message,
+  NotificationSetting,
+  RoomTreeUpdate,
+  Thread,
+} from "./api";
 
 type RealtimeEvent =
   | { type: "hello"; userId: string }
@@ -9,13 +18,33 @@ type RealtimeEvent =
   | { type: "room_ban_changed"; roomId: string; userId: string; banned: boolean }
   | { type: "room_member_changed"; roomId: string; userId: string; joined: boolean }
   | { type: "room_presence"; roomId: string; userId: string; online: boolean }
+  | { type: "room_roles_changed"; roomId: string }
+  | { type: "room_owner_changed"; roomId: string; ownerId: string; previousOwnerId: string }
+  | { type: "channel_permissions_changed"; roomId: string; channelId: string }
+  | { type: "channel_hidden"; roomId: string; channelId: string }
+  | ({ type: "room_tree_updated" } & RoomTreeUpdate)
   | { type: "channel_message_deleted"; channelId: string; messageId: string }
   | { type: "channel_message_updated"; channelId: string; messageId: string; content: string; edited_at: string | null }
   | { type: "channel_message_created"; channelId: string; message: any }
+  | { type: "channel_attachment_updated"; channelId: string; messageId: string; attachment: unknown }
+  | { type: "channel_attachment_progress"; channelId: string; messageId: string; attachmentId: string; progress: number }
   | { type: "message_reactions_updated"; channelId: string; messageId: string; reactions: any }
   | { type: "poll_updated"; channelId: string; messageId: string; poll: any }
+  | { type: "channel_pins_updated"; channelId: string; messageId: string; pinned: boolean; pinned_at: string | null }
+  | { type: "thread_updated"; channelId: string; thread: Thread }
+  | { type: "thread_message_created"; threadId: string; message: Message }
+  | { type: "thread_message_updated"; threadId: string; messageId: string; content: string; edited_at: string | null }
+  | { type: "thread_message_deleted"; threadId: string; messageId: string }
+  | { type: "thread_reactions_updated"; threadId: string; messageId: string; reactions: MessageReactions }
+  | { type: "thread_attachment_updated"; threadId: string; messageId: string; attachment: unknown }
+  | { type: "thread_attachment_progress"; threadId: string; messageId: string; attachmentId: string; progress: number }
   | { type: "dm_message_created"; threadId: string; message: any }
   | { type: "dm_reactions_updated"; threadId: string; messageId: string; reactions: any }
+  | { type: "read_state_updated"; state: ChannelReadState }
+  | { type: "mention_created"; mention: MentionItem }
+  | { type: "notification_created"; notification: AppNotification }
+  | { type: "notifications_changed"; unreadCount: number }
+  | { type: "notification_settings_updated"; setting?: NotificationSetting; keywords?: string[] }
   | { type: "home_updated" }
   | { type: "subscribed_home" }
   | { type: "error"; error: string }
@@ -38,6 +67,10 @@ function hasAnyHandlers() {
     channelPollHandlers.size > 0 ||
     channelDeleteHandlers.size > 0 ||
     channelUpdateHandlers.size > 0 ||
+    channelAttachmentHandlers.size > 0 ||
+    channelThreadHandlers.size > 0 ||
+    channelPinHandlers.size > 0 ||
+    threadHandlers.size > 0 ||
     dmHandlers.size > 0 ||
     dmReactionHandlers.size > 0 ||
     dmErrorHandlers.size > 0 ||
@@ -49,7 +82,16 @@ function hasAnyHandlers() {
     roomLeftHandlers.size > 0 ||
     roomKickedHandlers.size > 0 ||
     roomMemberChangedHandlers.size > 0 ||
-    roomPresenceHandlers.size > 0
+    roomPresenceHandlers.size > 0 ||
+    roomRolesChangedHandlers.size > 0 ||
+    roomOwnerChangedHandlers.size > 0 ||
+    roomTreeUpdatedHandlers.size > 0 ||
+    channelAccessHandlers.size > 0 ||
+    readStateHandlers.size > 0 ||
+    mentionHandlers.size > 0 ||
+    notificationHandlers.size > 0 ||
+    notificationsChangedHandlers.size > 0 ||
+    notificationSettingsHandlers.size > 0
   );
 }
 
@@ -71,6 +113,26 @@ const channelReactionHandlers = new Map<SubKey, Set<Handler<{ messageId: string;
 const channelPollHandlers = new Map<SubKey, Set<Handler<{ messageId: string; poll: any }>>>();
 const channelDeleteHandlers = new Map<SubKey, Set<Handler<{ messageId: string }>>>();
 const channelUpdateHandlers = new Map<SubKey, Set<Handler<{ messageId: string; content: string; edited_at: string | null }>>>();
+// processing state of attachments (the server transcodes / thumbnails them after the message is created)
+export type ChannelAttachmentEvent =
+  | { kind: "updated"; messageId: string; attachment: unknown }
+  | { kind: "progress"; messageId: string; attachmentId: string; progress: number };
+const channelAttachmentHandlers = new Map<SubKey, Set<Handler<ChannelAttachmentEvent>>>();
+// threads of a channel created / updated (reply count, last activity, archived)
+const channelThreadHandlers = new Map<SubKey, Set<Handler<Thread>>>();
+// a message of the channel pinned / unpinned
+export type ChannelPinEvent = { messageId: string; pinned: boolean; pinned_at: string | null };
+const channelPinHandlers = new Map<SubKey, Set<Handler<ChannelPinEvent>>>();
+// everything happening inside one thread (subscribe_thread)
+type MessageReactions = NonNullable<Message["reactions"]>;
+export type ThreadEvent =
+  | { kind: "created"; message: Message }
+  | { kind: "edited"; messageId: string; content: string; edited_at: string | null }
+  | { kind: "deleted"; messageId: string }
+  | { kind: "reactions"; messageId: string; reactions: MessageReactions }
+  | { kind: "attachment"; event: ChannelAttachmentEvent }
+  | { kind: "thread"; thread: Thread };
+const threadHandlers = new Map<SubKey, Set<Handler<ThreadEvent>>>();
 const dmHandlers = new Map<SubKey, Set<Handler<any>>>();
 const dmReactionHandlers = new Map<SubKey, Set<Handler<{ messageId: string; reactions: any }>>>();
 const dmErrorHandlers = new Map<SubKey, Set<Handler<string>>>();
@@ -83,6 +145,20 @@ const roomLeftHandlers = new Set<Handler<{ roomId: string }>>();
 const roomKickedHandlers = new Set<Handler<{ roomId: string }>>();
 const roomMemberChangedHandlers = new Set<Handler<{ roomId: string; userId: string; joined: boolean }>>();
 const roomPresenceHandlers = new Set<Handler<{ roomId: string; userId: string; online: boolean }>>();
+const roomRolesChangedHandlers = new Set<Handler<{ roomId: string }>>();
+const roomOwnerChangedHandlers = new Set<Handler<{ roomId: string; ownerId: string }>>();
+// categories / channels renamed, reordered or moved (or the room renamed)
+const roomTreeUpdatedHandlers = new Set<Handler<RoomTreeUpdate>>();
+// overrides of a channel changed (hidden: this socket was unsubscribed because the user can no longer view it)
+const channelAccessHandlers = new Set<Handler<{ roomId: string; channelId: string; hidden: boolean }>>();
+// my read position changed (on this or another device); sent to all my sockets
+const readStateHandlers = new Set<Handler<ChannelReadState>>();
+// a message (in any room, subscribed or not) mentions me; sent to all my sockets
+const mentionHandlers = new Set<Handler<MentionItem>>();
+// notification center (all sent to all my sockets): a new entry, the list changed elsewhere, settings saved
+const notificationHandlers = new Set<Handler<AppNotification>>();
+const notificationsChangedHandlers = new Set<Handler<{ unreadCount: number }>>();
+const notificationSettingsHandlers = new Set<Handler<{ setting?: NotificationSetting; keywords?: string[] }>>();
 
 function toWsBase(httpBase: string): string {
   // http(s)://host[:port][/path] -> ws(s)://host[:port]
@@ -148,8 +224,12 @@ function ensureConnected() {
       ...channelPollHandlers.keys(),
       ...channelDeleteHandlers.keys(),
       ...channelUpdateHandlers.keys(),
+      ...channelAttachmentHandlers.keys(),
+      ...channelThreadHandlers.keys(),
+      ...channelPinHandlers.keys(),
     ]);
     for (const channelId of channelIds) wsSend({ type: "subscribe", channelId });
+    for (const threadId of threadHandlers.keys()) wsSend({ type: "subscribe_thread", threadId });
     const threadIds = new Set<string>([...dmHandlers.keys(), ...dmReactionHandlers.keys()]);
     for (const threadId of threadIds) {
       wsSend({ type: "subscribe_dm", threadId });
@@ -238,6 +318,89 @@ function ensureConnected() {
       return;
     }
 
+    if (data.type === "room_roles_changed" && "roomId" in data && typeof data.roomId === "string") {
+      const roomId = data.roomId;
+      for (const h of roomRolesChangedHandlers) h({ roomId });
+      return;
+    }
+
+    if (
+      data.type === "room_owner_changed" &&
+      "roomId" in data &&
+      typeof data.roomId === "string" &&
+      "ownerId" in data &&
+      typeof data.ownerId === "string"
+    ) {
+      const ev = { roomId: data.roomId, ownerId: data.ownerId };
+      for (const h of roomOwnerChangedHandlers) h(ev);
+      return;
+    }
+
+    if (data.type === "read_state_updated" && "state" in data && data.state && typeof data.state === "object") {
+      const state = data.state as ChannelReadState;
+      for (const h of readStateHandlers) h(state);
+      return;
+    }
+
+    if (data.type === "mention_created" && "mention" in data && data.mention && typeof data.mention === "object") {
+      const mention = data.mention as MentionItem;
+      for (const h of mentionHandlers) h(mention);
+      return;
+    }
+
+    if (
+      data.type === "notification_created" &&
+      "notification" in data &&
+      data.notification &&
+      typeof data.notification === "object"
+    ) {
+      const notification = data.notification as AppNotification;
+      for (const h of notificationHandlers) h(notification);
+      return;
+    }
+
+    if (data.type === "notifications_changed" && "unreadCount" in data) {
+      const ev = { unreadCount: Number(data.unreadCount ?? 0) };
+      for (const h of notificationsChangedHandlers) h(ev);
+      return;
+    }
+
+    if (data.type === "notification_settings_updated") {
+      const ev = {
+        setting:
+          "setting" in data && data.setting && typeof data.setting === "object"
+            ? (data.setting as NotificationSetting)
+            : undefined,
+        keywords: "keywords" in data && Array.isArray(data.keywords) ? (data.keywords as string[]) : undefined,
+      };
+      for (const h of notificationSettingsHandlers) h(ev);
+      return;
+    }
+
+    if (data.type === "room_tree_updated" && "roomId" in data && typeof data.roomId === "string") {
+      const ev: RoomTreeUpdate = {
+        roomId: data.roomId,
+        room: data.room && typeof data.room === "object" ? { id: String(data.room.id), name: String(data.room.name) } : null,
+        categories: Array.isArray(data.categories) ? data.categories : [],
+        channels: Array.isArray(data.channels) ? data.channels : [],
+        partial: Boolean(data.partial),
+      };
+      for (const h of roomTreeUpdatedHandlers) h(ev);
+      return;
+    }
+
+    if (
+      (data.type === "channel_permissions_changed" || data.type === "channel_hidden") &&
+      "roomId" in data &&
+      typeof data.roomId === "string" &&
+      "channelId" in data &&
+      typeof data.channelId === "string"
+    ) {
+      const ev = { roomId: data.roomId, channelId: data.channelId, hidden: data.type === "channel_hidden" };
+      for (const h of channelAccessHandlers) h(ev);
+      return;
+    }
+
     if (data.type === "channel_message_created" && typeof (data as any).channelId === "string") {
       const key = String((data as any).channelId);
       const handlers = channelHandlers.get(key);
@@ -290,6 +453,71 @@ function ensureConnected() {
       return;
     }
 
+    if (data.type === "channel_attachment_updated" && typeof data.channelId === "string") {
+      const handlers = channelAttachmentHandlers.get(data.channelId);
+      if (!handlers) return;
+      const messageId = String(data.messageId ?? "");
+      const attachment: unknown = data.attachment;
+      if (!messageId || !attachment) return;
+      for (const h of handlers) h({ kind: "updated", messageId, attachment });
+      return;
+    }
+
+    if (data.type === "channel_attachment_progress" && typeof data.channelId === "string") {
+      const handlers = channelAttachmentHandlers.get(data.channelId);
+      if (!handlers) return;
+      const messageId = String(data.messageId ?? "");
+      const attachmentId = String(data.attachmentId ?? "");
+      const progress = Number(data.progress);
+      if (!messageId || !attachmentId || !Number.isFinite(progress)) return;
+      for (const h of handlers) h({ kind: "progress", messageId, attachmentId, progress });
+      return;
+    }
+
+    if (data.type === "channel_pins_updated" && typeof data.channelId === "string") {
+      const handlers = channelPinHandlers.get(data.channelId);
+      if (!handlers) return;
+      const messageId = String(data.messageId ?? "");
+      if (!messageId) return;
+      const pinned_at = typeof data.pinned_at === "string" ? data.pinned_at : null;
+      for (const h of handlers) h({ messageId, pinned: !!data.pinned, pinned_at });
+      return;
+    }
+
+    if (data.type === "thread_updated" && "thread" in data && data.thread && typeof data.thread === "object") {
+      const thread = data.thread as Thread;
+      for (const h of channelThreadHandlers.get(thread.channelId) ?? []) h(thread);
+      for (const h of threadHandlers.get(thread.id) ?? []) h({ kind: "thread", thread });
+      return;
+    }
+
+    if (data.type.startsWith("thread_") && "threadId" in data && typeof data.threadId === "string") {
+      const handlers = threadHandlers.get(data.threadId);
+      if (!handlers) return;
+      const messageId = "messageId" in data ? String(data.messageId ?? "") : "";
+      let ev: ThreadEvent | null = null;
+      if (data.type === "thread_message_created" && "message" in data && data.message) {
+        ev = { kind: "created", message: data.message };
+      } else if (data.type === "thread_message_updated" && messageId && "content" in data) {
+        ev = { kind: "edited", messageId, content: String(data.content ?? ""), edited_at: data.edited_at ?? null };
+      } else if (data.type === "thread_message_deleted" && messageId) {
+        ev = { kind: "deleted", messageId };
+      } else if (data.type === "thread_reactions_updated" && messageId && "reactions" in data) {
+        ev = { kind: "reactions", messageId, reactions: Array.isArray(data.reactions) ? data.reactions : [] };
+      } else if (data.type === "thread_attachment_updated" && messageId && "attachment" in data && data.attachment) {
+        ev = { kind: "attachment", event: { kind: "updated", messageId, attachment: data.attachment } };
+      } else if (data.type === "thread_attachment_progress" && messageId && "attachmentId" in data) {
+        const attachmentId = String(data.attachmentId ?? "");
+        const progress = "progress" in data ? Number(data.progress) : NaN;
+        if (attachmentId && Number.isFinite(progress)) {
+          ev = { kind: "attachment", event: { kind: "progress", messageId, attachmentId, progress } };
+        }
+      }
+      if (!ev) return;
+      for (const h of handlers) h(ev);
+      return;
+    }
+
     if (data.type === "dm_message_created" && typeof (data as any).threadId === "string") {
       const key = String((data as any).threadId);
       const handlers = dmHandlers.get(key);
@@ -310,9 +538,17 @@ function ensureConnected() {
     }
   });
 
-  ws.addEventListener("close", () => {
+  ws.addEventListener("close", (e) => {
     opening = false;
     ws = null;
+    // access token expired (1008 unauthorized) or this login was revoked (4001): refresh, or give up the session
+    if ((e.code === 1008 && e.reason === "unauthorized") || e.code === 4001) {
+      void api.refreshSession().then((ok) => {
+        if (ok) scheduleReconnect();
+        else api.endSession(e.code === 4001 ? "session_revoked" : "auth_invalid");
+      });
+      return;
+    }
     scheduleReconnect();
   });
 
@@ -419,7 +655,8 @@ export const realtime = {
           !channelHandlers.has(key) &&
           !channelReactionHandlers.has(key) &&
           !channelDeleteHandlers.has(key) &&
-          !channelUpdateHandlers.has(key)
+          !channelUpdateHandlers.has(key) &&
+          !channelAttachmentHandlers.has(key)
         ) {
           wsSend({ type: "unsubscribe", channelId: key });
         }
@@ -452,7 +689,8 @@ export const realtime = {
           !channelHandlers.has(channelId) &&
           !channelReactionHandlers.has(channelId) &&
           !channelPollHandlers.has(channelId) &&
-          !channelUpdateHandlers.has(channelId)
+          !channelUpdateHandlers.has(channelId) &&
+          !channelAttachmentHandlers.has(channelId)
         ) {
           wsSend({ type: "unsubscribe", channelId });
         }
@@ -485,7 +723,74 @@ export const realtime = {
           !channelHandlers.has(channelId) &&
           !channelReactionHandlers.has(channelId) &&
           !channelPollHandlers.has(channelId) &&
-          !channelDeleteHandlers.has(channelId)
+          !channelDeleteHandlers.has(channelId) &&
+          !channelAttachmentHandlers.has(channelId)
+        ) {
+          wsSend({ type: "unsubscribe", channelId });
+        }
+      }
+    };
+  },
+
+  subscribeChannelAttachments(channelId: string, onEvent: Handler<ChannelAttachmentEvent>) {
+    ensureConnected();
+
+    let set = channelAttachmentHandlers.get(channelId);
+    const first = !set;
+    if (!set) {
+      set = new Set();
+      channelAttachmentHandlers.set(channelId, set);
+    }
+    set.add(onEvent);
+
+    if (first && !channelHandlers.has(channelId) && !channelReactionHandlers.has(channelId) && !channelPollHandlers.has(channelId)) {
+      wsSend({ type: "subscribe", channelId });
+    }
+
+    return () => {
+      const s = channelAttachmentHandlers.get(channelId);
+      if (!s) return;
+      s.delete(onEvent);
+      if (s.size === 0) {
+        channelAttachmentHandlers.delete(channelId);
+        if (
+          !channelHandlers.has(channelId) &&
+          !channelReactionHandlers.has(channelId) &&
+          !channelPollHandlers.has(channelId) &&
+          !channelDeleteHandlers.has(channelId) &&
+          !channelUpdateHandlers.has(channelId)
+        ) {
+          wsSend({ type: "unsubscribe", channelId });
+        }
+      }
+    };
+  },
+
+  subscribeChannelThreads(channelId: string, onThread: Handler<Thread>) {
+    ensureConnected();
+
+    let set = channelThreadHandlers.get(channelId);
+    if (!set) {
+      set = new Set();
+      channelThreadHandlers.set(channelId, set);
+      wsSend({ type: "subscribe", channelId });
+    }
+    set.add(onThread);
+
+    return () => {
+      const s = channelThreadHandlers.get(channelId);
+      if (!s) return;
+      s.delete(onThread);
+      if (s.size === 0) {
+        channelThreadHandlers.delete(channelId);
+        if (
+          !channelHandlers.has(channelId) &&
+          !channelReactionHandlers.has(channelId) &&
+          !channelPollHandlers.has(channelId) &&
+          !channelDeleteHandlers.has(channelId) &&
+          !channelUpdateHandlers.has(channelId) &&
+          !channelAttachmentHandlers.has(channelId) &&
+          !channelPinHandlers.has(channelId)
         ) {
           wsSend({ type: "unsubscribe", channelId });
         }
@@ -493,6 +798,60 @@ export const realtime = {
     };
   },
 
+  subscribeChannelPins(channelId: string, onEvent: Handler<ChannelPinEvent>) {
+    ensureConnected();
+
+    let set = channelPinHandlers.get(channelId);
+    if (!set) {
+      set = new Set();
+      channelPinHandlers.set(channelId, set);
+      wsSend({ type: "subscribe", channelId });
+    }
+    set.add(onEvent);
+
+    return () => {
+      const s = channelPinHandlers.get(channelId);
+      if (!s) return;
+      s.delete(onEvent);
+      if (s.size === 0) {
+        channelPinHandlers.delete(channelId);
+        if (
+          !channelHandlers.has(channelId) &&
+          !channelReactionHandlers.has(channelId) &&
+          !channelPollHandlers.has(channelId) &&
+          !channelDeleteHandlers.has(channelId) &&
+          !channelUpdateHandlers.has(channelId) &&
+          !channelAttachmentHandlers.has(channelId) &&
+          !channelThreadHandlers.has(channelId)
+        ) {
+          wsSend({ type: "unsubscribe", channelId });
+        }
+      }
+    };
+  },
+
+  subscribeThread(threadId: string, onEvent: Handler<ThreadEvent>) {
+    ensureConnected();
+
+    let set = threadHandlers.get(threadId);
+    if (!set) {
+      set = new Set();
+      threadHandlers.set(threadId, set);
+      wsSend({ type: "subscribe_thread", threadId });
+    }
+    set.add(onEvent);
+
+    return () => {
+      const s = threadHandlers.get(threadId);
+      if (!s) return;
+      s.delete(onEvent);
+      if (s.size === 0) {
+        threadHandlers.delete(threadId);
+        wsSend({ type: "unsubscribe_thread", threadId });
+      }
+    };
+  },
+
   subscribeDmMessage(threadId: string, onMessage: Handler<any>) {
     ensureConnected();
 
@@ -641,6 +1000,78 @@ export const realtime = {
     };
   },
 
+  subscribeRoomRolesChanged(onChange: Handler<{ roomId: string }>) {
+    ensureConnected();
+    roomRolesChangedHandlers.add(onChange);
+    return () => {
+      roomRolesChangedHandlers.delete(onChange);
+    };
+  },
+
+  subscribeRoomOwnerChanged(onChange: Handler<{ roomId: string; ownerId: string }>) {
+    ensureConnected();
+    roomOwnerChangedHandlers.add(onChange);
+    return () => {
+      roomOwnerChangedHandlers.delete(onChange);
+    };
+  },
+
+  subscribeRoomTreeUpdated(onChange: Handler<RoomTreeUpdate>) {
+    ensureConnected();
+    roomTreeUpdatedHandlers.add(onChange);
+    return () => {
+      roomTreeUpdatedHandlers.delete(onChange);
+    };
+  },
+
+  subscribeChannelAccessChanged(onChange: Handler<{ roomId: string; channelId: string; hidden: boolean }>) {
+    ensureConnected();
+    channelAccessHandlers.add(onChange);
+    return () => {
+      channelAccessHandlers.delete(onChange);
+    };
+  },
+
+  subscribeReadState(onChange: Handler<ChannelReadState>) {
+    ensureConnected();
+    readStateHandlers.add(onChange);
+    return () => {
+      readStateHandlers.delete(onChange);
+    };
+  },
+
+  subscribeMention(onMention: Handler<MentionItem>) {
+    ensureConnected();
+    mentionHandlers.add(onMention);
+    return () => {
+      mentionHandlers.delete(onMention);
+    };
+  },
+
+  subscribeNotification(onNotification: Handler<AppNotification>) {
+    ensureConnected();
+    notificationHandlers.add(onNotification);
+    return () => {
+      notificationHandlers.delete(onNotification);
+    };
+  },
+
+  subscribeNotificationsChanged(onChange: Handler<{ unreadCount: number }>) {
+    ensureConnected();
+    notificationsChangedHandlers.add(onChange);
+    return () => {
+      notificationsChangedHandlers.delete(onChange);
+    };
+  },
+
+  subscribeNotificationSettings(onChange: Handler<{ setting?: NotificationSetting; keywords?: string[] }>) {
+    ensureConnected();
+    notificationSettingsHandlers.add(onChange);
+    return () => {
+      notificationSettingsHandlers.delete(onChange);
+    };
+  },
+
   ensureConnected,
   close: closeWs,
 };
@@ -3,10 +3,15 @@ import { Modal } from "../Modal";
 import { SettingsModal } from "../modals/SettingsModal";
 import { BanModal } from "../modals/BanModal";
 import { RoomSettingsModal } from "../modals/RoomSettingsModal";
+import { ChannelPermissionsModal } from "../modals/ChannelPermissionsModal";
 import { ConfirmActionModal } from "../modals/ConfirmActionModal";
 import { JoinRoomModal } from "../modals/JoinRoomModal";
 import { HomeAuditModal } from "../modals/HomeAuditModal";
-import { extractInviteCode } from "../app/appUtils";
+import { RecoveryCodesModal } from "../modals/RecoveryCodesModal";
+import { AdminConsoleModal } from "../modals/AdminConsoleModal";
+import { NotificationsModal } from "../modals/NotificationsModal";
+import { NotificationSettingsModal } from "../modals/NotificationSettingsModal";
+import { extractInviteCode, findTreeChannel, roomCan } from "../app/appUtils";
 
 export function AppOverlays(props: any) {
   const {
@@ -51,6 +56,10 @@ export function AppOverlays(props: any) {
     submitDelete,
     deleteError,
 
+    channelPermissionsModal,
+    closeChannelPermissionsModal,
+    applyChannelUpdate,
+
     userAction,
     closeUserActions,
     userActionBusy,
@@ -84,6 +93,8 @@ export function AppOverlays(props: any) {
     inviteError,
     auditError,
     members,
+    roomRoles,
+    refreshRolesAndMembers,
     invites,
     auditLogs,
     inviteUrlFromCode,
@@ -116,6 +127,26 @@ export function AppOverlays(props: any) {
     homeAuditLogs,
     closeHomeAudit,
     openHomeAudit,
+    adminConsoleOpen,
+    closeAdminConsole,
+    refreshInstanceInfo,
+
+    recoveryCodes,
+    closeRecoveryCodes,
+
+    notificationsOpen,
+    closeNotifications,
+    notifications,
+    notificationUnreadCount,
+    notificationsHasMore,
+    notificationsLoadingMore,
+    loadMoreNotifications,
+    openNotification,
+    markNotificationsRead,
+    clearNotifications,
+    notificationSettingsOpen,
+    openNotificationSettings,
+    closeNotificationSettings,
   } = props;
 
   return (
@@ -141,7 +172,19 @@ export function AppOverlays(props: any) {
 
       {authed && createModal && (
         <Modal
-          title={createModal.kind === "room" ? "Roomを作成" : createModal.kind === "category" ? "カテゴリを作成" : "チャンネルを作成"}
+          title={
+            createModal.kind === "rename"
+              ? createModal.target === "room"
+                ? "Room名を変更"
+                : createModal.target === "category"
+                  ? "カテゴリ名を変更"
+                  : "チャンネル名を変更"
+              : createModal.kind === "room"
+                ? "Roomを作成"
+                : createModal.kind === "category"
+                  ? "カテゴリを作成"
+                  : "チャンネルを作成"
+          }
           onClose={closeModal}
           footer={
             <>
@@ -175,7 +218,7 @@ export function AppOverlays(props: any) {
                   opacity: createBusy ? 0.7 : 1,
                 }}
               >
-                作成
+                {createModal.kind === "rename" ? "保存" : "作成"}
               </button>
             </>
           }
@@ -378,6 +421,19 @@ export function AppOverlays(props: any) {
         </Modal>
       )}
 
+      {authed && channelPermissionsModal && (
+        <ChannelPermissionsModal
+          roomId={channelPermissionsModal.roomId}
+          channelId={channelPermissionsModal.channelId}
+          channelName={channelPermissionsModal.channelName}
+          channel={findTreeChannel(tree, channelPermissionsModal.channelId)}
+          onChannelUpdated={(c: Awaited<ReturnType<typeof api.updateChannel>>) =>
+            applyChannelUpdate(channelPermissionsModal.roomId, c)
+          }
+          onClose={closeChannelPermissionsModal}
+        />
+      )}
+
       {authed && userAction && (
         <Modal
           title="ユーザー"
@@ -401,10 +457,9 @@ export function AppOverlays(props: any) {
               </button>
               {selectedRoomId &&
                 selectedRoomId !== HOME_ID &&
-                tree?.room.owner_id &&
-                currentUserId &&
-                tree.room.owner_id === currentUserId &&
-                userAction.userId !== currentUserId && (
+                roomCan(tree, "ban_members") &&
+                userAction.userId !== currentUserId &&
+                userAction.userId !== tree?.room.owner_id && (
                   <button
                     onClick={() => {
                       closeUserActions();
@@ -614,6 +669,8 @@ export function AppOverlays(props: any) {
         auditError={auditError}
         currentUserId={currentUserId}
         members={members}
+        roles={roomRoles}
+        onRolesChanged={() => void refreshRolesAndMembers()}
         invites={invites}
         auditLogs={auditLogs}
         inviteUrlFromCode={inviteUrlFromCode}
@@ -658,6 +715,39 @@ export function AppOverlays(props: any) {
         onClose={closeHomeAudit}
         onRefresh={() => void openHomeAudit()}
       />
+
+      {authed && adminConsoleOpen && (
+        <AdminConsoleModal
+          currentUserId={currentUserId}
+          onClose={closeAdminConsole}
+          onInstanceChanged={() => void refreshInstanceInfo()}
+        />
+      )}
+
+      <RecoveryCodesModal open={authed && !!recoveryCodes} codes={recoveryCodes ?? []} onClose={closeRecoveryCodes} />
+
+      {authed && notificationsOpen && (
+        <NotificationsModal
+          notifications={notifications}
+          currentRoomId={selectedRoomId}
+          unreadCount={notificationUnreadCount}
+          hasMore={notificationsHasMore}
+          loadingMore={notificationsLoadingMore}
+          onLoadMore={loadMoreNotifications}
+          onOpen={openNotification}
+          onMarkRead={markNotificationsRead}
+          onClear={clearNotifications}
+          onOpenSettings={() => {
+            closeNotifications();
+            openNotificationSettings();
+          }}
+          onClose={closeNotifications}
+        />
+      )}
+
+      {authed && notificationSettingsOpen && (
+        <NotificationSettingsModal tree={selectedRoomId !== HOME_ID ? tree : null} onClose={closeNotificationSettings} />
+      )}
     </>
   );
 }
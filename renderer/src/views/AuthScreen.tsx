@@ -1,7 +1,13 @@
-type Mode = "login" | "register";
+import { useEffect } from "react";
+import { WebAuthnAbortService, browserSupportsWebAuthnAutofill } from "@simplewebauthn/browser";
+import { useLatestRef } from "../hooks/useLatestRef";
+import type { RegistrationMode } from "../api";
+
+type Mode = "login" | "register" | "recover";
 
 type LoginForm = { userId: string };
-type RegisterForm = { userId: string; displayName: string };
+type RegisterForm = { userId: string; displayName: string; inviteCode: string };
+type RecoveryForm = { userId: string; code: string };
 
 type Props = {
   mode: Mode;
@@ -20,12 +26,21 @@ type Props = {
   setReg: (updater: RegisterForm | ((prev: RegisterForm) => RegisterForm)) => void;
   regUserIdErr: string | null;
   regNameErr: string | null;
+  // null until GET /auth/registration answers
+  registrationMode: RegistrationMode | null;
 
   agreeNoRecovery: boolean;
   setAgreeNoRecovery: (v: boolean) => void;
 
+  recovery: RecoveryForm;
+  setRecovery: (v: RecoveryForm) => void;
+  recoveryUserIdErr: string | null;
+
   onLogin: () => void;
+  // passkey autofill on the user ID field; runs until a passkey is picked or the ceremony is aborted
+  onConditionalLogin: () => Promise<void>;
   onRegister: () => void;
+  onRecover: () => void;
 };
 
 export function AuthScreen(props: Props) {
@@ -43,12 +58,32 @@ export function AuthScreen(props: Props) {
     setReg,
     regUserIdErr,
     regNameErr,
+    registrationMode,
     agreeNoRecovery,
     setAgreeNoRecovery,
+    recovery,
+    setRecovery,
+    recoveryUserIdErr,
     onLogin,
+    onConditionalLogin,
     onRegister,
+    onRecover,
   } = props;
 
+  const conditionalLoginRef = useLatestRef(onConditionalLogin);
+
+  useEffect(() => {
+    if (mode !== "login") return;
+    let cancelled = false;
+    void browserSupportsWebAuthnAutofill().then((supported) => {
+      if (supported && !cancelled) void conditionalLoginRef.current();
+    });
+    return () => {
+      cancelled = true;
+      WebAuthnAbortService.cancelCeremony();
+    };
+  }, [mode, conditionalLoginRef]);
+
   return (
     <>
       <header className="topbar authTopbar">
@@ -84,7 +119,9 @@ export function AuthScreen(props: Props) {
           {mode === "login" ? (
             <>
               <h1>ログイン</h1>
-              <p className="desc">ユーザーIDを入力して、パスキーで認証します。</p>
+              <p className="desc">
+                パスキーで認証します。ユーザーIDを空欄のままにすると、この端末に保存されたパスキーから選べます。
+              </p>
 
               <label className="label">
                 ユーザーID（重複不可・変更可）
@@ -92,7 +129,8 @@ export function AuthScreen(props: Props) {
                   className={`input ${loginErr ? "bad" : ""}`}
                   value={login.userId}
                   onChange={(e) => setLogin({ userId: e.target.value })}
-                  placeholder="例: user_id"
+                  placeholder="例: user_id（空欄でもOK）"
+                  autoComplete="username webauthn"
                   autoCapitalize="off"
                   autoCorrect="off"
                   spellCheck={false}
@@ -118,6 +156,67 @@ export function AuthScreen(props: Props) {
               <button className="primary" onClick={onLogin} disabled={busy || !!loginErr}>
                 {busy ? "認証中…" : "パスキーでログイン"}
               </button>
+
+              <button
+                className="linkBtn"
+                onClick={() => {
+                  setRecovery({ userId: login.userId, code: "" });
+                  setMode("recover");
+                }}
+                disabled={busy}
+              >
+                パスキーを無くした場合（リカバリーコードで復旧）
+              </button>
+            </>
+          ) : mode === "recover" ? (
+            <>
+              <h1>アカウントの復旧</h1>
+              <p className="desc">
+                登録時に保存したリカバリーコードを1つ使って、この端末に新しいパスキーを登録します。
+              </p>
+
+              <label className="label">
+                ユーザーID
+                <input
+                  className={`input ${recoveryUserIdErr ? "bad" : ""}`}
+                  value={recovery.userId}
+                  onChange={(e) => setRecovery({ ...recovery, userId: e.target.value })}
+                  placeholder="例: user_id"
+                  autoCapitalize="off"
+                  autoCorrect="off"
+                  spellCheck={false}
+                  disabled={busy}
+                />
+                {recoveryUserIdErr && <div className="hint badText">{recoveryUserIdErr}</div>}
+              </label>
+
+              <label className="label">
+                リカバリーコード
+                <input
+                  className="input"
+                  value={recovery.code}
+                  onChange={(e) => setRecovery({ ...recovery, code: e.target.value })}
+                  placeholder="例: abcd-efgh-jkmn"
+                  autoCapitalize="off"
+                  autoCorrect="off"
+                  autoComplete="off"
+                  spellCheck={false}
+                  disabled={busy}
+                />
+                <div className="hint">使ったコードは無効になります</div>
+              </label>
+
+              <button
+                className="primary"
+                onClick={onRecover}
+                disabled={busy || !!recoveryUserIdErr || !recovery.code.trim()}
+              >
+                {busy ? "登録中…" : "新しいパスキーを登録してログイン"}
+              </button>
+
+              <button className="linkBtn" onClick={() => setMode("login")} disabled={busy}>
+                ログインに戻る
+              </button>
             </>
           ) : (
             <>
@@ -169,6 +268,27 @@ export function AuthScreen(props: Props) {
                 )}
               </label>
 
+              {(registrationMode === "invite" || reg.inviteCode) && (
+                <label className="label">
+                  招待コード
+                  <input
+                    className="input"
+                    value={reg.inviteCode}
+                    onChange={(e) => setReg((p) => ({ ...p, inviteCode: e.target.value }))}
+                    placeholder="管理者から受け取ったコード"
+                    autoCapitalize="off"
+                    autoCorrect="off"
+                    spellCheck={false}
+                    disabled={busy}
+                  />
+                  <div className="hint">このサーバーは招待制です。招待URLから開くと自動で入ります</div>
+                </label>
+              )}
+
+              {registrationMode === "closed" && (
+                <div className="hint badText">このサーバーは現在新規登録を受け付けていません</div>
+              )}
+
               <label className="check">
                 <input
                   type="checkbox"
@@ -176,13 +296,15 @@ export function AuthScreen(props: Props) {
                   onChange={(e) => setAgreeNoRecovery(e.target.checked)}
                   disabled={busy}
                 />
-                <span>パスキーを失うと復旧できないことを理解しました（同意）</span>
+                <span>パスキーとリカバリーコードの両方を失うと復旧できないことを理解しました（同意）</span>
               </label>
 
               <button
                 className="primary"
                 onClick={onRegister}
-                disabled={busy || !!regUserIdErr || !!regNameErr || !agreeNoRecovery}
+                disabled={
+                  busy || !!regUserIdErr || !!regNameErr || !agreeNoRecovery || registrationMode === "closed"
+                }
               >
                 {busy ? "登録中…" : "パスキーを登録してはじめる"}
               </button>
@@ -5,6 +5,11 @@ type Props = {
   openAddFriend: () => void;
   openHomeAudit: () => Promise<void> | void;
   homeAuditBusy: boolean;
+  isInstanceAdmin: boolean;
+  openAdminConsole: () => void;
+  // not counting muted rooms / channels
+  notificationUnreadCount: number;
+  openNotificationCenter: () => void;
   homeError: string | null;
   addFriendOpen: boolean;
   width?: number;
@@ -24,6 +29,10 @@ export function HomeSidebar(props: Props) {
     openAddFriend,
     openHomeAudit,
     homeAuditBusy,
+    isInstanceAdmin,
+    openAdminConsole,
+    notificationUnreadCount,
+    openNotificationCenter,
     homeError,
     addFriendOpen,
     width,
@@ -88,6 +97,44 @@ export function HomeSidebar(props: Props) {
         >
           監査ログ
         </button>
+        <button
+          onClick={openNotificationCenter}
+          style={{
+            width: "100%",
+            padding: "10px 10px",
+            borderRadius: 8,
+            border: "1px solid #40444b",
+            background: "transparent",
+            color: "#dcddde",
+            cursor: "pointer",
+            fontWeight: 900,
+            fontSize: 12,
+            marginTop: 10,
+          }}
+          title="通知"
+        >
+          通知{notificationUnreadCount > 0 ? `（未読 ${notificationUnreadCount > 99 ? "99+" : notificationUnreadCount}）` : ""}
+        </button>
+        {isInstanceAdmin && (
+          <button
+            onClick={openAdminConsole}
+            style={{
+              width: "100%",
+              padding: "10px 10px",
+              borderRadius: 8,
+              border: "1px solid #40444b",
+              background: "transparent",
+              color: "#dcddde",
+              cursor: "pointer",
+              fontWeight: 900,
+              fontSize: 12,
+              marginTop: 10,
+            }}
+            title="管理コンソール"
+          >
+            管理コンソール
+          </button>
+        )}
         {homeError && !addFriendOpen && (
           <div style={{ color: "#ff7a7a", fontSize: 12, marginTop: 10 }}>{homeError}</div>
         )}
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import type { MentionItem } from "../api";
+import { api } from "../api";
+import { realtime } from "../realtime";
+
+type Props = {
+  // room on screen: its name is left out of the list
+  currentRoomId: string | null;
+  // width of the panes to the right of the message area
+  offsetRight?: number;
+  onJump: (item: MentionItem) => void;
+  onClose: () => void;
+};
+
+function formatTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString([], { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
+
+const KIND_LABEL: Record<MentionItem["kind"], string> = {
+  user: "@",
+  everyone: "@everyone",
+  here: "@here",
+};
+
+// Messages that mentioned me in every room (GET /mentions), newest first.
+export function MentionsPopover({ currentRoomId, offsetRight = 0, onJump, onClose }: Props) {
+  const [items, setItems] = useState<MentionItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [includeEveryone, setIncludeEveryone] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    api
+      .listMentions({ everyone: includeEveryone })
+      .then((r) => {
+        if (cancelled) return;
+        setItems(r.items);
+        setHasMore(r.hasMore);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "failed");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [includeEveryone]);
+
+  useEffect(() => {
+    return realtime.subscribeMention((m) => {
+      if (!includeEveryone && m.kind !== "user") return;
+      setItems((prev) => (prev.some((x) => x.id === m.id) ? prev : [m, ...prev]));
+    });
+  }, [includeEveryone]);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === "Escape") onClose();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  async function loadMore() {
+    const last = items[items.length - 1];
+    if (!last || loading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const r = await api.listMentions({ everyone: includeEveryone, before: last.created_at });
+      setItems((prev) => [...prev, ...r.items.filter((m) => !prev.some((x) => x.id === m.id))]);
+      setHasMore(r.hasMore);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-label="メンション"
+      style={{
+        position: "absolute",
+        top: 56,
+        right: offsetRight + 16,
+        zIndex: 20,
+        width: 380,
+        maxWidth: "calc(100% - 32px)",
+        maxHeight: "min(560px, calc(100% - 80px))",
+        display: "flex",
+        flexDirection: "column",
+        background: "#2f3136",
+        color: "#dcddde",
+        border: "1px solid #202225",
+        borderRadius: 12,
+        boxShadow: "0 8px 24px rgba(0,0,0,0.45)",
+        overflow: "hidden",
+      }}
+    >
+      <div
+        style={{
+          padding: "12px 14px",
+          borderBottom: "1px solid #202225",
+          display: "flex",
+          alignItems: "center",
+          gap: 8,
+        }}
+      >
+        <div style={{ flex: 1, minWidth: 0, fontWeight: 900 }}>@ メンション</div>
+        <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 12, color: "#b9bbbe", cursor: "pointer" }}>
+          <input type="checkbox" checked={includeEveryone} onChange={(e) => setIncludeEveryone(e.target.checked)} />
+          @everyone / @here
+        </label>
+        <button
+          type="button"
+          onClick={onClose}
+          style={{
+            border: "1px solid #40444b",
+            background: "transparent",
+            color: "#b9bbbe",
+            cursor: "pointer",
+            padding: "2px 8px",
+            borderRadius: 999,
+            fontSize: 12,
+            fontWeight: 900,
+          }}
+          title="閉じる"
+          aria-label="閉じる"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="darkScroll" style={{ flex: 1, overflowY: "auto", padding: 10, display: "grid", gap: 8, alignContent: "start" }}>
+        {error && <div style={{ fontSize: 12, color: "#ff7a7a" }}>{error}</div>}
+        {!loading && !error && items.length === 0 && (
+          <div style={{ fontSize: 13, color: "#8e9297" }}>メンションされたメッセージはまだないよ</div>
+        )}
+        {items.map((m) => (
+          <button
+            key={m.id}
+            type="button"
+            onClick={() => onJump(m)}
+            style={{
+              textAlign: "left",
+              border: "1px solid #40444b",
+              background: "#36393f",
+              color: "#dcddde",
+              borderRadius: 10,
+              padding: "8px 10px",
+              display: "grid",
+              gap: 4,
+              cursor: "pointer",
+            }}
+            title="メッセージへ移動"
+          >
+            <div style={{ display: "flex", alignItems: "baseline", gap: 6, fontSize: 12, minWidth: 0 }}>
+              <span style={{ color: "#faa61a", fontWeight: 900, flexShrink: 0 }}>{KIND_LABEL[m.kind]}</span>
+              <span style={{ color: "#b9bbbe", fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {m.roomId === currentRoomId ? "" : `${m.roomName} `}#{m.channelName}
+                {m.threadName ? ` › ${m.threadName}` : ""}
+              </span>
+              <span style={{ marginLeft: "auto", color: "#72767d", flexShrink: 0 }}>{formatTime(m.created_at)}</span>
+            </div>
+            <div style={{ fontSize: 12, color: "#ffffff", fontWeight: 800 }}>{m.author}</div>
+            <div
+              style={{
+                fontSize: 13,
+                whiteSpace: "pre-wrap",
+                overflowWrap: "anywhere",
+                display: "-webkit-box",
+                WebkitLineClamp: 3,
+                WebkitBoxOrient: "vertical",
+                overflow: "hidden",
+              }}
+            >
+              {m.content}
+            </div>
+          </button>
+        ))}
+        {loading && <div style={{ fontSize: 12, opacity: 0.8 }}>読み込み中…</div>}
+        {hasMore && !loading && (
+          <button
+            type="button"
+            onClick={() => void loadMore()}
+            style={{ border: "none", background: "transparent", color: "#7289da", cursor: "pointer", fontSize: 12, fontWeight: 800 }}
+          >
+            もっと見る
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { api } from "../api";
-import { ChannelList } from "../ChannelList";
+import { ChannelList, MentionBadge } from "../ChannelList";
 import { Drawer } from "../Drawer";
 import { MemberPane } from "../MemberPane";
+import { roomCan } from "../app/appUtils";
 
 export function MobileDrawers(props: any) {
   const {
@@ -22,24 +23,37 @@ export function MobileDrawers(props: any) {
     treeLoading,
     selectedChannelId,
     unreadByChannelId,
+    mentionCountByChannelId,
+    unreadByRoomId,
     currentUserId,
     displayName,
     currentUserAvatarUrl,
     openSettings,
     selectChannelAndMarkRead,
     openNotification,
+    openMentions,
     openCreateCategory,
     openInviteModal,
     openCreateChannel,
     openDeleteCategory,
     openDeleteChannel,
+    openChannelPermissions,
+    openRename,
+    moveChannel,
+    moveCategory,
 
     avatarDataUrl,
     notifications,
-    setNotifications,
+    notificationUnreadCount,
+    clearNotifications,
+    dismissNotification,
+    openNotificationCenter,
+    openNotificationSettings,
     openAddFriend,
     openHomeAudit,
     homeAuditBusy,
+    isInstanceAdmin,
+    openAdminConsole,
     homeLoading,
     friends,
     openDmWith,
@@ -171,7 +185,13 @@ export function MobileDrawers(props: any) {
                 title={r.name}
               >
                 <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{r.name}</span>
-                {selectedRoomId === r.id && <span style={{ color: "#8e9297", fontSize: 12 }}>表示中</span>}
+                {selectedRoomId === r.id ? (
+                  <span style={{ color: "#8e9297", fontSize: 12 }}>表示中</span>
+                ) : unreadByRoomId?.[r.id]?.mentions ? (
+                  <MentionBadge count={unreadByRoomId[r.id].mentions} />
+                ) : (
+                  unreadByRoomId?.[r.id]?.unread && <span style={{ color: "#f04747", fontSize: 12, fontWeight: 900 }}>未読</span>
+                )}
               </button>
             ))}
 
@@ -294,10 +314,32 @@ export function MobileDrawers(props: any) {
               {notifications.length > 0 && (
                 <div style={{ display: "grid", gap: 8 }}>
                   <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
-                    <div style={{ color: "#8e9297", fontSize: 12, fontWeight: 900 }}>通知</div>
+                    <div style={{ color: "#8e9297", fontSize: 12, fontWeight: 900 }}>
+                      通知{notificationUnreadCount > 0 ? `（未読 ${notificationUnreadCount}）` : ""}
+                    </div>
                     <button
                       type="button"
-                      onClick={() => setNotifications([])}
+                      onClick={() => {
+                        setMobileDrawer(null);
+                        openNotificationCenter();
+                      }}
+                      style={{
+                        marginLeft: "auto",
+                        marginRight: 12,
+                        border: "none",
+                        background: "transparent",
+                        color: "#8e9297",
+                        cursor: "pointer",
+                        fontSize: 12,
+                        fontWeight: 900,
+                        padding: 0,
+                      }}
+                    >
+                      すべて表示
+                    </button>
+                    <button
+                      type="button"
+                      onClick={clearNotifications}
                       style={{
                         border: "none",
                         background: "transparent",
@@ -330,6 +372,7 @@ export function MobileDrawers(props: any) {
                         cursor: "pointer",
                         display: "grid",
                         gap: 4,
+                        opacity: n.unread ? 1 : 0.7,
                       }}
                       title={n.title}
                     >
@@ -386,6 +429,28 @@ export function MobileDrawers(props: any) {
                 監査ログ
               </button>
 
+              {isInstanceAdmin && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setMobileDrawer(null);
+                    openAdminConsole();
+                  }}
+                  style={{
+                    width: "100%",
+                    padding: "12px 12px",
+                    borderRadius: 12,
+                    border: "1px solid #40444b",
+                    background: "transparent",
+                    color: "#dcddde",
+                    cursor: "pointer",
+                    fontWeight: 900,
+                  }}
+                >
+                  管理コンソール
+                </button>
+              )}
+
               <div style={{ color: "#8e9297", fontSize: 12, fontWeight: 900 }}>フレンド</div>
               {homeLoading ? (
                 <div style={{ color: "#8e9297", fontSize: 12 }}>読み込み中…</div>
@@ -539,17 +604,31 @@ export function MobileDrawers(props: any) {
                 selectChannelAndMarkRead(id);
               }}
               unreadByChannelId={unreadByChannelId}
+              mentionCountByChannelId={mentionCountByChannelId}
               notifications={notifications}
-              onClearNotifications={() => setNotifications([])}
-              onDismissNotification={(id) => setNotifications((prev: any[]) => prev.filter((n: any) => n.id !== id))}
+              notificationUnreadCount={notificationUnreadCount}
+              onClearNotifications={clearNotifications}
+              onDismissNotification={dismissNotification}
+              onOpenNotificationCenter={() => {
+                setMobileDrawer(null);
+                openNotificationCenter();
+              }}
+              onOpenNotificationSettings={() => {
+                setMobileDrawer(null);
+                openNotificationSettings();
+              }}
               onOpenNotification={(id) => {
                 setMobileDrawer(null);
                 openNotification(id);
               }}
+              onOpenMentions={() => {
+                setMobileDrawer(null);
+                openMentions();
+              }}
               onRequestCreateCategory={
                 treeLoading
                   ? undefined
-                  : tree.room.owner_id && currentUserId && tree.room.owner_id === currentUserId
+                  : roomCan(tree, "manage_channels")
                     ? () => {
                         setMobileDrawer(null);
                         openCreateCategory();
@@ -567,7 +646,7 @@ export function MobileDrawers(props: any) {
               onRequestCreateChannel={
                 treeLoading
                   ? undefined
-                  : tree.room.owner_id && currentUserId && tree.room.owner_id === currentUserId
+                  : roomCan(tree, "manage_channels")
                     ? (categoryId) => {
                         setMobileDrawer(null);
                         openCreateChannel(categoryId);
@@ -575,7 +654,7 @@ export function MobileDrawers(props: any) {
                     : undefined
               }
               onRequestDeleteCategory={
-                tree.room.owner_id && currentUserId && tree.room.owner_id === currentUserId
+                roomCan(tree, "manage_channels")
                   ? (categoryId, categoryName) => {
                       setMobileDrawer(null);
                       openDeleteCategory(categoryId, categoryName);
@@ -583,13 +662,47 @@ export function MobileDrawers(props: any) {
                   : undefined
               }
               onRequestDeleteChannel={
-                tree.room.owner_id && currentUserId && tree.room.owner_id === currentUserId
+                roomCan(tree, "manage_channels")
                   ? (channelId, channelName) => {
                       setMobileDrawer(null);
                       openDeleteChannel(channelId, channelName);
                     }
                   : undefined
               }
+              onRequestChannelPermissions={
+                roomCan(tree, "manage_channels")
+                  ? (channelId, channelName) => {
+                      setMobileDrawer(null);
+                      openChannelPermissions(channelId, channelName);
+                    }
+                  : undefined
+              }
+              onRequestRenameRoom={
+                tree.room.owner_id && tree.room.owner_id === currentUserId
+                  ? () => {
+                      setMobileDrawer(null);
+                      openRename("room", tree.room.id, tree.room.name);
+                    }
+                  : undefined
+              }
+              onRequestRenameCategory={
+                roomCan(tree, "manage_channels")
+                  ? (categoryId, name) => {
+                      setMobileDrawer(null);
+                      openRename("category", categoryId, name);
+                    }
+                  : undefined
+              }
+              onRequestRenameChannel={
+                roomCan(tree, "manage_channels")
+                  ? (channelId, name) => {
+                      setMobileDrawer(null);
+                      openRename("channel", channelId, name);
+                    }
+                  : undefined
+              }
+              onMoveChannel={treeLoading || !roomCan(tree, "manage_channels") ? undefined : moveChannel}
+              onMoveCategory={treeLoading || !roomCan(tree, "manage_channels") ? undefined : moveCategory}
               currentUserName={displayName || currentUserId || "user"}
               currentUserAvatarUrl={currentUserAvatarUrl}
               onOpenSettings={
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import type { Message } from "../api";
+import { api } from "../api";
+import { realtime } from "../realtime";
+
+type Props = {
+  channelId: string;
+  channelName: string | null;
+  // pin_messages: may unpin from the list
+  canPinMessages?: boolean;
+  // width of the panes to the right of the message area
+  offsetRight?: number;
+  onJump: (messageId: string) => void;
+  onClose: () => void;
+};
+
+function formatTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString([], { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+}
+
+// Pinned messages of the selected channel, shown over the top right of the message area.
+export function PinsPopover({ channelId, channelName, canPinMessages, offsetRight = 0, onJump, onClose }: Props) {
+  const [items, setItems] = useState<Message[]>([]);
+  const [max, setMax] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // bumped by pin events to reload the list (order and content come from the server)
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    api
+      .listChannelPins(channelId)
+      .then((r) => {
+        if (cancelled) return;
+        setItems(r.items);
+        setMax(r.max);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "failed");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [channelId, reloadKey]);
+
+  useEffect(() => {
+    const unsubPins = realtime.subscribeChannelPins(channelId, () => setReloadKey((k) => k + 1));
+    const unsubDeleted = realtime.subscribeChannelDeleted(channelId, ({ messageId }) => {
+      setItems((prev) => prev.filter((m) => m.id !== messageId));
+    });
+    return () => {
+      unsubPins();
+      unsubDeleted();
+    };
+  }, [channelId]);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === "Escape") onClose();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  async function unpin(messageId: string) {
+    setBusyId(messageId);
+    setError(null);
+    try {
+      await api.unpinMessage(messageId);
+      setItems((prev) => prev.filter((m) => m.id !== messageId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-label="ピン留めされたメッセージ"
+      style={{
+        position: "absolute",
+        top: 56,
+        right: offsetRight + 16,
+        zIndex: 20,
+        width: 360,
+        maxWidth: "calc(100% - 32px)",
+        maxHeight: "min(520px, calc(100% - 80px))",
+        display: "flex",
+        flexDirection: "column",
+        background: "#2f3136",
+        color: "#dcddde",
+        border: "1px solid #202225",
+        borderRadius: 12,
+        boxShadow: "0 8px 24px rgba(0,0,0,0.45)",
+        overflow: "hidden",
+      }}
+    >
+      <div
+        style={{
+          padding: "12px 14px",
+          borderBottom: "1px solid #202225",
+          display: "flex",
+          alignItems: "center",
+          gap: 8,
+        }}
+      >
+        <div style={{ flex: 1, minWidth: 0, fontWeight: 900, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          📌 #{channelName ?? ""} のピン留め
+        </div>
+        {max > 0 && (
+          <span style={{ fontSize: 12, color: "#8e9297" }}>
+            {items.length}/{max}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          style={{
+            border: "1px solid #40444b",
+            background: "transparent",
+            color: "#b9bbbe",
+            cursor: "pointer",
+            padding: "2px 8px",
+            borderRadius: 999,
+            fontSize: 12,
+            fontWeight: 900,
+          }}
+          title="閉じる"
+          aria-label="閉じる"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="darkScroll" style={{ flex: 1, overflowY: "auto", padding: 10, display: "grid", gap: 8, alignContent: "start" }}>
+        {loading && <div style={{ fontSize: 12, opacity: 0.8 }}>読み込み中…</div>}
+        {error && <div style={{ fontSize: 12, color: "#ff7a7a" }}>{error}</div>}
+        {!loading && !error && items.length === 0 && (
+          <div style={{ fontSize: 13, color: "#8e9297" }}>ピン留めされたメッセージはまだないよ</div>
+        )}
+        {items.map((m) => (
+          <div
+            key={m.id}
+            style={{
+              border: "1px solid #40444b",
+              background: "#36393f",
+              borderRadius: 10,
+              padding: "8px 10px",
+              display: "grid",
+              gap: 4,
+            }}
+          >
+            <div style={{ display: "flex", alignItems: "baseline", gap: 8, fontSize: 12 }}>
+              <span style={{ color: "#ffffff", fontWeight: 800 }}>{m.author}</span>
+              <span style={{ color: "#72767d" }}>{formatTime(m.created_at)}</span>
+            </div>
+            <div
+              style={{
+                fontSize: 13,
+                whiteSpace: "pre-wrap",
+                overflowWrap: "anywhere",
+                display: "-webkit-box",
+                WebkitLineClamp: 4,
+                WebkitBoxOrient: "vertical",
+                overflow: "hidden",
+              }}
+            >
+              {m.poll ? `📊 ${m.poll.question}` : m.content || ((m.attachments?.length ?? 0) > 0 ? "（添付ファイル）" : "")}
+            </div>
+            <div style={{ display: "flex", gap: 10 }}>
+              <button
+                type="button"
+                onClick={() => onJump(m.id)}
+                style={{ border: "none", background: "transparent", color: "#7289da", cursor: "pointer", fontSize: 12, padding: 0, fontWeight: 800 }}
+              >
+                メッセージへ移動
+              </button>
+              {canPinMessages && (
+                <button
+                  type="button"
+                  onClick={() => void unpin(m.id)}
+                  disabled={busyId === m.id}
+                  style={{
+                    border: "none",
+                    background: "transparent",
+                    color: "#8e9297",
+                    cursor: busyId === m.id ? "not-allowed" : "pointer",
+                    fontSize: 12,
+                    padding: 0,
+                    fontWeight: 800,
+                  }}
+                >
+                  ピン留めを外す
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
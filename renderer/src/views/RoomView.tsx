@@ -5,7 +5,11 @@ import { HomeSidebar } from "./HomeSidebar";
 import { MemberPane } from "../MemberPane";
 import { MessageArea } from "../MessageArea";
 import { MobileDrawers } from "./MobileDrawers";
+import { MentionsPopover } from "./MentionsPopover";
+import { PinsPopover } from "./PinsPopover";
 import { ServerList } from "../ServerList";
+import { findTreeChannel, roomCan } from "../app/appUtils";
+import { api, type Thread } from "../api";
 
 function readNumber(key: string, fallback: number): number {
   try {
@@ -45,6 +49,8 @@ export function RoomView(props: any) {
     openAddFriend,
     openHomeAudit,
     homeAuditBusy,
+    isInstanceAdmin,
+    openAdminConsole,
     homeError,
     addFriendOpen,
     homeLoading,
@@ -61,14 +67,27 @@ export function RoomView(props: any) {
     selectedChannelName,
     selectChannelAndMarkRead,
     unreadByChannelId,
+    mentionCountByChannelId,
+    unreadByRoomId,
+    readMarker,
+    markUnread,
     notifications,
-    setNotifications,
+    notificationUnreadCount,
+    clearNotifications,
+    dismissNotification,
+    openNotificationCenter,
+    openNotificationSettings,
     openNotification,
+    openRoomMessage,
     openCreateCategory,
     openInviteModal,
     openCreateChannel,
     openDeleteCategory,
     openDeleteChannel,
+    openChannelPermissions,
+    openRename,
+    moveChannel,
+    moveCategory,
 
     memberPane,
     memberPaneLoading,
@@ -122,6 +141,11 @@ export function RoomView(props: any) {
     avatarDataUrl,
   } = props;
 
+  const [openThread, setOpenThread] = useState<Thread | null>(null);
+  const [threadFocus, setThreadFocus] = useState<{ messageId: string; nonce: number } | null>(null);
+  const [pinsChannelId, setPinsChannelId] = useState<string | null>(null);
+  const [mentionsOpen, setMentionsOpen] = useState(false);
+
   if (!authed) return null;
 
   const rootRef = useRef<HTMLDivElement | null>(null);
@@ -177,6 +201,29 @@ export function RoomView(props: any) {
   useEffect(() => writeNumber("yuiroom.ui.homeSidebarWidth", homeSidebarWidth), [homeSidebarWidth]);
   useEffect(() => writeNumber("yuiroom.ui.memberPaneWidth", memberPaneWidth), [memberPaneWidth]);
 
+  const selectedChannel = findTreeChannel(tree, selectedChannelId);
+  const mentionCandidates = [
+    // the server only notifies these with mention_everyone
+    ...(roomCan(tree, "mention_everyone")
+      ? [
+          { userId: "everyone", displayName: "全員" },
+          { userId: "here", displayName: "オンラインのメンバー" },
+        ]
+      : []),
+    ...memberPane.map((m: any) => ({ userId: m.userId, displayName: m.displayName })),
+  ];
+
+  // The thread side panel only stays open while its channel is selected.
+  const activeThread = openThread && openThread.channelId === selectedChannelId ? openThread : null;
+
+  // pins popover of the selected channel (closes itself when the channel changes)
+  const pinsOpen = !!selectedChannelId && pinsChannelId === selectedChannelId;
+
+  function openThreadPanel(thread: Thread, focusMessageId?: string) {
+    setOpenThread(thread);
+    setThreadFocus((prev) => (focusMessageId ? { messageId: focusMessageId, nonce: (prev?.nonce ?? 0) + 1 } : null));
+  }
+
   const dividerStyle: any = {
     width: 6,
     cursor: "col-resize",
@@ -216,6 +263,7 @@ export function RoomView(props: any) {
           onSelectRoom={setSelectedRoomId}
           onRequestCreateRoom={roomsLoading ? undefined : openCreateRoom}
           homeId={HOME_ID}
+          unreadByRoomId={unreadByRoomId}
         />
       )}
 
@@ -226,6 +274,10 @@ export function RoomView(props: any) {
             openAddFriend={openAddFriend}
             openHomeAudit={openHomeAudit}
             homeAuditBusy={homeAuditBusy}
+            isInstanceAdmin={isInstanceAdmin}
+            openAdminConsole={openAdminConsole}
+            notificationUnreadCount={notificationUnreadCount}
+            openNotificationCenter={openNotificationCenter}
             homeError={homeError}
             addFriendOpen={addFriendOpen}
             homeLoading={homeLoading}
@@ -244,14 +296,19 @@ export function RoomView(props: any) {
           selectedChannelId={selectedChannelId}
           onSelectChannel={selectChannelAndMarkRead}
           unreadByChannelId={unreadByChannelId}
+          mentionCountByChannelId={mentionCountByChannelId}
           notifications={notifications}
-          onClearNotifications={() => setNotifications([])}
-          onDismissNotification={(id) => setNotifications((prev: any[]) => prev.filter((n: any) => n.id !== id))}
+          notificationUnreadCount={notificationUnreadCount}
+          onClearNotifications={clearNotifications}
+          onDismissNotification={dismissNotification}
           onOpenNotification={openNotification}
+          onOpenNotificationCenter={openNotificationCenter}
+          onOpenNotificationSettings={openNotificationSettings}
+          onOpenMentions={() => setMentionsOpen((v) => !v)}
           onRequestCreateCategory={
             treeLoading
               ? undefined
-              : tree.room.owner_id && currentUserId && tree.room.owner_id === currentUserId
+              : roomCan(tree, "manage_channels")
                 ? openCreateCategory
                 : undefined
           }
@@ -259,16 +316,36 @@ export function RoomView(props: any) {
           onRequestCreateChannel={
             treeLoading
               ? undefined
-              : tree.room.owner_id && currentUserId && tree.room.owner_id === currentUserId
+              : roomCan(tree, "manage_channels")
                 ? openCreateChannel
                 : undefined
           }
           onRequestDeleteCategory={
-            tree.room.owner_id && currentUserId && tree.room.owner_id === currentUserId ? openDeleteCategory : undefined
+            roomCan(tree, "manage_channels") ? openDeleteCategory : undefined
           }
           onRequestDeleteChannel={
-            tree.room.owner_id && currentUserId && tree.room.owner_id === currentUserId ? openDeleteChannel : undefined
+            roomCan(tree, "manage_channels") ? openDeleteChannel : undefined
+          }
+          onRequestChannelPermissions={
+            roomCan(tree, "manage_channels") ? openChannelPermissions : undefined
+          }
+          onRequestRenameRoom={
+            tree.room.owner_id && tree.room.owner_id === currentUserId
+              ? () => openRename("room", tree.room.id, tree.room.name)
+              : undefined
+          }
+          onRequestRenameCategory={
+            roomCan(tree, "manage_channels")
+              ? (categoryId: string, name: string) => openRename("category", categoryId, name)
+              : undefined
           }
+          onRequestRenameChannel={
+            roomCan(tree, "manage_channels")
+              ? (channelId: string, name: string) => openRename("channel", channelId, name)
+              : undefined
+          }
+          onMoveChannel={treeLoading || !roomCan(tree, "manage_channels") ? undefined : moveChannel}
+          onMoveCategory={treeLoading || !roomCan(tree, "manage_channels") ? undefined : moveCategory}
           currentUserName={displayName || currentUserId || "user"}
           currentUserAvatarUrl={currentUserAvatarUrl}
           onOpenSettings={currentUserId ? openSettings : undefined}
@@ -344,24 +421,117 @@ export function RoomView(props: any) {
           }}
         />
       ) : (
-        <div style={{ display: "flex", flex: 1, minWidth: 0, height: "var(--app-height)", overflowX: "hidden" }}>
-          <MessageArea
-            roomId={tree?.room?.id ?? null}
-            selectedChannelId={selectedChannelId}
-            selectedChannelName={selectedChannelName}
-            onAuthorClick={({ userId, displayName: dn }) => openUserActions(userId, { displayName: dn })}
-            currentUserId={currentUserId}
-            canModerate={!!(tree?.room.owner_id && currentUserId && tree.room.owner_id === currentUserId)}
-            mentionCandidates={memberPane.map((m: any) => ({ userId: m.userId, displayName: m.displayName }))}
-            enterKeySends={enterKeySends}
-            focusMessageId={focusMessage?.messageId ?? null}
-            focusMessageNonce={focusMessage?.nonce ?? 0}
-            onJumpToMessage={({ channelId, messageId }) => {
-              setFocusMessage((prev: any) => ({ messageId, nonce: (prev?.nonce ?? 0) + 1 }));
-              selectChannelAndMarkRead(channelId);
-            }}
-          />
-          {!isNarrow && (
+        <div
+          style={{ display: "flex", flex: 1, minWidth: 0, height: "var(--app-height)", overflowX: "hidden", position: "relative" }}
+        >
+          {!(isNarrow && activeThread) && (
+            <MessageArea
+              roomId={tree?.room?.id ?? null}
+              selectedChannelId={selectedChannelId}
+              selectedChannelName={selectedChannelName}
+              onAuthorClick={({ userId, displayName: dn }) => openUserActions(userId, { displayName: dn })}
+              currentUserId={currentUserId}
+              canEditOthers={!!(tree?.room.owner_id && currentUserId && tree.room.owner_id === currentUserId)}
+              canDeleteOthers={roomCan(tree, "delete_messages")}
+              canManageStickers={roomCan(tree, "manage_stickers")}
+              channelPermissions={selectedChannel?.permissions}
+              channelTopic={selectedChannel?.topic ?? null}
+              channelType={selectedChannel?.type}
+              slowmodeSeconds={selectedChannel?.slowmodeSeconds ?? 0}
+              slowmodeExempt={roomCan(tree, "manage_channels")}
+              mentionCandidates={mentionCandidates}
+              enterKeySends={enterKeySends}
+              focusMessageId={focusMessage?.messageId ?? null}
+              focusMessageNonce={focusMessage?.nonce ?? 0}
+              onJumpToMessage={({ channelId, messageId, threadId }) => {
+                if (threadId) {
+                  selectChannelAndMarkRead(channelId);
+                  void api
+                    .getThread(threadId)
+                    .then((r) => openThreadPanel(r.thread, messageId))
+                    .catch(() => {});
+                  return;
+                }
+                setFocusMessage((prev: any) => ({ messageId, nonce: (prev?.nonce ?? 0) + 1 }));
+                selectChannelAndMarkRead(channelId);
+              }}
+              onOpenThread={(t) => openThreadPanel(t)}
+              canPinMessages={roomCan(tree, "pin_messages")}
+              readMarker={readMarker?.channelId === selectedChannelId ? readMarker : null}
+              onMarkUnread={selectedChannelId ? (messageId: string) => markUnread(selectedChannelId, messageId) : undefined}
+              onOpenPins={() => {
+                setMentionsOpen(false);
+                setPinsChannelId(pinsOpen ? null : selectedChannelId);
+              }}
+            />
+          )}
+          {pinsOpen && (
+            <PinsPopover
+              channelId={selectedChannelId}
+              channelName={selectedChannelName}
+              canPinMessages={roomCan(tree, "pin_messages")}
+              // keep it over the message area, left of the member list / thread panel
+              offsetRight={isNarrow ? 0 : activeThread ? 400 : memberPaneWidth + 6}
+              onJump={(messageId) => {
+                setPinsChannelId(null);
+                setFocusMessage((prev: { nonce?: number } | null) => ({ messageId, nonce: (prev?.nonce ?? 0) + 1 }));
+              }}
+              onClose={() => setPinsChannelId(null)}
+            />
+          )}
+          {mentionsOpen && !pinsOpen && (
+            <MentionsPopover
+              currentRoomId={tree?.room?.id ?? null}
+              offsetRight={isNarrow ? 0 : activeThread ? 400 : memberPaneWidth + 6}
+              onJump={(m) => {
+                setMentionsOpen(false);
+                // threads of the room on screen open in the side panel
+                if (m.threadId && m.roomId === tree?.room?.id) {
+                  selectChannelAndMarkRead(m.channelId);
+                  void api
+                    .getThread(m.threadId)
+                    .then((r) => openThreadPanel(r.thread, m.id))
+                    .catch(() => {});
+                  return;
+                }
+                void openRoomMessage(m);
+              }}
+              onClose={() => setMentionsOpen(false)}
+            />
+          )}
+          {activeThread && (
+            <div
+              style={{
+                display: "flex",
+                width: isNarrow ? "100%" : 400,
+                flexShrink: 0,
+                borderLeft: isNarrow ? "none" : "1px solid #202225",
+                minWidth: 0,
+              }}
+            >
+              <MessageArea
+                key={activeThread.id}
+                roomId={tree?.room?.id ?? null}
+                selectedChannelId={selectedChannelId}
+                selectedChannelName={selectedChannelName}
+                thread={activeThread}
+                canManageThreads={roomCan(tree, "manage_channels")}
+                onCloseThread={() => setOpenThread(null)}
+                onAuthorClick={({ userId, displayName: dn }) => openUserActions(userId, { displayName: dn })}
+                currentUserId={currentUserId}
+                canEditOthers={!!(tree?.room.owner_id && currentUserId && tree.room.owner_id === currentUserId)}
+                canDeleteOthers={roomCan(tree, "delete_messages")}
+                canManageStickers={roomCan(tree, "manage_stickers")}
+                channelPermissions={selectedChannel?.permissions}
+                channelType={selectedChannel?.type}
+                mentionCandidates={mentionCandidates}
+                enterKeySends={enterKeySends}
+                focusMessageId={threadFocus?.messageId ?? null}
+                focusMessageNonce={threadFocus?.nonce ?? 0}
+              />
+            </div>
+          )}
+          {!isNarrow && !activeThread && (
             <>
               <div
                 role="separator"
@@ -403,23 +573,36 @@ export function RoomView(props: any) {
         treeLoading={treeLoading}
         selectedChannelId={selectedChannelId}
         unreadByChannelId={unreadByChannelId}
+        mentionCountByChannelId={mentionCountByChannelId}
+        unreadByRoomId={unreadByRoomId}
         currentUserId={currentUserId}
         displayName={displayName}
         currentUserAvatarUrl={currentUserAvatarUrl}
         openSettings={openSettings}
         selectChannelAndMarkRead={selectChannelAndMarkRead}
         openNotification={openNotification}
+        openMentions={() => setMentionsOpen(true)}
         openCreateCategory={openCreateCategory}
         openInviteModal={openInviteModal}
         openCreateChannel={openCreateChannel}
         openDeleteCategory={openDeleteCategory}
         openDeleteChannel={openDeleteChannel}
+        openChannelPermissions={openChannelPermissions}
+        openRename={openRename}
+        moveChannel={moveChannel}
+        moveCategory={moveCategory}
         avatarDataUrl={avatarDataUrl}
         notifications={notifications}
-        setNotifications={setNotifications}
+        notificationUnreadCount={notificationUnreadCount}
+        clearNotifications={clearNotifications}
+        dismissNotification={dismissNotification}
+        openNotificationCenter={openNotificationCenter}
+        openNotificationSettings={openNotificationSettings}
         openAddFriend={openAddFriend}
         openHomeAudit={openHomeAudit}
         homeAuditBusy={homeAuditBusy}
+        isInstanceAdmin={isInstanceAdmin}
+        openAdminConsole={openAdminConsole}
         homeLoading={homeLoading}
         friends={friends}
         openDmWith={openDmWith}